@@ -217,12 +217,75 @@ export function useUpdateRFI(rfiId: string, projectId?: string) {
   });
 }
 
+export function useTransitionRFI(rfiId: string, projectId?: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: { status: string; note?: string }) => {
+      const response = await apiRequest("POST", `/api/rfis/${rfiId}/transition`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.rfi(rfiId) });
+      qc.invalidateQueries({ queryKey: queryKeys.rfiHistory(rfiId) });
+      invalidationPatterns.rfi(projectId).forEach(key => qc.invalidateQueries({ queryKey: key }));
+    },
+  });
+}
+
+// AI draft of a new RFI from the originator's notes (nothing is saved, so nothing to invalidate)
+export function useDraftRFIWithAI(projectId: string) {
+  return useMutation({
+    mutationFn: async (notes: string) => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/rfis/ai-draft`, { notes });
+      return response.json();
+    },
+  });
+}
+
+// RFI Attachment Mutations
+export function useUploadRFIAttachments(rfiId: string, projectId?: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ files, rfiId: targetRfiId = rfiId }: { files: File[]; rfiId?: string }) => {
+      const formData = new FormData();
+      files.forEach(file => formData.append("files", file));
+      const response = await apiRequest("POST", `/api/rfis/${targetRfiId}/attachments`, formData);
+      return response.json();
+    },
+    onSuccess: (_, variables) => {
+      qc.invalidateQueries({ queryKey: queryKeys.rfi(variables.rfiId || rfiId) });
+      invalidationPatterns.rfi(projectId).forEach(key => qc.invalidateQueries({ queryKey: key }));
+    },
+  });
+}
+
+export function useDeleteRFIAttachment(rfiId: string, projectId?: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (attachmentId: string) => {
+      const response = await apiRequest("DELETE", `/api/rfis/${rfiId}/attachments/${attachmentId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.rfi(rfiId) });
+      invalidationPatterns.rfi(projectId).forEach(key => qc.invalidateQueries({ queryKey: key }));
+    },
+  });
+}
+
 // RFI Comment Mutations
 export function useCreateRFIComment(rfiId: string, projectId?: string) {
   const qc = useQueryClient();
   return useMutation({
-    mutationFn: async (data: { userAccountId: string; content: string; attachments?: any }) => {
-      const response = await apiRequest("POST", `/api/rfis/${rfiId}/comments`, data);
+    mutationFn: async ({ files, ...data }: { userAccountId: string; content: string; files?: File[] }) => {
+      let body: any = data;
+      if (files && files.length > 0) {
+        body = new FormData();
+        body.append("userAccountId", data.userAccountId);
+        body.append("content", data.content);
+        files.forEach(file => body.append("files", file));
+      }
+      const response = await apiRequest("POST", `/api/rfis/${rfiId}/comments`, body);
       return response.json();
     },
     onSuccess: () => {
@@ -26,6 +26,8 @@ export const queryKeys = {
   rfis: () => ['/api/rfis'] as const,
   rfi: (id: string) => ['/api/rfis', id] as const,
   rfiComments: (rfiId: string) => ['/api/rfis', rfiId, 'comments'] as const,
+  rfiHistory: (rfiId: string) => ['/api/rfis', rfiId, 'history'] as const,
+  projectRfiSlaRules: (projectId: string) => ['/api/projects', projectId, 'rfi-sla-rules'] as const,
   
   // Users & People
   users: () => ['/api/users'] as const,
@@ -23,6 +23,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { HighlightedSnippet } from "@/components/HighlightedSnippet";
 import { Upload, FileText, Search, Lightbulb, Sparkles, Loader2, Trash2, Eraser } from "lucide-react";
 
 // Configure PDF.js worker
@@ -47,6 +48,7 @@ interface CorrespondenceLetter {
   category: string;
   source?: string;
   createdAt: string;
+  highlight?: string | null;
 }
 
 export function AILetterTab({ projectId }: AILetterTabProps) {
@@ -57,6 +59,7 @@ export function AILetterTab({ projectId }: AILetterTabProps) {
   const [customInstructions, setCustomInstructions] = useState("");
   const [generatedResponse, setGeneratedResponse] = useState("");
   const [searchResults, setSearchResults] = useState<CorrespondenceLetter[]>([]);
+  const [relatedQuery, setRelatedQuery] = useState("");
   
   // Progress tracking
   const [generationProgress, setGenerationProgress] = useState<{
@@ -317,11 +320,12 @@ export function AILetterTab({ projectId }: AILetterTabProps) {
     },
   });
 
-  // Semantic search mutation using AI embeddings and SharePoint
+  // Semantic search mutation using AI embeddings and SharePoint, with optional keywords
   const searchSimilarMutation = useMutation({
-    mutationFn: async (letterId: string) => {
+    mutationFn: async ({ letterId, query }: { letterId: string; query?: string }) => {
       const response = await apiRequest('POST', `/api/projects/${projectId}/correspondence/search`, {
-        letterId
+        letterId,
+        query
       });
       const results = await response.json();
       // Return both the letterId and results to track which letter these results are for
@@ -344,7 +348,7 @@ export function AILetterTab({ projectId }: AILetterTabProps) {
         setSelectedPreviewLetter(null);
       }
     },
-    onError: (error, letterId) => {
+    onError: (error, { letterId }) => {
       // Only show fallback if this is still the current letter
       if (letterId !== uploadedLetterId) {
         return;
@@ -375,7 +379,8 @@ export function AILetterTab({ projectId }: AILetterTabProps) {
     }
     
     // Trigger AI semantic search with SharePoint integration
-    searchSimilarMutation.mutate(uploadedLetterId);
+    setRelatedQuery("");
+    searchSimilarMutation.mutate({ letterId: uploadedLetterId });
   }, [uploadedLetterId]);
 
   // Delete letter mutation
@@ -442,7 +447,7 @@ export function AILetterTab({ projectId }: AILetterTabProps) {
       
       // Re-run search if a letter is selected
       if (uploadedLetterId) {
-        searchSimilarMutation.mutate(uploadedLetterId);
+        searchSimilarMutation.mutate({ letterId: uploadedLetterId, query: relatedQuery.trim() || undefined });
       }
     },
     onError: (error: Error) => {
@@ -1131,6 +1136,33 @@ export function AILetterTab({ projectId }: AILetterTabProps) {
                           <div className="flex items-center justify-between mb-2">
                             <p className="text-xs font-medium">AI Suggestions:</p>
                           </div>
+                          <form
+                            className="flex items-center gap-1 mb-2"
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              if (uploadedLetterId) {
+                                searchSimilarMutation.mutate({ letterId: uploadedLetterId, query: relatedQuery.trim() || undefined });
+                              }
+                            }}
+                          >
+                            <Input
+                              value={relatedQuery}
+                              onChange={(e) => setRelatedQuery(e.target.value)}
+                              placeholder='Keywords, "phrases", OR, -exclude'
+                              className="h-7 text-xs"
+                              data-testid="input-related-letters-query"
+                            />
+                            <Button
+                              type="submit"
+                              size="icon"
+                              variant="ghost"
+                              className="h-7 w-7 shrink-0"
+                              disabled={searchSimilarMutation.isPending}
+                              data-testid="button-search-related-letters"
+                            >
+                              <Search className="h-3.5 w-3.5" />
+                            </Button>
+                          </form>
                           <div 
                             className="flex-1 overflow-auto [&::-webkit-scrollbar]:w-3 [&::-webkit-scrollbar]:h-3 [&::-webkit-scrollbar-track]:bg-muted [&::-webkit-scrollbar-thumb]:bg-muted-foreground/30 [&::-webkit-scrollbar-thumb]:rounded-md [&::-webkit-scrollbar-thumb:hover]:bg-muted-foreground/50"
                             style={{
@@ -1176,6 +1208,7 @@ export function AILetterTab({ projectId }: AILetterTabProps) {
                                         <p className="text-xs text-muted-foreground mt-1">
                                           {letter.sender && `From: ${letter.sender}`}
                                         </p>
+                                        <HighlightedSnippet text={letter.highlight} className="mt-1 line-clamp-3" />
                                       </div>
                                     </div>
                                   </div>
@@ -25,7 +25,6 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Plus, CheckCircle, XCircle, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { useAuth } from "@/contexts/AuthContext";
 
 interface ApprovalDialogProps {
   open: boolean;
@@ -43,7 +42,6 @@ export function ApprovalDialog({
   employmentRoles,
 }: ApprovalDialogProps) {
   const { toast } = useToast();
-  const { currentUser } = useAuth();
   const [showNewApprovalForm, setShowNewApprovalForm] = useState(false);
   const [newApproval, setNewApproval] = useState({
     comments: "",
@@ -131,10 +129,7 @@ export function ApprovalDialog({
   });
 
   const handleCreateApproval = () => {
-    createApprovalMutation.mutate({
-      ...newApproval,
-      createdBy: currentUser?.id || "system",
-    });
+    createApprovalMutation.mutate(newApproval);
   };
 
   const handleApprovalDecision = (approvalId: string, status: string, reviewComments: string) => {
@@ -143,7 +138,6 @@ export function ApprovalDialog({
       data: {
         status,
         reviewComments,
-        reviewedBy: currentUser?.id || "system",
       },
     });
   };
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Plus, Trash2 } from "lucide-react";
+import type { EventTag } from "@/components/EventTagsDialog";
+
+interface BOQFinalQuantitiesProps {
+  projectId: string;
+  itemId: string;
+  unit: string | null;
+  eventTags: EventTag[];
+}
+
+type FinalQuantity = {
+  id: string;
+  boqItemId: string;
+  eventTagId: string | null;
+  qty: string | null;
+  comments: string | null;
+  date: string | null;
+};
+
+const NONE = "none";
+
+/**
+ * Final (measured) quantities recorded against a BOQ item, each optionally attributed to an event tag
+ */
+export function BOQFinalQuantities({ projectId, itemId, unit, eventTags }: BOQFinalQuantitiesProps) {
+  const { toast } = useToast();
+  const [newQty, setNewQty] = useState("");
+  const [newDate, setNewDate] = useState("");
+  const [newEventTagId, setNewEventTagId] = useState<string>(NONE);
+  const [newComments, setNewComments] = useState("");
+
+  const quantitiesQueryKey = ["/api/projects", projectId, "boq", "items", itemId, "final-quantities"];
+
+  const { data: quantities = [] } = useQuery<FinalQuantity[]>({
+    queryKey: quantitiesQueryKey,
+    enabled: !!projectId && !!itemId,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/projects/${projectId}/boq/items/${itemId}/final-quantities`, {
+        qty: newQty,
+        date: newDate || null,
+        eventTagId: newEventTagId === NONE ? null : newEventTagId,
+        comments: newComments.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: quantitiesQueryKey });
+      setNewQty("");
+      setNewDate("");
+      setNewComments("");
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to record final quantity.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<FinalQuantity> }) => {
+      return await apiRequest("PATCH", `/api/projects/${projectId}/boq/final-quantities/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: quantitiesQueryKey });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update final quantity.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/projects/${projectId}/boq/final-quantities/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: quantitiesQueryKey });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete final quantity.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const totalQty = quantities.reduce((sum, q) => sum + Number(q.qty ?? 0), 0);
+
+  return (
+    <div className="space-y-2" data-testid="section-final-quantities">
+      <div className="flex items-center justify-between">
+        <Label>Final Quantities</Label>
+        {quantities.length > 0 && (
+          <span className="text-xs text-muted-foreground tabular-nums" data-testid="text-final-qty-total">
+            Total: {totalQty.toLocaleString()} {unit}
+          </span>
+        )}
+      </div>
+
+      {quantities.map((quantity) => (
+        <div key={quantity.id} className="grid grid-cols-[100px_130px_1fr_1fr_32px] gap-2 items-center" data-testid={`row-final-qty-${quantity.id}`}>
+          <Input
+            key={`${quantity.id}-qty-${quantity.qty}`}
+            type="number"
+            step="0.0001"
+            defaultValue={quantity.qty ?? ""}
+            onBlur={(e) => {
+              if (e.target.value !== "" && Number(e.target.value) !== Number(quantity.qty)) {
+                updateMutation.mutate({ id: quantity.id, data: { qty: e.target.value } });
+              }
+            }}
+            className="h-8 text-xs text-right tabular-nums"
+            data-testid={`input-final-qty-${quantity.id}`}
+          />
+          <Input
+            key={`${quantity.id}-date-${quantity.date}`}
+            type="date"
+            defaultValue={quantity.date?.slice(0, 10) ?? ""}
+            onBlur={(e) => {
+              if (e.target.value !== (quantity.date?.slice(0, 10) ?? "")) {
+                updateMutation.mutate({ id: quantity.id, data: { date: e.target.value || null } });
+              }
+            }}
+            className="h-8 text-xs"
+            data-testid={`input-final-qty-date-${quantity.id}`}
+          />
+          <Select
+            value={quantity.eventTagId ?? NONE}
+            onValueChange={(value) =>
+              updateMutation.mutate({ id: quantity.id, data: { eventTagId: value === NONE ? null : value } })
+            }
+          >
+            <SelectTrigger className="h-8 text-xs" data-testid={`select-final-qty-event-tag-${quantity.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>No event</SelectItem>
+              {eventTags.map((tag) => (
+                <SelectItem key={tag.id} value={tag.id}>{tag.no} - {tag.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            key={`${quantity.id}-comments-${quantity.comments}`}
+            defaultValue={quantity.comments ?? ""}
+            placeholder="Comments"
+            onBlur={(e) => {
+              if (e.target.value.trim() !== (quantity.comments ?? "")) {
+                updateMutation.mutate({ id: quantity.id, data: { comments: e.target.value.trim() || null } });
+              }
+            }}
+            className="h-8 text-xs"
+            data-testid={`input-final-qty-comments-${quantity.id}`}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => deleteMutation.mutate(quantity.id)}
+            data-testid={`button-delete-final-qty-${quantity.id}`}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+
+      {/* New final quantity */}
+      <div className="grid grid-cols-[100px_130px_1fr_1fr_32px] gap-2 items-center">
+        <Input
+          type="number"
+          step="0.0001"
+          value={newQty}
+          onChange={(e) => setNewQty(e.target.value)}
+          placeholder="Qty"
+          className="h-8 text-xs text-right"
+          data-testid="input-new-final-qty"
+        />
+        <Input
+          type="date"
+          value={newDate}
+          onChange={(e) => setNewDate(e.target.value)}
+          className="h-8 text-xs"
+          data-testid="input-new-final-qty-date"
+        />
+        <Select value={newEventTagId} onValueChange={setNewEventTagId}>
+          <SelectTrigger className="h-8 text-xs" data-testid="select-new-final-qty-event-tag">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>No event</SelectItem>
+            {eventTags.map((tag) => (
+              <SelectItem key={tag.id} value={tag.id}>{tag.no} - {tag.title}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={newComments}
+          onChange={(e) => setNewComments(e.target.value)}
+          placeholder="Comments"
+          className="h-8 text-xs"
+          data-testid="input-new-final-qty-comments"
+        />
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => createMutation.mutate()}
+          disabled={newQty === "" || createMutation.isPending}
+          data-testid="button-add-final-qty"
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
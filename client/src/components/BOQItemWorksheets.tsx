@@ -0,0 +1,143 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Layers, RotateCcw } from "lucide-react";
+import type { Worksheet } from "@shared/schema";
+
+type WorksheetWithStats = Worksheet & {
+  itemCount?: number;
+  totalSum?: string;
+};
+
+interface BOQItemWorksheetsProps {
+  projectId: string;
+  itemId: string;
+  quantity: number | string | null;
+  worksheetIds: string[];
+  rateOverride: boolean;
+  onItemChange: (item: { rate: number | string | null; amount: number | string | null; worksheetIds: string[]; rateOverride: boolean }) => void;
+}
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Worksheets a BOQ item's rate is built up from: rate = sum of worksheet totals / quantity
+ */
+export function BOQItemWorksheets({ projectId, itemId, quantity, worksheetIds, rateOverride, onItemChange }: BOQItemWorksheetsProps) {
+  const { toast } = useToast();
+
+  const { data: worksheets = [] } = useQuery<WorksheetWithStats[]>({
+    queryKey: ["/api/projects", projectId, "worksheets"],
+    enabled: !!projectId,
+  });
+
+  const handleItemResponse = async (response: Response) => {
+    const item = await response.json();
+    onItemChange(item);
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "boq", "items"] });
+  };
+
+  const linkMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      return await apiRequest("PUT", `/api/projects/${projectId}/boq/items/${itemId}/worksheets`, { worksheetIds: ids });
+    },
+    onSuccess: handleItemResponse,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update linked worksheets.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetRateMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/projects/${projectId}/boq/items/${itemId}`, { rateOverride: false });
+    },
+    onSuccess: handleItemResponse,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to restore the worksheet rate.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleWorksheet = (worksheetId: string, checked: boolean) => {
+    linkMutation.mutate(
+      checked ? [...worksheetIds, worksheetId] : worksheetIds.filter((id) => id !== worksheetId)
+    );
+  };
+
+  const linkedTotal = worksheets
+    .filter((worksheet) => worksheetIds.includes(worksheet.id))
+    .reduce((sum, worksheet) => sum + Number(worksheet.totalSum ?? 0), 0);
+  const qty = Number(quantity ?? 0);
+
+  return (
+    <div className="space-y-2" data-testid="section-item-worksheets">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-1.5">
+          <Layers className="h-3.5 w-3.5" />
+          Rate Build-Up (Worksheets)
+        </Label>
+        {worksheetIds.length > 0 && (
+          <span className="text-xs text-muted-foreground tabular-nums" data-testid="text-worksheet-rate">
+            {formatCurrency(linkedTotal)}
+            {qty > 0 ? ` / ${qty.toLocaleString()} = ${formatCurrency(linkedTotal / qty)}` : " (no quantity - rate not derived)"}
+          </span>
+        )}
+      </div>
+
+      {worksheets.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No worksheets in this project.</p>
+      ) : (
+        <ScrollArea className="h-32 rounded-md border">
+          <div className="p-2 space-y-1">
+            {worksheets.map((worksheet) => (
+              <label
+                key={worksheet.id}
+                className="flex items-center gap-2 text-xs cursor-pointer"
+                data-testid={`row-item-worksheet-${worksheet.id}`}
+              >
+                <Checkbox
+                  checked={worksheetIds.includes(worksheet.id)}
+                  onCheckedChange={(checked) => toggleWorksheet(worksheet.id, checked === true)}
+                  disabled={linkMutation.isPending}
+                  data-testid={`checkbox-item-worksheet-${worksheet.id}`}
+                />
+                <span className="font-mono">{worksheet.wkshtCode}</span>
+                <span className="flex-1 truncate text-muted-foreground">{worksheet.description}</span>
+                <span className="tabular-nums">{formatCurrency(Number(worksheet.totalSum ?? 0))}</span>
+              </label>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+
+      {worksheetIds.length > 0 && rateOverride && (
+        <div className="flex items-center justify-between rounded-md bg-amber-50 dark:bg-amber-950/30 px-2 py-1.5 text-xs text-amber-700 dark:text-amber-400">
+          <span>The rate is a manual override of the worksheet build-up.</span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => resetRateMutation.mutate()}
+            disabled={resetRateMutation.isPending}
+            data-testid="button-use-worksheet-rate"
+          >
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Use worksheet rate
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,387 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { Download } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface RevisionOption {
+  id: string;
+  revisionNumber: number;
+  revisionName: string;
+  isActive: boolean;
+}
+
+interface BOQRevisionComparisonDialogProps {
+  projectId: string;
+  projectName: string;
+  revisions: RevisionOption[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ComparisonStatus = "added" | "removed" | "changed" | "unchanged";
+
+interface ComparisonValues {
+  quantity: number | null;
+  rate: number | null;
+  amount: number | null;
+  level: number | null;
+  description: string;
+  unit: string | null;
+  parent: string | null;
+}
+
+interface ComparisonRow {
+  key: string;
+  kind: "heading" | "item";
+  itemNumber: string;
+  description: string;
+  unit: string | null;
+  level: number | null;
+  status: ComparisonStatus;
+  moved: boolean;
+  changedFields: Array<"description" | "unit" | "quantity" | "rate" | "amount">;
+  base: ComparisonValues | null;
+  compare: ComparisonValues | null;
+  quantityChange: number | null;
+  rateChange: number | null;
+  amountChange: number | null;
+}
+
+interface RevisionComparison {
+  baseRevision: RevisionOption;
+  compareRevision: RevisionOption;
+  rows: ComparisonRow[];
+  totals: {
+    baseAmount: number;
+    compareAmount: number;
+    change: number;
+    changePercent: number | null;
+    added: number;
+    removed: number;
+    changed: number;
+    moved: number;
+  };
+}
+
+const formatNumber = (value: number | null | undefined, decimals: number) => {
+  if (value == null) return "-";
+  return value.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+};
+
+const formatCurrency = (value: number | null | undefined) => {
+  if (value == null) return "-";
+  return `$${formatNumber(value, 2)}`;
+};
+
+const formatSigned = (value: number | null, format: (v: number | null) => string) => {
+  if (value == null || value === 0) return "-";
+  return value > 0 ? `+${format(value)}` : format(value);
+};
+
+const changeClass = (value: number | null) => {
+  if (value == null || value === 0) return "";
+  return value > 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400";
+};
+
+const rowClass: Record<ComparisonStatus, string> = {
+  added: "bg-green-50 dark:bg-green-950/30",
+  removed: "bg-red-50 dark:bg-red-950/30 text-muted-foreground line-through",
+  changed: "bg-amber-50 dark:bg-amber-950/20",
+  unchanged: "",
+};
+
+// Excel fills matching the on-screen highlights
+const excelFill: Record<ComparisonStatus, string | null> = {
+  added: "FFE8F5E9",
+  removed: "FFFDECEA",
+  changed: "FFFFF8E1",
+  unchanged: null,
+};
+
+const revisionLabel = (revision: RevisionOption) =>
+  `Rev ${revision.revisionNumber} - ${revision.revisionName}${revision.isActive ? " (Active)" : ""}`;
+
+export function BOQRevisionComparisonDialog({ projectId, projectName, revisions, open, onOpenChange }: BOQRevisionComparisonDialogProps) {
+  const { toast } = useToast();
+  const [baseId, setBaseId] = useState<string>("");
+  const [compareId, setCompareId] = useState<string>("");
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  // Default to the active revision against the one before it
+  useEffect(() => {
+    if (revisions.length >= 2 && !baseId && !compareId) {
+      const sorted = [...revisions].sort((a, b) => a.revisionNumber - b.revisionNumber);
+      const compareIndex = Math.max(sorted.findIndex((r) => r.isActive), 1);
+      setBaseId(sorted[compareIndex - 1].id);
+      setCompareId(sorted[compareIndex].id);
+    }
+  }, [revisions, baseId, compareId]);
+
+  const canCompare = !!baseId && !!compareId && baseId !== compareId;
+  const { data: comparison, isLoading } = useQuery<RevisionComparison>({
+    queryKey: ["/api/projects", projectId, "boq", "revisions", `compare?base=${baseId}&compare=${compareId}`],
+    enabled: open && canCompare,
+  });
+
+  const visibleRows = (comparison?.rows ?? []).filter(
+    (row) => showUnchanged || row.status !== "unchanged" || row.moved || row.kind === "heading"
+  );
+
+  const handleExportToExcel = async () => {
+    if (!comparison) return;
+
+    const ExcelJS = await import("exceljs");
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet("BOQ Comparison");
+    const baseName = `Rev ${comparison.baseRevision.revisionNumber}`;
+    const compareName = `Rev ${comparison.compareRevision.revisionNumber}`;
+
+    const headerRow = worksheet.addRow([
+      "Item No.", "Description", "Unit", "Status", "Moved",
+      `${baseName} Qty`, `${baseName} Rate`, `${baseName} Amount`,
+      `${compareName} Qty`, `${compareName} Rate`, `${compareName} Amount`,
+      "Qty Change", "Rate Change", "Amount Change",
+    ]);
+    headerRow.font = { bold: true };
+    headerRow.fill = {
+      type: "pattern",
+      pattern: "solid",
+      fgColor: { argb: "FFE0E0E0" },
+    };
+
+    for (const row of comparison.rows) {
+      const isHeading = row.kind === "heading";
+      const excelRow = worksheet.addRow([
+        row.itemNumber,
+        row.description,
+        row.unit ?? "",
+        row.status,
+        row.moved ? "Yes" : "",
+        isHeading ? null : row.base?.quantity ?? null,
+        isHeading ? null : row.base?.rate ?? null,
+        row.base?.amount ?? null,
+        isHeading ? null : row.compare?.quantity ?? null,
+        isHeading ? null : row.compare?.rate ?? null,
+        row.compare?.amount ?? null,
+        row.quantityChange,
+        row.rateChange,
+        row.amountChange,
+      ]);
+      if (isHeading) {
+        excelRow.font = { bold: true };
+      }
+      const fill = excelFill[row.status];
+      if (fill) {
+        excelRow.fill = { type: "pattern", pattern: "solid", fgColor: { argb: fill } };
+      }
+    }
+
+    const totalRow = worksheet.addRow([
+      "", "Total", "", "", "",
+      null, null, comparison.totals.baseAmount,
+      null, null, comparison.totals.compareAmount,
+      null, null, comparison.totals.change,
+    ]);
+    totalRow.font = { bold: true };
+
+    worksheet.columns.forEach((column, index) => {
+      column.width = index === 1 ? 50 : index < 5 ? 12 : 15;
+      if (index >= 5) {
+        column.numFmt = "#,##0.00";
+      }
+    });
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    const blob = new Blob([buffer], {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${projectName}_BOQ_Comparison_R${comparison.baseRevision.revisionNumber}_R${comparison.compareRevision.revisionNumber}.xlsx`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Export Successful",
+      description: "BOQ comparison exported to Excel.",
+    });
+  };
+
+  const cellClass = (row: ComparisonRow, field: ComparisonRow["changedFields"][number]) =>
+    row.status === "changed" && row.changedFields.includes(field) ? "font-semibold" : "";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto" data-testid="dialog-boq-revision-comparison">
+        <DialogHeader>
+          <DialogTitle>Compare BOQ Revisions</DialogTitle>
+          <DialogDescription>
+            Items matched by item number: additions, removals, quantity/rate/amount changes and moved rows, with heading subtotal differences
+          </DialogDescription>
+        </DialogHeader>
+
+        {revisions.length < 2 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            At least two BOQ revisions are needed to compare.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Base revision</Label>
+                <Select value={baseId} onValueChange={setBaseId}>
+                  <SelectTrigger className="h-9" data-testid="select-boq-comparison-base">
+                    <SelectValue placeholder="Select revision..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision) => (
+                      <SelectItem key={revision.id} value={revision.id}>{revisionLabel(revision)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Compare revision</Label>
+                <Select value={compareId} onValueChange={setCompareId}>
+                  <SelectTrigger className="h-9" data-testid="select-boq-comparison-compare">
+                    <SelectValue placeholder="Select revision..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision) => (
+                      <SelectItem key={revision.id} value={revision.id}>{revisionLabel(revision)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {!canCompare ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Select two different revisions.</p>
+            ) : isLoading || !comparison ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Loading comparison...</p>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Badge variant="outline" className="border-green-600 text-green-700 dark:text-green-400" data-testid="badge-boq-added">
+                    {comparison.totals.added} added
+                  </Badge>
+                  <Badge variant="outline" className="border-red-600 text-red-700 dark:text-red-400" data-testid="badge-boq-removed">
+                    {comparison.totals.removed} removed
+                  </Badge>
+                  <Badge variant="outline" className="border-amber-600 text-amber-700 dark:text-amber-400" data-testid="badge-boq-changed">
+                    {comparison.totals.changed} changed
+                  </Badge>
+                  <Badge variant="secondary" data-testid="badge-boq-moved">
+                    {comparison.totals.moved} moved
+                  </Badge>
+                  <span className="text-sm ml-2" data-testid="text-boq-total-change">
+                    Total {formatCurrency(comparison.totals.baseAmount)} → {formatCurrency(comparison.totals.compareAmount)}{" "}
+                    <span className={changeClass(comparison.totals.change)}>
+                      ({formatSigned(comparison.totals.change, formatCurrency)}
+                      {comparison.totals.changePercent != null && `, ${(comparison.totals.changePercent * 100).toFixed(1)}%`})
+                    </span>
+                  </span>
+                  <div className="flex-1" />
+                  <label className="flex items-center gap-2 text-xs cursor-pointer">
+                    <Checkbox
+                      checked={showUnchanged}
+                      onCheckedChange={(checked) => setShowUnchanged(checked === true)}
+                      data-testid="checkbox-boq-show-unchanged"
+                    />
+                    Show unchanged items
+                  </label>
+                  <Button variant="outline" size="sm" onClick={handleExportToExcel} data-testid="button-export-boq-comparison">
+                    <Download className="h-4 w-4 mr-2" />
+                    Export to Excel
+                  </Button>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow className="text-xs">
+                      <TableHead className="py-2">Item No.</TableHead>
+                      <TableHead className="py-2">Description</TableHead>
+                      <TableHead className="py-2">Unit</TableHead>
+                      <TableHead className="text-right py-2">Base Qty</TableHead>
+                      <TableHead className="text-right py-2">Qty</TableHead>
+                      <TableHead className="text-right py-2">Base Rate</TableHead>
+                      <TableHead className="text-right py-2">Rate</TableHead>
+                      <TableHead className="text-right py-2">Base Amount</TableHead>
+                      <TableHead className="text-right py-2">Amount</TableHead>
+                      <TableHead className="text-right py-2">Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody className="text-xs">
+                    {visibleRows.map((row, index) => (
+                      <TableRow
+                        key={`${row.key}-${index}`}
+                        className={`${rowClass[row.status]} ${row.kind === "heading" ? "font-bold" : ""}`}
+                        data-testid={`row-boq-comparison-${index}`}
+                      >
+                        <TableCell className="py-1.5 font-mono">{row.itemNumber}</TableCell>
+                        <TableCell className={`py-1.5 ${cellClass(row, "description")}`}>
+                          {row.description}
+                          {row.status === "added" && <Badge variant="outline" className="ml-2 text-[10px] px-1 py-0">New</Badge>}
+                          {row.moved && (
+                            <Badge
+                              variant="secondary"
+                              className="ml-2 text-[10px] px-1 py-0"
+                              title={`Previously under: ${row.base?.parent ?? "top level"}`}
+                            >
+                              Moved
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className={`py-1.5 ${cellClass(row, "unit")}`}>{row.unit}</TableCell>
+                        {row.kind === "heading" ? (
+                          <>
+                            <TableCell className="py-1.5" colSpan={4} />
+                            <TableCell className="text-right tabular-nums py-1.5">{formatCurrency(row.base?.amount)}</TableCell>
+                            <TableCell className="text-right tabular-nums py-1.5">{formatCurrency(row.compare?.amount)}</TableCell>
+                          </>
+                        ) : (
+                          <>
+                            <TableCell className="text-right tabular-nums py-1.5">{formatNumber(row.base?.quantity, 3)}</TableCell>
+                            <TableCell className={`text-right tabular-nums py-1.5 ${cellClass(row, "quantity")}`}>{formatNumber(row.compare?.quantity, 3)}</TableCell>
+                            <TableCell className="text-right tabular-nums py-1.5">{formatCurrency(row.base?.rate)}</TableCell>
+                            <TableCell className={`text-right tabular-nums py-1.5 ${cellClass(row, "rate")}`}>{formatCurrency(row.compare?.rate)}</TableCell>
+                            <TableCell className="text-right tabular-nums py-1.5">{formatCurrency(row.base?.amount)}</TableCell>
+                            <TableCell className={`text-right tabular-nums py-1.5 ${cellClass(row, "amount")}`}>{formatCurrency(row.compare?.amount)}</TableCell>
+                          </>
+                        )}
+                        <TableCell className={`text-right tabular-nums py-1.5 ${changeClass(row.amountChange)}`}>
+                          {formatSigned(row.amountChange, formatCurrency)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
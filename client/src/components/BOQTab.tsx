@@ -37,7 +37,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Plus, Clock, Upload, Settings, Trash2, Edit, GripVertical, GripHorizontal, ChevronUp, ChevronDown, ChevronRight, ArrowUp, ArrowDown, Layers } from "lucide-react";
+import { Plus, Clock, Upload, Settings, Trash2, Edit, GripVertical, GripHorizontal, ChevronUp, ChevronDown, ChevronRight, ArrowUp, ArrowDown, Layers, Flag, GitCompare, Receipt } from "lucide-react";
 import {
   ContextMenu,
   ContextMenuContent,
@@ -51,6 +51,12 @@ import { BOQSettingsDialog } from "@/components/BOQSettingsDialog";
 import { GlobalVariablesDialog } from "@/components/GlobalVariablesDialog";
 import { ResourceRatesDialog } from "@/components/ResourceRatesDialog";
 import { WorksheetsDialog } from "@/components/WorksheetsDialog";
+import { EventTagsDialog, type EventTagRegister } from "@/components/EventTagsDialog";
+import { BOQFinalQuantities } from "@/components/BOQFinalQuantities";
+import { BOQItemWorksheets } from "@/components/BOQItemWorksheets";
+import { BOQRevisionComparisonDialog } from "@/components/BOQRevisionComparisonDialog";
+import { ProgressClaimsDialog } from "@/components/ProgressClaimsDialog";
+import { useWorksheetsWebSocket } from "@/hooks/useWorksheetsWebSocket";
 import {
   DndContext,
   closestCenter,
@@ -94,6 +100,9 @@ type BOQItem = {
   amount: number | null;
   notes: string | null;
   level: number | null;
+  eventTagId: string | null;
+  rateOverride: boolean;
+  worksheetIds: string[];
   sortingIndex: number;
   createdAt: string;
   updatedAt: string;
@@ -178,6 +187,7 @@ function EditableCell({
   min,
   max,
   decimalPlaces = 2,
+  title,
 }: {
   value: string | number | null;
   type?: 'text' | 'number';
@@ -193,6 +203,7 @@ function EditableCell({
   min?: number;
   max?: number;
   decimalPlaces?: number;
+  title?: string;
 }) {
   const [editValue, setEditValue] = useState(value?.toString() || '');
   const inputRef = useRef<HTMLInputElement>(null);
@@ -264,6 +275,7 @@ function EditableCell({
         onKeyDown={onCellKeyDown}
         tabIndex={0}
         data-cell-id={cellId}
+        title={title}
         style={{ paddingTop: 'var(--row-py)', paddingBottom: 'var(--row-py)' }}
       >
         {displayValue}
@@ -496,6 +508,7 @@ function SortableRow({
 
   // Bold styling for items with a level (1-9)
   const hasLevel = item.level !== null;
+  const hasWorksheets = item.worksheetIds?.length > 0;
   const fontWeight = hasLevel ? 'font-bold' : '';
   // Blue text only for items without an item number (headers/groupings)
   const isHeading = !item.itemNumber || item.itemNumber.trim() === '';
@@ -685,7 +698,16 @@ function SortableRow({
         value={hasLevel ? '' : item.rate}
         type="number"
         align="right"
-        className={`${fontWeight} ${textColor}`}
+        className={`${fontWeight} ${
+          hasWorksheets
+            ? item.rateOverride ? 'text-amber-600 dark:text-amber-400' : 'text-blue-600 dark:text-blue-400'
+            : textColor
+        }`}
+        title={
+          hasWorksheets
+            ? item.rateOverride ? 'Manual override of the worksheet rate' : 'Derived from linked worksheets'
+            : undefined
+        }
         onSave={(val) => handleSave('rate', val)}
         isEditable={isActive && !hasLevel}
         isInEditMode={editingCell?.itemId === item.id && editingCell?.field === 'rate'}
@@ -825,6 +847,9 @@ function BOQTabInner() {
   const [showGlobalVariablesDialog, setShowGlobalVariablesDialog] = useState(false);
   const [showResourceRatesDialog, setShowResourceRatesDialog] = useState(false);
   const [showWorksheetsDialog, setShowWorksheetsDialog] = useState(false);
+  const [showEventTagsDialog, setShowEventTagsDialog] = useState(false);
+  const [showComparisonDialog, setShowComparisonDialog] = useState(false);
+  const [showProgressClaimsDialog, setShowProgressClaimsDialog] = useState(false);
   const [columnWidths, setColumnWidths] = useState<Record<string, number>>(DEFAULT_COLUMN_WIDTHS);
   const [editingCell, setEditingCell] = useState<{ itemId: string; field: string } | null>(null);
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
@@ -937,6 +962,16 @@ function BOQTabInner() {
     enabled: !!selectedProject?.id && !!currentRevision,
   });
 
+  // Fetch event tag register (for linking items to variations/claims)
+  const { data: eventTagRegister } = useQuery<EventTagRegister>({
+    queryKey: ["/api/projects", selectedProject?.id, "boq", "event-tags"],
+    enabled: !!selectedProject?.id,
+  });
+  const eventTags = eventTagRegister?.eventTags ?? [];
+
+  // Rates derived from worksheets are pushed over the worksheets channel
+  useWorksheetsWebSocket(selectedProject?.id ?? null);
+
   // Helper: Determine if an item has children
   const hasChildren = (itemIndex: number): boolean => {
     if (!allItems || itemIndex >= allItems.length - 1) return false;
@@ -1235,6 +1270,8 @@ function BOQTabInner() {
           amount: item.amount,
           notes: item.notes,
           level: item.level,
+          eventTagId: item.eventTagId,
+          rateOverride: item.rateOverride,
         }
       );
       return { response, showToast };
@@ -1296,6 +1333,10 @@ function BOQTabInner() {
       queryClient.invalidateQueries({
         queryKey: ["/api/projects", selectedProject?.id, "boq", "items", currentRevision?.id],
       });
+      // Linked values in the event tag register depend on item amounts
+      queryClient.invalidateQueries({
+        queryKey: ["/api/projects", selectedProject?.id, "boq", "event-tags"],
+      });
     },
   });
 
@@ -1463,6 +1504,11 @@ function BOQTabInner() {
     }
     
     const updatedItem = { ...item, [field]: processedValue };
+
+    // Typing a rate on an item built up from worksheets overrides the derived rate
+    if (field === 'rate' && item.worksheetIds?.length > 0) {
+      updatedItem.rateOverride = true;
+    }
     
     // Auto-calculate amount if quantity or rate changed
     if (field === 'quantity' || field === 'rate') {
@@ -1808,6 +1854,28 @@ function BOQTabInner() {
               Worksheets
             </Button>
 
+            {/* Variations & Claims register button */}
+            <Button 
+              variant="outline"
+              onClick={() => setShowEventTagsDialog(true)}
+              data-testid="button-event-tags"
+              className="text-xs font-semibold border-amber-600 text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30"
+            >
+              <Flag className="h-4 w-4 mr-2" />
+              Variations &amp; Claims
+            </Button>
+
+            {/* Progress claims (valuations) button */}
+            <Button 
+              variant="outline"
+              onClick={() => setShowProgressClaimsDialog(true)}
+              data-testid="button-progress-claims"
+              className="text-xs font-semibold border-indigo-600 text-indigo-700 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-950/30"
+            >
+              <Receipt className="h-4 w-4 mr-2" />
+              Progress Claims
+            </Button>
+
             {/* Settings button - always show */}
             <Button 
               variant="outline"
@@ -1831,6 +1899,19 @@ function BOQTabInner() {
         {/* Spacer to push revision selector to the right */}
         <div className="flex-1" />
 
+        {/* Compare revisions button - needs at least two revisions */}
+        {revisions && revisions.length >= 2 && (
+          <Button
+            variant="outline"
+            onClick={() => setShowComparisonDialog(true)}
+            data-testid="button-compare-boq-revisions"
+            className="text-xs"
+          >
+            <GitCompare className="h-4 w-4 mr-2" />
+            Compare
+          </Button>
+        )}
+
         {/* Right side: Revision selector */}
         {currentRevision && (
           <Select 
@@ -2230,7 +2311,7 @@ function BOQTabInner() {
       {/* Edit Item Dialog */}
       {editItem && (
         <Dialog open={showEditItemDialog} onOpenChange={setShowEditItemDialog}>
-          <DialogContent data-testid="dialog-edit-boq-item">
+          <DialogContent className="max-w-2xl" data-testid="dialog-edit-boq-item">
             <DialogHeader>
               <DialogTitle>Edit BOQ Item</DialogTitle>
               <DialogDescription>
@@ -2305,7 +2386,11 @@ function BOQTabInner() {
                     type="number"
                     step="0.01"
                     value={editItem.rate ?? ""}
-                    onChange={(e) => setEditItem({ ...editItem, rate: e.target.value ? parseFloat(e.target.value) : null })}
+                    onChange={(e) => setEditItem({
+                      ...editItem,
+                      rate: e.target.value ? parseFloat(e.target.value) : null,
+                      rateOverride: editItem.rateOverride || editItem.worksheetIds?.length > 0,
+                    })}
                     data-testid="input-edit-item-rate"
                   />
                 </div>
@@ -2330,6 +2415,43 @@ function BOQTabInner() {
                   data-testid="textarea-edit-item-notes"
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-item-event-tag">Event Tag (Variation / Claim)</Label>
+                <Select
+                  value={editItem.eventTagId ?? "none"}
+                  onValueChange={(value) => setEditItem({ ...editItem, eventTagId: value === "none" ? null : value })}
+                >
+                  <SelectTrigger id="edit-item-event-tag" data-testid="select-edit-item-event-tag">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not linked</SelectItem>
+                    {eventTags.map((tag) => (
+                      <SelectItem key={tag.id} value={tag.id}>{tag.no} - {tag.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <BOQItemWorksheets
+                projectId={selectedProject.id}
+                itemId={editItem.id}
+                quantity={editItem.quantity}
+                worksheetIds={editItem.worksheetIds ?? []}
+                rateOverride={editItem.rateOverride}
+                onItemChange={(item) => setEditItem({
+                  ...editItem,
+                  rate: item.rate != null ? Number(item.rate) : null,
+                  amount: item.amount != null ? Number(item.amount) : null,
+                  worksheetIds: item.worksheetIds,
+                  rateOverride: item.rateOverride,
+                })}
+              />
+              <BOQFinalQuantities
+                projectId={selectedProject.id}
+                itemId={editItem.id}
+                unit={editItem.unit}
+                eventTags={eventTags}
+              />
             </div>
             <DialogFooter>
               <Button 
@@ -2399,6 +2521,29 @@ function BOQTabInner() {
         onOpenChange={setShowWorksheetsDialog}
         projectId={selectedProject.id}
       />
+
+      {/* Variations & Claims Register Dialog */}
+      <EventTagsDialog
+        open={showEventTagsDialog}
+        onOpenChange={setShowEventTagsDialog}
+        projectId={selectedProject.id}
+      />
+
+      {/* Revision Comparison Dialog */}
+      <BOQRevisionComparisonDialog
+        open={showComparisonDialog}
+        onOpenChange={setShowComparisonDialog}
+        projectId={selectedProject.id}
+        projectName={selectedProject.name}
+        revisions={revisions || []}
+      />
+
+      {/* Progress Claims Dialog */}
+      <ProgressClaimsDialog
+        open={showProgressClaimsDialog}
+        onOpenChange={setShowProgressClaimsDialog}
+        projectId={selectedProject.id}
+      />
     </div>
   );
 }
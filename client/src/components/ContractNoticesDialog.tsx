@@ -3,10 +3,11 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Button } from "@/components/ui/button";
 import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, RefreshCw, Bell, XCircle } from "lucide-react";
+import { Loader2, RefreshCw, Bell, XCircle, CalendarClock } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { PlantUMLDiagram } from "./PlantUMLDiagram";
+import { TrackNoticeDialog } from "./TrackNoticeDialog";
 
 interface ContractNoticesDialogProps {
   projectId: string;
@@ -20,6 +21,7 @@ export function ContractNoticesDialog({ projectId, revisionId, open, onOpenChang
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [selectedNoticeIndex, setSelectedNoticeIndex] = useState<number | null>(null);
   const [selectedParentClause, setSelectedParentClause] = useState<string | null>(null);
+  const [trackingNotice, setTrackingNotice] = useState<any | null>(null);
 
   const { data, isLoading, error, refetch } = useQuery<{
     cached: boolean;
@@ -538,6 +540,7 @@ export function ContractNoticesDialog({ projectId, revisionId, open, onOpenChang
                             <th className="border border-border p-2 text-left text-sm font-semibold min-w-[120px]">To</th>
                             <th className="border border-border p-2 text-left text-sm font-semibold min-w-[100px]">Lead Time</th>
                             <th className="border border-border p-2 text-left text-sm font-semibold min-w-[120px]">Method</th>
+                            <th className="border border-border p-2 text-left text-sm font-semibold min-w-[90px]">Track</th>
                           </tr>
                         </thead>
                         <tbody>
@@ -567,7 +570,7 @@ export function ContractNoticesDialog({ projectId, revisionId, open, onOpenChang
                                       </Badge>
                                     </div>
                                   </td>
-                                  <td className="border border-border p-2 text-sm text-muted-foreground" colSpan={5}>
+                                  <td className="border border-border p-2 text-sm text-muted-foreground" colSpan={6}>
                                     Click to view combined flowchart for all notices in Clause {row.parentClause}
                                   </td>
                                 </tr>
@@ -618,6 +621,22 @@ export function ContractNoticesDialog({ projectId, revisionId, open, onOpenChang
                                   <td className="border border-border p-2 text-sm">
                                     {row.delivery_methods?.join(', ') || '-'}
                                   </td>
+                                  <td className="border border-border p-2 text-sm">
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      disabled={!row.notice_id}
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        setTrackingNotice(row.notice);
+                                      }}
+                                      title="Trigger event occurred - track this notice's deadline"
+                                      data-testid={`button-track-notice-${noticeIdx}`}
+                                    >
+                                      <CalendarClock className="h-4 w-4 mr-1" />
+                                      Track
+                                    </Button>
+                                  </td>
                                 </tr>
                               );
                             }
@@ -708,6 +727,13 @@ export function ContractNoticesDialog({ projectId, revisionId, open, onOpenChang
             </div>
           </div>
         )}
+
+        <TrackNoticeDialog
+          projectId={projectId}
+          revisionId={revisionId}
+          notice={trackingNotice}
+          onOpenChange={(isOpen) => !isOpen && setTrackingNotice(null)}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
-import { ZoomIn, ZoomOut, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { ZoomIn, ZoomOut, X, Search, Loader2 } from 'lucide-react';
 import { Document, Page, pdfjs } from 'react-pdf';
 import Draggable from 'react-draggable';
 import { useAuth } from '@/hooks/useAuth';
@@ -9,6 +10,7 @@ import { useIsMobile } from '@/hooks/use-mobile';
 import { parseTOC } from '@/lib/tocParser';
 import { useClauseTooltips } from '@/hooks/useClauseTooltips';
 import { ClauseTooltip } from './ClauseTooltip';
+import { HighlightedSnippet } from './HighlightedSnippet';
 import 'react-pdf/dist/Page/AnnotationLayer.css';
 import 'react-pdf/dist/Page/TextLayer.css';
 
@@ -28,6 +30,13 @@ interface ViewerState {
   scale: number;
 }
 
+interface ContractSearchResult {
+  id: string;
+  pageIndex: number;
+  highlight: string;
+  score: number;
+}
+
 interface TOCChunkResponse {
   tocText: string;
   pageRange: { start: number; end: number };
@@ -132,6 +141,9 @@ export function ContractViewerDialog({
   const [isResizing, setIsResizing] = useState(false);
   const resizeRef = useRef<{ startX: number; startY: number; startWidth: number; startHeight: number } | null>(null);
   const blobUrlRef = useRef<string | null>(null);
+  const pagesContainerRef = useRef<HTMLDivElement>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
   
   const { user } = useAuth();
   const isMobile = useIsMobile();
@@ -176,6 +188,23 @@ export function ContractViewerDialog({
     return map;
   }, [tocData, extendedTocData]);
 
+  // Hybrid keyword + semantic search over the contract pages
+  const { data: searchResults, isFetching: isSearching } = useQuery<ContractSearchResult[]>({
+    queryKey: ['/api/contract-review/revisions', revisionId, `search?q=${encodeURIComponent(searchQuery)}`],
+    enabled: open && !!revisionId && !!searchQuery,
+    retry: false,
+  });
+
+  const scrollToPage = (pageIndex: number) => {
+    const pages = pagesContainerRef.current?.querySelectorAll('.react-pdf__Page');
+    pages?.[pageIndex]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const clearSearch = () => {
+    setSearchInput('');
+    setSearchQuery('');
+  };
+
   // Initialize clause tooltip system (desktop only)
   const { tooltip, registerPageLayer } = useClauseTooltips({
     clauseMap,
@@ -300,6 +329,52 @@ export function ContractViewerDialog({
 
   if (!open) return null;
 
+  const searchBar = (
+    <form
+      className="flex items-center gap-1 px-4 py-2 border-b border-border"
+      onSubmit={(e) => {
+        e.preventDefault();
+        setSearchQuery(searchInput.trim());
+      }}
+    >
+      <Input
+        value={searchInput}
+        onChange={(e) => setSearchInput(e.target.value)}
+        placeholder='Search contract: keywords, "phrases", OR, -exclude, delay NEAR/5 notice'
+        className="h-8 text-sm"
+        data-testid="input-contract-search"
+      />
+      <Button type="submit" size="icon" variant="ghost" className="h-8 w-8 shrink-0" data-testid="button-contract-search">
+        {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+      </Button>
+      {searchQuery && (
+        <Button type="button" size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={clearSearch} data-testid="button-clear-contract-search">
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </form>
+  );
+
+  const searchResultsList = searchQuery ? (
+    <div className="space-y-1 p-2" data-testid="list-contract-search-results">
+      {!isSearching && (searchResults?.length ?? 0) === 0 && (
+        <p className="text-xs text-muted-foreground p-2">No matches</p>
+      )}
+      {searchResults?.map((result) => (
+        <button
+          key={result.id}
+          type="button"
+          className="w-full text-left rounded-md p-2 hover-elevate"
+          onClick={() => scrollToPage(result.pageIndex)}
+          data-testid={`contract-search-result-${result.pageIndex}`}
+        >
+          <p className="text-xs font-semibold">Page {result.pageIndex + 1}</p>
+          <HighlightedSnippet text={result.highlight} className="line-clamp-4" />
+        </button>
+      ))}
+    </div>
+  ) : null;
+
   console.log('[ContractViewerDialog] Rendering - isMobile:', isMobile, 'pdfBlob:', !!pdfBlob);
 
   // Mobile: Full-screen dialog
@@ -352,8 +427,13 @@ export function ContractViewerDialog({
             </div>
           </div>
 
+          {searchBar}
+          {searchResultsList && (
+            <div className="max-h-48 overflow-auto border-b border-border">{searchResultsList}</div>
+          )}
+
           {/* PDF Viewer Content */}
-          <div className="flex-1 overflow-auto bg-gray-100 dark:bg-gray-900">
+          <div ref={pagesContainerRef} className="flex-1 overflow-auto bg-gray-100 dark:bg-gray-900">
             {pdfBlob ? (
               <Document
                 file={pdfBlob}
@@ -465,45 +545,53 @@ export function ContractViewerDialog({
             </div>
           </div>
 
-          {/* PDF Viewer Content */}
-          <div className="flex-1 overflow-auto bg-gray-100 dark:bg-gray-900">
-            {pdfBlob ? (
-              <Document
-                file={pdfBlob}
-                onLoadSuccess={({ numPages }) => setNumPages(numPages)}
-                className="flex flex-col items-center py-4 gap-4"
-              >
-                {Array.from(new Array(numPages), (_, index) => (
-                  <div 
-                    key={`page_${index + 1}`} 
-                    className="shadow-lg"
-                  >
-                    <Page
-                      pageNumber={index + 1}
-                      scale={scale}
-                      renderTextLayer={true}
-                      renderAnnotationLayer={true}
-                      onRenderSuccess={() => {
-                        // Register text layer after page renders (desktop only)
-                        try {
-                          const pages = document.querySelectorAll('.react-pdf__Page');
-                          const pageElement = pages[index] as HTMLElement;
-                          if (pageElement) {
-                            registerPageLayer(pageElement);
-                          }
-                        } catch (error) {
-                          console.error('Failed to register tooltip layer:', error);
-                        }
-                      }}
-                    />
-                  </div>
-                ))}
-              </Document>
-            ) : (
-              <div className="flex items-center justify-center h-full">
-                <p className="text-muted-foreground">Loading PDF...</p>
-              </div>
+          {searchBar}
+
+          <div className="flex-1 flex min-h-0">
+            {searchResultsList && (
+              <div className="w-64 shrink-0 overflow-auto border-r border-border">{searchResultsList}</div>
             )}
+
+            {/* PDF Viewer Content */}
+            <div ref={pagesContainerRef} className="flex-1 overflow-auto bg-gray-100 dark:bg-gray-900">
+              {pdfBlob ? (
+                <Document
+                  file={pdfBlob}
+                  onLoadSuccess={({ numPages }) => setNumPages(numPages)}
+                  className="flex flex-col items-center py-4 gap-4"
+                >
+                  {Array.from(new Array(numPages), (_, index) => (
+                    <div 
+                      key={`page_${index + 1}`} 
+                      className="shadow-lg"
+                    >
+                      <Page
+                        pageNumber={index + 1}
+                        scale={scale}
+                        renderTextLayer={true}
+                        renderAnnotationLayer={true}
+                        onRenderSuccess={() => {
+                          // Register text layer after page renders (desktop only)
+                          try {
+                            const pages = document.querySelectorAll('.react-pdf__Page');
+                            const pageElement = pages[index] as HTMLElement;
+                            if (pageElement) {
+                              registerPageLayer(pageElement);
+                            }
+                          } catch (error) {
+                            console.error('Failed to register tooltip layer:', error);
+                          }
+                        }}
+                      />
+                    </div>
+                  ))}
+                </Document>
+              ) : (
+                <div className="flex items-center justify-center h-full">
+                  <p className="text-muted-foreground">Loading PDF...</p>
+                </div>
+              )}
+            </div>
           </div>
 
           {/* Resize Handle (pointer events for touch support) */}
@@ -5,22 +5,140 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Camera, Plus, Upload, X } from "lucide-react";
+import { Loader2, Plus, Sparkles } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
+import { RFIFilePicker } from "@/components/RFIFilePicker";
+import { RFIDraftSources, type RFIDraft } from "@/components/RFIDraftSources";
+import { useProject } from "@/contexts/ProjectContext";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useCreateRFI, useDraftRFIWithAI, useUploadRFIAttachments } from "@/api/mutations";
+import type { RFI } from "@shared/schema";
 
-export function CreateRFIDialog() {
+const IMPACTED_AREAS = ["Program", "Cost", "Safety", "Quality"];
+
+interface CreateRFIDialogProps {
+  projectId?: string;
+}
+
+export function CreateRFIDialog({ projectId: fixedProjectId }: CreateRFIDialogProps = {}) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { selectedProject, projects } = useProject();
   const [open, setOpen] = useState(false);
-  const [photos, setPhotos] = useState<string[]>([]);
+  const [projectId, setProjectId] = useState("");
+  const [assignedTo, setAssignedTo] = useState("");
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [references, setReferences] = useState("");
+  const [resolution, setResolution] = useState("");
+  const [impactedAreas, setImpactedAreas] = useState<string[]>([]);
+  const [dueDate, setDueDate] = useState("");
+  const [priority, setPriority] = useState("medium");
+  const [files, setFiles] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [draft, setDraft] = useState<RFIDraft | null>(null);
 
-  const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) {
-      const newPhotos = Array.from(e.target.files).map(file => URL.createObjectURL(file));
-      setPhotos([...photos, ...newPhotos]);
-    }
+  const sidebarProjectId = selectedProject && typeof selectedProject === "object" ? selectedProject.id : "";
+  const targetProjectId = fixedProjectId || projectId || sidebarProjectId;
+
+  const createRFIMutation = useCreateRFI(targetProjectId);
+  const uploadAttachmentsMutation = useUploadRFIAttachments("", targetProjectId);
+  const draftMutation = useDraftRFIWithAI(targetProjectId);
+
+  const reset = () => {
+    setAssignedTo("");
+    setTitle("");
+    setDescription("");
+    setReferences("");
+    setResolution("");
+    setImpactedAreas([]);
+    setDueDate("");
+    setPriority("medium");
+    setFiles([]);
+    setDraft(null);
+  };
+
+  const toggleImpactedArea = (area: string, checked: boolean) => {
+    setImpactedAreas(checked ? [...impactedAreas, area] : impactedAreas.filter(a => a !== area));
+  };
+
+  // References, proposed resolution and impacted areas are kept as sections of the description
+  const fullDescription = () => [
+    description.trim(),
+    references.trim() && `Drawing / Spec References: ${references.trim()}`,
+    resolution.trim() && `Proposed Resolution: ${resolution.trim()}`,
+    impactedAreas.length > 0 && `Impacted Areas: ${impactedAreas.join(", ")}`,
+  ].filter(Boolean).join("\n\n");
+
+  // The subject and description so far are the notes the AI drafts from; the draft replaces them
+  const handleAIDraft = () => {
+    const notes = [title.trim(), description.trim()].filter(Boolean).join("\n\n");
+    draftMutation.mutate(notes, {
+      onSuccess: (result: RFIDraft) => {
+        setDraft(result);
+        setTitle(result.title);
+        if (result.question) setDescription(result.question);
+        if (result.references.length > 0) {
+          setReferences(result.references.map(ref => ref.reference).join("; "));
+        }
+        if (result.proposedResolution && !resolution.trim()) setResolution(result.proposedResolution);
+      },
+      onError: (error: any) => {
+        toast({
+          title: "AI Draft Failed",
+          description: error.message || "Failed to draft RFI",
+          variant: "destructive",
+        });
+      },
+    });
   };
 
-  const removePhoto = (index: number) => {
-    setPhotos(photos.filter((_, i) => i !== index));
+  const handleSubmit = async (status: "draft" | "issued") => {
+    if (!targetProjectId || !title.trim()) return;
+    setSubmitting(true);
+    try {
+      const rfi: RFI = await createRFIMutation.mutateAsync({
+        projectId: targetProjectId,
+        title: title.trim(),
+        description: fullDescription() || null,
+        assignedTo: assignedTo.trim() || null,
+        raisedBy: user ? `${user.givenName} ${user.familyName}`.trim() : "Unknown",
+        dueDate: dueDate || null,
+        priority,
+        status,
+      });
+
+      if (files.length > 0) {
+        try {
+          await uploadAttachmentsMutation.mutateAsync({ rfiId: rfi.id, files });
+        } catch (error: any) {
+          toast({
+            title: `${rfi.rfiNumber} created without attachments`,
+            description: error.message || "Failed to upload attachments. Add them from the RFI.",
+            variant: "destructive",
+          });
+          reset();
+          setOpen(false);
+          return;
+        }
+      }
+
+      toast({
+        title: status === "issued" ? "RFI issued" : "RFI saved as draft",
+        description: `${rfi.rfiNumber}${files.length > 0 ? ` with ${files.length} attachment${files.length === 1 ? "" : "s"}` : ""}`,
+      });
+      reset();
+      setOpen(false);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create RFI",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   return (
@@ -35,38 +153,96 @@ export function CreateRFIDialog() {
         <DialogHeader>
           <DialogTitle>Create New RFI</DialogTitle>
         </DialogHeader>
-        <form className="space-y-4" onSubmit={(e) => { e.preventDefault(); console.log('RFI created'); setOpen(false); }}>
+        <form className="space-y-4" onSubmit={(e) => { e.preventDefault(); handleSubmit("draft"); }}>
+          {!fixedProjectId && !sidebarProjectId && (
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select value={projectId} onValueChange={setProjectId}>
+                <SelectTrigger data-testid="select-rfi-project">
+                  <SelectValue placeholder="Select a project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.projectCode} - {project.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="rfi-to">To (Recipient)</Label>
-            <Input id="rfi-to" placeholder="Enter recipient name or email" data-testid="input-rfi-to" />
+            <Input
+              id="rfi-to"
+              placeholder="Enter recipient name or email"
+              value={assignedTo}
+              onChange={(e) => setAssignedTo(e.target.value)}
+              data-testid="input-rfi-to"
+            />
           </div>
 
           <div className="space-y-2">
             <Label htmlFor="rfi-subject">Subject / Title</Label>
-            <Input id="rfi-subject" placeholder="Brief description of the RFI" data-testid="input-rfi-subject" />
+            <Input
+              id="rfi-subject"
+              placeholder="Brief description of the RFI"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              data-testid="input-rfi-subject"
+            />
           </div>
 
           <div className="space-y-2">
             <Label htmlFor="rfi-description">Detailed Description</Label>
-            <Textarea 
-              id="rfi-description" 
-              placeholder="Describe the question or issue in detail..." 
+            <Textarea
+              id="rfi-description"
+              placeholder="Describe the question or issue in detail..."
               rows={4}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
               data-testid="textarea-rfi-description"
             />
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                Jot down the issue, then let AI draft the question with contract and specification references.
+              </p>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleAIDraft}
+                disabled={draftMutation.isPending || submitting || !targetProjectId || (!title.trim() && !description.trim())}
+                data-testid="button-rfi-ai-draft"
+              >
+                {draftMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+                {draftMutation.isPending ? "Drafting..." : "AI Draft"}
+              </Button>
+            </div>
           </div>
 
+          {draft && <RFIDraftSources draft={draft} />}
+
           <div className="space-y-2">
             <Label htmlFor="rfi-references">Drawing / Spec References</Label>
-            <Input id="rfi-references" placeholder="e.g., Drawing A-101, Spec Section 3.4" data-testid="input-rfi-references" />
+            <Input
+              id="rfi-references"
+              placeholder="e.g., Drawing A-101, Spec Section 3.4"
+              value={references}
+              onChange={(e) => setReferences(e.target.value)}
+              data-testid="input-rfi-references"
+            />
           </div>
 
           <div className="space-y-2">
             <Label htmlFor="rfi-resolution">Proposed Resolution</Label>
-            <Textarea 
-              id="rfi-resolution" 
-              placeholder="Suggest a possible solution or approach..." 
+            <Textarea
+              id="rfi-resolution"
+              placeholder="Suggest a possible solution or approach..."
               rows={3}
+              value={resolution}
+              onChange={(e) => setResolution(e.target.value)}
               data-testid="textarea-rfi-resolution"
             />
           </div>
@@ -74,55 +250,56 @@ export function CreateRFIDialog() {
           <div className="space-y-2">
             <Label>Impacted Areas</Label>
             <div className="flex flex-wrap gap-4">
-              {["Program", "Cost", "Safety", "Quality"].map((area) => (
+              {IMPACTED_AREAS.map((area) => (
                 <div key={area} className="flex items-center gap-2">
-                  <Checkbox id={`impact-${area}`} data-testid={`checkbox-impact-${area.toLowerCase()}`} />
+                  <Checkbox
+                    id={`impact-${area}`}
+                    checked={impactedAreas.includes(area)}
+                    onCheckedChange={(checked) => toggleImpactedArea(area, checked === true)}
+                    data-testid={`checkbox-impact-${area.toLowerCase()}`}
+                  />
                   <label htmlFor={`impact-${area}`} className="text-sm cursor-pointer">{area}</label>
                 </div>
               ))}
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="rfi-date">Required Response Date</Label>
-            <Input id="rfi-date" type="date" data-testid="input-rfi-date" />
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rfi-date">Required Response Date</Label>
+              <Input
+                id="rfi-date"
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                data-testid="input-rfi-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={setPriority}>
+                <SelectTrigger data-testid="select-rfi-priority">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="high">High</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="low">Low</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <div className="space-y-2">
-            <Label>Photo Attachments</Label>
-            <div className="border-2 border-dashed rounded-lg p-4 space-y-3">
-              <div className="flex gap-2">
-                <Button type="button" variant="outline" size="sm" onClick={() => document.getElementById('photo-upload')?.click()} data-testid="button-upload-photo">
-                  <Upload className="h-4 w-4 mr-2" />
-                  Upload Photos
-                </Button>
-                <input
-                  id="photo-upload"
-                  type="file"
-                  accept="image/*"
-                  multiple
-                  className="hidden"
-                  onChange={handlePhotoUpload}
-                />
-              </div>
-              {photos.length > 0 && (
-                <div className="grid grid-cols-3 gap-2">
-                  {photos.map((photo, index) => (
-                    <div key={index} className="relative group">
-                      <img src={photo} alt={`Upload ${index + 1}`} className="w-full h-24 object-cover rounded" />
-                      <Button
-                        type="button"
-                        variant="destructive"
-                        size="icon"
-                        className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
-                        onClick={() => removePhoto(index)}
-                      >
-                        <X className="h-3 w-3" />
-                      </Button>
-                    </div>
-                  ))}
-                </div>
-              )}
+            <Label>Attachments</Label>
+            <div className="border-2 border-dashed rounded-lg p-4">
+              <RFIFilePicker
+                files={files}
+                onChange={setFiles}
+                label="Add photos or documents"
+                disabled={submitting}
+                testId="new-rfi-files"
+              />
             </div>
           </div>
 
@@ -130,8 +307,21 @@ export function CreateRFIDialog() {
             <Button type="button" variant="outline" onClick={() => setOpen(false)} data-testid="button-cancel-rfi">
               Cancel
             </Button>
-            <Button type="submit" data-testid="button-submit-rfi">
-              Create RFI
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={submitting || !targetProjectId || !title.trim()}
+              data-testid="button-submit-rfi"
+            >
+              Save Draft
+            </Button>
+            <Button
+              type="button"
+              onClick={() => handleSubmit("issued")}
+              disabled={submitting || !targetProjectId || !title.trim() || !assignedTo.trim()}
+              data-testid="button-issue-rfi"
+            >
+              {submitting ? "Saving..." : "Create & Issue"}
             </Button>
           </div>
         </form>
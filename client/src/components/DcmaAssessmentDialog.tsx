@@ -0,0 +1,158 @@
+import { Fragment, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface InsightDetail {
+  type: string;
+  severity: "info" | "warn" | "error";
+  message: string;
+  ref?: Record<string, unknown>;
+}
+
+export interface DcmaCheck {
+  id: number;
+  key: string;
+  name: string;
+  description: string;
+  threshold: string;
+  value: number | null;
+  unit: "percent" | "count" | "index" | "test";
+  passed: boolean | null;
+  population: number;
+  offenders: InsightDetail[];
+  note?: string;
+}
+
+interface DcmaAssessmentDialogProps {
+  programName: string;
+  checks: DcmaCheck[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Offending activities listed per check before truncating
+const MAX_OFFENDERS_SHOWN = 200;
+
+const formatValue = (check: DcmaCheck) => {
+  if (check.value == null) return "-";
+  switch (check.unit) {
+    case "percent":
+      return `${check.value.toFixed(1)}%`;
+    case "index":
+      return check.value.toFixed(2);
+    case "test":
+      return check.passed ? "Pass" : "Fail";
+    default:
+      return check.value.toString();
+  }
+};
+
+function ResultBadge({ passed }: { passed: boolean | null }) {
+  if (passed === null) {
+    return <Badge variant="outline">Not assessed</Badge>;
+  }
+  return passed
+    ? <Badge className="bg-green-600 hover:bg-green-600">Pass</Badge>
+    : <Badge variant="destructive">Fail</Badge>;
+}
+
+export function DcmaAssessmentDialog({ programName, checks, open, onOpenChange }: DcmaAssessmentDialogProps) {
+  const [expandedCheck, setExpandedCheck] = useState<string | null>(null);
+
+  const assessed = checks.filter((check) => check.passed !== null);
+  const passed = assessed.filter((check) => check.passed).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto" data-testid="dialog-dcma-assessment">
+        <DialogHeader>
+          <DialogTitle>DCMA 14-Point Assessment - {programName}</DialogTitle>
+          <DialogDescription>
+            {passed} of {assessed.length} assessed checks passed. Select a check to see the offending activities.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow className="text-xs">
+              <TableHead className="py-2 w-8" />
+              <TableHead className="py-2 w-8">#</TableHead>
+              <TableHead className="py-2">Check</TableHead>
+              <TableHead className="py-2">Threshold</TableHead>
+              <TableHead className="text-right py-2">Result</TableHead>
+              <TableHead className="text-right py-2">Count</TableHead>
+              <TableHead className="py-2">Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody className="text-sm">
+            {checks.map((check) => {
+              const isExpanded = expandedCheck === check.key;
+              const canExpand = check.offenders.length > 0;
+              return (
+                <Fragment key={check.key}>
+                  <TableRow
+                    className={canExpand ? "cursor-pointer" : ""}
+                    onClick={() => canExpand && setExpandedCheck(isExpanded ? null : check.key)}
+                    data-testid={`row-dcma-${check.key}`}
+                  >
+                    <TableCell className="py-2">
+                      {canExpand && (isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+                    </TableCell>
+                    <TableCell className="py-2 text-muted-foreground">{check.id}</TableCell>
+                    <TableCell className="py-2">
+                      <p className="font-medium">{check.name}</p>
+                      <p className="text-xs text-muted-foreground">{check.description}</p>
+                      {check.note && <p className="text-xs text-muted-foreground italic">{check.note}</p>}
+                    </TableCell>
+                    <TableCell className="py-2 whitespace-nowrap">{check.threshold}</TableCell>
+                    <TableCell className="text-right tabular-nums py-2">{formatValue(check)}</TableCell>
+                    <TableCell className="text-right tabular-nums py-2 whitespace-nowrap">
+                      {check.passed === null ? "-" : `${check.offenders.length} / ${check.population}`}
+                    </TableCell>
+                    <TableCell className="py-2">
+                      <ResultBadge passed={check.passed} />
+                    </TableCell>
+                  </TableRow>
+                  {isExpanded && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="bg-muted/30 py-2">
+                        <div className="space-y-1 max-h-64 overflow-y-auto" data-testid={`list-dcma-offenders-${check.key}`}>
+                          {check.offenders.slice(0, MAX_OFFENDERS_SHOWN).map((offender, index) => (
+                            <div key={index} className="text-xs flex gap-3">
+                              <span className="font-mono w-24 shrink-0">{String(offender.ref?.taskCode ?? "")}</span>
+                              <span>{offender.message}</span>
+                            </div>
+                          ))}
+                          {check.offenders.length > MAX_OFFENDERS_SHOWN && (
+                            <p className="text-xs text-muted-foreground italic">
+                              ... and {check.offenders.length - MAX_OFFENDERS_SHOWN} more
+                            </p>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+}
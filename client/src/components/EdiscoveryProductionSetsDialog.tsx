@@ -0,0 +1,474 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+
+export interface ProductionCriteria {
+  q?: string;
+  from?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  hasAttachments?: boolean;
+  tags?: string[];
+}
+
+interface ProductionSet {
+  id: string;
+  name: string;
+  criteria: ProductionCriteria;
+  batesPrefix: string;
+  batesDigits: number;
+  endorsement?: string | null;
+  emailCount: number;
+  unreviewedCount: number;
+  productionCount: number;
+}
+
+type ReviewStatus = "unreviewed" | "responsive" | "privileged" | "not_responsive";
+
+interface ProductionSetEmail {
+  emailId: string;
+  subject?: string;
+  fromAddress?: string;
+  sentAt?: string;
+  reviewStatus: ReviewStatus;
+  privilegeBasis?: string | null;
+  reviewNote?: string | null;
+  batesStart?: number | null;
+  batesEnd?: number | null;
+}
+
+interface Production {
+  id: string;
+  volume: string;
+  batesStart?: number | null;
+  batesEnd?: number | null;
+  emailCount: number;
+  pageCount: number;
+  privilegedCount: number;
+  createdAt: string;
+}
+
+interface EdiscoveryProductionSetsDialogProps {
+  projectId: string;
+  // Filters applied on the eDiscovery page, offered as the new set's query
+  currentCriteria: ProductionCriteria;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  unreviewed: "Unreviewed",
+  responsive: "Responsive",
+  privileged: "Privileged",
+  not_responsive: "Not responsive",
+};
+
+const formatBates = (set: ProductionSet, value: number) => `${set.batesPrefix}${String(value).padStart(set.batesDigits, "0")}`;
+
+function describeCriteria(criteria: ProductionCriteria): string {
+  const parts = [
+    criteria.q && `"${criteria.q}"`,
+    criteria.from && `from ${criteria.from}`,
+    criteria.dateFrom && `after ${criteria.dateFrom}`,
+    criteria.dateTo && `before ${criteria.dateTo}`,
+    criteria.hasAttachments && "with attachments",
+    criteria.tags && criteria.tags.length > 0 && `tagged ${criteria.tags.join(", ")}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "All emails";
+}
+
+export function EdiscoveryProductionSetsDialog({ projectId, currentCriteria, open, onOpenChange }: EdiscoveryProductionSetsDialogProps) {
+  const { toast } = useToast();
+  const [selectedSetId, setSelectedSetId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | "all">("all");
+  const [privilegeDrafts, setPrivilegeDrafts] = useState<Record<string, string>>({});
+  const [pendingPrivileged, setPendingPrivileged] = useState<Set<string>>(new Set());
+
+  // New set form
+  const [name, setName] = useState("");
+  const [batesPrefix, setBatesPrefix] = useState("");
+  const [batesDigits, setBatesDigits] = useState("6");
+  const [endorsement, setEndorsement] = useState("");
+  const [keyword, setKeyword] = useState("");
+  const [tags, setTags] = useState("");
+  const [useCurrentFilters, setUseCurrentFilters] = useState(true);
+
+  const { data: sets = [] } = useQuery<ProductionSet[]>({
+    queryKey: ["/api/ediscovery/production-sets", projectId],
+    queryFn: async () => {
+      const response = await fetch(`/api/ediscovery/production-sets?projectId=${projectId}`, { credentials: "include" });
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const selectedSet = sets.find((set) => set.id === selectedSetId) || null;
+
+  useEffect(() => {
+    if (open && !selectedSetId && sets.length > 0) {
+      setSelectedSetId(sets[0].id);
+    }
+  }, [open, sets, selectedSetId]);
+
+  const { data: setEmails = [], isLoading: isLoadingEmails } = useQuery<ProductionSetEmail[]>({
+    queryKey: ["/api/ediscovery/production-sets", selectedSetId, "emails"],
+    enabled: open && !!selectedSetId,
+  });
+
+  const { data: productions = [] } = useQuery<Production[]>({
+    queryKey: ["/api/ediscovery/production-sets", selectedSetId, "productions"],
+    enabled: open && !!selectedSetId,
+  });
+
+  const invalidateSet = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/ediscovery/production-sets"] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createSetMutation = useMutation({
+    mutationFn: async () => {
+      const criteria: ProductionCriteria = useCurrentFilters ? { ...currentCriteria } : {};
+      if (keyword.trim()) criteria.q = keyword.trim();
+      const tagList = tags.split(",").map((tag) => tag.trim()).filter(Boolean);
+      if (tagList.length > 0) criteria.tags = tagList;
+
+      const response = await apiRequest("POST", "/api/ediscovery/production-sets", {
+        projectId,
+        name,
+        batesPrefix,
+        batesDigits: parseInt(batesDigits, 10) || 6,
+        endorsement: endorsement.trim() || null,
+        criteria,
+      });
+      return response.json() as Promise<{ set: ProductionSet; added: number }>;
+    },
+    onSuccess: ({ set, added }) => {
+      invalidateSet();
+      setSelectedSetId(set.id);
+      setCreating(false);
+      setName("");
+      setBatesPrefix("");
+      setEndorsement("");
+      setKeyword("");
+      setTags("");
+      toast({ title: "Production Set Created", description: `${added} emails added for review.` });
+    },
+    onError: showError("Could not create production set"),
+  });
+
+  const refreshSetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/ediscovery/production-sets/${selectedSetId}/refresh`, {});
+      return response.json() as Promise<{ added: number }>;
+    },
+    onSuccess: ({ added }) => {
+      invalidateSet();
+      toast({ title: "Production Set Refreshed", description: `${added} new emails added for review.` });
+    },
+    onError: showError("Could not refresh production set"),
+  });
+
+  const deleteSetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/ediscovery/production-sets/${selectedSetId}`);
+    },
+    onSuccess: () => {
+      setSelectedSetId(null);
+      invalidateSet();
+    },
+    onError: showError("Could not delete production set"),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (review: { emailId: string; reviewStatus: ReviewStatus; privilegeBasis?: string }) => {
+      const response = await apiRequest("PATCH", `/api/ediscovery/production-sets/${selectedSetId}/emails/${review.emailId}`, review);
+      return response.json();
+    },
+    onSuccess: (_result, review) => {
+      setPendingPrivileged((current) => {
+        const next = new Set(current);
+        next.delete(review.emailId);
+        return next;
+      });
+      invalidateSet();
+    },
+    onError: showError("Could not save review"),
+  });
+
+  const produceMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/ediscovery/production-sets/${selectedSetId}/productions`, {});
+      return response.json() as Promise<Production>;
+    },
+    onSuccess: (production) => {
+      invalidateSet();
+      toast({
+        title: `Production ${production.volume} Created`,
+        description: `${production.emailCount} emails (${production.pageCount} pages) produced, ${production.privilegedCount} withheld as privileged.`,
+      });
+    },
+    onError: showError("Could not create production"),
+  });
+
+  // Privileged needs a basis for the privilege log, so it is only saved once one is entered
+  const setReviewStatus = (email: ProductionSetEmail, reviewStatus: ReviewStatus) => {
+    const basis = privilegeDrafts[email.emailId] ?? email.privilegeBasis ?? "";
+    if (reviewStatus === "privileged" && !basis.trim()) {
+      setPendingPrivileged((current) => new Set(current).add(email.emailId));
+      return;
+    }
+    reviewMutation.mutate({ emailId: email.emailId, reviewStatus, privilegeBasis: basis });
+  };
+
+  const savePrivilegeBasis = (email: ProductionSetEmail) => {
+    const basis = privilegeDrafts[email.emailId];
+    if (basis === undefined || !basis.trim() || basis === email.privilegeBasis) return;
+    reviewMutation.mutate({ emailId: email.emailId, reviewStatus: "privileged", privilegeBasis: basis });
+  };
+
+  const visibleEmails = statusFilter === "all" ? setEmails : setEmails.filter((email) => email.reviewStatus === statusFilter);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Production Sets</DialogTitle>
+          <DialogDescription>
+            Review emails for a dispute and produce them with Bates numbers, a privilege log and DAT/OPT load files.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <Label className="text-xs text-muted-foreground">Production Set</Label>
+            <Select value={selectedSetId ?? undefined} onValueChange={(value) => { setSelectedSetId(value); setCreating(false); }}>
+              <SelectTrigger className="h-8 text-sm" data-testid="select-production-set">
+                <SelectValue placeholder={sets.length === 0 ? "No production sets yet" : "Select a production set"} />
+              </SelectTrigger>
+              <SelectContent>
+                {sets.map((set) => (
+                  <SelectItem key={set.id} value={set.id}>
+                    {set.name} ({set.batesPrefix})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => setCreating(true)} data-testid="button-new-production-set">
+            <Plus className="h-3 w-3 mr-1" /> New Set
+          </Button>
+        </div>
+
+        {creating ? (
+          <div className="space-y-3 border rounded-md p-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="production-set-name">Name</Label>
+                <Input id="production-set-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Delay claim - disclosure" data-testid="input-production-set-name" />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="production-set-prefix">Bates Prefix</Label>
+                  <Input id="production-set-prefix" value={batesPrefix} onChange={(e) => setBatesPrefix(e.target.value.toUpperCase())} placeholder="ABC" data-testid="input-bates-prefix" />
+                </div>
+                <div>
+                  <Label htmlFor="production-set-digits">Digits</Label>
+                  <Input id="production-set-digits" type="number" min={4} max={10} value={batesDigits} onChange={(e) => setBatesDigits(e.target.value)} data-testid="input-bates-digits" />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="production-set-keyword">Keyword</Label>
+                <Input id="production-set-keyword" value={keyword} onChange={(e) => setKeyword(e.target.value)} placeholder="Subject, body or attachment text" data-testid="input-production-set-keyword" />
+              </div>
+              <div>
+                <Label htmlFor="production-set-tags">Tags</Label>
+                <Input id="production-set-tags" value={tags} onChange={(e) => setTags(e.target.value)} placeholder="VAR-001, CLAIM-2024-05" data-testid="input-production-set-tags" />
+              </div>
+              <div className="col-span-2">
+                <Label htmlFor="production-set-endorsement">Page Endorsement</Label>
+                <Input id="production-set-endorsement" value={endorsement} onChange={(e) => setEndorsement(e.target.value)} placeholder="CONFIDENTIAL" data-testid="input-production-set-endorsement" />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="production-set-current-filters" checked={useCurrentFilters} onCheckedChange={(checked) => setUseCurrentFilters(checked === true)} />
+              <Label htmlFor="production-set-current-filters" className="text-xs text-muted-foreground">
+                Include current filters: {describeCriteria(currentCriteria)}
+              </Label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="outline" onClick={() => setCreating(false)}>Cancel</Button>
+              <Button
+                size="sm"
+                onClick={() => createSetMutation.mutate()}
+                disabled={!name.trim() || !batesPrefix.trim() || createSetMutation.isPending}
+                data-testid="button-create-production-set"
+              >
+                {createSetMutation.isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                Create Set
+              </Button>
+            </div>
+          </div>
+        ) : selectedSet && (
+          <div className="flex-1 min-h-0 flex flex-col gap-3">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <div className="text-muted-foreground">
+                {describeCriteria(selectedSet.criteria)} · {selectedSet.emailCount} emails, {selectedSet.unreviewedCount} unreviewed
+              </div>
+              <div className="flex items-center gap-2">
+                <Button size="sm" variant="outline" onClick={() => refreshSetMutation.mutate()} disabled={refreshSetMutation.isPending} data-testid="button-refresh-production-set">
+                  <RefreshCw className={`h-3 w-3 mr-1 ${refreshSetMutation.isPending ? "animate-spin" : ""}`} /> Refresh
+                </Button>
+                {selectedSet.productionCount === 0 && (
+                  <Button size="sm" variant="outline" onClick={() => deleteSetMutation.mutate()} disabled={deleteSetMutation.isPending} data-testid="button-delete-production-set">
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
+                <Button size="sm" onClick={() => produceMutation.mutate()} disabled={produceMutation.isPending} data-testid="button-produce">
+                  {produceMutation.isPending ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Download className="h-3 w-3 mr-1" />}
+                  Produce
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground">Show</Label>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ReviewStatus | "all")}>
+                <SelectTrigger className="h-7 w-40 text-xs" data-testid="select-review-status-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All emails</SelectItem>
+                  {Object.entries(REVIEW_STATUS_LABELS).map(([status, label]) => (
+                    <SelectItem key={status} value={status}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <ScrollArea className="flex-1 min-h-[200px] border rounded-md">
+              {isLoadingEmails ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <Table className="text-xs">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-24">Date</TableHead>
+                      <TableHead className="w-48">From</TableHead>
+                      <TableHead>Subject</TableHead>
+                      <TableHead className="w-40">Review</TableHead>
+                      <TableHead className="w-48">Privilege Basis</TableHead>
+                      <TableHead className="w-40">Bates</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleEmails.map((email) => {
+                      const status = pendingPrivileged.has(email.emailId) ? "privileged" : email.reviewStatus;
+                      return (
+                        <TableRow key={email.emailId} data-testid={`production-email-${email.emailId}`}>
+                          <TableCell className="text-muted-foreground">
+                            {email.sentAt ? format(new Date(email.sentAt), "dd MMM yyyy") : "No date"}
+                          </TableCell>
+                          <TableCell className="truncate">{email.fromAddress || "Unknown"}</TableCell>
+                          <TableCell className="truncate">{email.subject || "(No Subject)"}</TableCell>
+                          <TableCell>
+                            <Select value={status} onValueChange={(value) => setReviewStatus(email, value as ReviewStatus)}>
+                              <SelectTrigger className="h-7 text-xs" data-testid={`select-review-${email.emailId}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.entries(REVIEW_STATUS_LABELS).map(([value, label]) => (
+                                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            {status === "privileged" && (
+                              <Input
+                                className="h-7 text-xs"
+                                placeholder="Legal advice privilege"
+                                value={privilegeDrafts[email.emailId] ?? email.privilegeBasis ?? ""}
+                                onChange={(e) => setPrivilegeDrafts((drafts) => ({ ...drafts, [email.emailId]: e.target.value }))}
+                                onBlur={() => savePrivilegeBasis(email)}
+                                onKeyDown={(e) => e.key === "Enter" && savePrivilegeBasis(email)}
+                                autoFocus={pendingPrivileged.has(email.emailId)}
+                                data-testid={`input-privilege-basis-${email.emailId}`}
+                              />
+                            )}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {email.batesStart != null && email.batesEnd != null
+                              ? `${formatBates(selectedSet, email.batesStart)}${email.batesEnd !== email.batesStart ? ` - ${formatBates(selectedSet, email.batesEnd)}` : ""}`
+                              : ""}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </ScrollArea>
+
+            {productions.length > 0 && (
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Productions</Label>
+                {productions.map((production) => (
+                  <div key={production.id} className="flex items-center gap-3 text-xs">
+                    <Badge variant="secondary">{production.volume}</Badge>
+                    <span>
+                      {production.batesStart != null && production.batesEnd != null
+                        ? `${formatBates(selectedSet, production.batesStart)} - ${formatBates(selectedSet, production.batesEnd)}`
+                        : "No new documents"}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {production.emailCount} emails, {production.pageCount} pages, {production.privilegedCount} privileged
+                    </span>
+                    <span className="text-muted-foreground">{format(new Date(production.createdAt), "dd MMM yyyy HH:mm")}</span>
+                    <a
+                      href={`/api/ediscovery/productions/${production.id}/download`}
+                      className="flex items-center gap-1 text-primary hover:underline"
+                      data-testid={`link-production-${production.id}`}
+                    >
+                      <Download className="h-3 w-3" /> Download
+                    </a>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
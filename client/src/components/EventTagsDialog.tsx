@@ -0,0 +1,445 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+interface EventTagsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+}
+
+export type EventTag = {
+  id: string;
+  projectId: string;
+  no: string;
+  title: string;
+  description: string | null;
+  instructionRef: string | null;
+  dateNotified: string | null;
+  statusId: string | null;
+  submitted: string | null;
+  approved: string | null;
+  notes: string | null;
+  clauseRef: string | null;
+  relatedRFI: string | null;
+  owner: string | null;
+  pricingBasisId: string | null;
+  valueClaimed: string | null;
+  valueApproved: string | null;
+  eotDaysClaimed: number | null;
+  eotDaysApproved: number | null;
+  itemCount: number;
+  linkedValue: number;
+};
+
+type EventTagTotals = {
+  count: number;
+  valueClaimed: number;
+  valueApproved: number;
+  linkedValue: number;
+  eotDaysClaimed: number;
+  eotDaysApproved: number;
+};
+
+export type EventTagRegister = {
+  eventTags: EventTag[];
+  totals: EventTagTotals;
+};
+
+type LookupOption = {
+  id: string;
+  name: string;
+};
+
+type TextField = "no" | "title" | "instructionRef" | "clauseRef" | "relatedRFI" | "owner";
+type DateField = "dateNotified" | "submitted" | "approved";
+type ValueField = "valueClaimed" | "valueApproved";
+type DaysField = "eotDaysClaimed" | "eotDaysApproved";
+
+const NONE = "none";
+
+const formatCurrency = (value: number | string | null) => {
+  if (value == null || value === "") return "-";
+  return `$${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+export function EventTagsDialog({ open, onOpenChange, projectId }: EventTagsDialogProps) {
+  const { toast } = useToast();
+  const [newNo, setNewNo] = useState("");
+  const [newTitle, setNewTitle] = useState("");
+  const [deleteTarget, setDeleteTarget] = useState<EventTag | null>(null);
+
+  const registerQueryKey = ["/api/projects", projectId, "boq", "event-tags"];
+
+  const { data: register, isLoading } = useQuery<EventTagRegister>({
+    queryKey: registerQueryKey,
+    enabled: open && !!projectId,
+  });
+
+  const { data: statuses = [] } = useQuery<LookupOption[]>({
+    queryKey: ["/api/projects", projectId, "boq", "event-tag-statuses"],
+    enabled: open && !!projectId,
+  });
+
+  const { data: pricingBasis = [] } = useQuery<LookupOption[]>({
+    queryKey: ["/api/projects", projectId, "boq", "pricing-basis"],
+    enabled: open && !!projectId,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { no: string; title: string }) => {
+      return await apiRequest("POST", `/api/projects/${projectId}/boq/event-tags`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: registerQueryKey });
+      setNewNo("");
+      setNewTitle("");
+      toast({
+        title: "Event added",
+        description: "The event has been added to the register.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create event.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<EventTag> }) => {
+      return await apiRequest("PATCH", `/api/projects/${projectId}/boq/event-tags/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: registerQueryKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update event.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/projects/${projectId}/boq/event-tags/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: registerQueryKey });
+      // Linked BOQ items are unlinked by the server
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "boq", "items"] });
+      setDeleteTarget(null);
+      toast({
+        title: "Event deleted",
+        description: "The event has been removed from the register.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete event.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveField = (tag: EventTag, data: Partial<EventTag>) => {
+    updateMutation.mutate({ id: tag.id, data });
+  };
+
+  const saveText = (tag: EventTag, field: TextField, value: string) => {
+    const trimmed = value.trim();
+    if (trimmed === (tag[field] ?? "")) return;
+    if ((field === "no" || field === "title") && !trimmed) return;
+    saveField(tag, { [field]: trimmed || null });
+  };
+
+  const saveDate = (tag: EventTag, field: DateField, value: string) => {
+    if (value === (tag[field]?.slice(0, 10) ?? "")) return;
+    saveField(tag, { [field]: value || null });
+  };
+
+  const saveValue = (tag: EventTag, field: ValueField, value: string) => {
+    const next = value === "" ? null : value;
+    if (next === tag[field] || (next != null && tag[field] != null && Number(next) === Number(tag[field]))) return;
+    saveField(tag, { [field]: next });
+  };
+
+  const saveDays = (tag: EventTag, field: DaysField, value: string) => {
+    const next = value === "" ? null : parseInt(value, 10);
+    if (next === tag[field] || (next != null && isNaN(next))) return;
+    saveField(tag, { [field]: next });
+  };
+
+  const handleCreate = () => {
+    if (!newNo.trim() || !newTitle.trim()) return;
+    createMutation.mutate({ no: newNo.trim(), title: newTitle.trim() });
+  };
+
+  const eventTags = register?.eventTags ?? [];
+  const totals = register?.totals;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] max-h-[90vh] overflow-y-auto" data-testid="dialog-event-tags">
+        <DialogHeader>
+          <DialogTitle>Variations &amp; Claims Register</DialogTitle>
+          <DialogDescription>
+            Project events with claimed vs approved value and EOT days. Link BOQ items to an event from the item editor.
+          </DialogDescription>
+        </DialogHeader>
+
+        {(statuses.length === 0 || pricingBasis.length === 0) && (
+          <p className="text-xs text-muted-foreground">
+            Seed event statuses and pricing basis options in BOQ Settings to classify events.
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table className="text-xs">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[90px]">No.</TableHead>
+                  <TableHead className="min-w-[200px]">Title</TableHead>
+                  <TableHead className="w-[140px]">Status</TableHead>
+                  <TableHead className="w-[140px]">Pricing Basis</TableHead>
+                  <TableHead className="w-[110px]">Instruction Ref</TableHead>
+                  <TableHead className="w-[90px]">Clause</TableHead>
+                  <TableHead className="w-[90px]">RFI</TableHead>
+                  <TableHead className="w-[110px]">Owner</TableHead>
+                  <TableHead className="w-[130px]">Notified</TableHead>
+                  <TableHead className="w-[130px]">Submitted</TableHead>
+                  <TableHead className="w-[130px]">Approved</TableHead>
+                  <TableHead className="w-[120px] text-right">Claimed ($)</TableHead>
+                  <TableHead className="w-[120px] text-right">Approved ($)</TableHead>
+                  <TableHead className="w-[80px] text-right">EOT Claimed</TableHead>
+                  <TableHead className="w-[80px] text-right">EOT Approved</TableHead>
+                  <TableHead className="w-[120px] text-right">Linked BOQ</TableHead>
+                  <TableHead className="w-[40px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {eventTags.map((tag) => (
+                  <TableRow key={tag.id} data-testid={`row-event-tag-${tag.id}`}>
+                    {(["no", "title"] as const).map((field) => (
+                      <TableCell key={field} className="p-1">
+                        <Input
+                          key={`${tag.id}-${field}-${tag[field]}`}
+                          defaultValue={tag[field]}
+                          onBlur={(e) => saveText(tag, field, e.target.value)}
+                          className={`h-7 text-xs ${field === "no" ? "font-mono" : ""}`}
+                          data-testid={`input-event-tag-${field}-${tag.id}`}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell className="p-1">
+                      <Select
+                        value={tag.statusId ?? NONE}
+                        onValueChange={(value) => saveField(tag, { statusId: value === NONE ? null : value })}
+                      >
+                        <SelectTrigger className="h-7 text-xs" data-testid={`select-event-tag-status-${tag.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>-</SelectItem>
+                          {statuses.map((status) => (
+                            <SelectItem key={status.id} value={status.id}>{status.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="p-1">
+                      <Select
+                        value={tag.pricingBasisId ?? NONE}
+                        onValueChange={(value) => saveField(tag, { pricingBasisId: value === NONE ? null : value })}
+                      >
+                        <SelectTrigger className="h-7 text-xs" data-testid={`select-event-tag-pricing-${tag.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>-</SelectItem>
+                          {pricingBasis.map((pricing) => (
+                            <SelectItem key={pricing.id} value={pricing.id}>{pricing.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    {(["instructionRef", "clauseRef", "relatedRFI", "owner"] as const).map((field) => (
+                      <TableCell key={field} className="p-1">
+                        <Input
+                          key={`${tag.id}-${field}-${tag[field]}`}
+                          defaultValue={tag[field] ?? ""}
+                          onBlur={(e) => saveText(tag, field, e.target.value)}
+                          className="h-7 text-xs"
+                          data-testid={`input-event-tag-${field}-${tag.id}`}
+                        />
+                      </TableCell>
+                    ))}
+                    {(["dateNotified", "submitted", "approved"] as const).map((field) => (
+                      <TableCell key={field} className="p-1">
+                        <Input
+                          key={`${tag.id}-${field}-${tag[field]}`}
+                          type="date"
+                          defaultValue={tag[field]?.slice(0, 10) ?? ""}
+                          onBlur={(e) => saveDate(tag, field, e.target.value)}
+                          className="h-7 text-xs"
+                          data-testid={`input-event-tag-${field}-${tag.id}`}
+                        />
+                      </TableCell>
+                    ))}
+                    {(["valueClaimed", "valueApproved"] as const).map((field) => (
+                      <TableCell key={field} className="p-1">
+                        <Input
+                          key={`${tag.id}-${field}-${tag[field]}`}
+                          type="number"
+                          step="0.01"
+                          defaultValue={tag[field] ?? ""}
+                          onBlur={(e) => saveValue(tag, field, e.target.value)}
+                          className="h-7 text-xs text-right tabular-nums"
+                          data-testid={`input-event-tag-${field}-${tag.id}`}
+                        />
+                      </TableCell>
+                    ))}
+                    {(["eotDaysClaimed", "eotDaysApproved"] as const).map((field) => (
+                      <TableCell key={field} className="p-1">
+                        <Input
+                          key={`${tag.id}-${field}-${tag[field]}`}
+                          type="number"
+                          step="1"
+                          defaultValue={tag[field] ?? ""}
+                          onBlur={(e) => saveDays(tag, field, e.target.value)}
+                          className="h-7 text-xs text-right tabular-nums"
+                          data-testid={`input-event-tag-${field}-${tag.id}`}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right tabular-nums" title={`${tag.itemCount} linked item(s) in the active revision`}>
+                      {formatCurrency(tag.linkedValue)}
+                      <span className="text-muted-foreground ml-1">({tag.itemCount})</span>
+                    </TableCell>
+                    <TableCell className="p-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => setDeleteTarget(tag)}
+                        data-testid={`button-delete-event-tag-${tag.id}`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+
+                {/* New event row */}
+                <TableRow>
+                  <TableCell className="p-1">
+                    <Input
+                      value={newNo}
+                      onChange={(e) => setNewNo(e.target.value)}
+                      placeholder="No."
+                      className="h-7 text-xs font-mono"
+                      data-testid="input-new-event-tag-no"
+                    />
+                  </TableCell>
+                  <TableCell className="p-1">
+                    <Input
+                      value={newTitle}
+                      onChange={(e) => setNewTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleCreate();
+                      }}
+                      placeholder="Title"
+                      className="h-7 text-xs"
+                      data-testid="input-new-event-tag-title"
+                    />
+                  </TableCell>
+                  <TableCell colSpan={15} className="p-1">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 text-xs"
+                      onClick={handleCreate}
+                      disabled={!newNo.trim() || !newTitle.trim() || createMutation.isPending}
+                      data-testid="button-add-event-tag"
+                    >
+                      <Plus className="h-3.5 w-3.5 mr-1" />
+                      {createMutation.isPending ? "Adding..." : "Add Event"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+              {totals && totals.count > 0 && (
+                <TableFooter>
+                  <TableRow className="font-semibold" data-testid="row-event-tag-totals">
+                    <TableCell colSpan={11}>Totals ({totals.count} events)</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatCurrency(totals.valueClaimed)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatCurrency(totals.valueApproved)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{totals.eotDaysClaimed}d</TableCell>
+                    <TableCell className="text-right tabular-nums">{totals.eotDaysApproved}d</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatCurrency(totals.linkedValue)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          </div>
+        )}
+
+        <AlertDialog open={!!deleteTarget} onOpenChange={(isOpen) => !isOpen && setDeleteTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete event {deleteTarget?.no}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Linked BOQ items and final quantities will be unlinked but not deleted.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel data-testid="button-cancel-delete-event-tag">Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+                data-testid="button-confirm-delete-event-tag"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,7 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ZoomIn, ZoomOut, Columns, ChevronRight, ChevronDown, Info, AlertCircle, AlertTriangle, FileText, Network } from 'lucide-react';
+import { ZoomIn, ZoomOut, Columns, ChevronRight, ChevronDown, Info, AlertCircle, AlertTriangle, FileText, Network, Layers } from 'lucide-react';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { ColumnPickerDialog } from './ColumnPickerDialog';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
@@ -57,6 +57,7 @@ interface XERWBS {
 
 interface GanttChartProps {
   program: Program;
+  baselineProgram?: Program | null; // Drawn as ghost bars, matched by activity ID
 }
 
 interface TaskRow {
@@ -105,6 +106,7 @@ const ALL_COLUMNS: ColumnDef[] = [
   { id: 'startDate', label: 'Start', width: 100, minWidth: 80 },
   { id: 'finishDate', label: 'Finish', width: 100, minWidth: 80 },
   { id: 'percentComplete', label: '% Complete', width: 100, minWidth: 80 },
+  { id: 'finishVariance', label: 'Finish Var.', width: 90, minWidth: 70 },
 ];
 
 type DateScale = 'days' | 'months' | 'quarters' | 'years';
@@ -116,7 +118,9 @@ const STORAGE_KEY_ZOOM_LEVEL = 'gantt-zoom-level';
 const STORAGE_KEY_SHOW_LINKS = 'gantt-show-links';
 const STORAGE_KEY_LINK_FILTER = 'gantt-link-filter';
 
-export function GanttChart({ program }: GanttChartProps) {
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export function GanttChart({ program, baselineProgram }: GanttChartProps) {
   const [zoomLevel, setZoomLevel] = useState(1);
   const [visibleColumns, setVisibleColumns] = useState(DEFAULT_COLUMNS.map(c => c.id));
   const [columnPickerOpen, setColumnPickerOpen] = useState(false);
@@ -127,12 +131,19 @@ export function GanttChart({ program }: GanttChartProps) {
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [showLinks, setShowLinks] = useState(true);
   const [linkFilter, setLinkFilter] = useState<'all' | 'critical' | 'driving'>('driving');
+  const [showBaseline, setShowBaseline] = useState(true);
   const mainScrollRef = useRef<HTMLDivElement>(null);
 
   const tasks = program.xerData?.tasks || [];
   const wbsItems = program.xerData?.wbs || [];
   const relationships = program.xerData?.relationships || [];
 
+  // Baseline activities by activity ID (task IDs differ between XER exports)
+  const baselineByCode = new Map<string, XERTask>();
+  (baselineProgram?.xerData?.tasks || []).forEach(task => baselineByCode.set(task.taskCode, task));
+  const hasBaseline = baselineByCode.size > 0;
+  const getBaselineTask = (task: XERTask) => (hasBaseline ? baselineByCode.get(task.taskCode) : undefined);
+
   // Load saved settings from localStorage
   useEffect(() => {
     // Load column widths
@@ -404,6 +415,16 @@ export function GanttChart({ program }: GanttChartProps) {
       new Date(t.finishDate!)
     ]);
 
+    // Keep baseline bars in range when the update has moved activities
+    if (hasBaseline && showBaseline) {
+      validTasks.forEach(t => {
+        const baselineTask = getBaselineTask(t);
+        if (baselineTask?.startDate && baselineTask.finishDate) {
+          dates.push(new Date(baselineTask.startDate), new Date(baselineTask.finishDate));
+        }
+      });
+    }
+
     const min = new Date(Math.min(...dates.map(d => d.getTime())));
     const max = new Date(Math.max(...dates.map(d => d.getTime())));
 
@@ -546,6 +567,18 @@ export function GanttChart({ program }: GanttChartProps) {
     return `${percent.toFixed(0)}%`;
   };
 
+  // Finish slippage against the baseline in calendar days (positive = late)
+  const getFinishVariance = (task: XERTask) => {
+    const baselineTask = getBaselineTask(task);
+    if (!baselineTask?.finishDate || !task.finishDate) return null;
+    return Math.round((new Date(task.finishDate).getTime() - new Date(baselineTask.finishDate).getTime()) / MS_PER_DAY);
+  };
+
+  const formatVariance = (days: number | null) => {
+    if (days === null) return '-';
+    return days > 0 ? `+${days}d` : `${days}d`;
+  };
+
   // Calculate task bar position and width
   const getTaskBarStyle = (task: XERTask) => {
     if (!task.startDate || !task.finishDate) return null;
@@ -553,8 +586,8 @@ export function GanttChart({ program }: GanttChartProps) {
     const taskStart = new Date(task.startDate);
     const taskEnd = new Date(task.finishDate);
 
-    const daysFromStart = Math.ceil((taskStart.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-    const taskDuration = Math.ceil((taskEnd.getTime() - taskStart.getTime()) / (1000 * 60 * 60 * 24));
+    const daysFromStart = Math.ceil((taskStart.getTime() - startDate.getTime()) / MS_PER_DAY);
+    const taskDuration = Math.ceil((taskEnd.getTime() - taskStart.getTime()) / MS_PER_DAY);
 
     const left = daysFromStart * dayWidth;
     const width = Math.max(taskDuration * dayWidth, 20);
@@ -572,6 +605,23 @@ export function GanttChart({ program }: GanttChartProps) {
     };
   };
 
+  // Baseline ghost bar position on the same timeline
+  const getBaselineBarStyle = (task: XERTask) => {
+    const baselineTask = getBaselineTask(task);
+    if (!baselineTask?.startDate || !baselineTask.finishDate) return null;
+
+    const baselineStart = new Date(baselineTask.startDate);
+    const baselineEnd = new Date(baselineTask.finishDate);
+    const daysFromStart = Math.ceil((baselineStart.getTime() - startDate.getTime()) / MS_PER_DAY);
+    const baselineDuration = Math.ceil((baselineEnd.getTime() - baselineStart.getTime()) / MS_PER_DAY);
+
+    return {
+      left: `${daysFromStart * dayWidth}px`,
+      width: `${Math.max(baselineDuration * dayWidth, 4)}px`,
+      title: `Baseline: ${formatDate(baselineTask.startDate)} - ${formatDate(baselineTask.finishDate)}`,
+    };
+  };
+
   // Build task position map for link rendering (only visible tasks)
   const taskPositionMap = new Map<string, { 
     rowIndex: number; 
@@ -950,6 +1000,20 @@ export function GanttChart({ program }: GanttChartProps) {
               </ToggleGroup>
             )}
 
+            {/* Baseline Toggle (only when a baseline is selected) */}
+            {hasBaseline && (
+              <Button
+                variant={showBaseline ? "default" : "outline"}
+                size="sm"
+                onClick={() => setShowBaseline(!showBaseline)}
+                title={`Baseline: ${baselineProgram?.name}`}
+                data-testid="button-toggle-baseline"
+              >
+                <Layers className="h-4 w-4 mr-2" />
+                {showBaseline ? 'Hide Baseline' : 'Show Baseline'}
+              </Button>
+            )}
+
             {/* WBS Collapse/Expand Controls */}
             <div className="flex items-center gap-1 border-l pl-2">
               <Button
@@ -1146,6 +1210,14 @@ export function GanttChart({ program }: GanttChartProps) {
                                   {col.id === 'finishDate' && formatDate((row.data as XERTask).finishDate)}
                                   {col.id === 'percentComplete' && formatPercent((row.data as XERTask).percentComplete)}
                                   {col.id === 'totalFloat' && formatFloat((row.data as XERTask).totalFloat)}
+                                  {col.id === 'finishVariance' && (() => {
+                                    const variance = getFinishVariance(row.data as XERTask);
+                                    return (
+                                      <span className={variance ? (variance > 0 ? 'text-destructive' : 'text-green-600') : ''}>
+                                        {formatVariance(variance)}
+                                      </span>
+                                    );
+                                  })()}
                                 </>
                               )}
                             </div>
@@ -1220,6 +1292,7 @@ export function GanttChart({ program }: GanttChartProps) {
                         {row.type === 'task' && (() => {
                           const barStyle = getTaskBarStyle(row.data as XERTask);
                           if (!barStyle) return null;
+                          const baselineBarStyle = showBaseline ? getBaselineBarStyle(row.data as XERTask) : null;
 
                           return (
                             <>
@@ -1238,6 +1311,17 @@ export function GanttChart({ program }: GanttChartProps) {
                                   style={{ width: `${barStyle.percentComplete}%` }}
                                 />
                               </div>
+                              {/* Baseline Ghost Bar - along the bottom edge of the task bar */}
+                              {baselineBarStyle && (
+                                <div
+                                  className="absolute top-[17px] h-[3px] rounded-sm bg-amber-500/70"
+                                  style={{
+                                    left: baselineBarStyle.left,
+                                    width: baselineBarStyle.width,
+                                  }}
+                                  title={baselineBarStyle.title}
+                                />
+                              )}
                               {/* Task Name - to the right of bar */}
                               <span
                                 className="absolute top-1 text-[10px] text-foreground truncate"
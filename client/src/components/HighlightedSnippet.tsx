@@ -0,0 +1,32 @@
+/**
+ * HighlightedSnippet - Search result snippet with <mark>ed matches from the server
+ * (ts_headline). Rendered as text nodes, so document text is never parsed as HTML.
+ */
+
+import { cn } from '@/lib/utils';
+
+interface HighlightedSnippetProps {
+  text?: string | null;
+  className?: string;
+}
+
+export function HighlightedSnippet({ text, className }: HighlightedSnippetProps) {
+  if (!text) return null;
+
+  // Odd parts are the matched words between <mark> and </mark>
+  const parts = text.split(/<mark>([\s\S]*?)<\/mark>/);
+
+  return (
+    <p className={cn('text-xs text-muted-foreground', className)} data-testid="text-search-highlight">
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-foreground rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,290 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface MonteCarloComparisonDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface SnapshotListItem {
+  id: string;
+  revisionId: string;
+  revisionNumber: number;
+  revisionName: string;
+  iterations: number;
+  targetPercentile: number;
+  seed: number | null;
+  inputHash: string | null;
+  p50: number;
+  p90: number;
+  targetValue: number;
+  createdAt: string;
+}
+
+interface ValueChange {
+  label: string;
+  base: number | null;
+  compare: number | null;
+  change: number | null;
+  changePercent: number | null;
+}
+
+interface SnapshotComparison {
+  sameInputs: boolean;
+  sameSeed: boolean;
+  summary: ValueChange[];
+  percentileTable: ValueChange[];
+  scheduleSummary: ValueChange[] | null;
+  sensitivityMovers: Array<{
+    riskNumber: string;
+    title: string;
+    baseContribution: number;
+    compareContribution: number;
+    change: number;
+  }>;
+  risksAdded: Array<{ riskNumber: string; title: string }>;
+  risksRemoved: Array<{ riskNumber: string; title: string }>;
+}
+
+const formatCurrency = (value: number | null) => {
+  if (value == null) return "-";
+  return `$${(value / 1000000).toFixed(2)}M`;
+};
+
+const formatDays = (value: number | null) => {
+  if (value == null) return "-";
+  return `${Math.round(value)}d`;
+};
+
+const formatSigned = (value: number | null, format: (v: number | null) => string) => {
+  if (value == null) return "-";
+  return value > 0 ? `+${format(value)}` : format(value);
+};
+
+const changeClass = (value: number | null) => {
+  if (value == null || value === 0) return "";
+  return value > 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400";
+};
+
+function snapshotLabel(snapshot: SnapshotListItem) {
+  const runAt = new Date(snapshot.createdAt).toLocaleString();
+  return `Rev ${snapshot.revisionNumber} (${snapshot.revisionName}) - ${runAt}`;
+}
+
+function ChangeTable({ rows, format }: { rows: ValueChange[]; format: (v: number | null) => string }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="text-xs">
+          <TableHead className="py-2">Measure</TableHead>
+          <TableHead className="text-right py-2">Base</TableHead>
+          <TableHead className="text-right py-2">Compare</TableHead>
+          <TableHead className="text-right py-2">Change</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody className="text-xs">
+        {rows.map((row) => (
+          <TableRow key={row.label}>
+            <TableCell className="font-medium py-1.5">{row.label}</TableCell>
+            <TableCell className="text-right tabular-nums py-1.5">{format(row.base)}</TableCell>
+            <TableCell className="text-right tabular-nums py-1.5">{format(row.compare)}</TableCell>
+            <TableCell className={`text-right tabular-nums py-1.5 ${changeClass(row.change)}`}>
+              {formatSigned(row.change, format)}
+              {row.changePercent != null && (
+                <span className="text-muted-foreground ml-1">({(row.changePercent * 100).toFixed(1)}%)</span>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function MonteCarloComparisonDialog({ projectId, open, onOpenChange }: MonteCarloComparisonDialogProps) {
+  const [baseId, setBaseId] = useState<string>("");
+  const [compareId, setCompareId] = useState<string>("");
+
+  const { data: snapshots = [] } = useQuery<SnapshotListItem[]>({
+    queryKey: [`/api/projects/${projectId}/monte-carlo/snapshots`],
+    enabled: open && !!projectId,
+  });
+
+  // Default to the two most recent runs (older one as base)
+  useEffect(() => {
+    if (snapshots.length >= 2 && !baseId && !compareId) {
+      setBaseId(snapshots[1].id);
+      setCompareId(snapshots[0].id);
+    }
+  }, [snapshots, baseId, compareId]);
+
+  const canCompare = !!baseId && !!compareId && baseId !== compareId;
+  const { data: comparison, isLoading } = useQuery<SnapshotComparison>({
+    queryKey: [`/api/projects/${projectId}/monte-carlo/compare?base=${baseId}&compare=${compareId}`],
+    enabled: open && canCompare,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" data-testid="dialog-monte-carlo-comparison">
+        <DialogHeader>
+          <DialogTitle>Compare Simulation Runs</DialogTitle>
+          <DialogDescription>
+            Diff two saved Monte Carlo snapshots: percentiles, top sensitivity movers and risks added or removed
+          </DialogDescription>
+        </DialogHeader>
+
+        {snapshots.length < 2 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            At least two saved simulation runs are needed to compare.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Base run</Label>
+                <Select value={baseId} onValueChange={setBaseId}>
+                  <SelectTrigger className="h-9" data-testid="select-comparison-base">
+                    <SelectValue placeholder="Select run..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {snapshots.map((snapshot) => (
+                      <SelectItem key={snapshot.id} value={snapshot.id}>{snapshotLabel(snapshot)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Compare run</Label>
+                <Select value={compareId} onValueChange={setCompareId}>
+                  <SelectTrigger className="h-9" data-testid="select-comparison-compare">
+                    <SelectValue placeholder="Select run..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {snapshots.map((snapshot) => (
+                      <SelectItem key={snapshot.id} value={snapshot.id}>{snapshotLabel(snapshot)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {!canCompare ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Select two different runs.</p>
+            ) : isLoading || !comparison ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Loading comparison...</p>
+            ) : (
+              <>
+                <div className="flex gap-2 flex-wrap">
+                  <Badge variant={comparison.sameInputs ? "secondary" : "outline"} data-testid="badge-comparison-inputs">
+                    {comparison.sameInputs ? "Identical inputs" : "Inputs changed"}
+                  </Badge>
+                  <Badge variant={comparison.sameSeed ? "secondary" : "outline"} data-testid="badge-comparison-seed">
+                    {comparison.sameSeed ? "Same seed" : "Different seed"}
+                  </Badge>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  <div>
+                    <h4 className="font-semibold mb-2 text-sm">Cost</h4>
+                    <ChangeTable rows={comparison.summary} format={formatCurrency} />
+                  </div>
+                  <div>
+                    <h4 className="font-semibold mb-2 text-sm">Probability Bands</h4>
+                    <ChangeTable rows={comparison.percentileTable} format={formatCurrency} />
+                  </div>
+                </div>
+
+                {comparison.scheduleSummary && (
+                  <div>
+                    <h4 className="font-semibold mb-2 text-sm">Schedule Delay</h4>
+                    <ChangeTable rows={comparison.scheduleSummary} format={formatDays} />
+                  </div>
+                )}
+
+                <div>
+                  <h4 className="font-semibold mb-2 text-sm">Top Sensitivity Movers</h4>
+                  {comparison.sensitivityMovers.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No change in variance contribution.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="text-xs">
+                          <TableHead className="py-2">Risk</TableHead>
+                          <TableHead className="text-right py-2">Base</TableHead>
+                          <TableHead className="text-right py-2">Compare</TableHead>
+                          <TableHead className="text-right py-2">Change</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody className="text-xs">
+                        {comparison.sensitivityMovers.map((mover) => (
+                          <TableRow key={mover.riskNumber} data-testid={`row-sensitivity-mover-${mover.riskNumber}`}>
+                            <TableCell className="py-1.5">
+                              <span className="font-mono mr-2">{mover.riskNumber}</span>
+                              {mover.title}
+                            </TableCell>
+                            <TableCell className="text-right tabular-nums py-1.5">{(mover.baseContribution * 100).toFixed(1)}%</TableCell>
+                            <TableCell className="text-right tabular-nums py-1.5">{(mover.compareContribution * 100).toFixed(1)}%</TableCell>
+                            <TableCell className={`text-right tabular-nums py-1.5 ${changeClass(mover.change)}`}>
+                              {mover.change > 0 ? "+" : ""}{(mover.change * 100).toFixed(1)} pts
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-xs">
+                  <div>
+                    <h4 className="font-semibold mb-2 text-sm">Risks Added</h4>
+                    {comparison.risksAdded.length === 0 ? (
+                      <p className="text-muted-foreground">None</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {comparison.risksAdded.map((risk) => (
+                          <li key={risk.riskNumber}><span className="font-mono mr-2">{risk.riskNumber}</span>{risk.title}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <div>
+                    <h4 className="font-semibold mb-2 text-sm">Risks Removed</h4>
+                    {comparison.risksRemoved.length === 0 ? (
+                      <p className="text-muted-foreground">None</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {comparison.risksRemoved.map((risk) => (
+                          <li key={risk.riskNumber}><span className="font-mono mr-2">{risk.riskNumber}</span>{risk.title}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
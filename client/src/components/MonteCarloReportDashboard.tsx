@@ -1,6 +1,6 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Play, RefreshCw, Printer } from "lucide-react";
+import { Play, RefreshCw, Printer, GitCompare } from "lucide-react";
 import { useState, useEffect, useRef } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -9,6 +9,7 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useRechartsTheme } from "@/hooks/useRechartsTheme";
+import { MonteCarloComparisonDialog } from "@/components/MonteCarloComparisonDialog";
 import {
   LineChart,
   Line,
@@ -42,6 +43,31 @@ interface MonteCarloReportDashboardProps {
   autoRunTrigger?: number; // When this changes, auto-run the simulation
 }
 
+interface SensitivityItem {
+  riskId: string;
+  riskNumber: string;
+  title: string;
+  varianceContribution: number;
+  correlation: number;
+}
+
+interface ScheduleResults {
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+  stdDev: number;
+  base: number;
+  targetValue: number;
+  distribution: number[];
+  sensitivityAnalysis: SensitivityItem[];
+  percentileTable: Array<{
+    percentile: number;
+    value: number;
+    varianceFromBase: number;
+  }>;
+}
+
 interface MonteCarloResults {
   p10: number;
   p50: number;
@@ -52,18 +78,28 @@ interface MonteCarloResults {
   targetValue: number;
   targetPercentile: number;
   distribution: number[];
-  sensitivityAnalysis: Array<{
-    riskId: string;
-    riskNumber: string;
-    title: string;
-    varianceContribution: number;
-    correlation: number;
-  }>;
+  sensitivityAnalysis: SensitivityItem[];
   percentileTable: Array<{
     percentile: number;
     value: number;
     varianceFromBase: number;
   }>;
+  schedule: ScheduleResults | null; // Delay in days; null when no risk has a schedule impact
+  jointSamples: Array<{ cost: number; days: number }>;
+  jointTargetConfidence: number | null;
+  correlationImpact: {
+    groupsApplied: number;
+    risksCorrelated: number;
+    uncorrelated: { p80: number; p90: number };
+    correlated: { p80: number; p90: number };
+    schedule: {
+      uncorrelated: { p80: number; p90: number };
+      correlated: { p80: number; p90: number };
+    } | null;
+  } | null; // null when no correlation group applied
+  seed: number;
+  inputHash: string;
+  snapshotId: string;
   settings: {
     iterations: number;
     targetPercentile: number;
@@ -80,6 +116,8 @@ export function MonteCarloReportDashboard({ projectId, revisionId, onRiskClick,
   const [isRunning, setIsRunning] = useState(false);
   const [iterations, setIterations] = useState(10000);
   const [targetPercentile, setTargetPercentile] = useState(80);
+  const [seed, setSeed] = useState<string>(""); // Blank = fresh random seed each run
+  const [showComparison, setShowComparison] = useState(false);
   
   // Track if a rerun was requested while a simulation was running
   const pendingRerunRef = useRef(false);
@@ -98,6 +136,50 @@ export function MonteCarloReportDashboard({ projectId, revisionId, onRiskClick,
     }
   }, [revision]);
 
+  // Fixed seed lives in the project's quant settings
+  const { data: quantSettings } = useQuery<{ seed: number | null }>({
+    queryKey: ["/api/projects", projectId, "quant-settings"],
+    enabled: !!projectId,
+  });
+
+  useEffect(() => {
+    if (quantSettings) {
+      setSeed(quantSettings.seed != null ? quantSettings.seed.toString() : "");
+    }
+  }, [quantSettings]);
+
+  const updateSeedMutation = useMutation({
+    mutationFn: async (newSeed: number | null) => {
+      return await apiRequest("PUT", `/api/projects/${projectId}/quant-settings`, { seed: newSeed });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "quant-settings"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update simulation seed",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const parsedSeed = seed.trim() === "" ? null : parseInt(seed);
+
+  const handleSeedBlur = () => {
+    if (parsedSeed !== null && (isNaN(parsedSeed) || parsedSeed < 0 || parsedSeed > 2147483647)) {
+      toast({
+        title: "Invalid Seed",
+        description: "Seed must be a whole number between 0 and 2147483647",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (parsedSeed !== (quantSettings?.seed ?? null)) {
+      updateSeedMutation.mutate(parsedSeed);
+    }
+  };
+
   // Mutation to update settings
   const updateSettingsMutation = useMutation({
     mutationFn: async (updates: { monteCarloIterations?: number; targetPercentile?: number }) => {
@@ -157,7 +239,8 @@ export function MonteCarloReportDashboard({ projectId, revisionId, onRiskClick,
       const response = await apiRequest("POST", `/api/projects/${projectId}/monte-carlo`, { 
         revisionId,
         monteCarloIterations: iterations,
-        targetPercentile: targetPercentile
+        targetPercentile: targetPercentile,
+        ...(parsedSeed !== null && !isNaN(parsedSeed) && { seed: parsedSeed }),
       });
       const result = await response.json() as MonteCarloResults;
       
@@ -181,6 +264,7 @@ export function MonteCarloReportDashboard({ projectId, revisionId, onRiskClick,
         
         // Invalidate dashboard cache to refresh with latest snapshot
         queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/monte-carlo/latest`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/monte-carlo/snapshots`] });
         
         // Check if there was a pending rerun request
         if (pendingRerunRef.current) {
@@ -253,6 +337,34 @@ export function MonteCarloReportDashboard({ projectId, revisionId, onRiskClick,
   }, '');
   const tornadoYAxisWidth = Math.max(260, (longestTornadoLabel.length + 1) * 6 + 10);
 
+  // Prepare schedule S-Curve data (Exceedance of total delay in days)
+  const schedule = results?.schedule ?? null;
+  const scheduleSCurveData = schedule ? schedule.distribution
+    .map((value, index) => ({
+      days: Math.round(value),
+      probability: 1 - (index / schedule.distribution.length),
+    }))
+    .filter((_, i) => i % Math.ceil(schedule.distribution.length / 200) === 0)
+    : [];
+
+  // Prepare schedule Tornado data (Top 10 schedule drivers)
+  const scheduleTornadoData = schedule
+    ? schedule.sensitivityAnalysis
+        .slice(0, 10)
+        .map(item => ({
+          riskLabel: `${item.riskNumber} - ${item.title}`,
+          fullLabel: `${item.riskNumber} - ${item.title}`,
+          contribution: item.varianceContribution * 100,
+          riskId: item.riskId,
+        }))
+        .filter(item => item.contribution > 0)
+    : [];
+
+  const longestScheduleTornadoLabel = scheduleTornadoData.reduce((longest, item) => {
+    return item.riskLabel.length > longest.length ? item.riskLabel : longest;
+  }, '');
+  const scheduleTornadoYAxisWidth = Math.max(260, (longestScheduleTornadoLabel.length + 1) * 6 + 10);
+
   // Prepare Histogram data (Frequency Distribution)
   const histogramData = results ? (() => {
     const sorted = [...results.distribution].sort((a, b) => a - b);
@@ -298,6 +410,10 @@ export function MonteCarloReportDashboard({ projectId, revisionId, onRiskClick,
     return `${(value * 100).toFixed(0)}%`;
   };
 
+  const formatDays = (value: number) => {
+    return `${Math.round(value)}d`;
+  };
+
   return (
     <div className="space-y-3">
       {/* Header with Settings and Run Button */}
@@ -347,9 +463,34 @@ export function MonteCarloReportDashboard({ projectId, revisionId, onRiskClick,
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="flex-1 min-w-[120px] max-w-[200px]">
+              <Label htmlFor="simulation-seed" className="text-xs">Seed</Label>
+              <Input
+                id="simulation-seed"
+                type="number"
+                min="0"
+                placeholder="Random"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                onBlur={handleSeedBlur}
+                data-testid="input-monte-carlo-seed"
+                className="h-9"
+              />
+            </div>
           </div>
 
           <div className="flex gap-2 flex-wrap sm:flex-shrink-0">
+            <Button
+              onClick={() => setShowComparison(true)}
+              variant="outline"
+              size="default"
+              data-testid="button-compare-runs"
+              className="flex-1 sm:flex-initial"
+            >
+              <GitCompare className="h-4 w-4 mr-2" />
+              Compare Runs
+            </Button>
             {results && (
               <Button
                 onClick={() => window.print()}
@@ -685,6 +826,255 @@ export function MonteCarloReportDashboard({ projectId, revisionId, onRiskClick,
             </Card>
           </div>
 
+          {/* Schedule Risk - Summary, Drivers, Exceedance Curve and Joint Cost/Time Scatter */}
+          {schedule && (
+            <>
+              <div className="grid grid-cols-1 lg:grid-cols-[24%_76%] gap-2 max-w-full">
+                {/* Schedule Summary */}
+                <Card className="p-4">
+                  <h3 className="font-semibold mb-3 text-sm">D. Schedule Delay</h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="text-xs">
+                        <TableHead className="py-2">Item</TableHead>
+                        <TableHead className="text-right py-2">Days</TableHead>
+                        <TableHead className="text-right py-2">Variance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody className="text-xs">
+                      <TableRow>
+                        <TableCell className="font-medium py-1.5">P10</TableCell>
+                        <TableCell className="text-right tabular-nums py-1.5">{formatDays(schedule.p10)}</TableCell>
+                        <TableCell className="text-right tabular-nums py-1.5">{formatDays(schedule.p10 - schedule.base)}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell className="font-medium py-1.5">P50</TableCell>
+                        <TableCell className="text-right tabular-nums py-1.5">{formatDays(schedule.p50)}</TableCell>
+                        <TableCell className="text-right tabular-nums py-1.5">{formatDays(schedule.p50 - schedule.base)}</TableCell>
+                      </TableRow>
+                      <TableRow className="bg-primary/5">
+                        <TableCell className="font-bold py-1.5">
+                          P{results.targetPercentile}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums font-bold py-1.5">{formatDays(schedule.targetValue)}</TableCell>
+                        <TableCell className="text-right tabular-nums font-bold py-1.5">{formatDays(schedule.targetValue - schedule.base)}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell className="font-medium py-1.5">P90</TableCell>
+                        <TableCell className="text-right tabular-nums py-1.5">{formatDays(schedule.p90)}</TableCell>
+                        <TableCell className="text-right tabular-nums py-1.5">{formatDays(schedule.p90 - schedule.base)}</TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+
+                  <div className="mt-4 space-y-1 text-xs">
+                    <div className="grid grid-cols-[1fr_auto] gap-2">
+                      <span className="text-muted-foreground">Base:</span>
+                      <span className="font-medium tabular-nums">{formatDays(schedule.base)}</span>
+                    </div>
+                    <div className="grid grid-cols-[1fr_auto] gap-2">
+                      <span className="text-muted-foreground">Mean:</span>
+                      <span className="font-medium tabular-nums">{formatDays(schedule.mean)}</span>
+                    </div>
+                    {results.jointTargetConfidence != null && (
+                      <div className="grid grid-cols-[1fr_auto] gap-2">
+                        <span className="text-muted-foreground">Within both P{results.targetPercentile} targets:</span>
+                        <span className="font-medium tabular-nums" data-testid="text-joint-confidence">{formatPercent(results.jointTargetConfidence)}</span>
+                      </div>
+                    )}
+                  </div>
+                </Card>
+
+                {/* Joint Cost/Time Scatter */}
+                <Card className="p-4">
+                  <h3 className="font-semibold mb-3 text-sm">E. Joint Cost / Schedule Outcomes</h3>
+                  <div className="w-full h-[300px] relative overflow-hidden">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ScatterChart margin={{ left: 10, right: 20, top: 10, bottom: 15 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis
+                          type="number"
+                          dataKey="cost"
+                          name="Cost"
+                          label={{ value: 'Total Cost ($M)', position: 'insideBottom', offset: -5 }}
+                          tickFormatter={(value) => `$${(value / 1000000).toFixed(1)}M`}
+                          tick={{ fill: 'hsl(var(--foreground))', fontSize: 10, fontWeight: 500 }}
+                        />
+                        <YAxis
+                          type="number"
+                          dataKey="days"
+                          name="Delay"
+                          label={{ value: 'Delay (days)', angle: -90, position: 'insideLeft' }}
+                          tick={{ fill: 'hsl(var(--foreground))', fontSize: 10, fontWeight: 500 }}
+                        />
+                        <Tooltip
+                          formatter={(value: any, name: string) => {
+                            if (name === 'Delay') return [formatDays(value), 'Delay'];
+                            return [formatCurrency(value), 'Cost'];
+                          }}
+                        />
+                        <ReferenceLine
+                          x={results.targetValue}
+                          stroke="#8b5cf6"
+                          strokeDasharray="5 5"
+                          label={{ value: `Cost P${results.targetPercentile}`, position: 'insideTopRight', fill: '#8b5cf6', ...chartTheme.labelStyle }}
+                        />
+                        <ReferenceLine
+                          y={schedule.targetValue}
+                          stroke="#f59e0b"
+                          strokeDasharray="5 5"
+                          label={{ value: `Time P${results.targetPercentile}`, position: 'insideTopLeft', fill: '#f59e0b', ...chartTheme.labelStyle }}
+                        />
+                        <Scatter data={results.jointSamples} fill="#2563eb" fillOpacity={0.35} data-testid="scatter-joint-outcomes" />
+                      </ScatterChart>
+                    </ResponsiveContainer>
+                  </div>
+                </Card>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-2 max-w-full">
+                {/* Schedule Tornado Chart */}
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm font-semibold">Top Schedule Drivers</CardTitle>
+                    <p className="text-xs text-muted-foreground">
+                      Click a risk to view details
+                    </p>
+                  </CardHeader>
+                  <CardContent className="pl-0 pr-4">
+                  <div className="w-full h-[300px] relative overflow-hidden">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart
+                      data={scheduleTornadoData}
+                      layout="vertical"
+                      margin={{ left: 0, right: 20, top: 5, bottom: 15 }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis
+                        type="number"
+                        label={{ value: 'Proportion of Variance (%)', position: 'insideBottom', offset: -5 }}
+                        tick={{ fill: 'hsl(var(--foreground))', fontSize: 10, fontWeight: 500 }}
+                      />
+                      <YAxis
+                        type="category"
+                        dataKey="riskLabel"
+                        width={scheduleTornadoYAxisWidth}
+                        interval={0}
+                        tick={{ fill: 'hsl(var(--foreground))', fontSize: 10, fontWeight: 500 }}
+                      />
+                      <Tooltip
+                        formatter={(value: any) => [`${(value as number).toFixed(2)}%`, 'Variance Contribution']}
+                      />
+                      <Bar
+                        dataKey="contribution"
+                        fill="#f59e0b"
+                        onClick={(data: any) => {
+                          if (onRiskClick && data?.payload?.riskId) {
+                            onRiskClick(data.payload.riskId);
+                          }
+                        }}
+                        style={{ cursor: onRiskClick ? 'pointer' : 'default' }}
+                        data-testid="bar-schedule-tornado-risk"
+                      />
+                    </BarChart>
+                  </ResponsiveContainer>
+                  </div>
+                  </CardContent>
+                </Card>
+
+                {/* Schedule S-Curve (Exceedance Curve) */}
+                <Card className="p-4">
+                  <h3 className="font-semibold mb-3 text-sm">F. Schedule Exceedance Curve</h3>
+                  <div className="w-full h-[300px] relative overflow-hidden">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={scheduleSCurveData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis
+                        dataKey="days"
+                        type="number"
+                        domain={['dataMin', 'dataMax']}
+                        label={{ value: 'Total Delay (days)', position: 'insideBottom', offset: -5 }}
+                        tick={{ fill: 'hsl(var(--foreground))', fontSize: 10, fontWeight: 500 }}
+                      />
+                      <YAxis
+                        label={{ value: 'Pr(Delay ≥ x)', angle: -90, position: 'insideLeft' }}
+                        domain={[0, 1]}
+                        tickFormatter={formatPercent}
+                        tick={{ fill: 'hsl(var(--foreground))', fontSize: 10, fontWeight: 500 }}
+                      />
+                      <Tooltip
+                        formatter={(value: any) => [formatPercent(value), 'Exceedance Prob']}
+                        labelFormatter={(label) => `Delay: ${formatDays(label)}`}
+                      />
+                      <ReferenceLine
+                        x={schedule.p10}
+                        stroke="#666"
+                        strokeDasharray="3 3"
+                        label={{ value: 'P10', position: 'top', ...chartTheme.labelStyle }}
+                      />
+                      <ReferenceLine
+                        x={schedule.p50}
+                        stroke="#666"
+                        strokeDasharray="3 3"
+                        label={{ value: 'P50', position: 'top', ...chartTheme.labelStyle }}
+                      />
+                      <ReferenceLine
+                        x={schedule.p90}
+                        stroke="#666"
+                        strokeDasharray="3 3"
+                        label={{ value: 'P90', position: 'top', ...chartTheme.labelStyle }}
+                      />
+                      <Line type="monotone" dataKey="probability" stroke="#f59e0b" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                  </div>
+                </Card>
+              </div>
+            </>
+          )}
+
+          {/* Correlation Effect */}
+          {results.correlationImpact && (
+            <Card className="p-4">
+              <h3 className="font-semibold mb-1 text-sm">Effect of Risk Correlation</h3>
+              <p className="text-xs text-muted-foreground mb-3">
+                {results.correlationImpact.groupsApplied} correlation group(s) covering {results.correlationImpact.risksCorrelated} risks, compared with sampling every risk independently
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow className="text-xs">
+                    <TableHead className="py-2">Measure</TableHead>
+                    <TableHead className="text-right py-2">Independent</TableHead>
+                    <TableHead className="text-right py-2">Correlated</TableHead>
+                    <TableHead className="text-right py-2">Increase</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody className="text-xs">
+                  {(['p80', 'p90'] as const).map((key) => (
+                    <TableRow key={`cost-${key}`} data-testid={`row-correlation-cost-${key}`}>
+                      <TableCell className="font-medium py-1.5">Cost {key.toUpperCase()}</TableCell>
+                      <TableCell className="text-right tabular-nums py-1.5">{formatCurrency(results.correlationImpact!.uncorrelated[key])}</TableCell>
+                      <TableCell className="text-right tabular-nums py-1.5">{formatCurrency(results.correlationImpact!.correlated[key])}</TableCell>
+                      <TableCell className="text-right tabular-nums font-medium py-1.5">
+                        {formatCurrency(results.correlationImpact!.correlated[key] - results.correlationImpact!.uncorrelated[key])}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {results.correlationImpact.schedule && (['p80', 'p90'] as const).map((key) => (
+                    <TableRow key={`schedule-${key}`} data-testid={`row-correlation-schedule-${key}`}>
+                      <TableCell className="font-medium py-1.5">Delay {key.toUpperCase()}</TableCell>
+                      <TableCell className="text-right tabular-nums py-1.5">{formatDays(results.correlationImpact!.schedule!.uncorrelated[key])}</TableCell>
+                      <TableCell className="text-right tabular-nums py-1.5">{formatDays(results.correlationImpact!.schedule!.correlated[key])}</TableCell>
+                      <TableCell className="text-right tabular-nums font-medium py-1.5">
+                        {formatDays(results.correlationImpact!.schedule!.correlated[key] - results.correlationImpact!.schedule!.uncorrelated[key])}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+          )}
+
           {/* Simulation Info */}
           <Card className="p-3">
             <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 sm:gap-4 text-xs text-muted-foreground">
@@ -697,6 +1087,12 @@ export function MonteCarloReportDashboard({ projectId, revisionId, onRiskClick,
               <span>
                 Target Confidence: <strong className="text-foreground">P{results.settings.targetPercentile}</strong>
               </span>
+              <span>
+                Seed: <strong className="text-foreground font-mono" data-testid="text-simulation-seed">{results.seed}</strong>
+              </span>
+              <span title={results.inputHash}>
+                Input Hash: <strong className="text-foreground font-mono">{results.inputHash.slice(0, 12)}</strong>
+              </span>
             </div>
           </Card>
         </>
@@ -709,11 +1105,17 @@ export function MonteCarloReportDashboard({ projectId, revisionId, onRiskClick,
               Click "Run Simulation" to perform Monte Carlo analysis on your risks
             </p>
             <p className="text-xs text-muted-foreground">
-              Ensure all risks have P10/P50/P90 values, probabilities, and distribution models assigned
+              Ensure all risks have P10/P50/P90 values, probabilities, and distribution models assigned. Add schedule impact (days) to include time risk
             </p>
           </div>
         </Card>
       )}
+
+      <MonteCarloComparisonDialog
+        projectId={projectId}
+        open={showComparison}
+        onOpenChange={setShowComparison}
+      />
     </div>
   );
 }
@@ -0,0 +1,526 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDate } from "@/lib/dateFormat";
+import { invalidationPatterns } from "@/api/queryKeys";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Bell, CalendarOff, CheckCircle2, Loader2, Mail, RotateCcw, Send, Trash2, XCircle } from "lucide-react";
+
+interface NoticeObligationsTabProps {
+  projectId: string;
+}
+
+type DeadlineState =
+  | "no_deadline"
+  | "upcoming"
+  | "due_soon"
+  | "overdue"
+  | "issued"
+  | "awaiting_response"
+  | "response_overdue"
+  | "responded"
+  | "closed";
+
+interface NoticeObligation {
+  id: string;
+  noticeKey: string;
+  title: string;
+  clauseRef: string | null;
+  senderParty: string | null;
+  recipientParty: string | null;
+  requiredAction: string | null;
+  triggerEventDate: string;
+  triggerDescription: string | null;
+  leadTimeDays: number | null;
+  leadTimeBusinessDays: boolean;
+  leadTimeRelativeTo: string;
+  dueDate: string | null;
+  timeBarDate: string | null;
+  responseRequired: boolean;
+  responseDueDate: string | null;
+  noResponseConsequence: string | null;
+  status: "open" | "issued" | "responded" | "closed";
+  issuedDate: string | null;
+  letterId: string | null;
+  letterNumber: number | null;
+  letterSubject: string | null;
+  respondedDate: string | null;
+  state: DeadlineState;
+  daysRemaining: number | null;
+  issuedLate: boolean;
+}
+
+interface ProjectHoliday {
+  id: string;
+  date: string;
+  name: string;
+}
+
+interface CorrespondenceLetter {
+  id: string;
+  letterNumber: number;
+  subject?: string;
+  letterDate?: string;
+}
+
+const STATE_BADGES: Record<DeadlineState, { label: string; variant: "default" | "secondary" | "destructive" | "success" | "primary" | "warning" | "outline" }> = {
+  no_deadline: { label: "No Time Limit", variant: "outline" },
+  upcoming: { label: "Upcoming", variant: "primary" },
+  due_soon: { label: "Due Soon", variant: "warning" },
+  overdue: { label: "Overdue", variant: "destructive" },
+  issued: { label: "Issued", variant: "success" },
+  awaiting_response: { label: "Awaiting Response", variant: "primary" },
+  response_overdue: { label: "Response Overdue", variant: "destructive" },
+  responded: { label: "Responded", variant: "success" },
+  closed: { label: "Closed", variant: "secondary" },
+};
+
+// Dates are stored as yyyy-mm-dd; parse them as local dates so they don't shift a day
+function formatDay(date: string | null): string {
+  return date ? formatDate(`${date}T00:00:00`) : "-";
+}
+
+function describeDaysRemaining(days: number | null): string {
+  if (days === null) return "";
+  if (days === 0) return "today";
+  if (days < 0) return `${-days} day${days === -1 ? "" : "s"} ago`;
+  return `in ${days} day${days === 1 ? "" : "s"}`;
+}
+
+export function NoticeObligationsTab({ projectId }: NoticeObligationsTabProps) {
+  const { toast } = useToast();
+  const [showAll, setShowAll] = useState(false);
+  const [issuing, setIssuing] = useState<NoticeObligation | null>(null);
+  const [issuedDate, setIssuedDate] = useState("");
+  const [letterId, setLetterId] = useState<string>("none");
+  const [holidayDate, setHolidayDate] = useState("");
+  const [holidayName, setHolidayName] = useState("");
+
+  const obligationsKey = [`/api/projects/${projectId}/notice-obligations`];
+
+  const { data: obligations = [], isLoading } = useQuery<NoticeObligation[]>({
+    queryKey: obligationsKey,
+    enabled: !!projectId,
+  });
+
+  const { data: holidays = [] } = useQuery<ProjectHoliday[]>({
+    queryKey: [`/api/projects/${projectId}/holidays`],
+    enabled: !!projectId,
+  });
+
+  const { data: letters = [] } = useQuery<CorrespondenceLetter[]>({
+    queryKey: [`/api/projects/${projectId}/correspondence/letters`],
+    enabled: !!issuing,
+  });
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Record<string, unknown> }) => {
+      const response = await apiRequest("PATCH", `/api/notice-obligations/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: obligationsKey });
+      setIssuing(null);
+    },
+    onError: onError("Failed to update notice"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/notice-obligations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: obligationsKey });
+    },
+    onError: onError("Failed to delete notice"),
+  });
+
+  const addHolidayMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/holidays`, {
+        date: holidayDate,
+        name: holidayName,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/holidays`] });
+      queryClient.invalidateQueries({ queryKey: obligationsKey });
+      // RFI SLA dates count business days too
+      invalidationPatterns.rfi(projectId).forEach(key => queryClient.invalidateQueries({ queryKey: key }));
+      setHolidayDate("");
+      setHolidayName("");
+      if (data.recalculated > 0) {
+        toast({
+          title: "Holiday added",
+          description: `${data.recalculated} notice deadline${data.recalculated === 1 ? "" : "s"} moved`,
+        });
+      }
+    },
+    onError: onError("Failed to add holiday"),
+  });
+
+  const deleteHolidayMutation = useMutation({
+    mutationFn: async (holidayId: string) => {
+      const response = await apiRequest("DELETE", `/api/projects/${projectId}/holidays/${holidayId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/holidays`] });
+      queryClient.invalidateQueries({ queryKey: obligationsKey });
+      // RFI SLA dates count business days too
+      invalidationPatterns.rfi(projectId).forEach(key => queryClient.invalidateQueries({ queryKey: key }));
+    },
+    onError: onError("Failed to remove holiday"),
+  });
+
+  const openIssueDialog = (obligation: NoticeObligation) => {
+    const now = new Date();
+    setIssuedDate(`${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`);
+    setLetterId(obligation.letterId || "none");
+    setIssuing(obligation);
+  };
+
+  const count = (state: DeadlineState) => obligations.filter((o) => o.state === state).length;
+  const visible = showAll ? obligations : obligations.filter((o) => o.status === "open" || o.status === "issued");
+
+  return (
+    <div className="space-y-6 p-2">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold">Notices Register</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Live contract notices and their deadlines. Track a notice from the Contract Notices analysis when its trigger event occurs.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setShowAll(!showAll)} data-testid="button-toggle-closed-notices">
+          {showAll ? "Hide Completed" : "Show Completed"}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {([
+          ["overdue", "Overdue"],
+          ["due_soon", "Due Within 7 Days"],
+          ["awaiting_response", "Awaiting Response"],
+          ["response_overdue", "Response Overdue"],
+        ] as const).map(([state, label]) => (
+          <Card key={state}>
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">{label}</p>
+              <p className={`text-2xl font-semibold ${count(state) > 0 && state.endsWith("overdue") ? "text-destructive" : ""}`} data-testid={`count-notices-${state}`}>
+                {count(state)}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading notices...</p>
+      ) : visible.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Bell className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground">
+              No {showAll ? "" : "open "}notices. Use Track in the Contract Notices analysis when a trigger event occurs.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="border rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr className="border-b">
+                  <th className="py-3 px-4 text-left text-sm font-medium">Notice</th>
+                  <th className="py-3 px-4 text-left text-sm font-medium">From / To</th>
+                  <th className="py-3 px-4 text-left text-sm font-medium">Trigger</th>
+                  <th className="py-3 px-4 text-left text-sm font-medium">Due</th>
+                  <th className="py-3 px-4 text-left text-sm font-medium">Status</th>
+                  <th className="py-3 px-4 text-left text-sm font-medium">Letter</th>
+                  <th className="py-3 px-4 text-right text-sm font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((obligation) => {
+                  const badge = STATE_BADGES[obligation.state];
+                  const showsResponse = obligation.status !== "open" && obligation.responseDueDate;
+                  return (
+                    <tr key={obligation.id} className="border-b align-top" data-testid={`row-notice-obligation-${obligation.id}`}>
+                      <td className="py-3 px-4 text-sm">
+                        <div className="font-medium">{obligation.title}</div>
+                        <div className="text-xs text-muted-foreground font-mono">
+                          {obligation.noticeKey}{obligation.clauseRef ? ` · ${obligation.clauseRef}` : ""}
+                        </div>
+                        {obligation.requiredAction && (
+                          <div className="text-xs text-muted-foreground mt-1 max-w-xs">{obligation.requiredAction}</div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-sm">
+                        {obligation.senderParty || "-"} → {obligation.recipientParty || "-"}
+                      </td>
+                      <td className="py-3 px-4 text-sm">
+                        <div>{formatDay(obligation.triggerEventDate)}</div>
+                        {obligation.triggerDescription && (
+                          <div className="text-xs text-muted-foreground max-w-xs line-clamp-2">{obligation.triggerDescription}</div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-sm whitespace-nowrap">
+                        {showsResponse ? (
+                          <>
+                            <div>Response {formatDay(obligation.responseDueDate)}</div>
+                            {obligation.state === "awaiting_response" || obligation.state === "response_overdue" ? (
+                              <div className="text-xs text-muted-foreground">{describeDaysRemaining(obligation.daysRemaining)}</div>
+                            ) : null}
+                          </>
+                        ) : (
+                          <>
+                            <div>{formatDay(obligation.dueDate)}</div>
+                            {obligation.leadTimeDays !== null && (
+                              <div className="text-xs text-muted-foreground">
+                                {obligation.leadTimeDays} {obligation.leadTimeBusinessDays ? "business" : "calendar"} days
+                                {obligation.leadTimeRelativeTo !== "trigger_event" ? " before" : ""}
+                                {obligation.status === "open" && obligation.daysRemaining !== null ? ` · ${describeDaysRemaining(obligation.daysRemaining)}` : ""}
+                              </div>
+                            )}
+                          </>
+                        )}
+                        {obligation.timeBarDate && obligation.status === "open" && (
+                          <div className="text-xs text-destructive">Time bar {formatDay(obligation.timeBarDate)}</div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-sm">
+                        <div className="flex flex-col items-start gap-1">
+                          <Badge variant={badge.variant} data-testid={`badge-notice-state-${obligation.id}`}>{badge.label}</Badge>
+                          {obligation.issuedLate && (
+                            <Badge variant="destructive" className="text-xs">Issued Late</Badge>
+                          )}
+                          {obligation.state === "response_overdue" && obligation.noResponseConsequence && (
+                            <div className="text-xs text-muted-foreground max-w-xs">{obligation.noResponseConsequence}</div>
+                          )}
+                        </div>
+                      </td>
+                      <td className="py-3 px-4 text-sm">
+                        {obligation.letterNumber !== null ? (
+                          <div className="flex items-center gap-1">
+                            <Mail className="h-3 w-3 text-muted-foreground" />
+                            <span>Letter #{obligation.letterNumber}</span>
+                          </div>
+                        ) : obligation.issuedDate ? (
+                          <span className="text-muted-foreground">Issued {formatDay(obligation.issuedDate)}</span>
+                        ) : (
+                          "-"
+                        )}
+                        {obligation.letterSubject && (
+                          <div className="text-xs text-muted-foreground max-w-xs truncate">{obligation.letterSubject}</div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-sm">
+                        <div className="flex justify-end gap-1">
+                          {obligation.status === "open" && (
+                            <Button size="sm" variant="outline" onClick={() => openIssueDialog(obligation)} data-testid={`button-issue-notice-${obligation.id}`}>
+                              <Send className="h-4 w-4 mr-1" />
+                              Issued
+                            </Button>
+                          )}
+                          {obligation.status === "issued" && obligation.responseRequired && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => updateMutation.mutate({ id: obligation.id, updates: { status: "responded" } })}
+                              data-testid={`button-responded-notice-${obligation.id}`}
+                            >
+                              <CheckCircle2 className="h-4 w-4 mr-1" />
+                              Responded
+                            </Button>
+                          )}
+                          {(obligation.status === "open" || obligation.status === "issued") ? (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title="Close"
+                              onClick={() => updateMutation.mutate({ id: obligation.id, updates: { status: "closed" } })}
+                              data-testid={`button-close-notice-${obligation.id}`}
+                            >
+                              <XCircle className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title="Reopen"
+                              onClick={() => updateMutation.mutate({ id: obligation.id, updates: { status: "open", letterId: null } })}
+                              data-testid={`button-reopen-notice-${obligation.id}`}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Delete"
+                            onClick={() => {
+                              if (confirm(`Stop tracking "${obligation.title}"?`)) {
+                                deleteMutation.mutate(obligation.id);
+                              }
+                            }}
+                            data-testid={`button-delete-notice-${obligation.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <CalendarOff className="h-4 w-4" />
+            Project Holidays
+          </CardTitle>
+          <CardDescription>
+            Public holidays and site shutdowns are skipped when counting business days. Changing them recalculates open deadlines.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="holiday-date">Date</Label>
+              <Input
+                id="holiday-date"
+                type="date"
+                value={holidayDate}
+                onChange={(e) => setHolidayDate(e.target.value)}
+                data-testid="input-holiday-date"
+              />
+            </div>
+            <div className="space-y-1 flex-1 max-w-sm">
+              <Label htmlFor="holiday-name">Name</Label>
+              <Input
+                id="holiday-name"
+                value={holidayName}
+                onChange={(e) => setHolidayName(e.target.value)}
+                placeholder="e.g., Christmas Day"
+                data-testid="input-holiday-name"
+              />
+            </div>
+            <Button
+              onClick={() => addHolidayMutation.mutate()}
+              disabled={!holidayDate || !holidayName.trim() || addHolidayMutation.isPending}
+              data-testid="button-add-holiday"
+            >
+              {addHolidayMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Holiday
+            </Button>
+          </div>
+
+          {holidays.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No project holidays. Only weekends are skipped.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {holidays.map((holiday) => (
+                <Badge key={holiday.id} variant="outline" className="gap-1 py-1" data-testid={`badge-holiday-${holiday.date}`}>
+                  {formatDay(holiday.date)} · {holiday.name}
+                  <button
+                    type="button"
+                    className="ml-1 text-muted-foreground hover:text-destructive"
+                    onClick={() => deleteHolidayMutation.mutate(holiday.id)}
+                    title="Remove holiday"
+                  >
+                    <XCircle className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!issuing} onOpenChange={(open) => !open && setIssuing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Notice Issued</DialogTitle>
+            <DialogDescription>
+              {issuing?.title}
+              {issuing?.responseRequired ? " - the response deadline is counted from the issue date." : ""}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="issued-date">Issued on</Label>
+              <Input
+                id="issued-date"
+                type="date"
+                value={issuedDate}
+                onChange={(e) => setIssuedDate(e.target.value)}
+                data-testid="input-issued-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Correspondence letter</Label>
+              <Select value={letterId} onValueChange={setLetterId}>
+                <SelectTrigger data-testid="select-notice-letter">
+                  <SelectValue placeholder="Select the letter the notice was sent with" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No letter</SelectItem>
+                  {letters.map((letter) => (
+                    <SelectItem key={letter.id} value={letter.id}>
+                      Letter #{letter.letterNumber}{letter.subject ? ` - ${letter.subject}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIssuing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => issuing && updateMutation.mutate({
+                id: issuing.id,
+                updates: { status: "issued", issuedDate, letterId: letterId === "none" ? null : letterId },
+              })}
+              disabled={!issuedDate || updateMutation.isPending}
+              data-testid="button-confirm-issued"
+            >
+              {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Mark Issued
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+export type ProgramCsvField =
+  | 'taskCode'
+  | 'taskName'
+  | 'startDate'
+  | 'finishDate'
+  | 'duration'
+  | 'percentComplete'
+  | 'predecessors'
+  | 'wbs'
+  | 'totalFloat'
+  | 'actualStart'
+  | 'actualFinish';
+
+export type ProgramCsvColumns = Partial<Record<ProgramCsvField, string>>;
+
+interface ProgramCsvColumnMappingProps {
+  headers: string[];
+  columns: ProgramCsvColumns;
+  onColumnsChange: (columns: ProgramCsvColumns) => void;
+  dataDate: string;
+  onDataDateChange: (dataDate: string) => void;
+}
+
+const CSV_FIELDS: Array<{ field: ProgramCsvField; label: string; required?: boolean }> = [
+  { field: 'taskCode', label: 'Activity ID', required: true },
+  { field: 'taskName', label: 'Activity Name', required: true },
+  { field: 'startDate', label: 'Start' },
+  { field: 'finishDate', label: 'Finish' },
+  { field: 'duration', label: 'Duration' },
+  { field: 'percentComplete', label: '% Complete' },
+  { field: 'predecessors', label: 'Predecessors' },
+  { field: 'wbs', label: 'WBS' },
+  { field: 'totalFloat', label: 'Total Float' },
+  { field: 'actualStart', label: 'Actual Start' },
+  { field: 'actualFinish', label: 'Actual Finish' },
+];
+
+const NOT_MAPPED = 'none';
+
+export function ProgramCsvColumnMapping({ headers, columns, onColumnsChange, dataDate, onDataDateChange }: ProgramCsvColumnMappingProps) {
+  const setColumn = (field: ProgramCsvField, header: string) => {
+    const next = { ...columns };
+    if (header === NOT_MAPPED) {
+      delete next[field];
+    } else {
+      next[field] = header;
+    }
+    onColumnsChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label>CSV Columns</Label>
+        <p className="text-xs text-muted-foreground">
+          Match the CSV columns to activity fields. Activity ID, name and a start or finish date are required.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+        {CSV_FIELDS.map(({ field, label, required }) => (
+          <div key={field} className="flex items-center gap-2">
+            <Label className="text-xs w-24 shrink-0">
+              {label}{required && ' *'}
+            </Label>
+            <Select value={columns[field] ?? NOT_MAPPED} onValueChange={(value) => setColumn(field, value)}>
+              <SelectTrigger className="h-8 text-xs" data-testid={`select-csv-column-${field}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                {headers.map((header) => (
+                  <SelectItem key={header} value={header}>{header}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+      <div>
+        <Label htmlFor="csv-data-date">Data Date</Label>
+        <Input
+          id="csv-data-date"
+          type="date"
+          value={dataDate}
+          onChange={(e) => onDataDateChange(e.target.value)}
+          data-testid="input-csv-data-date"
+        />
+        <p className="text-xs text-muted-foreground mt-1">CSV exports do not include the status date</p>
+      </div>
+    </div>
+  );
+}
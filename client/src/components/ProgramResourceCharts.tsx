@@ -0,0 +1,330 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Link2 } from 'lucide-react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { useRechartsTheme } from '@/hooks/useRechartsTheme';
+import {
+  ProgramResourceMappingDialog,
+  type ProgramResourceMapping,
+  type XERResource,
+} from './ProgramResourceMappingDialog';
+
+interface XERResourceAssignment {
+  assignmentId: string;
+  taskId: string;
+  resourceId: string | null;
+  accountId: string | null;
+  budgetedUnits: number;
+  actualUnits: number;
+  remainingUnits: number;
+  budgetedCost: number;
+  actualCost: number;
+  remainingCost: number;
+  plannedStart: string | null;
+  plannedFinish: string | null;
+  actualStart: string | null;
+  actualFinish: string | null;
+  remainingStart: string | null;
+  remainingFinish: string | null;
+}
+
+interface ProgramResourceChartsProps {
+  projectId: string;
+  program: {
+    dataDate: string | null;
+    xerData: {
+      tasks: Array<{ taskId: string; startDate: string | null; finishDate: string | null }>;
+      resources?: XERResource[];
+      resourceAssignments?: XERResourceAssignment[];
+    } | null;
+  };
+}
+
+type PeriodScale = 'weeks' | 'months';
+
+interface PeriodRow {
+  label: string;
+  plannedUnits: number;
+  forecastUnits: number;
+  plannedCost: number; // Cumulative
+  forecastCost: number; // Cumulative
+}
+
+const parseDate = (value: string | null | undefined) => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+};
+
+const periodStart = (time: number, scale: PeriodScale) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  if (scale === 'months') {
+    date.setDate(1);
+  } else {
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7)); // Monday
+  }
+  return date.getTime();
+};
+
+const nextPeriod = (time: number, scale: PeriodScale) => {
+  const date = new Date(time);
+  if (scale === 'months') {
+    date.setMonth(date.getMonth() + 1);
+  } else {
+    date.setDate(date.getDate() + 7);
+  }
+  return date.getTime();
+};
+
+const periodLabel = (time: number, scale: PeriodScale) =>
+  new Date(time).toLocaleDateString('en-US', scale === 'months' ? { month: 'short', year: '2-digit' } : { month: 'short', day: 'numeric' });
+
+/**
+ * Spread an amount evenly over [start, finish] into the period buckets
+ */
+function spread(buckets: number[], starts: number[], amount: number, start: number | null, finish: number | null) {
+  if (!amount || start === null) return;
+  const end = finish !== null && finish > start ? finish : start;
+  let index = 0;
+  while (index < starts.length - 1 && starts[index + 1] <= start) index++;
+
+  if (end === start) {
+    buckets[index] += amount;
+    return;
+  }
+  for (; index < starts.length; index++) {
+    const bucketEnd = index + 1 < starts.length ? starts[index + 1] : Infinity;
+    const overlap = Math.min(bucketEnd, end) - Math.max(starts[index], start);
+    if (overlap > 0) buckets[index] += amount * overlap / (end - start);
+    if (bucketEnd >= end) break;
+  }
+}
+
+const formatCurrency = (value: number) => `$${value.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+
+const formatUnits = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 1 });
+
+export function ProgramResourceCharts({ projectId, program }: ProgramResourceChartsProps) {
+  const chartTheme = useRechartsTheme();
+  const [selectedResourceId, setSelectedResourceId] = useState<string | null>(null);
+  const [scale, setScale] = useState<PeriodScale>('weeks');
+  const [mappingDialogOpen, setMappingDialogOpen] = useState(false);
+
+  const resources = program.xerData?.resources || [];
+  const assignments = program.xerData?.resourceAssignments || [];
+
+  const { data: mappings = [] } = useQuery<ProgramResourceMapping[]>({
+    queryKey: ['/api/projects', projectId, 'programs', 'resource-mappings'],
+    enabled: assignments.length > 0,
+  });
+
+  const assignedResources = useMemo(() => {
+    const assignedIds = new Set(assignments.map(a => a.resourceId));
+    return resources
+      .filter(resource => assignedIds.has(resource.resourceId))
+      .sort((a, b) => a.resourceCode.localeCompare(b.resourceCode));
+  }, [resources, assignments]);
+
+  const resourceId = selectedResourceId ?? assignedResources[0]?.resourceId ?? null;
+  const selectedResource = assignedResources.find(r => r.resourceId === resourceId);
+  const dataDate = parseDate(program.dataDate);
+
+  const { rows, totals, dataDateLabel, usesMappedRates } = useMemo(() => {
+    const taskMap = new Map((program.xerData?.tasks || []).map(task => [task.taskId, task]));
+    const resourceCodes = new Map(resources.map(r => [r.resourceId, r.resourceCode]));
+    const rateByCode = new Map(
+      mappings.filter(m => m.costRate != null).map(m => [m.xerResourceCode, parseFloat(m.costRate!)])
+    );
+
+    // Dates for each part of an assignment, falling back to the activity's dates
+    const dated = assignments.map(assignment => {
+      const task = taskMap.get(assignment.taskId);
+      const taskStart = parseDate(task?.startDate);
+      const taskFinish = parseDate(task?.finishDate);
+      const actualStart = parseDate(assignment.actualStart);
+      const remainingStart = parseDate(assignment.remainingStart)
+        ?? (dataDate !== null && taskStart !== null ? Math.max(dataDate, taskStart) : taskStart);
+
+      // XER costs take precedence; otherwise cost the units at the mapped resource rate
+      const hasCost = assignment.budgetedCost || assignment.actualCost || assignment.remainingCost;
+      const rate = hasCost ? null : rateByCode.get(resourceCodes.get(assignment.resourceId ?? '') ?? '') ?? null;
+      return {
+        assignment,
+        rate,
+        planned: [parseDate(assignment.plannedStart) ?? taskStart, parseDate(assignment.plannedFinish) ?? taskFinish] as const,
+        actual: [actualStart, parseDate(assignment.actualFinish) ?? (actualStart !== null ? dataDate ?? actualStart : null)] as const,
+        remaining: [remainingStart, parseDate(assignment.remainingFinish) ?? taskFinish] as const,
+        cost: {
+          budgeted: rate !== null ? assignment.budgetedUnits * rate : assignment.budgetedCost,
+          actual: rate !== null ? assignment.actualUnits * rate : assignment.actualCost,
+          remaining: rate !== null ? assignment.remainingUnits * rate : assignment.remainingCost,
+        },
+      };
+    });
+
+    const times = dated.flatMap(d => [...d.planned, ...d.actual, ...d.remaining]).filter((t): t is number => t !== null);
+    if (times.length === 0) {
+      return { rows: [] as PeriodRow[], totals: null, dataDateLabel: null, usesMappedRates: false };
+    }
+
+    const starts: number[] = [];
+    const last = Math.max(...times);
+    for (let time = periodStart(Math.min(...times), scale); time <= last; time = nextPeriod(time, scale)) {
+      starts.push(time);
+    }
+
+    const plannedUnits = starts.map(() => 0);
+    const forecastUnits = starts.map(() => 0);
+    const plannedCost = starts.map(() => 0);
+    const forecastCost = starts.map(() => 0);
+    for (const d of dated) {
+      spread(plannedCost, starts, d.cost.budgeted, ...d.planned);
+      spread(forecastCost, starts, d.cost.actual, ...d.actual);
+      spread(forecastCost, starts, d.cost.remaining, ...d.remaining);
+      if (d.assignment.resourceId === resourceId) {
+        spread(plannedUnits, starts, d.assignment.budgetedUnits, ...d.planned);
+        spread(forecastUnits, starts, d.assignment.actualUnits, ...d.actual);
+        spread(forecastUnits, starts, d.assignment.remainingUnits, ...d.remaining);
+      }
+    }
+
+    let cumulativePlanned = 0;
+    let cumulativeForecast = 0;
+    const periodRows: PeriodRow[] = starts.map((start, index) => {
+      cumulativePlanned += plannedCost[index];
+      cumulativeForecast += forecastCost[index];
+      return {
+        label: periodLabel(start, scale),
+        plannedUnits: Math.round(plannedUnits[index] * 10) / 10,
+        forecastUnits: Math.round(forecastUnits[index] * 10) / 10,
+        plannedCost: Math.round(cumulativePlanned),
+        forecastCost: Math.round(cumulativeForecast),
+      };
+    });
+
+    const dataDateIndex = dataDate !== null ? starts.findIndex((start, i) => dataDate >= start && (i === starts.length - 1 || dataDate < starts[i + 1])) : -1;
+
+    return {
+      rows: periodRows,
+      totals: {
+        budgeted: dated.reduce((sum, d) => sum + d.cost.budgeted, 0),
+        actual: dated.reduce((sum, d) => sum + d.cost.actual, 0),
+        atCompletion: dated.reduce((sum, d) => sum + d.cost.actual + d.cost.remaining, 0),
+      },
+      dataDateLabel: dataDateIndex >= 0 ? periodRows[dataDateIndex].label : null,
+      usesMappedRates: dated.some(d => d.rate !== null),
+    };
+  }, [program.xerData, resources, assignments, mappings, resourceId, scale, dataDate]);
+
+  if (assignments.length === 0) {
+    return null;
+  }
+
+  const tickStyle = { fill: 'hsl(var(--foreground))', fontSize: 10 };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <CardTitle className="text-base">Resources &amp; Costs</CardTitle>
+          <div className="flex items-center gap-2 flex-wrap">
+            <Label className="text-sm">Resource:</Label>
+            <Select value={resourceId ?? ''} onValueChange={setSelectedResourceId}>
+              <SelectTrigger className="w-[240px] h-9" data-testid="select-histogram-resource">
+                <SelectValue placeholder="Select resource" />
+              </SelectTrigger>
+              <SelectContent>
+                {assignedResources.map(resource => (
+                  <SelectItem key={resource.resourceId} value={resource.resourceId}>
+                    {resource.resourceCode} - {resource.resourceName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ToggleGroup type="single" value={scale} onValueChange={(v) => v && setScale(v as PeriodScale)} data-testid="toggle-resource-scale">
+              <ToggleGroupItem value="weeks" aria-label="Weekly" className="text-xs">Weeks</ToggleGroupItem>
+              <ToggleGroupItem value="months" aria-label="Monthly" className="text-xs">Months</ToggleGroupItem>
+            </ToggleGroup>
+            <Button variant="outline" size="sm" onClick={() => setMappingDialogOpen(true)} data-testid="button-map-resources">
+              <Link2 className="h-4 w-4 mr-2" />
+              Map Resources
+            </Button>
+          </div>
+        </div>
+        {totals && (
+          <p className="text-sm text-muted-foreground">
+            Budget {formatCurrency(totals.budgeted)} | Actual to date {formatCurrency(totals.actual)} | At completion {formatCurrency(totals.atCompletion)}
+            {usesMappedRates && ' | includes units costed at mapped resource rates'}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <h3 className="font-semibold mb-2 text-sm">
+            Resource Histogram{selectedResource ? ` - ${selectedResource.resourceCode}` : ''}
+          </h3>
+          <div className="w-full h-[280px]" data-testid="chart-resource-histogram">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={rows}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={tickStyle} />
+                <YAxis tick={tickStyle} tickFormatter={formatUnits} />
+                <Tooltip formatter={(value: any, name: string) => [formatUnits(value), name]} />
+                <Legend wrapperStyle={chartTheme.labelStyle} />
+                {dataDateLabel && (
+                  <ReferenceLine x={dataDateLabel} stroke="#666" strokeDasharray="3 3" label={{ value: 'Data date', position: 'top', ...chartTheme.labelStyle }} />
+                )}
+                <Bar dataKey="plannedUnits" name="Budgeted units" fill="#94a3b8" />
+                <Bar dataKey="forecastUnits" name="Actual + remaining units" fill="#2563eb" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+        <div>
+          <h3 className="font-semibold mb-2 text-sm">Cumulative Cost S-Curve</h3>
+          <div className="w-full h-[280px]" data-testid="chart-cost-s-curve">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={rows}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={tickStyle} />
+                <YAxis tick={tickStyle} tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
+                <Tooltip formatter={(value: any, name: string) => [formatCurrency(value), name]} />
+                <Legend wrapperStyle={chartTheme.labelStyle} />
+                {dataDateLabel && (
+                  <ReferenceLine x={dataDateLabel} stroke="#666" strokeDasharray="3 3" label={{ value: 'Data date', position: 'top', ...chartTheme.labelStyle }} />
+                )}
+                <Line type="monotone" dataKey="plannedCost" name="Budget" stroke="#94a3b8" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="forecastCost" name="Actual + remaining" stroke="#2563eb" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </CardContent>
+
+      <ProgramResourceMappingDialog
+        projectId={projectId}
+        resources={assignedResources}
+        open={mappingDialogOpen}
+        onOpenChange={setMappingDialogOpen}
+      />
+    </Card>
+  );
+}
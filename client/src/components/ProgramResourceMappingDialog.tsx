@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+export interface XERResource {
+  resourceId: string;
+  resourceCode: string;
+  resourceName: string;
+  resourceType: string | null;
+  parentResourceId: string | null;
+}
+
+export interface ProgramResourceMapping {
+  id: string;
+  xerResourceCode: string;
+  resourceRateId: string;
+  resourceRateCode: string;
+  costRate: string | null;
+  unit: string | null;
+}
+
+interface ResourceRate {
+  id: string;
+  code: string;
+  description: string | null;
+  unit: string | null;
+  costRate: string | null;
+}
+
+interface ProgramResourceMappingDialogProps {
+  projectId: string;
+  resources: XERResource[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const UNMAPPED = "none";
+
+const RESOURCE_TYPE_LABELS: Record<string, string> = {
+  RT_Labor: "Labour",
+  RT_Equip: "Equipment",
+  RT_Mat: "Material",
+};
+
+export function ProgramResourceMappingDialog({ projectId, resources, open, onOpenChange }: ProgramResourceMappingDialogProps) {
+  const { toast } = useToast();
+  const [selections, setSelections] = useState<Record<string, string>>({});
+
+  const { data: resourceRates = [] } = useQuery<ResourceRate[]>({
+    queryKey: ["/api/projects", projectId, "resource-rates"],
+    enabled: open,
+  });
+
+  const { data: mappings } = useQuery<ProgramResourceMapping[]>({
+    queryKey: ["/api/projects", projectId, "programs", "resource-mappings"],
+    enabled: open,
+  });
+
+  // Start from the saved mappings each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSelections(Object.fromEntries((mappings ?? []).map((m) => [m.xerResourceCode, m.resourceRateId])));
+    }
+  }, [open, mappings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/projects/${projectId}/programs/resource-mappings`, {
+        mappings: resources.map((resource) => ({
+          xerResourceCode: resource.resourceCode,
+          resourceRateId: selections[resource.resourceCode] ?? null,
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "programs", "resource-mappings"] });
+      toast({ title: "Success", description: "Resource mappings saved" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const sortedRates = [...resourceRates].sort((a, b) => a.code.localeCompare(b.code));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto" data-testid="dialog-program-resource-mapping">
+        <DialogHeader>
+          <DialogTitle>Map Program Resources</DialogTitle>
+          <DialogDescription>
+            Map P6 resources to project resource rate codes. Mapped resources without costs in the XER are costed at the resource rate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow className="text-xs">
+              <TableHead className="py-2">Resource ID</TableHead>
+              <TableHead className="py-2">Name</TableHead>
+              <TableHead className="py-2">Type</TableHead>
+              <TableHead className="py-2 w-[260px]">Resource Rate</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody className="text-sm">
+            {resources.map((resource) => (
+              <TableRow key={resource.resourceId} data-testid={`row-resource-mapping-${resource.resourceCode}`}>
+                <TableCell className="py-1.5 font-mono">{resource.resourceCode}</TableCell>
+                <TableCell className="py-1.5">{resource.resourceName}</TableCell>
+                <TableCell className="py-1.5 text-muted-foreground">
+                  {RESOURCE_TYPE_LABELS[resource.resourceType ?? ""] ?? resource.resourceType ?? "-"}
+                </TableCell>
+                <TableCell className="py-1.5">
+                  <Select
+                    value={selections[resource.resourceCode] ?? UNMAPPED}
+                    onValueChange={(value) =>
+                      setSelections((prev) => {
+                        const next = { ...prev };
+                        if (value === UNMAPPED) {
+                          delete next[resource.resourceCode];
+                        } else {
+                          next[resource.resourceCode] = value;
+                        }
+                        return next;
+                      })
+                    }
+                  >
+                    <SelectTrigger className="h-8" data-testid={`select-resource-rate-${resource.resourceCode}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {sortedRates.map((rate) => (
+                        <SelectItem key={rate.id} value={rate.id}>
+                          {rate.code}
+                          {rate.description ? ` - ${rate.description}` : ""}
+                          {rate.costRate ? ` ($${parseFloat(rate.costRate).toFixed(2)}${rate.unit ? `/${rate.unit}` : ""})` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-resource-mappings"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Mappings"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
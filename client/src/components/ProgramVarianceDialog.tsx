@@ -0,0 +1,402 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { Download } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface ProgramOption {
+  id: string;
+  name: string;
+  dataDate: string | null;
+  isContractBaseline: boolean;
+}
+
+interface ProgramVarianceDialogProps {
+  projectId: string;
+  programs: ProgramOption[];
+  defaultBaselineId: string | null;
+  defaultUpdateId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type VarianceStatus = "added" | "deleted" | "changed" | "unchanged";
+
+interface ActivitySnapshot {
+  taskName: string;
+  startDate: string | null;
+  finishDate: string | null;
+  duration: number | null;
+  totalFloat: number | null;
+  percentComplete: number | null;
+  isCritical: boolean;
+  predecessors: string[];
+}
+
+interface ActivityVariance {
+  taskCode: string;
+  taskName: string;
+  status: VarianceStatus;
+  baseline: ActivitySnapshot | null;
+  update: ActivitySnapshot | null;
+  startVariance: number | null;
+  finishVariance: number | null;
+  durationChange: number | null;
+  logicChanged: boolean;
+  predecessorsAdded: string[];
+  predecessorsRemoved: string[];
+  criticalChange: "joined" | "left" | null;
+}
+
+interface ProgramComparison {
+  baselineProgram: ProgramOption;
+  updateProgram: ProgramOption;
+  activities: ActivityVariance[];
+  totals: {
+    baselineActivities: number;
+    updateActivities: number;
+    added: number;
+    deleted: number;
+    changed: number;
+    startSlipped: number;
+    finishSlipped: number;
+    finishImproved: number;
+    durationChanged: number;
+    logicChanged: number;
+    joinedCritical: number;
+    leftCritical: number;
+    baselineFinish: string | null;
+    updateFinish: string | null;
+    finishVariance: number | null;
+  };
+}
+
+const formatDate = (value: string | null | undefined) => {
+  if (!value) return "-";
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? "-" : date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "2-digit" });
+};
+
+// XER durations are stored in hours; report in 8-hour days as the Gantt chart does
+const hoursToDays = (hours: number | null | undefined) => (hours == null ? null : Math.round(hours / 8));
+
+const formatDays = (days: number | null | undefined) => (days == null ? "-" : `${days}d`);
+
+const formatSignedDays = (days: number | null) => {
+  if (days == null || days === 0) return "-";
+  return days > 0 ? `+${days}d` : `${days}d`;
+};
+
+const varianceClass = (days: number | null) => {
+  if (days == null || days === 0) return "";
+  return days > 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400";
+};
+
+const rowClass: Record<VarianceStatus, string> = {
+  added: "bg-green-50 dark:bg-green-950/30",
+  deleted: "bg-red-50 dark:bg-red-950/30 text-muted-foreground line-through",
+  changed: "",
+  unchanged: "",
+};
+
+// Excel fills matching the on-screen highlights
+const excelFill: Record<VarianceStatus, string | null> = {
+  added: "FFE8F5E9",
+  deleted: "FFFDECEA",
+  changed: null,
+  unchanged: null,
+};
+
+const programLabel = (program: ProgramOption) =>
+  `${program.name}${program.dataDate ? ` (${program.dataDate})` : ""}${program.isContractBaseline ? " - Contract Baseline" : ""}`;
+
+export function ProgramVarianceDialog({
+  projectId,
+  programs,
+  defaultBaselineId,
+  defaultUpdateId,
+  open,
+  onOpenChange,
+}: ProgramVarianceDialogProps) {
+  const { toast } = useToast();
+  const [baselineId, setBaselineId] = useState<string>("");
+  const [updateId, setUpdateId] = useState<string>("");
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  // Start from the programs selected on the tab each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setBaselineId(defaultBaselineId ?? "");
+      setUpdateId(defaultUpdateId ?? "");
+    }
+  }, [open, defaultBaselineId, defaultUpdateId]);
+
+  const canCompare = !!baselineId && !!updateId && baselineId !== updateId;
+  const { data: comparison, isLoading } = useQuery<ProgramComparison>({
+    queryKey: ["/api/projects", projectId, "programs", `compare?baseline=${baselineId}&update=${updateId}`],
+    enabled: open && canCompare,
+  });
+
+  const visibleActivities = (comparison?.activities ?? []).filter(
+    (activity) => showUnchanged || activity.status !== "unchanged"
+  );
+
+  const handleExportToExcel = async () => {
+    if (!comparison) return;
+
+    const ExcelJS = await import("exceljs");
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet("Variance Report");
+
+    const headerRow = worksheet.addRow([
+      "Activity ID", "Activity Name", "Status",
+      "Baseline Start", "Baseline Finish", "Baseline Duration (d)",
+      "Start", "Finish", "Duration (d)",
+      "Start Variance (d)", "Finish Variance (d)", "Duration Change (d)",
+      "Critical Path", "Predecessors Added", "Predecessors Removed",
+    ]);
+    headerRow.font = { bold: true };
+    headerRow.fill = {
+      type: "pattern",
+      pattern: "solid",
+      fgColor: { argb: "FFE0E0E0" },
+    };
+
+    for (const activity of comparison.activities) {
+      const excelRow = worksheet.addRow([
+        activity.taskCode,
+        activity.taskName,
+        activity.status,
+        formatDate(activity.baseline?.startDate),
+        formatDate(activity.baseline?.finishDate),
+        hoursToDays(activity.baseline?.duration),
+        formatDate(activity.update?.startDate),
+        formatDate(activity.update?.finishDate),
+        hoursToDays(activity.update?.duration),
+        activity.startVariance,
+        activity.finishVariance,
+        hoursToDays(activity.durationChange),
+        activity.criticalChange === "joined" ? "Joined" : activity.criticalChange === "left" ? "Left" : activity.update?.isCritical ? "Critical" : "",
+        activity.predecessorsAdded.join(", "),
+        activity.predecessorsRemoved.join(", "),
+      ]);
+      const fill = excelFill[activity.status];
+      if (fill) {
+        excelRow.fill = { type: "pattern", pattern: "solid", fgColor: { argb: fill } };
+      }
+    }
+
+    worksheet.columns.forEach((column, index) => {
+      column.width = index === 1 ? 45 : index >= 13 ? 30 : 14;
+    });
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    const blob = new Blob([buffer], {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${comparison.updateProgram.name}_vs_${comparison.baselineProgram.name}_Variance.xlsx`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Export Successful",
+      description: "Variance report exported to Excel.",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto" data-testid="dialog-program-variance">
+        <DialogHeader>
+          <DialogTitle>Program Variance Report</DialogTitle>
+          <DialogDescription>
+            Activities matched by activity ID: start/finish slippage, added and deleted activities, duration and logic changes, and critical path changes
+          </DialogDescription>
+        </DialogHeader>
+
+        {programs.length < 2 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            At least two programs are needed to compare.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Baseline</Label>
+                <Select value={baselineId} onValueChange={setBaselineId}>
+                  <SelectTrigger className="h-9" data-testid="select-variance-baseline">
+                    <SelectValue placeholder="Select program..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {programs.map((program) => (
+                      <SelectItem key={program.id} value={program.id}>{programLabel(program)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Update</Label>
+                <Select value={updateId} onValueChange={setUpdateId}>
+                  <SelectTrigger className="h-9" data-testid="select-variance-update">
+                    <SelectValue placeholder="Select program..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {programs.map((program) => (
+                      <SelectItem key={program.id} value={program.id}>{programLabel(program)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {!canCompare ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Select two different programs.</p>
+            ) : isLoading || !comparison ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Loading comparison...</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                  <div className="border rounded-md p-3">
+                    <p className="text-xs text-muted-foreground">Project Finish</p>
+                    <p className="font-medium" data-testid="text-variance-finish">
+                      {formatDate(comparison.totals.baselineFinish)} → {formatDate(comparison.totals.updateFinish)}
+                    </p>
+                    <p className={varianceClass(comparison.totals.finishVariance)}>
+                      {formatSignedDays(comparison.totals.finishVariance)}
+                    </p>
+                  </div>
+                  <div className="border rounded-md p-3">
+                    <p className="text-xs text-muted-foreground">Finish Slippage</p>
+                    <p className="font-medium">{comparison.totals.finishSlipped} late</p>
+                    <p className="text-muted-foreground">{comparison.totals.finishImproved} early</p>
+                  </div>
+                  <div className="border rounded-md p-3">
+                    <p className="text-xs text-muted-foreground">Changes</p>
+                    <p className="font-medium">{comparison.totals.durationChanged} durations</p>
+                    <p className="text-muted-foreground">{comparison.totals.logicChanged} logic</p>
+                  </div>
+                  <div className="border rounded-md p-3">
+                    <p className="text-xs text-muted-foreground">Critical Path</p>
+                    <p className="font-medium">{comparison.totals.joinedCritical} joined</p>
+                    <p className="text-muted-foreground">{comparison.totals.leftCritical} left</p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Badge variant="outline" className="border-green-600 text-green-700 dark:text-green-400" data-testid="badge-variance-added">
+                    {comparison.totals.added} added
+                  </Badge>
+                  <Badge variant="outline" className="border-red-600 text-red-700 dark:text-red-400" data-testid="badge-variance-deleted">
+                    {comparison.totals.deleted} deleted
+                  </Badge>
+                  <Badge variant="outline" className="border-amber-600 text-amber-700 dark:text-amber-400" data-testid="badge-variance-changed">
+                    {comparison.totals.changed} changed
+                  </Badge>
+                  <span className="text-sm text-muted-foreground ml-2">
+                    {comparison.totals.baselineActivities} → {comparison.totals.updateActivities} activities
+                  </span>
+                  <div className="flex-1" />
+                  <label className="flex items-center gap-2 text-xs cursor-pointer">
+                    <Checkbox
+                      checked={showUnchanged}
+                      onCheckedChange={(checked) => setShowUnchanged(checked === true)}
+                      data-testid="checkbox-variance-show-unchanged"
+                    />
+                    Show unchanged activities
+                  </label>
+                  <Button variant="outline" size="sm" onClick={handleExportToExcel} data-testid="button-export-variance">
+                    <Download className="h-4 w-4 mr-2" />
+                    Export to Excel
+                  </Button>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow className="text-xs">
+                      <TableHead className="py-2">Activity ID</TableHead>
+                      <TableHead className="py-2">Activity Name</TableHead>
+                      <TableHead className="py-2">BL Start</TableHead>
+                      <TableHead className="py-2">Start</TableHead>
+                      <TableHead className="text-right py-2">Var.</TableHead>
+                      <TableHead className="py-2">BL Finish</TableHead>
+                      <TableHead className="py-2">Finish</TableHead>
+                      <TableHead className="text-right py-2">Var.</TableHead>
+                      <TableHead className="text-right py-2">Duration</TableHead>
+                      <TableHead className="py-2">Logic</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody className="text-xs">
+                    {visibleActivities.map((activity) => (
+                      <TableRow
+                        key={`${activity.status}-${activity.taskCode}`}
+                        className={rowClass[activity.status]}
+                        data-testid={`row-variance-${activity.taskCode}`}
+                      >
+                        <TableCell className="py-1.5 font-mono">{activity.taskCode}</TableCell>
+                        <TableCell className="py-1.5">
+                          {activity.taskName}
+                          {activity.status === "added" && <Badge variant="outline" className="ml-2 text-[10px] px-1 py-0">New</Badge>}
+                          {activity.criticalChange === "joined" && (
+                            <Badge variant="destructive" className="ml-2 text-[10px] px-1 py-0">Now critical</Badge>
+                          )}
+                          {activity.criticalChange === "left" && (
+                            <Badge variant="secondary" className="ml-2 text-[10px] px-1 py-0">Off critical path</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="py-1.5 whitespace-nowrap">{formatDate(activity.baseline?.startDate)}</TableCell>
+                        <TableCell className="py-1.5 whitespace-nowrap">{formatDate(activity.update?.startDate)}</TableCell>
+                        <TableCell className={`text-right tabular-nums py-1.5 ${varianceClass(activity.startVariance)}`}>
+                          {formatSignedDays(activity.startVariance)}
+                        </TableCell>
+                        <TableCell className="py-1.5 whitespace-nowrap">{formatDate(activity.baseline?.finishDate)}</TableCell>
+                        <TableCell className="py-1.5 whitespace-nowrap">{formatDate(activity.update?.finishDate)}</TableCell>
+                        <TableCell className={`text-right tabular-nums py-1.5 ${varianceClass(activity.finishVariance)}`}>
+                          {formatSignedDays(activity.finishVariance)}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums py-1.5 whitespace-nowrap">
+                          {activity.durationChange
+                            ? `${formatDays(hoursToDays(activity.baseline?.duration))} → ${formatDays(hoursToDays(activity.update?.duration))}`
+                            : formatDays(hoursToDays((activity.update ?? activity.baseline)?.duration))}
+                        </TableCell>
+                        <TableCell className="py-1.5">
+                          {activity.predecessorsAdded.map((pred) => (
+                            <div key={`added-${pred}`} className="text-green-700 dark:text-green-400">+ {pred}</div>
+                          ))}
+                          {activity.predecessorsRemoved.map((pred) => (
+                            <div key={`removed-${pred}`} className="text-red-700 dark:text-red-400">- {pred}</div>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
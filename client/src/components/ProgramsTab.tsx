@@ -7,12 +7,16 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Upload, Download, Settings2, FileSpreadsheet, AlertCircle, AlertTriangle, Info, CheckCircle } from 'lucide-react';
+import { Upload, Download, Settings2, FileSpreadsheet, AlertCircle, AlertTriangle, Info, CheckCircle, GitCompare, ClipboardCheck } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { GanttChart } from './GanttChart';
 import { ProgramManagementDialog } from './ProgramManagementDialog';
+import { ProgramVarianceDialog } from './ProgramVarianceDialog';
+import { DcmaAssessmentDialog, type DcmaCheck } from './DcmaAssessmentDialog';
+import { ProgramResourceCharts } from './ProgramResourceCharts';
+import { ProgramCsvColumnMapping, type ProgramCsvColumns } from './ProgramCsvColumnMapping';
 
 interface InsightDetail {
   type: string;
@@ -31,6 +35,7 @@ interface ScheduleInsights {
     missingLogic: InsightDetail[];
     criticalPathAnalysis: InsightDetail[];
   };
+  dcma?: DcmaCheck[];
 }
 
 interface Program {
@@ -57,10 +62,16 @@ export function ProgramsTab({ projectId }: ProgramsTabProps) {
   const { toast } = useToast();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [selectedProgramId, setSelectedProgramId] = useState<string | null>(null);
+  const [baselineProgramId, setBaselineProgramId] = useState<string>('none');
+  const [varianceDialogOpen, setVarianceDialogOpen] = useState(false);
+  const [dcmaDialogOpen, setDcmaDialogOpen] = useState(false);
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
   const [uploadName, setUploadName] = useState('');
   const [uploadIsContractBaseline, setUploadIsContractBaseline] = useState(false);
   const [uploadComments, setUploadComments] = useState('');
+  const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
+  const [csvColumns, setCsvColumns] = useState<ProgramCsvColumns>({});
+  const [csvDataDate, setCsvDataDate] = useState('');
 
   // Fetch programs for this project
   const { data: programs = [], isLoading: programsLoading } = useQuery<Program[]>({
@@ -82,6 +93,15 @@ export function ProgramsTab({ projectId }: ProgramsTabProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [programs]);
 
+  // Default the comparison baseline to the contract baseline
+  useEffect(() => {
+    const contractBaseline = programs.find(p => p.isContractBaseline);
+    if (contractBaseline && baselineProgramId === 'none') {
+      setBaselineProgramId(contractBaseline.id);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [programs]);
+
   // Upload program mutation
   const uploadProgramMutation = useMutation<Program, Error, FormData>({
     mutationFn: async (formData: FormData) => {
@@ -96,6 +116,9 @@ export function ProgramsTab({ projectId }: ProgramsTabProps) {
       setUploadName('');
       setUploadIsContractBaseline(false);
       setUploadComments('');
+      setCsvHeaders([]);
+      setCsvColumns({});
+      setCsvDataDate('');
       // Auto-select the newly uploaded program
       setSelectedProgramId(newProgram.id);
     },
@@ -104,11 +127,35 @@ export function ProgramsTab({ projectId }: ProgramsTabProps) {
     }
   });
 
+  // Read the CSV headers so the columns can be mapped before upload
+  const csvColumnsMutation = useMutation<{ headers: string[]; columns: ProgramCsvColumns }, Error, File>({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await apiRequest('POST', `/api/projects/${projectId}/programs/csv-columns`, formData);
+      return response.json();
+    },
+    onSuccess: ({ headers, columns }) => {
+      setCsvHeaders(headers);
+      setCsvColumns(columns);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const isCsvFile = !!selectedFile && selectedFile.name.toLowerCase().endsWith('.csv');
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
       setSelectedFile(file);
-      setUploadName(file.name.replace('.xer', ''));
+      setUploadName(file.name.replace(/\.(xer|xml|csv)$/i, ''));
+      setCsvHeaders([]);
+      setCsvColumns({});
+      if (file.name.toLowerCase().endsWith('.csv')) {
+        csvColumnsMutation.mutate(file);
+      }
     }
   };
 
@@ -124,11 +171,22 @@ export function ProgramsTab({ projectId }: ProgramsTabProps) {
     formData.append('isContractBaseline', uploadIsContractBaseline.toString());
     formData.append('isBaselineApproved', 'false');
     formData.append('comments', uploadComments);
+    if (isCsvFile) {
+      formData.append('csvColumns', JSON.stringify(csvColumns));
+      formData.append('dataDate', csvDataDate);
+    }
 
     uploadProgramMutation.mutate(formData);
   };
 
   const selectedProgram = programs.find(p => p.id === selectedProgramId);
+  // A program is not compared against itself
+  const baselineProgram = baselineProgramId !== selectedProgramId
+    ? programs.find(p => p.id === baselineProgramId) ?? null
+    : null;
+  const dcmaChecks = selectedProgram?.insights?.dcma ?? [];
+  const dcmaAssessed = dcmaChecks.filter(check => check.passed !== null);
+  const dcmaPassed = dcmaAssessed.filter(check => check.passed).length;
 
   return (
     <div className="space-y-4">
@@ -154,30 +212,76 @@ export function ProgramsTab({ projectId }: ProgramsTabProps) {
               ))}
             </SelectContent>
           </Select>
+
+          <Label className="text-sm font-medium">Baseline:</Label>
+          <Select value={baselineProgramId} onValueChange={setBaselineProgramId}>
+            <SelectTrigger className="w-[220px]" data-testid="select-baseline-program">
+              <SelectValue placeholder="No baseline" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No baseline</SelectItem>
+              {programs
+                .filter(program => program.id !== selectedProgramId)
+                .map((program) => (
+                  <SelectItem key={program.id} value={program.id}>
+                    {program.name}
+                    {program.isContractBaseline && (
+                      <Badge variant="default" className="ml-2">Contract Baseline</Badge>
+                    )}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
         </div>
 
         <div className="flex items-center gap-2">
+          {dcmaChecks.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={() => setDcmaDialogOpen(true)}
+              data-testid="button-dcma-assessment"
+            >
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              DCMA 14-Point
+              <Badge
+                className="ml-2"
+                variant={dcmaPassed === dcmaAssessed.length ? 'default' : 'destructive'}
+              >
+                {dcmaPassed}/{dcmaAssessed.length}
+              </Badge>
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => setVarianceDialogOpen(true)}
+            disabled={programs.length < 2}
+            data-testid="button-variance-report"
+          >
+            <GitCompare className="h-4 w-4 mr-2" />
+            Variance Report
+          </Button>
+
           <Dialog open={uploadDialogOpen} onOpenChange={setUploadDialogOpen}>
             <DialogTrigger asChild>
               <Button variant="outline" data-testid="button-upload-program">
                 <Upload className="h-4 w-4 mr-2" />
-                Upload XER
+                Upload Program
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
-                <DialogTitle>Upload Program (XER File)</DialogTitle>
+                <DialogTitle>Upload Program</DialogTitle>
                 <DialogDescription>
-                  Upload a Primavera P6 XER file to view the schedule in Gantt chart format
+                  Upload a Primavera P6 XER, Microsoft Project XML or CSV file to view the schedule in Gantt chart format
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4">
                 <div>
-                  <Label htmlFor="file-upload">XER File</Label>
+                  <Label htmlFor="file-upload">Program File</Label>
                   <Input
                     id="file-upload"
                     type="file"
-                    accept=".xer"
+                    accept=".xer,.xml,.csv"
                     onChange={handleFileSelect}
                     data-testid="input-program-file"
                   />
@@ -188,6 +292,16 @@ export function ProgramsTab({ projectId }: ProgramsTabProps) {
                   )}
                 </div>
 
+                {isCsvFile && csvHeaders.length > 0 && (
+                  <ProgramCsvColumnMapping
+                    headers={csvHeaders}
+                    columns={csvColumns}
+                    onColumnsChange={setCsvColumns}
+                    dataDate={csvDataDate}
+                    onDataDateChange={setCsvDataDate}
+                  />
+                )}
+
                 <div>
                   <Label htmlFor="program-name">Program Name</Label>
                   <Input
@@ -223,7 +337,7 @@ export function ProgramsTab({ projectId }: ProgramsTabProps) {
 
                 <Button
                   onClick={handleUpload}
-                  disabled={!selectedFile || uploadProgramMutation.isPending}
+                  disabled={!selectedFile || uploadProgramMutation.isPending || csvColumnsMutation.isPending}
                   data-testid="button-upload-submit"
                 >
                   {uploadProgramMutation.isPending ? 'Uploading...' : 'Upload Program'}
@@ -238,19 +352,40 @@ export function ProgramsTab({ projectId }: ProgramsTabProps) {
 
       {/* Gantt Chart */}
       {selectedProgram ? (
-        <GanttChart program={selectedProgram} />
+        <>
+          <GanttChart program={selectedProgram} baselineProgram={baselineProgram} />
+          <ProgramResourceCharts projectId={projectId} program={selectedProgram} />
+        </>
       ) : (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
             <FileSpreadsheet className="h-12 w-12 text-muted-foreground mb-4" />
             <p className="text-muted-foreground">
               {programs.length === 0
-                ? 'No programs uploaded. Upload an XER file to get started.'
+                ? 'No programs uploaded. Upload an XER, MS Project XML or CSV file to get started.'
                 : 'Select a program to view the Gantt chart'}
             </p>
           </CardContent>
         </Card>
       )}
+
+      {selectedProgram && (
+        <DcmaAssessmentDialog
+          programName={selectedProgram.name}
+          checks={dcmaChecks}
+          open={dcmaDialogOpen}
+          onOpenChange={setDcmaDialogOpen}
+        />
+      )}
+
+      <ProgramVarianceDialog
+        projectId={projectId}
+        programs={programs}
+        defaultBaselineId={baselineProgram?.id ?? null}
+        defaultUpdateId={selectedProgramId}
+        open={varianceDialogOpen}
+        onOpenChange={setVarianceDialogOpen}
+      />
     </div>
   );
 }
@@ -0,0 +1,585 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { CheckCircle2, Download, Lock, Plus, Send, Trash2 } from "lucide-react";
+
+interface ProgressClaimsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+}
+
+type ClaimStatus = "draft" | "submitted" | "approved";
+
+type ClaimValueSummary = {
+  cumulativeGross: number;
+  previousGross: number;
+  thisPeriodGross: number;
+  cumulativeRetention: number;
+  previousRetention: number;
+  thisPeriodRetention: number;
+  cumulativeNet: number;
+  previousNet: number;
+  thisPeriodNet: number;
+};
+
+type ClaimPeriod = {
+  id: string;
+  projectId: string;
+  revisionId: string;
+  periodNumber: number;
+  name: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  status: ClaimStatus;
+  retentionPercent: string;
+  retentionCap: string | null;
+  notes: string | null;
+  submittedAt: string | null;
+  approvedAt: string | null;
+};
+
+type ClaimPeriodSummary = ClaimPeriod & {
+  contractSum: number;
+  percentComplete: number | null;
+  claimed: ClaimValueSummary;
+  approved: ClaimValueSummary;
+};
+
+type ClaimLine = {
+  boqItemId: string;
+  itemNumber: string;
+  description: string;
+  unit: string | null;
+  level: number | null;
+  quantity: number | null;
+  rate: number | null;
+  amount: number | null;
+  qtyComplete: number | null;
+  percentComplete: number | null;
+  cumulativeClaimed: number;
+  previousClaimed: number;
+  thisPeriodClaimed: number;
+  cumulativeApproved: number | null;
+  previousApproved: number;
+  thisPeriodApproved: number | null;
+  comments: string | null;
+};
+
+type ClaimValuation = {
+  period: ClaimPeriod;
+  previousPeriod: { id: string; periodNumber: number; name: string; status: ClaimStatus } | null;
+  lines: ClaimLine[];
+  contractSum: number;
+  percentComplete: number | null;
+  claimed: ClaimValueSummary;
+  approved: ClaimValueSummary;
+};
+
+type LineUpdate = {
+  qtyComplete?: string | null;
+  percentComplete?: string | null;
+  approvedAmount?: string | null;
+  comments?: string | null;
+};
+
+const formatCurrency = (value: number | null | undefined) => {
+  if (value == null) return "-";
+  return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const statusBadgeClass: Record<ClaimStatus, string> = {
+  draft: "border-blue-600 text-blue-700 dark:text-blue-400",
+  submitted: "border-amber-600 text-amber-700 dark:text-amber-400",
+  approved: "border-green-600 text-green-700 dark:text-green-400",
+};
+
+const summaryRows: Array<{ label: string; value: (summary: ClaimValueSummary) => number; bold?: boolean }> = [
+  { label: "Gross value to date", value: (s) => s.cumulativeGross },
+  { label: "Less retention", value: (s) => -s.cumulativeRetention },
+  { label: "Net value to date", value: (s) => s.cumulativeNet },
+  { label: "Less previous net value", value: (s) => -s.previousNet },
+  { label: "Amount due this period", value: (s) => s.thisPeriodNet, bold: true },
+];
+
+/**
+ * Monthly progress claims (valuations) against the BOQ: cumulative progress per item,
+ * this-period values, retention, claimed vs approved, and payment claim exports
+ */
+export function ProgressClaimsDialog({ open, onOpenChange, projectId }: ProgressClaimsDialogProps) {
+  const { toast } = useToast();
+  const [selectedPeriodId, setSelectedPeriodId] = useState<string | null>(null);
+  const [confirmAction, setConfirmAction] = useState<"submit" | "approve" | "delete" | null>(null);
+
+  const claimsQueryKey = ["/api/projects", projectId, "boq", "claims"];
+  const valuationQueryKey = ["/api/projects", projectId, "boq", "claims", selectedPeriodId];
+
+  const { data: periods = [] } = useQuery<ClaimPeriodSummary[]>({
+    queryKey: claimsQueryKey,
+    enabled: open && !!projectId,
+  });
+
+  const { data: valuation, isLoading: isLoadingValuation } = useQuery<ClaimValuation>({
+    queryKey: valuationQueryKey,
+    enabled: open && !!selectedPeriodId,
+  });
+
+  // Default to the latest claim
+  useEffect(() => {
+    if (periods.length > 0 && !periods.some((p) => p.id === selectedPeriodId)) {
+      setSelectedPeriodId(periods[periods.length - 1].id);
+    }
+  }, [periods, selectedPeriodId]);
+
+  const invalidateClaims = () => {
+    queryClient.invalidateQueries({ queryKey: claimsQueryKey });
+  };
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/boq/claims`, {});
+      return await response.json() as ClaimPeriod;
+    },
+    onSuccess: (period) => {
+      invalidateClaims();
+      setSelectedPeriodId(period.id);
+      toast({
+        title: "Claim started",
+        description: `${period.name} has been created with progress carried forward.`,
+      });
+    },
+    onError: showError("Failed to start a new claim."),
+  });
+
+  const updatePeriodMutation = useMutation({
+    mutationFn: async (data: Partial<ClaimPeriod>) => {
+      return await apiRequest("PATCH", `/api/projects/${projectId}/boq/claims/${selectedPeriodId}`, data);
+    },
+    onSuccess: invalidateClaims,
+    onError: showError("Failed to update claim."),
+  });
+
+  const updateLineMutation = useMutation({
+    mutationFn: async ({ itemId, data }: { itemId: string; data: LineUpdate }) => {
+      return await apiRequest("PUT", `/api/projects/${projectId}/boq/claims/${selectedPeriodId}/items/${itemId}`, data);
+    },
+    onSuccess: invalidateClaims,
+    onError: showError("Failed to update claim item."),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (action: "submit" | "approve" | "delete") => {
+      if (action === "delete") {
+        return await apiRequest("DELETE", `/api/projects/${projectId}/boq/claims/${selectedPeriodId}`);
+      }
+      return await apiRequest("POST", `/api/projects/${projectId}/boq/claims/${selectedPeriodId}/${action}`);
+    },
+    onSuccess: (_, action) => {
+      if (action === "delete") {
+        setSelectedPeriodId(null);
+      }
+      invalidateClaims();
+      toast({
+        title: action === "delete" ? "Claim deleted" : action === "submit" ? "Claim submitted" : "Claim approved",
+        description: action === "submit"
+          ? "Claimed values are now locked. Approved values can be recorded."
+          : action === "approve" ? "The claim is now locked." : "The draft claim has been deleted.",
+      });
+    },
+    onError: showError("Failed to update claim status."),
+    onSettled: () => setConfirmAction(null),
+  });
+
+  const handleExport = async (format: "xlsx" | "pdf") => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/boq/claims/${selectedPeriodId}/export/${format}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Export failed");
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `Payment_Claim_${valuation?.period.periodNumber ?? ""}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: "Could not export the payment claim.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const period = valuation?.period;
+  const isDraft = period?.status === "draft";
+  const isSubmitted = period?.status === "submitted";
+  const isLatest = !!period && periods.length > 0 && periods[periods.length - 1].id === period.id;
+
+  const saveLine = (line: ClaimLine, data: LineUpdate) => {
+    updateLineMutation.mutate({ itemId: line.boqItemId, data });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] max-h-[92vh] overflow-y-auto" data-testid="dialog-progress-claims">
+        <DialogHeader>
+          <DialogTitle>Progress Claims</DialogTitle>
+          <DialogDescription>
+            Monthly valuations against the BOQ. Progress is cumulative; this-period values are the movement since the previous claim.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 flex-wrap">
+          {periods.map((p) => (
+            <Button
+              key={p.id}
+              variant={p.id === selectedPeriodId ? "default" : "outline"}
+              size="sm"
+              onClick={() => setSelectedPeriodId(p.id)}
+              data-testid={`button-claim-period-${p.periodNumber}`}
+            >
+              {p.status !== "draft" && <Lock className="h-3 w-3 mr-1" />}
+              {p.name}
+            </Button>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending}
+            data-testid="button-new-claim"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New Claim
+          </Button>
+        </div>
+
+        {periods.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            No claims yet. Start a claim to record progress against the active BOQ revision.
+          </p>
+        ) : isLoadingValuation || !valuation || !period ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">Loading claim...</p>
+        ) : (
+          <div className="space-y-4">
+            {/* Claim header */}
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+              <div className="space-y-1 md:col-span-2">
+                <Label className="text-xs">Name</Label>
+                <Input
+                  key={`${period.id}-name-${period.name}`}
+                  defaultValue={period.name}
+                  disabled={!isDraft}
+                  onBlur={(e) => {
+                    if (e.target.value.trim() && e.target.value.trim() !== period.name) {
+                      updatePeriodMutation.mutate({ name: e.target.value.trim() });
+                    }
+                  }}
+                  className="h-8 text-xs"
+                  data-testid="input-claim-name"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Period start</Label>
+                <Input
+                  key={`${period.id}-start-${period.periodStart}`}
+                  type="date"
+                  defaultValue={period.periodStart?.slice(0, 10) ?? ""}
+                  disabled={!isDraft}
+                  onBlur={(e) => {
+                    if (e.target.value !== (period.periodStart?.slice(0, 10) ?? "")) {
+                      updatePeriodMutation.mutate({ periodStart: e.target.value || null });
+                    }
+                  }}
+                  className="h-8 text-xs"
+                  data-testid="input-claim-period-start"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Period end</Label>
+                <Input
+                  key={`${period.id}-end-${period.periodEnd}`}
+                  type="date"
+                  defaultValue={period.periodEnd?.slice(0, 10) ?? ""}
+                  disabled={!isDraft}
+                  onBlur={(e) => {
+                    if (e.target.value !== (period.periodEnd?.slice(0, 10) ?? "")) {
+                      updatePeriodMutation.mutate({ periodEnd: e.target.value || null });
+                    }
+                  }}
+                  className="h-8 text-xs"
+                  data-testid="input-claim-period-end"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Retention %</Label>
+                <Input
+                  key={`${period.id}-retention-${period.retentionPercent}`}
+                  type="number"
+                  step="0.01"
+                  defaultValue={period.retentionPercent}
+                  disabled={!isDraft}
+                  onBlur={(e) => {
+                    if (e.target.value !== "" && Number(e.target.value) !== Number(period.retentionPercent)) {
+                      updatePeriodMutation.mutate({ retentionPercent: e.target.value });
+                    }
+                  }}
+                  className="h-8 text-xs text-right"
+                  data-testid="input-claim-retention-percent"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Retention cap ($)</Label>
+                <Input
+                  key={`${period.id}-cap-${period.retentionCap}`}
+                  type="number"
+                  step="0.01"
+                  defaultValue={period.retentionCap ?? ""}
+                  placeholder="No cap"
+                  disabled={!isDraft}
+                  onBlur={(e) => {
+                    if (e.target.value !== (period.retentionCap ?? "")) {
+                      updatePeriodMutation.mutate({ retentionCap: e.target.value || null });
+                    }
+                  }}
+                  className="h-8 text-xs text-right"
+                  data-testid="input-claim-retention-cap"
+                />
+              </div>
+            </div>
+
+            {/* Status and actions */}
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge variant="outline" className={statusBadgeClass[period.status]} data-testid="badge-claim-status">
+                {period.status}
+              </Badge>
+              <span className="text-xs text-muted-foreground">
+                {valuation.previousPeriod ? `Previous: ${valuation.previousPeriod.name}` : "First claim"}
+                {" · "}Contract sum {formatCurrency(valuation.contractSum)}
+                {valuation.percentComplete != null && ` · ${(valuation.percentComplete * 100).toFixed(1)}% complete`}
+              </span>
+              <div className="flex-1" />
+              {isDraft && (
+                <Button size="sm" onClick={() => setConfirmAction("submit")} data-testid="button-submit-claim">
+                  <Send className="h-4 w-4 mr-1" />
+                  Submit
+                </Button>
+              )}
+              {isSubmitted && (
+                <Button size="sm" onClick={() => setConfirmAction("approve")} data-testid="button-approve-claim">
+                  <CheckCircle2 className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+              )}
+              {isDraft && isLatest && (
+                <Button variant="outline" size="sm" onClick={() => setConfirmAction("delete")} data-testid="button-delete-claim">
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => handleExport("xlsx")} data-testid="button-export-claim-excel">
+                <Download className="h-4 w-4 mr-1" />
+                Excel
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport("pdf")} data-testid="button-export-claim-pdf">
+                <Download className="h-4 w-4 mr-1" />
+                PDF
+              </Button>
+            </div>
+
+            {/* Payment summary */}
+            <div className="max-w-xl">
+              <Table>
+                <TableHeader>
+                  <TableRow className="text-xs">
+                    <TableHead className="py-2"></TableHead>
+                    <TableHead className="text-right py-2">Claimed</TableHead>
+                    <TableHead className="text-right py-2">Approved</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody className="text-xs">
+                  {summaryRows.map((row) => (
+                    <TableRow key={row.label} className={row.bold ? "font-semibold" : ""}>
+                      <TableCell className="py-1.5">{row.label}</TableCell>
+                      <TableCell className="text-right tabular-nums py-1.5">{formatCurrency(row.value(valuation.claimed))}</TableCell>
+                      <TableCell className="text-right tabular-nums py-1.5">{formatCurrency(row.value(valuation.approved))}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {/* Itemised valuation */}
+            <Table>
+              <TableHeader>
+                <TableRow className="text-xs">
+                  <TableHead className="py-2">Item</TableHead>
+                  <TableHead className="py-2">Description</TableHead>
+                  <TableHead className="text-right py-2">Qty</TableHead>
+                  <TableHead className="text-right py-2">Amount</TableHead>
+                  <TableHead className="text-right py-2 w-28">Qty Complete</TableHead>
+                  <TableHead className="text-right py-2 w-24">% Complete</TableHead>
+                  <TableHead className="text-right py-2">Claimed to Date</TableHead>
+                  <TableHead className="text-right py-2">Previous</TableHead>
+                  <TableHead className="text-right py-2">This Period</TableHead>
+                  <TableHead className="text-right py-2 w-32">Approved to Date</TableHead>
+                  <TableHead className="text-right py-2">Approved This Period</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody className="text-xs">
+                {valuation.lines.map((line) => line.level !== null ? (
+                  <TableRow key={line.boqItemId} className="bg-muted/40 font-bold">
+                    <TableCell className="py-1.5">{line.itemNumber}</TableCell>
+                    <TableCell className="py-1.5" colSpan={10}>{line.description}</TableCell>
+                  </TableRow>
+                ) : (
+                  <TableRow key={line.boqItemId} data-testid={`row-claim-item-${line.boqItemId}`}>
+                    <TableCell className="py-1 font-mono">{line.itemNumber}</TableCell>
+                    <TableCell className="py-1 max-w-xs truncate" title={line.description}>{line.description}</TableCell>
+                    <TableCell className="text-right tabular-nums py-1">
+                      {line.quantity != null ? `${line.quantity.toLocaleString()} ${line.unit ?? ""}` : "-"}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums py-1">{formatCurrency(line.amount)}</TableCell>
+                    <TableCell className="py-1">
+                      <Input
+                        key={`${line.boqItemId}-qty-${line.qtyComplete}`}
+                        type="number"
+                        step="0.001"
+                        defaultValue={line.qtyComplete ?? ""}
+                        disabled={!isDraft || line.quantity == null}
+                        onBlur={(e) => {
+                          const value = e.target.value === "" ? null : e.target.value;
+                          if ((value == null ? null : Number(value)) !== line.qtyComplete) {
+                            saveLine(line, { qtyComplete: value });
+                          }
+                        }}
+                        className="h-7 text-xs text-right tabular-nums"
+                        data-testid={`input-claim-qty-${line.boqItemId}`}
+                      />
+                    </TableCell>
+                    <TableCell className="py-1">
+                      <Input
+                        key={`${line.boqItemId}-pct-${line.percentComplete}`}
+                        type="number"
+                        step="0.1"
+                        defaultValue={line.percentComplete != null ? Number(line.percentComplete.toFixed(2)) : ""}
+                        disabled={!isDraft}
+                        onBlur={(e) => {
+                          const value = e.target.value === "" ? null : e.target.value;
+                          const current = line.percentComplete != null ? Number(line.percentComplete.toFixed(2)) : null;
+                          if ((value == null ? null : Number(value)) !== current) {
+                            saveLine(line, { percentComplete: value });
+                          }
+                        }}
+                        className="h-7 text-xs text-right tabular-nums"
+                        data-testid={`input-claim-percent-${line.boqItemId}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums py-1">{formatCurrency(line.cumulativeClaimed)}</TableCell>
+                    <TableCell className="text-right tabular-nums py-1 text-muted-foreground">{formatCurrency(line.previousClaimed)}</TableCell>
+                    <TableCell className="text-right tabular-nums py-1 font-medium">{formatCurrency(line.thisPeriodClaimed)}</TableCell>
+                    <TableCell className="py-1">
+                      <Input
+                        key={`${line.boqItemId}-approved-${line.cumulativeApproved}`}
+                        type="number"
+                        step="0.01"
+                        defaultValue={line.cumulativeApproved ?? ""}
+                        placeholder={isSubmitted ? "Assess" : "-"}
+                        disabled={!isSubmitted}
+                        onBlur={(e) => {
+                          const value = e.target.value === "" ? null : e.target.value;
+                          if ((value == null ? null : Number(value)) !== line.cumulativeApproved) {
+                            saveLine(line, { approvedAmount: value });
+                          }
+                        }}
+                        className="h-7 text-xs text-right tabular-nums"
+                        data-testid={`input-claim-approved-${line.boqItemId}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums py-1">{formatCurrency(line.thisPeriodApproved)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter className="text-xs">
+                <TableRow className="font-semibold">
+                  <TableCell className="py-2" colSpan={3}>Total</TableCell>
+                  <TableCell className="text-right tabular-nums py-2">{formatCurrency(valuation.contractSum)}</TableCell>
+                  <TableCell className="py-2" colSpan={2} />
+                  <TableCell className="text-right tabular-nums py-2">{formatCurrency(valuation.claimed.cumulativeGross)}</TableCell>
+                  <TableCell className="text-right tabular-nums py-2">{formatCurrency(valuation.claimed.previousGross)}</TableCell>
+                  <TableCell className="text-right tabular-nums py-2">{formatCurrency(valuation.claimed.thisPeriodGross)}</TableCell>
+                  <TableCell className="text-right tabular-nums py-2">{formatCurrency(valuation.approved.cumulativeGross)}</TableCell>
+                  <TableCell className="text-right tabular-nums py-2">{formatCurrency(valuation.approved.thisPeriodGross)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        )}
+
+        <AlertDialog open={!!confirmAction} onOpenChange={(isOpen) => !isOpen && setConfirmAction(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {confirmAction === "submit" ? "Submit claim?" : confirmAction === "approve" ? "Approve claim?" : "Delete claim?"}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {confirmAction === "submit"
+                  ? "Claimed quantities and percentages will be locked. Only approved values can be recorded afterwards."
+                  : confirmAction === "approve"
+                    ? "The claim will be locked and can no longer be changed."
+                    : "The draft claim and its progress entries will be permanently deleted."}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel data-testid="button-cancel-claim-action">Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => confirmAction && statusMutation.mutate(confirmAction)}
+                data-testid="button-confirm-claim-action"
+              >
+                {confirmAction === "submit" ? "Submit" : confirmAction === "approve" ? "Approve" : "Delete"}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
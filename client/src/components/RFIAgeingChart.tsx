@@ -0,0 +1,70 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import type { RFI } from "@shared/schema";
+
+// Days outstanding buckets, upper bound inclusive
+const AGEING_BUCKETS = [
+  { label: "0-7", max: 7 },
+  { label: "8-14", max: 14 },
+  { label: "15-30", max: 30 },
+  { label: "31-60", max: 60 },
+  { label: "60+", max: Infinity },
+];
+
+interface RFIAgeingChartProps {
+  rfis: RFI[];
+}
+
+/**
+ * Ageing of RFIs awaiting a response, split into overdue and within SLA
+ */
+export function RFIAgeingChart({ rfis }: RFIAgeingChartProps) {
+  const issued = rfis.filter(rfi => rfi.status === "issued");
+  const data = AGEING_BUCKETS.map((bucket, index) => {
+    const min = index === 0 ? 0 : AGEING_BUCKETS[index - 1].max + 1;
+    const inBucket = issued.filter(rfi => rfi.daysOutstanding >= min && rfi.daysOutstanding <= bucket.max);
+    return {
+      bucket: bucket.label,
+      overdue: inBucket.filter(rfi => rfi.isOverdue).length,
+      withinSla: inBucket.filter(rfi => !rfi.isOverdue).length,
+    };
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Ageing of Issued RFIs</CardTitle>
+        <p className="text-sm text-muted-foreground">{issued.length} awaiting a response, by days outstanding</p>
+      </CardHeader>
+      <CardContent>
+        <div className="h-[220px]" data-testid="chart-rfi-ageing">
+          <ResponsiveContainer width="99%" height="100%">
+            <BarChart data={data} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis
+                dataKey="bucket"
+                tickFormatter={(value) => `${value}d`}
+                tick={{ fill: 'hsl(var(--foreground))', fontSize: 10, fontWeight: 500 }}
+              />
+              <YAxis
+                allowDecimals={false}
+                tick={{ fill: 'hsl(var(--foreground))', fontSize: 10, fontWeight: 500 }}
+              />
+              <Tooltip
+                labelFormatter={(label: any) => `${label} days outstanding`}
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--popover))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '6px',
+                }}
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Bar dataKey="withinSla" name="Within SLA" stackId="ageing" fill="#3b82f6" />
+              <Bar dataKey="overdue" name="Overdue" stackId="ageing" fill="#ef4444" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
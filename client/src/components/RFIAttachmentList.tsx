@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { DocumentViewer } from "@/components/DocumentViewer";
+import { Download, Eye, Paperclip, Trash2 } from "lucide-react";
+import type { RFIAttachment } from "@shared/schema";
+
+const DOCUMENT_EXTENSIONS = ["pdf", "docx", "doc", "xlsx", "xls"];
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "webp", "bmp"];
+
+function extensionOf(name: string) {
+  return name.toLowerCase().split(".").pop() || "";
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface RFIAttachmentListProps {
+  attachments: RFIAttachment[];
+  onDelete?: (attachment: RFIAttachment) => void;
+  compact?: boolean;
+}
+
+/**
+ * Attached files with inline preview (PDF, Word, Excel and images) and download
+ */
+export function RFIAttachmentList({ attachments, onDelete, compact }: RFIAttachmentListProps) {
+  const [previewing, setPreviewing] = useState<RFIAttachment | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const canPreview = (attachment: RFIAttachment) => {
+    const extension = extensionOf(attachment.name);
+    return DOCUMENT_EXTENSIONS.includes(extension) || IMAGE_EXTENSIONS.includes(extension);
+  };
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <>
+      <div className="space-y-1">
+        {attachments.map((attachment, idx) => (
+          <div
+            key={attachment.id || idx}
+            className={`flex items-center gap-2 ${compact ? "text-xs" : "text-sm"} text-muted-foreground`}
+            data-testid={`attachment-${attachment.id || idx}`}
+          >
+            <Paperclip className="h-3 w-3 shrink-0" />
+            {canPreview(attachment) ? (
+              <button
+                type="button"
+                className="truncate text-left hover:underline text-foreground"
+                onClick={() => setPreviewing(attachment)}
+                data-testid={`button-preview-attachment-${attachment.id || idx}`}
+              >
+                {attachment.name}
+              </button>
+            ) : (
+              <a href={attachment.url} target="_blank" rel="noreferrer" className="truncate hover:underline text-foreground">
+                {attachment.name}
+              </a>
+            )}
+            {attachment.size !== undefined && <span className="shrink-0">{formatFileSize(attachment.size)}</span>}
+            <div className="flex gap-1 ml-auto shrink-0">
+              {canPreview(attachment) && (
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setPreviewing(attachment)} title="Preview">
+                  <Eye className="h-3 w-3" />
+                </Button>
+              )}
+              <Button variant="ghost" size="icon" className="h-6 w-6" asChild title="Download">
+                <a href={`${attachment.url}?download=1`} data-testid={`link-download-attachment-${attachment.id || idx}`}>
+                  <Download className="h-3 w-3" />
+                </a>
+              </Button>
+              {onDelete && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => onDelete(attachment)}
+                  title="Remove"
+                  data-testid={`button-delete-attachment-${attachment.id || idx}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={!!previewing} onOpenChange={(open) => { if (!open) { setPreviewing(null); setIsFullscreen(false); } }}>
+        <DialogContent className={isFullscreen ? "max-w-[95vw] h-[95vh]" : "max-w-4xl max-h-[90vh] overflow-y-auto"}>
+          <DialogHeader>
+            <DialogTitle className="truncate pr-8">{previewing?.name}</DialogTitle>
+          </DialogHeader>
+          {previewing && (IMAGE_EXTENSIONS.includes(extensionOf(previewing.name)) ? (
+            <img src={previewing.url} alt={previewing.name} className="max-h-[70vh] mx-auto object-contain" />
+          ) : (
+            <DocumentViewer
+              fileUrl={previewing.url}
+              fileName={previewing.name}
+              isFullscreen={isFullscreen}
+              onToggleFullscreen={() => setIsFullscreen(!isFullscreen)}
+            />
+          ))}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,6 +1,8 @@
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
-import { Reply, Paperclip } from "lucide-react";
+import { RFIAttachmentList } from "@/components/RFIAttachmentList";
+import { Reply } from "lucide-react";
+import type { RFIAttachment } from "@shared/schema";
 
 interface RFICommentProps {
   id: string;
@@ -8,7 +10,7 @@ interface RFICommentProps {
   authorInitials: string;
   timestamp: string;
   content: string;
-  attachments?: { name: string; url: string }[];
+  attachments?: RFIAttachment[] | null;
   isReply?: boolean;
 }
 
@@ -35,14 +37,7 @@ export function RFIComment({
         </div>
         <p className="text-sm">{content}</p>
         {attachments && attachments.length > 0 && (
-          <div className="space-y-1">
-            {attachments.map((attachment, idx) => (
-              <div key={idx} className="flex items-center gap-2 text-xs text-muted-foreground">
-                <Paperclip className="h-3 w-3" />
-                <span>{attachment.name}</span>
-              </div>
-            ))}
-          </div>
+          <RFIAttachmentList attachments={attachments} compact />
         )}
         <Button
           variant="ghost"
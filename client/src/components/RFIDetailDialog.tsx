@@ -2,18 +2,23 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { RFIStatusBadge } from "@/components/RFIStatusBadge";
 import { RFIComment } from "@/components/RFIComment";
+import { RFIStatusActions } from "@/components/RFIStatusActions";
+import { RFIStatusHistory } from "@/components/RFIStatusHistory";
+import { RFIAttachmentList } from "@/components/RFIAttachmentList";
+import { RFIFilePicker } from "@/components/RFIFilePicker";
+import { RFIDocumentMenu } from "@/components/RFIDocumentMenu";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Paperclip, Send } from "lucide-react";
+import { Send, Upload } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
-import type { RFI, RFICommentWithAuthor } from "@shared/schema";
+import type { RFI, RFIAttachment, RFICommentWithAuthor } from "@shared/schema";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { formatDate } from "@/lib/dateFormat";
 import { useAuth } from "@/contexts/AuthContext";
 import { queryKeys } from "@/api/queryKeys";
-import { useCreateRFIComment } from "@/api/mutations";
+import { useCreateRFIComment, useUploadRFIAttachments, useDeleteRFIAttachment } from "@/api/mutations";
 
 interface RFIDetailDialogProps {
   rfiId: string;
@@ -23,6 +28,8 @@ interface RFIDetailDialogProps {
 
 export function RFIDetailDialog({ rfiId, open, onOpenChange }: RFIDetailDialogProps) {
   const [newComment, setNewComment] = useState("");
+  const [commentFiles, setCommentFiles] = useState<File[]>([]);
+  const [rfiFiles, setRfiFiles] = useState<File[]>([]);
   const { toast } = useToast();
   const { currentUser } = useAuth();
 
@@ -48,19 +55,21 @@ export function RFIDetailDialog({ rfiId, open, onOpenChange }: RFIDetailDialogPr
       {
         userAccountId: currentUser.id,
         content: newComment,
+        files: commentFiles,
       },
       {
         onSuccess: () => {
           setNewComment("");
+          setCommentFiles([]);
           toast({
             title: "Comment posted",
             description: "Your comment has been added successfully.",
           });
         },
-        onError: () => {
+        onError: (error: any) => {
           toast({
             title: "Error",
-            description: "Failed to post comment. Please try again.",
+            description: error.message || "Failed to post comment. Please try again.",
             variant: "destructive",
           });
         },
@@ -68,6 +77,38 @@ export function RFIDetailDialog({ rfiId, open, onOpenChange }: RFIDetailDialogPr
     );
   };
 
+  const uploadAttachmentsMutation = useUploadRFIAttachments(rfiId || '', rfi?.projectId);
+  const deleteAttachmentMutation = useDeleteRFIAttachment(rfiId || '', rfi?.projectId);
+
+  const handleUploadAttachments = () => {
+    uploadAttachmentsMutation.mutate(
+      { files: rfiFiles },
+      {
+        onSuccess: () => setRfiFiles([]),
+        onError: (error: any) => {
+          toast({
+            title: "Upload failed",
+            description: error.message || "Failed to upload attachments",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleDeleteAttachment = (attachment: RFIAttachment) => {
+    if (!attachment.id || !confirm(`Remove ${attachment.name}?`)) return;
+    deleteAttachmentMutation.mutate(attachment.id, {
+      onError: (error: any) => {
+        toast({
+          title: "Error",
+          description: error.message || "Failed to remove attachment",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
   if (!rfi) {
     return (
       <Dialog open={open} onOpenChange={onOpenChange}>
@@ -89,7 +130,10 @@ export function RFIDetailDialog({ rfiId, open, onOpenChange }: RFIDetailDialogPr
               <DialogTitle className="font-mono text-xl" data-testid="text-rfi-number">{rfi.rfiNumber}</DialogTitle>
               <p className="text-base font-semibold mt-1" data-testid="text-rfi-title">{rfi.title}</p>
             </div>
-            <RFIStatusBadge status={rfi.status as any} />
+            <div className="flex items-center gap-2 pr-6">
+              <RFIDocumentMenu rfi={rfi} />
+              <RFIStatusBadge status={rfi.status} />
+            </div>
           </div>
         </DialogHeader>
 
@@ -148,7 +192,7 @@ export function RFIDetailDialog({ rfiId, open, onOpenChange }: RFIDetailDialogPr
               </CardHeader>
               <CardContent>
                 <p className="text-sm font-medium" data-testid="text-rfi-due-date">
-                  {rfi.dueDate ? formatDate(rfi.dueDate) : "No due date"}
+                  {rfi.dueDate ? formatDate(rfi.dueDate) : rfi.slaDueDate ? `${formatDate(rfi.slaDueDate)} (SLA)` : "No due date"}
                 </p>
               </CardContent>
             </Card>
@@ -165,6 +209,65 @@ export function RFIDetailDialog({ rfiId, open, onOpenChange }: RFIDetailDialogPr
             </Card>
           </div>
 
+          {/* Attachments */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Attachments</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {rfi.attachments && rfi.attachments.length > 0 ? (
+                <RFIAttachmentList attachments={rfi.attachments} onDelete={handleDeleteAttachment} />
+              ) : (
+                <p className="text-sm text-muted-foreground">No files attached</p>
+              )}
+              <div className="flex items-start justify-between gap-2">
+                <RFIFilePicker
+                  files={rfiFiles}
+                  onChange={setRfiFiles}
+                  label="Add files"
+                  disabled={uploadAttachmentsMutation.isPending}
+                  testId="rfi-attachments"
+                />
+                <Button
+                  size="sm"
+                  onClick={handleUploadAttachments}
+                  disabled={rfiFiles.length === 0 || uploadAttachmentsMutation.isPending}
+                  data-testid="button-upload-attachments"
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  {uploadAttachmentsMutation.isPending ? "Uploading..." : "Upload"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Lifecycle */}
+          <div className="grid grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">Ball in Court</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm font-medium capitalize" data-testid="text-rfi-ball-in-court">
+                  {rfi.ballInCourt || "None (closed)"}
+                  {rfi.issuedAt && (
+                    <span className="text-muted-foreground normal-case"> · {rfi.daysOutstanding} days outstanding</span>
+                  )}
+                </p>
+                <RFIStatusActions rfi={rfi} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">Status History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RFIStatusHistory rfiId={rfi.id} />
+              </CardContent>
+            </Card>
+          </div>
+
           {/* Comments */}
           <Card>
             <CardHeader>
@@ -192,7 +295,7 @@ export function RFIDetailDialog({ rfiId, open, onOpenChange }: RFIDetailDialogPr
                       authorInitials={initials}
                       timestamp={formatDate(comment.createdAt)}
                       content={comment.content}
-                      attachments={comment.attachments as { name: string; url: string }[] | undefined}
+                      attachments={comment.attachments}
                     />
                   );
                 })
@@ -207,11 +310,14 @@ export function RFIDetailDialog({ rfiId, open, onOpenChange }: RFIDetailDialogPr
                   className="min-h-[80px]"
                   data-testid="textarea-rfi-comment"
                 />
-                <div className="flex items-center justify-between gap-2">
-                  <Button variant="outline" size="sm" data-testid="button-attach-file">
-                    <Paperclip className="h-4 w-4 mr-2" />
-                    Attach File
-                  </Button>
+                <div className="flex items-start justify-between gap-2">
+                  <RFIFilePicker
+                    files={commentFiles}
+                    onChange={setCommentFiles}
+                    label="Attach File"
+                    disabled={postCommentMutation.isPending}
+                    testId="comment-files"
+                  />
                   <Button 
                     onClick={handlePostComment}
                     disabled={!newComment.trim() || postCommentMutation.isPending}
@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { FileDown, Loader2 } from "lucide-react";
+import type { RFI } from "@shared/schema";
+
+interface RFIDocumentMenuProps {
+  rfi: RFI;
+}
+
+/**
+ * Download the formal RFI form (letterhead, question, attachments list, response and comments)
+ */
+export function RFIDocumentMenu({ rfi }: RFIDocumentMenuProps) {
+  const { toast } = useToast();
+  const [generating, setGenerating] = useState(false);
+
+  const handleDownload = async (format: "docx" | "pdf") => {
+    setGenerating(true);
+    try {
+      const response = await fetch(`/api/rfis/${rfi.id}/document/${format}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Export failed");
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${rfi.rfiNumber}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: "Could not generate the RFI form.",
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={generating} data-testid="button-rfi-document">
+          {generating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+          RFI Form
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleDownload("pdf")} data-testid="button-rfi-document-pdf">
+          Download PDF
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleDownload("docx")} data-testid="button-rfi-document-docx">
+          Download Word
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,93 @@
+import { Badge } from "@/components/ui/badge";
+import { RFIStatusBadge } from "@/components/RFIStatusBadge";
+import { BookOpen, ExternalLink, FileText, Sparkles } from "lucide-react";
+
+// Shape of POST /api/projects/:projectId/rfis/ai-draft (server/rfiDrafting.ts)
+export interface RFIDraft {
+  title: string;
+  question: string;
+  references: { source: "contract" | "specification"; reference: string; reason: string }[];
+  proposedResolution: string;
+  clauses: { clauseNumber: string; heading: string; summary: string; startPage: number; endPage: number }[];
+  specSections: { reference: string; heading: string; text: string }[];
+  similarRfis: { id: string; rfiNumber: string; title: string; status: string; score: number; response: string | null }[];
+  usage: { inputTokens: number; outputTokens: number; totalTokens: number; estimatedCost: number };
+}
+
+interface RFIDraftSourcesProps {
+  draft: RFIDraft;
+}
+
+/**
+ * Clauses and specification sections an AI draft was grounded in, and similar past RFIs
+ */
+export function RFIDraftSources({ draft }: RFIDraftSourcesProps) {
+  return (
+    <div className="rounded-md border border-[var(--ai-primary)]/30 bg-[var(--ai-primary)]/5 p-3 space-y-3 text-sm" data-testid="rfi-draft-sources">
+      <div className="flex items-center gap-2 text-xs font-medium text-[var(--ai-primary)] uppercase tracking-wide">
+        <Sparkles className="h-4 w-4" />
+        AI Draft Sources
+        <span className="ml-auto normal-case font-normal text-muted-foreground">
+          {draft.usage.totalTokens.toLocaleString()} tokens
+        </span>
+      </div>
+
+      {draft.clauses.length === 0 && draft.specSections.length === 0 ? (
+        <p className="text-muted-foreground">
+          No relevant contract clauses or specification sections were found. Check the references before issuing.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {draft.clauses.map(clause => (
+            <div key={`clause-${clause.clauseNumber}-${clause.startPage}`} className="flex gap-2" data-testid={`draft-clause-${clause.clauseNumber}`}>
+              <BookOpen className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+              <div>
+                <div className="font-medium">
+                  Clause {clause.clauseNumber} {clause.heading}
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">p. {clause.startPage}</span>
+                </div>
+                <p className="text-muted-foreground line-clamp-2">{clause.summary}</p>
+              </div>
+            </div>
+          ))}
+          {draft.specSections.map(section => (
+            <div key={`spec-${section.reference}`} className="flex gap-2" data-testid={`draft-spec-${section.reference}`}>
+              <FileText className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+              <div>
+                <div className="font-medium">Specification {section.reference} {section.heading}</div>
+                <p className="text-muted-foreground line-clamp-2">{section.text}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {draft.similarRfis.length > 0 && (
+        <div className="space-y-2 border-t pt-3">
+          <div className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Similar Past RFIs</div>
+          {draft.similarRfis.map(rfi => (
+            <div key={rfi.id} className="space-y-1" data-testid={`draft-similar-rfi-${rfi.id}`}>
+              <div className="flex items-center gap-2">
+                <a
+                  href={`/rfis/${rfi.id}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="font-medium hover:underline inline-flex items-center gap-1"
+                >
+                  {rfi.rfiNumber}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+                <span className="truncate">{rfi.title}</span>
+                <RFIStatusBadge status={rfi.status} />
+                <Badge variant="outline" className="ml-auto shrink-0">{Math.round(rfi.score * 100)}% match</Badge>
+              </div>
+              {rfi.response && (
+                <p className="text-muted-foreground line-clamp-2">Response: {rfi.response}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
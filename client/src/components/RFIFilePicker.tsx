@@ -0,0 +1,93 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { formatFileSize } from "@/components/RFIAttachmentList";
+import { Paperclip, X } from "lucide-react";
+
+// Mirrors the limits in server/rfiAttachments.ts so oversized files are caught before uploading
+export const RFI_ATTACHMENT_MAX_BYTES = 25 * 1024 * 1024;
+export const RFI_ATTACHMENT_MAX_FILES = 10;
+
+interface RFIFilePickerProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  label?: string;
+  accept?: string;
+  disabled?: boolean;
+  testId?: string;
+}
+
+/**
+ * Choose files to attach to an RFI or comment; they are uploaded when the form is submitted
+ */
+export function RFIFilePicker({ files, onChange, label = "Attach files", accept, disabled, testId = "rfi-files" }: RFIFilePickerProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const tooLarge = selected.filter(file => file.size > RFI_ATTACHMENT_MAX_BYTES);
+    if (tooLarge.length > 0) {
+      toast({
+        title: "File too large",
+        description: `${tooLarge.map(file => file.name).join(", ")} must be smaller than ${RFI_ATTACHMENT_MAX_BYTES / (1024 * 1024)}MB`,
+        variant: "destructive",
+      });
+    }
+
+    const next = [...files, ...selected.filter(file => file.size <= RFI_ATTACHMENT_MAX_BYTES)];
+    if (next.length > RFI_ATTACHMENT_MAX_FILES) {
+      toast({
+        title: "Too many files",
+        description: `Attach at most ${RFI_ATTACHMENT_MAX_FILES} files at a time`,
+        variant: "destructive",
+      });
+    }
+    onChange(next.slice(0, RFI_ATTACHMENT_MAX_FILES));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        data-testid={`button-attach-${testId}`}
+      >
+        <Paperclip className="h-4 w-4 mr-2" />
+        {label}
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={accept}
+        className="hidden"
+        onChange={handleSelect}
+        data-testid={`input-${testId}`}
+      />
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {files.map((file, index) => (
+            <span key={`${file.name}-${index}`} className="flex items-center gap-1 rounded-md border px-2 py-1 text-xs">
+              <span className="max-w-[200px] truncate">{file.name}</span>
+              <span className="text-muted-foreground">{formatFileSize(file.size)}</span>
+              <button
+                type="button"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                className="text-muted-foreground hover:text-foreground"
+                aria-label={`Remove ${file.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryKeys, invalidationPatterns } from "@/api/queryKeys";
+import { useToast } from "@/hooks/use-toast";
+
+type Priority = "high" | "medium" | "low";
+
+interface SlaRule {
+  responseDays: number;
+  businessDays: boolean;
+}
+
+const PRIORITIES: { value: Priority; label: string }[] = [
+  { value: "high", label: "High" },
+  { value: "medium", label: "Medium" },
+  { value: "low", label: "Low" },
+];
+
+interface RFISlaSettingsCardProps {
+  projectId: string;
+}
+
+/**
+ * Response SLA per RFI priority. RFIs without a required response date are due this many
+ * days after they are issued; business days skip weekends and the project's holidays.
+ */
+export function RFISlaSettingsCard({ projectId }: RFISlaSettingsCardProps) {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<Record<Priority, SlaRule> | null>(null);
+
+  const { data: savedRules } = useQuery<Record<Priority, SlaRule>>({
+    queryKey: queryKeys.projectRfiSlaRules(projectId),
+    enabled: !!projectId,
+  });
+
+  useEffect(() => {
+    if (savedRules) setRules(savedRules);
+  }, [savedRules]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/projects/${projectId}/rfi-sla-rules`, { rules });
+      return response.json();
+    },
+    onSuccess: (result: { recalculated: number }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.projectRfiSlaRules(projectId) });
+      invalidationPatterns.rfi(projectId).forEach(key => queryClient.invalidateQueries({ queryKey: key }));
+      toast({
+        title: "RFI SLAs saved",
+        description: result.recalculated > 0 ? `${result.recalculated} RFIs recalculated` : undefined,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save RFI SLAs",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRule = (priority: Priority, changes: Partial<SlaRule>) => {
+    setRules(current => current && { ...current, [priority]: { ...current[priority], ...changes } });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>RFI Response SLAs</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Days allowed for a response after an RFI is issued, when no required date is given
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!rules ? (
+          <div className="h-24 bg-muted animate-pulse rounded" />
+        ) : (
+          <>
+            {PRIORITIES.map(({ value, label }) => (
+              <div key={value} className="flex items-center gap-3" data-testid={`row-rfi-sla-${value}`}>
+                <span className="w-16 text-sm font-medium">{label}</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={365}
+                  className="w-20"
+                  value={rules[value].responseDays}
+                  onChange={(e) => updateRule(value, { responseDays: parseInt(e.target.value, 10) || 0 })}
+                  data-testid={`input-rfi-sla-days-${value}`}
+                />
+                <span className="text-sm text-muted-foreground">days</span>
+                <div className="flex items-center gap-2 ml-auto">
+                  <Switch
+                    checked={rules[value].businessDays}
+                    onCheckedChange={(checked) => updateRule(value, { businessDays: checked })}
+                    data-testid={`switch-rfi-sla-business-${value}`}
+                  />
+                  <span className="text-sm text-muted-foreground">Business days</span>
+                </div>
+              </div>
+            ))}
+            <div className="flex justify-end pt-2">
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending}
+                data-testid="button-save-rfi-sla"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save SLAs"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useTransitionRFI } from "@/api/mutations";
+import type { RFI } from "@shared/schema";
+import { useState } from "react";
+
+// Status changes offered from each status (mirrors RFI_TRANSITIONS on the server)
+const ACTIONS: Record<string, { status: string; label: string }[]> = {
+  draft: [{ status: "issued", label: "Issue RFI" }],
+  issued: [
+    { status: "responded", label: "Mark as Responded" },
+    { status: "closed", label: "Close RFI" },
+  ],
+  responded: [
+    { status: "closed", label: "Close RFI" },
+    { status: "issued", label: "Re-issue (Response Insufficient)" },
+  ],
+  closed: [{ status: "issued", label: "Re-open RFI" }],
+};
+
+interface RFIStatusActionsProps {
+  rfi: RFI;
+}
+
+export function RFIStatusActions({ rfi }: RFIStatusActionsProps) {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+  const transitionMutation = useTransitionRFI(rfi.id, rfi.projectId);
+  const actions = ACTIONS[rfi.status] || [];
+
+  const handleTransition = (status: string, label: string) => {
+    transitionMutation.mutate(
+      { status, note: note.trim() || undefined },
+      {
+        onSuccess: () => {
+          setNote("");
+          toast({ title: label, description: `${rfi.rfiNumber} is now ${status}.` });
+        },
+        onError: (error: any) => {
+          toast({
+            title: "Error",
+            description: error.message || "Failed to change RFI status",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  if (actions.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        placeholder={rfi.status === "issued" ? "Response received, or a note for the status history" : "Note for the status history (optional)"}
+        rows={2}
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        data-testid="textarea-rfi-transition-note"
+      />
+      {actions.map(action => (
+        <Button
+          key={action.status}
+          variant={action.status === "issued" && rfi.status === "draft" ? "default" : "outline"}
+          className="w-full"
+          onClick={() => handleTransition(action.status, action.label)}
+          disabled={transitionMutation.isPending}
+          data-testid={`button-rfi-transition-${action.status}`}
+        >
+          {action.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
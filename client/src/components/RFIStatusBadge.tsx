@@ -1,22 +1,29 @@
 import { Badge } from "@/components/ui/badge";
 
-type RFIStatus = "Open" | "Awaiting Info" | "Responded" | "Closed";
+type RFIStatus = "draft" | "issued" | "responded" | "closed";
 
 interface RFIStatusBadgeProps {
-  status: RFIStatus;
+  status: RFIStatus | string;
 }
 
-const statusVariants = {
-  Open: "primary" as const,
-  "Awaiting Info": "warning" as const,
-  Responded: "success" as const,
-  Closed: "secondary" as const,
+const statusVariants: Record<RFIStatus, "outline" | "primary" | "success" | "secondary"> = {
+  draft: "outline",
+  issued: "primary",
+  responded: "success",
+  closed: "secondary",
+};
+
+const statusLabels: Record<RFIStatus, string> = {
+  draft: "Draft",
+  issued: "Issued",
+  responded: "Responded",
+  closed: "Closed",
 };
 
 export function RFIStatusBadge({ status }: RFIStatusBadgeProps) {
   return (
-    <Badge variant={statusVariants[status]} data-testid={`badge-rfi-status-${status.toLowerCase().replace(' ', '-')}`}>
-      {status}
+    <Badge variant={statusVariants[status as RFIStatus] || "outline"} data-testid={`badge-rfi-status-${status}`}>
+      {statusLabels[status as RFIStatus] || status}
     </Badge>
   );
 }
@@ -0,0 +1,52 @@
+import { RFIStatusBadge } from "@/components/RFIStatusBadge";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/api/queryKeys";
+import { formatDate } from "@/lib/dateFormat";
+
+interface RFIStatusHistoryEntry {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  ballInCourt: string | null;
+  note: string | null;
+  createdAt: string;
+  authorName: string | null;
+  authorFamilyName: string | null;
+}
+
+interface RFIStatusHistoryProps {
+  rfiId: string;
+}
+
+export function RFIStatusHistory({ rfiId }: RFIStatusHistoryProps) {
+  const { data: history = [], isLoading } = useQuery<RFIStatusHistoryEntry[]>({
+    queryKey: queryKeys.rfiHistory(rfiId),
+    enabled: !!rfiId,
+  });
+
+  if (isLoading) {
+    return <div className="h-16 bg-muted animate-pulse rounded" />;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status changes recorded</p>;
+  }
+
+  return (
+    <ol className="space-y-3 text-sm" data-testid="list-rfi-status-history">
+      {history.map(entry => (
+        <li key={entry.id} className="space-y-1">
+          <div className="flex items-center gap-2 flex-wrap">
+            <RFIStatusBadge status={entry.toStatus} />
+            <span className="text-muted-foreground">{formatDate(entry.createdAt)}</span>
+          </div>
+          <p className="text-muted-foreground">
+            {entry.fromStatus ? `From ${entry.fromStatus}` : "Created"}
+            {entry.authorName ? ` by ${entry.authorName} ${entry.authorFamilyName || ""}`.trimEnd() : ""}
+          </p>
+          {entry.note && <p>{entry.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
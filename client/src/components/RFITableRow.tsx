@@ -2,16 +2,20 @@ import { RFIStatusBadge } from "./RFIStatusBadge";
 import { AlertCircle } from "lucide-react";
 import { useLocation } from "wouter";
 
-type RFIStatus = "Open" | "Awaiting Info" | "Responded" | "Closed";
+const ballInCourtLabels: Record<string, string> = {
+  originator: "Originator",
+  recipient: "Recipient",
+};
 
 interface RFITableRowProps {
   id: string;
   number: string;
   title: string;
   to: string;
-  status: RFIStatus;
+  status: string;
+  ballInCourt?: string | null;
   requiredDate: string;
-  daysOpen: number;
+  daysOutstanding: number;
   isOverdue?: boolean;
   lastActivity: string;
 }
@@ -22,8 +26,9 @@ export function RFITableRow({
   title,
   to,
   status,
+  ballInCourt,
   requiredDate,
-  daysOpen,
+  daysOutstanding,
   isOverdue,
   lastActivity,
 }: RFITableRowProps) {
@@ -50,12 +55,15 @@ export function RFITableRow({
       <td className="px-4" style={cellStyle}>
         <RFIStatusBadge status={status} />
       </td>
+      <td className="px-4 text-sm text-muted-foreground" style={cellStyle}>
+        {ballInCourt ? ballInCourtLabels[ballInCourt] || ballInCourt : "-"}
+      </td>
       <td className="px-4 text-sm" style={cellStyle}>
         <span className={isOverdue ? 'text-destructive font-medium' : ''}>
           {requiredDate}
         </span>
       </td>
-      <td className="px-4 text-sm text-muted-foreground" style={cellStyle}>{daysOpen}d</td>
+      <td className="px-4 text-sm text-muted-foreground" style={cellStyle}>{daysOutstanding}d</td>
       <td className="px-4 text-sm text-muted-foreground" style={cellStyle}>{lastActivity}</td>
     </tr>
   );
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+interface TrackNoticeDialogProps {
+  projectId: string;
+  revisionId: string;
+  notice: any | null; // Extracted notice from contractNotices.noticesJson
+  onOpenChange: (open: boolean) => void;
+}
+
+function todayInputValue(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+// Start tracking a contract notice as a live obligation when its trigger event occurs
+export function TrackNoticeDialog({ projectId, revisionId, notice, onOpenChange }: TrackNoticeDialogProps) {
+  const { toast } = useToast();
+  const [triggerEventDate, setTriggerEventDate] = useState(todayInputValue());
+  const [triggerDescription, setTriggerDescription] = useState("");
+
+  useEffect(() => {
+    if (notice) {
+      setTriggerEventDate(todayInputValue());
+      setTriggerDescription("");
+    }
+  }, [notice]);
+
+  const relativeTo = notice?.lead_time?.relative_to;
+  const countsBack = relativeTo === "deadline" || relativeTo === "renewal_date";
+
+  const trackMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/notice-obligations`, {
+        revisionId,
+        noticeId: notice.notice_id,
+        triggerEventDate,
+        triggerDescription,
+      });
+      return response.json();
+    },
+    onSuccess: (obligation) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/notice-obligations`] });
+      toast({
+        title: "Notice tracked",
+        description: obligation.dueDate
+          ? `${obligation.title} is due ${obligation.dueDate}`
+          : `${obligation.title} added to the notices register`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to track notice",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!notice} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Track {notice?.title}</DialogTitle>
+          <DialogDescription>
+            {notice?.clause_ref ? `${notice.clause_ref} - ` : ""}
+            {notice?.lead_time?.value
+              ? `Due ${notice.lead_time.value} ${notice.lead_time.unit || "days"}${notice.lead_time.business_days ? " (business days)" : ""} ${countsBack ? "before the date below" : "after the trigger event"}`
+              : "No time limit stated for this notice"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {notice?.trigger_condition && (
+            <p className="text-sm text-muted-foreground">Trigger: {notice.trigger_condition}</p>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="trigger-event-date">
+              {relativeTo === "renewal_date" ? "Renewal date" : relativeTo === "deadline" ? "Deadline" : "Trigger event date"}
+            </Label>
+            <Input
+              id="trigger-event-date"
+              type="date"
+              value={triggerEventDate}
+              onChange={(e) => setTriggerEventDate(e.target.value)}
+              data-testid="input-trigger-event-date"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="trigger-description">What happened (optional)</Label>
+            <Textarea
+              id="trigger-description"
+              value={triggerDescription}
+              onChange={(e) => setTriggerDescription(e.target.value)}
+              placeholder={notice?.trigger_condition || "Describe the trigger event"}
+              rows={3}
+              data-testid="input-trigger-description"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => trackMutation.mutate()}
+            disabled={!triggerEventDate || trackMutation.isPending}
+            data-testid="button-track-notice"
+          >
+            {trackMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Start Tracking
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,10 +5,12 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
 import { queryClient, apiRequest } from '@/lib/queryClient';
-import { Plus, Trash2, GripHorizontal, GripVertical, Move } from 'lucide-react';
+import { Plus, Trash2, GripHorizontal, GripVertical, Move, AlertCircle } from 'lucide-react';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useGlobalVariablesWebSocket } from '@/hooks/useGlobalVariablesWebSocket';
+import { useResourceRatesWebSocket } from '@/hooks/useResourceRatesWebSocket';
 
 interface WorksheetItemsDialogProps {
   open: boolean;
@@ -22,12 +24,13 @@ interface WorksheetItemsDialogProps {
 interface WorksheetItem {
   id: string;
   worksheetId: string;
-  lq: string | null;
+  lq: number;
   description: string | null;
   formula: string | null;
   resourceRateId: string | null;
-  result: string | null; // Computed from formula (alpha chars stripped)
+  result: string | null; // Computed from formula
   total: string | null; // Computed as tenderRate * result
+  formulaError: string | null; // Unresolved name, circular reference etc. from the last evaluation
   createdAt: string;
   updatedAt: string;
 }
@@ -354,6 +357,10 @@ export default function WorksheetItemsDialog({
     }, 500);
   };
 
+  // Results are recalculated server-side when global variables or resource rates change
+  useGlobalVariablesWebSocket(open ? projectId : null);
+  useResourceRatesWebSocket(open ? projectId : null);
+
   // Fetch worksheet items
   const { data: items = [], isLoading: itemsLoading } = useQuery<WorksheetItem[]>({
     queryKey: ['/api/projects', projectId, 'worksheets', worksheetId, 'items'],
@@ -765,9 +772,8 @@ export default function WorksheetItemsDialog({
               </TableRow>
             </TableHeader>
             <TableBody>
-              {items.map((item, index) => {
+              {items.map(item => {
                 const resource = item.resourceRateId ? resourceMap.get(item.resourceRateId) : null;
-                const lineNumber = index + 1; // Auto-number starting from 1
                 
                 return (
                   <TableRow key={item.id} className="hover:bg-muted/50" data-testid={`row-item-${item.id}`}>
@@ -776,7 +782,7 @@ export default function WorksheetItemsDialog({
                       style={{ paddingTop: 'var(--grid-cell-py)', paddingBottom: 'var(--grid-cell-py)' }}
                       data-testid={`cell-lq-${item.id}`}
                     >
-                      {lineNumber}
+                      {item.lq}
                     </TableCell>
                     <TableCell
                       className="cursor-pointer p-0"
@@ -819,8 +825,9 @@ export default function WorksheetItemsDialog({
                         />
                       ) : (
                         <div 
-                          className="text-data font-mono px-4" 
+                          className={`text-data font-mono px-4 ${item.formulaError ? 'text-destructive' : ''}`}
                           style={{ paddingTop: 'var(--grid-cell-py)', paddingBottom: 'var(--grid-cell-py)' }}
+                          title={item.formulaError ?? undefined}
                         >
                           {editValues[`${item.id}-formula`] ?? item.formula ?? '-'}
                         </div>
@@ -841,7 +848,18 @@ export default function WorksheetItemsDialog({
                       style={{ paddingTop: 'var(--grid-cell-py)', paddingBottom: 'var(--grid-cell-py)' }}
                       data-testid={`cell-result-${item.id}`}
                     >
-                      {item.result || '-'}
+                      {item.formulaError ? (
+                        <span
+                          className="inline-flex items-center gap-1 text-destructive"
+                          title={item.formulaError}
+                          data-testid={`text-formula-error-${item.id}`}
+                        >
+                          <AlertCircle className="h-3.5 w-3.5" />
+                          Error
+                        </span>
+                      ) : (
+                        item.result || '-'
+                      )}
                     </TableCell>
                     <TableCell 
                       className="text-muted-foreground text-data text-right px-4" 
@@ -957,6 +975,17 @@ export default function WorksheetItemsDialog({
           )}
         </div>
 
+        {items.some(item => item.formulaError) && (
+          <div className="mx-6 mb-2 rounded-md border border-destructive/50 px-4 py-2 text-data text-destructive" data-testid="panel-formula-errors">
+            {items.map(item => item.formulaError && (
+              <div key={item.id} className="flex items-start gap-2">
+                <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                <span>LQ {item.lq}: {item.formulaError}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="flex justify-between items-center px-6 py-4 border-t">
           <div className="flex gap-2">
             {showNewRow ? (
@@ -9,7 +9,7 @@ export default function RFICommentExample() {
         authorInitials="JS"
         timestamp="2 hours ago"
         content="We need clarification on the steel specifications mentioned in drawing A-101. The grade specified doesn't match our supplier's catalog."
-        attachments={[{ name: "reference-photo.jpg", url: "#" }]}
+        attachments={[{ name: "reference-photo.jpg", url: "#", size: 245760 }]}
       />
       <RFIComment
         id="2"
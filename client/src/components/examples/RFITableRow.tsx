@@ -11,8 +11,9 @@ export default function RFITableRowExample() {
               <th className="py-3 px-4 text-left text-sm font-medium">Title</th>
               <th className="py-3 px-4 text-left text-sm font-medium">To</th>
               <th className="py-3 px-4 text-left text-sm font-medium">Status</th>
+              <th className="py-3 px-4 text-left text-sm font-medium">Ball in Court</th>
               <th className="py-3 px-4 text-left text-sm font-medium">Required Date</th>
-              <th className="py-3 px-4 text-left text-sm font-medium">Days Open</th>
+              <th className="py-3 px-4 text-left text-sm font-medium">Days Outstanding</th>
               <th className="py-3 px-4 text-left text-sm font-medium">Last Activity</th>
             </tr>
           </thead>
@@ -22,9 +23,10 @@ export default function RFITableRowExample() {
               number="PROJ-001-RFI-0001"
               title="Clarification on structural steel specifications"
               to="ABC Engineering"
-              status="Open"
+              status="issued"
+              ballInCourt="recipient"
               requiredDate="15 Jan 25"
-              daysOpen={3}
+              daysOutstanding={3}
               isOverdue={false}
               lastActivity="2 hours ago"
             />
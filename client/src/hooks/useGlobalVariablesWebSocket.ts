@@ -59,6 +59,11 @@ export function useGlobalVariablesWebSocket(projectId: string | null) {
               queryKey: ['/api/projects', projectId, 'global-variables']
             });
             console.log('[GlobalVariablesWS] Invalidated global variables cache for project', projectId);
+
+            // Worksheet formulas referencing the variable were recalculated server-side
+            queryClient.invalidateQueries({
+              queryKey: ['/api/projects', projectId, 'worksheets']
+            });
           }
         } catch (error) {
           console.error('[GlobalVariablesWS] Error parsing message:', error);
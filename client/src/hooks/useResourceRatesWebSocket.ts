@@ -2,7 +2,7 @@ import { useEffect, useRef, useCallback, useState } from 'react';
 import { queryClient } from '@/lib/queryClient';
 
 interface WebSocketMessage {
-  type: 'connected' | 'subscribed' | 'resource_rate_created' | 'resource_rate_updated' | 'resource_rate_deleted';
+  type: 'connected' | 'subscribed' | 'resource_rate_created' | 'resource_rate_updated' | 'resource_rate_deleted' | 'worksheet_items_recalculated';
   data?: any;
   projectId?: string;
 }
@@ -60,6 +60,13 @@ export function useResourceRatesWebSocket(projectId: string | null) {
             });
             console.log('[ResourceRatesWS] Invalidated resource rates cache for project', projectId);
           }
+
+          // Worksheet formulas and totals depend on resource rate codes and tender rates
+          if (message.type === 'resource_rate_created' || message.type === 'resource_rate_updated' || message.type === 'resource_rate_deleted' || message.type === 'worksheet_items_recalculated') {
+            queryClient.invalidateQueries({
+              queryKey: ['/api/projects', projectId, 'worksheets']
+            });
+          }
         } catch (error) {
           console.error('[ResourceRatesWS] Error parsing message:', error);
         }
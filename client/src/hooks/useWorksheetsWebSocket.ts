@@ -2,7 +2,7 @@ import { useEffect, useRef, useCallback, useState } from 'react';
 import { queryClient } from '@/lib/queryClient';
 
 interface WebSocketMessage {
-  type: 'connected' | 'subscribed' | 'worksheet_created' | 'worksheet_updated' | 'worksheet_deleted';
+  type: 'connected' | 'subscribed' | 'worksheet_created' | 'worksheet_updated' | 'worksheet_deleted' | 'boq_items_updated';
   data?: any;
   projectId?: string;
 }
@@ -60,6 +60,14 @@ export function useWorksheetsWebSocket(projectId: string | null) {
             });
             console.log('[WorksheetsWS] Invalidated worksheets cache for project', projectId);
           }
+
+          // BOQ item rates re-derived from worksheet totals
+          if (message.type === 'boq_items_updated') {
+            queryClient.invalidateQueries({
+              queryKey: ['/api/projects', projectId, 'boq']
+            });
+            console.log('[WorksheetsWS] Invalidated BOQ cache for project', projectId);
+          }
         } catch (error) {
           console.error('[WorksheetsWS] Error parsing message:', error);
         }
@@ -3,8 +3,9 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Building2, Upload, Copy, Palette, Plus, GripVertical, Pencil, Trash2 } from "lucide-react";
+import { Building2, Upload, Copy, Palette, Plus, GripVertical, Pencil, Trash2, RefreshCw } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
 import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, type DragEndEvent } from '@dnd-kit/core';
 import { arrayMove, SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy, useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
@@ -20,6 +21,26 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import type { Company } from "@shared/schema";
 
+interface EmbeddingSettings {
+  provider: string;
+  activeProvider: string;
+  models: { general: string; legal: string };
+  stale: { emails: number; letters: number; contractPages: number };
+  job: {
+    status: 'running' | 'completed' | 'failed';
+    total: number;
+    processed: number;
+    failed: number;
+    error?: string;
+  } | null;
+}
+
+const EMBEDDING_PROVIDER_LABELS: Record<string, string> = {
+  voyage: 'Voyage AI',
+  openai: 'OpenAI',
+  local: 'Local model (offline)',
+};
+
 export default function CompanySettings({ hideHeader = false }: { hideHeader?: boolean } = {}) {
   const { terminology, updateTerminology } = useTerminology();
   const { selectedCompany } = useCompany();
@@ -50,6 +71,7 @@ export default function CompanySettings({ hideHeader = false }: { hideHeader?: b
     aiContractReviewModel: 'gpt-4o',
     aiLetterModel: 'gpt-4o',
   });
+  const [embeddingProvider, setEmbeddingProvider] = useState('voyage');
 
   // Load theme colors and AI settings from selected company
   useEffect(() => {
@@ -74,6 +96,19 @@ export default function CompanySettings({ hideHeader = false }: { hideHeader?: b
     }
   }, [selectedCompany]);
 
+  // Embedding provider and re-embedding progress (polled while a job runs)
+  const { data: embeddingSettings } = useQuery<EmbeddingSettings>({
+    queryKey: ['/api/companies', selectedCompany?.id, 'embedding-settings'],
+    enabled: !!selectedCompany,
+    refetchInterval: (query) => query?.state.data?.job?.status === 'running' ? 3000 : false,
+  });
+
+  useEffect(() => {
+    if (embeddingSettings) {
+      setEmbeddingProvider(embeddingSettings.provider);
+    }
+  }, [embeddingSettings?.provider]);
+
   // Fetch all companies for copy functionality
   const { data: companies = [] } = useQuery<Company[]>({
     queryKey: ['/api/companies'],
@@ -123,6 +158,52 @@ export default function CompanySettings({ hideHeader = false }: { hideHeader?: b
     },
   });
 
+  // Mutation to change the embedding provider (starts re-embedding existing documents)
+  const saveEmbeddingProviderMutation = useMutation({
+    mutationFn: async (provider: string) => {
+      if (!selectedCompany) throw new Error('No company selected');
+      return await apiRequest('PUT', `/api/companies/${selectedCompany.id}/embedding-settings`, { embeddingProvider: provider });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/companies', selectedCompany?.id, 'embedding-settings'] });
+      toast({
+        title: "Embedding provider saved",
+        description: "Existing documents are being re-embedded in the background",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error saving embedding provider",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation to re-embed documents left from a previous provider
+  const reindexEmbeddingsMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedCompany) throw new Error('No company selected');
+      return await apiRequest('POST', `/api/companies/${selectedCompany.id}/embedding-settings/reindex`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/companies', selectedCompany?.id, 'embedding-settings'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error starting re-embedding",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const staleEmbeddingCount = embeddingSettings
+    ? embeddingSettings.stale.emails + embeddingSettings.stale.letters + embeddingSettings.stale.contractPages
+    : 0;
+  const embeddingJob = embeddingSettings?.job;
+  const isReembedding = embeddingJob?.status === 'running';
+
   const handleSaveTerminology = () => {
     updateTerminology(lingoForm);
     toast({
@@ -450,6 +531,83 @@ export default function CompanySettings({ hideHeader = false }: { hideHeader?: b
         </CardContent>
       </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle>Search Embeddings</CardTitle>
+          </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Choose how documents are embedded for AI search in eDiscovery, correspondence and the contract viewer.
+            Changing provider re-embeds existing documents in the background.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="embedding-provider">Embedding Provider</Label>
+              <Select value={embeddingProvider} onValueChange={setEmbeddingProvider}>
+                <SelectTrigger id="embedding-provider" data-testid="select-embedding-provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="voyage">Voyage AI</SelectItem>
+                  <SelectItem value="openai">OpenAI</SelectItem>
+                  <SelectItem value="local">Local model (offline, no API key)</SelectItem>
+                </SelectContent>
+              </Select>
+              {embeddingSettings && embeddingSettings.activeProvider !== embeddingSettings.provider && (
+                <p className="text-xs text-amber-600" data-testid="text-embedding-fallback">
+                  The {EMBEDDING_PROVIDER_LABELS[embeddingSettings.provider]} API key is not configured, so the local model is used instead
+                </p>
+              )}
+            </div>
+
+            {embeddingSettings && (
+              <div className="space-y-1 text-sm" data-testid="text-embedding-models">
+                <Label>Models in use</Label>
+                <p className="text-muted-foreground">Emails: {embeddingSettings.models.general}</p>
+                <p className="text-muted-foreground">Letters and contracts: {embeddingSettings.models.legal}</p>
+              </div>
+            )}
+          </div>
+
+          {isReembedding && embeddingJob ? (
+            <div className="space-y-2" data-testid="status-embedding-reindex">
+              <div className="flex justify-between text-sm">
+                <span>Re-embedding documents...</span>
+                <span className="text-muted-foreground">{embeddingJob.processed + embeddingJob.failed} of {embeddingJob.total}</span>
+              </div>
+              <Progress value={embeddingJob.total > 0 ? ((embeddingJob.processed + embeddingJob.failed) / embeddingJob.total) * 100 : 0} />
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground" data-testid="text-stale-embeddings">
+              {staleEmbeddingCount > 0
+                ? `${staleEmbeddingCount} documents are not embedded with the current model and are left out of AI search until they are re-embedded.`
+                : 'All documents are embedded with the current model.'}
+              {embeddingJob?.status === 'failed' && ` The last re-embedding failed: ${embeddingJob.error}`}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2 pt-4 border-t">
+            <Button
+              variant="outline"
+              onClick={() => reindexEmbeddingsMutation.mutate()}
+              disabled={isReembedding || staleEmbeddingCount === 0 || reindexEmbeddingsMutation.isPending}
+              data-testid="button-reindex-embeddings"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Re-embed Now
+            </Button>
+            <Button
+              onClick={() => saveEmbeddingProviderMutation.mutate(embeddingProvider)}
+              disabled={!embeddingSettings || embeddingProvider === embeddingSettings.provider || saveEmbeddingProviderMutation.isPending}
+              data-testid="button-save-embedding-provider"
+            >
+              {saveEmbeddingProviderMutation.isPending ? 'Saving...' : 'Save Provider'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <div>
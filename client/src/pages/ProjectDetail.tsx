@@ -11,9 +11,11 @@ import { ContractReviewTable } from "@/components/ContractReviewTable";
 import { ImportContractDialog } from "@/components/ImportContractDialog";
 import { AIUsageLogDialog } from "@/components/AIUsageLogDialog";
 import { AILetterTab } from "@/components/AILetterTab";
+import { NoticeObligationsTab } from "@/components/NoticeObligationsTab";
 import { ProgramsTab } from "@/components/ProgramsTab";
 import { BOQTab } from "@/components/BOQTab";
 import { ProjectSettingsCard } from "@/components/ProjectSettingsCard";
+import { RFISlaSettingsCard } from "@/components/RFISlaSettingsCard";
 import { SubcontractTemplatesTab } from "@/components/SubcontractTemplatesTab";
 import RiskRegister from "@/pages/RiskRegister";
 import EDiscovery from "@/pages/eDiscovery";
@@ -79,7 +81,7 @@ export default function ProjectDetail() {
   const activeTemplate = templates.find((t: any) => t.isActive);
 
   // Calculate project statistics from real data
-  const openRFIs = projectRFIs.filter(rfi => rfi.status === "open").length;
+  const openRFIs = projectRFIs.filter(rfi => rfi.status === "issued").length;
   const overdueRFIs = projectRFIs.filter(rfi => rfi.isOverdue).length;
   const overdueRFIsList = projectRFIs.filter(rfi => rfi.isOverdue);
 
@@ -120,6 +122,7 @@ export default function ProjectDetail() {
         <TabsList className="w-full justify-start bg-transparent border-b rounded-none p-0 h-auto">
           <TabsTrigger value="overview" data-testid="tab-overview" className="text-sm font-medium rounded-none border-b-2 border-transparent data-[state=active]:border-blue-600 data-[state=active]:text-blue-600 data-[state=active]:shadow-none">Overview</TabsTrigger>
           <TabsTrigger value="contract" data-testid="tab-contract" className="text-sm font-medium rounded-none border-b-2 border-transparent data-[state=active]:border-blue-600 data-[state=active]:text-blue-600 data-[state=active]:shadow-none">Contract</TabsTrigger>
+          <TabsTrigger value="notices" data-testid="tab-notices" className="text-sm font-medium rounded-none border-b-2 border-transparent data-[state=active]:border-blue-600 data-[state=active]:text-blue-600 data-[state=active]:shadow-none">Notices</TabsTrigger>
           <TabsTrigger value="rfis" data-testid="tab-rfis" className="text-sm font-medium rounded-none border-b-2 border-transparent data-[state=active]:border-blue-600 data-[state=active]:text-blue-600 data-[state=active]:shadow-none">RFIs</TabsTrigger>
           <TabsTrigger value="risks" data-testid="tab-risks" className="text-sm font-medium rounded-none border-b-2 border-transparent data-[state=active]:border-blue-600 data-[state=active]:text-blue-600 data-[state=active]:shadow-none">Risks</TabsTrigger>
           <TabsTrigger value="team" data-testid="tab-team" className="text-sm font-medium rounded-none border-b-2 border-transparent data-[state=active]:border-blue-600 data-[state=active]:text-blue-600 data-[state=active]:shadow-none">Team</TabsTrigger>
@@ -193,10 +196,14 @@ export default function ProjectDetail() {
           )}
         </TabsContent>
 
+        <TabsContent value="notices" className="flex-1 overflow-auto">
+          <NoticeObligationsTab projectId={projectId || ""} />
+        </TabsContent>
+
         <TabsContent value="rfis" className="space-y-6">
           <div className="flex justify-between items-center">
             <h2 className="text-lg font-semibold">Project RFIs</h2>
-            <CreateRFIDialog />
+            <CreateRFIDialog projectId={project.id} />
           </div>
           {rfisLoading ? (
             <p className="text-muted-foreground">Loading RFIs...</p>
@@ -216,23 +223,16 @@ export default function ProjectDetail() {
                       <th className="py-3 px-4 text-left text-sm font-medium">Title</th>
                       <th className="py-3 px-4 text-left text-sm font-medium">To</th>
                       <th className="py-3 px-4 text-left text-sm font-medium">Status</th>
+                      <th className="py-3 px-4 text-left text-sm font-medium">Ball in Court</th>
                       <th className="py-3 px-4 text-left text-sm font-medium">Required Date</th>
-                      <th className="py-3 px-4 text-left text-sm font-medium">Days Open</th>
+                      <th className="py-3 px-4 text-left text-sm font-medium">Days Outstanding</th>
                       <th className="py-3 px-4 text-left text-sm font-medium">Last Activity</th>
                     </tr>
                   </thead>
                   <tbody>
                     {projectRFIs.map((rfi) => {
-                      const createdDate = new Date(rfi.createdAt);
-                      const now = new Date();
-                      const daysOpen = Math.floor((now.getTime() - createdDate.getTime()) / (1000 * 60 * 60 * 24));
                       const lastActivity = formatDate(rfi.updatedAt);
-                      
-                      const statusMap: Record<string, "Open" | "Awaiting Info" | "Responded" | "Closed"> = {
-                        "open": "Open",
-                        "answered": "Responded",
-                        "closed": "Closed"
-                      };
+                      const requiredDate = rfi.dueDate || rfi.slaDueDate;
                       
                       return (
                         <RFITableRow 
@@ -241,9 +241,10 @@ export default function ProjectDetail() {
                           number={rfi.rfiNumber}
                           title={rfi.title}
                           to={rfi.assignedTo || "N/A"}
-                          status={statusMap[rfi.status] || "Open"}
-                          requiredDate={rfi.dueDate ? formatDate(rfi.dueDate) : "N/A"}
-                          daysOpen={daysOpen}
+                          status={rfi.status}
+                          ballInCourt={rfi.ballInCourt}
+                          requiredDate={requiredDate ? formatDate(requiredDate) : "N/A"}
+                          daysOutstanding={rfi.daysOutstanding}
                           isOverdue={rfi.isOverdue}
                           lastActivity={lastActivity}
                         />
@@ -337,6 +338,9 @@ export default function ProjectDetail() {
             {/* Project Details */}
             <ProjectSettingsCard project={project} />
 
+            {/* RFI Response SLAs */}
+            <RFISlaSettingsCard projectId={project.id} />
+
             {/* System Logs & Activity */}
             <Card>
             <CardHeader>
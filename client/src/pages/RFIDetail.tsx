@@ -1,23 +1,30 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { RFIStatusBadge } from "@/components/RFIStatusBadge";
 import { RFIComment } from "@/components/RFIComment";
+import { RFIStatusActions } from "@/components/RFIStatusActions";
+import { RFIStatusHistory } from "@/components/RFIStatusHistory";
+import { RFIAttachmentList } from "@/components/RFIAttachmentList";
+import { RFIFilePicker } from "@/components/RFIFilePicker";
+import { RFIDocumentMenu } from "@/components/RFIDocumentMenu";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Paperclip, Send } from "lucide-react";
+import { ArrowLeft, Send, Upload } from "lucide-react";
 import { Link, useParams } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import type { RFI, RFICommentWithAuthor } from "@shared/schema";
+import type { RFI, RFIAttachment, RFICommentWithAuthor } from "@shared/schema";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { formatDate } from "@/lib/dateFormat";
 import { useAuth } from "@/contexts/AuthContext";
 import { queryKeys } from "@/api/queryKeys";
-import { useCreateRFIComment } from "@/api/mutations";
+import { useCreateRFIComment, useUploadRFIAttachments, useDeleteRFIAttachment } from "@/api/mutations";
 
 export default function RFIDetail() {
   const { id: rfiId } = useParams<{ id: string }>();
   const [newComment, setNewComment] = useState("");
+  const [commentFiles, setCommentFiles] = useState<File[]>([]);
+  const [rfiFiles, setRfiFiles] = useState<File[]>([]);
   const { toast } = useToast();
   const { currentUser } = useAuth();
 
@@ -43,19 +50,21 @@ export default function RFIDetail() {
       {
         userAccountId: currentUser.id,
         content: newComment,
+        files: commentFiles,
       },
       {
         onSuccess: () => {
           setNewComment("");
+          setCommentFiles([]);
           toast({
             title: "Comment posted",
             description: "Your comment has been added successfully.",
           });
         },
-        onError: () => {
+        onError: (error: any) => {
           toast({
             title: "Error",
-            description: "Failed to post comment. Please try again.",
+            description: error.message || "Failed to post comment. Please try again.",
             variant: "destructive",
           });
         },
@@ -63,6 +72,38 @@ export default function RFIDetail() {
     );
   };
 
+  const uploadAttachmentsMutation = useUploadRFIAttachments(rfiId || '', rfi?.projectId);
+  const deleteAttachmentMutation = useDeleteRFIAttachment(rfiId || '', rfi?.projectId);
+
+  const handleUploadAttachments = () => {
+    uploadAttachmentsMutation.mutate(
+      { files: rfiFiles },
+      {
+        onSuccess: () => setRfiFiles([]),
+        onError: (error: any) => {
+          toast({
+            title: "Upload failed",
+            description: error.message || "Failed to upload attachments",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleDeleteAttachment = (attachment: RFIAttachment) => {
+    if (!attachment.id || !confirm(`Remove ${attachment.name}?`)) return;
+    deleteAttachmentMutation.mutate(attachment.id, {
+      onError: (error: any) => {
+        toast({
+          title: "Error",
+          description: error.message || "Failed to remove attachment",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
   if (rfiLoading) {
     return (
       <div className="space-y-6 max-w-5xl">
@@ -102,7 +143,10 @@ export default function RFIDetail() {
             <p className="font-mono text-2xl font-bold" data-testid="text-rfi-number">{rfi.rfiNumber}</p>
             <h1 className="mt-2" data-testid="text-rfi-title">{rfi.title}</h1>
           </div>
-          <RFIStatusBadge status={rfi.status} />
+          <div className="flex items-center gap-2">
+            <RFIDocumentMenu rfi={rfi} />
+            <RFIStatusBadge status={rfi.status} />
+          </div>
         </div>
       </div>
 
@@ -133,6 +177,40 @@ export default function RFIDetail() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Attachments</CardTitle>
+              <span className="text-sm text-muted-foreground" data-testid="text-attachment-count">
+                {rfi.attachments?.length || 0}
+              </span>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {rfi.attachments && rfi.attachments.length > 0 ? (
+                <RFIAttachmentList attachments={rfi.attachments} onDelete={handleDeleteAttachment} />
+              ) : (
+                <p className="text-sm text-muted-foreground">No files attached</p>
+              )}
+              <div className="flex justify-between items-start gap-2 pt-4 border-t">
+                <RFIFilePicker
+                  files={rfiFiles}
+                  onChange={setRfiFiles}
+                  label="Add files"
+                  disabled={uploadAttachmentsMutation.isPending}
+                  testId="rfi-attachments"
+                />
+                <Button
+                  size="sm"
+                  onClick={handleUploadAttachments}
+                  disabled={rfiFiles.length === 0 || uploadAttachmentsMutation.isPending}
+                  data-testid="button-upload-attachments"
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  {uploadAttachmentsMutation.isPending ? 'Uploading...' : 'Upload'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle>Discussion Thread</CardTitle>
@@ -167,7 +245,7 @@ export default function RFIDetail() {
                       authorInitials={initials}
                       timestamp={formatDate(comment.createdAt)}
                       content={comment.content}
-                      attachments={comment.attachments as { name: string; url: string }[] | undefined}
+                      attachments={comment.attachments}
                     />
                   );
                 })
@@ -181,11 +259,14 @@ export default function RFIDetail() {
                   onChange={(e) => setNewComment(e.target.value)}
                   data-testid="textarea-add-comment"
                 />
-                <div className="flex justify-between items-center gap-2">
-                  <Button variant="ghost" size="sm" data-testid="button-attach-file">
-                    <Paperclip className="h-4 w-4 mr-2" />
-                    Attach file
-                  </Button>
+                <div className="flex justify-between items-start gap-2">
+                  <RFIFilePicker
+                    files={commentFiles}
+                    onChange={setCommentFiles}
+                    label="Attach file"
+                    disabled={postCommentMutation.isPending}
+                    testId="comment-files"
+                  />
                   <Button 
                     size="sm" 
                     onClick={handlePostComment}
@@ -225,6 +306,22 @@ export default function RFIDetail() {
                   <p className="font-medium" data-testid="text-due-date">{formatDate(rfi.dueDate)}</p>
                 </div>
               )}
+              {rfi.slaDueDate && (
+                <div>
+                  <p className="text-muted-foreground">SLA Response Due</p>
+                  <p className="font-medium" data-testid="text-sla-due-date">{formatDate(rfi.slaDueDate)}</p>
+                </div>
+              )}
+              <div>
+                <p className="text-muted-foreground">Ball in Court</p>
+                <p className="font-medium capitalize" data-testid="text-ball-in-court">{rfi.ballInCourt || "None (closed)"}</p>
+              </div>
+              {rfi.issuedAt && (
+                <div>
+                  <p className="text-muted-foreground">Days Outstanding</p>
+                  <p className="font-medium" data-testid="text-days-outstanding">{rfi.daysOutstanding}</p>
+                </div>
+              )}
               <div>
                 <p className="text-muted-foreground">Priority</p>
                 <p className="font-medium capitalize" data-testid="text-priority">{rfi.priority}</p>
@@ -237,12 +334,16 @@ export default function RFIDetail() {
               <CardTitle className="text-base">Actions</CardTitle>
             </CardHeader>
             <CardContent className="space-y-2">
-              <Button variant="outline" className="w-full" data-testid="button-mark-responded">
-                Mark as Responded
-              </Button>
-              <Button variant="outline" className="w-full" data-testid="button-close-rfi">
-                Close RFI
-              </Button>
+              <RFIStatusActions rfi={rfi} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Status History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RFIStatusHistory rfiId={rfi.id} />
             </CardContent>
           </Card>
         </div>
@@ -1,8 +1,11 @@
 import { RFITableRow } from "@/components/RFITableRow";
 import { CreateRFIDialog } from "@/components/CreateRFIDialog";
+import { RFIAgeingChart } from "@/components/RFIAgeingChart";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { Search, Download, Filter } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { useTerminology } from "@/contexts/TerminologyContext";
@@ -11,6 +14,7 @@ import { useCompany } from "@/contexts/CompanyContext";
 import { useQuery } from "@tanstack/react-query";
 import type { RFI, Project } from "@shared/schema";
 import { useState, useMemo } from "react";
+import { useToast } from "@/hooks/use-toast";
 import { formatDate } from "@/lib/dateFormat";
 
 export default function RFIs() {
@@ -19,6 +23,11 @@ export default function RFIs() {
   const { selectedProject, projects } = useProject();
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [ballInCourtFilter, setBallInCourtFilter] = useState("all");
+  const [priorityFilter, setPriorityFilter] = useState("all");
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
   
   const { data: allRFIs = [], isLoading } = useQuery<RFI[]>({
     queryKey: ["/api/rfis"],
@@ -49,12 +58,63 @@ export default function RFIs() {
     if (statusFilter !== "all") {
       rfis = rfis.filter(rfi => rfi.status === statusFilter);
     }
+
+    // Filter by who owes the next action
+    if (ballInCourtFilter !== "all") {
+      rfis = rfis.filter(rfi => rfi.ballInCourt === ballInCourtFilter);
+    }
+
+    if (priorityFilter !== "all") {
+      rfis = rfis.filter(rfi => rfi.priority === priorityFilter);
+    }
+
+    if (overdueOnly) {
+      rfis = rfis.filter(rfi => rfi.isOverdue);
+    }
     
     return rfis;
-  }, [allRFIs, projects, selectedProject, searchQuery, statusFilter]);
+  }, [allRFIs, projects, selectedProject, searchQuery, statusFilter, ballInCourtFilter, priorityFilter, overdueOnly]);
+
+  // Excel register of the RFIs shown, built server-side from the same filters
+  const handleExport = async () => {
+    const params = new URLSearchParams({
+      projectIds: selectedProject ? selectedProject.id : projects.map(p => p.id).join(","),
+      status: statusFilter,
+      ballInCourt: ballInCourtFilter,
+      priority: priorityFilter,
+    });
+    if (searchQuery) params.set("search", searchQuery);
+    if (overdueOnly) params.set("overdue", "true");
+
+    setExporting(true);
+    try {
+      const response = await fetch(`/api/rfis/export?${params}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Export failed");
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${selectedProject ? selectedProject.projectCode : "RFI"}_Register.xlsx`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: "Could not export the RFI register.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
 
   const overdueCount = filteredRFIs.filter(rfi => rfi.isOverdue).length;
-  const openCount = filteredRFIs.filter(rfi => rfi.status === "open").length;
+  const draftCount = filteredRFIs.filter(rfi => rfi.status === "draft").length;
+  const issuedCount = filteredRFIs.filter(rfi => rfi.status === "issued").length;
+  const respondedCount = filteredRFIs.filter(rfi => rfi.status === "responded").length;
 
   return (
     <div className="space-y-6">
@@ -64,7 +124,12 @@ export default function RFIs() {
           <p className="text-sm text-muted-foreground mt-1">Request for Information management</p>
         </div>
         <div className="flex gap-2">
-          <Button variant="outline" data-testid="button-export-rfis">
+          <Button
+            variant="outline"
+            onClick={handleExport}
+            disabled={exporting || filteredRFIs.length === 0}
+            data-testid="button-export-rfis"
+          >
             <Download className="h-4 w-4 mr-2" />
             Export
           </Button>
@@ -73,8 +138,14 @@ export default function RFIs() {
       </div>
 
       <div className="flex gap-3">
+        <Badge variant="outline">
+          {draftCount} Draft
+        </Badge>
         <Badge variant="primary">
-          {openCount} Open
+          {issuedCount} Issued
+        </Badge>
+        <Badge variant="success">
+          {respondedCount} Responded
         </Badge>
         <Badge variant="destructive">
           {overdueCount} Overdue
@@ -98,14 +169,46 @@ export default function RFIs() {
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Status</SelectItem>
-            <SelectItem value="open">Open</SelectItem>
-            <SelectItem value="awaiting">Awaiting Info</SelectItem>
+            <SelectItem value="draft">Draft</SelectItem>
+            <SelectItem value="issued">Issued</SelectItem>
             <SelectItem value="responded">Responded</SelectItem>
             <SelectItem value="closed">Closed</SelectItem>
           </SelectContent>
         </Select>
+        <Select value={ballInCourtFilter} onValueChange={setBallInCourtFilter}>
+          <SelectTrigger className="w-[180px]" data-testid="select-filter-rfi-ball-in-court">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any Ball in Court</SelectItem>
+            <SelectItem value="originator">With Originator</SelectItem>
+            <SelectItem value="recipient">With Recipient</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+          <SelectTrigger className="w-[160px]" data-testid="select-filter-rfi-priority">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Priorities</SelectItem>
+            <SelectItem value="high">High</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="low">Low</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="rfi-overdue-only"
+            checked={overdueOnly}
+            onCheckedChange={setOverdueOnly}
+            data-testid="switch-filter-rfi-overdue"
+          />
+          <Label htmlFor="rfi-overdue-only" className="text-sm">Overdue only</Label>
+        </div>
       </div>
 
+      {filteredRFIs.length > 0 && <RFIAgeingChart rfis={filteredRFIs} />}
+
       {isLoading ? (
         <div className="text-center py-12">
           <p className="text-muted-foreground">Loading RFIs...</p>
@@ -128,24 +231,17 @@ export default function RFIs() {
                   <th className="px-4 text-left text-sm font-medium" style={{ paddingTop: 'var(--row-py)', paddingBottom: 'var(--row-py)' }}>Title</th>
                   <th className="px-4 text-left text-sm font-medium" style={{ paddingTop: 'var(--row-py)', paddingBottom: 'var(--row-py)' }}>To</th>
                   <th className="px-4 text-left text-sm font-medium" style={{ paddingTop: 'var(--row-py)', paddingBottom: 'var(--row-py)' }}>Status</th>
+                  <th className="px-4 text-left text-sm font-medium" style={{ paddingTop: 'var(--row-py)', paddingBottom: 'var(--row-py)' }}>Ball in Court</th>
                   <th className="px-4 text-left text-sm font-medium" style={{ paddingTop: 'var(--row-py)', paddingBottom: 'var(--row-py)' }}>Required Date</th>
-                  <th className="px-4 text-left text-sm font-medium" style={{ paddingTop: 'var(--row-py)', paddingBottom: 'var(--row-py)' }}>Days Open</th>
+                  <th className="px-4 text-left text-sm font-medium" style={{ paddingTop: 'var(--row-py)', paddingBottom: 'var(--row-py)' }}>Days Outstanding</th>
                   <th className="px-4 text-left text-sm font-medium" style={{ paddingTop: 'var(--row-py)', paddingBottom: 'var(--row-py)' }}>Last Activity</th>
                 </tr>
               </thead>
               <tbody>
                 {filteredRFIs.map((rfi) => {
                   // Transform database RFI to component props
-                  const createdDate = new Date(rfi.createdAt);
-                  const now = new Date();
-                  const daysOpen = Math.floor((now.getTime() - createdDate.getTime()) / (1000 * 60 * 60 * 24));
                   const lastActivity = formatDate(rfi.updatedAt);
-                  
-                  const statusMap: Record<string, "Open" | "Awaiting Info" | "Responded" | "Closed"> = {
-                    "open": "Open",
-                    "answered": "Responded",
-                    "closed": "Closed"
-                  };
+                  const requiredDate = rfi.dueDate || rfi.slaDueDate;
                   
                   return (
                     <RFITableRow 
@@ -154,9 +250,10 @@ export default function RFIs() {
                       number={rfi.rfiNumber}
                       title={rfi.title}
                       to={rfi.assignedTo || "N/A"}
-                      status={statusMap[rfi.status] || "Open"}
-                      requiredDate={rfi.dueDate ? formatDate(rfi.dueDate) : "N/A"}
-                      daysOpen={daysOpen}
+                      status={rfi.status}
+                      ballInCourt={rfi.ballInCourt}
+                      requiredDate={requiredDate ? formatDate(requiredDate) : "N/A"}
+                      daysOutstanding={rfi.daysOutstanding}
                       isOverdue={rfi.isOverdue}
                       lastActivity={lastActivity}
                     />
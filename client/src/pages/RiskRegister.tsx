@@ -132,6 +132,9 @@ type Risk = {
   likelyP50: number | null;
   pessimisticP90: number | null;
   probability: number | null;
+  scheduleOptimisticP10: number | null;
+  scheduleLikelyP50: number | null;
+  schedulePessimisticP90: number | null;
   distributionModel: string | null;
   isDistributionAiSelected: boolean;
   treatmentDescription: string | null;
@@ -207,6 +210,9 @@ const ALL_RISK_COLUMNS: RiskColumn[] = [
   { id: "pessimisticP90", label: "Pessimistic (P90)", defaultVisible: false },
   { id: "probability", label: "Prob %", defaultVisible: false },
   { id: "expectedValue", label: "(Prob % x Likely)", defaultVisible: false },
+  { id: "scheduleOptimisticP10", label: "Time Optimistic (P10)", defaultVisible: false },
+  { id: "scheduleLikelyP50", label: "Time Likely (P50)", defaultVisible: false },
+  { id: "schedulePessimisticP90", label: "Time Pessimistic (P90)", defaultVisible: false },
   { id: "distributionModel", label: "Distribution Model", defaultVisible: false },
   { id: "treatmentDescription", label: "Treatment Description", defaultVisible: false },
   { id: "treatmentOwner", label: "Treatment Owner", defaultVisible: false },
@@ -219,7 +225,10 @@ const NUMERIC_COLUMNS = new Set([
   "likelyP50", 
   "pessimisticP90",
   "probability",
-  "expectedValue"
+  "expectedValue",
+  "scheduleOptimisticP10",
+  "scheduleLikelyP50",
+  "schedulePessimisticP90"
 ]);
 
 const DEFAULT_VISIBLE_COLUMNS = ALL_RISK_COLUMNS
@@ -1085,6 +1094,306 @@ function ConsequenceRatingsSettings({ projectId }: { projectId: string }) {
   );
 }
 
+// Risk Correlation Groups Settings Component
+type RiskCorrelationGroup = {
+  id: string;
+  projectId: string;
+  name: string;
+  correlation: number; // Rank correlation coefficient (0-100)
+  riskIds: string[];
+  createdAt: string;
+};
+
+function RiskCorrelationSettings({ projectId, risks }: { projectId: string; risks: Risk[] }) {
+  const { toast } = useToast();
+  const [newGroupName, setNewGroupName] = useState("");
+  const [newGroupCorrelation, setNewGroupCorrelation] = useState("70");
+  const [deleteGroupId, setDeleteGroupId] = useState<string | null>(null);
+
+  const groupsQueryKey = ['/api/projects', projectId, 'risk-correlation-groups'];
+
+  const { data: groups = [], isLoading } = useQuery<RiskCorrelationGroup[]>({
+    queryKey: groupsQueryKey,
+    enabled: !!projectId,
+  });
+
+  const onMutationError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createGroupMutation = useMutation({
+    mutationFn: async (data: { name: string; correlation: number }) => {
+      return await apiRequest('POST', `/api/projects/${projectId}/risk-correlation-groups`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: groupsQueryKey });
+      setNewGroupName("");
+      setNewGroupCorrelation("70");
+    },
+    onError: onMutationError("Failed to create correlation group"),
+  });
+
+  const updateGroupMutation = useMutation({
+    mutationFn: async ({ groupId, ...data }: { groupId: string; name?: string; correlation?: number }) => {
+      return await apiRequest('PATCH', `/api/risk-correlation-groups/${groupId}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: groupsQueryKey });
+    },
+    onError: onMutationError("Failed to update correlation group"),
+  });
+
+  const updateMembersMutation = useMutation({
+    mutationFn: async ({ groupId, riskIds }: { groupId: string; riskIds: string[] }) => {
+      return await apiRequest('PUT', `/api/risk-correlation-groups/${groupId}/members`, { riskIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: groupsQueryKey });
+    },
+    onError: onMutationError("Failed to update group members"),
+  });
+
+  const deleteGroupMutation = useMutation({
+    mutationFn: async (groupId: string) => {
+      return await apiRequest('DELETE', `/api/risk-correlation-groups/${groupId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: groupsQueryKey });
+      setDeleteGroupId(null);
+    },
+    onError: (error: any) => {
+      onMutationError("Failed to delete correlation group")(error);
+      setDeleteGroupId(null);
+    },
+  });
+
+  const parseCorrelation = (value: string): number | null => {
+    const numValue = parseInt(value);
+    if (isNaN(numValue) || numValue < 0 || numValue > 100) {
+      toast({
+        title: "Validation Error",
+        description: "Correlation must be a whole number between 0 and 100",
+        variant: "destructive",
+      });
+      return null;
+    }
+    return numValue;
+  };
+
+  const handleAddGroup = () => {
+    const trimmedName = newGroupName.trim();
+    if (!trimmedName) {
+      toast({
+        title: "Validation Error",
+        description: "Group name cannot be empty",
+        variant: "destructive",
+      });
+      return;
+    }
+    const correlation = parseCorrelation(newGroupCorrelation);
+    if (correlation === null) return;
+    createGroupMutation.mutate({ name: trimmedName, correlation });
+  };
+
+  const toggleMember = (group: RiskCorrelationGroup, riskId: string, checked: boolean) => {
+    const riskIds = checked
+      ? [...group.riskIds, riskId]
+      : group.riskIds.filter(id => id !== riskId);
+    updateMembersMutation.mutate({ groupId: group.id, riskIds });
+  };
+
+  // Only members in the revision being viewed are shown; other revisions keep their own copies
+  const riskById = new Map(risks.map(r => [r.id, r]));
+  const sortedRisks = [...risks].sort((a, b) => a.riskNumber.localeCompare(b.riskNumber, undefined, { numeric: true }));
+
+  if (isLoading) {
+    return <div className="text-sm text-muted-foreground">Loading correlation groups...</div>;
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-4">
+        <div>
+          <h3 className="mb-1">Correlation Groups (Monte Carlo)</h3>
+          <p className="text-sm text-muted-foreground">
+            Risks in the same group are rank-correlated during simulation, so weather, productivity or market risks move together instead of averaging out
+          </p>
+        </div>
+
+        <div className="flex items-end gap-2 flex-wrap">
+          <div className="space-y-1 flex-1 min-w-[200px] max-w-[320px]">
+            <Label htmlFor="new-correlation-group-name" className="text-xs">Group Name</Label>
+            <Input
+              id="new-correlation-group-name"
+              value={newGroupName}
+              onChange={(e) => setNewGroupName(e.target.value)}
+              placeholder="e.g., Weather"
+              className="h-9"
+              data-testid="input-new-correlation-group-name"
+            />
+          </div>
+          <div className="space-y-1 w-[140px]">
+            <Label htmlFor="new-correlation-group-coefficient" className="text-xs">Correlation (0-100)</Label>
+            <Input
+              id="new-correlation-group-coefficient"
+              type="number"
+              min="0"
+              max="100"
+              value={newGroupCorrelation}
+              onChange={(e) => setNewGroupCorrelation(e.target.value)}
+              className="h-9"
+              data-testid="input-new-correlation-group-coefficient"
+            />
+          </div>
+          <Button
+            size="sm"
+            onClick={handleAddGroup}
+            disabled={createGroupMutation.isPending}
+            data-testid="button-add-correlation-group"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Group
+          </Button>
+        </div>
+
+        {groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">
+            No correlation groups. All risks are sampled independently.
+          </p>
+        ) : (
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[180px]">Group</TableHead>
+                  <TableHead className="w-[140px]">Correlation</TableHead>
+                  <TableHead>Member Risks</TableHead>
+                  <TableHead className="w-[50px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map((group) => {
+                  const members = group.riskIds.map(id => riskById.get(id)).filter((r): r is Risk => !!r);
+                  return (
+                    <TableRow key={group.id} data-testid={`row-correlation-group-${group.id}`}>
+                      <TableCell>
+                        <Input
+                          defaultValue={group.name}
+                          className="h-8"
+                          onBlur={(e) => {
+                            const name = e.target.value.trim();
+                            if (name && name !== group.name) {
+                              updateGroupMutation.mutate({ groupId: group.id, name });
+                            }
+                          }}
+                          data-testid={`input-correlation-group-name-${group.id}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          defaultValue={group.correlation}
+                          className="h-8"
+                          onBlur={(e) => {
+                            if (e.target.value === String(group.correlation)) return;
+                            const correlation = parseCorrelation(e.target.value);
+                            if (correlation !== null) {
+                              updateGroupMutation.mutate({ groupId: group.id, correlation });
+                            }
+                          }}
+                          data-testid={`input-correlation-group-coefficient-${group.id}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-auto min-h-8 w-full justify-start flex-wrap gap-1 py-1"
+                              data-testid={`button-correlation-group-members-${group.id}`}
+                            >
+                              {members.length > 0 ? (
+                                members.map(r => (
+                                  <Badge key={r.id} variant="outline" className="font-mono">
+                                    {r.riskNumber}
+                                  </Badge>
+                                ))
+                              ) : (
+                                <span className="text-muted-foreground">Select risks...</span>
+                              )}
+                            </Button>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-[360px] p-2" align="start">
+                            <div className="max-h-[300px] overflow-y-auto space-y-1">
+                              {sortedRisks.map(risk => (
+                                <label
+                                  key={risk.id}
+                                  className="flex items-center gap-2 px-2 py-1 rounded hover-elevate cursor-pointer text-sm"
+                                >
+                                  <Checkbox
+                                    checked={group.riskIds.includes(risk.id)}
+                                    onCheckedChange={(checked) => toggleMember(group, risk.id, checked === true)}
+                                    disabled={updateMembersMutation.isPending}
+                                    data-testid={`checkbox-correlation-member-${group.id}-${risk.id}`}
+                                  />
+                                  <span className="font-mono text-xs">{risk.riskNumber}</span>
+                                  <span className="truncate">{risk.title}</span>
+                                </label>
+                              ))}
+                            </div>
+                          </PopoverContent>
+                        </Popover>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => setDeleteGroupId(group.id)}
+                          data-testid={`button-delete-correlation-group-${group.id}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={!!deleteGroupId} onOpenChange={(open) => !open && setDeleteGroupId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Correlation Group</AlertDialogTitle>
+            <AlertDialogDescription>
+              Risks in this group will be sampled independently in future simulations.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-correlation-group">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteGroupId && deleteGroupMutation.mutate(deleteGroupId)}
+              data-testid="button-confirm-delete-correlation-group"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
 export default function RiskRegister() {
   const { selectedProject } = useProject();
   const { selectedCompany } = useCompany();
@@ -1658,6 +1967,9 @@ export default function RiskRegister() {
         likelyP50: editRiskData.likelyP50,
         pessimisticP90: editRiskData.pessimisticP90,
         probability: editRiskData.probability,
+        scheduleOptimisticP10: editRiskData.scheduleOptimisticP10,
+        scheduleLikelyP50: editRiskData.scheduleLikelyP50,
+        schedulePessimisticP90: editRiskData.schedulePessimisticP90,
         distributionModel: editRiskData.distributionModel,
         isDistributionAiSelected: editRiskData.isDistributionAiSelected,
         treatmentDescription: editRiskData.treatmentDescription,
@@ -2146,6 +2458,12 @@ export default function RiskRegister() {
         return risk.pessimisticP90 != null ? `$${risk.pessimisticP90.toLocaleString()}` : "-";
       case "probability":
         return risk.probability != null ? `${risk.probability}%` : "-";
+      case "scheduleOptimisticP10":
+        return risk.scheduleOptimisticP10 != null ? `${risk.scheduleOptimisticP10}d` : "-";
+      case "scheduleLikelyP50":
+        return risk.scheduleLikelyP50 != null ? `${risk.scheduleLikelyP50}d` : "-";
+      case "schedulePessimisticP90":
+        return risk.schedulePessimisticP90 != null ? `${risk.schedulePessimisticP90}d` : "-";
       case "expectedValue":
         // Calculate (Prob % x Likely) = (probability / 100 * likelyP50)
         if (risk.probability != null && risk.likelyP50 != null) {
@@ -2951,6 +3269,50 @@ export default function RiskRegister() {
                 />
               </div>
             </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-schedule-p10">Time Optimistic (P10) days</Label>
+                <Input
+                  id="edit-schedule-p10"
+                  type="number"
+                  value={editRiskData.scheduleOptimisticP10 ?? ""}
+                  onChange={(e) => setEditRiskData({ ...editRiskData, scheduleOptimisticP10: e.target.value ? parseInt(e.target.value) : null })}
+                  onBlur={(e) => {
+                    const value = e.target.value ? parseInt(e.target.value) : null;
+                    autoSaveField('scheduleOptimisticP10', value);
+                  }}
+                  data-testid="input-edit-schedule-p10"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-schedule-p50">Time Likely (P50) days</Label>
+                <Input
+                  id="edit-schedule-p50"
+                  type="number"
+                  value={editRiskData.scheduleLikelyP50 ?? ""}
+                  onChange={(e) => setEditRiskData({ ...editRiskData, scheduleLikelyP50: e.target.value ? parseInt(e.target.value) : null })}
+                  onBlur={(e) => {
+                    const value = e.target.value ? parseInt(e.target.value) : null;
+                    autoSaveField('scheduleLikelyP50', value);
+                  }}
+                  data-testid="input-edit-schedule-p50"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-schedule-p90">Time Pessimistic (P90) days</Label>
+                <Input
+                  id="edit-schedule-p90"
+                  type="number"
+                  value={editRiskData.schedulePessimisticP90 ?? ""}
+                  onChange={(e) => setEditRiskData({ ...editRiskData, schedulePessimisticP90: e.target.value ? parseInt(e.target.value) : null })}
+                  onBlur={(e) => {
+                    const value = e.target.value ? parseInt(e.target.value) : null;
+                    autoSaveField('schedulePessimisticP90', value);
+                  }}
+                  data-testid="input-edit-schedule-p90"
+                />
+              </div>
+            </div>
             <div className="space-y-2">
               <Label htmlFor="edit-distribution-model">Distribution Model (Monte Carlo)</Label>
               <div className="flex gap-2">
@@ -3079,6 +3441,7 @@ export default function RiskRegister() {
             <>
               <ProjectRiskSettings projectId={selectedProject.id} />
               <ConsequenceRatingsSettings projectId={selectedProject.id} />
+              <RiskCorrelationSettings projectId={selectedProject.id} risks={risks ?? []} />
             </>
           )}
         </TabsContent>
@@ -31,7 +31,7 @@ import { useToast } from "@/hooks/use-toast";
 import { 
   Upload, Search, Mail, Paperclip, Clock, CheckCircle2, XCircle, 
   Loader2, FileText, RefreshCw, Download, X, Sparkles, Tag, Plus,
-  AlertCircle, Calendar as CalendarIcon, GripHorizontal
+  AlertCircle, Calendar as CalendarIcon, GripHorizontal, MessagesSquare, Copy, Gavel
 } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { format } from "date-fns";
@@ -44,6 +44,8 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
+import { EdiscoveryProductionSetsDialog } from "@/components/EdiscoveryProductionSetsDialog";
+import { HighlightedSnippet } from "@/components/HighlightedSnippet";
 
 interface EdiscoveryUpload {
   id: string;
@@ -71,6 +73,18 @@ interface EdiscoveryEmail {
   hasAttachments: boolean;
   sourceFilename?: string;
   similarity?: number;
+  highlight?: string;
+  threadId?: string;
+  threadSize?: number;
+  threadMatchCount?: number;
+  isInclusive?: boolean;
+  duplicateOfId?: string;
+  duplicateType?: "exact" | "near";
+}
+
+interface EmailThread {
+  threadId?: string;
+  items: Array<EdiscoveryEmail & { duplicateSimilarity?: number }>;
 }
 
 interface EmailTag {
@@ -92,6 +106,7 @@ interface EmailDetails {
     filename: string;
     sizeBytes: number;
     contentType?: string;
+    hasText?: boolean;
   }>;
 }
 
@@ -188,6 +203,9 @@ export default function EDiscovery() {
   const [senderFilter, setSenderFilter] = useState("all");
   const [hasAttachmentsFilter, setHasAttachmentsFilter] = useState<boolean | undefined>(undefined);
   const [sourceFilenameFilter, setSourceFilenameFilter] = useState("");
+  const [collapseThreads, setCollapseThreads] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [productionSetsOpen, setProductionSetsOpen] = useState(false);
   
   // Selection state
   const [selectedEmail, setSelectedEmail] = useState<string | null>(null);
@@ -241,7 +259,7 @@ export default function EDiscovery() {
     items: EdiscoveryEmail[];
     total: number;
   }>({
-    queryKey: ["/api/ediscovery/emails", selectedProject?.id, dateFrom, dateTo, senderFilter, hasAttachmentsFilter],
+    queryKey: ["/api/ediscovery/emails", selectedProject?.id, dateFrom, dateTo, senderFilter, hasAttachmentsFilter, collapseThreads, showDuplicates],
     queryFn: async () => {
       if (!selectedProject?.id) return { items: [], total: 0 };
       
@@ -262,6 +280,12 @@ export default function EDiscovery() {
       if (hasAttachmentsFilter === true) {
         params.append('hasAttachments', 'true');
       }
+      if (collapseThreads) {
+        params.append('collapseThreads', 'true');
+      }
+      if (showDuplicates) {
+        params.append('includeDuplicates', 'true');
+      }
       
       const response = await fetch(`/api/ediscovery/emails?${params.toString()}`, {
         credentials: "include",
@@ -306,7 +330,7 @@ export default function EDiscovery() {
     items: EdiscoveryEmail[];
     total: number;
   }>({
-    queryKey: ["/api/ediscovery/semantic-search", aiQuery, selectedProject?.id, sourceFilenameFilter, dateFrom, dateTo, senderFilter, hasAttachmentsFilter],
+    queryKey: ["/api/ediscovery/semantic-search", aiQuery, selectedProject?.id, sourceFilenameFilter, dateFrom, dateTo, senderFilter, hasAttachmentsFilter, showDuplicates],
     queryFn: async () => {
       const response = await apiRequest(
         "POST",
@@ -319,6 +343,7 @@ export default function EDiscovery() {
           dateTo: dateTo ? format(dateTo, "yyyy-MM-dd") : undefined,
           sender: senderFilter && senderFilter !== "all" ? senderFilter : undefined,
           hasAttachments: hasAttachmentsFilter,
+          includeDuplicates: showDuplicates,
           limit: 100,
         }
       );
@@ -333,6 +358,12 @@ export default function EDiscovery() {
     enabled: !!selectedEmail,
   });
 
+  // Fetch the selected email's thread (other messages and copies from overlapping PSTs)
+  const { data: emailThread } = useQuery<EmailThread>({
+    queryKey: ["/api/ediscovery/emails", selectedEmail, "thread"],
+    enabled: !!selectedEmail,
+  });
+
   // Fetch tags for selected email
   const { data: emailTags = [] } = useQuery<EmailTag[]>({
     queryKey: ["/api/ediscovery/emails", selectedEmail, "tags"],
@@ -425,11 +456,15 @@ export default function EDiscovery() {
 
       if (!response.ok) throw new Error("Export failed");
 
+      // Emails with attachments are exported as a ZIP of the PDF and the attachment files
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `email_export_${Date.now()}.pdf`;
+
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `email_export_${Date.now()}.pdf`;
+      a.download = filename;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -450,6 +485,28 @@ export default function EDiscovery() {
     },
   });
 
+  // Re-thread and de-duplicate emails already ingested for the project
+  const rebuildThreadsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/ediscovery/rebuild-threads/${selectedProject?.id}`, {});
+      return response.json() as Promise<{ emailCount: number; threadCount: number; duplicateCount: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ediscovery/emails"] });
+      toast({
+        title: "Threads Rebuilt",
+        description: `${result.emailCount} emails grouped into ${result.threadCount} threads, ${result.duplicateCount} duplicates found.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Rebuild Failed",
+        description: "Could not rebuild email threads.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleAiSearch = () => {
     if (!aiQuery.trim()) {
       toast({
@@ -511,6 +568,39 @@ export default function EDiscovery() {
                 </div>
               )}
             </div>
+            <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setProductionSetsOpen(true)}
+              className="h-7 text-xs"
+              data-testid="button-production-sets"
+            >
+              <Gavel className="h-3 w-3 mr-1" />
+              Production Sets
+            </Button>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => rebuildThreadsMutation.mutate()}
+                  disabled={rebuildThreadsMutation.isPending}
+                  className="h-7 text-xs"
+                  data-testid="button-rebuild-threads"
+                >
+                  {rebuildThreadsMutation.isPending ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <MessagesSquare className="h-3 w-3 mr-1" />
+                  )}
+                  Rebuild Threads
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Regroup conversations and detect duplicates across all PST files</p>
+              </TooltipContent>
+            </Tooltip>
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
@@ -541,6 +631,7 @@ export default function EDiscovery() {
                 <p>Scan SharePoint folder for new PST email files</p>
               </TooltipContent>
             </Tooltip>
+            </div>
           </div>
 
           {scanResults?.error && (
@@ -723,7 +814,8 @@ export default function EDiscovery() {
                     </Button>
                   </TooltipTrigger>
                   <TooltipContent>
-                    <p>AI-powered semantic search using keywords and context</p>
+                    <p>AI-powered search combining keywords and meaning</p>
+                    <p className="text-xs text-muted-foreground">Supports "exact phrases", OR, -exclude and delay NEAR/5 notice</p>
                   </TooltipContent>
                 </Tooltip>
               </div>
@@ -879,6 +971,42 @@ export default function EDiscovery() {
                     <p>Show only emails with attachments</p>
                   </TooltipContent>
                 </Tooltip>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <div className="flex items-center gap-2 h-8">
+                      <Checkbox
+                        id="collapse-threads"
+                        checked={collapseThreads}
+                        onCheckedChange={(checked) => setCollapseThreads(checked === true)}
+                        data-testid="checkbox-collapse-threads"
+                      />
+                      <Label htmlFor="collapse-threads" className="text-xs text-muted-foreground cursor-pointer">
+                        <MessagesSquare className="h-3 w-3" />
+                      </Label>
+                    </div>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Collapse each thread to its most inclusive email</p>
+                  </TooltipContent>
+                </Tooltip>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <div className="flex items-center gap-2 h-8">
+                      <Checkbox
+                        id="show-duplicates"
+                        checked={showDuplicates}
+                        onCheckedChange={(checked) => setShowDuplicates(checked === true)}
+                        data-testid="checkbox-show-duplicates"
+                      />
+                      <Label htmlFor="show-duplicates" className="text-xs text-muted-foreground cursor-pointer">
+                        <Copy className="h-3 w-3" />
+                      </Label>
+                    </div>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Show duplicate copies from overlapping PST files</p>
+                  </TooltipContent>
+                </Tooltip>
               </div>
 
               {/* Email count display */}
@@ -890,7 +1018,7 @@ export default function EDiscovery() {
               ) : allEmails ? (
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <Mail className="h-4 w-4" />
-                  <span>Showing {allEmails.total} emails (sorted by date)</span>
+                  <span>Showing {allEmails.total} {collapseThreads ? "threads" : "emails"} (sorted by date)</span>
                 </div>
               ) : null}
             </div>
@@ -985,12 +1113,26 @@ export default function EDiscovery() {
                         </TableCell>
                         <TableCell className="truncate">
                           {email.subject || "(No Subject)"}
+                          {aiSearchResults && (
+                            <HighlightedSnippet text={email.highlight} className="whitespace-normal line-clamp-2 mt-0.5" />
+                          )}
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
                             {email.hasAttachments && (
                               <Paperclip className="h-3 w-3 text-muted-foreground" />
                             )}
+                            {(email.threadSize ?? 0) > 1 && (
+                              <span className="flex items-center gap-0.5 text-muted-foreground" title={`${email.threadSize} emails in thread`}>
+                                <MessagesSquare className="h-3 w-3" />
+                                {email.threadSize}
+                              </span>
+                            )}
+                            {email.duplicateType && (
+                              <Badge variant="outline" className="text-xs px-1">
+                                {email.duplicateType === "exact" ? "Duplicate" : "Near duplicate"}
+                              </Badge>
+                            )}
                             {email.similarity && (
                               <Badge variant="secondary" className="text-xs">
                                 {Math.round(email.similarity * 100)}%
@@ -1119,13 +1261,54 @@ export default function EDiscovery() {
                       <Label className="text-xs text-muted-foreground">Attachments ({emailDetails.attachments.length})</Label>
                       <div className="flex flex-wrap gap-2">
                         {emailDetails.attachments.map((att) => (
-                          <Badge key={att.id} variant="outline" className="gap-1">
-                            <Paperclip className="h-3 w-3" />
-                            <span className="text-xs">{att.filename}</span>
-                            <span className="text-xs text-muted-foreground">
-                              ({(att.sizeBytes / 1024).toFixed(1)} KB)
+                          <a
+                            key={att.id}
+                            href={`/api/ediscovery/emails/${selectedEmail}/attachments/${att.id}/download`}
+                            title={att.hasText ? "Download (text indexed for search)" : "Download"}
+                            data-testid={`link-attachment-${att.id}`}
+                          >
+                            <Badge variant="outline" className="gap-1 cursor-pointer hover:bg-muted">
+                              <Paperclip className="h-3 w-3" />
+                              <span className="text-xs">{att.filename}</span>
+                              <span className="text-xs text-muted-foreground">
+                                ({(att.sizeBytes / 1024).toFixed(1)} KB)
+                              </span>
+                              <Download className="h-3 w-3 text-muted-foreground" />
+                            </Badge>
+                          </a>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Thread: other messages and copies of this email */}
+                  {emailThread && emailThread.items.length > 1 && (
+                    <div className="space-y-2">
+                      <Label className="text-xs text-muted-foreground">Thread ({emailThread.items.length})</Label>
+                      <div className="max-h-32 overflow-y-auto space-y-1">
+                        {emailThread.items.map((item) => (
+                          <button
+                            key={item.id}
+                            type="button"
+                            onClick={() => setSelectedEmail(item.id)}
+                            className={cn(
+                              "w-full flex items-center gap-2 text-xs text-left px-2 py-1 rounded",
+                              item.id === selectedEmail ? "bg-accent" : "hover-elevate"
+                            )}
+                            data-testid={`thread-email-${item.id}`}
+                          >
+                            <span className="text-muted-foreground w-20 shrink-0">
+                              {item.sentAt ? format(new Date(item.sentAt), "dd MMM yyyy") : "No date"}
                             </span>
-                          </Badge>
+                            <span className="truncate flex-1">{item.fromAddress || "Unknown"}</span>
+                            {item.duplicateType ? (
+                              <Badge variant="outline" className="text-xs px-1">
+                                {item.duplicateType === "exact" ? "Duplicate" : `Near duplicate ${item.duplicateSimilarity ?? ""}%`}
+                              </Badge>
+                            ) : item.isInclusive ? (
+                              <Badge variant="secondary" className="text-xs px-1">Inclusive</Badge>
+                            ) : null}
+                          </button>
                         ))}
                       </div>
                     </div>
@@ -1161,6 +1344,18 @@ export default function EDiscovery() {
           </div>
         </ResizablePanel>
       </ResizablePanelGroup>
+
+      <EdiscoveryProductionSetsDialog
+        projectId={selectedProject.id}
+        currentCriteria={{
+          from: senderFilter !== "all" ? senderFilter : undefined,
+          dateFrom: dateFrom ? format(dateFrom, "yyyy-MM-dd") : undefined,
+          dateTo: dateTo ? format(dateTo, "yyyy-MM-dd") : undefined,
+          hasAttachments: hasAttachmentsFilter,
+        }}
+        open={productionSetsOpen}
+        onOpenChange={setProductionSetsOpen}
+      />
     </div>
   );
 }
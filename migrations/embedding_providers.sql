@@ -0,0 +1,25 @@
+-- Migration: Pluggable embedding providers
+-- Adds the per-company embedding provider, and records the model and native dimensions of
+-- every stored vector so searches only compare vectors from the same model.
+-- Existing vectors were all made by Voyage AI, so they are labelled with the Voyage models.
+
+BEGIN;
+
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS embedding_provider text NOT NULL DEFAULT 'voyage';
+
+ALTER TABLE ediscovery_emails ADD COLUMN IF NOT EXISTS embedding_model text;
+ALTER TABLE ediscovery_emails ADD COLUMN IF NOT EXISTS embedding_dimensions integer;
+UPDATE ediscovery_emails SET embedding_model = 'voyage-3-lite', embedding_dimensions = 512
+  WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+ALTER TABLE correspondence_letters ADD COLUMN IF NOT EXISTS embedding_model text;
+ALTER TABLE correspondence_letters ADD COLUMN IF NOT EXISTS embedding_dimensions integer;
+UPDATE correspondence_letters SET embedding_model = 'voyage-law-2', embedding_dimensions = 1024
+  WHERE embedding_vector IS NOT NULL AND embedding_model IS NULL;
+
+ALTER TABLE contract_search_index ADD COLUMN IF NOT EXISTS embedding_model text;
+ALTER TABLE contract_search_index ADD COLUMN IF NOT EXISTS embedding_dimensions integer;
+UPDATE contract_search_index SET embedding_model = 'voyage-law-2', embedding_dimensions = 1024
+  WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+COMMIT;
@@ -0,0 +1,51 @@
+-- Migration: Full-text search vectors for hybrid search
+-- Adds generated tsvector columns with GIN indexes to ediscovery_emails,
+-- ediscovery_attachments and correspondence_letters, and turns contract_search_index
+-- into page text with a generated tsvector and a page embedding.
+-- Run this before `npm run db:push` so drizzle-kit sees the generated columns already in place.
+--
+-- Existing contract_search_index rows keep their lowercased tokens as page content
+-- (still searchable); regenerating a revision's metadata re-indexes the original page
+-- text and adds the embeddings.
+
+BEGIN;
+
+-- Step 1: eDiscovery emails (replaces the unused text search_vector column)
+ALTER TABLE ediscovery_emails DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE ediscovery_emails ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(subject, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(from_address, '')), 'B') ||
+  setweight(to_tsvector('english', left(coalesce(body_text, ''), 200000)), 'C')
+) STORED;
+CREATE INDEX IF NOT EXISTS ediscovery_emails_search_vector_idx
+  ON ediscovery_emails USING gin (search_vector);
+
+-- Step 2: eDiscovery attachments
+ALTER TABLE ediscovery_attachments ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', filename), 'B') ||
+  setweight(to_tsvector('english', left(coalesce(extracted_text, ''), 200000)), 'D')
+) STORED;
+CREATE INDEX IF NOT EXISTS ediscovery_attachments_search_vector_idx
+  ON ediscovery_attachments USING gin (search_vector);
+
+-- Step 3: Correspondence letters
+ALTER TABLE correspondence_letters ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(subject, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(sender, '') || ' ' || coalesce(recipient, '')), 'B') ||
+  setweight(to_tsvector('english', left(coalesce(extracted_text, ''), 200000)), 'C')
+) STORED;
+CREATE INDEX IF NOT EXISTS correspondence_letters_search_vector_idx
+  ON correspondence_letters USING gin (search_vector);
+
+-- Step 4: Contract search index (page text instead of naive tokens)
+ALTER TABLE contract_search_index RENAME COLUMN tokens TO content;
+ALTER TABLE contract_search_index ADD COLUMN embedding vector(1024);
+ALTER TABLE contract_search_index ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('english', content)
+) STORED;
+CREATE INDEX IF NOT EXISTS contract_search_index_search_vector_idx
+  ON contract_search_index USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS contract_search_index_embedding_idx
+  ON contract_search_index USING hnsw (embedding vector_cosine_ops);
+
+COMMIT;
@@ -0,0 +1,52 @@
+-- Migration: Live notice obligations register
+-- Tracks instances of extracted contract notices from trigger event to issue and response,
+-- and the project holiday calendar used for business-day deadlines.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS notice_obligations (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id varchar NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  revision_id varchar NOT NULL,
+  notice_key text NOT NULL,
+  title text NOT NULL,
+  clause_ref text,
+  sender_party text,
+  recipient_party text,
+  required_action text,
+  trigger_event_date text NOT NULL,
+  trigger_description text,
+  lead_time_days integer,
+  lead_time_business_days boolean NOT NULL DEFAULT false,
+  lead_time_relative_to text NOT NULL DEFAULT 'trigger_event',
+  due_date text,
+  time_bar_days integer,
+  time_bar_date text,
+  response_required boolean NOT NULL DEFAULT false,
+  response_timeframe_days integer,
+  response_business_days boolean NOT NULL DEFAULT false,
+  response_due_date text,
+  no_response_consequence text,
+  status text NOT NULL DEFAULT 'open',
+  issued_date text,
+  letter_id varchar REFERENCES correspondence_letters(id) ON DELETE SET NULL,
+  responded_date text,
+  notes text,
+  created_by varchar REFERENCES user_accounts(id),
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notice_obligations_project_status_idx ON notice_obligations (project_id, status);
+CREATE INDEX IF NOT EXISTS notice_obligations_letter_idx ON notice_obligations (letter_id);
+
+CREATE TABLE IF NOT EXISTS project_holidays (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id varchar NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  date text NOT NULL,
+  name text NOT NULL,
+  created_at timestamp NOT NULL DEFAULT now(),
+  CONSTRAINT project_holidays_project_date_unique UNIQUE (project_id, date)
+);
+
+COMMIT;
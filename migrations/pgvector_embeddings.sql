@@ -0,0 +1,86 @@
+-- Migration: Move embeddings from JSON text columns to pgvector
+-- Converts the embedding columns of contract_document_chunks, correspondence_letters
+-- and ediscovery_emails to vector(n) and builds HNSW indexes for cosine distance.
+-- Run this before `npm run db:push` so drizzle-kit sees the columns already converted.
+--
+-- Embeddings whose length does not match the column (empty arrays from failed
+-- Voyage calls, 512-dimension voyage-3-lite letters from older SharePoint syncs)
+-- are set to NULL. Letters can be re-embedded with
+-- POST /api/projects/:projectId/correspondence/regenerate-embeddings.
+
+BEGIN;
+
+-- Step 1: Enable pgvector (0.8+ is needed for hnsw.iterative_scan)
+CREATE EXTENSION IF NOT EXISTS vector;
+ALTER EXTENSION vector UPDATE;
+
+-- Step 2: eDiscovery emails (voyage-3-lite, 512 dimensions)
+ALTER TABLE ediscovery_emails ADD COLUMN embedding_pgvector vector(512);
+
+UPDATE ediscovery_emails
+SET embedding_pgvector = embedding::vector(512)
+WHERE embedding IS NOT NULL
+  AND CASE WHEN json_typeof(embedding::json) = 'array' THEN json_array_length(embedding::json) END = 512;
+
+DO $$
+DECLARE
+  dropped_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO dropped_count
+  FROM ediscovery_emails
+  WHERE embedding IS NOT NULL AND embedding <> '[]' AND embedding_pgvector IS NULL;
+
+  IF dropped_count > 0 THEN
+    RAISE WARNING 'Dropped % ediscovery_emails embeddings that were not 512 dimensions', dropped_count;
+  ELSE
+    RAISE NOTICE 'All ediscovery_emails embeddings converted to vector(512)';
+  END IF;
+END$$;
+
+ALTER TABLE ediscovery_emails DROP COLUMN embedding;
+ALTER TABLE ediscovery_emails RENAME COLUMN embedding_pgvector TO embedding;
+
+-- Step 3: Correspondence letters (voyage-law-2, 1024 dimensions)
+ALTER TABLE correspondence_letters ADD COLUMN embedding_pgvector vector(1024);
+
+UPDATE correspondence_letters
+SET embedding_pgvector = embedding_vector::vector(1024)
+WHERE embedding_vector IS NOT NULL
+  AND CASE WHEN json_typeof(embedding_vector::json) = 'array' THEN json_array_length(embedding_vector::json) END = 1024;
+
+DO $$
+DECLARE
+  dropped_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO dropped_count
+  FROM correspondence_letters
+  WHERE embedding_vector IS NOT NULL AND embedding_vector <> '[]' AND embedding_pgvector IS NULL;
+
+  IF dropped_count > 0 THEN
+    RAISE WARNING 'Dropped % correspondence_letters embeddings that were not 1024 dimensions (regenerate them per project)', dropped_count;
+  ELSE
+    RAISE NOTICE 'All correspondence_letters embeddings converted to vector(1024)';
+  END IF;
+END$$;
+
+ALTER TABLE correspondence_letters DROP COLUMN embedding_vector;
+ALTER TABLE correspondence_letters RENAME COLUMN embedding_pgvector TO embedding_vector;
+
+-- Step 4: Contract document chunks (1536 dimensions). The embedding is NOT NULL,
+-- so chunks that cannot be converted are removed; they are derived from the
+-- revision text and can be re-chunked
+DELETE FROM contract_document_chunks
+WHERE CASE WHEN json_typeof(embedding::json) = 'array' THEN json_array_length(embedding::json) END IS DISTINCT FROM 1536;
+
+ALTER TABLE contract_document_chunks
+  ALTER COLUMN embedding TYPE vector(1536) USING embedding::vector(1536);
+
+-- Step 5: HNSW indexes for cosine distance (<=>)
+CREATE INDEX IF NOT EXISTS ediscovery_emails_embedding_idx
+  ON ediscovery_emails USING hnsw (embedding vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS correspondence_letters_embedding_idx
+  ON correspondence_letters USING hnsw (embedding_vector vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS contract_chunks_embedding_idx
+  ON contract_document_chunks USING hnsw (embedding vector_cosine_ops);
+
+COMMIT;
@@ -0,0 +1,28 @@
+-- Migration: Lock BOQ items in submitted progress claims, separate claim approval
+-- Deleting a BOQ item no longer silently deletes its claim lines: the server removes
+-- draft lines itself and refuses to delete items in submitted or approved claims.
+-- Adds the CLAIM.APPROVE permission (assessing and approving claims) to the roles that
+-- approve other commercial records, as seeded by migrate-to-rbac.ts.
+
+BEGIN;
+
+ALTER TABLE boq_claim_items DROP CONSTRAINT IF EXISTS boq_claim_items_boq_item_id_boq_items_id_fk;
+ALTER TABLE boq_claim_items
+  ADD CONSTRAINT boq_claim_items_boq_item_id_boq_items_id_fk
+  FOREIGN KEY (boq_item_id) REFERENCES boq_items(id) ON DELETE NO ACTION;
+
+INSERT INTO permissions (code, description)
+VALUES ('CLAIM.APPROVE', 'Assess and approve progress claims')
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id FROM roles r, permissions p
+WHERE r.code IN ('ADMIN', 'BUM') AND p.code = 'CLAIM.APPROVE'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO project_role_permissions (project_role_id, permission_id)
+SELECT r.id, p.id FROM project_roles r, permissions p
+WHERE r.code = 'PROJ_ADMIN' AND p.code = 'CLAIM.APPROVE'
+ON CONFLICT DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,9 @@
+-- Migration: RFI attachments
+-- Files uploaded to an RFI are listed in rfis.attachments, like rfi_comments.attachments.
+-- Both hold arrays of {id, name, url, size, contentType, uploadedBy, uploadedAt}.
+
+BEGIN;
+
+ALTER TABLE rfis ADD COLUMN IF NOT EXISTS attachments jsonb;
+
+COMMIT;
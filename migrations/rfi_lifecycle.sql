@@ -0,0 +1,49 @@
+-- Migration: RFI lifecycle, response SLAs and ball-in-court tracking
+-- Renames the old statuses to the draft -> issued -> responded -> closed lifecycle,
+-- adds the tracking columns, the status history and per-project SLA rules.
+-- Existing open RFIs are treated as issued when they were created.
+
+BEGIN;
+
+ALTER TABLE rfis ALTER COLUMN status SET DEFAULT 'draft';
+ALTER TABLE rfis ADD COLUMN IF NOT EXISTS sla_due_date text;
+ALTER TABLE rfis ADD COLUMN IF NOT EXISTS days_outstanding integer NOT NULL DEFAULT 0;
+ALTER TABLE rfis ADD COLUMN IF NOT EXISTS ball_in_court text DEFAULT 'originator';
+ALTER TABLE rfis ADD COLUMN IF NOT EXISTS issued_at timestamp;
+ALTER TABLE rfis ADD COLUMN IF NOT EXISTS responded_at timestamp;
+ALTER TABLE rfis ADD COLUMN IF NOT EXISTS closed_at timestamp;
+
+UPDATE rfis SET status = 'issued', ball_in_court = 'recipient', issued_at = created_at
+  WHERE status = 'open';
+UPDATE rfis SET status = 'responded', ball_in_court = 'originator', issued_at = created_at, responded_at = updated_at
+  WHERE status = 'answered';
+UPDATE rfis SET ball_in_court = NULL, issued_at = created_at, closed_at = updated_at
+  WHERE status = 'closed';
+
+CREATE INDEX IF NOT EXISTS rfis_project_status_idx ON rfis (project_id, status);
+
+CREATE TABLE IF NOT EXISTS rfi_status_history (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  rfi_id varchar NOT NULL REFERENCES rfis(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  ball_in_court text,
+  note text,
+  changed_by varchar REFERENCES user_accounts(id),
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS rfi_status_history_rfi_idx ON rfi_status_history (rfi_id, created_at);
+
+CREATE TABLE IF NOT EXISTS rfi_sla_rules (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id varchar NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  priority text NOT NULL,
+  response_days integer NOT NULL,
+  business_days boolean NOT NULL DEFAULT true,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now(),
+  CONSTRAINT rfi_sla_rules_project_priority_unique UNIQUE (project_id, priority)
+);
+
+COMMIT;
@@ -0,0 +1,30 @@
+-- Migration: Permissions for the risk, BOQ, DOA, eDiscovery and correspondence routes
+-- These routes now require their own permissions instead of any project member. Existing
+-- databases need the permissions and their role grants, as seeded by migrate-to-rbac.ts,
+-- before deploying, or every non-super-admin gets 403 on them.
+
+BEGIN;
+
+INSERT INTO permissions (code, description) VALUES
+  ('RISK.MANAGE', 'Edit risk registers and run Monte Carlo'),
+  ('BOQ.MANAGE', 'Edit BOQ, worksheets, rates and variables'),
+  ('CONTRACT.APPROVE', 'Approve or reject contract review departures (DOA)'),
+  ('EDISCOVERY.VIEW', 'Search and view eDiscovery emails'),
+  ('EDISCOVERY.MANAGE', 'Upload, ingest and tag eDiscovery emails'),
+  ('CORRESPONDENCE.MANAGE', 'Upload and generate correspondence')
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id FROM roles r, permissions p
+WHERE (r.code = 'ADMIN' AND p.code IN ('RISK.MANAGE', 'BOQ.MANAGE', 'CONTRACT.APPROVE', 'EDISCOVERY.VIEW', 'EDISCOVERY.MANAGE', 'CORRESPONDENCE.MANAGE'))
+   OR (r.code = 'BUM' AND p.code = 'CONTRACT.APPROVE')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO project_role_permissions (project_role_id, permission_id)
+SELECT r.id, p.id FROM project_roles r, permissions p
+WHERE (r.code = 'PROJ_ADMIN' AND p.code IN ('RISK.MANAGE', 'BOQ.MANAGE', 'CONTRACT.APPROVE', 'EDISCOVERY.VIEW', 'EDISCOVERY.MANAGE', 'CORRESPONDENCE.MANAGE'))
+   OR (r.code = 'PM' AND p.code IN ('RISK.MANAGE', 'BOQ.MANAGE', 'CONTRACT.APPROVE', 'EDISCOVERY.VIEW', 'CORRESPONDENCE.MANAGE'))
+   OR (r.code = 'ENGINEER' AND p.code = 'CORRESPONDENCE.MANAGE')
+ON CONFLICT DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,29 @@
+-- Migration: Stable worksheet line numbers
+-- #LQn formula references resolve to worksheet_items.lq, which is assigned from
+-- worksheets.last_line_number when an item is created and never reused. Existing items are
+-- numbered in their current line order (created_at, id), which is what their #LQ references
+-- resolved to until now.
+
+BEGIN;
+
+UPDATE worksheet_items wi
+SET lq = numbered.line
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY worksheet_id ORDER BY created_at, id) AS line
+  FROM worksheet_items
+) numbered
+WHERE wi.id = numbered.id;
+
+ALTER TABLE worksheet_items
+  ALTER COLUMN lq TYPE integer USING lq::integer,
+  ALTER COLUMN lq SET NOT NULL;
+
+ALTER TABLE worksheet_items
+  ADD CONSTRAINT worksheet_items_worksheet_lq_unique UNIQUE (worksheet_id, lq);
+
+ALTER TABLE worksheets ADD COLUMN IF NOT EXISTS last_line_number integer NOT NULL DEFAULT 0;
+
+UPDATE worksheets w
+SET last_line_number = COALESCE((SELECT MAX(lq) FROM worksheet_items wi WHERE wi.worksheet_id = w.id), 0);
+
+COMMIT;
@@ -211,17 +211,6 @@ async function getContractDocuments(projectId: string, project: any): Promise<st
   }
 }
 
-// Calculate cost based on GPT-4o pricing
-function calculateCost(inputTokens: number, outputTokens: number): number {
-  const INPUT_COST_PER_1M = 2.50; // $2.50 per 1M input tokens for GPT-4o
-  const OUTPUT_COST_PER_1M = 10.00; // $10.00 per 1M output tokens for GPT-4o
-  
-  const inputCost = (inputTokens / 1000000) * INPUT_COST_PER_1M;
-  const outputCost = (outputTokens / 1000000) * OUTPUT_COST_PER_1M;
-  
-  return inputCost + outputCost;
-}
-
 // Generate AI draft letter
 export async function generateAIDraftLetter(
   projectId: string,
@@ -277,7 +266,7 @@ export async function generateAIDraftLetter(
   const aiProvider = createAIProvider(aiModel);
   
   // Map friendly model names to actual API model strings
-  const { getModelString } = await import('./aiProviders');
+  const { estimateCost, getModelString } = await import('./aiProviders');
   const actualModelString = getModelString(aiModel);
   
   // Stage 2: Extract text from original letter (20-30%)
@@ -362,7 +351,7 @@ Please generate a professional response letter following the master drafting pro
   const inputTokens = result.usage.inputTokens;
   const outputTokens = result.usage.outputTokens;
   const totalTokens = result.usage.totalTokens;
-  const estimatedCost = calculateCost(inputTokens, outputTokens);
+  const estimatedCost = estimateCost(aiModel, inputTokens, outputTokens);
   
   // Log AI usage
   await db.insert(aiUsageLogs).values({
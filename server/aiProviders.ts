@@ -58,7 +58,7 @@ function isRetryableError(error: any): boolean {
 }
 
 // Helper: Retry wrapper with exponential backoff
-async function withRetry<T>(
+export async function withRetry<T>(
   fn: () => Promise<T>,
   providerName: string,
   maxRetries: number = 3
@@ -255,3 +255,25 @@ export function getModelString(modelName: string): string {
 
   return modelMap[modelName] || modelName;
 }
+
+// Published prices in USD per 1M tokens, matched on the model string's prefix (most specific first)
+const MODEL_PRICING: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'claude-opus', input: 15.00, output: 75.00 },
+  { prefix: 'claude-3-5-haiku', input: 0.80, output: 4.00 },
+  { prefix: 'claude-3-haiku', input: 0.25, output: 1.25 },
+  { prefix: 'claude', input: 3.00, output: 15.00 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.60 },
+  { prefix: 'gpt-4o', input: 2.50, output: 10.00 },
+  { prefix: 'gpt-4-turbo', input: 10.00, output: 30.00 },
+  { prefix: 'gpt-4', input: 30.00, output: 60.00 },
+];
+
+// Helper function to estimate the cost of a completion for the model that was used
+export function estimateCost(modelName: string, inputTokens: number, outputTokens: number): number {
+  const model = getModelString(modelName);
+  const pricing = MODEL_PRICING.find(p => model.startsWith(p.prefix))
+    // Unknown models are priced like the provider's default model
+    ?? MODEL_PRICING.find(p => p.prefix === (model.startsWith('claude') || model.startsWith('anthropic') ? 'claude' : 'gpt-4o'))!;
+
+  return (inputTokens / 1000000) * pricing.input + (outputTokens / 1000000) * pricing.output;
+}
@@ -10,7 +10,7 @@ import {
 } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { extractTextFromPDF } from './semanticSearch';
-import { createAIProvider } from './aiProviders';
+import { createAIProvider, estimateCost } from './aiProviders';
 import { ObjectStorageService } from './objectStorage';
 
 const SPECIAL_CONDITIONS_PROMPT = `
@@ -232,7 +232,7 @@ Based on the above three documents, generate comprehensive Special Conditions fo
   }
 
   // Calculate usage
-  const estimatedCost = ((response.usage.inputTokens * 0.003) + (response.usage.outputTokens * 0.015)) / 1000;
+  const estimatedCost = estimateCost(company.aiContractReviewModel || 'claude-sonnet-4-20250514', response.usage.inputTokens, response.usage.outputTokens);
   
   const usage = {
     inputTokens: response.usage.inputTokens,
@@ -0,0 +1,131 @@
+/**
+ * Attachment Text Extraction
+ *
+ * Extracts searchable text from eDiscovery email attachments:
+ * - PDF (pdf-parse)
+ * - Word .docx (mammoth)
+ * - Excel .xlsx/.xls and CSV (xlsx), one block per sheet
+ * - Outlook .msg (read from the compound file with xlsx's CFB reader)
+ * - .eml and plain text/HTML
+ *
+ * Anything else (images, archives, CAD) is stored but not indexed.
+ */
+
+import { simpleParser } from 'mailparser';
+
+// Longest text kept per attachment; the rest is not indexed
+const MAX_TEXT_LENGTH = 500_000;
+
+// MAPI properties read from .msg files (unicode or ANSI string streams)
+const MSG_PROPERTIES = [
+  { id: '0037', label: 'Subject' },
+  { id: '0C1A', label: 'From' },
+  { id: '0E04', label: 'To' },
+  { id: '0E03', label: 'Cc' },
+  { id: '1000', label: null }, // Body
+];
+
+const extensionOf = (filename: string) => filename.toLowerCase().split('.').pop() || '';
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+async function extractPdfText(buffer: Buffer): Promise<string> {
+  const { PDFParse } = await import('pdf-parse');
+  const parser = new PDFParse({ data: buffer });
+  try {
+    const result = await parser.getText();
+    return result.text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+async function extractSpreadsheetText(buffer: Buffer): Promise<string> {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(buffer, { type: 'buffer' });
+  return workbook.SheetNames
+    .map(name => `=== ${name} ===\n${XLSX.utils.sheet_to_csv(workbook.Sheets[name], { blankrows: false })}`)
+    .join('\n\n');
+}
+
+/**
+ * Header fields and body of an Outlook .msg file. Only top-level property streams
+ * are read, so the properties of attachments inside the message are skipped.
+ */
+async function extractMsgText(buffer: Buffer): Promise<string> {
+  const XLSX = await import('xlsx');
+  const cfb = XLSX.CFB.read(buffer, { type: 'buffer' });
+
+  const readProperty = (id: string): string | null => {
+    const unicode = XLSX.CFB.find(cfb, `/__substg1.0_${id}001F`);
+    if (unicode?.content) return Buffer.from(unicode.content as Uint8Array).toString('utf16le').replace(/\0+$/, '');
+    const ansi = XLSX.CFB.find(cfb, `/__substg1.0_${id}001E`);
+    if (ansi?.content) return Buffer.from(ansi.content as Uint8Array).toString('latin1').replace(/\0+$/, '');
+    return null;
+  };
+
+  return MSG_PROPERTIES
+    .map(({ id, label }) => {
+      const value = readProperty(id);
+      if (!value) return null;
+      return label ? `${label}: ${value}` : `\n${value}`;
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+async function extractEmlText(buffer: Buffer): Promise<string> {
+  const parsed = await simpleParser(buffer);
+  const header = [
+    parsed.subject ? `Subject: ${parsed.subject}` : null,
+    parsed.from?.text ? `From: ${parsed.from.text}` : null,
+  ].filter(Boolean).join('\n');
+  const body = parsed.text || (parsed.html ? htmlToText(parsed.html) : '');
+  return `${header}\n\n${body}`;
+}
+
+/**
+ * Extract the text of an attachment for indexing
+ * @returns The text, or null if the file type is not indexed or cannot be read
+ */
+export async function extractAttachmentText(
+  buffer: Buffer,
+  filename: string,
+  contentType?: string | null
+): Promise<string | null> {
+  const extension = extensionOf(filename);
+  const type = (contentType || '').toLowerCase();
+
+  try {
+    let text: string | null = null;
+    if (extension === 'pdf' || type === 'application/pdf') {
+      text = await extractPdfText(buffer);
+    } else if (extension === 'docx') {
+      const mammoth = await import('mammoth');
+      text = (await mammoth.extractRawText({ buffer })).value;
+    } else if (['xlsx', 'xlsm', 'xls', 'csv'].includes(extension)) {
+      text = await extractSpreadsheetText(buffer);
+    } else if (extension === 'msg' || type === 'application/vnd.ms-outlook') {
+      text = await extractMsgText(buffer);
+    } else if (extension === 'eml' || type === 'message/rfc822') {
+      text = await extractEmlText(buffer);
+    } else if (['htm', 'html'].includes(extension) || type === 'text/html') {
+      text = htmlToText(buffer.toString('utf-8'));
+    } else if (['txt', 'text'].includes(extension) || type === 'text/plain') {
+      text = buffer.toString('utf-8');
+    }
+
+    const trimmed = text?.replace(/\0/g, '').trim();
+    return trimmed ? trimmed.substring(0, MAX_TEXT_LENGTH) : null;
+  } catch (error) {
+    console.error(`Error extracting text from attachment ${filename}:`, error);
+    return null;
+  }
+}
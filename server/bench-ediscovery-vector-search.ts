@@ -0,0 +1,125 @@
+/**
+ * Benchmark for eDiscovery vector search
+ *
+ * Seeds a temporary table with synthetic 512-dimension email embeddings (clustered
+ * around random topics, like real mailboxes), builds the same HNSW index as
+ * ediscovery_emails, and compares the filtered top-k query used by
+ * /api/ediscovery/semantic-search against an exact sequential scan: latency and recall@k.
+ * The table is TEMP, so nothing is written to the application tables.
+ *
+ * Run with: npx tsx server/bench-ediscovery-vector-search.ts [emails=100000] [queries=50]
+ */
+
+import { pool } from "./db";
+
+const DIMENSIONS = 512;
+const TOPICS = 200;
+const PROJECTS = 20;
+const TOP_K = 10;
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+async function timed<T>(run: () => Promise<T>): Promise<{ result: T; ms: number }> {
+  const start = process.hrtime.bigint();
+  const result = await run();
+  return { result, ms: Number(process.hrtime.bigint() - start) / 1e6 };
+}
+
+async function benchmark() {
+  const emailCount = parseInt(process.argv[2] || "100000");
+  const queryCount = parseInt(process.argv[3] || "50");
+  const client = await pool.connect();
+
+  try {
+    console.log(`Seeding ${emailCount} emails (${DIMENSIONS} dimensions, ${TOPICS} topics, ${PROJECTS} projects)...`);
+    await client.query("CREATE EXTENSION IF NOT EXISTS vector");
+    await client.query(`
+      CREATE TEMP TABLE bench_topics AS
+      SELECT t AS id, ARRAY(SELECT random() - 0.5 FROM generate_series(1, ${DIMENSIONS}) WHERE t > 0) AS centroid
+      FROM generate_series(1, ${TOPICS}) t
+    `);
+    await client.query(`
+      CREATE TEMP TABLE bench_emails (
+        id integer PRIMARY KEY,
+        project_id integer NOT NULL,
+        duplicate_of_id integer,
+        embedding vector(${DIMENSIONS}) NOT NULL
+      )
+    `);
+    const seed = await timed(() => client.query(`
+      INSERT INTO bench_emails
+      SELECT
+        e.i,
+        e.i % ${PROJECTS},
+        CASE WHEN e.i % 10 = 0 THEN e.i - 1 END,
+        (SELECT array_agg(t.centroid[d] + (random() - 0.5) * 0.3 ORDER BY d) FROM generate_series(1, ${DIMENSIONS}) d)::vector(${DIMENSIONS})
+      FROM generate_series(1, ${emailCount}) AS e(i)
+      JOIN bench_topics t ON t.id = 1 + (e.i * 7919) % ${TOPICS}
+    `));
+    console.log(`  seeded in ${(seed.ms / 1000).toFixed(1)}s`);
+
+    const build = await timed(() => client.query(
+      "CREATE INDEX bench_emails_embedding_idx ON bench_emails USING hnsw (embedding vector_cosine_ops)"
+    ));
+    console.log(`  HNSW index built in ${(build.ms / 1000).toFixed(1)}s`);
+    await client.query("ANALYZE bench_emails");
+
+    // Queries near random topics, filtered like the search route (one project, no duplicates)
+    const { rows: queries } = await client.query(`
+      SELECT
+        (SELECT array_agg(t.centroid[d] + (random() - 0.5) * 0.3 ORDER BY d) FROM generate_series(1, ${DIMENSIONS}) d)::vector(${DIMENSIONS})::text AS embedding,
+        (q.i % ${PROJECTS}) AS project_id
+      FROM generate_series(1, ${queryCount}) AS q(i)
+      JOIN bench_topics t ON t.id = 1 + (q.i * 104729) % ${TOPICS}
+    `);
+
+    const topKQuery = `
+      SELECT id FROM bench_emails
+      WHERE project_id = $2 AND duplicate_of_id IS NULL
+      ORDER BY embedding <=> $1::vector
+      LIMIT ${TOP_K}
+    `;
+
+    const exactMs: number[] = [];
+    const hnswMs: number[] = [];
+    let recallTotal = 0;
+
+    for (const query of queries) {
+      const params = [query.embedding, query.project_id];
+
+      await client.query("BEGIN");
+      await client.query("SET LOCAL enable_indexscan = off");
+      const exact = await timed(() => client.query(topKQuery, params));
+      await client.query("COMMIT");
+
+      await client.query("BEGIN");
+      await client.query("SET LOCAL hnsw.ef_search = 100");
+      await client.query("SET LOCAL hnsw.iterative_scan = relaxed_order");
+      const hnsw = await timed(() => client.query(topKQuery, params));
+      await client.query("COMMIT");
+
+      const expected = new Set(exact.result.rows.map((row: any) => row.id));
+      const found = hnsw.result.rows.filter((row: any) => expected.has(row.id)).length;
+      recallTotal += expected.size > 0 ? found / expected.size : 1;
+      exactMs.push(exact.ms);
+      hnswMs.push(hnsw.ms);
+    }
+
+    console.log(`\nTop-${TOP_K} over ${queries.length} filtered queries:`);
+    console.log(`  exact scan  p50 ${percentile(exactMs, 50).toFixed(1)}ms  p95 ${percentile(exactMs, 95).toFixed(1)}ms`);
+    console.log(`  HNSW        p50 ${percentile(hnswMs, 50).toFixed(1)}ms  p95 ${percentile(hnswMs, 95).toFixed(1)}ms`);
+    console.log(`  recall@${TOP_K}   ${((recallTotal / queries.length) * 100).toFixed(1)}%`);
+  } finally {
+    await client.query("DROP TABLE IF EXISTS bench_emails, bench_topics");
+    client.release();
+    await pool.end();
+  }
+}
+
+benchmark().catch((error) => {
+  console.error("Benchmark failed:", error);
+  process.exit(1);
+});
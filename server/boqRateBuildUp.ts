@@ -0,0 +1,123 @@
+/**
+ * BOQ Rate Build-Up
+ *
+ * A BOQ item linked to one or more worksheets takes its rate from the worksheets:
+ * rate = sum of linked worksheet totals / item quantity, amount = rate * quantity.
+ * Items whose rate was typed in by hand (rateOverride) keep their rate, and items
+ * without a positive quantity are left unchanged since no rate can be derived.
+ * An item that loses its last linked worksheet has its rate and amount cleared, so a
+ * rate built up from a deleted worksheet is not left behind looking like a manual one.
+ * Only items in the active BOQ revision are updated - superseded revisions are history -
+ * and items in a submitted progress claim keep the rate they were claimed at.
+ */
+
+import { db } from './db';
+import { boqItems, boqRevisions, boqItemWorksheets, worksheetItems, type BoqItem } from '@shared/schema';
+import { eq, and, inArray, sum } from 'drizzle-orm';
+import { worksheetsWS } from './worksheetsWebSocket';
+import { lockedClaimItemIds } from './progressClaims';
+
+/**
+ * Re-derive the rate of the given BOQ items from their linked worksheets.
+ * Items passed in without any linked worksheet have their derived rate cleared, so only
+ * pass items whose rate is (or was until now) built up from worksheets.
+ * @returns The items whose rate or amount changed
+ */
+export async function deriveBoqItemRates(itemIds: string[]): Promise<BoqItem[]> {
+  if (itemIds.length === 0) return [];
+
+  const items = await db
+    .select({ item: boqItems })
+    .from(boqItems)
+    .innerJoin(boqRevisions, eq(boqItems.revisionId, boqRevisions.id))
+    .where(and(
+      inArray(boqItems.id, itemIds),
+      eq(boqRevisions.isActive, true),
+      eq(boqItems.rateOverride, false)
+    ));
+  const lockedIds = await lockedClaimItemIds(items.map(({ item }) => item.id));
+  const unlockedItems = items.filter(({ item }) => !lockedIds.has(item.id));
+  if (unlockedItems.length === 0) return [];
+
+  const links = await db
+    .select({ boqItemId: boqItemWorksheets.boqItemId, worksheetId: boqItemWorksheets.worksheetId })
+    .from(boqItemWorksheets)
+    .where(inArray(boqItemWorksheets.boqItemId, unlockedItems.map(({ item }) => item.id)));
+
+  const worksheetIds = Array.from(new Set(links.map(link => link.worksheetId)));
+  const totals = worksheetIds.length === 0 ? [] : await db
+    .select({ worksheetId: worksheetItems.worksheetId, total: sum(worksheetItems.total) })
+    .from(worksheetItems)
+    .where(inArray(worksheetItems.worksheetId, worksheetIds))
+    .groupBy(worksheetItems.worksheetId);
+  const totalByWorksheet = new Map(totals.map(t => [t.worksheetId, parseFloat(t.total || '0')]));
+
+  const updatedItems: BoqItem[] = [];
+  for (const { item } of unlockedItems) {
+    const itemLinks = links.filter(link => link.boqItemId === item.id);
+    if (itemLinks.length === 0) {
+      if (item.rate == null && item.amount == null) continue;
+
+      const [cleared] = await db
+        .update(boqItems)
+        .set({ rate: null, amount: null, updatedAt: new Date() })
+        .where(eq(boqItems.id, item.id))
+        .returning();
+      updatedItems.push(cleared);
+      continue;
+    }
+
+    const quantity = item.quantity != null ? parseFloat(item.quantity) : 0;
+    if (!(quantity > 0)) continue;
+
+    const worksheetTotal = itemLinks.reduce((acc, link) => acc + (totalByWorksheet.get(link.worksheetId) ?? 0), 0);
+    const rate = Math.round((worksheetTotal / quantity) * 100) / 100;
+    const amount = Math.round(rate * quantity * 100) / 100;
+
+    const unchanged = item.rate != null && parseFloat(item.rate) === rate
+      && item.amount != null && parseFloat(item.amount) === amount;
+    if (unchanged) continue;
+
+    const [updated] = await db
+      .update(boqItems)
+      .set({ rate: rate.toString(), amount: amount.toString(), updatedAt: new Date() })
+      .where(eq(boqItems.id, item.id))
+      .returning();
+    updatedItems.push(updated);
+  }
+
+  return updatedItems;
+}
+
+/**
+ * Re-derive the rates of every BOQ item linked to the given worksheets and notify
+ * clients of the project when any changed
+ * @returns Number of BOQ items whose rate or amount changed
+ */
+export async function refreshBoqRatesForWorksheets(projectId: string, worksheetIds: string[]): Promise<number> {
+  if (worksheetIds.length === 0) return 0;
+
+  const links = await db
+    .selectDistinct({ boqItemId: boqItemWorksheets.boqItemId })
+    .from(boqItemWorksheets)
+    .where(inArray(boqItemWorksheets.worksheetId, worksheetIds));
+
+  return refreshBoqItemRates(projectId, links.map(link => link.boqItemId));
+}
+
+/**
+ * Re-derive the rates of the given BOQ items and notify clients of the project when any changed
+ * @returns Number of BOQ items whose rate or amount changed
+ */
+export async function refreshBoqItemRates(projectId: string, itemIds: string[]): Promise<number> {
+  const updatedItems = await deriveBoqItemRates(itemIds);
+
+  // There is no BOQ WebSocket service; BOQ clients listen on the worksheets channel
+  if (updatedItems.length > 0) {
+    worksheetsWS.broadcastToProject(projectId, {
+      type: 'boq_items_updated',
+      data: { itemIds: updatedItems.map(item => item.id) },
+    });
+  }
+  return updatedItems.length;
+}
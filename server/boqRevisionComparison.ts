@@ -0,0 +1,242 @@
+/**
+ * BOQ Revision Comparison
+ *
+ * Diffs two BOQ revisions (e.g. tender vs post-award). Each revision copies its items
+ * under new IDs, so rows are matched by item number - headings without an item number
+ * and unnumbered items fall back to their description. Repeated keys are matched in
+ * order of appearance.
+ *
+ * Items report quantity, rate and amount changes; headings report the change in their
+ * rolled-up subtotal (sum of leaf item amounts beneath them, as in the BOQ grid). A row
+ * is "moved" when it sits under a different heading, or a heading changes level.
+ */
+
+import type { BoqItem } from "@shared/schema";
+
+export type BoqComparisonStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface BoqComparisonValues {
+  quantity: number | null;
+  rate: number | null;
+  amount: number | null; // Item amount, or rolled-up subtotal for headings
+  level: number | null;
+  description: string;
+  unit: string | null;
+  parent: string | null; // Description of the nearest heading above the row
+}
+
+export interface BoqComparisonRow {
+  key: string;
+  kind: 'heading' | 'item';
+  itemNumber: string;
+  description: string;
+  unit: string | null;
+  level: number | null;
+  status: BoqComparisonStatus;
+  moved: boolean;
+  changedFields: Array<'description' | 'unit' | 'quantity' | 'rate' | 'amount'>;
+  base: BoqComparisonValues | null;
+  compare: BoqComparisonValues | null;
+  quantityChange: number | null;
+  rateChange: number | null;
+  amountChange: number | null;
+}
+
+export interface BoqRevisionComparison {
+  rows: BoqComparisonRow[]; // Compare revision order, removed rows placed after their preceding base row
+  totals: {
+    baseAmount: number;
+    compareAmount: number;
+    change: number;
+    changePercent: number | null; // Relative to base (0-1), null when the base total is zero
+    added: number;
+    removed: number;
+    changed: number;
+    moved: number;
+  };
+}
+
+interface IndexedRow {
+  key: string;
+  kind: 'heading' | 'item';
+  item: BoqItem;
+  values: BoqComparisonValues;
+}
+
+const toNumber = (value: string | null): number | null => {
+  if (value == null || value === '') return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+const round = (value: number, decimals: number) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+const difference = (base: number | null, compare: number | null, decimals: number): number | null => {
+  if (base == null && compare == null) return null;
+  return round((compare ?? 0) - (base ?? 0), decimals);
+};
+
+function rowKey(item: BoqItem): { key: string; kind: 'heading' | 'item' } {
+  const kind = item.level !== null ? 'heading' : 'item';
+  const itemNumber = item.itemNumber?.trim().toLowerCase();
+  const identity = itemNumber ? `no:${itemNumber}` : `desc:${item.description.trim().toLowerCase()}`;
+  return { key: `${kind}|${identity}`, kind };
+}
+
+/**
+ * Key every row, roll leaf amounts up into their headings and record each row's parent heading
+ */
+function indexRevision(items: BoqItem[]): IndexedRow[] {
+  const rows: IndexedRow[] = [];
+  const ancestorStack: Array<{ row: IndexedRow; level: number }> = [];
+
+  for (const item of items) {
+    const { key, kind } = rowKey(item);
+
+    if (kind === 'heading') {
+      while (ancestorStack.length > 0 && ancestorStack[ancestorStack.length - 1].level >= item.level!) {
+        ancestorStack.pop();
+      }
+    }
+
+    const parent = ancestorStack.length > 0 ? ancestorStack[ancestorStack.length - 1].row.item.description : null;
+    const row: IndexedRow = {
+      key,
+      kind,
+      item,
+      values: {
+        quantity: kind === 'item' ? toNumber(item.quantity) : null,
+        rate: kind === 'item' ? toNumber(item.rate) : null,
+        amount: kind === 'item' ? toNumber(item.amount) : 0,
+        level: item.level,
+        description: item.description,
+        unit: item.unit,
+        parent,
+      },
+    };
+    rows.push(row);
+
+    if (kind === 'heading') {
+      ancestorStack.push({ row, level: item.level! });
+    } else {
+      const amount = row.values.amount ?? 0;
+      for (const ancestor of ancestorStack) {
+        ancestor.row.values.amount = round((ancestor.row.values.amount ?? 0) + amount, 2);
+      }
+    }
+  }
+
+  return rows;
+}
+
+function buildRow(base: IndexedRow | null, compare: IndexedRow | null): BoqComparisonRow {
+  const source = (compare ?? base)!;
+  const b = base?.values ?? null;
+  const c = compare?.values ?? null;
+
+  const changedFields: BoqComparisonRow['changedFields'] = [];
+  let moved = false;
+  if (b && c) {
+    if (b.description.trim() !== c.description.trim()) changedFields.push('description');
+    if ((b.unit ?? '') !== (c.unit ?? '')) changedFields.push('unit');
+    if (b.quantity !== c.quantity) changedFields.push('quantity');
+    if (b.rate !== c.rate) changedFields.push('rate');
+    if (b.amount !== c.amount) changedFields.push('amount');
+    moved = b.parent !== c.parent || b.level !== c.level;
+  }
+
+  const status: BoqComparisonStatus = !b
+    ? 'added'
+    : !c
+      ? 'removed'
+      : changedFields.length > 0 ? 'changed' : 'unchanged';
+
+  return {
+    key: source.key,
+    kind: source.kind,
+    itemNumber: source.item.itemNumber,
+    description: source.item.description,
+    unit: source.item.unit,
+    level: source.item.level,
+    status,
+    moved,
+    changedFields,
+    base: b,
+    compare: c,
+    quantityChange: source.kind === 'item' ? difference(b?.quantity ?? null, c?.quantity ?? null, 3) : null,
+    rateChange: source.kind === 'item' ? difference(b?.rate ?? null, c?.rate ?? null, 2) : null,
+    amountChange: difference(b?.amount ?? null, c?.amount ?? null, 2),
+  };
+}
+
+/**
+ * Compare two BOQ revisions
+ * @param baseItems - Items of the earlier revision, in sorting order
+ * @param compareItems - Items of the later revision, in sorting order
+ */
+export function compareBoqRevisions(baseItems: BoqItem[], compareItems: BoqItem[]): BoqRevisionComparison {
+  const baseRows = indexRevision(baseItems);
+  const compareRows = indexRevision(compareItems);
+
+  // Queue base rows per key so repeated item numbers pair up in order
+  const baseByKey = new Map<string, IndexedRow[]>();
+  for (const row of baseRows) {
+    const queue = baseByKey.get(row.key) ?? [];
+    queue.push(row);
+    baseByKey.set(row.key, queue);
+  }
+
+  const matchedBase = new Map<IndexedRow, IndexedRow>(); // compare row -> base row
+  const matchedBaseRows = new Set<IndexedRow>();
+  for (const row of compareRows) {
+    const match = baseByKey.get(row.key)?.shift();
+    if (match) {
+      matchedBase.set(row, match);
+      matchedBaseRows.add(match);
+    }
+  }
+
+  // Removed rows follow the nearest preceding base row that still exists
+  const removedAfter = new Map<IndexedRow | null, IndexedRow[]>();
+  let anchor: IndexedRow | null = null;
+  for (const row of baseRows) {
+    if (matchedBaseRows.has(row)) {
+      anchor = row;
+      continue;
+    }
+    const removed = removedAfter.get(anchor) ?? [];
+    removed.push(row);
+    removedAfter.set(anchor, removed);
+  }
+
+  const rows: BoqComparisonRow[] = (removedAfter.get(null) ?? []).map(row => buildRow(row, null));
+  for (const row of compareRows) {
+    const base = matchedBase.get(row) ?? null;
+    rows.push(buildRow(base, row));
+    if (base) {
+      rows.push(...(removedAfter.get(base) ?? []).map(removed => buildRow(removed, null)));
+    }
+  }
+
+  const sumLeafAmounts = (indexed: IndexedRow[]) =>
+    round(indexed.filter(row => row.kind === 'item').reduce((sum, row) => sum + (row.values.amount ?? 0), 0), 2);
+  const baseAmount = sumLeafAmounts(baseRows);
+  const compareAmount = sumLeafAmounts(compareRows);
+
+  return {
+    rows,
+    totals: {
+      baseAmount,
+      compareAmount,
+      change: round(compareAmount - baseAmount, 2),
+      changePercent: baseAmount !== 0 ? (compareAmount - baseAmount) / baseAmount : null,
+      added: rows.filter(row => row.status === 'added').length,
+      removed: rows.filter(row => row.status === 'removed').length,
+      changed: rows.filter(row => row.status === 'changed').length,
+      moved: rows.filter(row => row.moved).length,
+    },
+  };
+}
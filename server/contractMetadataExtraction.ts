@@ -13,7 +13,9 @@ import {
 } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { ObjectStorageService } from "./objectStorage";
-import { extractTextFromPDF } from "./semanticSearch";
+import { extractTextFromPDF, generateEmbeddings } from "./semanticSearch";
+import { toStoredEmbedding, LEGAL_EMBEDDING_DIMENSIONS, type StoredEmbedding } from "./vectorSearch";
+import { getProjectEmbeddingProvider } from "./embeddingProviders";
 import Anthropic from "@anthropic-ai/sdk";
 import { paginateContractText, PageBasedChunk } from "./contractChunking";
 
@@ -31,9 +33,9 @@ export interface ContractMetadata {
     scopeRef: string;
     pageIndex: number;
   }>;
-  searchTokens: Array<{
+  searchPages: Array<{
     pageIndex: number;
-    tokens: string;
+    content: string;
   }>;
 }
 
@@ -258,7 +260,7 @@ function hydrateMetadataFromPointers(
   return {
     clauses,
     definitions,
-    searchTokens: [] // Will be populated by caller
+    searchPages: [] // Will be populated by caller
   };
 }
 
@@ -321,8 +323,8 @@ export async function extractContractMetadata(revisionId: string, progressTracke
 
   console.log(`[ContractMetadata] Extraction complete: ${metadata.clauses.length} clauses, ${metadata.definitions.length} definitions`);
   
-  // 4. Generate search tokens from extracted text (reuse already-extracted text)
-  metadata.searchTokens = generateSearchTokens(extractedText);
+  // 4. Split extracted text into pages for the search index (reuse already-extracted text)
+  metadata.searchPages = splitSearchPages(extractedText);
   
   return metadata;
 }
@@ -573,7 +575,7 @@ Extract ALL definitions and ALL clause headings. Keep searchContext SHORT (6-8 w
     const metadata: ContractMetadata = {
       clauses,
       definitions,
-      searchTokens: [] // Will be populated by caller
+      searchPages: [] // Will be populated by caller
     };
     
     return { metadata, extractedText };
@@ -1227,13 +1229,13 @@ async function extractMetadataLocally_DEPRECATED(contractText: string): Promise<
   const clauses = extractClauseHeadings(contractText, getPageIndex);
   console.log(`[ContractMetadata] Found ${clauses.length} clause headings using pattern matching`);
 
-  // Generate search tokens
-  const searchTokens = generateSearchTokens(contractText);
+  // Split into pages for the search index
+  const searchPages = splitSearchPages(contractText);
 
   return {
     clauses,
     definitions,
-    searchTokens
+    searchPages
   };
 }
 
@@ -1461,29 +1463,58 @@ function detectClauseRef(text: string, index: number, number: string): string {
 }
 
 /**
- * Generate simple search tokens from contract text (page-by-page)
+ * Split contract text into pages for the search index, using the "-- N of M --"
+ * markers pdf-parse appends to each page (or ~3000-char pages if there are none)
  */
-function generateSearchTokens(text: string): Array<{ pageIndex: number; tokens: string }> {
-  // Simple tokenization - split by pages (assume ~3000 chars per page)
+function splitSearchPages(text: string): Array<{ pageIndex: number; content: string }> {
+  const searchPages: Array<{ pageIndex: number; content: string }> = [];
+  const pageMarker = /\n-- (\d+) of \d+ --/g;
+  let pageStart = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pageMarker.exec(text)) !== null) {
+    const content = text.substring(pageStart, match.index).trim();
+    if (content) {
+      searchPages.push({ pageIndex: parseInt(match[1]) - 1, content });
+    }
+    pageStart = match.index + match[0].length;
+  }
+
+  if (searchPages.length > 0) return searchPages;
+
+  // No page markers - approximate pages
   const charsPerPage = 3000;
-  const searchTokens: Array<{ pageIndex: number; tokens: string }> = [];
-  
   for (let i = 0; i < text.length; i += charsPerPage) {
-    const pageText = text.substring(i, i + charsPerPage);
-    const tokens = pageText
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(t => t.length > 2)
-      .join(' ');
-    
-    searchTokens.push({
-      pageIndex: Math.floor(i / charsPerPage),
-      tokens
-    });
+    const content = text.substring(i, i + charsPerPage).trim();
+    if (content) {
+      searchPages.push({ pageIndex: Math.floor(i / charsPerPage), content });
+    }
   }
   
-  return searchTokens;
+  return searchPages;
+}
+
+/**
+ * Page embeddings for vector search in the contract viewer, or nulls if embedding fails
+ * (the pages are still indexed for full-text search)
+ */
+async function embedSearchPages(revisionId: string, pages: ContractMetadata['searchPages']): Promise<Array<StoredEmbedding | null>> {
+  if (pages.length === 0) return [];
+  try {
+    const [revision] = await db
+      .select({ projectId: contractReviewDocuments.projectId })
+      .from(contractReviewDocuments)
+      .where(eq(contractReviewDocuments.id, revisionId))
+      .limit(1);
+    if (!revision) return pages.map(() => null);
+
+    const embeddingProvider = await getProjectEmbeddingProvider(revision.projectId, 'legal');
+    const { embeddings, model } = await generateEmbeddings(pages.map(page => page.content), embeddingProvider);
+    return pages.map((_, index) => toStoredEmbedding(embeddings[index], LEGAL_EMBEDDING_DIMENSIONS, model));
+  } catch (error) {
+    console.error('[ContractMetadata] Failed to embed search pages:', error);
+    return pages.map(() => null);
+  }
 }
 
 /**
@@ -1493,6 +1524,9 @@ export async function saveContractMetadata(revisionId: string, metadata: Contrac
   console.log(`[ContractMetadata] Saving metadata to database for revision ${revisionId}`);
   
   try {
+    // Embed pages before the transaction (embedding API calls can be slow)
+    const pageEmbeddings = await embedSearchPages(revisionId, metadata.searchPages);
+
     // Use a transaction to ensure all-or-nothing behavior
     await db.transaction(async (tx) => {
       // Delete existing metadata
@@ -1529,13 +1563,16 @@ export async function saveContractMetadata(revisionId: string, metadata: Contrac
         );
       }
 
-      // Insert search tokens
-      if (metadata.searchTokens.length > 0) {
+      // Insert search pages
+      if (metadata.searchPages.length > 0) {
         await tx.insert(contractSearchIndex).values(
-          metadata.searchTokens.map(token => ({
+          metadata.searchPages.map((page, index) => ({
             revisionId,
-            pageIndex: token.pageIndex,
-            tokens: token.tokens,
+            pageIndex: page.pageIndex,
+            content: page.content,
+            embedding: pageEmbeddings[index]?.vector ?? null,
+            embeddingModel: pageEmbeddings[index]?.model ?? null,
+            embeddingDimensions: pageEmbeddings[index]?.dimensions ?? null,
           }))
         );
       }
@@ -1,21 +1,26 @@
 import { db } from './db';
 import { ediscoveryUploads, ediscoveryEmails, ediscoveryAttachments, projects, projectSharePointSettings } from '../shared/schema';
-import { eq } from 'drizzle-orm';
+import { eq, and, inArray } from 'drizzle-orm';
 import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { simpleParser } from 'mailparser';
-import { VoyageAIClient } from 'voyageai';
 import type { PSTFolder, PSTMessage } from 'pst-extractor';
+import { ObjectStorageService } from './objectStorage';
+import { extractAttachmentText } from './attachmentTextExtraction';
+import { computeMinHash, normalizeSubject, parseMessageIds, rebuildThreadsAndDuplicates } from './ediscoveryThreading';
+import { toStoredEmbedding, EMAIL_EMBEDDING_DIMENSIONS, type StoredEmbedding } from './vectorSearch';
+import { getCompanyEmbeddingProvider, type EmbeddingProvider } from './embeddingProviders';
 
-// Initialize Voyage AI client
-const getVoyageClient = () => {
-  const apiKey = process.env.VOYAGE_API_KEY;
-  if (!apiKey) {
-    throw new Error('VOYAGE_API_KEY environment variable is not set. Please add your Voyage AI API key.');
-  }
-  return new VoyageAIClient({ apiKey });
-};
+// Attachment file read from an email, before it is stored
+interface IngestAttachment {
+  filename: string;
+  contentType?: string;
+  content: Buffer;
+}
+
+// Block size pst-extractor reads attachment streams in
+const PST_BLOCK_SIZE = 8176;
 
 // Helper to recursively count messages in PST folders
 function countMessagesInFolder(folder: PSTFolder, onProgress?: (count: number) => void): number {
@@ -65,8 +70,21 @@ function buildEMLFromPSTMessage(message: PSTMessage): string {
   if (message.internetMessageId) {
     emlLines.push(`Message-ID: ${message.internetMessageId}`);
   } else {
-    // Generate a placeholder message ID
-    emlLines.push(`Message-ID: <${Date.now()}@local>`);
+    // Placeholder message ID derived from the content, so the same message in an
+    // overlapping PST gets the same ID
+    const contentHash = calculateHash([
+      message.senderEmailAddress, message.subject, message.clientSubmitTime?.toISOString(), message.body,
+    ].join('\n'));
+    emlLines.push(`Message-ID: <${contentHash.substring(0, 32)}@local>`);
+  }
+  
+  // Threading headers
+  if (message.inReplyToId) {
+    emlLines.push(`In-Reply-To: ${message.inReplyToId}`);
+  }
+  const references = readTransportHeader(message.transportMessageHeaders, 'References');
+  if (references) {
+    emlLines.push(`References: ${references}`);
   }
   
   // Content type
@@ -89,11 +107,59 @@ function buildEMLFromPSTMessage(message: PSTMessage): string {
   return emlLines.join('\r\n');
 }
 
+// Helper to read a header (with folded continuation lines) from a PST message's transport headers
+function readTransportHeader(headers: string | undefined, name: string): string | null {
+  if (!headers) return null;
+  const match = headers.match(new RegExp(`^${name}:[ \\t]*((?:.*)(?:\\r?\\n[ \\t].*)*)`, 'im'));
+  return match ? match[1].replace(/\r?\n[ \t]+/g, ' ').trim() : null;
+}
+
+// Helper to read attachment files from a PSTMessage (the EML built above has none).
+// Attached Outlook items are converted to EML.
+function extractPSTAttachments(message: PSTMessage): IngestAttachment[] {
+  const attachments: IngestAttachment[] = [];
+  for (let i = 0; i < message.numberOfAttachments; i++) {
+    try {
+      const attachment = message.getAttachment(i);
+      const embedded = attachment.embeddedPSTMessage;
+      if (embedded) {
+        attachments.push({
+          filename: `${embedded.subject || 'Attached message'}.eml`,
+          contentType: 'message/rfc822',
+          content: Buffer.from(buildEMLFromPSTMessage(embedded), 'utf-8'),
+        });
+        continue;
+      }
+
+      const stream = attachment.fileInputStream;
+      if (!stream) continue;
+      const chunks: Buffer[] = [];
+      const block = Buffer.alloc(PST_BLOCK_SIZE);
+      let bytesRead: number;
+      do {
+        bytesRead = stream.read(block);
+        if (bytesRead > 0) chunks.push(Buffer.from(block.subarray(0, bytesRead)));
+      } while (bytesRead === PST_BLOCK_SIZE);
+
+      attachments.push({
+        filename: attachment.longFilename || attachment.filename || `attachment-${i + 1}`,
+        contentType: attachment.mimeTag || undefined,
+        content: Buffer.concat(chunks),
+      });
+    } catch (error) {
+      console.error(`[PST Progress] Error reading attachment ${i + 1}:`, error);
+    }
+  }
+  return attachments;
+}
+
 // Helper to recursively process messages in PST folders
 async function processMessagesInFolder(
   folder: PSTFolder,
   companyId: string,
+  embeddingProvider: EmbeddingProvider,
   uploadId: string,
+  projectId: string | null,
   sourceFilename: string,
   onProgress?: (processed: number) => void
 ): Promise<{ emailCount: number; attachmentCount: number }> {
@@ -108,8 +174,9 @@ async function processMessagesInFolder(
         // Convert PST message to EML format for processing
         const emlData = buildEMLFromPSTMessage(email);
         const emlBuffer = Buffer.from(emlData, 'utf-8');
+        const attachments = email.hasAttachments ? extractPSTAttachments(email) : [];
         
-        await processEmail(companyId, uploadId, emlBuffer, undefined, sourceFilename);
+        await processEmail(companyId, embeddingProvider, uploadId, projectId, emlBuffer, undefined, sourceFilename, attachments);
         emailCount++;
         
         // Count attachments
@@ -132,7 +199,9 @@ async function processMessagesInFolder(
       const subResults = await processMessagesInFolder(
         subfolder,
         companyId,
+        embeddingProvider,
         uploadId,
+        projectId,
         sourceFilename,
         onProgress
       );
@@ -165,31 +234,54 @@ function htmlToText(html: string): string {
     .trim();
 }
 
-// Generate embedding for email content using Voyage AI
-// Uses voyage-3-lite for cost-effectiveness and better accuracy
-async function generateEmbedding(text: string): Promise<number[]> {
+// Text an email is embedded from: subject, addresses, body and attachment names and text
+export function buildEmailEmbeddingText(email: {
+  subject?: string | null;
+  fromAddress?: string | null;
+  toAddresses?: string[] | null;
+  bodyText?: string | null;
+  attachments: Array<{ filename: string; extractedText?: string | null }>;
+}): string {
+  return [
+    email.subject || '',
+    email.fromAddress || '',
+    ...(email.toAddresses || []),
+    (email.bodyText || '').substring(0, 2000), // Limit body text for embedding
+    ...email.attachments.map(a => `${a.filename} ${(a.extractedText || '').substring(0, 2000)}`),
+  ].join(' ');
+}
+
+// Generate embedding for email content with the company's embedding provider
+async function generateEmbedding(text: string, embeddingProvider: EmbeddingProvider): Promise<StoredEmbedding | null> {
   try {
-    const voyage = getVoyageClient();
-    const response = await voyage.embed({
-      input: [text.substring(0, 32000)], // Voyage supports 32K context vs OpenAI's 8K
-      model: "voyage-3-lite", // Cost-effective for email discovery
-      inputType: "document" // "document" for indexing emails
-    });
-    return response.data?.[0]?.embedding || [];
+    const { embeddings } = await embeddingProvider.embed([text], 'document');
+    return toStoredEmbedding(embeddings[0], EMAIL_EMBEDDING_DIMENSIONS, embeddingProvider.model);
   } catch (error) {
-    console.error('Error generating Voyage AI embedding:', error);
-    // Return empty embedding on error
-    return [];
+    console.error(`Error generating ${embeddingProvider.model} embedding:`, error);
+    // Store the email without an embedding (re-embedding picks it up later)
+    return null;
   }
 }
 
+// Object storage key for an attachment file, unique per email and attachment position
+function attachmentStorageKey(uploadId: string, emailId: string, index: number, filename: string): string {
+  const safeName = filename.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_');
+  return `ediscovery/${uploadId}/attachments/${emailId}/${index + 1}-${safeName}`;
+}
+
 // Parse a single EML message and store in database
+// Attachments are read from the EML, plus any passed in (PST messages carry them separately)
+// A message already ingested for the same project is skipped; copies in other projects are
+// stored, as each project's review set must be complete
 async function processEmail(
   companyId: string,
+  embeddingProvider: EmbeddingProvider,
   uploadId: string,
+  projectId: string | null,
   emlBuffer: Buffer,
   emlPath?: string,
-  sourceFilename?: string
+  sourceFilename?: string,
+  extraAttachments: IngestAttachment[] = []
 ): Promise<void> {
   try {
     const parsed = await simpleParser(emlBuffer);
@@ -228,23 +320,21 @@ async function processEmail(
     // Calculate hash of body content
     const bodyHash = calculateHash(bodyText || '');
     
-    // Generate embedding from subject + addresses + body
-    const embeddingText = [
-      parsed.subject || '',
-      fromAddress || '',
-      ...toAddresses,
-      bodyText.substring(0, 2000), // Limit body text for embedding
-    ].join(' ');
-    
-    const embedding = await generateEmbedding(embeddingText);
-    
-    // Check if email already exists (by message-id and hash)
+    // Check if email already exists for this project (by message-id); an upload without a
+    // project only checks itself
     const messageId = parsed.messageId || undefined;
     if (messageId) {
+      const uploadsInScope = projectId
+        ? db.select({ id: ediscoveryUploads.id }).from(ediscoveryUploads).where(eq(ediscoveryUploads.projectId, projectId))
+        : db.select({ id: ediscoveryUploads.id }).from(ediscoveryUploads).where(eq(ediscoveryUploads.id, uploadId));
       const existing = await db
-        .select()
+        .select({ id: ediscoveryEmails.id })
         .from(ediscoveryEmails)
-        .where(eq(ediscoveryEmails.messageId, messageId))
+        .where(and(
+          eq(ediscoveryEmails.companyId, companyId),
+          eq(ediscoveryEmails.messageId, messageId),
+          inArray(ediscoveryEmails.uploadId, uploadsInScope)
+        ))
         .limit(1);
       
       if (existing.length > 0) {
@@ -253,43 +343,81 @@ async function processEmail(
       }
     }
     
+    // Extract attachment text up front so it is indexed with the email
+    const attachments: Array<IngestAttachment & { sha256: string; extractedText: string | null }> = [];
+    const emailAttachments: IngestAttachment[] = [
+      ...(parsed.attachments || []).map(attachment => ({
+        filename: attachment.filename || 'unnamed',
+        contentType: attachment.contentType || undefined,
+        content: attachment.content,
+      })),
+      ...extraAttachments,
+    ];
+    for (const attachment of emailAttachments) {
+      attachments.push({
+        ...attachment,
+        sha256: calculateHash(attachment.content),
+        extractedText: await extractAttachmentText(attachment.content, attachment.filename, attachment.contentType),
+      });
+    }
+    
+    // Generate embedding from subject + addresses + body + attachment names and text
+    const embeddingText = buildEmailEmbeddingText({
+      subject: parsed.subject,
+      fromAddress,
+      toAddresses,
+      bodyText,
+      attachments,
+    });
+    
+    const storedEmbedding = await generateEmbedding(embeddingText, embeddingProvider);
+    
     // Insert email
     const [insertedEmail] = await db.insert(ediscoveryEmails).values({
       companyId,
       uploadId,
       messageId,
+      inReplyTo: parseMessageIds(parsed.inReplyTo)[0],
+      referenceIds: parseMessageIds(parsed.references),
       subject: parsed.subject || undefined,
+      normalizedSubject: normalizeSubject(parsed.subject),
       fromAddress,
       toAddresses,
       ccAddresses,
       bccAddresses,
       sentAt: parsed.date || undefined,
-      hasAttachments: (parsed.attachments?.length || 0) > 0,
+      hasAttachments: attachments.length > 0,
       bodyText,
       bodyHtml,
       snippet,
       sha256: bodyHash,
-      embedding: JSON.stringify(embedding), // Store as JSON string for now
+      contentMinhash: computeMinHash(bodyText),
+      embedding: storedEmbedding?.vector ?? null,
+      embeddingModel: storedEmbedding?.model ?? null,
+      embeddingDimensions: storedEmbedding?.dimensions ?? null,
       sourceFilename, // Track which PST file this email came from
     }).returning();
     
-    // Process attachments
-    if (parsed.attachments && parsed.attachments.length > 0) {
-      for (const attachment of parsed.attachments) {
-        const attachmentHash = calculateHash(attachment.content);
-        
-        // For now, we'll store attachment metadata only
-        // In production, you'd save to object storage and store the key
-        const storageKey = `ediscovery/${uploadId}/attachments/${insertedEmail.id}/${attachment.filename}`;
+    // Save attachment files to object storage and record them with their text
+    if (attachments.length > 0) {
+      const objectStorage = new ObjectStorageService();
+      for (let index = 0; index < attachments.length; index++) {
+        const attachment = attachments[index];
+        const storageKey = await objectStorage.uploadObject(
+          attachment.content,
+          attachmentStorageKey(uploadId, insertedEmail.id, index, attachment.filename),
+          attachment.contentType
+        );
         
         await db.insert(ediscoveryAttachments).values({
           companyId,
           emailId: insertedEmail.id,
-          filename: attachment.filename || 'unnamed',
-          contentType: attachment.contentType || undefined,
-          sizeBytes: attachment.size || 0,
-          sha256: attachmentHash,
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          sizeBytes: attachment.content.length,
+          sha256: attachment.sha256,
           storageKey,
+          extractedText: attachment.extractedText,
         });
       }
     }
@@ -460,10 +588,13 @@ export async function ingestPSTFile(uploadId: string): Promise<void> {
       let processedCount = 0;
       
       // Process all messages with progress tracking
+      const embeddingProvider = await getCompanyEmbeddingProvider(upload.companyId, 'general');
       const results = await processMessagesInFolder(
         extractor.getRootFolder(),
         upload.companyId,
+        embeddingProvider,
         uploadId,
+        upload.projectId,
         upload.filename,
         (count) => {
           processedCount = count;
@@ -492,6 +623,16 @@ export async function ingestPSTFile(uploadId: string): Promise<void> {
       
       console.log(`[PST Progress] PST extraction complete: ${emailCount} emails, ${attachmentCount} attachments processed`);
       
+      // Re-thread and de-duplicate the project, now including this upload's emails
+      if (upload.projectId) {
+        try {
+          const threading = await rebuildThreadsAndDuplicates(upload.projectId);
+          console.log(`[PST Progress] Threading complete: ${threading.threadCount} threads, ${threading.duplicateCount} duplicates in ${threading.emailCount} emails`);
+        } catch (threadingError) {
+          console.error('[PST Progress] Error rebuilding threads:', threadingError);
+        }
+      }
+      
       // Update upload record
       await db
         .update(ediscoveryUploads)
@@ -0,0 +1,407 @@
+/**
+ * eDiscovery Productions
+ *
+ * Production sets select emails with a saved search/tag query. Each email is reviewed as
+ * responsive, privileged or not responsive, then the set is produced as a ZIP with:
+ * - A combined PDF of the responsive emails, every page stamped with its Bates number
+ * - IMAGES/<BEGBATES>.pdf for each email, referenced by the load files
+ * - DATA/<volume>.dat (Concordance metadata) and DATA/<volume>.opt (Opticon page breaks)
+ * - <volume>_privilege_log.csv listing the privileged emails withheld from production
+ *
+ * Bates numbers are tracked per project and prefix (ediscoveryBatesNumbers). A later
+ * production only produces emails not numbered before and continues the sequence.
+ * Privilege log numbers are tracked the same way (ediscoveryPrivilegeLogEntries), so each
+ * privileged email is logged in one volume only.
+ */
+
+import { db } from './db';
+import {
+  ediscoveryEmails,
+  ediscoveryUploads,
+  ediscoveryAttachments,
+  ediscoveryEmailTags,
+  ediscoveryProductionSets,
+  ediscoveryProductionSetEmails,
+  ediscoveryProductions,
+  ediscoveryBatesNumbers,
+  ediscoveryPrivilegeLogEntries,
+  type EdiscoveryEmail,
+  type EdiscoveryProductionSet,
+  type EdiscoveryProduction,
+} from '../shared/schema';
+import { eq, and, asc, inArray, isNull, sql } from 'drizzle-orm';
+import { ObjectStorageService } from './objectStorage';
+
+export const PRODUCTION_REVIEW_STATUSES = ['unreviewed', 'responsive', 'privileged', 'not_responsive'] as const;
+
+/**
+ * A production that cannot be made as requested (shown to the user)
+ */
+export class ProductionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProductionError';
+    Object.setPrototypeOf(this, ProductionError.prototype);
+  }
+}
+
+// Concordance delimiters: þ quotes each value, DC4 separates them, ® replaces newlines
+const DAT_QUOTE = 'þ';
+const DAT_SEPARATOR = '\u0014';
+const DAT_NEWLINE = '®';
+
+const DAT_FIELDS = [
+  'BEGBATES', 'ENDBATES', 'PAGECOUNT', 'DATESENT', 'FROM', 'TO', 'CC', 'BCC',
+  'SUBJECT', 'MESSAGEID', 'SOURCEFILE', 'ATTACHMENTS', 'SHA256', 'IMAGEPATH',
+];
+
+export function formatBates(prefix: string, digits: number, value: number): string {
+  return `${prefix}${String(value).padStart(digits, '0')}`;
+}
+
+function datLine(values: Array<string | number | null | undefined>): string {
+  return values
+    .map(value => `${DAT_QUOTE}${String(value ?? '').replace(new RegExp(DAT_QUOTE, 'g'), '').replace(/\r?\n/g, DAT_NEWLINE)}${DAT_QUOTE}`)
+    .join(DAT_SEPARATOR);
+}
+
+function csvLine(values: Array<string | null | undefined>): string {
+  return values
+    .map(value => {
+      const text = value ?? '';
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',');
+}
+
+const formatDateTime = (date: Date | null) => (date ? date.toISOString().replace('T', ' ').substring(0, 19) : '');
+
+/**
+ * Add the emails matching a set's saved query that are not in the set yet (as unreviewed).
+ * Duplicate copies from overlapping PSTs are left out.
+ */
+export async function refreshProductionSet(set: EdiscoveryProductionSet): Promise<number> {
+  const { criteria } = set;
+  const conditions: any[] = [
+    eq(ediscoveryEmails.companyId, set.companyId),
+    eq(ediscoveryUploads.projectId, set.projectId),
+    isNull(ediscoveryEmails.duplicateOfId),
+  ];
+
+  if (criteria.q) {
+    const pattern = `%${criteria.q}%`;
+    conditions.push(sql`(
+      ${ediscoveryEmails.subject} ILIKE ${pattern} OR
+      ${ediscoveryEmails.bodyText} ILIKE ${pattern} OR
+      ${ediscoveryEmails.fromAddress} ILIKE ${pattern} OR
+      EXISTS (
+        SELECT 1 FROM ${ediscoveryAttachments}
+        WHERE ${ediscoveryAttachments.emailId} = ${ediscoveryEmails.id}
+        AND (${ediscoveryAttachments.filename} ILIKE ${pattern} OR ${ediscoveryAttachments.extractedText} ILIKE ${pattern})
+      )
+    )`);
+  }
+  if (criteria.from) {
+    conditions.push(eq(ediscoveryEmails.fromAddress, criteria.from.toLowerCase()));
+  }
+  if (criteria.dateFrom) {
+    conditions.push(sql`${ediscoveryEmails.sentAt} >= ${criteria.dateFrom}`);
+  }
+  if (criteria.dateTo) {
+    conditions.push(sql`${ediscoveryEmails.sentAt} < (${criteria.dateTo}::date + 1)`);
+  }
+  if (typeof criteria.hasAttachments === 'boolean') {
+    conditions.push(eq(ediscoveryEmails.hasAttachments, criteria.hasAttachments));
+  }
+  if (criteria.tags && criteria.tags.length > 0) {
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM ${ediscoveryEmailTags}
+      WHERE ${ediscoveryEmailTags.emailId} = ${ediscoveryEmails.id}
+      AND ${inArray(ediscoveryEmailTags.label, criteria.tags)}
+    )`);
+  }
+
+  const matches = await db
+    .select({ id: ediscoveryEmails.id })
+    .from(ediscoveryEmails)
+    .innerJoin(ediscoveryUploads, eq(ediscoveryEmails.uploadId, ediscoveryUploads.id))
+    .where(and(...conditions));
+
+  if (matches.length === 0) return 0;
+
+  const inserted = await db
+    .insert(ediscoveryProductionSetEmails)
+    .values(matches.map(({ id }) => ({ productionSetId: set.id, emailId: id })))
+    .onConflictDoNothing()
+    .returning({ id: ediscoveryProductionSetEmails.id });
+
+  return inserted.length;
+}
+
+type ProducedEmail = Pick<EdiscoveryEmail,
+  'id' | 'subject' | 'fromAddress' | 'toAddresses' | 'ccAddresses' | 'bccAddresses' |
+  'sentAt' | 'bodyText' | 'messageId' | 'sourceFilename' | 'sha256'
+> & { attachmentNames: string[] };
+
+interface PdfOptions {
+  prefix: string;
+  digits: number;
+  endorsement: string | null;
+}
+
+// One wrapping Page per email; the fixed footer stamps the Bates number of each physical page
+async function emailPage(email: ProducedEmail, batesStart: number, options: PdfOptions) {
+  const { Page, Text, View } = await import('@react-pdf/renderer');
+  const React = await import('react');
+  const line = (text: string) => React.createElement(Text, { style: { fontSize: 11, marginBottom: 4 } }, text);
+
+  return React.createElement(Page, { key: email.id, size: 'A4', style: { padding: 30, paddingBottom: 45 } },
+    React.createElement(View, { style: { marginBottom: 16 } },
+      React.createElement(Text, { style: { fontSize: 16, marginBottom: 8 } }, email.subject || 'No Subject'),
+      line(`From: ${email.fromAddress || 'Unknown'}`),
+      line(`To: ${email.toAddresses?.join(', ') || 'Unknown'}`),
+      email.ccAddresses && email.ccAddresses.length > 0 ? line(`CC: ${email.ccAddresses.join(', ')}`) : null,
+      line(`Date: ${email.sentAt ? email.sentAt.toUTCString() : 'Unknown'}`),
+      email.attachmentNames.length > 0 ? line(`Attachments: ${email.attachmentNames.join(', ')}`) : null,
+    ),
+    React.createElement(View, { style: { borderTop: '1px solid #ccc', paddingTop: 16 } },
+      React.createElement(Text, { style: { fontSize: 10 } }, email.bodyText || 'No content')
+    ),
+    options.endorsement
+      ? React.createElement(Text, { fixed: true, style: { position: 'absolute', bottom: 20, left: 30, fontSize: 8 } }, options.endorsement)
+      : null,
+    React.createElement(Text, {
+      fixed: true,
+      style: { position: 'absolute', bottom: 20, right: 30, fontSize: 9 },
+      render: ({ subPageNumber }: { subPageNumber: number }) =>
+        formatBates(options.prefix, options.digits, batesStart + subPageNumber - 1),
+    })
+  );
+}
+
+async function renderPdf(pages: any[]): Promise<Buffer> {
+  const { Document, pdf } = await import('@react-pdf/renderer');
+  const React = await import('react');
+  const stream = await pdf(React.createElement(Document, {}, ...pages)).toBuffer();
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream as any) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+async function countPdfPages(buffer: Buffer): Promise<number> {
+  const { PDFParse } = await import('pdf-parse');
+  // pdf.js takes ownership of the data it is given, so pass a copy
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  try {
+    const info = await parser.getInfo();
+    return info.total;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/**
+ * Produce the responsive emails of a set that have no Bates numbers yet, with a privilege
+ * log of the privileged emails not logged before. The ZIP is stored in object storage.
+ */
+export async function createProduction(setId: string, producedById: string): Promise<EdiscoveryProduction> {
+  const [set] = await db
+    .select()
+    .from(ediscoveryProductionSets)
+    .where(eq(ediscoveryProductionSets.id, setId))
+    .limit(1);
+  if (!set) {
+    throw new ProductionError('Production set not found');
+  }
+
+  const members = await db
+    .select({
+      id: ediscoveryEmails.id,
+      subject: ediscoveryEmails.subject,
+      fromAddress: ediscoveryEmails.fromAddress,
+      toAddresses: ediscoveryEmails.toAddresses,
+      ccAddresses: ediscoveryEmails.ccAddresses,
+      bccAddresses: ediscoveryEmails.bccAddresses,
+      sentAt: ediscoveryEmails.sentAt,
+      bodyText: ediscoveryEmails.bodyText,
+      messageId: ediscoveryEmails.messageId,
+      sourceFilename: ediscoveryEmails.sourceFilename,
+      sha256: ediscoveryEmails.sha256,
+      reviewStatus: ediscoveryProductionSetEmails.reviewStatus,
+      privilegeBasis: ediscoveryProductionSetEmails.privilegeBasis,
+      reviewNote: ediscoveryProductionSetEmails.reviewNote,
+    })
+    .from(ediscoveryProductionSetEmails)
+    .innerJoin(ediscoveryEmails, eq(ediscoveryProductionSetEmails.emailId, ediscoveryEmails.id))
+    .where(and(
+      eq(ediscoveryProductionSetEmails.productionSetId, set.id),
+      inArray(ediscoveryProductionSetEmails.reviewStatus, ['responsive', 'privileged'])
+    ))
+    .orderBy(asc(ediscoveryEmails.sentAt), asc(ediscoveryEmails.id));
+
+  const numbered = await db
+    .select({ emailId: ediscoveryBatesNumbers.emailId, batesEnd: ediscoveryBatesNumbers.batesEnd })
+    .from(ediscoveryBatesNumbers)
+    .where(and(
+      eq(ediscoveryBatesNumbers.projectId, set.projectId),
+      eq(ediscoveryBatesNumbers.batesPrefix, set.batesPrefix)
+    ));
+  const numberedIds = new Set(numbered.map(row => row.emailId));
+
+  const logged = await db
+    .select({ emailId: ediscoveryPrivilegeLogEntries.emailId, logNumber: ediscoveryPrivilegeLogEntries.logNumber })
+    .from(ediscoveryPrivilegeLogEntries)
+    .where(and(
+      eq(ediscoveryPrivilegeLogEntries.projectId, set.projectId),
+      eq(ediscoveryPrivilegeLogEntries.batesPrefix, set.batesPrefix)
+    ));
+  const loggedIds = new Set(logged.map(row => row.emailId));
+
+  const responsive = members.filter(m => m.reviewStatus === 'responsive' && !numberedIds.has(m.id));
+  const privileged = members.filter(m => m.reviewStatus === 'privileged' && !loggedIds.has(m.id));
+  if (responsive.length === 0 && privileged.length === 0) {
+    throw new ProductionError('No responsive or privileged emails to produce. Emails already produced or logged with this Bates prefix are not produced again.');
+  }
+
+  const attachmentRows = responsive.length > 0
+    ? await db
+      .select({ emailId: ediscoveryAttachments.emailId, filename: ediscoveryAttachments.filename })
+      .from(ediscoveryAttachments)
+      .where(inArray(ediscoveryAttachments.emailId, responsive.map(m => m.id)))
+    : [];
+  const attachmentNames = new Map<string, string[]>();
+  for (const { emailId, filename } of attachmentRows) {
+    attachmentNames.set(emailId, [...(attachmentNames.get(emailId) || []), filename]);
+  }
+
+  const [{ count: previousVolumes }] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(ediscoveryProductions)
+    .where(and(
+      eq(ediscoveryProductions.projectId, set.projectId),
+      eq(ediscoveryProductions.batesPrefix, set.batesPrefix)
+    ));
+  const volume = `${set.batesPrefix}${String(previousVolumes + 1).padStart(3, '0')}`;
+  const options: PdfOptions = { prefix: set.batesPrefix, digits: set.batesDigits, endorsement: set.endorsement };
+
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+
+  // Number each email from the end of the project's sequence, rendering it alone to count its pages
+  let nextNumber = numbered.reduce((max, row) => Math.max(max, row.batesEnd), 0) + 1;
+  const batesStart = nextNumber;
+  const produced: Array<ProducedEmail & { batesStart: number; batesEnd: number }> = [];
+  const datLines = [datLine(DAT_FIELDS)];
+  const optLines: string[] = [];
+  for (const member of responsive) {
+    const email: ProducedEmail = { ...member, attachmentNames: attachmentNames.get(member.id) || [] };
+    const pdfBuffer = await renderPdf([await emailPage(email, nextNumber, options)]);
+    const pageCount = await countPdfPages(pdfBuffer);
+    const begBates = formatBates(set.batesPrefix, set.batesDigits, nextNumber);
+    const endBates = formatBates(set.batesPrefix, set.batesDigits, nextNumber + pageCount - 1);
+    const imagePath = `IMAGES\\${begBates}.pdf`;
+
+    zip.file(`IMAGES/${begBates}.pdf`, pdfBuffer);
+    datLines.push(datLine([
+      begBates, endBates, pageCount, formatDateTime(email.sentAt), email.fromAddress,
+      email.toAddresses?.join('; '), email.ccAddresses?.join('; '), email.bccAddresses?.join('; '),
+      email.subject, email.messageId, email.sourceFilename, email.attachmentNames.join('; '),
+      email.sha256, imagePath,
+    ]));
+    for (let page = 0; page < pageCount; page++) {
+      const pageBates = formatBates(set.batesPrefix, set.batesDigits, nextNumber + page);
+      optLines.push([pageBates, volume, imagePath, page === 0 ? 'Y' : '', '', '', page === 0 ? pageCount : ''].join(','));
+    }
+
+    produced.push({ ...email, batesStart: nextNumber, batesEnd: nextNumber + pageCount - 1 });
+    nextNumber += pageCount;
+  }
+
+  const pageCount = nextNumber - batesStart;
+  if (produced.length > 0) {
+    const pages = [];
+    for (const email of produced) {
+      pages.push(await emailPage(email, email.batesStart, options));
+    }
+    zip.file(`${volume}.pdf`, await renderPdf(pages));
+    zip.file(`DATA/${volume}.dat`, '\uFEFF' + datLines.join('\r\n') + '\r\n');
+    zip.file(`DATA/${volume}.opt`, optLines.join('\r\n') + '\r\n');
+  }
+
+  // Log numbers continue from the project's earlier volumes
+  const firstLogNumber = logged.reduce((max, row) => Math.max(max, row.logNumber), 0) + 1;
+  const privilegeLog = [
+    csvLine(['Log No', 'Date', 'From', 'To', 'CC', 'Subject', 'Privilege Basis', 'Description', 'Source File']),
+    ...privileged.map((email, index) => csvLine([
+      `PRIV-${String(firstLogNumber + index).padStart(4, '0')}`,
+      formatDateTime(email.sentAt),
+      email.fromAddress,
+      email.toAddresses?.join('; '),
+      email.ccAddresses?.join('; '),
+      email.subject,
+      email.privilegeBasis,
+      email.reviewNote,
+      email.sourceFilename,
+    ])),
+  ];
+  zip.file(`${volume}_privilege_log.csv`, '\uFEFF' + privilegeLog.join('\r\n') + '\r\n');
+
+  const zipBuffer = await zip.generateAsync({ type: 'nodebuffer' });
+  const storageKey = await new ObjectStorageService().uploadObject(
+    zipBuffer,
+    `ediscovery/productions/${set.projectId}/${volume}-${Date.now()}.zip`,
+    'application/zip'
+  );
+
+  // The unique (project, prefix, start) constraints stop two concurrent productions sharing numbers;
+  // the ZIP of a production that is not recorded is removed again
+  try {
+    return await db.transaction(async (tx) => {
+      const [production] = await tx.insert(ediscoveryProductions).values({
+        productionSetId: set.id,
+        projectId: set.projectId,
+        volume,
+        batesPrefix: set.batesPrefix,
+        batesStart: produced.length > 0 ? batesStart : null,
+        batesEnd: produced.length > 0 ? nextNumber - 1 : null,
+        emailCount: produced.length,
+        pageCount,
+        privilegedCount: privileged.length,
+        storageKey,
+        producedById,
+      }).returning();
+
+      if (produced.length > 0) {
+        await tx.insert(ediscoveryBatesNumbers).values(produced.map(email => ({
+          projectId: set.projectId,
+          batesPrefix: set.batesPrefix,
+          emailId: email.id,
+          productionId: production.id,
+          batesStart: email.batesStart,
+          batesEnd: email.batesEnd,
+        })));
+      }
+
+      if (privileged.length > 0) {
+        await tx.insert(ediscoveryPrivilegeLogEntries).values(privileged.map((email, index) => ({
+          projectId: set.projectId,
+          batesPrefix: set.batesPrefix,
+          emailId: email.id,
+          productionId: production.id,
+          logNumber: firstLogNumber + index,
+        })));
+      }
+
+      return production;
+    });
+  } catch (error) {
+    try {
+      await new ObjectStorageService().deleteFile(storageKey.replace(/^\/objects\//, ''));
+    } catch (cleanupError) {
+      console.error(`[eDiscovery Production] Failed to delete ${storageKey}:`, cleanupError);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,480 @@
+/**
+ * eDiscovery Threading and Duplicate Detection
+ *
+ * Rebuilds conversation threads and duplicate groups across all of a project's uploads:
+ * - Threads are linked by Message-ID / In-Reply-To / References headers. Replies with no
+ *   resolvable headers fall back to the normalised subject and a shared participant.
+ * - Exact duplicates have the same sender, normalised subject, sent time and body hash.
+ * - Near duplicates have a MinHash-estimated similarity of at least 90% over the shingles
+ *   of the text the sender wrote (quoted history removed).
+ * - A message is inclusive unless a later message in its thread contains its text and
+ *   all of its attachments, so a thread can be reviewed from its inclusive messages.
+ */
+
+import { db } from './db';
+import { ediscoveryEmails, ediscoveryUploads, ediscoveryAttachments } from '../shared/schema';
+import { eq, inArray } from 'drizzle-orm';
+
+// Words per shingle and number of MinHash functions (split into LSH bands of BAND_ROWS)
+const SHINGLE_SIZE = 5;
+const MINHASH_SIZE = 64;
+const BAND_ROWS = 4;
+
+// Messages with less text than this are only matched as exact duplicates
+const MIN_NEAR_DUPLICATE_WORDS = 25;
+
+export const NEAR_DUPLICATE_THRESHOLD = 0.9;
+
+// Rows loaded per query when reading bodies and attachments
+const BATCH_SIZE = 500;
+
+// Reply/forward prefixes in English and common European clients (RE:, FW:, AW:, WG:, SV:, TR: ...)
+const SUBJECT_PREFIX = /^\s*((re|fw|fwd|aw|wg|sv|vs|tr|antw|rif|enc)(\[\d+\])?\s*:|\[external\])\s*/i;
+
+// Lines that start the quoted history of a reply or forward
+const QUOTE_HEADER_PATTERNS = [
+  /^-{2,}\s*(original message|forwarded message)\s*-{2,}/i,
+  /^_{10,}\s*$/,
+  /^on .{5,200} wrote:\s*$/i,
+];
+
+export function normalizeSubject(subject?: string | null): string {
+  let normalized = (subject || '').trim();
+  let previous: string;
+  do {
+    previous = normalized;
+    normalized = normalized.replace(SUBJECT_PREFIX, '');
+  } while (normalized !== previous);
+  return normalized.replace(/\s+/g, ' ').toLowerCase();
+}
+
+function isReplySubject(subject?: string | null): boolean {
+  return SUBJECT_PREFIX.test(subject || '');
+}
+
+/**
+ * Message IDs from a Message-ID, In-Reply-To or References header value
+ */
+export function parseMessageIds(header?: string | string[] | null): string[] {
+  if (!header) return [];
+  const values = Array.isArray(header) ? header : [header];
+  const ids: string[] = [];
+  for (const value of values) {
+    const bracketed = value.match(/<[^<>\s]+>/g);
+    if (bracketed) {
+      ids.push(...bracketed);
+    } else if (value.trim()) {
+      ids.push(...value.trim().split(/\s+/).map(id => `<${id.replace(/^<|>$/g, '')}>`));
+    }
+  }
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Text the sender wrote, without the quoted history of a reply or forward
+ */
+export function stripQuotedText(body: string): string {
+  const lines = body.split(/\r?\n/);
+  const kept: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (QUOTE_HEADER_PATTERNS.some(pattern => pattern.test(line))) break;
+    // Outlook reply header: "From: ..." followed by "Sent:" or "Date:" within a few lines
+    if (/^from:\s/i.test(line) && lines.slice(i + 1, i + 5).some(next => /^\s*(sent|date):\s/i.test(next))) break;
+    if (line.startsWith('>')) continue;
+    kept.push(lines[i]);
+  }
+  return kept.join('\n');
+}
+
+// Lowercase words only, so formatting differences between PST exports are ignored
+export function normalizeForComparison(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\u00c0-\u024f]+/g, ' ').trim();
+}
+
+// FNV-1a hash of a string
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 finaliser, used to derive the MinHash functions from one shingle hash
+function mixHash(value: number): number {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+const MINHASH_SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => mixHash(i + 1));
+
+/**
+ * MinHash signature of the word shingles of an email body (quoted history removed)
+ * @returns The signature, or null if the text is too short for near-duplicate matching
+ */
+export function computeMinHash(body: string): number[] | null {
+  const words = normalizeForComparison(stripQuotedText(body)).split(' ').filter(Boolean);
+  if (words.length < MIN_NEAR_DUPLICATE_WORDS) return null;
+
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    const shingleHash = hashString(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    for (let j = 0; j < MINHASH_SIZE; j++) {
+      const value = mixHash(shingleHash ^ MINHASH_SEEDS[j]);
+      if (value < signature[j]) signature[j] = value;
+    }
+  }
+  return signature;
+}
+
+// Estimated Jaccard similarity of two MinHash signatures
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) matches++;
+  }
+  return matches / a.length;
+}
+
+interface ThreadingEmail {
+  id: string;
+  messageId: string | null;
+  inReplyTo: string | null;
+  referenceIds: string[] | null;
+  subject: string | null;
+  fromAddress: string | null;
+  toAddresses: string[] | null;
+  ccAddresses: string[] | null;
+  sentAt: Date | null;
+  sha256: string;
+  contentMinhash: number[] | null;
+  createdAt: Date;
+  normalizedSubject: string | null;
+  threadId: string | null;
+  isInclusive: boolean;
+  duplicateOfId: string | null;
+  duplicateType: string | null;
+  duplicateSimilarity: number | null;
+}
+
+interface DuplicateMatch {
+  originalId: string;
+  type: 'exact' | 'near';
+  similarity: number;
+}
+
+// Union-find over email ids
+class ThreadGroups {
+  private parent = new Map<string, string>();
+
+  find(id: string): string {
+    let root = id;
+    while (this.parent.has(root) && this.parent.get(root) !== root) {
+      root = this.parent.get(root)!;
+    }
+    this.parent.set(id, root);
+    return root;
+  }
+
+  union(a: string, b: string): void {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) this.parent.set(rootB, rootA);
+  }
+}
+
+const byIngestOrder = (a: ThreadingEmail, b: ThreadingEmail) =>
+  a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id);
+
+const sentTime = (email: ThreadingEmail) => email.sentAt?.getTime() ?? 0;
+
+/**
+ * The first ingested copy of each message is the original; later copies are exact
+ * duplicates (same sender, subject, sent time and body) or near duplicates (MinHash).
+ */
+function findDuplicates(emails: ThreadingEmail[]): Map<string, DuplicateMatch> {
+  const duplicates = new Map<string, DuplicateMatch>();
+  const originalsByKey = new Map<string, string>();
+  const bands = new Map<string, string[]>();
+  const signatures = new Map<string, number[]>();
+
+  for (const email of [...emails].sort(byIngestOrder)) {
+    const exactKey = [
+      email.fromAddress || '',
+      normalizeSubject(email.subject),
+      email.sentAt?.toISOString() || '',
+      email.sha256,
+    ].join('|');
+    const exactOriginal = originalsByKey.get(exactKey);
+    if (exactOriginal) {
+      duplicates.set(email.id, { originalId: exactOriginal, type: 'exact', similarity: 1 });
+      continue;
+    }
+    originalsByKey.set(exactKey, email.id);
+
+    const signature = email.contentMinhash;
+    if (!signature || signature.length !== MINHASH_SIZE) continue;
+
+    // Candidates share at least one LSH band with this signature
+    const bandKeys: string[] = [];
+    for (let start = 0; start < MINHASH_SIZE; start += BAND_ROWS) {
+      bandKeys.push(`${start}:${signature.slice(start, start + BAND_ROWS).join(',')}`);
+    }
+    let best: DuplicateMatch | null = null;
+    const candidates = new Set(bandKeys.flatMap(key => bands.get(key) || []));
+    for (const candidateId of Array.from(candidates)) {
+      const similarity = estimateSimilarity(signature, signatures.get(candidateId)!);
+      if (similarity >= NEAR_DUPLICATE_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { originalId: candidateId, type: 'near', similarity };
+      }
+    }
+    if (best) {
+      duplicates.set(email.id, best);
+      continue;
+    }
+
+    // Only originals are indexed, so every duplicate points at an original
+    signatures.set(email.id, signature);
+    for (const key of bandKeys) {
+      const bucket = bands.get(key);
+      if (bucket) bucket.push(email.id);
+      else bands.set(key, [email.id]);
+    }
+  }
+
+  return duplicates;
+}
+
+/**
+ * Group emails into threads. Returns the thread id (the earliest message's id) per email.
+ */
+function buildThreads(emails: ThreadingEmail[], duplicates: Map<string, DuplicateMatch>): Map<string, string> {
+  const groups = new ThreadGroups();
+  const idsByMessageId = new Map<string, string[]>();
+  for (const email of emails) {
+    if (!email.messageId) continue;
+    const ids = idsByMessageId.get(email.messageId);
+    if (ids) ids.push(email.id);
+    else idsByMessageId.set(email.messageId, [email.id]);
+  }
+
+  const linked = new Set<string>();
+  for (const email of emails) {
+    const parents = [...parseMessageIds(email.inReplyTo), ...(email.referenceIds || [])];
+    for (const parentMessageId of parents) {
+      for (const parentId of idsByMessageId.get(parentMessageId) || []) {
+        groups.union(parentId, email.id);
+        linked.add(email.id);
+      }
+    }
+  }
+
+  // Copies of the same message belong to the same thread
+  duplicates.forEach((match, id) => groups.union(match.originalId, id));
+
+  // Replies whose headers did not resolve join the latest earlier message with the
+  // same normalised subject that shares a participant
+  const bySubject = new Map<string, ThreadingEmail[]>();
+  for (const email of emails) {
+    const subject = normalizeSubject(email.subject);
+    if (!subject) continue;
+    const group = bySubject.get(subject);
+    if (group) group.push(email);
+    else bySubject.set(subject, [email]);
+  }
+  bySubject.forEach(group => {
+    if (group.length < 2) return;
+    group.sort((a, b) => sentTime(a) - sentTime(b));
+    for (let i = 1; i < group.length; i++) {
+      const reply = group[i];
+      if (linked.has(reply.id) || !isReplySubject(reply.subject)) continue;
+      const participants = new Set([reply.fromAddress, ...(reply.toAddresses || []), ...(reply.ccAddresses || [])].filter(Boolean));
+      for (let j = i - 1; j >= 0; j--) {
+        const earlier = group[j];
+        const shared = [earlier.fromAddress, ...(earlier.toAddresses || []), ...(earlier.ccAddresses || [])]
+          .some(address => address && participants.has(address));
+        if (shared) {
+          groups.union(earlier.id, reply.id);
+          break;
+        }
+      }
+    }
+  });
+
+  const rootByGroup = new Map<string, ThreadingEmail>();
+  for (const email of emails) {
+    const group = groups.find(email.id);
+    const current = rootByGroup.get(group);
+    if (!current || sentTime(email) < sentTime(current) || (sentTime(email) === sentTime(current) && byIngestOrder(email, current) < 0)) {
+      rootByGroup.set(group, email);
+    }
+  }
+
+  const threadIds = new Map<string, string>();
+  for (const email of emails) {
+    threadIds.set(email.id, rootByGroup.get(groups.find(email.id))!.id);
+  }
+  return threadIds;
+}
+
+/**
+ * Mark which messages of each thread are inclusive. A message is not inclusive when a
+ * later message in the thread contains its own text (or replies to it, when it has no
+ * text of its own) and all of its attachments.
+ */
+async function findNonInclusive(
+  emails: ThreadingEmail[],
+  threadIds: Map<string, string>,
+  duplicates: Map<string, DuplicateMatch>
+): Promise<Set<string>> {
+  const threads = new Map<string, ThreadingEmail[]>();
+  for (const email of emails) {
+    if (duplicates.has(email.id)) continue;
+    const threadId = threadIds.get(email.id)!;
+    const members = threads.get(threadId);
+    if (members) members.push(email);
+    else threads.set(threadId, [email]);
+  }
+
+  const multiMessageThreads = Array.from(threads.values()).filter(members => members.length > 1);
+  const nonInclusive = new Set<string>();
+
+  // Bodies and attachment hashes are loaded a batch of threads at a time
+  let batch: ThreadingEmail[][] = [];
+  let batchSize = 0;
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const ids = batch.flat().map(email => email.id);
+    const [bodies, attachments] = await Promise.all([
+      db.select({ id: ediscoveryEmails.id, bodyText: ediscoveryEmails.bodyText })
+        .from(ediscoveryEmails)
+        .where(inArray(ediscoveryEmails.id, ids)),
+      db.select({ emailId: ediscoveryAttachments.emailId, sha256: ediscoveryAttachments.sha256 })
+        .from(ediscoveryAttachments)
+        .where(inArray(ediscoveryAttachments.emailId, ids)),
+    ]);
+
+    const fullText = new Map<string, string>();
+    const ownText = new Map<string, string>();
+    for (const { id, bodyText } of bodies) {
+      fullText.set(id, normalizeForComparison(bodyText || ''));
+      ownText.set(id, normalizeForComparison(stripQuotedText(bodyText || '')));
+    }
+    const attachmentHashes = new Map<string, Set<string>>();
+    for (const { emailId, sha256 } of attachments) {
+      const hashes = attachmentHashes.get(emailId);
+      if (hashes) hashes.add(sha256);
+      else attachmentHashes.set(emailId, new Set([sha256]));
+    }
+
+    const contains = (later: ThreadingEmail, earlier: ThreadingEmail): boolean => {
+      const text = ownText.get(earlier.id) || '';
+      const textIncluded = text
+        ? (fullText.get(later.id) || '').includes(text)
+        : !!earlier.messageId && (
+          parseMessageIds(later.inReplyTo).includes(earlier.messageId) ||
+          (later.referenceIds || []).includes(earlier.messageId)
+        );
+      if (!textIncluded) return false;
+      const laterHashes = attachmentHashes.get(later.id);
+      return Array.from(attachmentHashes.get(earlier.id) || []).every(hash => laterHashes?.has(hash));
+    };
+
+    for (const members of batch) {
+      for (const email of members) {
+        for (const other of members) {
+          if (other.id === email.id || sentTime(other) < sentTime(email)) continue;
+          if (!contains(other, email)) continue;
+          // Messages that contain each other: keep the later one
+          const mutual = contains(email, other);
+          if (!mutual || sentTime(other) > sentTime(email) || other.id > email.id) {
+            nonInclusive.add(email.id);
+            break;
+          }
+        }
+      }
+    }
+    batch = [];
+    batchSize = 0;
+  };
+
+  for (const members of multiMessageThreads) {
+    batch.push(members);
+    batchSize += members.length;
+    if (batchSize >= BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return nonInclusive;
+}
+
+/**
+ * Rebuild threads, duplicate links and inclusive flags for all emails in a project.
+ * Run after each ingestion, since a new upload can contain the parent or an earlier
+ * copy of messages ingested before.
+ */
+export async function rebuildThreadsAndDuplicates(projectId: string): Promise<{
+  emailCount: number;
+  threadCount: number;
+  duplicateCount: number;
+}> {
+  const emails: ThreadingEmail[] = await db
+    .select({
+      id: ediscoveryEmails.id,
+      messageId: ediscoveryEmails.messageId,
+      inReplyTo: ediscoveryEmails.inReplyTo,
+      referenceIds: ediscoveryEmails.referenceIds,
+      subject: ediscoveryEmails.subject,
+      fromAddress: ediscoveryEmails.fromAddress,
+      toAddresses: ediscoveryEmails.toAddresses,
+      ccAddresses: ediscoveryEmails.ccAddresses,
+      sentAt: ediscoveryEmails.sentAt,
+      sha256: ediscoveryEmails.sha256,
+      contentMinhash: ediscoveryEmails.contentMinhash,
+      createdAt: ediscoveryEmails.createdAt,
+      normalizedSubject: ediscoveryEmails.normalizedSubject,
+      threadId: ediscoveryEmails.threadId,
+      isInclusive: ediscoveryEmails.isInclusive,
+      duplicateOfId: ediscoveryEmails.duplicateOfId,
+      duplicateType: ediscoveryEmails.duplicateType,
+      duplicateSimilarity: ediscoveryEmails.duplicateSimilarity,
+    })
+    .from(ediscoveryEmails)
+    .innerJoin(ediscoveryUploads, eq(ediscoveryEmails.uploadId, ediscoveryUploads.id))
+    .where(eq(ediscoveryUploads.projectId, projectId));
+
+  const duplicates = findDuplicates(emails);
+  const threadIds = buildThreads(emails, duplicates);
+  const nonInclusive = await findNonInclusive(emails, threadIds, duplicates);
+
+  // Only write emails whose threading or duplicate fields changed
+  for (const email of emails) {
+    const duplicate = duplicates.get(email.id);
+    const update = {
+      normalizedSubject: normalizeSubject(email.subject),
+      threadId: threadIds.get(email.id)!,
+      isInclusive: !duplicate && !nonInclusive.has(email.id),
+      duplicateOfId: duplicate?.originalId ?? null,
+      duplicateType: duplicate?.type ?? null,
+      duplicateSimilarity: duplicate ? Math.round(duplicate.similarity * 100) : null,
+    };
+    const changed = (Object.keys(update) as Array<keyof typeof update>).some(key => update[key] !== email[key]);
+    if (changed) {
+      await db.update(ediscoveryEmails).set(update).where(eq(ediscoveryEmails.id, email.id));
+    }
+  }
+
+  return {
+    emailCount: emails.length,
+    threadCount: new Set(Array.from(threadIds.values())).size,
+    duplicateCount: duplicates.size,
+  };
+}
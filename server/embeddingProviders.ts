@@ -0,0 +1,251 @@
+// Embedding Provider Abstraction Layer
+// Supports Voyage AI, OpenAI and a local CPU model (no API key or network needed once the model is cached)
+// for eDiscovery emails, correspondence letters and contract pages.
+//
+// Each company picks a provider (companies.embeddingProvider). Every stored vector records the
+// model that produced it, and searches only compare vectors from the same model, so switching
+// provider never mixes embedding spaces; embeddingReindex.ts re-embeds the old rows.
+
+import OpenAI from 'openai';
+import { VoyageAIClient } from 'voyageai';
+import { eq } from 'drizzle-orm';
+import { db } from './db';
+import { companies, projects, businessUnits } from '@shared/schema';
+import { withRetry } from './aiProviders';
+import { EMAIL_EMBEDDING_DIMENSIONS, LEGAL_EMBEDDING_DIMENSIONS } from './vectorSearch';
+
+export const EMBEDDING_PROVIDERS = ['voyage', 'openai', 'local'] as const;
+export type EmbeddingProviderName = typeof EMBEDDING_PROVIDERS[number];
+
+// "document" for indexing, "query" for search queries (some models embed them differently)
+export type EmbeddingInputType = 'document' | 'query';
+
+// General text (eDiscovery emails) or legal text (letters and contract pages)
+export type EmbeddingPurpose = 'general' | 'legal';
+
+export interface EmbeddingResult {
+  embeddings: number[][]; // Same order as the input texts
+  totalTokens: number;
+}
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string; // Recorded with every stored vector
+  readonly costPerMillionTokens: number; // USD, for AI usage logs
+  embed(texts: string[], inputType?: EmbeddingInputType): Promise<EmbeddingResult>;
+}
+
+// Default local model: 384 dimensions, ~23MB quantized, a few ms per text on CPU
+const DEFAULT_LOCAL_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+// Dimensions of the vector column each purpose is stored in
+export function embeddingColumnDimensions(purpose: EmbeddingPurpose): number {
+  return purpose === 'legal' ? LEGAL_EMBEDDING_DIMENSIONS : EMAIL_EMBEDDING_DIMENSIONS;
+}
+
+export function isEmbeddingProviderName(value: unknown): value is EmbeddingProviderName {
+  return typeof value === 'string' && (EMBEDDING_PROVIDERS as readonly string[]).includes(value);
+}
+
+// Voyage AI Provider
+// voyage-3-lite for general text (cheap, 512 dimensions), voyage-law-2 for legal documents (1024 dimensions)
+class VoyageEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'voyage' as const;
+  readonly model: string;
+  readonly costPerMillionTokens: number;
+  private client: VoyageAIClient;
+
+  constructor(apiKey: string, purpose: EmbeddingPurpose) {
+    this.client = new VoyageAIClient({ apiKey });
+    this.model = purpose === 'legal' ? 'voyage-law-2' : 'voyage-3-lite';
+    this.costPerMillionTokens = purpose === 'legal' ? 0.12 : 0.02;
+  }
+
+  async embed(texts: string[], inputType: EmbeddingInputType = 'document'): Promise<EmbeddingResult> {
+    const embeddings: number[][] = [];
+    let totalTokens = 0;
+
+    // Up to 64 texts per request; Voyage supports 32K context per text
+    for (let i = 0; i < texts.length; i += 64) {
+      const response = await withRetry(() => this.client.embed({
+        input: texts.slice(i, i + 64).map(text => text.substring(0, 32000)),
+        model: this.model,
+        inputType,
+      }), 'Voyage AI');
+      const batch = (response.data || [])
+        .slice()
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map(item => item.embedding || []);
+      embeddings.push(...batch);
+      totalTokens += response.usage?.totalTokens || 0;
+    }
+
+    return { embeddings, totalTokens };
+  }
+}
+
+// OpenAI Provider
+// text-embedding-3 models are shortened to the column size with the dimensions parameter
+class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  readonly costPerMillionTokens: number;
+  private client: OpenAI;
+  private dimensions: number;
+
+  constructor(apiKey: string, purpose: EmbeddingPurpose) {
+    this.client = new OpenAI({ apiKey });
+    this.model = purpose === 'legal' ? 'text-embedding-3-large' : 'text-embedding-3-small';
+    this.costPerMillionTokens = purpose === 'legal' ? 0.13 : 0.02;
+    this.dimensions = embeddingColumnDimensions(purpose);
+  }
+
+  async embed(texts: string[], _inputType: EmbeddingInputType = 'document'): Promise<EmbeddingResult> {
+    const embeddings: number[][] = [];
+    let totalTokens = 0;
+
+    // 32 texts per request keeps batches under OpenAI's per-request token limit;
+    // 24000 characters stays inside the 8191 token input limit
+    for (let i = 0; i < texts.length; i += 32) {
+      const response = await withRetry(() => this.client.embeddings.create({
+        model: this.model,
+        input: texts.slice(i, i + 32).map(text => text.substring(0, 24000) || ' '),
+        dimensions: this.dimensions,
+      }), 'OpenAI');
+      const batch = response.data
+        .slice()
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+      embeddings.push(...batch);
+      totalTokens += response.usage?.total_tokens || 0;
+    }
+
+    return { embeddings, totalTokens };
+  }
+}
+
+// Loaded local pipelines by model name (loading takes a few seconds, so it happens once)
+type FeatureExtractor = (texts: string[], options: { pooling: 'mean'; normalize: boolean }) => Promise<{ tolist(): number[][] }>;
+const localPipelines = new Map<string, Promise<FeatureExtractor>>();
+
+function loadLocalPipeline(model: string): Promise<FeatureExtractor> {
+  let loading = localPipelines.get(model);
+  if (!loading) {
+    loading = (async () => {
+      // Imported on first use so onnxruntime is only loaded by servers using the local model
+      const { pipeline, env } = await import('@huggingface/transformers');
+
+      // EMBEDDING_MODEL_PATH: directory of pre-downloaded models, for fully offline servers
+      if (process.env.EMBEDDING_MODEL_PATH) {
+        env.localModelPath = process.env.EMBEDDING_MODEL_PATH;
+        env.allowRemoteModels = false;
+      }
+      // EMBEDDING_MODEL_CACHE: where models downloaded from Hugging Face are kept
+      if (process.env.EMBEDDING_MODEL_CACHE) {
+        env.cacheDir = process.env.EMBEDDING_MODEL_CACHE;
+      }
+
+      console.log(`[Embeddings] Loading local model ${model}...`);
+      const extractor = await pipeline('feature-extraction', model, { dtype: 'q8' });
+      return extractor as unknown as FeatureExtractor;
+    })();
+    // Let a failed load (e.g. model not downloaded yet) be retried
+    loading.catch(() => localPipelines.delete(model));
+    localPipelines.set(model, loading);
+  }
+  return loading;
+}
+
+// Local CPU Provider (transformers.js / ONNX Runtime)
+// Vectors are shorter than the columns and are zero-padded when stored, which leaves cosine distances unchanged
+class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly model: string;
+  readonly costPerMillionTokens = 0;
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  async embed(texts: string[], _inputType: EmbeddingInputType = 'document'): Promise<EmbeddingResult> {
+    const extractor = await loadLocalPipeline(this.model);
+    const embeddings: number[][] = [];
+
+    // Small batches keep memory flat; the model only reads the first 256-512 tokens anyway
+    for (let i = 0; i < texts.length; i += 16) {
+      const output = await extractor(
+        texts.slice(i, i + 16).map(text => text.substring(0, 2000)),
+        { pooling: 'mean', normalize: true }
+      );
+      embeddings.push(...output.tolist());
+    }
+
+    return { embeddings, totalTokens: 0 };
+  }
+}
+
+// Factory function to create the embedding provider for a purpose
+export function createEmbeddingProvider(name: EmbeddingProviderName, purpose: EmbeddingPurpose): EmbeddingProvider {
+  if (name === 'local') {
+    return new LocalEmbeddingProvider(process.env.EMBEDDING_LOCAL_MODEL || DEFAULT_LOCAL_MODEL);
+  }
+
+  if (name === 'openai') {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        'OPENAI_API_KEY environment variable is not set. ' +
+        'Please add your OpenAI API key to use OpenAI embeddings.'
+      );
+    }
+    return new OpenAIEmbeddingProvider(apiKey, purpose);
+  }
+
+  const apiKey = process.env.VOYAGE_API_KEY;
+  if (!apiKey) {
+    throw new Error('VOYAGE_API_KEY environment variable is not set. Please add your Voyage AI API key.');
+  }
+  return new VoyageEmbeddingProvider(apiKey, purpose);
+}
+
+// Providers already warned about falling back to the local model
+const warnedFallbacks = new Set<string>();
+
+/**
+ * Provider a company's embeddings are made with. Falls back to the local model when the
+ * configured provider's API key is missing, so ingestion and search keep working offline;
+ * the fallback is deterministic, so documents and queries still use the same model.
+ */
+export function resolveEmbeddingProvider(name: string | null | undefined, purpose: EmbeddingPurpose): EmbeddingProvider {
+  const configured = isEmbeddingProviderName(name) ? name : 'voyage';
+  try {
+    return createEmbeddingProvider(configured, purpose);
+  } catch (error: any) {
+    if (!warnedFallbacks.has(configured)) {
+      warnedFallbacks.add(configured);
+      console.warn(`[Embeddings] ${error.message} Using the local embedding model instead.`);
+    }
+    return createEmbeddingProvider('local', purpose);
+  }
+}
+
+export async function getCompanyEmbeddingProvider(companyId: string, purpose: EmbeddingPurpose): Promise<EmbeddingProvider> {
+  const [company] = await db
+    .select({ embeddingProvider: companies.embeddingProvider })
+    .from(companies)
+    .where(eq(companies.id, companyId))
+    .limit(1);
+  return resolveEmbeddingProvider(company?.embeddingProvider, purpose);
+}
+
+// Provider of the company a project belongs to (project -> business unit -> company)
+export async function getProjectEmbeddingProvider(projectId: string, purpose: EmbeddingPurpose): Promise<EmbeddingProvider> {
+  const [company] = await db
+    .select({ embeddingProvider: companies.embeddingProvider })
+    .from(projects)
+    .innerJoin(businessUnits, eq(businessUnits.id, projects.businessUnitId))
+    .innerJoin(companies, eq(companies.id, businessUnits.companyId))
+    .where(eq(projects.id, projectId))
+    .limit(1);
+  return resolveEmbeddingProvider(company?.embeddingProvider, purpose);
+}
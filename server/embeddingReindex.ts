@@ -0,0 +1,290 @@
+/**
+ * Re-embedding job for a company's documents
+ *
+ * When a company switches embedding provider, its existing vectors were made by another
+ * model and are left out of vector search (searches only compare vectors from the current
+ * model). This job re-embeds eDiscovery emails, correspondence letters and contract pages
+ * whose embeddingModel differs from the company's current model, in batches, in the background.
+ * Progress is kept in memory; stale rows are counted from the database, so a job interrupted
+ * by a restart is simply started again and continues where it stopped.
+ */
+
+import { and, eq, gt, inArray, sql, type SQL, type AnyColumn } from 'drizzle-orm';
+import { db } from './db';
+import {
+  ediscoveryEmails,
+  ediscoveryAttachments,
+  correspondenceLetters,
+  contractSearchIndex,
+  contractReviewDocuments,
+  projects,
+  businessUnits,
+} from '@shared/schema';
+import { getCompanyEmbeddingProvider, type EmbeddingProvider, type EmbeddingProviderName } from './embeddingProviders';
+import { toStoredEmbedding, EMAIL_EMBEDDING_DIMENSIONS, LEGAL_EMBEDDING_DIMENSIONS, type StoredEmbedding } from './vectorSearch';
+import { prepareTextForEmbedding } from './semanticSearch';
+import { buildEmailEmbeddingText } from './ediscoveryIngest';
+
+// Rows embedded per provider call
+const BATCH_SIZE = 32;
+
+export interface StaleEmbeddingCounts {
+  emails: number;
+  letters: number;
+  contractPages: number;
+}
+
+export interface EmbeddingReindexJob {
+  companyId: string;
+  provider: EmbeddingProviderName; // Provider actually used (the local model if the configured one has no API key)
+  status: 'running' | 'completed' | 'failed';
+  total: number;
+  processed: number;
+  failed: number; // Rows left with their old embedding
+  startTime: number;
+  endTime?: number;
+  error?: string;
+}
+
+// Latest job per company
+const jobs = new Map<string, EmbeddingReindexJob>();
+
+// Rows not embedded by the current model (including rows with no embedding)
+function isStale(modelColumn: AnyColumn, model: string): SQL {
+  return sql`${modelColumn} IS DISTINCT FROM ${model}`;
+}
+
+function companyProjectIds(companyId: string) {
+  return db
+    .select({ id: projects.id })
+    .from(projects)
+    .innerJoin(businessUnits, eq(businessUnits.id, projects.businessUnitId))
+    .where(eq(businessUnits.companyId, companyId));
+}
+
+function emailScope(companyId: string): SQL {
+  return eq(ediscoveryEmails.companyId, companyId);
+}
+
+// Letters without enough text are handled by the correspondence "regenerate embeddings" action
+function letterScope(companyId: string): SQL {
+  return and(
+    inArray(correspondenceLetters.projectId, companyProjectIds(companyId)),
+    sql`length(${correspondenceLetters.extractedText}) >= 50`
+  )!;
+}
+
+function contractPageScope(companyId: string): SQL {
+  return inArray(
+    contractSearchIndex.revisionId,
+    db
+      .select({ id: contractReviewDocuments.id })
+      .from(contractReviewDocuments)
+      .where(inArray(contractReviewDocuments.projectId, companyProjectIds(companyId)))
+  );
+}
+
+async function countRows(table: typeof ediscoveryEmails | typeof correspondenceLetters | typeof contractSearchIndex, where: SQL): Promise<number> {
+  const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(table).where(where);
+  return row?.count || 0;
+}
+
+/**
+ * Number of rows per table not embedded by the company's current models
+ */
+export async function countStaleEmbeddings(companyId: string): Promise<StaleEmbeddingCounts> {
+  const general = await getCompanyEmbeddingProvider(companyId, 'general');
+  const legal = await getCompanyEmbeddingProvider(companyId, 'legal');
+
+  const [emails, letters, contractPages] = await Promise.all([
+    countRows(ediscoveryEmails, and(emailScope(companyId), isStale(ediscoveryEmails.embeddingModel, general.model))!),
+    countRows(correspondenceLetters, and(letterScope(companyId), isStale(correspondenceLetters.embeddingModel, legal.model))!),
+    countRows(contractSearchIndex, and(contractPageScope(companyId), isStale(contractSearchIndex.embeddingModel, legal.model))!),
+  ]);
+
+  return { emails, letters, contractPages };
+}
+
+export function getEmbeddingReindexJob(companyId: string): EmbeddingReindexJob | undefined {
+  return jobs.get(companyId);
+}
+
+// Embed a batch of texts, returning what to store for each (null if the vector doesn't fit the column)
+async function embedBatch(texts: string[], provider: EmbeddingProvider, columnDimensions: number): Promise<Array<StoredEmbedding | null>> {
+  const { embeddings } = await provider.embed(texts, 'document');
+  return texts.map((_, index) => toStoredEmbedding(embeddings[index], columnDimensions, provider.model));
+}
+
+function recordBatch(job: EmbeddingReindexJob, stored: Array<StoredEmbedding | null>) {
+  const embedded = stored.filter(Boolean).length;
+  job.processed += embedded;
+  job.failed += stored.length - embedded;
+}
+
+async function reembedEmails(job: EmbeddingReindexJob, provider: EmbeddingProvider) {
+  let lastId = '';
+  for (;;) {
+    const emails = await db
+      .select({
+        id: ediscoveryEmails.id,
+        subject: ediscoveryEmails.subject,
+        fromAddress: ediscoveryEmails.fromAddress,
+        toAddresses: ediscoveryEmails.toAddresses,
+        bodyText: ediscoveryEmails.bodyText,
+      })
+      .from(ediscoveryEmails)
+      .where(and(emailScope(job.companyId), isStale(ediscoveryEmails.embeddingModel, provider.model), gt(ediscoveryEmails.id, lastId)))
+      .orderBy(ediscoveryEmails.id)
+      .limit(BATCH_SIZE);
+    if (emails.length === 0) return;
+    lastId = emails[emails.length - 1].id;
+
+    const attachments = await db
+      .select({
+        emailId: ediscoveryAttachments.emailId,
+        filename: ediscoveryAttachments.filename,
+        extractedText: ediscoveryAttachments.extractedText,
+      })
+      .from(ediscoveryAttachments)
+      .where(inArray(ediscoveryAttachments.emailId, emails.map(email => email.id)));
+
+    const stored = await embedBatch(
+      emails.map(email => buildEmailEmbeddingText({
+        ...email,
+        attachments: attachments.filter(attachment => attachment.emailId === email.id),
+      })),
+      provider,
+      EMAIL_EMBEDDING_DIMENSIONS
+    );
+
+    for (let i = 0; i < emails.length; i++) {
+      if (!stored[i]) continue;
+      await db
+        .update(ediscoveryEmails)
+        .set({ embedding: stored[i]!.vector, embeddingModel: stored[i]!.model, embeddingDimensions: stored[i]!.dimensions })
+        .where(eq(ediscoveryEmails.id, emails[i].id));
+    }
+    recordBatch(job, stored);
+  }
+}
+
+async function reembedLetters(job: EmbeddingReindexJob, provider: EmbeddingProvider) {
+  let lastId = '';
+  for (;;) {
+    const letters = await db
+      .select({
+        id: correspondenceLetters.id,
+        source: correspondenceLetters.source,
+        extractedText: correspondenceLetters.extractedText,
+        sender: correspondenceLetters.sender,
+        recipient: correspondenceLetters.recipient,
+        subject: correspondenceLetters.subject,
+      })
+      .from(correspondenceLetters)
+      .where(and(letterScope(job.companyId), isStale(correspondenceLetters.embeddingModel, provider.model), gt(correspondenceLetters.id, lastId)))
+      .orderBy(correspondenceLetters.id)
+      .limit(BATCH_SIZE);
+    if (letters.length === 0) return;
+    lastId = letters[letters.length - 1].id;
+
+    // Same text as when the letter was first embedded (SharePoint letters embed the raw text)
+    const stored = await embedBatch(
+      letters.map(letter => letter.source === 'sharepoint'
+        ? letter.extractedText || ''
+        : prepareTextForEmbedding(letter.extractedText || '', letter.sender || undefined, letter.recipient || undefined, letter.subject || undefined)
+      ),
+      provider,
+      LEGAL_EMBEDDING_DIMENSIONS
+    );
+
+    for (let i = 0; i < letters.length; i++) {
+      if (!stored[i]) continue;
+      await db
+        .update(correspondenceLetters)
+        .set({ embeddingVector: stored[i]!.vector, embeddingModel: stored[i]!.model, embeddingDimensions: stored[i]!.dimensions })
+        .where(eq(correspondenceLetters.id, letters[i].id));
+    }
+    recordBatch(job, stored);
+  }
+}
+
+async function reembedContractPages(job: EmbeddingReindexJob, provider: EmbeddingProvider) {
+  let lastId = '';
+  for (;;) {
+    const pages = await db
+      .select({ id: contractSearchIndex.id, content: contractSearchIndex.content })
+      .from(contractSearchIndex)
+      .where(and(contractPageScope(job.companyId), isStale(contractSearchIndex.embeddingModel, provider.model), gt(contractSearchIndex.id, lastId)))
+      .orderBy(contractSearchIndex.id)
+      .limit(BATCH_SIZE);
+    if (pages.length === 0) return;
+    lastId = pages[pages.length - 1].id;
+
+    // Pages are capped like generateEmbeddings() does when a contract is first indexed
+    const stored = await embedBatch(pages.map(page => page.content.substring(0, 8000)), provider, LEGAL_EMBEDDING_DIMENSIONS);
+
+    for (let i = 0; i < pages.length; i++) {
+      if (!stored[i]) continue;
+      await db
+        .update(contractSearchIndex)
+        .set({ embedding: stored[i]!.vector, embeddingModel: stored[i]!.model, embeddingDimensions: stored[i]!.dimensions })
+        .where(eq(contractSearchIndex.id, pages[i].id));
+    }
+    recordBatch(job, stored);
+  }
+}
+
+async function runReindex(job: EmbeddingReindexJob, general: EmbeddingProvider, legal: EmbeddingProvider) {
+  try {
+    await reembedEmails(job, general);
+    await reembedLetters(job, legal);
+    await reembedContractPages(job, legal);
+    job.status = 'completed';
+    console.log(`[Embedding Reindex] Company ${job.companyId}: ${job.processed} re-embedded, ${job.failed} failed`);
+  } catch (error: any) {
+    job.status = 'failed';
+    job.error = error.message || 'Unknown error';
+    console.error(`[Embedding Reindex] Company ${job.companyId} failed:`, error);
+  } finally {
+    job.endTime = Date.now();
+  }
+
+  // The provider was changed again while this job ran: re-embed with the new one
+  if (job.status === 'completed') {
+    const current = await getCompanyEmbeddingProvider(job.companyId, 'general');
+    if (current.name !== job.provider) {
+      await startEmbeddingReindex(job.companyId);
+    }
+  }
+}
+
+/**
+ * Start re-embedding a company's documents with its current provider, in the background.
+ * Returns the running job if there already is one.
+ */
+export async function startEmbeddingReindex(companyId: string): Promise<EmbeddingReindexJob> {
+  const running = jobs.get(companyId);
+  if (running?.status === 'running') return running;
+
+  const general = await getCompanyEmbeddingProvider(companyId, 'general');
+  const legal = await getCompanyEmbeddingProvider(companyId, 'legal');
+  const stale = await countStaleEmbeddings(companyId);
+
+  const job: EmbeddingReindexJob = {
+    companyId,
+    provider: general.name,
+    status: 'running',
+    total: stale.emails + stale.letters + stale.contractPages,
+    processed: 0,
+    failed: 0,
+    startTime: Date.now(),
+  };
+  jobs.set(companyId, job);
+  console.log(`[Embedding Reindex] Company ${companyId}: re-embedding ${job.total} rows with ${general.model} / ${legal.model}`);
+
+  runReindex(job, general, legal).catch(error => {
+    console.error(`[Embedding Reindex] Company ${companyId} failed:`, error);
+  });
+
+  return job;
+}
@@ -0,0 +1,370 @@
+/**
+ * Hybrid Search
+ *
+ * Combines Postgres full-text ranking (generated tsvector columns with GIN indexes)
+ * with pgvector similarity (HNSW indexes) using reciprocal rank fusion, for:
+ * - eDiscovery emails and their attachments
+ * - Correspondence letters
+ * - Contract pages in the contract viewer
+ *
+ * Keyword query syntax:
+ * - Words are ANDed: `delay notice`
+ * - "Quoted phrases": `"extension of time"`
+ * - OR, NOT and a leading minus: `delay OR disruption -weather`
+ * - Proximity: `delay NEAR/5 notice` (within 5 words, either order)
+ * - Prefix: `variat*`
+ *
+ * Results carry a highlighted snippet from ts_headline with matches wrapped in <mark>.
+ * The vector side only compares rows embedded by the company's current embedding model.
+ */
+
+import { sql, and, eq, desc, inArray, isNotNull, cosineDistance, getTableColumns, type SQL } from 'drizzle-orm';
+import { db } from './db';
+import { ediscoveryEmails, ediscoveryAttachments, correspondenceLetters, contractSearchIndex } from '@shared/schema';
+import { generateEmbedding } from './semanticSearch';
+import { withVectorSearch, toStoredEmbedding, EMAIL_EMBEDDING_DIMENSIONS, LEGAL_EMBEDDING_DIMENSIONS } from './vectorSearch';
+import type { EmbeddingProvider } from './embeddingProviders';
+
+// Rank constant for reciprocal rank fusion (60 is the value from the original RRF paper)
+export const RRF_K = 60;
+
+// Largest distance accepted for NEAR/n
+const MAX_PROXIMITY = 20;
+
+// Text passed to ts_headline is capped, since headlines re-parse the whole document
+const HEADLINE_TEXT_LENGTH = 50000;
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+
+export interface FusedResult {
+  id: string;
+  score: number; // 0-1, 1 if ranked first by every search
+  keywordRank: number | null; // 1-based, null if not found by full-text search
+  semanticRank: number | null; // 1-based, null if not found by vector search
+}
+
+function lexemes(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9\u00c0-\u024f]+/).filter(Boolean);
+}
+
+// Words of a term as a tsquery operand; several words (e-mail, 15.2, quoted phrases) become a phrase
+function toOperand(text: string, prefix = false): string | null {
+  const words = lexemes(text);
+  if (words.length === 0) return null;
+  if (prefix) words[words.length - 1] += ':*';
+  return words.length === 1 ? words[0] : `(${words.join(' <-> ')})`;
+}
+
+// Within `distance` words of each other, in either order
+function proximity(left: string, right: string, distance: number): string {
+  const alternatives: string[] = [];
+  for (let d = 1; d <= distance; d++) {
+    alternatives.push(`${left} <${d}> ${right}`, `${right} <${d}> ${left}`);
+  }
+  return `(${alternatives.join(' | ')})`;
+}
+
+/**
+ * Convert a search box query into to_tsquery syntax
+ * @returns The tsquery text, or null if the query has no searchable words
+ */
+export function toTsQuery(query: string): string | null {
+  const tokens = query.match(/"[^"]*"?|[^\s"()]+/g) || [];
+  const groups: string[][] = [[]]; // OR of ANDs
+  let negateNext = false;
+  let nearDistance: number | null = null;
+
+  for (const token of tokens) {
+    const upper = token.toUpperCase();
+    if (upper === 'AND') continue;
+    if (upper === 'OR') {
+      if (groups[groups.length - 1].length > 0) groups.push([]);
+      continue;
+    }
+    if (upper === 'NOT') {
+      negateNext = true;
+      continue;
+    }
+    const near = upper.match(/^NEAR(?:\/(\d+))?$/);
+    if (near) {
+      nearDistance = Math.min(Math.max(parseInt(near[1] || '5'), 1), MAX_PROXIMITY);
+      continue;
+    }
+
+    if (token === '-') {
+      negateNext = true; // -"quoted phrase"
+      continue;
+    }
+
+    let text = token;
+    if (text.startsWith('-') && text.length > 1) {
+      negateNext = true;
+      text = text.substring(1);
+    }
+    const operand = text.startsWith('"')
+      ? toOperand(text.replace(/"/g, ''))
+      : toOperand(text, text.endsWith('*'));
+    if (!operand) continue;
+
+    const group = groups[groups.length - 1];
+    if (nearDistance !== null && group.length > 0 && !negateNext) {
+      group.push(proximity(group.pop()!, operand, nearDistance));
+    } else {
+      group.push(negateNext ? `!${operand}` : operand);
+    }
+    negateNext = false;
+    nearDistance = null;
+  }
+
+  const clauses = groups.filter(group => group.length > 0).map(group => group.join(' & '));
+  return clauses.length > 0 ? clauses.join(' | ') : null;
+}
+
+/**
+ * Merge ranked id lists with reciprocal rank fusion: score = sum of 1 / (k + rank)
+ * over the lists that contain the id, scaled so an id ranked first everywhere scores 1.
+ * The first list is the full-text ranking and the second the vector ranking.
+ */
+export function reciprocalRankFusion(rankings: string[][], k = RRF_K): FusedResult[] {
+  const results = new Map<string, FusedResult & { raw: number }>();
+
+  rankings.forEach((ranking, listIndex) => {
+    ranking.forEach((id, index) => {
+      const rank = index + 1;
+      let result = results.get(id);
+      if (!result) {
+        result = { id, score: 0, raw: 0, keywordRank: null, semanticRank: null };
+        results.set(id, result);
+      }
+      if (result[listIndex === 0 ? 'keywordRank' : 'semanticRank'] !== null) return; // Duplicate id in a list
+      result.raw += 1 / (k + rank);
+      if (listIndex === 0) result.keywordRank = rank;
+      else result.semanticRank = rank;
+    });
+  });
+
+  const maxScore = rankings.length / (k + 1);
+  return Array.from(results.values())
+    .map(({ raw, ...result }) => ({ ...result, score: raw / maxScore }))
+    .sort((a, b) => b.score - a.score || Math.min(a.keywordRank ?? Infinity, a.semanticRank ?? Infinity) - Math.min(b.keywordRank ?? Infinity, b.semanticRank ?? Infinity));
+}
+
+function tsQuerySql(tsQuery: string): SQL {
+  return sql`to_tsquery('english', ${tsQuery})`;
+}
+
+function headlineSql(document: SQL, tsQuery: SQL): SQL<string> {
+  return sql<string>`ts_headline('english', left(${document}, ${HEADLINE_TEXT_LENGTH}), ${tsQuery}, ${HEADLINE_OPTIONS})`;
+}
+
+// Candidates taken from each search before fusing
+function candidateCount(limit: number): number {
+  return Math.max(limit * 3, 50);
+}
+
+// Query embedding for the vector side, or null if the embedding service fails (keyword results still return)
+async function embedQuery(query: string, provider: EmbeddingProvider, columnDimensions: number): Promise<number[] | null> {
+  try {
+    const { embedding, model } = await generateEmbedding(query, provider, 'query');
+    return toStoredEmbedding(embedding, columnDimensions, model)?.vector ?? null;
+  } catch (error) {
+    console.error('Error embedding search query, using full-text results only:', error);
+    return null;
+  }
+}
+
+/**
+ * Order rows by the fused ranking, attaching scores
+ */
+function inFusedOrder<T extends { id: string }>(fused: FusedResult[], rows: T[]): Array<T & Omit<FusedResult, 'id'>> {
+  const rowsById = new Map(rows.map(row => [row.id, row]));
+  return fused
+    .filter(result => rowsById.has(result.id))
+    .map(({ id, ...scores }) => ({ ...rowsById.get(id)!, ...scores }));
+}
+
+/**
+ * Hybrid search over eDiscovery emails. Attachment text counts towards the
+ * full-text ranking (at half weight) and can supply the highlighted snippet.
+ * @param conditions Filters on ediscoveryEmails (project, dates, sender, tags...)
+ * @param embeddingProvider The company's general embedding provider
+ */
+export async function searchEmails(options: { query: string; conditions: SQL[]; limit: number; embeddingProvider: EmbeddingProvider }) {
+  const { query, conditions, limit, embeddingProvider } = options;
+  const tsQueryText = toTsQuery(query);
+  const candidates = candidateCount(limit);
+
+  let keywordIds: string[] = [];
+  let tsQuery: SQL | null = null;
+  if (tsQueryText) {
+    tsQuery = tsQuerySql(tsQueryText);
+    const attachmentMatch = sql`EXISTS (SELECT 1 FROM ${ediscoveryAttachments} WHERE ${ediscoveryAttachments.emailId} = ${ediscoveryEmails.id} AND ${ediscoveryAttachments.searchVector} @@ ${tsQuery})`;
+    const attachmentRank = sql`coalesce((SELECT max(ts_rank_cd(${ediscoveryAttachments.searchVector}, ${tsQuery})) FROM ${ediscoveryAttachments} WHERE ${ediscoveryAttachments.emailId} = ${ediscoveryEmails.id} AND ${ediscoveryAttachments.searchVector} @@ ${tsQuery}), 0)`;
+    const rank = sql`ts_rank_cd(${ediscoveryEmails.searchVector}, ${tsQuery}) + ${attachmentRank} * 0.5`;
+    const rows = await db
+      .select({ id: ediscoveryEmails.id })
+      .from(ediscoveryEmails)
+      .where(and(...conditions, sql`(${ediscoveryEmails.searchVector} @@ ${tsQuery} OR ${attachmentMatch})`))
+      .orderBy(desc(rank))
+      .limit(candidates);
+    keywordIds = rows.map(row => row.id);
+  }
+
+  let semanticIds: string[] = [];
+  const queryEmbedding = await embedQuery(query, embeddingProvider, EMAIL_EMBEDDING_DIMENSIONS);
+  if (queryEmbedding) {
+    const distance = cosineDistance(ediscoveryEmails.embedding, queryEmbedding);
+    const rows = await withVectorSearch((tx) =>
+      tx
+        .select({ id: ediscoveryEmails.id })
+        .from(ediscoveryEmails)
+        .where(and(...conditions, isNotNull(ediscoveryEmails.embedding), eq(ediscoveryEmails.embeddingModel, embeddingProvider.model)))
+        .orderBy(distance)
+        .limit(candidates)
+    );
+    semanticIds = rows.map(row => row.id);
+  }
+
+  const fused = reciprocalRankFusion([keywordIds, semanticIds]).slice(0, limit);
+  if (fused.length === 0) return [];
+
+  const bodyHighlight = tsQuery
+    ? headlineSql(sql`coalesce(${ediscoveryEmails.bodyText}, '')`, tsQuery)
+    : sql<string | null>`NULL`;
+  const attachmentHighlight = tsQuery
+    ? sql<string | null>`(SELECT ${ediscoveryAttachments.filename} || ': ' || ${headlineSql(sql`coalesce(${ediscoveryAttachments.extractedText}, '')`, tsQuery)} FROM ${ediscoveryAttachments} WHERE ${ediscoveryAttachments.emailId} = ${ediscoveryEmails.id} AND ${ediscoveryAttachments.searchVector} @@ ${tsQuery} LIMIT 1)`
+    : sql<string | null>`NULL`;
+
+  const rows = await db
+    .select({
+      id: ediscoveryEmails.id,
+      subject: ediscoveryEmails.subject,
+      fromAddress: ediscoveryEmails.fromAddress,
+      toAddresses: ediscoveryEmails.toAddresses,
+      sentAt: ediscoveryEmails.sentAt,
+      snippet: ediscoveryEmails.snippet,
+      hasAttachments: ediscoveryEmails.hasAttachments,
+      sourceFilename: ediscoveryEmails.sourceFilename,
+      bodyHighlight,
+      attachmentHighlight,
+    })
+    .from(ediscoveryEmails)
+    .where(inArray(ediscoveryEmails.id, fused.map(result => result.id)));
+
+  return inFusedOrder(fused, rows).map(({ bodyHighlight, attachmentHighlight, ...email }) => ({
+    ...email,
+    // The body headline has no match when only the subject or an attachment matched
+    highlight: (bodyHighlight?.includes('<mark>') ? bodyHighlight : attachmentHighlight) || bodyHighlight || email.snippet,
+  }));
+}
+
+/**
+ * Hybrid search over correspondence letters
+ * @param queryEmbedding Embedding for the vector side (e.g. of a selected letter, made by the provider's model); the query text is embedded if omitted
+ * @param conditions Filters on correspondenceLetters (project, date...)
+ * @param embeddingProvider The company's legal embedding provider
+ */
+export async function searchLetters(options: { query: string; queryEmbedding?: number[] | null; conditions: SQL[]; limit: number; embeddingProvider: EmbeddingProvider }) {
+  const { query, conditions, limit, embeddingProvider } = options;
+  const tsQueryText = toTsQuery(query);
+  const candidates = candidateCount(limit);
+
+  let keywordIds: string[] = [];
+  let tsQuery: SQL | null = null;
+  if (tsQueryText) {
+    tsQuery = tsQuerySql(tsQueryText);
+    const rows = await db
+      .select({ id: correspondenceLetters.id })
+      .from(correspondenceLetters)
+      .where(and(...conditions, sql`${correspondenceLetters.searchVector} @@ ${tsQuery}`))
+      .orderBy(desc(sql`ts_rank_cd(${correspondenceLetters.searchVector}, ${tsQuery})`))
+      .limit(candidates);
+    keywordIds = rows.map(row => row.id);
+  }
+
+  let semanticIds: string[] = [];
+  const queryEmbedding = options.queryEmbedding || await embedQuery(query, embeddingProvider, LEGAL_EMBEDDING_DIMENSIONS);
+  if (queryEmbedding) {
+    const distance = cosineDistance(correspondenceLetters.embeddingVector, queryEmbedding);
+    const rows = await withVectorSearch((tx) =>
+      tx
+        .select({ id: correspondenceLetters.id })
+        .from(correspondenceLetters)
+        .where(and(...conditions, isNotNull(correspondenceLetters.embeddingVector), eq(correspondenceLetters.embeddingModel, embeddingProvider.model)))
+        .orderBy(distance)
+        .limit(candidates)
+    );
+    semanticIds = rows.map(row => row.id);
+  }
+
+  const fused = reciprocalRankFusion([keywordIds, semanticIds]).slice(0, limit);
+  if (fused.length === 0) return [];
+
+  const { embeddingVector: _embedding, searchVector: _searchVector, ...letterColumns } = getTableColumns(correspondenceLetters);
+  const rows = await db
+    .select({
+      ...letterColumns,
+      highlight: tsQuery
+        ? headlineSql(sql`coalesce(${correspondenceLetters.extractedText}, '')`, tsQuery)
+        : sql<string | null>`NULL`,
+    })
+    .from(correspondenceLetters)
+    .where(inArray(correspondenceLetters.id, fused.map(result => result.id)));
+
+  return inFusedOrder(fused, rows).map(letter => ({ ...letter, similarity: letter.score }));
+}
+
+/**
+ * Hybrid search over the pages of a contract revision, for the contract viewer
+ * @param embeddingProvider The company's legal embedding provider
+ */
+export async function searchContractPages(options: { revisionId: string; query: string; limit: number; embeddingProvider: EmbeddingProvider }) {
+  const { revisionId, query, limit, embeddingProvider } = options;
+  const tsQueryText = toTsQuery(query);
+  const candidates = candidateCount(limit);
+  const inRevision = eq(contractSearchIndex.revisionId, revisionId);
+
+  let keywordIds: string[] = [];
+  let tsQuery: SQL | null = null;
+  if (tsQueryText) {
+    tsQuery = tsQuerySql(tsQueryText);
+    const rows = await db
+      .select({ id: contractSearchIndex.id })
+      .from(contractSearchIndex)
+      .where(and(inRevision, sql`${contractSearchIndex.searchVector} @@ ${tsQuery}`))
+      .orderBy(desc(sql`ts_rank_cd(${contractSearchIndex.searchVector}, ${tsQuery})`))
+      .limit(candidates);
+    keywordIds = rows.map(row => row.id);
+  }
+
+  let semanticIds: string[] = [];
+  const queryEmbedding = await embedQuery(query, embeddingProvider, LEGAL_EMBEDDING_DIMENSIONS);
+  if (queryEmbedding) {
+    const distance = cosineDistance(contractSearchIndex.embedding, queryEmbedding);
+    const rows = await withVectorSearch((tx) =>
+      tx
+        .select({ id: contractSearchIndex.id })
+        .from(contractSearchIndex)
+        .where(and(inRevision, isNotNull(contractSearchIndex.embedding), eq(contractSearchIndex.embeddingModel, embeddingProvider.model)))
+        .orderBy(distance)
+        .limit(candidates)
+    );
+    semanticIds = rows.map(row => row.id);
+  }
+
+  const fused = reciprocalRankFusion([keywordIds, semanticIds]).slice(0, limit);
+  if (fused.length === 0) return [];
+
+  const rows = await db
+    .select({
+      id: contractSearchIndex.id,
+      pageIndex: contractSearchIndex.pageIndex,
+      highlight: tsQuery
+        ? headlineSql(sql`${contractSearchIndex.content}`, tsQuery)
+        : sql<string>`left(${contractSearchIndex.content}, 200)`,
+    })
+    .from(contractSearchIndex)
+    .where(inArray(contractSearchIndex.id, fused.map(result => result.id)));
+
+  return inFusedOrder(fused, rows);
+}
@@ -57,6 +57,13 @@ async function seedRBACData() {
     { code: "RFI.APPROVE", description: "Approve RFIs" },
     { code: "COST.VIEW", description: "View cost information" },
     { code: "SETTINGS.MANAGE", description: "Manage company settings" },
+    { code: "RISK.MANAGE", description: "Edit risk registers and run Monte Carlo" },
+    { code: "BOQ.MANAGE", description: "Edit BOQ, worksheets, rates and variables" },
+    { code: "CLAIM.APPROVE", description: "Assess and approve progress claims" },
+    { code: "CONTRACT.APPROVE", description: "Approve or reject contract review departures (DOA)" },
+    { code: "EDISCOVERY.VIEW", description: "Search and view eDiscovery emails" },
+    { code: "EDISCOVERY.MANAGE", description: "Upload, ingest and tag eDiscovery emails" },
+    { code: "CORRESPONDENCE.MANAGE", description: "Upload and generate correspondence" },
   ];
 
   const createdPermissions: Record<string, string> = {};
@@ -77,11 +84,12 @@ async function seedRBACData() {
     ADMIN: [
       "USER.MANAGE", "PROJECT.MANAGE", "COMPANY.MANAGE", "BU.MANAGE",
       "DOC.UPLOAD", "DOC.VIEW", "RFI.CREATE", "RFI.APPROVE",
-      "COST.VIEW", "SETTINGS.MANAGE"
+      "COST.VIEW", "SETTINGS.MANAGE", "RISK.MANAGE", "BOQ.MANAGE", "CLAIM.APPROVE",
+      "CONTRACT.APPROVE", "EDISCOVERY.VIEW", "EDISCOVERY.MANAGE", "CORRESPONDENCE.MANAGE"
     ],
     BUM: [
       "PROJECT.MANAGE", "BU.MANAGE", "DOC.UPLOAD", "DOC.VIEW",
-      "RFI.APPROVE", "COST.VIEW"
+      "RFI.APPROVE", "COST.VIEW", "CLAIM.APPROVE", "CONTRACT.APPROVE"
     ],
     EMPLOYEE: [
       "DOC.UPLOAD", "DOC.VIEW", "RFI.CREATE"
@@ -132,9 +140,15 @@ async function seedRBACData() {
 
   // 5. Map permissions to project roles
   const projectRoleMappings = {
-    PROJ_ADMIN: ["PROJECT.MANAGE", "DOC.UPLOAD", "DOC.VIEW", "RFI.CREATE", "RFI.APPROVE", "COST.VIEW"],
-    PM: ["PROJECT.MANAGE", "DOC.UPLOAD", "DOC.VIEW", "RFI.APPROVE", "COST.VIEW"],
-    ENGINEER: ["DOC.UPLOAD", "DOC.VIEW", "RFI.CREATE"],
+    PROJ_ADMIN: [
+      "PROJECT.MANAGE", "DOC.UPLOAD", "DOC.VIEW", "RFI.CREATE", "RFI.APPROVE", "COST.VIEW",
+      "RISK.MANAGE", "BOQ.MANAGE", "CLAIM.APPROVE", "CONTRACT.APPROVE", "EDISCOVERY.VIEW", "EDISCOVERY.MANAGE", "CORRESPONDENCE.MANAGE"
+    ],
+    PM: [
+      "PROJECT.MANAGE", "DOC.UPLOAD", "DOC.VIEW", "RFI.APPROVE", "COST.VIEW",
+      "RISK.MANAGE", "BOQ.MANAGE", "CONTRACT.APPROVE", "EDISCOVERY.VIEW", "CORRESPONDENCE.MANAGE"
+    ],
+    ENGINEER: ["DOC.UPLOAD", "DOC.VIEW", "RFI.CREATE", "CORRESPONDENCE.MANAGE"],
     VIEWER: ["DOC.VIEW"],
   };
 
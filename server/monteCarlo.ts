@@ -5,6 +5,8 @@
  * using proper parameter estimation from P10/P50/P90 inputs.
  */
 
+import crypto from "crypto";
+
 type DistributionType = 'triangular' | 'pert' | 'normal' | 'uniform' | 'lognormal' | 'weibull';
 
 interface RiskInput {
@@ -16,9 +18,13 @@ interface RiskInput {
   pessimisticP90: number;
   probability: number;
   distributionModel: DistributionType;
+  // Optional schedule impact in days, sampled with the same occurrence draw as cost
+  scheduleOptimisticP10?: number | null;
+  scheduleLikelyP50?: number | null;
+  schedulePessimisticP90?: number | null;
 }
 
-interface MonteCarloResult {
+interface OutcomeSummary {
   p10: number;
   p50: number;
   p90: number;
@@ -26,12 +32,46 @@ interface MonteCarloResult {
   stdDev: number;
   base: number;
   targetValue: number;
-  targetPercentile: number;
   distribution: number[]; // Full distribution for charting
   sensitivityAnalysis: SensitivityItem[];
   percentileTable: PercentileTableRow[];
 }
 
+interface MonteCarloResult extends OutcomeSummary {
+  targetPercentile: number;
+  schedule: OutcomeSummary | null; // Delay in days; null when no risk has a schedule impact
+  jointSamples: JointSample[]; // Paired cost/delay outcomes for the scatter plot
+  jointTargetConfidence: number | null; // Proportion of iterations within both targets (0-1)
+  correlationImpact: CorrelationImpact | null; // null when no correlation group applied
+  seed: number; // Seed that reproduces this run
+  inputHash: string; // Fingerprint of the simulation inputs (see hashSimulationInputs)
+}
+
+interface JointSample {
+  cost: number;
+  days: number;
+}
+
+interface CorrelationGroupInput {
+  id: string;
+  name: string;
+  correlation: number; // Rank correlation coefficient (0-1)
+  riskIds: string[];
+}
+
+interface PercentilePair {
+  p80: number;
+  p90: number;
+}
+
+interface CorrelationImpact {
+  groupsApplied: number;
+  risksCorrelated: number;
+  uncorrelated: PercentilePair; // Cost percentiles had every risk been sampled independently
+  correlated: PercentilePair;
+  schedule: { uncorrelated: PercentilePair; correlated: PercentilePair } | null;
+}
+
 interface SensitivityItem {
   riskId: string;
   riskNumber: string;
@@ -47,17 +87,37 @@ interface PercentileTableRow {
 }
 
 /**
- * Generate a random number from Uniform(0,1) distribution
+ * Source of Uniform[0,1) random numbers. Every sampler takes one so a run is
+ * fully determined by its seed.
+ */
+type Random = () => number;
+
+/**
+ * Create a seeded Uniform[0,1) generator (mulberry32)
+ */
+export function createSeededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a fresh seed for runs where none was requested (positive 31-bit so it fits an integer column)
  */
-function random(): number {
-  return Math.random();
+export function generateSeed(): number {
+  return 1 + Math.floor(Math.random() * 0x7FFFFFFE);
 }
 
 /**
  * Box-Muller transform to generate normally distributed random numbers
  */
-function randomNormal(mean: number = 0, stdDev: number = 1): number {
-  const u1 = random();
+function randomNormal(random: Random, mean: number = 0, stdDev: number = 1): number {
+  const u1 = 1 - random(); // (0, 1] so the log is finite
   const u2 = random();
   const z0 = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
   return z0 * stdDev + mean;
@@ -87,11 +147,12 @@ function normalInvCDF(p: number): number {
     return x;
   }
   
+  // Moro tail: x = c0 + c1*r + ... + c8*r^8 with r = ln(-ln(min(p, 1 - p)))
   let r = p < 0.5 ? p : 1 - p;
-  r = Math.sqrt(-Math.log(r));
+  r = Math.log(-Math.log(r));
   
-  let x = c[0];
-  for (let i = 1; i < c.length; i++) {
+  let x = c[c.length - 1];
+  for (let i = c.length - 2; i >= 0; i--) {
     x = x * r + c[i];
   }
   
@@ -103,7 +164,7 @@ function normalInvCDF(p: number): number {
  * Uses modified parameter estimation to better match percentiles
  * Note: True parameter fitting would require solving non-linear equations
  */
-function sampleTriangular(p10: number, p50: number, p90: number): number {
+function sampleTriangular(random: Random, p10: number, p50: number, p90: number): number {
   // Guard against zero variance
   if (Math.abs(p90 - p10) < 0.0001) {
     return p50; // Deterministic value
@@ -136,7 +197,7 @@ function sampleTriangular(p10: number, p50: number, p90: number): number {
  * Uses Beta distribution approximation with parameters fitted to percentiles
  * Note: True Beta sampling would require gamma function or inverse CDF
  */
-function samplePERT(p10: number, p50: number, p90: number): number {
+function samplePERT(random: Random, p10: number, p50: number, p90: number): number {
   // Guard against zero variance
   if (Math.abs(p90 - p10) < 0.0001) {
     return p50; // Deterministic value
@@ -161,7 +222,7 @@ function samplePERT(p10: number, p50: number, p90: number): number {
   const stdDev = Math.sqrt(variance);
   
   // Sample from normal and transform to PERT range
-  let sample = randomNormal(mean, stdDev);
+  let sample = randomNormal(random, mean, stdDev);
   
   // Clip to valid range (mimics Beta support on [0,1] scaled to [min,max])
   sample = Math.max(min, Math.min(max, sample));
@@ -173,7 +234,7 @@ function samplePERT(p10: number, p50: number, p90: number): number {
  * Sample from Normal distribution - CORRECT implementation
  * P50 is the mean, use P10 or P90 to solve for standard deviation
  */
-function sampleNormal(p10: number, p50: number, p90: number): number {
+function sampleNormal(random: Random, p10: number, p50: number, p90: number): number {
   // Guard against zero variance
   if (Math.abs(p90 - p10) < 0.0001) {
     return p50; // Deterministic value
@@ -186,14 +247,14 @@ function sampleNormal(p10: number, p50: number, p90: number): number {
   // Therefore: σ = (P90 - P10) / (2 * 1.28) = (P90 - P10) / 2.56
   const stdDev = (p90 - p10) / 2.56;
   
-  return randomNormal(mean, stdDev);
+  return randomNormal(random, mean, stdDev);
 }
 
 /**
  * Sample from Uniform distribution
  * Use P10 as lower bound, P90 as upper bound (P50 is ignored for uniform)
  */
-function sampleUniform(p10: number, p90: number): number {
+function sampleUniform(random: Random, p10: number, p90: number): number {
   return p10 + random() * (p90 - p10);
 }
 
@@ -201,7 +262,7 @@ function sampleUniform(p10: number, p90: number): number {
  * Sample from Lognormal distribution - handles both positive and negative values
  * For negative values, we flip the sign and apply lognormal to absolute values
  */
-function sampleLognormal(p10: number, p50: number, p90: number): number {
+function sampleLognormal(random: Random, p10: number, p50: number, p90: number): number {
   // Guard against zero variance
   if (Math.abs(p90 - p10) < 0.0001) {
     return p50; // Deterministic value
@@ -218,15 +279,15 @@ function sampleLognormal(p10: number, p50: number, p90: number): number {
     // Therefore: ln(P90/P10) = 2.56σ
     const sigma = Math.log(p90 / p10) / 2.56;
     
-    const normalSample = randomNormal(mu, sigma);
+    const normalSample = randomNormal(random, mu, sigma);
     return Math.exp(normalSample);
   } else if (p10 < 0 && p50 < 0 && p90 < 0) {
     // All negative: flip signs, apply lognormal, flip back
-    const sample = sampleLognormal(-p90, -p50, -p10);
+    const sample = sampleLognormal(random, -p90, -p50, -p10);
     return -sample;
   } else {
     // Mixed signs: fall back to normal distribution
-    return sampleNormal(p10, p50, p90);
+    return sampleNormal(random, p10, p50, p90);
   }
 }
 
@@ -234,11 +295,11 @@ function sampleLognormal(p10: number, p50: number, p90: number): number {
  * Sample from Weibull distribution
  * Solve for shape (k) and scale (λ) from P10, P50, P90
  */
-function sampleWeibull(p10: number, p50: number, p90: number): number {
+function sampleWeibull(random: Random, p10: number, p50: number, p90: number): number {
   // For positive values only
   if (p10 <= 0) {
     // Weibull only defined for positive values, fall back to normal
-    return sampleNormal(p10, p50, p90);
+    return sampleNormal(random, p10, p50, p90);
   }
   
   // Guard against zero variance
@@ -257,13 +318,13 @@ function sampleWeibull(p10: number, p50: number, p90: number): number {
   const ratio = p90 / p50;
   if (ratio <= 1 || !isFinite(ratio)) {
     // Invalid ratio, fall back to normal
-    return sampleNormal(p10, p50, p90);
+    return sampleNormal(random, p10, p50, p90);
   }
   
   const k = Math.log(Math.log(10) / Math.log(2)) / Math.log(ratio);
   if (!isFinite(k) || k <= 0) {
     // Invalid shape parameter, fall back to normal
-    return sampleNormal(p10, p50, p90);
+    return sampleNormal(random, p10, p50, p90);
   }
   
   const lambda = p50 / Math.pow(Math.log(2), 1 / k);
@@ -277,35 +338,39 @@ function sampleWeibull(p10: number, p50: number, p90: number): number {
  * CORRECTED: Properly respects P10/P50/P90 as percentiles, not bounds
  */
 function sampleDistribution(
+  random: Random,
   p10: number,
   p50: number,
   p90: number,
-  model: DistributionType,
-  probability: number
+  model: DistributionType
 ): number {
-  // Apply probability - risk only occurs with given probability
-  if (random() > probability / 100) {
-    return 0; // Risk doesn't occur in this iteration
-  }
-  
   switch (model) {
     case 'triangular':
-      return sampleTriangular(p10, p50, p90);
+      return sampleTriangular(random, p10, p50, p90);
     case 'pert':
-      return samplePERT(p10, p50, p90);
+      return samplePERT(random, p10, p50, p90);
     case 'normal':
-      return sampleNormal(p10, p50, p90);
+      return sampleNormal(random, p10, p50, p90);
     case 'uniform':
-      return sampleUniform(p10, p90);
+      return sampleUniform(random, p10, p90);
     case 'lognormal':
-      return sampleLognormal(p10, p50, p90);
+      return sampleLognormal(random, p10, p50, p90);
     case 'weibull':
-      return sampleWeibull(p10, p50, p90);
+      return sampleWeibull(random, p10, p50, p90);
     default:
-      return sampleNormal(p10, p50, p90); // Default to normal
+      return sampleNormal(random, p10, p50, p90); // Default to normal
   }
 }
 
+/**
+ * Check whether a risk carries a complete schedule three-point estimate
+ */
+function hasScheduleImpact(risk: RiskInput): boolean {
+  return risk.scheduleOptimisticP10 != null &&
+    risk.scheduleLikelyP50 != null &&
+    risk.schedulePessimisticP90 != null;
+}
+
 /**
  * Calculate percentile from sorted array
  */
@@ -360,74 +425,28 @@ function correlation(x: number[], y: number[]): number {
 }
 
 /**
- * Run Monte Carlo simulation
+ * Summarise one simulated outcome (cost or schedule): percentiles, moments,
+ * percentile table and per-risk variance contribution for the tornado chart
  */
-export function runMonteCarloSimulation(
+function summariseOutcome(
+  totals: number[],
+  riskSamples: Record<string, number[]>,
   risks: RiskInput[],
-  iterations: number = 10000,
-  targetPercentile: number = 80
-): MonteCarloResult {
-  // Filter out risks without required data
-  const validRisks = risks.filter(r => 
-    r.optimisticP10 != null &&
-    r.likelyP50 != null &&
-    r.pessimisticP90 != null &&
-    r.probability != null &&
-    r.distributionModel != null
-  );
-  
-  if (validRisks.length === 0) {
-    throw new Error('No valid risks with complete data for simulation');
-  }
-  
-  // Store individual risk samples for sensitivity analysis
-  const riskSamples: Record<string, number[]> = {};
-  validRisks.forEach(risk => {
-    riskSamples[risk.id] = [];
-  });
-  
-  // Run simulation
-  const totalCostSamples: number[] = [];
-  
-  for (let i = 0; i < iterations; i++) {
-    let iterationTotal = 0;
-    
-    for (const risk of validRisks) {
-      const sample = sampleDistribution(
-        risk.optimisticP10,
-        risk.likelyP50,
-        risk.pessimisticP90,
-        risk.distributionModel,
-        risk.probability
-      );
-      
-      riskSamples[risk.id].push(sample);
-      iterationTotal += sample;
-    }
-    
-    totalCostSamples.push(iterationTotal);
-  }
-  
+  base: number,
+  targetPercentile: number
+): OutcomeSummary {
   // Sort for percentile calculations
-  const sortedResults = [...totalCostSamples].sort((a, b) => a - b);
+  const sortedResults = [...totals].sort((a, b) => a - b);
   
-  // Calculate key statistics
-  const p10 = percentile(sortedResults, 10);
-  const p50 = percentile(sortedResults, 50);
-  const p90 = percentile(sortedResults, 90);
-  const meanValue = mean(totalCostSamples);
-  const stdDevValue = stdDev(totalCostSamples, meanValue);
-  const targetValue = percentile(sortedResults, targetPercentile);
-  
-  // Calculate base (deterministic sum of P50 values)
-  const base = validRisks.reduce((sum, risk) => sum + risk.likelyP50, 0);
+  const meanValue = mean(totals);
+  const stdDevValue = stdDev(totals, meanValue);
   
   // Sensitivity Analysis - Calculate contribution to variance
   const totalVariance = Math.pow(stdDevValue, 2);
-  const sensitivityAnalysis: SensitivityItem[] = validRisks.map(risk => {
+  const sensitivityAnalysis: SensitivityItem[] = risks.map(risk => {
     const riskSampleArray = riskSamples[risk.id];
     const riskVariance = Math.pow(stdDev(riskSampleArray), 2);
-    const corr = correlation(riskSampleArray, totalCostSamples);
+    const corr = correlation(riskSampleArray, totals);
     
     // Contribution to variance = (Var(Risk_i) * Corr(Risk_i, Total)) / Var(Total)
     const varianceContribution = totalVariance > 0 ? (riskVariance * Math.abs(corr)) / totalVariance : 0;
@@ -451,16 +470,389 @@ export function runMonteCarloSimulation(
   }));
   
   return {
-    p10,
-    p50,
-    p90,
+    p10: percentile(sortedResults, 10),
+    p50: percentile(sortedResults, 50),
+    p90: percentile(sortedResults, 90),
     mean: meanValue,
     stdDev: stdDevValue,
     base,
-    targetValue,
-    targetPercentile,
+    targetValue: percentile(sortedResults, targetPercentile),
     distribution: sortedResults,
     sensitivityAnalysis,
     percentileTable,
   };
 }
+
+/**
+ * Sum per-risk sample columns into a total per iteration
+ */
+function sumColumns(columns: Record<string, number[]>, riskIds: string[], iterations: number): number[] {
+  const totals = new Array<number>(iterations).fill(0);
+  for (const riskId of riskIds) {
+    const column = columns[riskId];
+    for (let i = 0; i < iterations; i++) {
+      totals[i] += column[i];
+    }
+  }
+  return totals;
+}
+
+/**
+ * Randomly shuffle an array in place (Fisher-Yates)
+ */
+function shuffle<T>(arr: T[], random: Random): T[] {
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr;
+}
+
+/**
+ * Cholesky decomposition of a symmetric matrix (returns lower triangular L with A = L·Lᵀ)
+ * Returns null when the matrix is not positive definite
+ */
+function cholesky(a: number[][]): number[][] | null {
+  const n = a.length;
+  const l = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = a[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= l[i][k] * l[j][k];
+      }
+      if (i === j) {
+        if (sum <= 1e-10) return null;
+        l[i][i] = Math.sqrt(sum);
+      } else {
+        l[i][j] = sum / l[j][j];
+      }
+    }
+  }
+  
+  return l;
+}
+
+/**
+ * Invert a lower triangular matrix by forward substitution
+ */
+function invertLowerTriangular(l: number[][]): number[][] {
+  const n = l.length;
+  const inv = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  
+  for (let col = 0; col < n; col++) {
+    for (let i = col; i < n; i++) {
+      let sum = i === col ? 1 : 0;
+      for (let k = col; k < i; k++) {
+        sum -= l[i][k] * inv[k][col];
+      }
+      inv[i][col] = sum / l[i][i];
+    }
+  }
+  
+  return inv;
+}
+
+/**
+ * Build the target rank correlation matrix for the grouped risks.
+ * Risks sharing a group are correlated at the group's coefficient; when a pair
+ * shares several groups the strongest coefficient wins. Overlapping groups can
+ * produce an inconsistent (non positive definite) matrix, in which case the
+ * off-diagonal terms are shrunk until it can be factorised.
+ */
+function targetCorrelationCholesky(riskIds: string[], groups: CorrelationGroupInput[]): number[][] {
+  const index = new Map(riskIds.map((id, i) => [id, i]));
+  const target: number[][] = riskIds.map((_, i) => riskIds.map((_, j) => (i === j ? 1 : 0)));
+  
+  for (const group of groups) {
+    const members = group.riskIds.filter(id => index.has(id)).map(id => index.get(id)!);
+    for (let a = 0; a < members.length; a++) {
+      for (let b = a + 1; b < members.length; b++) {
+        const i = members[a];
+        const j = members[b];
+        target[i][j] = target[j][i] = Math.max(target[i][j], group.correlation);
+      }
+    }
+  }
+  
+  let scale = 1;
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const scaled = target.map((row, i) => row.map((value, j) => (i === j ? 1 : value * scale)));
+    const factor = cholesky(scaled);
+    if (factor) return factor;
+    scale *= 0.95;
+  }
+  
+  // Fall back to independence rather than failing the run
+  return target.map((row, i) => row.map((_, j) => (i === j ? 1 : 0)));
+}
+
+/**
+ * Iman-Conover rank correlation: reorder each grouped risk's samples so the
+ * ranks across iterations follow the target correlation structure while every
+ * risk keeps exactly the marginal distribution it was sampled from.
+ *
+ * Cost and schedule samples of a risk are moved together so the joint
+ * cost/time outcome of each occurrence is preserved.
+ */
+function applyRankCorrelation(
+  riskIds: string[],
+  groups: CorrelationGroupInput[],
+  costColumns: Record<string, number[]>,
+  scheduleColumns: Record<string, number[]>,
+  iterations: number,
+  random: Random
+): void {
+  const k = riskIds.length;
+  
+  // van der Waerden scores, independently permuted for each risk
+  const baseScores = Array.from({ length: iterations }, (_, i) => normalInvCDF((i + 1) / (iterations + 1)));
+  const scores = riskIds.map(() => shuffle([...baseScores], random));
+  
+  // Remove the spurious correlation between the random score columns
+  const scoreCorrelation = scores.map((x, i) => scores.map((y, j) => (i === j ? 1 : correlation(x, y))));
+  const scoreFactor = cholesky(scoreCorrelation);
+  const targetFactor = targetCorrelationCholesky(riskIds, groups);
+  
+  // Transform each iteration's score vector: t = P · Q⁻¹ · s
+  let transform = targetFactor;
+  if (scoreFactor) {
+    const scoreFactorInv = invertLowerTriangular(scoreFactor);
+    transform = targetFactor.map(row =>
+      scoreFactorInv[0].map((_, j) => row.reduce((sum, value, m) => sum + value * scoreFactorInv[m][j], 0))
+    );
+  }
+  
+  const transformed = riskIds.map((_, j) => {
+    const column = new Array<number>(iterations);
+    for (let i = 0; i < iterations; i++) {
+      let value = 0;
+      for (let m = 0; m < k; m++) {
+        value += transform[j][m] * scores[m][i];
+      }
+      column[i] = value;
+    }
+    return column;
+  });
+  
+  // Give iteration i the sample whose rank matches the rank of transformed[j][i]
+  riskIds.forEach((riskId, j) => {
+    const cost = costColumns[riskId];
+    const schedule = scheduleColumns[riskId];
+    const sampleOrder = Array.from({ length: iterations }, (_, i) => i)
+      .sort((a, b) => cost[a] - cost[b] || (schedule ? schedule[a] - schedule[b] : 0));
+    const targetOrder = Array.from({ length: iterations }, (_, i) => i)
+      .sort((a, b) => transformed[j][a] - transformed[j][b]);
+    
+    const reorderedCost = new Array<number>(iterations);
+    const reorderedSchedule = schedule ? new Array<number>(iterations) : null;
+    for (let r = 0; r < iterations; r++) {
+      reorderedCost[targetOrder[r]] = cost[sampleOrder[r]];
+      if (reorderedSchedule) reorderedSchedule[targetOrder[r]] = schedule[sampleOrder[r]];
+    }
+    
+    costColumns[riskId] = reorderedCost;
+    if (reorderedSchedule) scheduleColumns[riskId] = reorderedSchedule;
+  });
+}
+
+/**
+ * Fingerprint the inputs of a run: the same hash plus the same seed reproduces
+ * the same result. Risks are keyed by risk number rather than ID so a revision
+ * copied without edits hashes the same as its predecessor.
+ */
+export function hashSimulationInputs(
+  risks: RiskInput[],
+  iterations: number,
+  targetPercentile: number,
+  correlationGroups: CorrelationGroupInput[] = []
+): string {
+  const riskNumberById = new Map(risks.map(r => [r.id, r.riskNumber]));
+  const canonical = {
+    iterations,
+    targetPercentile,
+    risks: risks
+      .map(r => [
+        r.riskNumber,
+        r.optimisticP10,
+        r.likelyP50,
+        r.pessimisticP90,
+        r.probability,
+        r.distributionModel,
+        r.scheduleOptimisticP10 ?? null,
+        r.scheduleLikelyP50 ?? null,
+        r.schedulePessimisticP90 ?? null,
+      ])
+      .sort((a, b) => String(a[0]).localeCompare(String(b[0]))),
+    correlationGroups: correlationGroups
+      .map(g => [
+        g.correlation,
+        g.riskIds.map(id => riskNumberById.get(id)).filter((n): n is string => !!n).sort(),
+      ])
+      .sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b))),
+  };
+  
+  return crypto.createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
+
+/**
+ * Read the P80/P90 pair from an unsorted set of totals
+ */
+function percentilePair(totals: number[]): PercentilePair {
+  const sorted = [...totals].sort((a, b) => a - b);
+  return { p80: percentile(sorted, 80), p90: percentile(sorted, 90) };
+}
+
+// Maximum number of paired cost/delay points returned for the scatter plot
+const MAX_JOINT_SAMPLES = 1000;
+
+/**
+ * Run Monte Carlo simulation
+ *
+ * Cost and schedule delay are simulated jointly: each risk's occurrence is
+ * drawn once per iteration and, when it occurs, drives both its cost and its
+ * schedule impact. Schedule delays are summed, i.e. every risk is treated as
+ * acting on the critical path.
+ *
+ * Risks in a correlation group are rank-correlated with Iman-Conover; all
+ * other risks are sampled independently.
+ *
+ * All sampling draws from one generator seeded with `seed` (a fresh seed is
+ * picked when omitted), so the same seed and inputs give identical results.
+ */
+export function runMonteCarloSimulation(
+  risks: RiskInput[],
+  iterations: number = 10000,
+  targetPercentile: number = 80,
+  correlationGroups: CorrelationGroupInput[] = [],
+  seed: number = generateSeed()
+): MonteCarloResult {
+  // Filter out risks without required data
+  const validRisks = risks.filter(r => 
+    r.optimisticP10 != null &&
+    r.likelyP50 != null &&
+    r.pessimisticP90 != null &&
+    r.probability != null &&
+    r.distributionModel != null
+  );
+  
+  if (validRisks.length === 0) {
+    throw new Error('No valid risks with complete data for simulation');
+  }
+  
+  const scheduleRisks = validRisks.filter(hasScheduleImpact);
+  const random = createSeededRandom(seed);
+  const inputHash = hashSimulationInputs(validRisks, iterations, targetPercentile, correlationGroups);
+  
+  // Sample each risk independently; samples are stored per risk for
+  // correlation reordering and sensitivity analysis
+  const riskSamples: Record<string, number[]> = {};
+  const riskScheduleSamples: Record<string, number[]> = {};
+  
+  for (const risk of validRisks) {
+    const costColumn = new Array<number>(iterations);
+    const scheduleColumn = hasScheduleImpact(risk) ? new Array<number>(iterations) : null;
+    
+    for (let i = 0; i < iterations; i++) {
+      // Apply probability - risk only occurs with given probability
+      const occurs = random() <= risk.probability / 100;
+      
+      costColumn[i] = occurs
+        ? sampleDistribution(random, risk.optimisticP10, risk.likelyP50, risk.pessimisticP90, risk.distributionModel)
+        : 0;
+      
+      if (scheduleColumn) {
+        scheduleColumn[i] = occurs
+          ? sampleDistribution(random, risk.scheduleOptimisticP10!, risk.scheduleLikelyP50!, risk.schedulePessimisticP90!, risk.distributionModel)
+          : 0;
+      }
+    }
+    
+    riskSamples[risk.id] = costColumn;
+    if (scheduleColumn) riskScheduleSamples[risk.id] = scheduleColumn;
+  }
+  
+  const riskIds = validRisks.map(r => r.id);
+  const scheduleRiskIds = scheduleRisks.map(r => r.id);
+  
+  // Only groups with at least two simulated members and a non-zero coefficient have any effect
+  const validRiskIds = new Set(riskIds);
+  const activeGroups = correlationGroups
+    .map(group => ({ ...group, riskIds: group.riskIds.filter(id => validRiskIds.has(id)) }))
+    .filter(group => group.riskIds.length >= 2 && group.correlation > 0);
+  
+  let correlationImpact: CorrelationImpact | null = null;
+  if (activeGroups.length > 0) {
+    const correlatedRiskIds = Array.from(new Set(activeGroups.flatMap(group => group.riskIds)));
+    const uncorrelatedCost = percentilePair(sumColumns(riskSamples, riskIds, iterations));
+    const uncorrelatedSchedule = scheduleRisks.length > 0
+      ? percentilePair(sumColumns(riskScheduleSamples, scheduleRiskIds, iterations))
+      : null;
+    
+    applyRankCorrelation(correlatedRiskIds, activeGroups, riskSamples, riskScheduleSamples, iterations, random);
+    
+    const correlatedSchedule = scheduleRisks.length > 0
+      ? percentilePair(sumColumns(riskScheduleSamples, scheduleRiskIds, iterations))
+      : null;
+    
+    correlationImpact = {
+      groupsApplied: activeGroups.length,
+      risksCorrelated: correlatedRiskIds.length,
+      uncorrelated: uncorrelatedCost,
+      correlated: percentilePair(sumColumns(riskSamples, riskIds, iterations)),
+      schedule: uncorrelatedSchedule && correlatedSchedule
+        ? { uncorrelated: uncorrelatedSchedule, correlated: correlatedSchedule }
+        : null,
+    };
+  }
+  
+  const totalCostSamples = sumColumns(riskSamples, riskIds, iterations);
+  const totalScheduleSamples = sumColumns(riskScheduleSamples, scheduleRiskIds, iterations);
+  
+  // Calculate base (deterministic sum of P50 values)
+  const base = validRisks.reduce((sum, risk) => sum + risk.likelyP50, 0);
+  const cost = summariseOutcome(totalCostSamples, riskSamples, validRisks, base, targetPercentile);
+  
+  if (scheduleRisks.length === 0) {
+    return {
+      ...cost,
+      targetPercentile,
+      schedule: null,
+      jointSamples: [],
+      jointTargetConfidence: null,
+      correlationImpact,
+      seed,
+      inputHash,
+    };
+  }
+  
+  const scheduleBase = scheduleRisks.reduce((sum, risk) => sum + risk.scheduleLikelyP50!, 0);
+  const schedule = summariseOutcome(totalScheduleSamples, riskScheduleSamples, scheduleRisks, scheduleBase, targetPercentile);
+  
+  // Confidence of landing within both the cost and the schedule target in the same iteration
+  let withinBothTargets = 0;
+  for (let i = 0; i < iterations; i++) {
+    if (totalCostSamples[i] <= cost.targetValue && totalScheduleSamples[i] <= schedule.targetValue) {
+      withinBothTargets++;
+    }
+  }
+  
+  // Sample every Nth iteration to keep the scatter payload small
+  const stride = Math.ceil(iterations / MAX_JOINT_SAMPLES);
+  const jointSamples: JointSample[] = [];
+  for (let i = 0; i < iterations; i += stride) {
+    jointSamples.push({ cost: totalCostSamples[i], days: totalScheduleSamples[i] });
+  }
+  
+  return {
+    ...cost,
+    targetPercentile,
+    schedule,
+    jointSamples,
+    jointTargetConfidence: withinBothTargets / iterations,
+    correlationImpact,
+    seed,
+    inputHash,
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Monte Carlo Snapshot Comparison
+ *
+ * Diffs two saved simulation snapshots: headline percentiles, the percentile
+ * table, the biggest movers in the sensitivity (tornado) ranking and the risks
+ * added or removed between the runs. Risks are matched by risk number because
+ * each register revision copies its risks under new IDs.
+ */
+
+import type { MonteCarloSnapshot } from "@shared/schema";
+
+interface SnapshotSensitivityItem {
+  riskId: string;
+  riskNumber: string;
+  title: string;
+  varianceContribution: number;
+  correlation: number;
+}
+
+interface SnapshotPercentileRow {
+  percentile: number;
+  value: number;
+  varianceFromBase: number;
+}
+
+export interface ValueChange {
+  label: string;
+  base: number | null;
+  compare: number | null;
+  change: number | null;
+  changePercent: number | null; // Relative to base (0-1), null when base is zero or missing
+}
+
+export interface SensitivityMover {
+  riskNumber: string;
+  title: string;
+  baseContribution: number; // Proportion of variance (0-1), 0 when absent from the run
+  compareContribution: number;
+  change: number;
+}
+
+export interface SnapshotReference {
+  id: string;
+  revisionId: string;
+  createdAt: Date;
+  iterations: number;
+  targetPercentile: number;
+  seed: number | null;
+  inputHash: string | null;
+}
+
+export interface SnapshotComparison {
+  base: SnapshotReference;
+  compare: SnapshotReference;
+  sameInputs: boolean; // Input hashes match - any difference is sampling noise or seed
+  sameSeed: boolean;
+  summary: ValueChange[];
+  percentileTable: ValueChange[];
+  scheduleSummary: ValueChange[] | null; // null unless both runs carry schedule results
+  sensitivityMovers: SensitivityMover[];
+  risksAdded: Array<{ riskNumber: string; title: string }>;
+  risksRemoved: Array<{ riskNumber: string; title: string }>;
+}
+
+// Number of sensitivity movers returned
+const MAX_SENSITIVITY_MOVERS = 10;
+
+/**
+ * Build a single before/after row
+ */
+function valueChange(label: string, base: number | null, compare: number | null): ValueChange {
+  const change = base != null && compare != null ? compare - base : null;
+  return {
+    label,
+    base,
+    compare,
+    change,
+    changePercent: change != null && base ? change / Math.abs(base) : null,
+  };
+}
+
+/**
+ * Index a snapshot's sensitivity analysis by risk number
+ */
+function sensitivityByRiskNumber(snapshot: MonteCarloSnapshot): Map<string, SnapshotSensitivityItem> {
+  const items = (snapshot.sensitivityAnalysis as SnapshotSensitivityItem[] | null) ?? [];
+  return new Map(items.map(item => [item.riskNumber, item]));
+}
+
+function reference(snapshot: MonteCarloSnapshot): SnapshotReference {
+  return {
+    id: snapshot.id,
+    revisionId: snapshot.revisionId,
+    createdAt: snapshot.createdAt,
+    iterations: snapshot.iterations,
+    targetPercentile: snapshot.targetPercentile,
+    seed: snapshot.seed,
+    inputHash: snapshot.inputHash,
+  };
+}
+
+/**
+ * Compare two Monte Carlo snapshots (base = earlier / reference run)
+ */
+export function compareSnapshots(base: MonteCarloSnapshot, compare: MonteCarloSnapshot): SnapshotComparison {
+  const summary = [
+    valueChange('P10', base.p10, compare.p10),
+    valueChange('P50', base.p50, compare.p50),
+    valueChange('P90', base.p90, compare.p90),
+    valueChange('Mean', base.mean, compare.mean),
+    valueChange('Std Dev', base.stdDev, compare.stdDev),
+    valueChange('Base', base.base, compare.base),
+    valueChange(
+      base.targetPercentile === compare.targetPercentile ? `Target (P${base.targetPercentile})` : 'Target',
+      base.targetValue,
+      compare.targetValue
+    ),
+  ];
+
+  // Percentile tables use a fixed set of percentiles, so rows line up by percentile
+  const basePercentiles = (base.percentileTable as SnapshotPercentileRow[] | null) ?? [];
+  const comparePercentiles = new Map(
+    ((compare.percentileTable as SnapshotPercentileRow[] | null) ?? []).map(row => [row.percentile, row.value])
+  );
+  const percentileTable = basePercentiles
+    .filter(row => comparePercentiles.has(row.percentile))
+    .map(row => valueChange(`P${row.percentile}`, row.value, comparePercentiles.get(row.percentile)!));
+
+  const hasSchedule = base.scheduleP50 != null && compare.scheduleP50 != null;
+  const scheduleSummary = hasSchedule
+    ? [
+        valueChange('P10', base.scheduleP10, compare.scheduleP10),
+        valueChange('P50', base.scheduleP50, compare.scheduleP50),
+        valueChange('P90', base.scheduleP90, compare.scheduleP90),
+        valueChange('Mean', base.scheduleMean, compare.scheduleMean),
+        valueChange('Target', base.scheduleTargetValue, compare.scheduleTargetValue),
+      ]
+    : null;
+
+  const baseSensitivity = sensitivityByRiskNumber(base);
+  const compareSensitivity = sensitivityByRiskNumber(compare);
+
+  const risksAdded = Array.from(compareSensitivity.values())
+    .filter(item => !baseSensitivity.has(item.riskNumber))
+    .map(item => ({ riskNumber: item.riskNumber, title: item.title }));
+  const risksRemoved = Array.from(baseSensitivity.values())
+    .filter(item => !compareSensitivity.has(item.riskNumber))
+    .map(item => ({ riskNumber: item.riskNumber, title: item.title }));
+
+  const riskNumbers = Array.from(new Set(Array.from(baseSensitivity.keys()).concat(Array.from(compareSensitivity.keys()))));
+  const sensitivityMovers = riskNumbers
+    .map(riskNumber => {
+      const before = baseSensitivity.get(riskNumber);
+      const after = compareSensitivity.get(riskNumber);
+      const baseContribution = before?.varianceContribution ?? 0;
+      const compareContribution = after?.varianceContribution ?? 0;
+      return {
+        riskNumber,
+        title: (after ?? before)!.title,
+        baseContribution,
+        compareContribution,
+        change: compareContribution - baseContribution,
+      };
+    })
+    .filter(mover => mover.change !== 0)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+    .slice(0, MAX_SENSITIVITY_MOVERS);
+
+  return {
+    base: reference(base),
+    compare: reference(compare),
+    sameInputs: base.inputHash != null && base.inputHash === compare.inputHash,
+    sameSeed: base.seed != null && base.seed === compare.seed,
+    summary,
+    percentileTable,
+    scheduleSummary,
+    sensitivityMovers,
+    risksAdded,
+    risksRemoved,
+  };
+}
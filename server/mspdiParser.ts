@@ -0,0 +1,331 @@
+/**
+ * MSPDI Parser
+ *
+ * Reads Microsoft Project XML (MSPDI, "Save As > XML") into the same XERData shape
+ * as parseXERBuffer, so the Gantt chart, schedule insights and critical path work
+ * unchanged whatever tool the program came from.
+ *
+ * Mapping to the P6 model:
+ * - Summary tasks become WBS nodes; the project summary task (UID 0) is dropped
+ * - Activity IDs are the task Unique IDs, which survive row insertions between updates
+ * - Dates are written as XER dates ("2025-01-06 08:00"), durations and lags in hours
+ * - Slack and lag values in MSPDI are in tenths of a minute
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import {
+  calculateCriticalPath,
+  ProgramImportError,
+  type XERCalendar,
+  type XERData,
+  type XERRelationship,
+  type XERResource,
+  type XERResourceAssignment,
+  type XERTask,
+  type XERWBS,
+  type XERWorkPeriod,
+} from './xerParser';
+
+// Elements that may appear once but should always be read as lists
+const LIST_ELEMENTS = new Set([
+  'Task', 'PredecessorLink', 'Calendar', 'WeekDay', 'WorkingTime', 'Exception', 'Resource', 'Assignment',
+]);
+
+// PredecessorLink Type
+const LINK_TYPES: Record<string, string> = {
+  '0': 'PR_FF',
+  '1': 'PR_FS',
+  '2': 'PR_SF',
+  '3': 'PR_SS',
+};
+
+// Task ConstraintType, as the P6 constraint with the same meaning
+const CONSTRAINT_TYPES: Record<string, string> = {
+  '1': 'CS_ALAP',
+  '2': 'CS_MSO',
+  '3': 'CS_MEO',
+  '4': 'CS_MSOA',
+  '5': 'CS_MSOB',
+  '6': 'CS_MEOA',
+  '7': 'CS_MEOB',
+};
+
+// Resource Type
+const RESOURCE_TYPES: Record<string, string> = {
+  '0': 'RT_Mat',
+  '1': 'RT_Labor',
+};
+
+// Working times used for working days that do not list their own
+const DEFAULT_WORK_PERIODS: XERWorkPeriod[] = [
+  { start: 8 * 60, finish: 12 * 60 },
+  { start: 13 * 60, finish: 17 * 60 },
+];
+
+// Longest exception range expanded into individual days
+const MAX_EXCEPTION_DAYS = 366 * 5;
+
+const asList = <T>(value: T | T[] | undefined): T[] => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+
+const text = (value: unknown): string | null => (value === undefined || value === null || value === '' ? null : String(value));
+
+const toNumber = (value: unknown): number | null => {
+  const parsed = parseFloat(String(value ?? ''));
+  return isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * "2025-01-06T08:00:00" -> "2025-01-06 08:00"
+ */
+const toXERDate = (value: unknown): string | null => {
+  const match = text(value)?.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})/);
+  return match ? `${match[1]} ${match[2]}` : null;
+};
+
+/**
+ * ISO 8601 duration ("PT16H0M0S") in hours
+ */
+const durationHours = (value: unknown): number | null => {
+  const match = text(value)?.match(/^-?P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) return null;
+  const [, days, hours, minutes, seconds] = match;
+  const total = (+(days || 0)) * 24 + (+(hours || 0)) + (+(minutes || 0)) / 60 + (+(seconds || 0)) / 3600;
+  return text(value)!.startsWith('-') ? -total : total;
+};
+
+const tenthsOfMinuteToHours = (value: unknown): number | null => {
+  const parsed = toNumber(value);
+  return parsed === null ? null : Math.round(parsed / 600 * 100) / 100;
+};
+
+const minutesOfDay = (value: unknown): number | null => {
+  const match = text(value)?.match(/^(\d{2}):(\d{2})/);
+  return match ? +match[1] * 60 + +match[2] : null;
+};
+
+function parseWorkingTimes(day: any): XERWorkPeriod[] {
+  if (text(day.DayWorking) !== '1') return [];
+  const periods = asList(day.WorkingTimes?.WorkingTime)
+    .map((time: any) => ({ start: minutesOfDay(time.FromTime), finish: minutesOfDay(time.ToTime) }))
+    .filter((p): p is XERWorkPeriod => p.start !== null && p.finish !== null)
+    // A working time ending at midnight is written as 00:00:00
+    .map(p => (p.finish <= p.start ? { ...p, finish: 24 * 60 } : p));
+  return periods.length > 0 ? periods : DEFAULT_WORK_PERIODS;
+}
+
+/**
+ * Set the working periods for every day in an exception's date range
+ */
+function addException(exceptions: Record<string, XERWorkPeriod[]>, timePeriod: any, periods: XERWorkPeriod[]) {
+  const from = toXERDate(timePeriod?.FromDate);
+  const to = toXERDate(timePeriod?.ToDate) ?? from;
+  if (!from || !to) return;
+  const day = new Date(`${from.slice(0, 10)}T00:00:00Z`);
+  const last = new Date(`${to.slice(0, 10)}T00:00:00Z`);
+  for (let count = 0; day <= last && count < MAX_EXCEPTION_DAYS; count++) {
+    exceptions[day.toISOString().slice(0, 10)] = periods;
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+}
+
+/**
+ * Calendars with their work weeks and exceptions; derived calendars take the days
+ * they do not define from their base calendar
+ */
+function extractCalendars(rawCalendars: any[], defaultCalendarId: string | null, hoursPerDay: number): XERCalendar[] {
+  const parsed = rawCalendars.map((cal: any) => {
+    const workWeek: Array<XERWorkPeriod[] | null> = [null, null, null, null, null, null, null];
+    const exceptions: Record<string, XERWorkPeriod[]> = {};
+
+    for (const day of asList<any>(cal.WeekDays?.WeekDay)) {
+      const dayType = text(day.DayType);
+      if (dayType === '0') {
+        // Project 2003-2007 store exceptions as day type 0 with a time period
+        addException(exceptions, day.TimePeriod, parseWorkingTimes(day));
+      } else if (dayType && +dayType >= 1 && +dayType <= 7) {
+        workWeek[+dayType - 1] = parseWorkingTimes(day);
+      }
+    }
+    for (const exception of asList<any>(cal.Exceptions?.Exception)) {
+      addException(exceptions, exception.TimePeriod, parseWorkingTimes(exception));
+    }
+
+    return {
+      calendarId: text(cal.UID) ?? '',
+      calendarName: text(cal.Name) ?? '',
+      baseCalendarId: text(cal.IsBaseCalendar) === '1' ? null : text(cal.BaseCalendarUID),
+      workWeek,
+      exceptions,
+    };
+  });
+
+  const byId = new Map(parsed.map(cal => [cal.calendarId, cal]));
+  const resolveDay = (calendarId: string, dayIndex: number, depth = 0): XERWorkPeriod[] => {
+    const cal = byId.get(calendarId);
+    if (!cal) return [];
+    const own = cal.workWeek[dayIndex];
+    if (own) return own;
+    return cal.baseCalendarId && depth < 10 ? resolveDay(cal.baseCalendarId, dayIndex, depth + 1) : [];
+  };
+
+  return parsed.map(cal => {
+    const base = cal.baseCalendarId ? byId.get(cal.baseCalendarId) : undefined;
+    return {
+      calendarId: cal.calendarId,
+      calendarName: cal.calendarName,
+      isDefault: cal.calendarId === defaultCalendarId,
+      hoursPerDay,
+      workWeek: cal.workWeek.map((_, dayIndex) => resolveDay(cal.calendarId, dayIndex)),
+      exceptions: { ...(base?.exceptions ?? {}), ...cal.exceptions },
+    };
+  });
+}
+
+const taskStatus = (task: any): string => {
+  if (text(task.ActualFinish)) return 'TK_Complete';
+  if (text(task.ActualStart)) return 'TK_Active';
+  return 'TK_NotStart';
+};
+
+/**
+ * Parse a Microsoft Project XML (MSPDI) file from buffer
+ */
+export async function parseMSPDIBuffer(buffer: Buffer): Promise<XERData> {
+  const parser = new XMLParser({
+    ignoreAttributes: true,
+    parseTagValue: false,
+    isArray: (name) => LIST_ELEMENTS.has(name),
+  });
+
+  let document: any;
+  try {
+    document = parser.parse(buffer.toString('utf-8'));
+  } catch (error) {
+    throw new ProgramImportError(`Invalid Microsoft Project XML: ${(error as Error).message}`);
+  }
+  const mspProject = document?.Project;
+  if (!mspProject || typeof mspProject !== 'object') {
+    throw new ProgramImportError('Not a Microsoft Project XML file (no Project element)');
+  }
+
+  const hoursPerDay = (toNumber(mspProject.MinutesPerDay) ?? 480) / 60;
+  const defaultCalendarId = text(mspProject.CalendarUID);
+  const calendars = extractCalendars(asList(mspProject.Calendars?.Calendar), defaultCalendarId, hoursPerDay);
+
+  const rawTasks = asList<any>(mspProject.Tasks?.Task).filter(task => text(task.UID) !== '0' && text(task.IsNull) !== '1');
+
+  // Summary tasks form the WBS; each task belongs to the nearest summary above it in the outline
+  const wbs: XERWBS[] = [];
+  const tasks: XERTask[] = [];
+  const outlineParents: string[] = []; // Summary UID at each outline level
+  for (const task of rawTasks) {
+    const uid = text(task.UID)!;
+    const level = Math.max(1, toNumber(task.OutlineLevel) ?? 1);
+    outlineParents.length = level - 1;
+    const parentWbsId = outlineParents[level - 2] ?? null;
+
+    if (text(task.Summary) === '1') {
+      wbs.push({
+        wbsId: uid,
+        wbsName: text(task.Name) ?? '',
+        wbsShortName: text(task.WBS) ?? text(task.OutlineNumber) ?? uid,
+        parentWbsId,
+        seqNum: toNumber(task.ID),
+      });
+      outlineParents[level - 1] = uid;
+      continue;
+    }
+
+    const duration = durationHours(task.Duration);
+    const calendarId = text(task.CalendarUID);
+    tasks.push({
+      taskId: uid,
+      taskCode: uid,
+      taskName: text(task.Name) ?? '',
+      startDate: toXERDate(task.ActualStart) ?? toXERDate(task.Start),
+      finishDate: toXERDate(task.ActualFinish) ?? toXERDate(task.Finish),
+      duration,
+      percentComplete: toNumber(task.PercentComplete),
+      totalFloat: tenthsOfMinuteToHours(task.TotalSlack),
+      wbsId: parentWbsId,
+      calendarId: calendarId && calendarId !== '-1' ? calendarId : null,
+      taskType: text(task.Milestone) === '1' || duration === 0 ? 'TT_FinMile' : 'TT_Task',
+      status: taskStatus(task),
+      cstrType: CONSTRAINT_TYPES[text(task.ConstraintType) ?? ''] ?? null,
+      cstrDate: toXERDate(task.ConstraintDate),
+      actualStart: toXERDate(task.ActualStart),
+      actualFinish: toXERDate(task.ActualFinish),
+      remainingDuration: durationHours(task.RemainingDuration),
+    });
+  }
+
+  // Links to summary tasks are not carried over; P6 has no logic on WBS nodes
+  const taskIds = new Set(tasks.map(task => task.taskId));
+  const relationships: XERRelationship[] = rawTasks.flatMap((task: any) =>
+    asList<any>(task.PredecessorLink)
+      .filter(link => taskIds.has(text(task.UID)!) && taskIds.has(text(link.PredecessorUID) ?? ''))
+      .map(link => ({
+        predTaskId: text(link.PredecessorUID)!,
+        taskId: text(task.UID)!,
+        predType: LINK_TYPES[text(link.Type) ?? '1'] ?? 'PR_FS',
+        lag: tenthsOfMinuteToHours(link.LinkLag) || null,
+      }))
+  );
+
+  const resources: XERResource[] = asList<any>(mspProject.Resources?.Resource)
+    .filter(resource => text(resource.UID) !== '0' && text(resource.IsNull) !== '1')
+    .map(resource => ({
+      resourceId: text(resource.UID)!,
+      resourceCode: text(resource.Initials) ?? text(resource.Name) ?? text(resource.UID)!,
+      resourceName: text(resource.Name) ?? '',
+      resourceType: RESOURCE_TYPES[text(resource.Type) ?? ''] ?? null,
+      parentResourceId: null,
+    }));
+
+  const resourceIds = new Set(resources.map(resource => resource.resourceId));
+  const resourceAssignments: XERResourceAssignment[] = asList<any>(mspProject.Assignments?.Assignment)
+    .filter(assignment => taskIds.has(text(assignment.TaskUID) ?? '') && resourceIds.has(text(assignment.ResourceUID) ?? ''))
+    .map(assignment => ({
+      assignmentId: text(assignment.UID) ?? '',
+      taskId: text(assignment.TaskUID)!,
+      resourceId: text(assignment.ResourceUID),
+      accountId: null,
+      budgetedUnits: durationHours(assignment.Work) ?? 0,
+      actualUnits: durationHours(assignment.ActualWork) ?? 0,
+      remainingUnits: durationHours(assignment.RemainingWork) ?? 0,
+      budgetedCost: toNumber(assignment.Cost) ?? 0,
+      actualCost: toNumber(assignment.ActualCost) ?? 0,
+      remainingCost: toNumber(assignment.RemainingCost) ?? 0,
+      plannedStart: toXERDate(assignment.Start),
+      plannedFinish: toXERDate(assignment.Finish),
+      actualStart: toXERDate(assignment.ActualStart),
+      actualFinish: toXERDate(assignment.ActualFinish),
+      remainingStart: null,
+      remainingFinish: null,
+    }));
+
+  const resourceCounts = new Map<string, number>();
+  resourceAssignments.forEach(assignment => {
+    resourceCounts.set(assignment.taskId, (resourceCounts.get(assignment.taskId) || 0) + 1);
+  });
+  tasks.forEach(task => { task.resourceCount = resourceCounts.get(task.taskId) || 0; });
+
+  const project = {
+    projectId: text(mspProject.GUID) ?? '',
+    projectName: text(mspProject.Title) ?? text(mspProject.Name) ?? '',
+    dataDate: toXERDate(mspProject.StatusDate) ?? toXERDate(mspProject.CurrentDate),
+    startDate: toXERDate(mspProject.StartDate),
+    finishDate: toXERDate(mspProject.FinishDate),
+  };
+
+  return {
+    project,
+    tasks: calculateCriticalPath(tasks, relationships, { calendars, dataDate: project.dataDate }),
+    wbs,
+    relationships,
+    calendars,
+    resources,
+    resourceAssignments,
+    accounts: [],
+  };
+}
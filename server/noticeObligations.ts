@@ -0,0 +1,257 @@
+/**
+ * Notice obligations: deadlines for live contract notices
+ *
+ * An obligation is created from an extracted contract notice (contractNotices.noticesJson) when
+ * its trigger event occurs. The notice is due a number of calendar or business days after the
+ * trigger event, or before a deadline / renewal date. Business days skip weekends and the
+ * project's holidays; a calendar-day period ending on a non-business day moves to the next
+ * business day (the previous one when counting back, so the notice is never late). Time bars
+ * are not moved: they fall on the calendar date the contract gives.
+ * Once issued, any response the notice calls for is due the same way from the issue date.
+ */
+
+import { eq, inArray, and } from 'drizzle-orm';
+import { db } from './db';
+import { noticeObligations, projectHolidays, type NoticeObligation } from '@shared/schema';
+
+export const NOTICE_OBLIGATION_STATUSES = ['open', 'issued', 'responded', 'closed'] as const;
+export type NoticeObligationStatus = typeof NOTICE_OBLIGATION_STATUSES[number];
+
+export const LEAD_TIME_RELATIVE_TO = ['trigger_event', 'deadline', 'renewal_date'] as const;
+export type LeadTimeRelativeTo = typeof LEAD_TIME_RELATIVE_TO[number];
+
+// Derived from status and dates whenever obligations are read
+export type NoticeDeadlineState =
+  | 'no_deadline'       // Open, no time limit stated
+  | 'upcoming'
+  | 'due_soon'          // Open, due within DUE_SOON_DAYS
+  | 'overdue'           // Open, due date passed
+  | 'issued'            // Issued, no response expected
+  | 'awaiting_response'
+  | 'response_overdue'
+  | 'responded'
+  | 'closed';
+
+export const DUE_SOON_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Timing fields snapshotted from an extracted notice
+export interface NoticeTiming {
+  leadTimeDays: number | null;
+  leadTimeBusinessDays: boolean;
+  leadTimeRelativeTo: LeadTimeRelativeTo;
+  timeBarDays: number | null;
+  responseRequired: boolean;
+  responseTimeframeDays: number | null;
+  responseBusinessDays: boolean;
+}
+
+export interface ObligationDates {
+  dueDate: string | null;
+  timeBarDate: string | null;
+  responseDueDate: string | null;
+}
+
+type ObligationDateInputs = NoticeTiming & {
+  triggerEventDate: string;
+  issuedDate: string | null;
+};
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = parseDate(date);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return formatDate(shifted);
+}
+
+/**
+ * True for a real calendar date written as yyyy-mm-dd
+ */
+export function isIsoDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const parsed = parseDate(value);
+  return !isNaN(parsed.getTime()) && formatDate(parsed) === value;
+}
+
+// A moment's date on the server, as yyyy-mm-dd
+export function toIsoDate(moment: Date): string {
+  return formatDate(new Date(Date.UTC(moment.getFullYear(), moment.getMonth(), moment.getDate())));
+}
+
+export function todayIsoDate(): string {
+  return toIsoDate(new Date());
+}
+
+export function isBusinessDay(date: string, holidays: ReadonlySet<string>): boolean {
+  const weekday = parseDate(date).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !holidays.has(date);
+}
+
+// Move a date onto a business day, forwards (direction 1) or backwards (direction -1)
+function rollToBusinessDay(date: string, direction: 1 | -1, holidays: ReadonlySet<string>): string {
+  let current = date;
+  while (!isBusinessDay(current, holidays)) {
+    current = shiftDate(current, direction);
+  }
+  return current;
+}
+
+/**
+ * Count a notice period from a date: forwards for positive days, backwards for negative days.
+ * Always lands on a business day.
+ */
+export function addNoticeDays(date: string, days: number, businessDays: boolean, holidays: ReadonlySet<string>): string {
+  const direction = days < 0 ? -1 : 1;
+
+  if (!businessDays) {
+    return rollToBusinessDay(shiftDate(date, days), direction, holidays);
+  }
+
+  let current = date;
+  let remaining = Math.abs(days);
+  while (remaining > 0) {
+    current = shiftDate(current, direction);
+    if (isBusinessDay(current, holidays)) remaining--;
+  }
+  return rollToBusinessDay(current, direction, holidays);
+}
+
+// Calendar days from one date to another (negative if "to" is earlier)
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / DAY_MS);
+}
+
+// Period of an extracted notice in days. The structured {value, unit, business_days} is preferred;
+// other units (weeks, months) fall back to the extraction's calendar-day equivalent.
+function noticePeriod(period: any, equivalentDays: unknown): { days: number | null; businessDays: boolean } {
+  const unit = typeof period?.unit === 'string' ? period.unit.toLowerCase() : 'days';
+  const value = Number(period?.value);
+
+  if (value > 0 && unit.includes('day')) {
+    return {
+      days: Math.round(value),
+      businessDays: period?.business_days === true || unit.includes('business') || unit.includes('working'),
+    };
+  }
+
+  const days = Number(equivalentDays);
+  return { days: days > 0 ? Math.round(days) : null, businessDays: false };
+}
+
+/**
+ * Timing of a notice from the contract notices extraction
+ */
+export function noticeTiming(notice: any): NoticeTiming {
+  const leadTime = noticePeriod(notice?.lead_time, notice?.lead_time_days);
+  const response = noticePeriod(notice?.response_timeframe, notice?.response_timeframe_days);
+  const relativeTo = notice?.lead_time?.relative_to;
+  const timeBarDays = Number(notice?.time_bar_days);
+
+  return {
+    leadTimeDays: leadTime.days,
+    leadTimeBusinessDays: leadTime.businessDays,
+    leadTimeRelativeTo: (LEAD_TIME_RELATIVE_TO as readonly string[]).includes(relativeTo) ? relativeTo : 'trigger_event',
+    timeBarDays: timeBarDays > 0 ? Math.round(timeBarDays) : null,
+    responseRequired: notice?.response_required === true,
+    responseTimeframeDays: response.days,
+    responseBusinessDays: response.businessDays,
+  };
+}
+
+/**
+ * Due dates of an obligation. When the lead time is relative to a deadline or renewal date,
+ * triggerEventDate holds that date and the notice is due before it.
+ */
+export function computeObligationDates(obligation: ObligationDateInputs, holidays: ReadonlySet<string>): ObligationDates {
+  const countsBack = obligation.leadTimeRelativeTo !== 'trigger_event';
+
+  const dueDate = obligation.leadTimeDays !== null
+    ? addNoticeDays(obligation.triggerEventDate, countsBack ? -obligation.leadTimeDays : obligation.leadTimeDays, obligation.leadTimeBusinessDays, holidays)
+    : null;
+
+  // Time bars run from the trigger event in calendar days and fall on that exact date, even a
+  // weekend or holiday: moving them later would show a claim as in time after it is barred
+  const timeBarDate = obligation.timeBarDays !== null && !countsBack
+    ? shiftDate(obligation.triggerEventDate, obligation.timeBarDays)
+    : null;
+
+  const responseDueDate = obligation.responseRequired && obligation.responseTimeframeDays !== null && obligation.issuedDate
+    ? addNoticeDays(obligation.issuedDate, obligation.responseTimeframeDays, obligation.responseBusinessDays, holidays)
+    : null;
+
+  return { dueDate, timeBarDate, responseDueDate };
+}
+
+/**
+ * Where an obligation stands on a date, and the calendar days left until its next deadline
+ * (negative once passed, null when there is none)
+ */
+export function obligationDeadlineState(
+  obligation: Pick<NoticeObligation, 'status' | 'dueDate' | 'responseDueDate'>,
+  today: string
+): { state: NoticeDeadlineState; daysRemaining: number | null } {
+  if (obligation.status === 'closed') return { state: 'closed', daysRemaining: null };
+  if (obligation.status === 'responded') return { state: 'responded', daysRemaining: null };
+
+  if (obligation.status === 'issued') {
+    if (!obligation.responseDueDate) return { state: 'issued', daysRemaining: null };
+    const daysRemaining = daysBetween(today, obligation.responseDueDate);
+    return { state: daysRemaining < 0 ? 'response_overdue' : 'awaiting_response', daysRemaining };
+  }
+
+  if (!obligation.dueDate) return { state: 'no_deadline', daysRemaining: null };
+  const daysRemaining = daysBetween(today, obligation.dueDate);
+  if (daysRemaining < 0) return { state: 'overdue', daysRemaining };
+  return { state: daysRemaining <= DUE_SOON_DAYS ? 'due_soon' : 'upcoming', daysRemaining };
+}
+
+export async function getProjectHolidaySet(projectId: string): Promise<Set<string>> {
+  const holidays = await db
+    .select({ date: projectHolidays.date })
+    .from(projectHolidays)
+    .where(eq(projectHolidays.projectId, projectId));
+  return new Set(holidays.map(holiday => holiday.date));
+}
+
+/**
+ * Recompute the due dates of a project's open and issued obligations (after its holidays change)
+ * @returns Number of obligations whose dates changed
+ */
+export async function recalculateProjectNoticeObligations(projectId: string): Promise<number> {
+  const holidays = await getProjectHolidaySet(projectId);
+  const obligations = await db
+    .select()
+    .from(noticeObligations)
+    .where(and(
+      eq(noticeObligations.projectId, projectId),
+      inArray(noticeObligations.status, ['open', 'issued'])
+    ));
+
+  let changed = 0;
+  for (const obligation of obligations) {
+    const dates = computeObligationDates(
+      { ...obligation, leadTimeRelativeTo: obligation.leadTimeRelativeTo as LeadTimeRelativeTo },
+      holidays
+    );
+    if (
+      dates.dueDate === obligation.dueDate &&
+      dates.timeBarDate === obligation.timeBarDate &&
+      dates.responseDueDate === obligation.responseDueDate
+    ) continue;
+
+    await db
+      .update(noticeObligations)
+      .set({ ...dates, updatedAt: new Date() })
+      .where(eq(noticeObligations.id, obligation.id));
+    changed++;
+  }
+  return changed;
+}
@@ -75,12 +75,13 @@ export class ObjectStorageService {
     return objectFile;
   }
 
-  async downloadObject(file: File, res: Response, cacheTtlSec: number = 3600) {
+  // contentType overrides the stored type, e.g. when the stored type was supplied by an uploader
+  async downloadObject(file: File, res: Response, cacheTtlSec: number = 3600, contentType?: string) {
     try {
       const [metadata] = await file.getMetadata();
       
       res.set({
-        "Content-Type": metadata.contentType || "application/octet-stream",
+        "Content-Type": contentType || metadata.contentType || "application/octet-stream",
         "Content-Length": metadata.size,
         "Cache-Control": `private, max-age=${cacheTtlSec}`,
       });
@@ -148,6 +149,21 @@ export class ObjectStorageService {
     return `/objects/templates/${objectId}-${fileName}`;
   }
 
+  /**
+   * Save a file at a fixed key under the private object dir (e.g. eDiscovery attachments)
+   * @returns The /objects/ path, for downloadFile and getObjectEntityFile
+   */
+  async uploadObject(buffer: Buffer, objectKey: string, contentType?: string): Promise<string> {
+    const { bucketName, objectName } = parseObjectPath(`${this.getPrivateObjectDir()}/${objectKey}`);
+    const file = objectStorageClient.bucket(bucketName).file(objectName);
+
+    await file.save(buffer, {
+      contentType: contentType || getContentType(objectKey),
+    });
+
+    return `/objects/${objectKey}`;
+  }
+
   async deleteFile(fileKey: string): Promise<void> {
     if (!fileKey) {
       console.log('[DELETE_STORAGE] No file key provided, skipping deletion');
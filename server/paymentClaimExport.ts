@@ -0,0 +1,187 @@
+import ExcelJS from 'exceljs';
+import type { ClaimValuation, ClaimValueSummary } from './progressClaims';
+
+const CURRENCY_FORMAT = '#,##0.00';
+
+const formatCurrency = (value: number | null) =>
+  value == null ? '-' : `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: Date | null) => (value ? new Date(value).toLocaleDateString('en-AU') : '-');
+
+function periodTitle(valuation: ClaimValuation) {
+  const { period } = valuation;
+  return `Payment Claim ${period.periodNumber} - ${period.name}`;
+}
+
+function summaryRows(claimed: ClaimValueSummary, approved: ClaimValueSummary): Array<[string, number, number]> {
+  return [
+    ['Gross value to date', claimed.cumulativeGross, approved.cumulativeGross],
+    ['Less retention', -claimed.cumulativeRetention, -approved.cumulativeRetention],
+    ['Net value to date', claimed.cumulativeNet, approved.cumulativeNet],
+    ['Less previous net value', -claimed.previousNet, -approved.previousNet],
+    ['Amount due this period', claimed.thisPeriodNet, approved.thisPeriodNet],
+  ];
+}
+
+/**
+ * Payment claim workbook: a summary sheet and an itemised valuation sheet
+ */
+export async function generatePaymentClaimExcel(valuation: ClaimValuation, projectName: string): Promise<Buffer> {
+  const { period } = valuation;
+  const workbook = new ExcelJS.Workbook();
+
+  // Summary sheet
+  const summary = workbook.addWorksheet('Summary');
+  summary.addRow([projectName]).font = { bold: true, size: 14 };
+  summary.addRow([periodTitle(valuation)]).font = { bold: true, size: 12 };
+  summary.addRow([`Period: ${formatDate(period.periodStart)} to ${formatDate(period.periodEnd)}`]);
+  summary.addRow([`Status: ${period.status}`]);
+  summary.addRow([]);
+  summary.addRow(['Contract sum', valuation.contractSum]);
+  summary.addRow(['Percent complete', valuation.percentComplete != null ? valuation.percentComplete : null]).getCell(2).numFmt = '0.0%';
+  summary.addRow([`Retention: ${period.retentionPercent}%${period.retentionCap != null ? `, capped at ${formatCurrency(parseFloat(period.retentionCap))}` : ''}`]);
+  summary.addRow([]);
+  const summaryHeader = summary.addRow(['', 'Claimed', 'Approved']);
+  summaryHeader.font = { bold: true };
+  for (const [label, claimed, approved] of summaryRows(valuation.claimed, valuation.approved)) {
+    const row = summary.addRow([label, claimed, approved]);
+    if (label === 'Amount due this period') row.font = { bold: true };
+  }
+  summary.getColumn(1).width = 32;
+  summary.getColumn(2).width = 18;
+  summary.getColumn(3).width = 18;
+  summary.getColumn(2).numFmt = CURRENCY_FORMAT;
+  summary.getColumn(3).numFmt = CURRENCY_FORMAT;
+
+  // Valuation sheet
+  const sheet = workbook.addWorksheet('Valuation');
+  const headerRow = sheet.addRow([
+    'Item No.', 'Description', 'Unit', 'Qty', 'Rate', 'Amount',
+    'Qty Complete', '% Complete', 'Claimed to Date', 'Previously Claimed', 'Claimed This Period',
+    'Approved to Date', 'Approved This Period', 'Comments',
+  ]);
+  headerRow.font = { bold: true };
+  headerRow.fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb: 'FFE0E0E0' },
+  };
+
+  for (const line of valuation.lines) {
+    if (line.level !== null) {
+      sheet.addRow([line.itemNumber, line.description]).font = { bold: true };
+      continue;
+    }
+    sheet.addRow([
+      line.itemNumber,
+      line.description,
+      line.unit ?? '',
+      line.quantity,
+      line.rate,
+      line.amount,
+      line.qtyComplete,
+      line.percentComplete != null ? line.percentComplete / 100 : null,
+      line.cumulativeClaimed,
+      line.previousClaimed,
+      line.thisPeriodClaimed,
+      line.cumulativeApproved,
+      line.thisPeriodApproved,
+      line.comments ?? '',
+    ]);
+  }
+
+  const totalRow = sheet.addRow([
+    '', 'Total', '', null, null, valuation.contractSum,
+    null, null, valuation.claimed.cumulativeGross, valuation.claimed.previousGross, valuation.claimed.thisPeriodGross,
+    valuation.approved.cumulativeGross, valuation.approved.thisPeriodGross, '',
+  ]);
+  totalRow.font = { bold: true };
+
+  sheet.columns.forEach((column, index) => {
+    column.width = index === 1 ? 50 : index === 13 ? 30 : index < 3 ? 10 : 16;
+  });
+  [5, 6, 9, 10, 11, 12, 13].forEach(col => { sheet.getColumn(col).numFmt = CURRENCY_FORMAT; });
+  sheet.getColumn(8).numFmt = '0.0%';
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+}
+
+/**
+ * Payment claim PDF: summary of values followed by the items claimed this period
+ */
+export async function generatePaymentClaimPDF(valuation: ClaimValuation, projectName: string): Promise<Buffer> {
+  const { Document, Page, Text, View, pdf } = await import('@react-pdf/renderer');
+  const React = await import('react');
+  const h = React.createElement;
+  const { period } = valuation;
+
+  const cell = (text: string, width: string, align: 'left' | 'right' = 'left', bold = false) =>
+    h(Text, { style: { width, textAlign: align, fontFamily: bold ? 'Helvetica-Bold' : 'Helvetica' } }, text);
+  const row = (key: string, children: any[], shaded = false) =>
+    h(View, {
+      key,
+      style: {
+        flexDirection: 'row',
+        paddingVertical: 3,
+        borderBottom: '0.5pt solid #ddd',
+        backgroundColor: shaded ? '#f0f0f0' : undefined,
+      },
+    }, ...children);
+
+  // Only items with value this period (claimed or approved) are itemised
+  const itemisedLines = valuation.lines.filter(line =>
+    line.level === null && (line.thisPeriodClaimed !== 0 || (line.thisPeriodApproved ?? 0) !== 0)
+  );
+
+  const ClaimPDF = h(Document, {},
+    h(Page, { size: 'A4', orientation: 'landscape', style: { padding: 30, fontSize: 9 } },
+      h(View, { style: { marginBottom: 16 } },
+        h(Text, { style: { fontSize: 16, marginBottom: 4, fontFamily: 'Helvetica-Bold' } }, projectName),
+        h(Text, { style: { fontSize: 13, marginBottom: 4 } }, periodTitle(valuation)),
+        h(Text, {}, `Period: ${formatDate(period.periodStart)} to ${formatDate(period.periodEnd)}    Status: ${period.status}`),
+        h(Text, {}, `Contract sum: ${formatCurrency(valuation.contractSum)}    Complete: ${valuation.percentComplete != null ? `${(valuation.percentComplete * 100).toFixed(1)}%` : '-'}    Retention: ${period.retentionPercent}%`)
+      ),
+      h(View, { style: { marginBottom: 16, width: '60%' } },
+        row('summary-header', [cell('', '50%'), cell('Claimed', '25%', 'right', true), cell('Approved', '25%', 'right', true)], true),
+        ...summaryRows(valuation.claimed, valuation.approved).map(([label, claimed, approved]) => {
+          const bold = label === 'Amount due this period';
+          return row(label, [
+            cell(label, '50%', 'left', bold),
+            cell(formatCurrency(claimed), '25%', 'right', bold),
+            cell(formatCurrency(approved), '25%', 'right', bold),
+          ]);
+        })
+      ),
+      h(View, {},
+        row('items-header', [
+          cell('Item', '8%', 'left', true),
+          cell('Description', '32%', 'left', true),
+          cell('Amount', '12%', 'right', true),
+          cell('% Complete', '8%', 'right', true),
+          cell('Claimed to Date', '14%', 'right', true),
+          cell('This Period', '13%', 'right', true),
+          cell('Approved to Date', '13%', 'right', true),
+        ], true),
+        ...itemisedLines.map(line => row(line.boqItemId, [
+          cell(line.itemNumber, '8%'),
+          cell(line.description, '32%'),
+          cell(formatCurrency(line.amount), '12%', 'right'),
+          cell(line.percentComplete != null ? `${line.percentComplete.toFixed(1)}%` : '-', '8%', 'right'),
+          cell(formatCurrency(line.cumulativeClaimed), '14%', 'right'),
+          cell(formatCurrency(line.thisPeriodClaimed), '13%', 'right'),
+          cell(formatCurrency(line.cumulativeApproved), '13%', 'right'),
+        ])),
+        itemisedLines.length === 0 ? h(Text, { style: { marginTop: 6 } }, 'No items claimed this period.') : null
+      )
+    )
+  );
+
+  // toBuffer() resolves to a stream despite its name
+  const stream = await pdf(ClaimPDF).toBuffer();
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,215 @@
+/**
+ * Program Comparison
+ *
+ * Variance report between a baseline program and an update (e.g. contract baseline vs
+ * the latest monthly update). Task IDs are regenerated on every XER export, so activities
+ * are matched by activity ID (task code).
+ *
+ * Start/finish variance is in calendar days (positive = later than baseline). Durations
+ * and float stay in hours, as stored in the XER. Logic is compared as each activity's
+ * set of predecessors (activity ID, relationship type and lag); the critical path is
+ * recalculated on both programs so membership reflects the cached logic, not the float
+ * exported from P6.
+ */
+
+import { calculateCriticalPath, type XERData, type XERRelationship, type XERTask } from './xerParser';
+
+export type ActivityVarianceStatus = 'added' | 'deleted' | 'changed' | 'unchanged';
+
+export interface ActivitySnapshot {
+  taskName: string;
+  startDate: string | null;
+  finishDate: string | null;
+  duration: number | null; // Hours
+  totalFloat: number | null; // Hours
+  percentComplete: number | null;
+  isCritical: boolean;
+  predecessors: string[]; // e.g. "A1000 FS +16h"
+}
+
+export interface ActivityVariance {
+  taskCode: string;
+  taskName: string;
+  status: ActivityVarianceStatus;
+  baseline: ActivitySnapshot | null;
+  update: ActivitySnapshot | null;
+  startVariance: number | null; // Days
+  finishVariance: number | null; // Days
+  durationChange: number | null; // Hours
+  logicChanged: boolean;
+  predecessorsAdded: string[];
+  predecessorsRemoved: string[];
+  criticalChange: 'joined' | 'left' | null;
+}
+
+export interface ProgramComparison {
+  activities: ActivityVariance[]; // Update order, deleted activities at the end in baseline order
+  totals: {
+    baselineActivities: number;
+    updateActivities: number;
+    added: number;
+    deleted: number;
+    changed: number;
+    startSlipped: number;
+    finishSlipped: number;
+    finishImproved: number;
+    durationChanged: number;
+    logicChanged: number;
+    joinedCritical: number;
+    leftCritical: number;
+    baselineFinish: string | null;
+    updateFinish: string | null;
+    finishVariance: number | null; // Days, project finish
+  };
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const RELATIONSHIP_LABELS: Record<string, string> = {
+  PR_FS: 'FS',
+  PR_SS: 'SS',
+  PR_FF: 'FF',
+  PR_SF: 'SF',
+};
+
+const isCritical = (task: XERTask) => task.totalFloat !== null && task.totalFloat !== undefined && task.totalFloat <= 0;
+
+const dayVariance = (baseline: string | null, update: string | null): number | null => {
+  if (!baseline || !update) return null;
+  const diff = (new Date(update).getTime() - new Date(baseline).getTime()) / MS_PER_DAY;
+  return isNaN(diff) ? null : Math.round(diff * 10) / 10;
+};
+
+const latestFinish = (tasks: XERTask[]): string | null => {
+  let latest: string | null = null;
+  for (const task of tasks) {
+    if (task.finishDate && (!latest || new Date(task.finishDate) > new Date(latest))) {
+      latest = task.finishDate;
+    }
+  }
+  return latest;
+};
+
+/**
+ * Recalculate float and describe each activity's predecessors by activity ID
+ */
+function indexProgram(xerData: XERData): Map<string, ActivitySnapshot> {
+  const relationships: XERRelationship[] = xerData.relationships || [];
+  const tasks = calculateCriticalPath(xerData.tasks || [], relationships, {
+    calendars: xerData.calendars,
+    dataDate: xerData.project?.dataDate,
+  });
+  const codeById = new Map(tasks.map(task => [task.taskId, task.taskCode]));
+
+  const predecessorsByTask = new Map<string, string[]>();
+  for (const rel of relationships) {
+    const predCode = codeById.get(rel.predTaskId);
+    if (!predCode || !codeById.has(rel.taskId)) continue;
+    const lag = rel.lag || 0;
+    const label = `${predCode} ${RELATIONSHIP_LABELS[rel.predType] ?? 'FS'}${lag !== 0 ? ` ${lag > 0 ? '+' : ''}${lag}h` : ''}`;
+    const list = predecessorsByTask.get(rel.taskId) ?? [];
+    list.push(label);
+    predecessorsByTask.set(rel.taskId, list);
+  }
+
+  const snapshots = new Map<string, ActivitySnapshot>();
+  for (const task of tasks) {
+    if (snapshots.has(task.taskCode)) continue; // Activity IDs are unique within a P6 project
+    snapshots.set(task.taskCode, {
+      taskName: task.taskName,
+      startDate: task.startDate,
+      finishDate: task.finishDate,
+      duration: task.duration,
+      totalFloat: task.totalFloat,
+      percentComplete: task.percentComplete,
+      isCritical: isCritical(task),
+      predecessors: (predecessorsByTask.get(task.taskId) ?? []).sort(),
+    });
+  }
+  return snapshots;
+}
+
+function buildVariance(taskCode: string, baseline: ActivitySnapshot | null, update: ActivitySnapshot | null): ActivityVariance {
+  const startVariance = baseline && update ? dayVariance(baseline.startDate, update.startDate) : null;
+  const finishVariance = baseline && update ? dayVariance(baseline.finishDate, update.finishDate) : null;
+  const durationChange = baseline && update && baseline.duration != null && update.duration != null
+    ? update.duration - baseline.duration
+    : null;
+
+  const basePreds = new Set(baseline?.predecessors ?? []);
+  const updatePreds = new Set(update?.predecessors ?? []);
+  const predecessorsAdded = baseline && update ? Array.from(updatePreds).filter(p => !basePreds.has(p)) : [];
+  const predecessorsRemoved = baseline && update ? Array.from(basePreds).filter(p => !updatePreds.has(p)) : [];
+  const logicChanged = predecessorsAdded.length > 0 || predecessorsRemoved.length > 0;
+
+  const criticalChange = baseline && update && baseline.isCritical !== update.isCritical
+    ? (update.isCritical ? 'joined' : 'left')
+    : null;
+
+  const changed = !!startVariance || !!finishVariance || !!durationChange || logicChanged || criticalChange !== null;
+  const status: ActivityVarianceStatus = !baseline
+    ? 'added'
+    : !update
+      ? 'deleted'
+      : changed ? 'changed' : 'unchanged';
+
+  return {
+    taskCode,
+    taskName: (update ?? baseline)!.taskName,
+    status,
+    baseline,
+    update,
+    startVariance,
+    finishVariance,
+    durationChange,
+    logicChanged,
+    predecessorsAdded,
+    predecessorsRemoved,
+    criticalChange,
+  };
+}
+
+/**
+ * Compare a baseline program against an update
+ * @param baseline - Parsed XER data of the baseline program
+ * @param update - Parsed XER data of the update program
+ */
+export function comparePrograms(baseline: XERData, update: XERData): ProgramComparison {
+  const baselineActivities = indexProgram(baseline);
+  const updateActivities = indexProgram(update);
+
+  const activities: ActivityVariance[] = [];
+  updateActivities.forEach((snapshot, taskCode) => {
+    activities.push(buildVariance(taskCode, baselineActivities.get(taskCode) ?? null, snapshot));
+  });
+  baselineActivities.forEach((snapshot, taskCode) => {
+    if (!updateActivities.has(taskCode)) {
+      activities.push(buildVariance(taskCode, snapshot, null));
+    }
+  });
+
+  const baselineFinish = latestFinish(baseline.tasks || []);
+  const updateFinish = latestFinish(update.tasks || []);
+  const count = (predicate: (activity: ActivityVariance) => boolean) => activities.filter(predicate).length;
+
+  return {
+    activities,
+    totals: {
+      baselineActivities: baselineActivities.size,
+      updateActivities: updateActivities.size,
+      added: count(a => a.status === 'added'),
+      deleted: count(a => a.status === 'deleted'),
+      changed: count(a => a.status === 'changed'),
+      startSlipped: count(a => (a.startVariance ?? 0) > 0),
+      finishSlipped: count(a => (a.finishVariance ?? 0) > 0),
+      finishImproved: count(a => (a.finishVariance ?? 0) < 0),
+      durationChanged: count(a => !!a.durationChange),
+      logicChanged: count(a => a.logicChanged),
+      joinedCritical: count(a => a.criticalChange === 'joined'),
+      leftCritical: count(a => a.criticalChange === 'left'),
+      baselineFinish,
+      updateFinish,
+      finishVariance: dayVariance(baselineFinish, updateFinish),
+    },
+  };
+}
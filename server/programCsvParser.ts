@@ -0,0 +1,366 @@
+/**
+ * Program CSV Parser
+ *
+ * Fallback importer for programs exported as CSV (Asta Powerproject, MS Project
+ * "Save As > CSV", spreadsheets). Columns are mapped to activity fields either
+ * explicitly or by recognising common header names, and the result has the same
+ * XERData shape as parseXERBuffer.
+ *
+ * CSV exports carry no calendars, so activities are scheduled on a standard 5-day,
+ * 8-hour calendar for the float calculation. Durations and lags are converted to
+ * hours at 8 hours per day; plain numbers are read as days.
+ */
+
+import {
+  calculateCriticalPath,
+  ProgramImportError,
+  type XERCalendar,
+  type XERData,
+  type XERRelationship,
+  type XERTask,
+  type XERWBS,
+} from './xerParser';
+
+export type ProgramCsvField =
+  | 'taskCode'
+  | 'taskName'
+  | 'startDate'
+  | 'finishDate'
+  | 'duration'
+  | 'percentComplete'
+  | 'predecessors'
+  | 'wbs'
+  | 'totalFloat'
+  | 'actualStart'
+  | 'actualFinish';
+
+// Activity field -> CSV header
+export type ProgramCsvColumns = Partial<Record<ProgramCsvField, string>>;
+
+export interface ProgramCsvOptions {
+  columns?: ProgramCsvColumns; // Overrides the recognised columns
+  dataDate?: string | null;
+}
+
+const HOURS_PER_DAY = 8;
+
+const STANDARD_DAY = [{ start: 8 * 60, finish: 12 * 60 }, { start: 13 * 60, finish: 17 * 60 }];
+
+// Monday to Friday, 08:00-17:00 with an hour for lunch
+const STANDARD_CALENDAR: XERCalendar = {
+  calendarId: 'CSV',
+  calendarName: 'Standard 5 Day (CSV import)',
+  isDefault: true,
+  hoursPerDay: HOURS_PER_DAY,
+  workWeek: [[], STANDARD_DAY, STANDARD_DAY, STANDARD_DAY, STANDARD_DAY, STANDARD_DAY, []],
+  exceptions: {},
+};
+
+// Recognised header names, compared lower case without spaces or punctuation, in order of preference
+const COLUMN_ALIASES: Record<ProgramCsvField, string[]> = {
+  taskCode: ['activityid', 'taskid', 'taskcode', 'activitycode', 'uniqueid', 'id', 'code'],
+  taskName: ['activityname', 'taskname', 'name', 'description', 'activity', 'task'],
+  startDate: ['start', 'startdate', 'plannedstart', 'earlystart', 'scheduledstart'],
+  finishDate: ['finish', 'finishdate', 'end', 'enddate', 'plannedfinish', 'earlyfinish', 'scheduledfinish'],
+  duration: ['duration', 'originalduration', 'plannedduration', 'durationdays'],
+  percentComplete: ['complete', 'percentcomplete', 'physicalcomplete', 'progress'],
+  predecessors: ['predecessors', 'predecessor', 'preds'],
+  wbs: ['wbs', 'wbscode', 'wbspath', 'outlinenumber', 'wbsname'],
+  totalFloat: ['totalfloat', 'totalslack', 'float'],
+  actualStart: ['actualstart'],
+  actualFinish: ['actualfinish'],
+};
+
+const REQUIRED_FIELDS: ProgramCsvField[] = ['taskCode', 'taskName'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Split CSV content into rows of fields (quoted fields may contain delimiters,
+ * doubled quotes and line breaks). The delimiter is whichever of comma, semicolon
+ * or tab appears most in the header line.
+ */
+function parseCsvRows(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const headerLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Recognise activity columns from the CSV headers
+ */
+export function detectProgramCsvColumns(headers: string[]): ProgramCsvColumns {
+  const columns: ProgramCsvColumns = {};
+  const used = new Set<string>();
+  for (const field of Object.keys(COLUMN_ALIASES) as ProgramCsvField[]) {
+    for (const alias of COLUMN_ALIASES[field]) {
+      const header = headers.find(h => !used.has(h) && normaliseHeader(h) === alias);
+      if (header) {
+        columns[field] = header;
+        used.add(header);
+        break;
+      }
+    }
+  }
+  return columns;
+}
+
+/**
+ * Headers and recognised columns of a program CSV, for mapping before import
+ */
+export function readProgramCsvColumns(buffer: Buffer): { headers: string[]; columns: ProgramCsvColumns } {
+  const headers = (parseCsvRows(buffer.toString('utf-8'))[0] ?? []).map(h => h.trim()).filter(Boolean);
+  return { headers, columns: detectProgramCsvColumns(headers) };
+}
+
+interface ParsedDate {
+  year: number;
+  month: number;
+  day: number;
+  time: string | null; // "HH:mm"
+  isActual: boolean;
+}
+
+/**
+ * Read a date cell. Numeric dates may be day-first or month-first; the order is
+ * decided for the whole file (see detectDayFirst). A trailing "A" or "*" marks an
+ * actual date, as P6 and Asta write them.
+ */
+function parseCsvDate(value: string, dayFirst: boolean): ParsedDate | null {
+  let text = value.trim();
+  if (!text) return null;
+  const isActual = /\s*(\bA|\*)$/.test(text);
+  text = text.replace(/\s*(\bA|\*)$/, '').replace(/^[A-Za-z]{3,}\s+(?=\d)/, ''); // "Mon 6/01/25"
+
+  const timeMatch = text.match(/[ T](\d{1,2}):(\d{2})(?::\d{2})?\s*(am|pm)?$/i);
+  let time: string | null = null;
+  if (timeMatch) {
+    let hour = +timeMatch[1];
+    const meridiem = timeMatch[3]?.toLowerCase();
+    if (meridiem === 'pm' && hour < 12) hour += 12;
+    if (meridiem === 'am' && hour === 12) hour = 0;
+    time = `${pad(hour)}:${timeMatch[2]}`;
+    text = text.slice(0, timeMatch.index).trim();
+  }
+
+  const year = (y: string) => (y.length === 2 ? 2000 + +y : +y);
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return { year: +match[1], month: +match[2], day: +match[3], time, isActual };
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const [first, second] = [+match[1], +match[2]];
+    return { year: year(match[3]), month: dayFirst ? second : first, day: dayFirst ? first : second, time, isActual };
+  }
+
+  match = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3,})[\s,-]+(\d{2}|\d{4})$/); // "06-Jan-25", "6 January 2025"
+  if (match) {
+    const month = MONTHS.indexOf(match[2].slice(0, 3).toLowerCase()) + 1;
+    return month > 0 ? { year: year(match[3]), month, day: +match[1], time, isActual } : null;
+  }
+  return null;
+}
+
+/**
+ * Whether numeric dates are day-first: month-first only if some date cannot be read day-first
+ */
+function detectDayFirst(values: string[]): boolean {
+  for (const value of values) {
+    const match = value.match(/(?<!\d)(\d{1,2})[/.-](\d{1,2})[/.-]\d{2,4}/);
+    if (match && +match[1] > 12) return true;
+    if (match && +match[2] > 12) return false;
+  }
+  return true;
+}
+
+const formatDate = (date: ParsedDate | null, defaultTime: string): string | null =>
+  date ? `${date.year}-${pad(date.month)}-${pad(date.day)} ${date.time ?? defaultTime}` : null;
+
+/**
+ * Duration or lag in hours: "5d", "5 days", "40h", "2w", "1mo"; plain numbers are days
+ */
+function parseDurationHours(value: string | undefined): number | null {
+  const match = value?.trim().match(/^([+-]?\d+(?:\.\d+)?)\s*([a-z]*)\??$/i);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+  if (unit.startsWith('h')) return amount;
+  if (unit.startsWith('mo')) return amount * HOURS_PER_DAY * 20;
+  if (unit.startsWith('m')) return amount / 60;
+  if (unit.startsWith('w')) return amount * HOURS_PER_DAY * 5;
+  return amount * HOURS_PER_DAY;
+}
+
+/**
+ * Predecessor list: "A1000, A1010SS+2d; A1020FF-1"
+ */
+function parsePredecessors(value: string): Array<{ code: string; predType: string; lag: number | null }> {
+  return value
+    .split(/[,;]/)
+    .map(token => token.trim().match(/^(.+?)\s*(FS|SS|FF|SF)?\s*(?:([+-])\s*(\d+(?:\.\d+)?\s*[a-z]*))?$/i))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(([, code, type, sign, lag]) => {
+      const lagHours = lag ? parseDurationHours(lag) : null;
+      return {
+        code: code.trim(),
+        predType: `PR_${(type || 'FS').toUpperCase()}`,
+        lag: lagHours ? (sign === '-' ? -lagHours : lagHours) : null,
+      };
+    });
+}
+
+/**
+ * Parse a program CSV from buffer
+ */
+export async function parseProgramCSVBuffer(buffer: Buffer, options: ProgramCsvOptions = {}): Promise<XERData> {
+  const [headerRow, ...rows] = parseCsvRows(buffer.toString('utf-8'));
+  if (!headerRow) {
+    throw new ProgramImportError('The CSV file is empty');
+  }
+  const headers = headerRow.map(h => h.trim());
+  const columns = { ...detectProgramCsvColumns(headers), ...options.columns };
+
+  const missing = REQUIRED_FIELDS.filter(field => !columns[field] || !headers.includes(columns[field]!));
+  if (missing.length > 0 || (!columns.startDate && !columns.finishDate)) {
+    throw new ProgramImportError(
+      `Could not find the ${[...missing, ...(!columns.startDate && !columns.finishDate ? ['startDate/finishDate'] : [])].join(', ')} column(s) in the CSV`
+    );
+  }
+
+  const columnIndex = Object.fromEntries(
+    (Object.entries(columns) as Array<[ProgramCsvField, string]>).map(([field, header]) => [field, headers.indexOf(header)])
+  ) as Partial<Record<ProgramCsvField, number>>;
+  const cell = (row: string[], field: ProgramCsvField) => {
+    const index = columnIndex[field];
+    return index !== undefined && index >= 0 ? (row[index] ?? '').trim() : '';
+  };
+
+  const dateFields: ProgramCsvField[] = ['startDate', 'finishDate', 'actualStart', 'actualFinish'];
+  const dayFirst = detectDayFirst(rows.flatMap(row => dateFields.map(field => cell(row, field))));
+
+  // WBS codes become WBS nodes; dotted codes ("1.2.3") nest under their prefix
+  const wbsIds = new Set(rows.map(row => cell(row, 'wbs')).filter(Boolean));
+  const wbs: XERWBS[] = Array.from(wbsIds).map((code, index) => {
+    const parentCode = code.includes('.') ? code.slice(0, code.lastIndexOf('.')) : null;
+    return {
+      wbsId: code,
+      wbsName: code,
+      wbsShortName: code,
+      parentWbsId: parentCode && wbsIds.has(parentCode) ? parentCode : null,
+      seqNum: index,
+    };
+  });
+
+  const tasks: XERTask[] = [];
+  const predecessorCells = new Map<string, string>();
+  for (const row of rows) {
+    const taskCode = cell(row, 'taskCode');
+    const taskName = cell(row, 'taskName');
+    if (!taskCode || !taskName || predecessorCells.has(taskCode)) continue; // Blank or repeated activity IDs
+
+    const start = parseCsvDate(cell(row, 'startDate'), dayFirst);
+    const finish = parseCsvDate(cell(row, 'finishDate'), dayFirst);
+    const actualStart = formatDate(parseCsvDate(cell(row, 'actualStart'), dayFirst), '08:00') ?? (start?.isActual ? formatDate(start, '08:00') : null);
+    const actualFinish = formatDate(parseCsvDate(cell(row, 'actualFinish'), dayFirst), '17:00') ?? (finish?.isActual ? formatDate(finish, '17:00') : null);
+    const percentComplete = parseFloat(cell(row, 'percentComplete').replace('%', ''));
+    const totalFloat = parseDurationHours(cell(row, 'totalFloat'));
+    const duration = parseDurationHours(cell(row, 'duration'));
+    const isComplete = !!actualFinish || percentComplete >= 100;
+
+    tasks.push({
+      taskId: taskCode,
+      taskCode,
+      taskName,
+      startDate: actualStart ?? formatDate(start, '08:00'),
+      finishDate: actualFinish ?? formatDate(finish, '17:00'),
+      duration,
+      percentComplete: isNaN(percentComplete) ? null : percentComplete,
+      totalFloat,
+      wbsId: cell(row, 'wbs') || null,
+      calendarId: STANDARD_CALENDAR.calendarId,
+      taskType: duration === 0 || (duration === null && !(start && finish)) ? 'TT_FinMile' : 'TT_Task',
+      status: isComplete ? 'TK_Complete' : actualStart || percentComplete > 0 ? 'TK_Active' : 'TK_NotStart',
+      cstrType: null,
+      cstrDate: null,
+      actualStart: actualStart ?? (isComplete || percentComplete > 0 ? formatDate(start, '08:00') : null),
+      actualFinish: actualFinish ?? (isComplete ? formatDate(finish, '17:00') : null),
+      remainingDuration: null,
+      resourceCount: 0,
+    });
+    predecessorCells.set(taskCode, cell(row, 'predecessors'));
+  }
+
+  if (tasks.length === 0) {
+    throw new ProgramImportError('No activities found in the CSV (each row needs an activity ID and name)');
+  }
+
+  // Predecessors naming activities that are not in the file are dropped
+  const relationships: XERRelationship[] = [];
+  predecessorCells.forEach((value, taskCode) => {
+    for (const pred of parsePredecessors(value)) {
+      if (predecessorCells.has(pred.code) && pred.code !== taskCode) {
+        relationships.push({ predTaskId: pred.code, taskId: taskCode, predType: pred.predType, lag: pred.lag });
+      }
+    }
+  });
+
+  const starts = tasks.map(t => t.startDate).filter((d): d is string => !!d).sort();
+  const finishes = tasks.map(t => t.finishDate).filter((d): d is string => !!d).sort();
+  const project = {
+    projectId: '',
+    projectName: '',
+    dataDate: options.dataDate || null,
+    startDate: starts[0] ?? null,
+    finishDate: finishes[finishes.length - 1] ?? null,
+  };
+
+  return {
+    project,
+    tasks: calculateCriticalPath(tasks, relationships, { calendars: [STANDARD_CALENDAR], dataDate: project.dataDate }),
+    wbs,
+    relationships,
+    calendars: [STANDARD_CALENDAR],
+  };
+}
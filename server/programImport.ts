@@ -0,0 +1,46 @@
+/**
+ * Program Import
+ *
+ * Reads an uploaded program in any supported format into XERData:
+ * - Primavera P6 XER (parseXERBuffer)
+ * - Microsoft Project XML / MSPDI (parseMSPDIBuffer)
+ * - CSV exports from Asta Powerproject, MS Project or spreadsheets (parseProgramCSVBuffer)
+ */
+
+import { parseXERBuffer, ProgramImportError, type XERData } from './xerParser';
+import { parseMSPDIBuffer } from './mspdiParser';
+import { parseProgramCSVBuffer, type ProgramCsvOptions } from './programCsvParser';
+
+export type ProgramFileFormat = 'xer' | 'mspdi' | 'csv';
+
+/**
+ * Work out the program format from the file extension, falling back to the content
+ */
+export function detectProgramFormat(buffer: Buffer, fileName: string): ProgramFileFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'xer') return 'xer';
+  if (extension === 'xml') return 'mspdi';
+  if (extension === 'csv') return 'csv';
+
+  const head = buffer.subarray(0, 512).toString('utf-8').replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('ERMHDR')) return 'xer';
+  if (head.startsWith('<')) return 'mspdi';
+  return null;
+}
+
+/**
+ * Parse an uploaded program file
+ * @param csvOptions - Column mapping and data date, used for CSV files only
+ */
+export async function parseProgramBuffer(buffer: Buffer, fileName: string, csvOptions: ProgramCsvOptions = {}): Promise<XERData> {
+  switch (detectProgramFormat(buffer, fileName)) {
+    case 'xer':
+      return parseXERBuffer(buffer);
+    case 'mspdi':
+      return parseMSPDIBuffer(buffer);
+    case 'csv':
+      return parseProgramCSVBuffer(buffer, csvOptions);
+    default:
+      throw new ProgramImportError('Unsupported program file. Upload a Primavera XER, Microsoft Project XML or CSV file.');
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * Progress Claims
+ *
+ * Values monthly progress claims against the BOQ. Each claim period records the
+ * cumulative progress of every BOQ item (quantity or percent complete) and the
+ * cumulative amount claimed and approved to date. This-period amounts are the
+ * difference from the previous period; lines are matched to the previous period by
+ * BOQ item, or by item number when the periods are against different revisions.
+ *
+ * Retention is held on the cumulative gross value (percent of gross, limited by an
+ * optional cap), so the net amount due this period = (gross - retention) to date
+ * minus the same figure for the previous period. A line not yet assessed counts at
+ * its previous approved value in the approved totals, i.e. nothing approved this period.
+ *
+ * Once a period is submitted its BOQ items are locked: the values a claim was made
+ * against cannot be changed or deleted (see lockedClaimItemIds).
+ */
+
+import { db } from './db';
+import { boqClaimPeriods, boqClaimItems, boqItems, type BoqClaimPeriod, type BoqClaimItem, type BoqItem } from '@shared/schema';
+import { eq, and, lt, desc, inArray, ne } from 'drizzle-orm';
+
+export interface ClaimLineValuation {
+  boqItemId: string;
+  itemNumber: string;
+  description: string;
+  unit: string | null;
+  level: number | null;
+  quantity: number | null;
+  rate: number | null;
+  amount: number | null;
+  qtyComplete: number | null;
+  percentComplete: number | null;
+  cumulativeClaimed: number;
+  previousClaimed: number;
+  thisPeriodClaimed: number;
+  cumulativeApproved: number | null; // Null until assessed
+  previousApproved: number;
+  thisPeriodApproved: number | null;
+  comments: string | null;
+}
+
+export interface ClaimValueSummary {
+  cumulativeGross: number;
+  previousGross: number;
+  thisPeriodGross: number;
+  cumulativeRetention: number;
+  previousRetention: number;
+  thisPeriodRetention: number;
+  cumulativeNet: number;
+  previousNet: number;
+  thisPeriodNet: number; // Amount due this period
+}
+
+export interface ClaimValuation {
+  period: BoqClaimPeriod;
+  previousPeriod: Pick<BoqClaimPeriod, 'id' | 'periodNumber' | 'name' | 'status'> | null;
+  lines: ClaimLineValuation[]; // Every BOQ item of the period's revision, in BOQ order
+  contractSum: number;
+  percentComplete: number | null; // Cumulative gross claimed / contract sum (0-1)
+  claimed: ClaimValueSummary;
+  approved: ClaimValueSummary;
+}
+
+export type PreviousClaimLine = BoqClaimItem & { itemNumber: string };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: string | null | undefined): number | null => {
+  if (value == null || value === '') return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+const itemNumberKey = (itemNumber: string | null) => itemNumber?.trim().toLowerCase() || null;
+
+/**
+ * BOQ item fields a claim is valued against, which cannot change once the item is in a
+ * submitted or approved claim
+ */
+export const CLAIM_LOCKED_ITEM_FIELDS = ['itemNumber', 'description', 'unit', 'quantity', 'rate', 'amount', 'level', 'rateOverride'] as const;
+
+/**
+ * Returns a lookup of the previous period's line for a BOQ item: the line of the same
+ * item, or of the same item number (ignoring case and spacing) when the BOQ has been revised
+ */
+export function previousLineMatcher(previousLines: PreviousClaimLine[]): (item: Pick<BoqItem, 'id' | 'itemNumber'>) => PreviousClaimLine | undefined {
+  const previousByItem = new Map(previousLines.map(line => [line.boqItemId, line]));
+  const previousByNumber = new Map<string, PreviousClaimLine>();
+  for (const line of previousLines) {
+    const key = itemNumberKey(line.itemNumber);
+    if (key && !previousByNumber.has(key)) previousByNumber.set(key, line);
+  }
+
+  return item => {
+    const numberKey = itemNumberKey(item.itemNumber);
+    return previousByItem.get(item.id) ?? (numberKey ? previousByNumber.get(numberKey) : undefined);
+  };
+}
+
+/**
+ * Parse a progress or assessed value sent by the client
+ * @returns The number, null when cleared, or undefined when the value is not a finite number
+ */
+export function parseClaimValue(value: unknown): number | null | undefined {
+  if (value === null || value === '') return null;
+  if (typeof value !== 'number' && typeof value !== 'string') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * The BOQ item fields an update would change that are locked by a submitted claim
+ */
+export function lockedItemChanges(item: BoqItem, updates: Record<string, unknown>): string[] {
+  return CLAIM_LOCKED_ITEM_FIELDS.filter(field => {
+    if (!(field in updates)) return false;
+    const current = item[field];
+    const next = updates[field];
+    if (field === 'quantity' || field === 'rate' || field === 'amount') {
+      const currentValue = toNumber(current as string | null);
+      const nextValue = next == null || next === '' ? null : Number(next);
+      return currentValue !== nextValue;
+    }
+    return (current ?? null) !== (next ?? null);
+  });
+}
+
+/**
+ * Retention held on a cumulative gross value
+ */
+export function retentionFor(gross: number, retentionPercent: number, retentionCap: number | null): number {
+  const retention = round2(gross * retentionPercent / 100);
+  return retentionCap != null ? Math.min(retention, retentionCap) : retention;
+}
+
+/**
+ * Value one BOQ item's cumulative progress. Quantity complete takes precedence and
+ * derives the percentage; a percentage alone derives the quantity when the item has one.
+ */
+export function valueClaimLine(
+  item: Pick<BoqItem, 'quantity' | 'rate' | 'amount'>,
+  progress: { qtyComplete?: number | null; percentComplete?: number | null }
+): { qtyComplete: string | null; percentComplete: string | null; claimedAmount: string } {
+  const quantity = toNumber(item.quantity);
+  const rate = toNumber(item.rate);
+  const amount = toNumber(item.amount) ?? 0;
+
+  if (progress.qtyComplete != null) {
+    const percent = quantity ? (progress.qtyComplete / quantity) * 100 : null;
+    const claimed = rate != null
+      ? progress.qtyComplete * rate
+      : percent != null ? amount * percent / 100 : 0;
+    return {
+      qtyComplete: progress.qtyComplete.toString(),
+      percentComplete: percent != null ? (Math.round(percent * 10000) / 10000).toString() : null,
+      claimedAmount: round2(claimed).toString(),
+    };
+  }
+
+  if (progress.percentComplete != null) {
+    const qty = quantity != null ? Math.round(quantity * progress.percentComplete / 100 * 1000) / 1000 : null;
+    return {
+      qtyComplete: qty != null ? qty.toString() : null,
+      percentComplete: progress.percentComplete.toString(),
+      claimedAmount: round2(amount * progress.percentComplete / 100).toString(),
+    };
+  }
+
+  return { qtyComplete: null, percentComplete: null, claimedAmount: '0' };
+}
+
+function summarise(
+  cumulativeGross: number,
+  previousGross: number,
+  period: BoqClaimPeriod,
+  previousPeriod: BoqClaimPeriod | null
+): ClaimValueSummary {
+  const cumulativeRetention = retentionFor(cumulativeGross, toNumber(period.retentionPercent) ?? 0, toNumber(period.retentionCap));
+  const previousRetention = previousPeriod
+    ? retentionFor(previousGross, toNumber(previousPeriod.retentionPercent) ?? 0, toNumber(previousPeriod.retentionCap))
+    : 0;
+  const cumulativeNet = round2(cumulativeGross - cumulativeRetention);
+  const previousNet = round2(previousGross - previousRetention);
+
+  return {
+    cumulativeGross: round2(cumulativeGross),
+    previousGross: round2(previousGross),
+    thisPeriodGross: round2(cumulativeGross - previousGross),
+    cumulativeRetention,
+    previousRetention,
+    thisPeriodRetention: round2(cumulativeRetention - previousRetention),
+    cumulativeNet,
+    previousNet,
+    thisPeriodNet: round2(cumulativeNet - previousNet),
+  };
+}
+
+/**
+ * Value a claim period from its lines and the previous period's lines
+ * @param items - BOQ items of the period's revision, in BOQ order
+ */
+export function valueClaimPeriod(
+  period: BoqClaimPeriod,
+  items: BoqItem[],
+  lines: BoqClaimItem[],
+  previousPeriod: BoqClaimPeriod | null,
+  previousLines: PreviousClaimLine[]
+): ClaimValuation {
+  const lineByItem = new Map(lines.map(line => [line.boqItemId, line]));
+  const previousLineFor = previousLineMatcher(previousLines);
+
+  let contractSum = 0;
+  let cumulativeClaimed = 0;
+  let previousClaimed = 0;
+  let cumulativeApproved = 0;
+  let previousApproved = 0;
+
+  const valuedLines: ClaimLineValuation[] = items.map(item => {
+    const line = lineByItem.get(item.id);
+    const previous = previousLineFor(item);
+    const isHeading = item.level !== null;
+
+    const cumulative = toNumber(line?.claimedAmount) ?? 0;
+    const prior = toNumber(previous?.claimedAmount) ?? 0;
+    const approved = toNumber(line?.approvedAmount);
+    const priorApproved = toNumber(previous?.approvedAmount) ?? 0;
+
+    if (!isHeading) {
+      contractSum += toNumber(item.amount) ?? 0;
+      cumulativeClaimed += cumulative;
+      previousClaimed += prior;
+      cumulativeApproved += approved ?? priorApproved; // Unassessed: nothing approved this period
+      previousApproved += priorApproved;
+    }
+
+    return {
+      boqItemId: item.id,
+      itemNumber: item.itemNumber,
+      description: item.description,
+      unit: item.unit,
+      level: item.level,
+      quantity: toNumber(item.quantity),
+      rate: toNumber(item.rate),
+      amount: toNumber(item.amount),
+      qtyComplete: toNumber(line?.qtyComplete),
+      percentComplete: toNumber(line?.percentComplete),
+      cumulativeClaimed: cumulative,
+      previousClaimed: prior,
+      thisPeriodClaimed: round2(cumulative - prior),
+      cumulativeApproved: approved,
+      previousApproved: priorApproved,
+      thisPeriodApproved: approved != null ? round2(approved - priorApproved) : null,
+      comments: line?.comments ?? null,
+    };
+  });
+
+  return {
+    period,
+    previousPeriod: previousPeriod
+      ? { id: previousPeriod.id, periodNumber: previousPeriod.periodNumber, name: previousPeriod.name, status: previousPeriod.status }
+      : null,
+    lines: valuedLines,
+    contractSum: round2(contractSum),
+    percentComplete: contractSum !== 0 ? cumulativeClaimed / contractSum : null,
+    claimed: summarise(cumulativeClaimed, previousClaimed, period, previousPeriod),
+    approved: summarise(cumulativeApproved, previousApproved, period, previousPeriod),
+  };
+}
+
+/**
+ * The claim period immediately before the given one, if any
+ */
+export async function getPreviousClaimPeriod(period: BoqClaimPeriod): Promise<BoqClaimPeriod | null> {
+  const [previousPeriod] = await db
+    .select()
+    .from(boqClaimPeriods)
+    .where(and(
+      eq(boqClaimPeriods.projectId, period.projectId),
+      lt(boqClaimPeriods.periodNumber, period.periodNumber)
+    ))
+    .orderBy(desc(boqClaimPeriods.periodNumber))
+    .limit(1);
+  return previousPeriod ?? null;
+}
+
+/**
+ * Lines of a claim period with the item number of their BOQ item
+ */
+export async function getClaimLinesWithItemNumbers(periodId: string): Promise<PreviousClaimLine[]> {
+  const rows = await db
+    .select({ line: boqClaimItems, itemNumber: boqItems.itemNumber })
+    .from(boqClaimItems)
+    .innerJoin(boqItems, eq(boqClaimItems.boqItemId, boqItems.id))
+    .where(eq(boqClaimItems.claimPeriodId, periodId));
+  return rows.map(row => ({ ...row.line, itemNumber: row.itemNumber }));
+}
+
+/**
+ * Load and value a claim period
+ * @returns The valuation, or null if the period does not exist
+ */
+export async function loadClaimValuation(periodId: string): Promise<ClaimValuation | null> {
+  const [period] = await db
+    .select()
+    .from(boqClaimPeriods)
+    .where(eq(boqClaimPeriods.id, periodId))
+    .limit(1);
+  if (!period) return null;
+
+  const previousPeriod = await getPreviousClaimPeriod(period);
+  const [items, lines, previousLines] = await Promise.all([
+    db.select().from(boqItems).where(eq(boqItems.revisionId, period.revisionId)).orderBy(boqItems.sortingIndex),
+    db.select().from(boqClaimItems).where(eq(boqClaimItems.claimPeriodId, period.id)),
+    previousPeriod ? getClaimLinesWithItemNumbers(previousPeriod.id) : Promise.resolve([]),
+  ]);
+
+  return valueClaimPeriod(period, items, lines, previousPeriod, previousLines);
+}
+
+/**
+ * The given BOQ items that have a line in a submitted or approved claim period
+ */
+export async function lockedClaimItemIds(itemIds: string[]): Promise<Set<string>> {
+  if (itemIds.length === 0) return new Set();
+
+  const rows = await db
+    .selectDistinct({ boqItemId: boqClaimItems.boqItemId })
+    .from(boqClaimItems)
+    .innerJoin(boqClaimPeriods, eq(boqClaimItems.claimPeriodId, boqClaimPeriods.id))
+    .where(and(
+      inArray(boqClaimItems.boqItemId, itemIds),
+      ne(boqClaimPeriods.status, 'draft')
+    ));
+  return new Set(rows.map(row => row.boqItemId));
+}
+
+/**
+ * Whether any item of a BOQ revision is in a submitted or approved claim period
+ */
+export async function revisionHasLockedClaims(revisionId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ id: boqClaimItems.id })
+    .from(boqClaimItems)
+    .innerJoin(boqClaimPeriods, eq(boqClaimItems.claimPeriodId, boqClaimPeriods.id))
+    .innerJoin(boqItems, eq(boqClaimItems.boqItemId, boqItems.id))
+    .where(and(
+      eq(boqItems.revisionId, revisionId),
+      ne(boqClaimPeriods.status, 'draft')
+    ))
+    .limit(1);
+  return !!row;
+}
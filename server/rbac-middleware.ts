@@ -0,0 +1,645 @@
+import type { Request, RequestHandler } from "express";
+import { db } from "./db";
+import {
+  projects,
+  businessUnits,
+  companies,
+  people,
+  userAccounts,
+  employmentRoles,
+  contractTemplates,
+  contractReviewDocuments,
+  contractParsedAssets,
+  contractReviewRevisionRows,
+  contractReviewRevisionCells,
+  contractReviewRowComments,
+  contractReviewApprovals,
+  contractNotes,
+  noticeObligations,
+  projectHolidays,
+  aiThreads,
+  rfis,
+  rfiComments,
+  correspondenceLetters,
+  programs,
+  projectMemberships,
+  riskRegisterRevisions,
+  risks,
+  riskActions,
+  riskCorrelationGroups,
+  likelihoodScales,
+  consequenceScales,
+  heatmapMatrix,
+  doaEscalationMatrix,
+  consequenceTypes,
+  consequenceRatings,
+  resourceTypes,
+  subcontractTemplates,
+  specialConditionDrafts,
+  ediscoveryUploads,
+  ediscoveryEmails,
+  ediscoveryProductionSets,
+  ediscoveryProductions,
+  boqRevisions,
+  boqItems,
+  pEventTags,
+  pFinalQty,
+  boqClaimPeriods,
+  globalVariables,
+  resourceRates,
+  worksheets,
+  worksheetItems,
+  type Person,
+} from "@shared/schema";
+import { eq, or } from "drizzle-orm";
+import * as rbacService from "./rbac-service";
+
+/**
+ * RBAC Middleware - Enforces permissions from the permissions / projectRolePermissions
+ * tables on API routes, and blocks access to records owned by another company.
+ */
+
+/**
+ * Permission codes used by route guards. These must exist in the permissions table
+ * (seeded by migrate-to-rbac.ts).
+ */
+export const PERMISSIONS = {
+  USER_MANAGE: "USER.MANAGE",
+  PROJECT_MANAGE: "PROJECT.MANAGE",
+  COMPANY_MANAGE: "COMPANY.MANAGE",
+  BU_MANAGE: "BU.MANAGE",
+  DOC_UPLOAD: "DOC.UPLOAD",
+  DOC_VIEW: "DOC.VIEW",
+  RFI_CREATE: "RFI.CREATE",
+  RFI_APPROVE: "RFI.APPROVE",
+  COST_VIEW: "COST.VIEW",
+  SETTINGS_MANAGE: "SETTINGS.MANAGE",
+  RISK_MANAGE: "RISK.MANAGE",
+  BOQ_MANAGE: "BOQ.MANAGE",
+  CLAIM_APPROVE: "CLAIM.APPROVE",
+  CONTRACT_APPROVE: "CONTRACT.APPROVE",
+  EDISCOVERY_VIEW: "EDISCOVERY.VIEW",
+  EDISCOVERY_MANAGE: "EDISCOVERY.MANAGE",
+  CORRESPONDENCE_MANAGE: "CORRESPONDENCE.MANAGE",
+} as const;
+
+export type PermissionCode = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+/**
+ * The project and/or company a request targets.
+ * A null projectId means the request is company-scoped. A null companyId is only accessible
+ * to super admins.
+ */
+export interface AccessScope {
+  projectId: string | null;
+  companyId: string | null;
+}
+
+/**
+ * Resolves the scope of a request from its params, query or body.
+ * Returns null when the referenced record does not exist (responds 404).
+ */
+export type ScopeResolver = (req: Request) => Promise<AccessScope | null>;
+
+/**
+ * Everything needed to make an access decision for one request
+ */
+export interface AccessContext {
+  isSuperAdmin: boolean;
+  companyId: string | null;
+  globalPermissions: string[];
+  projectPermissions: string[];
+}
+
+export type AccessDecision =
+  | { allowed: true }
+  | { allowed: false; reason: "cross_tenant" | "missing_permission" };
+
+/**
+ * Decide whether a user may exercise a permission within a scope.
+ * Super admins bypass all checks. Everyone else is confined to their own company (records of
+ * no known company are denied),
+ * and needs the permission either globally (via userRoles) or on the project
+ * (via projectMemberships).
+ * @param ctx - The user's company and effective permissions
+ * @param permissionCode - The permission required by the route
+ * @param scope - The resolved project/company of the target record
+ */
+export function evaluateAccess(
+  ctx: AccessContext,
+  permissionCode: string,
+  scope: AccessScope
+): AccessDecision {
+  if (ctx.isSuperAdmin) {
+    return { allowed: true };
+  }
+
+  // A record whose company cannot be resolved (e.g. a project without a business unit) is
+  // treated as another tenant's
+  if (!scope.companyId || scope.companyId !== ctx.companyId) {
+    return { allowed: false, reason: "cross_tenant" };
+  }
+
+  if (ctx.globalPermissions.includes(permissionCode)) {
+    return { allowed: true };
+  }
+
+  if (scope.projectId && ctx.projectPermissions.includes(permissionCode)) {
+    return { allowed: true };
+  }
+
+  return { allowed: false, reason: "missing_permission" };
+}
+
+/**
+ * Route guard requiring a permission on the resolved scope.
+ * Must be mounted after isAuthenticated (relies on req.person).
+ * Responds 404 if the scope resolver cannot find the target, 403 if access is denied.
+ * @param permissionCode - The permission required by the route
+ * @param resolveScope - Resolves the target project/company; defaults to the user's own company
+ */
+export function requirePermission(
+  permissionCode: PermissionCode,
+  resolveScope: ScopeResolver = ownCompany
+): RequestHandler {
+  return async (req, res, next) => {
+    const person = (req as any).person as Person | undefined;
+    if (!person) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const scope = await resolveScope(req);
+      if (!scope) {
+        return res.status(404).json({ error: 'Not found' });
+      }
+
+      const ctx = await loadAccessContext(person, scope);
+      const decision = evaluateAccess(ctx, permissionCode, scope);
+
+      if (!decision.allowed) {
+        console.warn(
+          `[RBAC] Denied ${req.method} ${req.path} for person ${person.id}: ${decision.reason} (${permissionCode})`
+        );
+        return res.status(403).json({
+          error: 'Forbidden',
+          reason: decision.reason,
+          permission: permissionCode,
+        });
+      }
+
+      (req as any).accessScope = scope;
+      return next();
+    } catch (error) {
+      console.error('[RBAC] Error evaluating permission:', error);
+      return res.status(500).json({ error: 'Failed to evaluate permissions' });
+    }
+  };
+}
+
+/**
+ * Check a permission on a second scope within a guarded request, e.g. the new parent a record
+ * is being moved to. Must be called after isAuthenticated (relies on req.person).
+ */
+export async function hasAccess(req: Request, permissionCode: PermissionCode, scope: AccessScope): Promise<boolean> {
+  const person = (req as any).person as Person | undefined;
+  if (!person) return false;
+  const ctx = await loadAccessContext(person, scope);
+  return evaluateAccess(ctx, permissionCode, scope).allowed;
+}
+
+/**
+ * Route guard for super-admin-only maintenance endpoints
+ */
+export const requireSuperAdmin: RequestHandler = (req, res, next) => {
+  const person = (req as any).person as Person | undefined;
+  if (!person) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  if (!person.isSuperAdmin) {
+    return res.status(403).json({ error: 'Forbidden', reason: 'super_admin_required' });
+  }
+  return next();
+};
+
+/**
+ * The company that list endpoints must be confined to for this request.
+ * Returns null for super admins, who may list across companies.
+ */
+export function tenantCompanyId(req: Request): string | null {
+  const person = (req as any).person as Person | undefined;
+  if (!person || person.isSuperAdmin) return null;
+  // People without a company see nothing rather than everything
+  return person.companyId ?? '';
+}
+
+async function loadAccessContext(person: Person, scope: AccessScope): Promise<AccessContext> {
+  const userAccountId = await rbacService.getUserAccountIdForPerson(person.id);
+
+  const [globalPermissions, projectPermissions] = await Promise.all([
+    userAccountId ? rbacService.getCurrentGlobalPermissions(userAccountId) : Promise.resolve([]),
+    userAccountId && scope.projectId
+      ? rbacService.getCurrentProjectPermissions(userAccountId, scope.projectId)
+      : Promise.resolve([]),
+  ]);
+
+  return {
+    isSuperAdmin: person.isSuperAdmin,
+    companyId: person.companyId,
+    globalPermissions,
+    projectPermissions,
+  };
+}
+
+// === SCOPE RESOLVERS ===
+
+/**
+ * Resolve the owning company of a project. Returns null if the project does not exist.
+ */
+export async function projectScope(projectId: string | null | undefined): Promise<AccessScope | null> {
+  if (!projectId) return null;
+
+  const [row] = await db
+    .select({ projectId: projects.id, companyId: businessUnits.companyId })
+    .from(projects)
+    .leftJoin(businessUnits, eq(projects.businessUnitId, businessUnits.id))
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  return row ? { projectId: row.projectId, companyId: row.companyId } : null;
+}
+
+async function companyScope(companyId: string | null | undefined): Promise<AccessScope | null> {
+  if (!companyId) return null;
+
+  const [row] = await db
+    .select({ id: companies.id })
+    .from(companies)
+    .where(eq(companies.id, companyId))
+    .limit(1);
+
+  return row ? { projectId: null, companyId: row.id } : null;
+}
+
+export async function businessUnitScope(businessUnitId: string | null | undefined): Promise<AccessScope | null> {
+  if (!businessUnitId) return null;
+
+  const [row] = await db
+    .select({ companyId: businessUnits.companyId })
+    .from(businessUnits)
+    .where(eq(businessUnits.id, businessUnitId))
+    .limit(1);
+
+  return row ? { projectId: null, companyId: row.companyId } : null;
+}
+
+/**
+ * Resolve a child record's project, treating a mismatch with a :projectId route param
+ * as not found (stops /projects/<mine>/things/<theirs> style access)
+ */
+function childOfProject(req: Request, projectId: string | null | undefined): Promise<AccessScope | null> {
+  if (!projectId) return Promise.resolve(null);
+  if (req.params.projectId && req.params.projectId !== projectId) return Promise.resolve(null);
+  return projectScope(projectId);
+}
+
+/**
+ * Resolve the owner of a stored object from its key (the part after /objects/).
+ * eDiscovery and RFI keys carry their owner's id; other uploads are found through the record
+ * that references them. Objects no record references resolve to null (404).
+ */
+export async function objectScope(objectKey: string): Promise<AccessScope | null> {
+  const [prefix, ownerId, rest] = objectKey.split('/');
+
+  if (prefix === 'rfis' && ownerId) {
+    const [row] = await db.select({ projectId: rfis.projectId }).from(rfis).where(eq(rfis.id, ownerId)).limit(1);
+    return row ? projectScope(row.projectId) : null;
+  }
+
+  if (prefix === 'ediscovery' && ownerId === 'productions') {
+    return projectScope(rest);
+  }
+
+  if (prefix === 'ediscovery' && ownerId) {
+    const [row] = await db
+      .select({ projectId: ediscoveryUploads.projectId, companyId: ediscoveryUploads.companyId })
+      .from(ediscoveryUploads)
+      .where(eq(ediscoveryUploads.id, ownerId))
+      .limit(1);
+    if (!row) return null;
+    return row.projectId ? projectScope(row.projectId) : { projectId: null, companyId: row.companyId };
+  }
+
+  // Columns hold either the /objects/ path or the bare key
+  const path = `/objects/${objectKey}`;
+  const matches = (column: any) => or(eq(column, path), eq(column, objectKey));
+
+  const projectReferences: Array<{ table: any; projectId: any; columns: any[] }> = [
+    { table: contractReviewDocuments, projectId: contractReviewDocuments.projectId, columns: [contractReviewDocuments.clientContractFileUrl, contractReviewDocuments.clientContractFileKey] },
+    { table: contractParsedAssets, projectId: contractParsedAssets.projectId, columns: [contractParsedAssets.fileKey] },
+    { table: correspondenceLetters, projectId: correspondenceLetters.projectId, columns: [correspondenceLetters.fileUrl, correspondenceLetters.fileKey] },
+    { table: programs, projectId: programs.projectId, columns: [programs.fileKey] },
+    { table: projects, projectId: projects.id, columns: [projects.headContractFileKey, projects.specificationsFileKey] },
+  ];
+  for (const reference of projectReferences) {
+    const [row] = await db
+      .select({ projectId: reference.projectId })
+      .from(reference.table)
+      .where(or(...reference.columns.map(matches)))
+      .limit(1);
+    if (row) return projectScope(row.projectId as string);
+  }
+
+  const [template] = await db
+    .select({ businessUnitId: contractTemplates.businessUnitId })
+    .from(contractTemplates)
+    .where(matches(contractTemplates.fileUrl))
+    .limit(1);
+  if (template) return businessUnitScope(template.businessUnitId);
+
+  const [subcontractTemplate] = await db
+    .select({ companyId: subcontractTemplates.companyId })
+    .from(subcontractTemplates)
+    .where(matches(subcontractTemplates.fileKey))
+    .limit(1);
+  if (subcontractTemplate) return { projectId: null, companyId: subcontractTemplate.companyId };
+
+  return null;
+}
+
+/**
+ * Build a resolver for a table that carries its own projectId column
+ */
+function viaProjectColumn(table: any, param: string): ScopeResolver {
+  return async (req) => {
+    const [row] = await db
+      .select({ projectId: table.projectId })
+      .from(table)
+      .where(eq(table.id, req.params[param]))
+      .limit(1);
+    return row ? childOfProject(req, row.projectId as string) : null;
+  };
+}
+
+/**
+ * Build a resolver for a table that carries its own companyId column
+ */
+function viaCompanyColumn(table: any, param: string): ScopeResolver {
+  return async (req) => {
+    const [row] = await db
+      .select({ companyId: table.companyId })
+      .from(table)
+      .where(eq(table.id, req.params[param]))
+      .limit(1);
+    return row ? { projectId: null, companyId: row.companyId as string } : null;
+  };
+}
+
+/**
+ * Build a resolver for contract review records that hang off a revision (revisionId column)
+ */
+function viaContractRevisionColumn(table: any, param: string): ScopeResolver {
+  return async (req) => {
+    const [row] = await db
+      .select({ projectId: contractReviewDocuments.projectId })
+      .from(table)
+      .innerJoin(contractReviewDocuments, eq(table.revisionId, contractReviewDocuments.id))
+      .where(eq(table.id, req.params[param]))
+      .limit(1);
+    return row ? childOfProject(req, row.projectId) : null;
+  };
+}
+
+/**
+ * Scope is the authenticated user's own company
+ */
+export const ownCompany: ScopeResolver = async (req) => {
+  const person = (req as any).person as Person | undefined;
+  return { projectId: null, companyId: person?.companyId ?? null };
+};
+
+export const scopes = {
+  ownCompany,
+
+  /** Project id in a route param */
+  project: (param = 'projectId'): ScopeResolver => (req) => projectScope(req.params[param]),
+
+  /** Project id in the query string (404 if missing) */
+  projectQuery: (key = 'projectId'): ScopeResolver => (req) =>
+    projectScope(typeof req.query[key] === 'string' ? (req.query[key] as string) : null),
+
+  /** Project id in the request body (404 if missing) */
+  projectBody: (key = 'projectId'): ScopeResolver => (req) => projectScope(req.body?.[key]),
+
+  /** Company id in a route param */
+  company: (param = 'companyId'): ScopeResolver => (req) => companyScope(req.params[param]),
+
+  /** Company id in the query string, falling back to the user's own company */
+  companyQuery: (key = 'companyId'): ScopeResolver => (req) =>
+    typeof req.query[key] === 'string' ? companyScope(req.query[key] as string) : ownCompany(req),
+
+  /** Company id in the request body, falling back to the user's own company */
+  companyBody: (key = 'companyId'): ScopeResolver => (req) =>
+    req.body?.[key] ? companyScope(req.body[key]) : ownCompany(req),
+
+  /** Project id in the request body if given, otherwise the user's own company */
+  projectBodyOrOwnCompany: (key = 'projectId'): ScopeResolver => (req) =>
+    req.body?.[key] ? projectScope(req.body[key]) : ownCompany(req),
+
+  /** Stored object in a /objects/<key> route (the rest of the path is the key) */
+  objectPath: (param = 'objectPath'): ScopeResolver => (req) => objectScope(req.params[param] || ''),
+
+  /** Business unit id in a route param */
+  businessUnit: (param = 'businessUnitId'): ScopeResolver => (req) => businessUnitScope(req.params[param]),
+
+  /** Business unit id in the request body */
+  businessUnitBody: (key = 'businessUnitId'): ScopeResolver => (req) => businessUnitScope(req.body?.[key]),
+
+  /** Contract template (owned by a business unit) */
+  contractTemplate: (param = 'templateId'): ScopeResolver => async (req) => {
+    const [row] = await db
+      .select({ businessUnitId: contractTemplates.businessUnitId })
+      .from(contractTemplates)
+      .where(eq(contractTemplates.id, req.params[param]))
+      .limit(1);
+    return row ? businessUnitScope(row.businessUnitId) : null;
+  },
+
+  /** User account (scoped to the person's company) */
+  userAccount: (param = 'userAccountId'): ScopeResolver => async (req) => {
+    const [row] = await db
+      .select({ companyId: people.companyId })
+      .from(userAccounts)
+      .innerJoin(people, eq(userAccounts.personId, people.id))
+      .where(eq(userAccounts.id, req.params[param]))
+      .limit(1);
+    return row ? { projectId: null, companyId: row.companyId } : null;
+  },
+
+  /** Person id in the request body (e.g. creating a login for a person) */
+  personBody: (key = 'personId'): ScopeResolver => async (req) => {
+    const personId = req.body?.[key];
+    if (!personId) return null;
+    const [row] = await db
+      .select({ companyId: people.companyId })
+      .from(people)
+      .where(eq(people.id, personId))
+      .limit(1);
+    return row ? { projectId: null, companyId: row.companyId } : null;
+  },
+
+  employmentRole: (param = 'id') => viaCompanyColumn(employmentRoles, param),
+  resourceType: (param = 'id') => viaCompanyColumn(resourceTypes, param),
+  subcontractTemplate: (param = 'id') => viaCompanyColumn(subcontractTemplates, param),
+  ediscoveryUpload: (param = 'id'): ScopeResolver => async (req) => {
+    const [row] = await db
+      .select({ projectId: ediscoveryUploads.projectId, companyId: ediscoveryUploads.companyId })
+      .from(ediscoveryUploads)
+      .where(eq(ediscoveryUploads.id, req.params[param]))
+      .limit(1);
+    if (!row) return null;
+    return row.projectId ? projectScope(row.projectId) : { projectId: null, companyId: row.companyId };
+  },
+  ediscoveryEmail: (param = 'emailId'): ScopeResolver => async (req) => {
+    const [row] = await db
+      .select({ projectId: ediscoveryUploads.projectId, companyId: ediscoveryEmails.companyId })
+      .from(ediscoveryEmails)
+      .innerJoin(ediscoveryUploads, eq(ediscoveryEmails.uploadId, ediscoveryUploads.id))
+      .where(eq(ediscoveryEmails.id, req.params[param]))
+      .limit(1);
+    if (!row) return null;
+    return row.projectId ? projectScope(row.projectId) : { projectId: null, companyId: row.companyId };
+  },
+  ediscoveryProductionSet: (param = 'setId') => viaProjectColumn(ediscoveryProductionSets, param),
+  ediscoveryProduction: (param = 'productionId') => viaProjectColumn(ediscoveryProductions, param),
+
+  rfi: (param = 'id') => viaProjectColumn(rfis, param),
+  rfiComment: (param = 'id'): ScopeResolver => async (req) => {
+    const [row] = await db
+      .select({ projectId: rfis.projectId })
+      .from(rfiComments)
+      .innerJoin(rfis, eq(rfiComments.rfiId, rfis.id))
+      .where(eq(rfiComments.id, req.params[param]))
+      .limit(1);
+    return row ? childOfProject(req, row.projectId) : null;
+  },
+
+  correspondenceLetter: (param = 'letterId') => viaProjectColumn(correspondenceLetters, param),
+  noticeObligation: (param = 'id') => viaProjectColumn(noticeObligations, param),
+  projectHoliday: (param = 'holidayId') => viaProjectColumn(projectHolidays, param),
+  program: (param = 'programId') => viaProjectColumn(programs, param),
+
+  riskRevision: (param = 'revisionId') => viaProjectColumn(riskRegisterRevisions, param),
+  risk: (param = 'riskId'): ScopeResolver => async (req) => {
+    const [row] = await db
+      .select({ projectId: riskRegisterRevisions.projectId })
+      .from(risks)
+      .innerJoin(riskRegisterRevisions, eq(risks.revisionId, riskRegisterRevisions.id))
+      .where(eq(risks.id, req.params[param]))
+      .limit(1);
+    return row ? childOfProject(req, row.projectId) : null;
+  },
+  riskAction: (param = 'actionId'): ScopeResolver => async (req) => {
+    const [row] = await db
+      .select({ projectId: riskRegisterRevisions.projectId })
+      .from(riskActions)
+      .innerJoin(risks, eq(riskActions.riskId, risks.id))
+      .innerJoin(riskRegisterRevisions, eq(risks.revisionId, riskRegisterRevisions.id))
+      .where(eq(riskActions.id, req.params[param]))
+      .limit(1);
+    return row ? childOfProject(req, row.projectId) : null;
+  },
+  riskCorrelationGroup: (param = 'groupId') => viaProjectColumn(riskCorrelationGroups, param),
+  likelihoodScale: (param = 'id') => viaProjectColumn(likelihoodScales, param),
+  consequenceScale: (param = 'id') => viaProjectColumn(consequenceScales, param),
+  heatmapCell: (param = 'id') => viaProjectColumn(heatmapMatrix, param),
+  doaRow: (param = 'id') => viaProjectColumn(doaEscalationMatrix, param),
+  consequenceType: (param = 'id') => viaProjectColumn(consequenceTypes, param),
+  consequenceRating: (param = 'id'): ScopeResolver => async (req) => {
+    const [row] = await db
+      .select({ projectId: consequenceTypes.projectId })
+      .from(consequenceRatings)
+      .innerJoin(consequenceTypes, eq(consequenceRatings.consequenceTypeId, consequenceTypes.id))
+      .where(eq(consequenceRatings.id, req.params[param]))
+      .limit(1);
+    return row ? childOfProject(req, row.projectId) : null;
+  },
+
+  contractRevision: (param = 'revisionId') => viaProjectColumn(contractReviewDocuments, param),
+  /** Contract review revision id in the query string or body (row comments carry it there) */
+  contractRevisionRef: (key = 'revisionId'): ScopeResolver => async (req) => {
+    const revisionId = (req.query[key] as string | undefined) ?? req.body?.[key];
+    if (!revisionId) return null;
+    const [row] = await db
+      .select({ projectId: contractReviewDocuments.projectId })
+      .from(contractReviewDocuments)
+      .where(eq(contractReviewDocuments.id, revisionId))
+      .limit(1);
+    return row ? childOfProject(req, row.projectId) : null;
+  },
+  contractRevisionRow: (param = 'rowId') => viaContractRevisionColumn(contractReviewRevisionRows, param),
+  contractRowComment: (param = 'commentId') => viaContractRevisionColumn(contractReviewRowComments, param),
+  contractNote: (param = 'noteId') => viaContractRevisionColumn(contractNotes, param),
+  aiThread: (param = 'threadId') => viaContractRevisionColumn(aiThreads, param),
+  contractCell: (param = 'cellId'): ScopeResolver => async (req) => {
+    const [row] = await db
+      .select({ projectId: contractReviewDocuments.projectId })
+      .from(contractReviewRevisionCells)
+      .innerJoin(contractReviewRevisionRows, eq(contractReviewRevisionCells.revisionRowId, contractReviewRevisionRows.id))
+      .innerJoin(contractReviewDocuments, eq(contractReviewRevisionRows.revisionId, contractReviewDocuments.id))
+      .where(eq(contractReviewRevisionCells.id, req.params[param]))
+      .limit(1);
+    return row ? childOfProject(req, row.projectId) : null;
+  },
+  contractApproval: (param = 'approvalId'): ScopeResolver => async (req) => {
+    const [row] = await db
+      .select({ projectId: contractReviewDocuments.projectId })
+      .from(contractReviewApprovals)
+      .innerJoin(contractReviewRevisionRows, eq(contractReviewApprovals.revisionRowId, contractReviewRevisionRows.id))
+      .innerJoin(contractReviewDocuments, eq(contractReviewRevisionRows.revisionId, contractReviewDocuments.id))
+      .where(eq(contractReviewApprovals.id, req.params[param]))
+      .limit(1);
+    return row ? childOfProject(req, row.projectId) : null;
+  },
+
+  specialCondition: (param = 'id') => viaProjectColumn(specialConditionDrafts, param),
+
+  projectMembership: (param = 'membershipId') => viaProjectColumn(projectMemberships, param),
+
+  boqRevision: (param = 'revisionId') => viaProjectColumn(boqRevisions, param),
+  boqItem: (param = 'itemId'): ScopeResolver => async (req) => {
+    const [row] = await db
+      .select({ projectId: boqRevisions.projectId })
+      .from(boqItems)
+      .innerJoin(boqRevisions, eq(boqItems.revisionId, boqRevisions.id))
+      .where(eq(boqItems.id, req.params[param]))
+      .limit(1);
+    return row ? childOfProject(req, row.projectId) : null;
+  },
+  eventTag: (param = 'eventTagId') => viaProjectColumn(pEventTags, param),
+  finalQty: (param = 'finalQtyId'): ScopeResolver => async (req) => {
+    const [row] = await db
+      .select({ projectId: boqRevisions.projectId })
+      .from(pFinalQty)
+      .innerJoin(boqItems, eq(pFinalQty.boqItemId, boqItems.id))
+      .innerJoin(boqRevisions, eq(boqItems.revisionId, boqRevisions.id))
+      .where(eq(pFinalQty.id, req.params[param]))
+      .limit(1);
+    return row ? childOfProject(req, row.projectId) : null;
+  },
+  claimPeriod: (param = 'periodId') => viaProjectColumn(boqClaimPeriods, param),
+  globalVariable: (param = 'id') => viaProjectColumn(globalVariables, param),
+  resourceRate: (param = 'id') => viaProjectColumn(resourceRates, param),
+  worksheet: (param = 'worksheetId') => viaProjectColumn(worksheets, param),
+  worksheetItem: (param = 'id'): ScopeResolver => async (req) => {
+    const [row] = await db
+      .select({ projectId: worksheets.projectId, worksheetId: worksheets.id })
+      .from(worksheetItems)
+      .innerJoin(worksheets, eq(worksheetItems.worksheetId, worksheets.id))
+      .where(eq(worksheetItems.id, req.params[param]))
+      .limit(1);
+    if (!row) return null;
+    if (req.params.worksheetId && req.params.worksheetId !== row.worksheetId) return null;
+    return childOfProject(req, row.projectId);
+  },
+};
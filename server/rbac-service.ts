@@ -334,6 +334,21 @@ export async function getUserAccountDetails(userAccountId: string) {
   return result;
 }
 
+/**
+ * Get the user account linked to a person (people authenticate, accounts hold roles)
+ * @param personId - The person ID
+ * @returns The user account ID, or null if the person has no account
+ */
+export async function getUserAccountIdForPerson(personId: string): Promise<string | null> {
+  const [account] = await db
+    .select({ id: userAccounts.id })
+    .from(userAccounts)
+    .where(eq(userAccounts.personId, personId))
+    .limit(1);
+
+  return account?.id ?? null;
+}
+
 /**
  * Get all active roles for a user
  * @param userAccountId - The user account ID
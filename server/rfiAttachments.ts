@@ -0,0 +1,176 @@
+/**
+ * RFI and RFI comment attachments
+ *
+ * Files are uploaded through ObjectStorageService under rfis/<rfiId>/<attachmentId> and listed in
+ * the attachments jsonb of the RFI or comment as RFIAttachment entries. Clients read them through
+ * /api/rfis/:id/attachments/:attachmentId, which checks access to the RFI (the /objects/ route
+ * does not serve rfis/ keys). Only PDFs and raster images are shown inline, with a type taken
+ * from the file extension; every other file is sent as a download (see attachmentResponseHeaders).
+ */
+
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from './db';
+import { ObjectStorageService } from './objectStorage';
+import { rfis, rfiComments, type RFIAttachment } from '@shared/schema';
+
+export const RFI_ATTACHMENT_MAX_BYTES = 25 * 1024 * 1024;
+export const RFI_ATTACHMENT_MAX_FILES = 10;
+
+// Extensions that are never accepted, whatever the content looks like
+const BLOCKED_EXTENSIONS = new Set([
+  'exe', 'dll', 'com', 'bat', 'cmd', 'msi', 'scr', 'pif', 'cpl', 'jar', 'js', 'jse', 'vbs', 'vbe',
+  'wsf', 'wsh', 'ps1', 'psm1', 'sh', 'app', 'dmg', 'iso', 'lnk', 'reg', 'hta',
+]);
+
+// Executable headers: Windows PE ("MZ"), ELF and Mach-O
+const EXECUTABLE_SIGNATURES = [
+  Buffer.from([0x4d, 0x5a]),
+  Buffer.from([0x7f, 0x45, 0x4c, 0x46]),
+  Buffer.from([0xcf, 0xfa, 0xed, 0xfe]),
+  Buffer.from([0xfe, 0xed, 0xfa, 0xcf]),
+];
+
+// Types a browser may render inline, by extension. The uploader's content type is not trusted:
+// HTML, SVG and the like could run script on our origin.
+const INLINE_PREVIEW_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+};
+
+export class RfiAttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RfiAttachmentError';
+    Object.setPrototypeOf(this, RfiAttachmentError.prototype);
+  }
+}
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/**
+ * File name safe to store and send back in Content-Disposition (no paths, control characters or quotes)
+ */
+export function sanitizeAttachmentName(name: string): string {
+  const base = path.basename(name.replace(/\\/g, '/'))
+    .replace(/[\x00-\x1f\x7f"]/g, '')
+    .trim();
+  return (base || 'attachment').slice(0, 200);
+}
+
+/**
+ * Reject empty, oversized and executable files.
+ * Throws RfiAttachmentError with a message naming the file.
+ */
+export function validateRfiAttachment(file: UploadedFile): void {
+  const name = sanitizeAttachmentName(file.originalname);
+  const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+  if (file.size === 0) {
+    throw new RfiAttachmentError(`${name} is empty`);
+  }
+  if (file.size > RFI_ATTACHMENT_MAX_BYTES) {
+    throw new RfiAttachmentError(`${name} is larger than ${RFI_ATTACHMENT_MAX_BYTES / (1024 * 1024)}MB`);
+  }
+  if (BLOCKED_EXTENSIONS.has(extension)) {
+    throw new RfiAttachmentError(`${name}: .${extension} files can't be attached`);
+  }
+  if (EXECUTABLE_SIGNATURES.some(signature => file.buffer.subarray(0, signature.length).equals(signature))) {
+    throw new RfiAttachmentError(`${name} looks like a program and can't be attached`);
+  }
+}
+
+/**
+ * Headers for serving an attachment. PDFs and raster images are previewed inline as their
+ * extension's type; anything else, or any file when downloading, is sent as an octet-stream
+ * attachment. All but PDFs (which the browser's viewer must render) are sandboxed.
+ */
+export function attachmentResponseHeaders(name: string, download: boolean): Record<string, string> {
+  const safeName = sanitizeAttachmentName(name);
+  const extension = safeName.includes('.') ? safeName.split('.').pop()!.toLowerCase() : '';
+  const inlineType = download ? undefined : INLINE_PREVIEW_TYPES[extension];
+  const contentType = inlineType ?? 'application/octet-stream';
+
+  return {
+    'Content-Type': contentType,
+    'Content-Disposition': `${inlineType ? 'inline' : 'attachment'}; filename="${safeName}"`,
+    'X-Content-Type-Options': 'nosniff',
+    ...(contentType === 'application/pdf' ? {} : { 'Content-Security-Policy': 'sandbox' }),
+  };
+}
+
+export function rfiAttachmentObjectKey(rfiId: string, attachmentId: string): string {
+  return `rfis/${rfiId}/${attachmentId}`;
+}
+
+/**
+ * Validate all files, then upload them. Nothing is uploaded if any file is rejected.
+ */
+export async function uploadRfiAttachments(rfiId: string, files: UploadedFile[], uploadedBy: string | null): Promise<RFIAttachment[]> {
+  if (files.length > RFI_ATTACHMENT_MAX_FILES) {
+    throw new RfiAttachmentError(`Attach at most ${RFI_ATTACHMENT_MAX_FILES} files at a time`);
+  }
+  files.forEach(validateRfiAttachment);
+
+  const objectStorage = new ObjectStorageService();
+  const attachments: RFIAttachment[] = [];
+  for (const file of files) {
+    const id = randomUUID();
+    await objectStorage.uploadObject(file.buffer, rfiAttachmentObjectKey(rfiId, id), file.mimetype || undefined);
+    attachments.push({
+      id,
+      name: sanitizeAttachmentName(file.originalname),
+      url: `/api/rfis/${rfiId}/attachments/${id}`,
+      size: file.size,
+      contentType: file.mimetype || 'application/octet-stream',
+      uploadedBy,
+      uploadedAt: new Date().toISOString(),
+    });
+  }
+  return attachments;
+}
+
+/**
+ * Attachments of an RFI and of its comments, in upload order per source
+ */
+export async function listRfiAttachments(rfiId: string): Promise<Array<RFIAttachment & { source: 'rfi' | 'comment' }>> {
+  const [rfi] = await db.select({ attachments: rfis.attachments }).from(rfis).where(eq(rfis.id, rfiId)).limit(1);
+  const comments = await db
+    .select({ attachments: rfiComments.attachments })
+    .from(rfiComments)
+    .where(eq(rfiComments.rfiId, rfiId))
+    .orderBy(rfiComments.createdAt);
+
+  return [
+    ...((rfi?.attachments as RFIAttachment[] | null) || []).map(attachment => ({ ...attachment, source: 'rfi' as const })),
+    ...comments.flatMap(comment =>
+      ((comment.attachments as RFIAttachment[] | null) || []).map(attachment => ({ ...attachment, source: 'comment' as const }))
+    ),
+  ];
+}
+
+/**
+ * Remove stored files, logging rather than failing when one is already gone
+ */
+export async function deleteRfiAttachmentObjects(rfiId: string, attachments: RFIAttachment[]): Promise<void> {
+  const objectStorage = new ObjectStorageService();
+  for (const attachment of attachments) {
+    if (!attachment.id) continue;
+    try {
+      await objectStorage.deleteFile(rfiAttachmentObjectKey(rfiId, attachment.id));
+    } catch (error) {
+      console.error(`[RFI Attachments] Failed to delete ${attachment.name}:`, error);
+    }
+  }
+}
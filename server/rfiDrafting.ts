@@ -0,0 +1,401 @@
+/**
+ * AI-assisted RFI drafting
+ *
+ * Turns the originator's rough notes into an RFI question grounded in the project's documents.
+ * Relevant head contract clauses come from the clause summaries of the parsed contract
+ * (contractTextChunks), relevant specification sections from the project's uploaded
+ * specifications PDF, and similar past RFIs from the project's register. Retrieval is keyword
+ * based so it works without embeddings; only the top passages are sent to the model. Token
+ * usage is logged to aiUsageLogs as 'RFI' / 'AI Draft'.
+ */
+
+import { and, desc, eq, inArray, isNotNull } from 'drizzle-orm';
+import { db } from './db';
+import {
+  aiUsageLogs,
+  businessUnits,
+  companies,
+  contractReviewDocuments,
+  contractTextChunks,
+  projects,
+  rfis,
+  rfiStatusHistory,
+  type Project,
+} from '@shared/schema';
+import { createAIProvider, estimateCost, getModelString } from './aiProviders';
+import { extractTextFromPDF } from './semanticSearch';
+import { ObjectStorageService } from './objectStorage';
+
+export class RfiDraftError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RfiDraftError';
+    Object.setPrototypeOf(this, RfiDraftError.prototype);
+  }
+}
+
+const MAX_CLAUSES = 6;
+const MAX_SPEC_SECTIONS = 4;
+const MAX_SIMILAR_RFIS = 5;
+
+// Share of the notes' terms a past RFI must contain to be suggested as similar
+const SIMILAR_RFI_MIN_SCORE = 0.25;
+
+// Specification sections are trimmed before being sent to the model
+const SPEC_SECTION_CHARS = 2000;
+
+// Specifications without recognisable headings are split into windows of this size
+const SPEC_WINDOW_CHARS = 3000;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'has', 'have', 'had', 'was',
+  'were', 'will', 'shall', 'with', 'this', 'that', 'these', 'those', 'from', 'into', 'onto', 'what',
+  'which', 'who', 'whom', 'when', 'where', 'why', 'how', 'our', 'your', 'their', 'there', 'here',
+  'been', 'being', 'does', 'did', 'doing', 'should', 'would', 'could', 'may', 'might', 'must', 'per',
+  'please', 'confirm', 'advise', 'clarify', 'require', 'required', 'regarding', 'about', 'also',
+  'than', 'then', 'them', 'they', 'its', 'out', 'off', 'over', 'under', 'via', 'use', 'used',
+]);
+
+const RFI_DRAFTING_PROMPT = `
+Role: You are a senior project engineer on an Australian construction project drafting a Request for Information (RFI). Use Australian English spelling and a formal, neutral tone. Do not use em dashes.
+
+Authoring rules:
+- Rewrite the originator's notes as one clear, answerable question (or a short numbered list of questions if the notes raise several).
+- State the relevant facts briefly, then the question. Do not speculate about cost or time entitlements.
+- Cite contract clauses and specification sections only from the extracts provided, using their exact numbers, e.g. "Clause 34.1" or "Specification Section 03 30 00". If no extract is relevant, do not invent a reference.
+- If a similar past RFI is relevant, you may refer to it by its number.
+- Keep the title under 12 words.
+
+Respond with JSON only, no code fences, in this shape:
+{"title": "...", "question": "...", "references": [{"source": "contract" | "specification", "reference": "Clause 34.1", "reason": "why it is relevant"}], "proposedResolution": "..." }
+Use an empty string for proposedResolution if the notes do not suggest one.
+`;
+
+export interface RfiDraftClause {
+  clauseNumber: string;
+  heading: string;
+  summary: string;
+  startPage: number;
+  endPage: number;
+}
+
+export interface RfiDraftSpecSection {
+  reference: string;
+  heading: string;
+  text: string;
+}
+
+export interface SimilarRfi {
+  id: string;
+  rfiNumber: string;
+  title: string;
+  status: string;
+  score: number; // 0-1, share of the notes' terms found in the RFI
+  response: string | null;
+}
+
+export interface RfiDraftReference {
+  source: 'contract' | 'specification';
+  reference: string;
+  reason: string;
+}
+
+export interface RfiDraftResult {
+  title: string;
+  question: string;
+  references: RfiDraftReference[];
+  proposedResolution: string;
+  clauses: RfiDraftClause[];
+  specSections: RfiDraftSpecSection[];
+  similarRfis: SimilarRfi[];
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    estimatedCost: number;
+  };
+}
+
+// Search terms from free text: lower-cased words of three or more letters that are not stop
+// words, plus clause-style numbers such as 34.1
+export function draftTerms(text: string): string[] {
+  const terms = new Set<string>();
+  for (const word of text.toLowerCase().split(/[^a-z0-9.]+/)) {
+    const trimmed = word.replace(/^\.+|\.+$/g, '');
+    if (/^\d+(\.\d+)+$/.test(trimmed)) {
+      terms.add(trimmed);
+    } else if (trimmed.length >= 3 && !/\d/.test(trimmed) && !STOP_WORDS.has(trimmed)) {
+      terms.add(trimmed.replace(/\./g, ''));
+    }
+  }
+  return Array.from(terms);
+}
+
+// Share of the terms found in the text (0-1). Words match on their first five letters so
+// "waterproofing" finds "waterproof" and "membranes" finds "membrane".
+export function scorePassage(terms: string[], text: string): number {
+  if (terms.length === 0) return 0;
+  const haystack = text.toLowerCase();
+  const matched = terms.filter(term => haystack.includes(/\d/.test(term) ? term : term.slice(0, 5)));
+  return matched.length / terms.length;
+}
+
+// Best `limit` items with a positive score, highest first
+export function rankPassages<T>(terms: string[], items: T[], textOf: (item: T) => string, limit: number): Array<T & { score: number }> {
+  return items
+    .map(item => ({ ...item, score: scorePassage(terms, textOf(item)) }))
+    .filter(item => item.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Specification headings look like "SECTION 03 30 00 CAST-IN-PLACE CONCRETE", "0331 CONCRETE" or
+// "3.4 Waterproofing Membranes" on a line of their own
+const SPEC_HEADING = /^\s*((?:section\s+)?\d{1,4}(?:[ .]\d{1,3}){0,3})\s+([A-Za-z][^\n]{2,80})$/i;
+
+// Split extracted specification text into sections at its headings
+export function splitSpecificationSections(text: string): RfiDraftSpecSection[] {
+  const sections: RfiDraftSpecSection[] = [];
+  let current: RfiDraftSpecSection | null = null;
+
+  for (const line of text.split('\n')) {
+    const heading = line.match(SPEC_HEADING);
+    if (heading) {
+      if (current && current.text.trim()) sections.push(current);
+      current = { reference: heading[1].replace(/\s+/g, ' ').trim(), heading: heading[2].trim(), text: '' };
+    } else if (current) {
+      current.text += line + '\n';
+    }
+  }
+  if (current && current.text.trim()) sections.push(current);
+
+  if (sections.length > 0) {
+    return sections.map(section => ({ ...section, text: section.text.trim() }));
+  }
+
+  // No headings found: fall back to fixed windows so the text is still searchable
+  const windows: RfiDraftSpecSection[] = [];
+  for (let start = 0; start < text.length; start += SPEC_WINDOW_CHARS) {
+    const chunk = text.slice(start, start + SPEC_WINDOW_CHARS).trim();
+    if (chunk) windows.push({ reference: `Part ${windows.length + 1}`, heading: '', text: chunk });
+  }
+  return windows;
+}
+
+// Parse the model's JSON reply, falling back to treating the reply as the question
+export function parseDraftResponse(content: string, fallbackTitle: string): Pick<RfiDraftResult, 'title' | 'question' | 'references' | 'proposedResolution'> {
+  const json = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    const parsed = JSON.parse(json);
+    const references: RfiDraftReference[] = Array.isArray(parsed.references)
+      ? parsed.references
+          .filter((ref: any) => ref && typeof ref.reference === 'string' && ref.reference.trim())
+          .map((ref: any) => ({
+            source: ref.source === 'specification' ? 'specification' : 'contract',
+            reference: ref.reference.trim(),
+            reason: typeof ref.reason === 'string' ? ref.reason.trim() : '',
+          }))
+      : [];
+    return {
+      title: typeof parsed.title === 'string' && parsed.title.trim() ? parsed.title.trim() : fallbackTitle,
+      question: typeof parsed.question === 'string' ? parsed.question.trim() : '',
+      references,
+      proposedResolution: typeof parsed.proposedResolution === 'string' ? parsed.proposedResolution.trim() : '',
+    };
+  } catch {
+    return { title: fallbackTitle, question: content.trim(), references: [], proposedResolution: '' };
+  }
+}
+
+// Clause summaries of the project's latest parsed head contract revision
+async function getProjectContractClauses(projectId: string): Promise<RfiDraftClause[]> {
+  const [revision] = await db
+    .select({ parsedAssetId: contractReviewDocuments.parsedAssetId })
+    .from(contractReviewDocuments)
+    .where(and(eq(contractReviewDocuments.projectId, projectId), isNotNull(contractReviewDocuments.parsedAssetId)))
+    .orderBy(desc(contractReviewDocuments.revisionNumber))
+    .limit(1);
+  if (!revision?.parsedAssetId) return [];
+
+  const chunks = await db
+    .select({
+      startPage: contractTextChunks.startPage,
+      endPage: contractTextChunks.endPage,
+      summaryJson: contractTextChunks.summaryJson,
+    })
+    .from(contractTextChunks)
+    .where(and(eq(contractTextChunks.parsedAssetId, revision.parsedAssetId), isNotNull(contractTextChunks.summaryJson)))
+    .orderBy(contractTextChunks.chunkIndex);
+
+  return chunks.flatMap(chunk =>
+    (chunk.summaryJson?.summaries || []).map(summary => ({
+      clauseNumber: summary.clauseNumber,
+      heading: summary.heading,
+      summary: summary.summary,
+      startPage: chunk.startPage,
+      endPage: chunk.endPage,
+    }))
+  );
+}
+
+// Extracted specification sections, cached by object key since a new upload gets a new key
+const specificationCache = new Map<string, RfiDraftSpecSection[]>();
+const SPEC_CACHE_SIZE = 20;
+
+async function getProjectSpecificationSections(project: Project): Promise<RfiDraftSpecSection[]> {
+  const fileKey = project.specificationsFileKey;
+  if (!fileKey) return [];
+
+  const cached = specificationCache.get(fileKey);
+  if (cached) return cached;
+
+  try {
+    const file = await new ObjectStorageService().getObjectEntityFile(fileKey);
+    const [buffer] = await file.download();
+    const sections = splitSpecificationSections(await extractTextFromPDF(buffer));
+    if (specificationCache.size >= SPEC_CACHE_SIZE) {
+      specificationCache.delete(specificationCache.keys().next().value as string);
+    }
+    specificationCache.set(fileKey, sections);
+    return sections;
+  } catch (error) {
+    console.error('[RFI Draft] Error reading specifications:', error);
+    return [];
+  }
+}
+
+// Past RFIs of the project sharing the most terms with the notes, with their latest response
+async function findSimilarRfis(projectId: string, terms: string[]): Promise<SimilarRfi[]> {
+  const projectRfis = await db
+    .select({ id: rfis.id, rfiNumber: rfis.rfiNumber, title: rfis.title, description: rfis.description, status: rfis.status })
+    .from(rfis)
+    .where(eq(rfis.projectId, projectId));
+
+  const matches = rankPassages(terms, projectRfis, rfi => `${rfi.title}\n${rfi.description || ''}`, MAX_SIMILAR_RFIS)
+    .filter(rfi => rfi.score >= SIMILAR_RFI_MIN_SCORE);
+  if (matches.length === 0) return [];
+
+  const responses = await db
+    .select({ rfiId: rfiStatusHistory.rfiId, note: rfiStatusHistory.note })
+    .from(rfiStatusHistory)
+    .where(and(
+      inArray(rfiStatusHistory.rfiId, matches.map(rfi => rfi.id)),
+      eq(rfiStatusHistory.toStatus, 'responded'),
+      isNotNull(rfiStatusHistory.note),
+    ))
+    .orderBy(desc(rfiStatusHistory.createdAt));
+  const responseByRfi = new Map<string, string>();
+  for (const response of responses) {
+    if (response.note && !responseByRfi.has(response.rfiId)) responseByRfi.set(response.rfiId, response.note);
+  }
+
+  return matches.map(rfi => ({
+    id: rfi.id,
+    rfiNumber: rfi.rfiNumber,
+    title: rfi.title,
+    status: rfi.status,
+    score: Math.round(rfi.score * 100) / 100,
+    response: responseByRfi.get(rfi.id) || null,
+  }));
+}
+
+/**
+ * Draft an RFI from the originator's notes using the project's contract clauses, specification
+ * sections and similar past RFIs, logging token usage against the person
+ */
+export async function draftRfiWithAI(projectId: string, notes: string, personId: string): Promise<RfiDraftResult> {
+  const terms = draftTerms(notes);
+  if (terms.length === 0) {
+    throw new RfiDraftError('Describe the question in a few words before drafting');
+  }
+
+  const [project] = await db.select().from(projects).where(eq(projects.id, projectId));
+  if (!project) {
+    throw new RfiDraftError('Project not found');
+  }
+
+  const [company] = await db
+    .select({ aiLetterModel: companies.aiLetterModel })
+    .from(businessUnits)
+    .innerJoin(companies, eq(businessUnits.companyId, companies.id))
+    .where(eq(businessUnits.id, project.businessUnitId!));
+  const aiModel = company?.aiLetterModel || 'claude-sonnet-4-20250514';
+
+  const [allClauses, allSpecSections, similarRfis] = await Promise.all([
+    getProjectContractClauses(projectId),
+    getProjectSpecificationSections(project),
+    findSimilarRfis(projectId, terms),
+  ]);
+
+  const clauses = rankPassages(terms, allClauses, clause => `${clause.clauseNumber} ${clause.heading} ${clause.summary}`, MAX_CLAUSES)
+    .map(({ score, ...clause }) => clause);
+  const specSections = rankPassages(terms, allSpecSections, section => `${section.reference} ${section.heading} ${section.text}`, MAX_SPEC_SECTIONS)
+    .map(({ score, ...section }) => ({ ...section, text: section.text.slice(0, SPEC_SECTION_CHARS) }));
+
+  const clauseText = clauses.length > 0
+    ? clauses.map(clause => `Clause ${clause.clauseNumber} ${clause.heading} (pages ${clause.startPage}-${clause.endPage}): ${clause.summary}`).join('\n')
+    : 'No parsed head contract clauses are relevant.';
+  const specText = specSections.length > 0
+    ? specSections.map(section => `Specification ${section.reference} ${section.heading}\n${section.text}`).join('\n\n')
+    : 'No specification sections are relevant.';
+  const similarText = similarRfis.length > 0
+    ? similarRfis.map(rfi => `${rfi.rfiNumber} (${rfi.status}): ${rfi.title}${rfi.response ? `\nResponse: ${rfi.response}` : ''}`).join('\n\n')
+    : 'None.';
+
+  const prompt = `${RFI_DRAFTING_PROMPT}
+PROJECT: ${project.name}${project.client ? ` (Client: ${project.client})` : ''}
+
+HEAD CONTRACT CLAUSE SUMMARIES:
+${clauseText}
+
+SPECIFICATION EXTRACTS:
+${specText}
+
+SIMILAR PAST RFIS ON THIS PROJECT:
+${similarText}
+
+ORIGINATOR'S NOTES:
+${notes.trim()}`;
+
+  const startTime = Date.now();
+  const result = await createAIProvider(aiModel).createCompletion([
+    {
+      role: 'system',
+      content: 'You are a senior project engineer in the Australian construction industry, expert in contract administration and RFIs.',
+    },
+    { role: 'user', content: prompt },
+  ], {
+    model: getModelString(aiModel),
+    temperature: 0.2,
+    maxTokens: 1500,
+  });
+  const durationMs = Date.now() - startTime;
+
+  const fallbackTitle = notes.trim().split('\n')[0].slice(0, 80);
+  const draft = parseDraftResponse(result.content, fallbackTitle);
+
+  const { inputTokens, outputTokens, totalTokens } = result.usage;
+  const estimatedCost = estimateCost(aiModel, inputTokens, outputTokens);
+
+  await db.insert(aiUsageLogs).values({
+    projectId,
+    personId,
+    formName: 'RFI',
+    eventType: 'AI Draft',
+    modelUsed: aiModel,
+    inputTokens,
+    outputTokens,
+    totalTokens,
+    durationMs,
+    estimatedCost: estimatedCost.toFixed(4),
+    notes: `Drafted from ${clauses.length} clause(s), ${specSections.length} specification section(s) and ${similarRfis.length} similar RFI(s)`,
+  });
+
+  return {
+    ...draft,
+    clauses,
+    specSections,
+    similarRfis,
+    usage: { inputTokens, outputTokens, totalTokens, estimatedCost },
+  };
+}
@@ -0,0 +1,443 @@
+/**
+ * RFI register export (Excel) and the formal RFI form (Word / PDF) issued to the client
+ *
+ * The form carries the company letterhead (name, ABN, address, contacts) and the company's table
+ * header colours. The response shown on the form is the note recorded when the RFI was last
+ * marked as responded.
+ */
+
+import ExcelJS from 'exceljs';
+import {
+  Document, Packer, Paragraph, TextRun, AlignmentType, HeadingLevel, Table, TableRow, TableCell,
+  WidthType, ShadingType, BorderStyle,
+} from 'docx';
+import { asc, desc, eq, and } from 'drizzle-orm';
+import { db } from './db';
+import {
+  rfis, rfiComments, rfiStatusHistory, projects, businessUnits, companies, userAccounts, people,
+  type RFI, type RFIAttachment,
+} from '@shared/schema';
+import { listRfiAttachments } from './rfiAttachments';
+
+export interface RfiRegisterFilters {
+  projectIds?: string[];
+  search?: string;
+  status?: string;
+  ballInCourt?: string;
+  priority?: string;
+  overdueOnly?: boolean;
+}
+
+export interface RfiRegisterProject {
+  projectCode: string;
+  name: string;
+}
+
+interface Letterhead {
+  name: string;
+  abn: string | null;
+  address: string | null;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  headerBg: string;
+  headerFg: string;
+}
+
+export interface RfiDocumentData {
+  rfi: RFI;
+  projectName: string;
+  letterhead: Letterhead;
+  attachments: Array<RFIAttachment & { source: 'rfi' | 'comment' }>;
+  response: { text: string; by: string | null; at: Date } | null;
+  comments: Array<{ author: string; createdAt: Date; content: string; attachments: RFIAttachment[] }>;
+}
+
+const DEFAULT_HEADER_BG = '#f1f5f9';
+const DEFAULT_HEADER_FG = '#0f172a';
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: 'Draft',
+  issued: 'Issued',
+  responded: 'Responded',
+  closed: 'Closed',
+};
+
+const BALL_IN_COURT_LABELS: Record<string, string> = {
+  originator: 'Originator',
+  recipient: 'Recipient',
+};
+
+const formatDate = (value: Date | string | null) => {
+  if (!value) return '-';
+  // yyyy-mm-dd columns are calendar dates, not moments
+  const date = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+  return isNaN(date.getTime()) ? String(value) : date.toLocaleDateString('en-AU');
+};
+
+const personName = (givenName: string | null, familyName: string | null) =>
+  [givenName, familyName].filter(Boolean).join(' ') || null;
+
+// '#f1f5f9' -> 'F1F5F9', falling back when the company colour isn't a hex colour
+const hexColour = (value: string | null, fallback: string) =>
+  (value && /^#?[0-9a-fA-F]{6}$/.test(value) ? value : fallback).replace('#', '').toUpperCase();
+
+/**
+ * RFIs matching the register filters of the RFIs page
+ */
+export function filterRfiRegister(rows: RFI[], filters: RfiRegisterFilters): RFI[] {
+  const search = filters.search?.trim().toLowerCase();
+  return rows.filter(rfi =>
+    (!filters.projectIds || filters.projectIds.includes(rfi.projectId)) &&
+    (!search || rfi.title.toLowerCase().includes(search) || rfi.rfiNumber.toLowerCase().includes(search)) &&
+    (!filters.status || filters.status === 'all' || rfi.status === filters.status) &&
+    (!filters.ballInCourt || filters.ballInCourt === 'all' || rfi.ballInCourt === filters.ballInCourt) &&
+    (!filters.priority || filters.priority === 'all' || rfi.priority === filters.priority) &&
+    (!filters.overdueOnly || rfi.isOverdue)
+  );
+}
+
+/**
+ * RFI register workbook: one row per RFI, with the applied filters noted above the table
+ */
+export async function generateRfiRegisterExcel(
+  rows: RFI[],
+  projectsById: Map<string, RfiRegisterProject>,
+  title: string,
+  filterSummary: string
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('RFI Register');
+
+  sheet.addRow([title]).font = { bold: true, size: 14 };
+  sheet.addRow([`Exported ${new Date().toLocaleDateString('en-AU')}. ${filterSummary}`]);
+  sheet.addRow([]);
+
+  const headerRow = sheet.addRow([
+    'Project', 'RFI No.', 'Title', 'Status', 'Priority', 'Raised By', 'To', 'Ball in Court',
+    'Created', 'Issued', 'Required Date', 'SLA Due', 'Responded', 'Closed', 'Days Outstanding', 'Overdue', 'Attachments',
+  ]);
+  headerRow.font = { bold: true };
+  headerRow.fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb: 'FFE0E0E0' },
+  };
+
+  for (const rfi of rows) {
+    const project = projectsById.get(rfi.projectId);
+    const row = sheet.addRow([
+      project ? `${project.projectCode} ${project.name}` : '',
+      rfi.rfiNumber,
+      rfi.title,
+      STATUS_LABELS[rfi.status] || rfi.status,
+      rfi.priority,
+      rfi.raisedBy,
+      rfi.assignedTo ?? '',
+      rfi.ballInCourt ? BALL_IN_COURT_LABELS[rfi.ballInCourt] || rfi.ballInCourt : '',
+      formatDate(rfi.createdAt),
+      formatDate(rfi.issuedAt),
+      formatDate(rfi.dueDate),
+      formatDate(rfi.slaDueDate),
+      formatDate(rfi.respondedAt),
+      formatDate(rfi.closedAt),
+      rfi.issuedAt ? rfi.daysOutstanding : null,
+      rfi.isOverdue ? 'Yes' : 'No',
+      rfi.attachments?.length || 0,
+    ]);
+    if (rfi.isOverdue) row.getCell(16).font = { bold: true, color: { argb: 'FFDC2626' } };
+  }
+
+  sheet.columns.forEach((column, index) => {
+    column.width = index === 2 ? 50 : index === 0 ? 30 : index === 1 ? 22 : 14;
+  });
+  sheet.autoFilter = { from: { row: 4, column: 1 }, to: { row: 4, column: 17 } };
+  sheet.views = [{ state: 'frozen', ySplit: 4 }];
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+}
+
+/**
+ * Everything printed on the RFI form
+ */
+export async function loadRfiDocumentData(rfiId: string): Promise<RfiDocumentData | null> {
+  const [row] = await db
+    .select({ rfi: rfis, project: projects, company: companies })
+    .from(rfis)
+    .innerJoin(projects, eq(rfis.projectId, projects.id))
+    .leftJoin(businessUnits, eq(projects.businessUnitId, businessUnits.id))
+    .leftJoin(companies, eq(businessUnits.companyId, companies.id))
+    .where(eq(rfis.id, rfiId))
+    .limit(1);
+  if (!row) return null;
+
+  const [responded] = await db
+    .select({
+      note: rfiStatusHistory.note,
+      createdAt: rfiStatusHistory.createdAt,
+      givenName: people.givenName,
+      familyName: people.familyName,
+    })
+    .from(rfiStatusHistory)
+    .leftJoin(userAccounts, eq(rfiStatusHistory.changedBy, userAccounts.id))
+    .leftJoin(people, eq(userAccounts.personId, people.id))
+    .where(and(eq(rfiStatusHistory.rfiId, rfiId), eq(rfiStatusHistory.toStatus, 'responded')))
+    .orderBy(desc(rfiStatusHistory.createdAt))
+    .limit(1);
+
+  const comments = await db
+    .select({
+      content: rfiComments.content,
+      attachments: rfiComments.attachments,
+      createdAt: rfiComments.createdAt,
+      givenName: people.givenName,
+      familyName: people.familyName,
+      email: people.email,
+    })
+    .from(rfiComments)
+    .leftJoin(userAccounts, eq(rfiComments.userAccountId, userAccounts.id))
+    .leftJoin(people, eq(userAccounts.personId, people.id))
+    .where(eq(rfiComments.rfiId, rfiId))
+    .orderBy(asc(rfiComments.createdAt));
+
+  const { company } = row;
+  return {
+    rfi: row.rfi,
+    projectName: `${row.project.projectCode} ${row.project.name}`,
+    letterhead: {
+      name: company?.name || row.project.name,
+      abn: company?.abn || null,
+      address: company?.address || null,
+      contactEmail: company?.contactEmail || null,
+      contactPhone: company?.contactPhone || null,
+      headerBg: company?.tableHeaderBg || DEFAULT_HEADER_BG,
+      headerFg: company?.tableHeaderFg || DEFAULT_HEADER_FG,
+    },
+    attachments: await listRfiAttachments(rfiId),
+    response: responded && row.rfi.status !== 'issued'
+      ? { text: responded.note || '', by: personName(responded.givenName, responded.familyName), at: responded.createdAt }
+      : null,
+    comments: comments.map(comment => ({
+      author: personName(comment.givenName, comment.familyName) || comment.email || 'Unknown User',
+      createdAt: comment.createdAt,
+      content: comment.content,
+      attachments: comment.attachments || [],
+    })),
+  };
+}
+
+// Label/value pairs of the form's details block
+function detailRows(data: RfiDocumentData): Array<[string, string]> {
+  const { rfi } = data;
+  return [
+    ['RFI No.', rfi.rfiNumber],
+    ['Project', data.projectName],
+    ['To', rfi.assignedTo || '-'],
+    ['From', rfi.raisedBy],
+    ['Date Issued', formatDate(rfi.issuedAt)],
+    ['Response Required By', formatDate(rfi.dueDate || rfi.slaDueDate)],
+    ['Priority', rfi.priority.charAt(0).toUpperCase() + rfi.priority.slice(1)],
+    ['Status', STATUS_LABELS[rfi.status] || rfi.status],
+  ];
+}
+
+function letterheadLines(letterhead: Letterhead): string[] {
+  return [
+    letterhead.address,
+    [letterhead.abn && `ABN ${letterhead.abn}`, letterhead.contactPhone, letterhead.contactEmail].filter(Boolean).join('  |  '),
+  ].filter((line): line is string => !!line);
+}
+
+const attachmentLine = (attachment: RFIAttachment) =>
+  `${attachment.name}${attachment.size ? ` (${Math.max(1, Math.round(attachment.size / 1024))} KB)` : ''}`;
+
+/**
+ * RFI form as a Word document
+ */
+export async function generateRfiWordDocument(data: RfiDocumentData): Promise<Buffer> {
+  const { rfi, letterhead } = data;
+  const headerBg = hexColour(letterhead.headerBg, DEFAULT_HEADER_BG);
+  const headerFg = hexColour(letterhead.headerFg, DEFAULT_HEADER_FG);
+  const children: Array<Paragraph | Table> = [];
+
+  const sectionHeading = (text: string) => new Paragraph({
+    text,
+    heading: HeadingLevel.HEADING_2,
+    spacing: { before: 300, after: 100 },
+  });
+  const textParagraphs = (text: string) =>
+    text.split('\n').map(line => new Paragraph({ text: line, spacing: { after: 80 } }));
+
+  // Letterhead
+  children.push(new Paragraph({
+    children: [new TextRun({ text: letterhead.name, bold: true, size: 32 })],
+  }));
+  for (const line of letterheadLines(letterhead)) {
+    children.push(new Paragraph({ children: [new TextRun({ text: line, size: 18, color: '666666' })] }));
+  }
+  children.push(new Paragraph({
+    text: 'REQUEST FOR INFORMATION',
+    heading: HeadingLevel.HEADING_1,
+    alignment: AlignmentType.CENTER,
+    spacing: { before: 300, after: 200 },
+  }));
+
+  // Details
+  const cellBorder = { style: BorderStyle.SINGLE, size: 4, color: 'CCCCCC' };
+  const borders = { top: cellBorder, bottom: cellBorder, left: cellBorder, right: cellBorder };
+  children.push(new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: detailRows(data).map(([label, value]) => new TableRow({
+      children: [
+        new TableCell({
+          width: { size: 30, type: WidthType.PERCENTAGE },
+          shading: { type: ShadingType.CLEAR, color: 'auto', fill: headerBg },
+          borders,
+          children: [new Paragraph({ children: [new TextRun({ text: label, bold: true, color: headerFg })] })],
+        }),
+        new TableCell({
+          width: { size: 70, type: WidthType.PERCENTAGE },
+          borders,
+          children: [new Paragraph({ text: value })],
+        }),
+      ],
+    })),
+  }));
+
+  children.push(sectionHeading('Subject'));
+  children.push(new Paragraph({ children: [new TextRun({ text: rfi.title, bold: true })] }));
+
+  children.push(sectionHeading('Question'));
+  children.push(...textParagraphs(rfi.description || 'No description provided.'));
+
+  children.push(sectionHeading('Attachments'));
+  if (data.attachments.length === 0) {
+    children.push(new Paragraph({ text: 'None' }));
+  } else {
+    data.attachments.forEach((attachment, index) => children.push(new Paragraph({
+      text: `${index + 1}. ${attachmentLine(attachment)}${attachment.source === 'comment' ? ' (comment)' : ''}`,
+      spacing: { after: 40 },
+    })));
+  }
+
+  children.push(sectionHeading('Response'));
+  if (data.response) {
+    children.push(new Paragraph({
+      children: [new TextRun({
+        text: `Responded ${formatDate(data.response.at)}${data.response.by ? ` (recorded by ${data.response.by})` : ''}`,
+        italics: true,
+        color: '666666',
+      })],
+      spacing: { after: 80 },
+    }));
+    children.push(...textParagraphs(data.response.text || 'See comment history.'));
+  } else {
+    children.push(new Paragraph({ text: 'Awaiting response.' }));
+  }
+
+  children.push(sectionHeading('Comment History'));
+  if (data.comments.length === 0) {
+    children.push(new Paragraph({ text: 'No comments.' }));
+  }
+  for (const comment of data.comments) {
+    children.push(new Paragraph({
+      children: [
+        new TextRun({ text: comment.author, bold: true }),
+        new TextRun({ text: `  ${formatDate(comment.createdAt)}`, color: '666666' }),
+      ],
+      spacing: { before: 120, after: 40 },
+    }));
+    children.push(...textParagraphs(comment.content));
+    for (const attachment of comment.attachments) {
+      children.push(new Paragraph({
+        children: [new TextRun({ text: `Attachment: ${attachmentLine(attachment)}`, italics: true, size: 18 })],
+      }));
+    }
+  }
+
+  const doc = new Document({
+    sections: [
+      {
+        properties: {
+          page: {
+            margin: {
+              top: 1440,
+              right: 1440,
+              bottom: 1440,
+              left: 1440,
+            },
+          },
+        },
+        children,
+      },
+    ],
+  });
+
+  return Packer.toBuffer(doc);
+}
+
+/**
+ * RFI form as a PDF
+ */
+export async function generateRfiPDF(data: RfiDocumentData): Promise<Buffer> {
+  const { Document: PdfDocument, Page, Text, View, pdf } = await import('@react-pdf/renderer');
+  const React = await import('react');
+  const h = React.createElement;
+  const { rfi, letterhead } = data;
+  const headerBg = `#${hexColour(letterhead.headerBg, DEFAULT_HEADER_BG)}`;
+  const headerFg = `#${hexColour(letterhead.headerFg, DEFAULT_HEADER_FG)}`;
+
+  const heading = (text: string) =>
+    h(Text, { style: { fontSize: 12, fontFamily: 'Helvetica-Bold', marginTop: 14, marginBottom: 6 } }, text);
+  const muted = { color: '#666666' };
+
+  const RfiPDF = h(PdfDocument, {},
+    h(Page, { size: 'A4', style: { padding: 40, fontSize: 10, fontFamily: 'Helvetica' } },
+      h(View, { style: { marginBottom: 12 } },
+        h(Text, { style: { fontSize: 16, fontFamily: 'Helvetica-Bold' } }, letterhead.name),
+        ...letterheadLines(letterhead).map(line => h(Text, { key: line, style: { fontSize: 8, ...muted } }, line))
+      ),
+      h(Text, { style: { fontSize: 14, fontFamily: 'Helvetica-Bold', textAlign: 'center', marginBottom: 12 } }, 'REQUEST FOR INFORMATION'),
+      h(View, { style: { border: '0.5pt solid #cccccc' } },
+        ...detailRows(data).map(([label, value]) => h(View, {
+          key: label,
+          style: { flexDirection: 'row', borderBottom: '0.5pt solid #cccccc' },
+        },
+          h(Text, { style: { width: '30%', padding: 4, backgroundColor: headerBg, color: headerFg, fontFamily: 'Helvetica-Bold' } }, label),
+          h(Text, { style: { width: '70%', padding: 4 } }, value)
+        ))
+      ),
+      heading('Subject'),
+      h(Text, { style: { fontFamily: 'Helvetica-Bold' } }, rfi.title),
+      heading('Question'),
+      h(Text, {}, rfi.description || 'No description provided.'),
+      heading('Attachments'),
+      data.attachments.length === 0
+        ? h(Text, {}, 'None')
+        : h(View, {}, ...data.attachments.map((attachment, index) => h(Text, { key: attachment.id || String(index) },
+          `${index + 1}. ${attachmentLine(attachment)}${attachment.source === 'comment' ? ' (comment)' : ''}`))),
+      heading('Response'),
+      data.response
+        ? h(View, {},
+          h(Text, { style: { ...muted, marginBottom: 4 } },
+            `Responded ${formatDate(data.response.at)}${data.response.by ? ` (recorded by ${data.response.by})` : ''}`),
+          h(Text, {}, data.response.text || 'See comment history.'))
+        : h(Text, {}, 'Awaiting response.'),
+      heading('Comment History'),
+      data.comments.length === 0 ? h(Text, {}, 'No comments.') : null,
+      ...data.comments.map((comment, index) => h(View, { key: `comment-${index}`, style: { marginBottom: 8 } },
+        h(Text, { style: { fontFamily: 'Helvetica-Bold' } }, `${comment.author}  `, h(Text, { style: { fontFamily: 'Helvetica', ...muted } }, formatDate(comment.createdAt))),
+        h(Text, {}, comment.content),
+        ...comment.attachments.map((attachment, i) => h(Text, { key: `a-${i}`, style: { fontSize: 8, ...muted } }, `Attachment: ${attachmentLine(attachment)}`))
+      ))
+    )
+  );
+
+  // toBuffer() resolves to a stream despite its name
+  const stream = await pdf(RfiPDF).toBuffer();
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,270 @@
+/**
+ * RFI lifecycle, response SLAs and ball-in-court tracking
+ *
+ * RFIs move draft -> issued -> responded -> closed; every transition is validated here and
+ * recorded in rfiStatusHistory. While an RFI is issued the recipient owes a response: it is due
+ * on the required response date when one was given, otherwise on the issue date plus the
+ * project's SLA for the RFI's priority (business days skip weekends and project holidays).
+ * A scheduled job recomputes overdue state and days outstanding for every open RFI.
+ */
+
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from './db';
+import { rfis, rfiStatusHistory, rfiSlaRules, type RFI } from '@shared/schema';
+import { addNoticeDays, daysBetween, getProjectHolidaySet, isIsoDate, toIsoDate, todayIsoDate } from './noticeObligations';
+
+export const RFI_STATUSES = ['draft', 'issued', 'responded', 'closed'] as const;
+export type RFIStatus = typeof RFI_STATUSES[number];
+
+export const RFI_PRIORITIES = ['low', 'medium', 'high'] as const;
+export type RFIPriority = typeof RFI_PRIORITIES[number];
+
+// 'originator' is the raisedBy party, 'recipient' the assignedTo party
+export type BallInCourt = 'originator' | 'recipient';
+
+// Allowed status changes. A responded RFI can be re-issued when the response is insufficient,
+// and a closed RFI can be re-opened by issuing it again.
+export const RFI_TRANSITIONS: Record<RFIStatus, readonly RFIStatus[]> = {
+  draft: ['issued'],
+  issued: ['responded', 'closed'],
+  responded: ['closed', 'issued'],
+  closed: ['issued'],
+};
+
+export interface RfiSlaRule {
+  responseDays: number;
+  businessDays: boolean;
+}
+
+// Used for priorities a project has not configured
+export const DEFAULT_RFI_SLA: Record<RFIPriority, RfiSlaRule> = {
+  high: { responseDays: 3, businessDays: true },
+  medium: { responseDays: 5, businessDays: true },
+  low: { responseDays: 10, businessDays: true },
+};
+
+// How often the scheduled job recomputes open RFIs
+const REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+
+export class RfiTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RfiTransitionError';
+    Object.setPrototypeOf(this, RfiTransitionError.prototype);
+  }
+}
+
+export function isRfiStatus(value: unknown): value is RFIStatus {
+  return typeof value === 'string' && (RFI_STATUSES as readonly string[]).includes(value);
+}
+
+export function isRfiTransitionAllowed(from: string, to: string): boolean {
+  return isRfiStatus(from) && isRfiStatus(to) && RFI_TRANSITIONS[from].includes(to);
+}
+
+// Who owes the next action in a status: the originator drafts and reviews responses, the recipient responds
+export function ballInCourtFor(status: RFIStatus): BallInCourt | null {
+  if (status === 'issued') return 'recipient';
+  if (status === 'closed') return null;
+  return 'originator';
+}
+
+export interface RfiTracking {
+  slaDueDate: string | null;
+  isOverdue: boolean;
+  daysOutstanding: number;
+}
+
+/**
+ * SLA due date, overdue state and days outstanding of an RFI on a date.
+ * Days outstanding are calendar days from issue until the response (or closure, or today).
+ */
+export function computeRfiTracking(
+  rfi: Pick<RFI, 'status' | 'priority' | 'dueDate' | 'issuedAt' | 'respondedAt' | 'closedAt'>,
+  rules: Record<RFIPriority, RfiSlaRule>,
+  holidays: ReadonlySet<string>,
+  today: string
+): RfiTracking {
+  if (!rfi.issuedAt || rfi.status === 'draft') {
+    return { slaDueDate: null, isOverdue: false, daysOutstanding: 0 };
+  }
+
+  const issued = toIsoDate(rfi.issuedAt);
+  const rule = rules[rfi.priority as RFIPriority] || rules.medium;
+  const slaDueDate = addNoticeDays(issued, rule.responseDays, rule.businessDays, holidays);
+  const dueDate = isIsoDate(rfi.dueDate) ? rfi.dueDate : slaDueDate;
+
+  const stoppedAt = rfi.status === 'issued' ? null : rfi.respondedAt || rfi.closedAt;
+  const daysOutstanding = Math.max(0, daysBetween(issued, stoppedAt ? toIsoDate(stoppedAt) : today));
+
+  return {
+    slaDueDate,
+    isOverdue: rfi.status === 'issued' && today > dueDate,
+    daysOutstanding,
+  };
+}
+
+/**
+ * A project's response SLA per priority, with defaults for priorities it has not configured
+ */
+export async function getProjectRfiSlaRules(projectId: string): Promise<Record<RFIPriority, RfiSlaRule>> {
+  const rows = await db.select().from(rfiSlaRules).where(eq(rfiSlaRules.projectId, projectId));
+  const rules = { ...DEFAULT_RFI_SLA };
+  for (const row of rows) {
+    if ((RFI_PRIORITIES as readonly string[]).includes(row.priority)) {
+      rules[row.priority as RFIPriority] = { responseDays: row.responseDays, businessDays: row.businessDays };
+    }
+  }
+  return rules;
+}
+
+// Recompute and store tracking for a set of RFIs, loading each project's SLAs and holidays once
+async function refreshRfis(rows: RFI[]): Promise<number> {
+  const today = todayIsoDate();
+  const byProject = new Map<string, RFI[]>();
+  for (const rfi of rows) {
+    byProject.set(rfi.projectId, [...(byProject.get(rfi.projectId) || []), rfi]);
+  }
+
+  let changed = 0;
+  for (const [projectId, projectRfis] of Array.from(byProject)) {
+    const rules = await getProjectRfiSlaRules(projectId);
+    const holidays = await getProjectHolidaySet(projectId);
+
+    for (const rfi of projectRfis) {
+      const tracking = computeRfiTracking(rfi, rules, holidays, today);
+      if (
+        tracking.slaDueDate === rfi.slaDueDate &&
+        tracking.isOverdue === rfi.isOverdue &&
+        tracking.daysOutstanding === rfi.daysOutstanding
+      ) continue;
+
+      await db.update(rfis).set(tracking).where(eq(rfis.id, rfi.id));
+      changed++;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Recompute every RFI of a project (after its SLAs or holidays change)
+ */
+export async function refreshProjectRfis(projectId: string): Promise<number> {
+  return refreshRfis(await db.select().from(rfis).where(eq(rfis.projectId, projectId)));
+}
+
+export async function refreshRfi(rfiId: string): Promise<void> {
+  await refreshRfis(await db.select().from(rfis).where(eq(rfis.id, rfiId)));
+}
+
+/**
+ * Recompute all RFIs awaiting a response or review (the scheduled job)
+ */
+export async function refreshOpenRfis(): Promise<number> {
+  return refreshRfis(await db.select().from(rfis).where(inArray(rfis.status, ['issued', 'responded'])));
+}
+
+/**
+ * Record the creation of an RFI in its history
+ */
+export async function recordRfiCreated(rfi: RFI, changedBy: string | null): Promise<void> {
+  await db.insert(rfiStatusHistory).values({
+    rfiId: rfi.id,
+    fromStatus: null,
+    toStatus: rfi.status,
+    ballInCourt: rfi.ballInCourt,
+    changedBy,
+  });
+}
+
+/**
+ * Check that an RFI can move to a new status, throwing RfiTransitionError when it cannot.
+ * Lets callers validate before writing anything (e.g. an RFI created as issued).
+ */
+export function assertRfiTransition(rfi: Pick<RFI, 'status' | 'assignedTo'>, toStatus: string): asserts toStatus is RFIStatus {
+  if (!isRfiStatus(toStatus)) {
+    throw new RfiTransitionError(`Unknown status "${toStatus}". Use one of: ${RFI_STATUSES.join(', ')}`);
+  }
+  if (!isRfiTransitionAllowed(rfi.status, toStatus)) {
+    const allowed = isRfiStatus(rfi.status) ? RFI_TRANSITIONS[rfi.status] : [];
+    throw new RfiTransitionError(
+      `An RFI cannot move from ${rfi.status} to ${toStatus}` +
+      (allowed.length > 0 ? ` (allowed: ${allowed.join(', ')})` : '')
+    );
+  }
+  if (toStatus === 'issued' && !rfi.assignedTo) {
+    throw new RfiTransitionError('Set who the RFI is to before issuing it');
+  }
+}
+
+/**
+ * Move an RFI to a new status, recording the transition and updating the ball-in-court.
+ * Throws RfiTransitionError when the change is not allowed.
+ */
+export async function transitionRfi(rfi: RFI, toStatus: string, changedBy: string | null, note?: string | null): Promise<RFI> {
+  assertRfiTransition(rfi, toStatus);
+
+  const now = new Date();
+  const ballInCourt = ballInCourtFor(toStatus);
+  const updates: Partial<typeof rfis.$inferInsert> = { status: toStatus, ballInCourt, updatedAt: now };
+  if (toStatus === 'issued') {
+    // The clock runs from the first issue; re-issuing clears the earlier response
+    updates.issuedAt = rfi.issuedAt || now;
+    updates.respondedAt = null;
+    updates.closedAt = null;
+  } else if (toStatus === 'responded') {
+    updates.respondedAt = now;
+  } else if (toStatus === 'closed') {
+    updates.closedAt = now;
+  }
+
+  await db.transaction(async (tx) => {
+    // Only moves from the status the caller saw, so concurrent transitions can't both apply
+    const [updated] = await tx
+      .update(rfis)
+      .set(updates)
+      .where(and(eq(rfis.id, rfi.id), eq(rfis.status, rfi.status)))
+      .returning({ id: rfis.id });
+    if (!updated) {
+      throw new RfiTransitionError('The RFI was changed by someone else, please reload it');
+    }
+
+    await tx.insert(rfiStatusHistory).values({
+      rfiId: rfi.id,
+      fromStatus: rfi.status,
+      toStatus,
+      ballInCourt,
+      note: note?.trim() || null,
+      changedBy,
+    });
+  });
+
+  await refreshRfi(rfi.id);
+  const [refreshed] = await db.select().from(rfis).where(eq(rfis.id, rfi.id)).limit(1);
+  return refreshed;
+}
+
+let refreshRunning = false;
+
+async function runScheduledRefresh() {
+  if (refreshRunning) return;
+  refreshRunning = true;
+  try {
+    const changed = await refreshOpenRfis();
+    if (changed > 0) {
+      console.log(`[RFI SLA] Updated overdue state of ${changed} RFIs`);
+    }
+  } catch (error) {
+    console.error('[RFI SLA] Scheduled refresh failed:', error);
+  } finally {
+    refreshRunning = false;
+  }
+}
+
+/**
+ * Recompute open RFIs now and then every hour, so overdue flags change as days pass
+ */
+export function startRfiSlaScheduler(): NodeJS.Timeout {
+  runScheduledRefresh();
+  return setInterval(runScheduledRefresh, REFRESH_INTERVAL_MS);
+}
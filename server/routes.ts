@@ -10,6 +10,8 @@ import { resourceTypesWS } from "./resourceTypesWebSocket";
 import { globalVariablesWS } from "./globalVariablesWebSocket";
 import { resourceRatesWS } from "./resourceRatesWebSocket";
 import { worksheetsWS } from "./worksheetsWebSocket";
+import { recalculateWorksheet, recalculateProjectWorksheets } from "./worksheetRecalculation";
+import { deriveBoqItemRates, refreshBoqItemRates } from "./boqRateBuildUp";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { 
   templateColumnConfigs, 
@@ -60,6 +62,9 @@ import {
   insertRiskSchema,
   riskActions,
   insertRiskActionSchema,
+  riskCorrelationGroups,
+  insertRiskCorrelationGroupSchema,
+  riskCorrelationMemberships,
   quantSettings,
   insertQuantSettingSchema,
   likelihoodScales,
@@ -79,6 +84,7 @@ import {
   resourceTypes,
   insertResourceTypeSchema,
   monteCarloSnapshots,
+  monteCarloResults,
   insertMonteCarloSnapshotSchema,
   contractClauses,
   insertContractClauseSchema,
@@ -92,26 +98,66 @@ import {
   insertAiMessageSchema,
   contractSearchIndex,
   insertContractSearchIndexSchema,
+  noticeObligations,
+  projectHolidays,
   quoteCategories,
   quotes,
   userQuoteProgress,
   insertUserQuoteProgressSchema,
   extendedToc
 } from "@shared/schema";
-import { eq, and, desc, asc, isNull, sql } from "drizzle-orm";
+import { eq, and, desc, asc, isNull, sql, inArray, type SQL } from "drizzle-orm";
 import multer from "multer";
 import ExcelJS from "exceljs";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
 import * as rbacService from "./rbac-service";
+import { requirePermission, requireSuperAdmin, tenantCompanyId, hasAccess, businessUnitScope, PERMISSIONS, scopes } from "./rbac-middleware";
 import { 
   generateEmbedding, 
   extractTextFromPDF, 
-  findSimilarLetters, 
   prepareTextForEmbedding 
 } from "./semanticSearch";
+import { toStoredEmbedding, similarityFromDistance, withVectorSearch, LEGAL_EMBEDDING_DIMENSIONS, type StoredEmbedding } from "./vectorSearch";
+import { getCompanyEmbeddingProvider, getProjectEmbeddingProvider, isEmbeddingProviderName, EMBEDDING_PROVIDERS } from "./embeddingProviders";
 import { searchSharePointDocuments, semanticSearchSharePoint, syncSharePointDocuments, SharePointService } from "./sharepoint";
-import { parseXERBuffer, calculateCriticalPath } from "./xerParser";
+import { calculateCriticalPath, ProgramImportError } from "./xerParser";
+import { parseProgramBuffer } from "./programImport";
+import { readProgramCsvColumns } from "./programCsvParser";
+import { comparePrograms } from "./programComparison";
 import { extractAndSaveContractMetadata } from "./contractMetadataExtraction";
+import {
+  noticeTiming,
+  computeObligationDates,
+  obligationDeadlineState,
+  getProjectHolidaySet,
+  recalculateProjectNoticeObligations,
+  isIsoDate,
+  todayIsoDate,
+  NOTICE_OBLIGATION_STATUSES,
+  type LeadTimeRelativeTo,
+} from "./noticeObligations";
+import {
+  assertRfiTransition,
+  transitionRfi,
+  recordRfiCreated,
+  refreshRfi,
+  refreshProjectRfis,
+  getProjectRfiSlaRules,
+  startRfiSlaScheduler,
+  RfiTransitionError,
+  RFI_PRIORITIES,
+} from "./rfiSla";
+import {
+  uploadRfiAttachments,
+  listRfiAttachments,
+  deleteRfiAttachmentObjects,
+  rfiAttachmentObjectKey,
+  attachmentResponseHeaders,
+  RfiAttachmentError,
+  RFI_ATTACHMENT_MAX_BYTES,
+  RFI_ATTACHMENT_MAX_FILES,
+} from "./rfiAttachments";
+import { draftRfiWithAI, RfiDraftError } from "./rfiDrafting";
 
 const upload = multer({ 
   storage: multer.memoryStorage(),
@@ -120,6 +166,29 @@ const upload = multer({
   }
 });
 
+// RFI and RFI comment attachments ('files' field); limits are reported as 400s by rfiAttachmentFiles
+const rfiAttachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: RFI_ATTACHMENT_MAX_BYTES,
+    files: RFI_ATTACHMENT_MAX_FILES,
+  }
+});
+
+function rfiAttachmentFiles(req: any, res: any, next: any) {
+  rfiAttachmentUpload.array('files')(req, res, (err: any) => {
+    if (err) {
+      const message = err.code === 'LIMIT_FILE_SIZE'
+        ? `Files must be smaller than ${RFI_ATTACHMENT_MAX_BYTES / (1024 * 1024)}MB`
+        : err.code === 'LIMIT_FILE_COUNT'
+          ? `Attach at most ${RFI_ATTACHMENT_MAX_FILES} files at a time`
+          : err.message;
+      return res.status(400).json({ error: message });
+    }
+    next();
+  });
+}
+
 // Table 2: Review work columns (ordered per user requirements)
 // Order: Summary Position of Document, Cl. Ref, Comply, AI Proposed Mitigation, Bid Team Notes
 const REVIEW_WORK_COLUMNS = [
@@ -163,6 +232,19 @@ async function extractTextFromContract(
   }
 }
 
+// Next RFI number for a project: <projectCode>-RFI-0001, following the highest existing number
+async function nextRfiNumber(projectId: string): Promise<string> {
+  const [project] = await db.select({ projectCode: projects.projectCode }).from(projects).where(eq(projects.id, projectId)).limit(1);
+  const existing = await db.select({ rfiNumber: rfis.rfiNumber }).from(rfis).where(eq(rfis.projectId, projectId));
+
+  const highest = existing.reduce((max, { rfiNumber }) => {
+    const match = rfiNumber.match(/-RFI-(\d+)$/);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+
+  return `${project?.projectCode || 'PROJ'}-RFI-${String(highest + 1).padStart(4, '0')}`;
+}
+
 // Housekeeping: Ensure Financial and Time consequence types exist for a project
 async function ensureDefaultConsequenceTypes(projectId: string, tx?: any): Promise<void> {
   try {
@@ -421,7 +503,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Object Storage Routes
-  app.post('/api/upload-template-file', (req, res, next) => {
+  app.post('/api/upload-template-file', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD), (req, res, next) => {
     console.log('[ROUTE] /api/upload-template-file route reached');
     upload.single('file')(req, res, (err) => {
       if (err) {
@@ -452,7 +534,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/objects/:objectPath(*)', async (req, res) => {
+  // Stored files are served to users who can view the project or company of the record that references them
+  app.get('/objects/:objectPath(*)', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.objectPath()), async (req, res) => {
+    // RFI files are only served through /api/rfis/:id/attachments/:attachmentId, which sets safe preview headers
+    if (req.params.objectPath.startsWith('rfis/')) {
+      return res.sendStatus(404);
+    }
     const objectStorageService = new ObjectStorageService();
     try {
       const objectFile = await objectStorageService.getObjectEntityFile(req.path);
@@ -469,7 +556,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Template Column Configuration Routes
   
   // Save column configurations for a template
-  app.post('/api/templates/:templateId/columns', async (req, res) => {
+  app.post('/api/templates/:templateId/columns', isAuthenticated, requirePermission(PERMISSIONS.BU_MANAGE, scopes.contractTemplate()), async (req, res) => {
     try {
       const { templateId } = req.params;
       const { columns } = req.body;
@@ -496,7 +583,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get column configurations for a template
-  app.get('/api/templates/:templateId/columns', async (req, res) => {
+  app.get('/api/templates/:templateId/columns', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractTemplate()), async (req, res) => {
     try {
       const { templateId } = req.params;
       const configs = await db
@@ -513,7 +600,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Save template rows
-  app.post('/api/templates/:templateId/rows', async (req, res) => {
+  app.post('/api/templates/:templateId/rows', isAuthenticated, requirePermission(PERMISSIONS.BU_MANAGE, scopes.contractTemplate()), async (req, res) => {
     try {
       const { templateId } = req.params;
       const { rows } = req.body;
@@ -534,7 +621,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get template rows with employment role lookups
-  app.get('/api/templates/:templateId/rows', async (req, res) => {
+  app.get('/api/templates/:templateId/rows', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractTemplate()), async (req, res) => {
     try {
       const { templateId } = req.params;
       const rows = await db
@@ -553,7 +640,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Contract Review Routes
   
   // Get contract review for a project (includes template info and active revision)
-  app.get('/api/projects/:projectId/contract-review', async (req, res) => {
+  app.get('/api/projects/:projectId/contract-review', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       
@@ -654,7 +741,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all revisions for a project
-  app.get('/api/projects/:projectId/contract-review/revisions', async (req, res) => {
+  app.get('/api/projects/:projectId/contract-review/revisions', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       
@@ -708,7 +795,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get rows for a specific revision (dual-table structure)
-  app.get('/api/contract-review/revisions/:revisionId/rows', async (req, res) => {
+  app.get('/api/contract-review/revisions/:revisionId/rows', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       
@@ -821,7 +908,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new contract review revision (with optional file upload)
-  app.post('/api/projects/:projectId/contract-review/revisions', upload.single('contractFile'), async (req, res) => {
+  app.post('/api/projects/:projectId/contract-review/revisions', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.project()), upload.single('contractFile'), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { templateId, selectedTemplateColumnIds, notes, createdBy } = req.body;
@@ -1197,7 +1284,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete a contract review revision
-  app.delete('/api/contract-review/revisions/:revisionId', async (req, res) => {
+  app.delete('/api/contract-review/revisions/:revisionId', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       
@@ -1271,7 +1358,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ===== CONTRACT PARSING APIs =====
   
   // Trigger contract parsing for a revision
-  app.post('/api/contract-review/revisions/:revisionId/parse-contract', async (req, res) => {
+  app.post('/api/contract-review/revisions/:revisionId/parse-contract', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       
@@ -1355,7 +1442,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get contract parsing status for a revision
-  app.get('/api/contract-review/revisions/:revisionId/parsing-status', async (req, res) => {
+  app.get('/api/contract-review/revisions/:revisionId/parsing-status', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       
@@ -1402,7 +1489,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get TOC chunk for clause heading tooltips
-  app.get('/api/contract-review/revisions/:revisionId/toc-chunk', isAuthenticated, async (req, res) => {
+  app.get('/api/contract-review/revisions/:revisionId/toc-chunk', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       
@@ -1504,7 +1591,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get Extended TOC for clause heading tooltips (all clause headings, not just PDF TOC)
-  app.get('/api/contract-review/revisions/:revisionId/extended-toc', isAuthenticated, async (req, res) => {
+  app.get('/api/contract-review/revisions/:revisionId/extended-toc', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       
@@ -1564,7 +1651,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update individual cell in active revision
-  app.patch('/api/contract-review/revisions/:revisionId/cells/:cellId', async (req, res) => {
+  app.patch('/api/contract-review/revisions/:revisionId/cells/:cellId', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId, cellId } = req.params;
       const { value, editedBy } = req.body;
@@ -1632,7 +1719,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ===== CELL CHAT APIs =====
   
   // Get chat messages for a cell
-  app.get('/api/contract-review/cells/:cellId/chat-messages', async (req, res) => {
+  app.get('/api/contract-review/cells/:cellId/chat-messages', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractCell()), async (req, res) => {
     try {
       const { cellId } = req.params;
       const { cellChatMessages } = await import('@shared/schema');
@@ -1655,7 +1742,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Send a message and get AI response
-  app.post('/api/contract-review/cells/:cellId/chat-messages', async (req, res) => {
+  app.post('/api/contract-review/cells/:cellId/chat-messages', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.contractCell()), async (req, res) => {
     try {
       const { cellId } = req.params;
       const { content } = req.body;
@@ -1766,7 +1853,7 @@ If they ask you to suggest changes, provide clear, actionable recommendations.`;
   });
 
   // Update cell value based on chat conversation
-  app.post('/api/contract-review/cells/:cellId/update-from-chat', async (req, res) => {
+  app.post('/api/contract-review/cells/:cellId/update-from-chat', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.contractCell()), async (req, res) => {
     try {
       const { cellId } = req.params;
       
@@ -1850,7 +1937,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // ===== THREE-TABLE ARCHITECTURE APIs =====
   
   // Table 1: Get filtered template snapshot data (read-only)
-  app.get('/api/contract-review/revisions/:revisionId/table1-template', async (req, res) => {
+  app.get('/api/contract-review/revisions/:revisionId/table1-template', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       
@@ -1919,7 +2006,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
   
   // Table 2: Get review work cells (3 fixed editable columns)
-  app.get('/api/contract-review/revisions/:revisionId/table2-review', async (req, res) => {
+  app.get('/api/contract-review/revisions/:revisionId/table2-review', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       
@@ -1964,7 +2051,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
   
   // Table 3: Get approvals for a revision
-  app.get('/api/contract-review/revisions/:revisionId/table3-approvals', async (req, res) => {
+  app.get('/api/contract-review/revisions/:revisionId/table3-approvals', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       
@@ -2005,10 +2092,11 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
   
   // Table 3: Create new approval (lawyer proposes departure)
-  app.post('/api/contract-review/revisions/:revisionId/table3-approvals', async (req, res) => {
+  app.post('/api/contract-review/revisions/:revisionId/table3-approvals', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
-      const { rowId, comments, proposedDeparture, createdBy } = req.body;
+      const { rowId, comments, proposedDeparture } = req.body;
+      const person = (req as any).person;
       
       const { contractReviewApprovals } = await import('@shared/schema');
       
@@ -2019,7 +2107,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
           comments,
           proposedDeparture,
           status: 'pending',
-          createdBy,
+          createdBy: person.id,
         })
         .returning();
       
@@ -2031,10 +2119,11 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
   
   // Table 3: Update approval status (DOA approve/reject)
-  app.patch('/api/contract-review/approvals/:approvalId', async (req, res) => {
+  app.patch('/api/contract-review/approvals/:approvalId', isAuthenticated, requirePermission(PERMISSIONS.CONTRACT_APPROVE, scopes.contractApproval()), async (req, res) => {
     try {
       const { approvalId } = req.params;
-      const { status, reviewComments, reviewedBy } = req.body;
+      const { status, reviewComments } = req.body;
+      const person = (req as any).person;
       
       const { contractReviewApprovals } = await import('@shared/schema');
       
@@ -2043,7 +2132,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
         .set({
           status,
           reviewComments,
-          reviewedBy,
+          reviewedBy: person.id,
           reviewedAt: new Date(),
           updatedAt: new Date(),
         })
@@ -2062,7 +2151,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get AI usage logs for a project (with optional filters)
-  app.get('/api/projects/:projectId/ai-usage-logs', async (req, res) => {
+  app.get('/api/projects/:projectId/ai-usage-logs', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { formName, eventType, personId, startDate, endDate } = req.query;
@@ -2132,7 +2221,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   const { analysisJobStore } = await import('./analysisJobStore');
 
   // Clear AI-generated content endpoint
-  app.post('/api/contract-review/revisions/:revisionId/clear-ai-content', async (req, res) => {
+  app.post('/api/contract-review/revisions/:revisionId/clear-ai-content', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       
@@ -2213,7 +2302,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get AI analysis progress
-  app.get('/api/contract-review/revisions/:revisionId/ai-analyze/:jobId/progress', async (req, res) => {
+  app.get('/api/contract-review/revisions/:revisionId/ai-analyze/:jobId/progress', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevision()), async (req, res) => {
     const { jobId } = req.params;
     const job = analysisJobStore.getJob(jobId);
     
@@ -2232,7 +2321,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // AI Analysis endpoint - analyzes baseline positions in background
-  app.post('/api/contract-review/revisions/:revisionId/ai-analyze', async (req, res) => {
+  app.post('/api/contract-review/revisions/:revisionId/ai-analyze', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.contractRevision()), async (req, res) => {
     const { revisionId } = req.params;
     
     try {
@@ -2901,7 +2990,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   }
 
   // Single-row AI Analysis endpoint
-  app.post('/api/contract-review/revisions/:revisionId/rows/:rowIndex/ai-analyze', async (req, res) => {
+  app.post('/api/contract-review/revisions/:revisionId/rows/:rowIndex/ai-analyze', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.contractRevision()), async (req, res) => {
     console.log('[AI Single-Row] === ENDPOINT CALLED ===');
     console.log('[AI Single-Row] Revision ID:', req.params.revisionId);
     console.log('[AI Single-Row] Row Index:', req.params.rowIndex);
@@ -3458,7 +3547,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
   
   // Legacy endpoint for backward compatibility - updates multiple cells at once
-  app.patch('/api/contract-review/revisions/:revisionId/cells', async (req, res) => {
+  app.patch('/api/contract-review/revisions/:revisionId/cells', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       const { rowIndex, cells } = req.body;
@@ -3513,7 +3602,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // Contract Review Row Comments Routes
   
   // Get comments for a specific row in a revision
-  app.get('/api/contract-review/rows/:rowId/comments', async (req, res) => {
+  app.get('/api/contract-review/rows/:rowId/comments', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevisionRef()), async (req, res) => {
     try {
       const { rowId } = req.params;
       const { revisionId } = req.query;
@@ -3537,7 +3626,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create a new comment on a row
-  app.post('/api/contract-review/rows/:rowId/comments', async (req, res) => {
+  app.post('/api/contract-review/rows/:rowId/comments', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.contractRevisionRef()), async (req, res) => {
     try {
       const { rowId } = req.params;
       const validatedData = insertContractReviewRowCommentSchema.parse({
@@ -3558,7 +3647,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Delete a comment
-  app.delete('/api/contract-review/comments/:commentId', async (req, res) => {
+  app.delete('/api/contract-review/comments/:commentId', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.contractRowComment()), async (req, res) => {
     try {
       const { commentId } = req.params;
       
@@ -3574,7 +3663,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update column selection for a revision
-  app.patch('/api/contract-review/revisions/:revisionId/column-selection', async (req, res) => {
+  app.patch('/api/contract-review/revisions/:revisionId/column-selection', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       const { selectedTemplateColumnIds } = req.body;
@@ -3592,13 +3681,11 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Approval Routes
-  // IMPORTANT: These endpoints currently accept user IDs from the client for the mock auth system.
-  // TODO: Once real authentication is implemented, replace client-provided user IDs with 
-  // server-side session/JWT validation (req.user.id) and add role-based authorization checks
-  // to verify the user has permission to create/update/delete approvals for this project.
+  // The proposer and reviewer are always the authenticated person, never IDs sent by the client.
+  // Reviewing/deleting approvals requires CONTRACT.APPROVE on the project.
 
   // Get all approvals for a revision row
-  app.get('/api/contract-review/rows/:rowId/approvals', async (req, res) => {
+  app.get('/api/contract-review/rows/:rowId/approvals', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevisionRow()), async (req, res) => {
     try {
       const { rowId } = req.params;
       const { contractReviewApprovals } = await import('@shared/schema');
@@ -3617,14 +3704,20 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create a new approval for a revision row
-  app.post('/api/contract-review/rows/:rowId/approvals', async (req, res) => {
+  app.post('/api/contract-review/rows/:rowId/approvals', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.contractRevisionRow()), async (req, res) => {
     try {
       const { rowId } = req.params;
       const { contractReviewApprovals, contractReviewRevisionRows, insertContractReviewApprovalSchema } = await import('@shared/schema');
       
+      // New proposals start pending; only the review route records a decision
       const validatedData = insertContractReviewApprovalSchema.parse({
         ...req.body,
         revisionRowId: rowId,
+        status: 'pending',
+        reviewComments: null,
+        reviewedBy: null,
+        reviewedAt: null,
+        createdBy: (req as any).person.id,
       });
       
       const [newApproval] = await db
@@ -3655,10 +3748,11 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update an approval (for DOA review)
-  app.patch('/api/contract-review/approvals/:approvalId', async (req, res) => {
+  app.patch('/api/contract-review/approvals/:approvalId', isAuthenticated, requirePermission(PERMISSIONS.CONTRACT_APPROVE, scopes.contractApproval()), async (req, res) => {
     try {
       const { approvalId } = req.params;
-      const { status, reviewComments, reviewedBy } = req.body;
+      const { status, reviewComments } = req.body;
+      const person = (req as any).person;
       const { contractReviewApprovals, contractReviewRevisionRows } = await import('@shared/schema');
       
       // Get the approval before updating to get revisionRowId and revisionId
@@ -3673,7 +3767,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
         .set({
           status,
           reviewComments,
-          reviewedBy,
+          reviewedBy: person.id,
           reviewedAt: new Date(),
           updatedAt: new Date(),
         })
@@ -3711,7 +3805,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Delete an approval
-  app.delete('/api/contract-review/approvals/:approvalId', async (req, res) => {
+  app.delete('/api/contract-review/approvals/:approvalId', isAuthenticated, requirePermission(PERMISSIONS.CONTRACT_APPROVE, scopes.contractApproval()), async (req, res) => {
     try {
       const { approvalId } = req.params;
       const { contractReviewApprovals, contractReviewRevisionRows } = await import('@shared/schema');
@@ -3754,11 +3848,11 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // Business Unit Routes
   
   // Get all business units
-  app.get('/api/business-units', async (req, res) => {
+  app.get('/api/business-units', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.companyQuery()), async (req, res) => {
     try {
-      const { companyId } = req.query;
+      const companyId = req.query.companyId ?? tenantCompanyId(req);
       
-      if (companyId && typeof companyId === 'string') {
+      if (companyId !== null && typeof companyId === 'string') {
         const allBusinessUnits = await db
           .select()
           .from(businessUnits)
@@ -3779,7 +3873,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get single business unit
-  app.get('/api/business-units/:id', async (req, res) => {
+  app.get('/api/business-units/:id', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.businessUnit('id')), async (req, res) => {
     try {
       const { id } = req.params;
       const result = await db
@@ -3807,7 +3901,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create business unit
-  app.post('/api/business-units', async (req, res) => {
+  app.post('/api/business-units', isAuthenticated, requirePermission(PERMISSIONS.BU_MANAGE, scopes.companyBody()), async (req, res) => {
     try {
       const validatedData = insertBusinessUnitSchema.parse(req.body);
       const newBusinessUnit = await db
@@ -3823,10 +3917,10 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update business unit
-  app.patch('/api/business-units/:id', async (req, res) => {
+  app.patch('/api/business-units/:id', isAuthenticated, requirePermission(PERMISSIONS.BU_MANAGE, scopes.businessUnit('id')), async (req, res) => {
     try {
       const { id } = req.params;
-      const validatedData = insertBusinessUnitSchema.partial().parse(req.body);
+      const validatedData = insertBusinessUnitSchema.omit({ companyId: true }).partial().parse(req.body);
       
       const updated = await db
         .update(businessUnits)
@@ -3846,7 +3940,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Delete business unit
-  app.delete('/api/business-units/:id', async (req, res) => {
+  app.delete('/api/business-units/:id', isAuthenticated, requirePermission(PERMISSIONS.BU_MANAGE, scopes.businessUnit('id')), async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -3883,7 +3977,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // Contract Template Routes
   
   // Get all templates for a business unit
-  app.get('/api/business-units/:businessUnitId/templates', async (req, res) => {
+  app.get('/api/business-units/:businessUnitId/templates', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.businessUnit()), async (req, res) => {
     try {
       const { businessUnitId } = req.params;
       const templates = await db
@@ -3900,7 +3994,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create template for a business unit
-  app.post('/api/business-units/:businessUnitId/templates', async (req, res) => {
+  app.post('/api/business-units/:businessUnitId/templates', isAuthenticated, requirePermission(PERMISSIONS.BU_MANAGE, scopes.businessUnit()), async (req, res) => {
     try {
       const { businessUnitId } = req.params;
       const validatedData = insertContractTemplateSchema.parse({
@@ -3930,7 +4024,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create template
-  app.post('/api/templates', async (req, res) => {
+  app.post('/api/templates', isAuthenticated, requirePermission(PERMISSIONS.BU_MANAGE, scopes.businessUnitBody()), async (req, res) => {
     try {
       const validatedData = insertContractTemplateSchema.parse(req.body);
       
@@ -3954,7 +4048,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get single template
-  app.get('/api/templates/:id', async (req, res) => {
+  app.get('/api/templates/:id', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractTemplate('id')), async (req, res) => {
     try {
       const { id } = req.params;
       const template = await db
@@ -3974,7 +4068,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Delete template
-  app.delete('/api/templates/:id', async (req, res) => {
+  app.delete('/api/templates/:id', isAuthenticated, requirePermission(PERMISSIONS.BU_MANAGE, scopes.contractTemplate('id')), async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -4017,7 +4111,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // Project Routes
   
   // Get all projects
-  app.get('/api/projects', async (req, res) => {
+  app.get('/api/projects', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.companyQuery()), async (req, res) => {
     try {
       const { companyId, businessUnitId } = req.query;
       
@@ -4065,9 +4159,19 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
           .where(eq(businessUnits.companyId, companyId))
           .orderBy(desc(projects.createdAt));
         
+        res.json(allProjects);
+      } else if (tenantCompanyId(req) !== null) {
+        // No filter given: confine to the user's own company
+        const allProjects = await db
+          .select(projectSelect)
+          .from(projects)
+          .innerJoin(businessUnits, eq(projects.businessUnitId, businessUnits.id))
+          .where(eq(businessUnits.companyId, tenantCompanyId(req)!))
+          .orderBy(desc(projects.createdAt));
+        
         res.json(allProjects);
       } else {
-        // Return all projects if no company filter
+        // Super admins get all projects if no company filter
         const allProjects = await db
           .select(projectSelect)
           .from(projects)
@@ -4082,7 +4186,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get single project
-  app.get('/api/projects/:id', async (req, res) => {
+  app.get('/api/projects/:id', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project('id')), async (req, res) => {
     try {
       const { id } = req.params;
       const project = await db
@@ -4102,7 +4206,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create project
-  app.post('/api/projects', async (req, res) => {
+  app.post('/api/projects', isAuthenticated, requirePermission(PERMISSIONS.PROJECT_MANAGE, scopes.businessUnitBody()), async (req, res) => {
     try {
       const validatedData = insertProjectSchema.parse(req.body);
       const newProject = await db
@@ -4118,10 +4222,21 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update project
-  app.patch('/api/projects/:id', async (req, res) => {
+  app.patch('/api/projects/:id', isAuthenticated, requirePermission(PERMISSIONS.PROJECT_MANAGE, scopes.project('id')), async (req, res) => {
     try {
       const { id } = req.params;
       const validatedData = insertProjectSchema.partial().parse(req.body);
+
+      // Moving the project to another business unit needs the same permission there
+      if (validatedData.businessUnitId) {
+        const target = await businessUnitScope(validatedData.businessUnitId);
+        if (!target) {
+          return res.status(400).json({ error: 'Business unit not found' });
+        }
+        if (!(await hasAccess(req, PERMISSIONS.PROJECT_MANAGE, target))) {
+          return res.status(403).json({ error: 'Forbidden', reason: 'cross_tenant', permission: PERMISSIONS.PROJECT_MANAGE });
+        }
+      }
       
       const updated = await db
         .update(projects)
@@ -4141,7 +4256,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Delete project
-  app.delete('/api/projects/:id', async (req, res) => {
+  app.delete('/api/projects/:id', isAuthenticated, requirePermission(PERMISSIONS.PROJECT_MANAGE, scopes.project('id')), async (req, res) => {
     try {
       const { id } = req.params;
       const deleted = await db
@@ -4163,11 +4278,13 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // Company Routes
   
   // Get all companies
-  app.get('/api/companies', async (req, res) => {
+  app.get('/api/companies', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW), async (req, res) => {
     try {
+      const tenantId = tenantCompanyId(req);
       const allCompanies = await db
         .select()
         .from(companies)
+        .where(tenantId !== null ? eq(companies.id, tenantId) : undefined)
         .orderBy(companies.name);
       
       // Get business unit counts for each company
@@ -4193,7 +4310,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get single company
-  app.get('/api/companies/:id', async (req, res) => {
+  app.get('/api/companies/:id', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.company('id')), async (req, res) => {
     try {
       const { id } = req.params;
       const company = await db
@@ -4224,7 +4341,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create company
-  app.post('/api/companies', async (req, res) => {
+  app.post('/api/companies', isAuthenticated, requireSuperAdmin, async (req, res) => {
     try {
       const validatedData = insertCompanySchema.parse(req.body);
       const newCompany = await db
@@ -4240,7 +4357,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update company
-  app.patch('/api/companies/:id', async (req, res) => {
+  app.patch('/api/companies/:id', isAuthenticated, requirePermission(PERMISSIONS.COMPANY_MANAGE, scopes.company('id')), async (req, res) => {
     try {
       const { id } = req.params;
       const validatedData = insertCompanySchema.partial().parse(req.body);
@@ -4263,7 +4380,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Delete company
-  app.delete('/api/companies/:id', async (req, res) => {
+  app.delete('/api/companies/:id', isAuthenticated, requireSuperAdmin, async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -4299,7 +4416,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // Company Theme Settings Routes
   
   // Get company theme settings
-  app.get('/api/companies/:id/theme-settings', isAuthenticated, async (req, res) => {
+  app.get('/api/companies/:id/theme-settings', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.company('id')), async (req, res) => {
     try {
       const { id: companyId } = req.params;
       
@@ -4340,10 +4457,10 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update company theme settings
-  app.patch('/api/companies/:id/theme-settings', isAuthenticated, async (req, res) => {
+  app.patch('/api/companies/:id/theme-settings', isAuthenticated, requirePermission(PERMISSIONS.SETTINGS_MANAGE, scopes.company('id')), async (req, res) => {
     try {
       const { id: companyId } = req.params;
-      const validatedData = insertCompanyThemeSettingsSchema.partial().parse(req.body);
+      const validatedData = insertCompanyThemeSettingsSchema.omit({ companyId: true }).partial().parse(req.body);
       
       // Check if company exists
       const [company] = await db
@@ -4392,10 +4509,89 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
     }
   });
 
+  // Company Embedding Settings Routes
+  
+  // Get the company's embedding provider, the models in use and re-embedding progress
+  app.get('/api/companies/:id/embedding-settings', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.company('id')), async (req, res) => {
+    try {
+      const { id: companyId } = req.params;
+      
+      const [company] = await db
+        .select({ embeddingProvider: companies.embeddingProvider })
+        .from(companies)
+        .where(eq(companies.id, companyId))
+        .limit(1);
+      
+      if (!company) {
+        return res.status(404).json({ error: 'Company not found' });
+      }
+      
+      const { countStaleEmbeddings, getEmbeddingReindexJob } = await import('./embeddingReindex');
+      const general = await getCompanyEmbeddingProvider(companyId, 'general');
+      const legal = await getCompanyEmbeddingProvider(companyId, 'legal');
+      
+      res.json({
+        provider: company.embeddingProvider,
+        activeProvider: general.name, // Differs from provider when its API key is missing
+        models: { general: general.model, legal: legal.model },
+        stale: await countStaleEmbeddings(companyId),
+        job: getEmbeddingReindexJob(companyId) || null,
+      });
+    } catch (error) {
+      console.error('Error fetching embedding settings:', error);
+      res.status(500).json({ error: 'Failed to fetch embedding settings' });
+    }
+  });
+
+  // Change the company's embedding provider and re-embed its documents with it
+  app.put('/api/companies/:id/embedding-settings', isAuthenticated, requirePermission(PERMISSIONS.SETTINGS_MANAGE, scopes.company('id')), async (req, res) => {
+    try {
+      const { id: companyId } = req.params;
+      const { embeddingProvider } = req.body;
+      
+      if (!isEmbeddingProviderName(embeddingProvider)) {
+        return res.status(400).json({ error: `Embedding provider must be one of: ${EMBEDDING_PROVIDERS.join(', ')}` });
+      }
+      
+      const [updated] = await db
+        .update(companies)
+        .set({ embeddingProvider })
+        .where(eq(companies.id, companyId))
+        .returning({ embeddingProvider: companies.embeddingProvider });
+      
+      if (!updated) {
+        return res.status(404).json({ error: 'Company not found' });
+      }
+      
+      const { startEmbeddingReindex } = await import('./embeddingReindex');
+      const job = await startEmbeddingReindex(companyId);
+      
+      res.json({ provider: updated.embeddingProvider, job });
+    } catch (error) {
+      console.error('Error updating embedding settings:', error);
+      res.status(500).json({ error: 'Failed to update embedding settings' });
+    }
+  });
+
+  // Re-embed documents not yet embedded by the company's current model (e.g. after a failed or interrupted job)
+  app.post('/api/companies/:id/embedding-settings/reindex', isAuthenticated, requirePermission(PERMISSIONS.SETTINGS_MANAGE, scopes.company('id')), async (req, res) => {
+    try {
+      const { id: companyId } = req.params;
+      
+      const { startEmbeddingReindex } = await import('./embeddingReindex');
+      const job = await startEmbeddingReindex(companyId);
+      
+      res.json({ job });
+    } catch (error) {
+      console.error('Error starting embedding reindex:', error);
+      res.status(500).json({ error: 'Failed to start re-embedding' });
+    }
+  });
+
   // Resource Types Routes
   
   // Get all resource types for a company
-  app.get('/api/companies/:companyId/resource-types', async (req, res) => {
+  app.get('/api/companies/:companyId/resource-types', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.company()), async (req, res) => {
     try {
       const { companyId } = req.params;
       const companyResourceTypes = await db
@@ -4412,7 +4608,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get single resource type
-  app.get('/api/resource-types/:id', async (req, res) => {
+  app.get('/api/resource-types/:id', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.resourceType()), async (req, res) => {
     try {
       const { id } = req.params;
       const [resourceType] = await db
@@ -4433,7 +4629,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create resource type
-  app.post('/api/companies/:companyId/resource-types', async (req, res) => {
+  app.post('/api/companies/:companyId/resource-types', isAuthenticated, requirePermission(PERMISSIONS.SETTINGS_MANAGE, scopes.company()), async (req, res) => {
     try {
       const { companyId } = req.params;
       const validatedData = insertResourceTypeSchema.parse({
@@ -4479,10 +4675,10 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update resource type
-  app.patch('/api/resource-types/:id', async (req, res) => {
+  app.patch('/api/resource-types/:id', isAuthenticated, requirePermission(PERMISSIONS.SETTINGS_MANAGE, scopes.resourceType()), async (req, res) => {
     try {
       const { id } = req.params;
-      const validatedData = insertResourceTypeSchema.partial().parse(req.body);
+      const validatedData = insertResourceTypeSchema.omit({ companyId: true }).partial().parse(req.body);
       
       const [updated] = await db
         .update(resourceTypes)
@@ -4517,7 +4713,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Delete resource type
-  app.delete('/api/resource-types/:id', async (req, res) => {
+  app.delete('/api/resource-types/:id', isAuthenticated, requirePermission(PERMISSIONS.SETTINGS_MANAGE, scopes.resourceType()), async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -4544,7 +4740,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Bulk create resource types (for smart import)
-  app.post('/api/companies/:companyId/resource-types/bulk-create', isAuthenticated, async (req, res) => {
+  app.post('/api/companies/:companyId/resource-types/bulk-create', isAuthenticated, requirePermission(PERMISSIONS.SETTINGS_MANAGE, scopes.company()), async (req, res) => {
     try {
       const { companyId } = req.params;
       const { resTypes } = req.body as { resTypes: string[] };
@@ -4627,7 +4823,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Reorder resource types (update sorting_index for all resource types)
-  app.post('/api/companies/:companyId/resource-types/reorder', async (req, res) => {
+  app.post('/api/companies/:companyId/resource-types/reorder', isAuthenticated, requirePermission(PERMISSIONS.SETTINGS_MANAGE, scopes.company()), async (req, res) => {
     try {
       const { companyId } = req.params;
       const { resourceTypeIds } = req.body as { resourceTypeIds: string[] };
@@ -4672,12 +4868,17 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // RFI Routes
   
   // Get all RFIs
-  app.get('/api/rfis', async (req, res) => {
+  app.get('/api/rfis', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW), async (req, res) => {
     try {
+      const tenantId = tenantCompanyId(req);
       const allRFIs = await db
-        .select()
+        .select({ rfi: rfis })
         .from(rfis)
-        .orderBy(desc(rfis.createdAt));
+        .innerJoin(projects, eq(rfis.projectId, projects.id))
+        .leftJoin(businessUnits, eq(projects.businessUnitId, businessUnits.id))
+        .where(tenantId !== null ? eq(businessUnits.companyId, tenantId) : undefined)
+        .orderBy(desc(rfis.createdAt))
+        .then(rows => rows.map(r => r.rfi));
       
       res.json(allRFIs);
     } catch (error) {
@@ -4686,8 +4887,63 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
     }
   });
 
+  // Excel register of the RFIs matching the RFIs page filters (registered before /api/rfis/:id)
+  app.get('/api/rfis/export', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW), async (req, res) => {
+    try {
+      const { filterRfiRegister, generateRfiRegisterExcel } = await import('./rfiExport');
+      const tenantId = tenantCompanyId(req);
+      const query = req.query as Record<string, string | undefined>;
+
+      const rows = await db
+        .select({ rfi: rfis, projectCode: projects.projectCode, projectName: projects.name })
+        .from(rfis)
+        .innerJoin(projects, eq(rfis.projectId, projects.id))
+        .leftJoin(businessUnits, eq(projects.businessUnitId, businessUnits.id))
+        .where(tenantId !== null ? eq(businessUnits.companyId, tenantId) : undefined)
+        .orderBy(asc(projects.projectCode), asc(rfis.rfiNumber));
+
+      const filters = {
+        projectIds: query.projectIds ? query.projectIds.split(',').filter(Boolean) : undefined,
+        search: query.search,
+        status: query.status,
+        ballInCourt: query.ballInCourt,
+        priority: query.priority,
+        overdueOnly: query.overdue === 'true',
+      };
+      const filtered = filterRfiRegister(rows.map(r => r.rfi), filters);
+      const projectsById = new Map(rows.map(r => [r.rfi.projectId, { projectCode: r.projectCode, name: r.projectName }]));
+
+      const applied = [
+        filters.search && `search "${filters.search}"`,
+        filters.status && filters.status !== 'all' && `status ${filters.status}`,
+        filters.ballInCourt && filters.ballInCourt !== 'all' && `ball in court ${filters.ballInCourt}`,
+        filters.priority && filters.priority !== 'all' && `${filters.priority} priority`,
+        filters.overdueOnly && 'overdue only',
+      ].filter(Boolean);
+      const singleProject = filters.projectIds?.length === 1 ? projectsById.get(filters.projectIds[0]) : undefined;
+
+      const buffer = await generateRfiRegisterExcel(
+        filtered,
+        projectsById,
+        singleProject ? `RFI Register - ${singleProject.projectCode} ${singleProject.name}` : 'RFI Register',
+        `${filtered.length} RFIs${applied.length > 0 ? ` (filtered by ${applied.join(', ')})` : ''}`
+      );
+      const fileName = `${singleProject?.projectCode ?? 'RFI'}_Register.xlsx`.replace(/[^a-zA-Z0-9._-]/g, '_');
+
+      res.set({
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': buffer.length,
+      });
+      res.send(buffer);
+    } catch (error) {
+      console.error('Error exporting RFI register:', error);
+      res.status(500).json({ error: 'Failed to export RFI register' });
+    }
+  });
+
   // Get RFIs by project
-  app.get('/api/projects/:projectId/rfis', async (req, res) => {
+  app.get('/api/projects/:projectId/rfis', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const projectRFIs = await db
@@ -4704,7 +4960,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get single RFI
-  app.get('/api/rfis/:id', async (req, res) => {
+  app.get('/api/rfis/:id', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.rfi()), async (req, res) => {
     try {
       const { id } = req.params;
       const rfi = await db
@@ -4723,52 +4979,238 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
     }
   });
 
-  // Create RFI
-  app.post('/api/rfis', async (req, res) => {
+  // Create RFI (as a draft, or issued straight away with status 'issued')
+  app.post('/api/rfis', isAuthenticated, requirePermission(PERMISSIONS.RFI_CREATE, scopes.projectBody()), async (req, res) => {
     try {
-      const validatedData = insertRFISchema.parse(req.body);
-      const newRFI = await db
+      const { status, ...data } = req.body;
+      if (status !== undefined && status !== 'draft' && status !== 'issued') {
+        return res.status(400).json({ error: 'A new RFI must be draft or issued' });
+      }
+
+      if (!data.rfiNumber && data.projectId) {
+        data.rfiNumber = await nextRfiNumber(data.projectId);
+      }
+
+      const validatedData = insertRFISchema.parse({ ...data, status: 'draft' });
+      // Check the issue preconditions before inserting, so a rejected issue leaves no draft behind
+      if (status === 'issued') {
+        assertRfiTransition({ status: 'draft', assignedTo: validatedData.assignedTo ?? null }, 'issued');
+      }
+      const user = req.user as any;
+      const changedBy = user?.personId ? await rbacService.getUserAccountIdForPerson(user.personId) : null;
+
+      const [newRFI] = await db
         .insert(rfis)
         .values(validatedData)
         .returning();
-      
-      res.json(newRFI[0]);
+      await recordRfiCreated(newRFI, changedBy);
+
+      res.json(status === 'issued' ? await transitionRfi(newRFI, 'issued', changedBy) : newRFI);
     } catch (error) {
+      if (error instanceof RfiTransitionError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error('Error creating RFI:', error);
       res.status(500).json({ error: 'Failed to create RFI' });
     }
   });
 
-  // Update RFI
-  app.patch('/api/rfis/:id', async (req, res) => {
+  // AI draft of a new RFI from the originator's notes, grounded in the head contract clauses,
+  // specifications and similar past RFIs of the project (nothing is saved)
+  app.post('/api/projects/:projectId/rfis/ai-draft', isAuthenticated, requirePermission(PERMISSIONS.RFI_CREATE, scopes.project()), async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (!user?.personId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+      const { notes } = req.body;
+      if (typeof notes !== 'string' || !notes.trim()) {
+        return res.status(400).json({ error: 'notes is required' });
+      }
+
+      res.json(await draftRfiWithAI(req.params.projectId, notes, user.personId));
+    } catch (error: any) {
+      if (error instanceof RfiDraftError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error drafting RFI:', error);
+      res.status(500).json({ error: error.message || 'Failed to draft RFI' });
+    }
+  });
+
+  // Update RFI (status changes go through the transition route)
+  app.patch('/api/rfis/:id', isAuthenticated, requirePermission(PERMISSIONS.RFI_CREATE, scopes.rfi()), async (req, res) => {
     try {
       const { id } = req.params;
-      const validatedData = insertRFISchema.partial().parse(req.body);
+      const { status, ...data } = req.body;
+      const validatedData = insertRFISchema.omit({ projectId: true }).partial().parse(data);
+
+      const [existing] = await db.select().from(rfis).where(eq(rfis.id, id)).limit(1);
+      if (!existing) {
+        return res.status(404).json({ error: 'RFI not found' });
+      }
+      if (status !== undefined && status !== existing.status) {
+        return res.status(400).json({ error: `Use POST /api/rfis/${id}/transition to change the status` });
+      }
+      if (validatedData.dueDate && !isIsoDate(validatedData.dueDate)) {
+        return res.status(400).json({ error: 'dueDate must be a date (yyyy-mm-dd)' });
+      }
       
-      const updated = await db
+      await db
         .update(rfis)
         .set({
           ...validatedData,
           updatedAt: new Date(),
         })
-        .where(eq(rfis.id, id))
-        .returning();
-      
-      if (updated.length === 0) {
-        return res.status(404).json({ error: 'RFI not found' });
-      }
+        .where(eq(rfis.id, id));
+
+      // Priority and required date feed the overdue state
+      await refreshRfi(id);
+      const [updated] = await db.select().from(rfis).where(eq(rfis.id, id)).limit(1);
       
-      res.json(updated[0]);
+      res.json(updated);
     } catch (error) {
       console.error('Error updating RFI:', error);
       res.status(500).json({ error: 'Failed to update RFI' });
     }
   });
 
+  // Change an RFI's status (draft -> issued -> responded -> closed)
+  app.post('/api/rfis/:id/transition', isAuthenticated, requirePermission(PERMISSIONS.RFI_CREATE, scopes.rfi()), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { status, note } = req.body;
+      const user = req.user as any;
+
+      const [existing] = await db.select().from(rfis).where(eq(rfis.id, id)).limit(1);
+      if (!existing) {
+        return res.status(404).json({ error: 'RFI not found' });
+      }
+
+      const changedBy = user?.personId ? await rbacService.getUserAccountIdForPerson(user.personId) : null;
+      const updated = await transitionRfi(existing, status, changedBy, typeof note === 'string' ? note : null);
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof RfiTransitionError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error changing RFI status:', error);
+      res.status(500).json({ error: 'Failed to change RFI status' });
+    }
+  });
+
+  // Formal RFI form for issuing to the client, as Word or PDF
+  app.get('/api/rfis/:id/document/:format', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.rfi()), async (req, res) => {
+    try {
+      const { id, format } = req.params;
+      const { loadRfiDocumentData, generateRfiWordDocument, generateRfiPDF } = await import('./rfiExport');
+
+      if (format !== 'docx' && format !== 'pdf') {
+        return res.status(400).json({ error: 'Document format must be docx or pdf' });
+      }
+
+      const data = await loadRfiDocumentData(id);
+      if (!data) {
+        return res.status(404).json({ error: 'RFI not found' });
+      }
+
+      const buffer = format === 'docx'
+        ? await generateRfiWordDocument(data)
+        : await generateRfiPDF(data);
+      const fileName = `${data.rfi.rfiNumber}.${format}`.replace(/[^a-zA-Z0-9._-]/g, '_');
+
+      res.set({
+        'Content-Type': format === 'docx'
+          ? 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+          : 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': buffer.length,
+      });
+      res.send(buffer);
+    } catch (error) {
+      console.error('Error generating RFI document:', error);
+      res.status(500).json({ error: 'Failed to generate RFI document' });
+    }
+  });
+
+  // Status history of an RFI, oldest first
+  app.get('/api/rfis/:id/history', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.rfi()), async (req, res) => {
+    try {
+      const { rfiStatusHistory } = await import('@shared/schema');
+      const history = await db
+        .select({
+          id: rfiStatusHistory.id,
+          fromStatus: rfiStatusHistory.fromStatus,
+          toStatus: rfiStatusHistory.toStatus,
+          ballInCourt: rfiStatusHistory.ballInCourt,
+          note: rfiStatusHistory.note,
+          createdAt: rfiStatusHistory.createdAt,
+          authorName: people.givenName,
+          authorFamilyName: people.familyName,
+        })
+        .from(rfiStatusHistory)
+        .leftJoin(userAccounts, eq(rfiStatusHistory.changedBy, userAccounts.id))
+        .leftJoin(people, eq(userAccounts.personId, people.id))
+        .where(eq(rfiStatusHistory.rfiId, req.params.id))
+        .orderBy(asc(rfiStatusHistory.createdAt));
+
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching RFI history:', error);
+      res.status(500).json({ error: 'Failed to fetch RFI history' });
+    }
+  });
+
+  // Response SLA per priority for a project's RFIs (defaults filled in for unconfigured priorities)
+  app.get('/api/projects/:projectId/rfi-sla-rules', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
+    try {
+      res.json(await getProjectRfiSlaRules(req.params.projectId));
+    } catch (error) {
+      console.error('Error fetching RFI SLA rules:', error);
+      res.status(500).json({ error: 'Failed to fetch RFI SLA rules' });
+    }
+  });
+
+  app.put('/api/projects/:projectId/rfi-sla-rules', isAuthenticated, requirePermission(PERMISSIONS.PROJECT_MANAGE, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { rfiSlaRules } = await import('@shared/schema');
+      const rules = req.body?.rules || {};
+
+      for (const priority of RFI_PRIORITIES) {
+        const rule = rules[priority];
+        if (!rule) continue;
+        if (!Number.isInteger(rule.responseDays) || rule.responseDays < 1 || rule.responseDays > 365) {
+          return res.status(400).json({ error: `${priority} response days must be a whole number from 1 to 365` });
+        }
+      }
+
+      for (const priority of RFI_PRIORITIES) {
+        const rule = rules[priority];
+        if (!rule) continue;
+        await db
+          .insert(rfiSlaRules)
+          .values({ projectId, priority, responseDays: rule.responseDays, businessDays: rule.businessDays !== false })
+          .onConflictDoUpdate({
+            target: [rfiSlaRules.projectId, rfiSlaRules.priority],
+            set: { responseDays: rule.responseDays, businessDays: rule.businessDays !== false, updatedAt: new Date() },
+          });
+      }
+
+      const recalculated = await refreshProjectRfis(projectId);
+      res.json({ rules: await getProjectRfiSlaRules(projectId), recalculated });
+    } catch (error) {
+      console.error('Error saving RFI SLA rules:', error);
+      res.status(500).json({ error: 'Failed to save RFI SLA rules' });
+    }
+  });
+
   // Delete RFI
-  app.delete('/api/rfis/:id', async (req, res) => {
+  app.delete('/api/rfis/:id', isAuthenticated, requirePermission(PERMISSIONS.RFI_APPROVE, scopes.rfi()), async (req, res) => {
     try {
       const { id } = req.params;
+      const attachments = await listRfiAttachments(id);
       const deleted = await db
         .delete(rfis)
         .where(eq(rfis.id, id))
@@ -4777,7 +5219,8 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
       if (deleted.length === 0) {
         return res.status(404).json({ error: 'RFI not found' });
       }
-      
+
+      await deleteRfiAttachmentObjects(id, attachments);
       res.json({ success: true });
     } catch (error) {
       console.error('Error deleting RFI:', error);
@@ -4785,10 +5228,109 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
     }
   });
 
+  // === RFI ATTACHMENT ROUTES ===
+
+  // Attachments of an RFI and its comments
+  app.get('/api/rfis/:id/attachments', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.rfi()), async (req, res) => {
+    try {
+      res.json(await listRfiAttachments(req.params.id));
+    } catch (error) {
+      console.error('Error fetching RFI attachments:', error);
+      res.status(500).json({ error: 'Failed to fetch RFI attachments' });
+    }
+  });
+
+  // Upload files to an RFI (multipart, 'files' field)
+  app.post('/api/rfis/:id/attachments', isAuthenticated, requirePermission(PERMISSIONS.RFI_CREATE, scopes.rfi()), rfiAttachmentFiles, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const files = (req.files as Express.Multer.File[]) || [];
+      if (files.length === 0) {
+        return res.status(400).json({ error: 'No files uploaded' });
+      }
+
+      const [rfi] = await db.select().from(rfis).where(eq(rfis.id, id)).limit(1);
+      if (!rfi) {
+        return res.status(404).json({ error: 'RFI not found' });
+      }
+
+      const user = req.user as any;
+      const uploadedBy = user?.personId ? await rbacService.getUserAccountIdForPerson(user.personId) : null;
+      const uploaded = await uploadRfiAttachments(id, files, uploadedBy);
+
+      // Append in SQL so concurrent uploads don't overwrite each other
+      const [updated] = await db
+        .update(rfis)
+        .set({
+          attachments: sql`COALESCE(${rfis.attachments}, '[]'::jsonb) || ${JSON.stringify(uploaded)}::jsonb`,
+          updatedAt: new Date(),
+        })
+        .where(eq(rfis.id, id))
+        .returning();
+
+      res.json({ attachments: uploaded, rfi: updated });
+    } catch (error) {
+      if (error instanceof RfiAttachmentError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error uploading RFI attachments:', error);
+      res.status(500).json({ error: 'Failed to upload RFI attachments' });
+    }
+  });
+
+  // Serve an attachment of the RFI or one of its comments (inline, or ?download=1)
+  app.get('/api/rfis/:id/attachments/:attachmentId', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.rfi()), async (req, res) => {
+    try {
+      const { id, attachmentId } = req.params;
+      const attachment = (await listRfiAttachments(id)).find(a => a.id === attachmentId);
+      if (!attachment) {
+        return res.status(404).json({ error: 'Attachment not found' });
+      }
+
+      const objectStorageService = new ObjectStorageService();
+      const file = await objectStorageService.getObjectEntityFile(`/objects/${rfiAttachmentObjectKey(id, attachmentId)}`);
+      const headers = attachmentResponseHeaders(attachment.name, !!req.query.download);
+      res.set(headers);
+      await objectStorageService.downloadObject(file, res, 3600, headers['Content-Type']);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: 'Attachment file not found' });
+      }
+      console.error('Error serving RFI attachment:', error);
+      res.status(500).json({ error: 'Failed to fetch RFI attachment' });
+    }
+  });
+
+  // Remove a file attached to the RFI itself (comment attachments go with their comment)
+  app.delete('/api/rfis/:id/attachments/:attachmentId', isAuthenticated, requirePermission(PERMISSIONS.RFI_CREATE, scopes.rfi()), async (req, res) => {
+    try {
+      const { id, attachmentId } = req.params;
+      const [rfi] = await db.select().from(rfis).where(eq(rfis.id, id)).limit(1);
+      const attachment = rfi?.attachments?.find(a => a.id === attachmentId);
+      if (!rfi || !attachment) {
+        return res.status(404).json({ error: 'Attachment not found' });
+      }
+
+      await db
+        .update(rfis)
+        .set({
+          attachments: (rfi.attachments || []).filter(a => a.id !== attachmentId),
+          updatedAt: new Date(),
+        })
+        .where(eq(rfis.id, id));
+      await deleteRfiAttachmentObjects(id, [attachment]);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting RFI attachment:', error);
+      res.status(500).json({ error: 'Failed to delete RFI attachment' });
+    }
+  });
+
   // === RFI COMMENTS ROUTES ===
   
   // Get comments for an RFI
-  app.get('/api/rfis/:rfiId/comments', async (req, res) => {
+  app.get('/api/rfis/:rfiId/comments', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.rfi('rfiId')), async (req, res) => {
     try {
       const { rfiId } = req.params;
       const comments = await db
@@ -4817,32 +5359,42 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
     }
   });
 
-  // Create comment for an RFI
-  app.post('/api/rfis/:rfiId/comments', async (req, res) => {
+  // Create comment for an RFI (JSON, or multipart with attached 'files')
+  app.post('/api/rfis/:rfiId/comments', isAuthenticated, requirePermission(PERMISSIONS.RFI_CREATE, scopes.rfi('rfiId')), rfiAttachmentFiles, async (req, res) => {
+    let uploaded: Awaited<ReturnType<typeof uploadRfiAttachments>> = [];
     try {
       const { rfiId } = req.params;
       const validatedData = insertRFICommentSchema.parse({
         ...req.body,
         rfiId,
       });
+
+      const files = (req.files as Express.Multer.File[]) || [];
+      if (files.length > 0) {
+        uploaded = await uploadRfiAttachments(rfiId, files, validatedData.userAccountId);
+      }
       
       const newComment = await db
         .insert(rfiComments)
-        .values(validatedData)
+        .values({ ...validatedData, attachments: uploaded.length > 0 ? uploaded : null })
         .returning();
       
       res.json(newComment[0]);
     } catch (error) {
+      if (error instanceof RfiAttachmentError) {
+        return res.status(400).json({ error: error.message });
+      }
+      await deleteRfiAttachmentObjects(req.params.rfiId, uploaded);
       console.error('Error creating RFI comment:', error);
       res.status(500).json({ error: 'Failed to create RFI comment' });
     }
   });
 
   // Update comment
-  app.patch('/api/rfi-comments/:id', async (req, res) => {
+  app.patch('/api/rfi-comments/:id', isAuthenticated, requirePermission(PERMISSIONS.RFI_CREATE, scopes.rfiComment()), async (req, res) => {
     try {
       const { id } = req.params;
-      const validatedData = insertRFICommentSchema.partial().parse(req.body);
+      const validatedData = insertRFICommentSchema.omit({ rfiId: true }).partial().parse(req.body);
       
       const updated = await db
         .update(rfiComments)
@@ -4865,7 +5417,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Delete comment
-  app.delete('/api/rfi-comments/:id', async (req, res) => {
+  app.delete('/api/rfi-comments/:id', isAuthenticated, requirePermission(PERMISSIONS.RFI_CREATE, scopes.rfiComment()), async (req, res) => {
     try {
       const { id } = req.params;
       const deleted = await db
@@ -4876,7 +5428,8 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
       if (deleted.length === 0) {
         return res.status(404).json({ error: 'Comment not found' });
       }
-      
+
+      await deleteRfiAttachmentObjects(deleted[0].rfiId, deleted[0].attachments || []);
       res.json({ success: true });
     } catch (error) {
       console.error('Error deleting comment:', error);
@@ -4887,7 +5440,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // === USER MANAGEMENT ROUTES ===
 
   // Get all users (using new RBAC schema)
-  app.get('/api/users', async (req, res) => {
+  app.get('/api/users', isAuthenticated, requirePermission(PERMISSIONS.USER_MANAGE), async (req, res) => {
     try {
       // PERFORMANCE FIX: Batch fetch users with their current roles in one query
       // Get all users with person details
@@ -4905,7 +5458,8 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
           isActive: people.isActive,
         })
         .from(userAccounts)
-        .innerJoin(people, eq(userAccounts.personId, people.id));
+        .innerJoin(people, eq(userAccounts.personId, people.id))
+        .where(tenantCompanyId(req) !== null ? eq(people.companyId, tenantCompanyId(req)!) : undefined);
 
       if (usersData.length === 0) {
         return res.json([]);
@@ -4952,7 +5506,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create new person
-  app.post('/api/people', async (req, res) => {
+  app.post('/api/people', isAuthenticated, requirePermission(PERMISSIONS.USER_MANAGE, scopes.companyBody()), async (req, res) => {
     try {
       const validatedData = insertPersonSchema.parse(req.body);
       const [newPerson] = await db.insert(people).values(validatedData).returning();
@@ -4964,7 +5518,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create new user account
-  app.post('/api/user-accounts', async (req, res) => {
+  app.post('/api/user-accounts', isAuthenticated, requirePermission(PERMISSIONS.USER_MANAGE, scopes.personBody()), async (req, res) => {
     try {
       const { personId, username, passwordHash, mfaEnabled } = req.body;
       
@@ -4988,7 +5542,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // === RBAC ROUTES ===
 
   // Get all roles
-  app.get('/api/rbac/roles', async (req, res) => {
+  app.get('/api/rbac/roles', isAuthenticated, async (req, res) => {
     try {
       const allRoles = await db.select().from(roles);
       res.json(allRoles);
@@ -4999,7 +5553,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get all permissions
-  app.get('/api/rbac/permissions', async (req, res) => {
+  app.get('/api/rbac/permissions', isAuthenticated, async (req, res) => {
     try {
       const allPermissions = await db.select().from(permissions);
       res.json(allPermissions);
@@ -5010,7 +5564,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get all project roles
-  app.get('/api/rbac/project-roles', async (req, res) => {
+  app.get('/api/rbac/project-roles', isAuthenticated, async (req, res) => {
     try {
       const allProjectRoles = await db.select().from(projectRoles);
       res.json(allProjectRoles);
@@ -5021,7 +5575,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get user's global permissions
-  app.get('/api/rbac/users/:userAccountId/permissions', async (req, res) => {
+  app.get('/api/rbac/users/:userAccountId/permissions', isAuthenticated, requirePermission(PERMISSIONS.USER_MANAGE, scopes.userAccount()), async (req, res) => {
     try {
       const { userAccountId } = req.params;
       const perms = await rbacService.getCurrentGlobalPermissions(userAccountId);
@@ -5033,7 +5587,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get user's project permissions
-  app.get('/api/rbac/users/:userAccountId/projects/:projectId/permissions', async (req, res) => {
+  app.get('/api/rbac/users/:userAccountId/projects/:projectId/permissions', isAuthenticated, requirePermission(PERMISSIONS.USER_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { userAccountId, projectId } = req.params;
       const perms = await rbacService.getCurrentProjectPermissions(userAccountId, projectId);
@@ -5045,7 +5599,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get user's roles
-  app.get('/api/rbac/users/:userAccountId/roles', async (req, res) => {
+  app.get('/api/rbac/users/:userAccountId/roles', isAuthenticated, requirePermission(PERMISSIONS.USER_MANAGE, scopes.userAccount()), async (req, res) => {
     try {
       const { userAccountId } = req.params;
       const userRolesData = await rbacService.getUserRoles(userAccountId);
@@ -5057,7 +5611,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Assign global role to user
-  app.post('/api/rbac/users/:userAccountId/roles', async (req, res) => {
+  app.post('/api/rbac/users/:userAccountId/roles', isAuthenticated, requirePermission(PERMISSIONS.USER_MANAGE, scopes.userAccount()), async (req, res) => {
     try {
       const { userAccountId } = req.params;
       const { roleCode, startDate, endDate } = req.body;
@@ -5071,7 +5625,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get user's projects
-  app.get('/api/rbac/users/:userAccountId/projects', async (req, res) => {
+  app.get('/api/rbac/users/:userAccountId/projects', isAuthenticated, requirePermission(PERMISSIONS.USER_MANAGE, scopes.userAccount()), async (req, res) => {
     try {
       const { userAccountId } = req.params;
       const projects = await rbacService.getUserProjects(userAccountId);
@@ -5083,7 +5637,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get project members
-  app.get('/api/rbac/projects/:projectId/members', async (req, res) => {
+  app.get('/api/rbac/projects/:projectId/members', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const members = await rbacService.getProjectMembers(projectId);
@@ -5095,7 +5649,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Assign user to project
-  app.post('/api/rbac/projects/:projectId/members', async (req, res) => {
+  app.post('/api/rbac/projects/:projectId/members', isAuthenticated, requirePermission(PERMISSIONS.PROJECT_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { userAccountId, projectRoleCode, assignedByUserId, notes } = req.body;
@@ -5115,7 +5669,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update project member role
-  app.patch('/api/rbac/projects/:projectId/members/:membershipId', async (req, res) => {
+  app.patch('/api/rbac/projects/:projectId/members/:membershipId', isAuthenticated, requirePermission(PERMISSIONS.PROJECT_MANAGE, scopes.projectMembership()), async (req, res) => {
     try {
       const { membershipId } = req.params;
       const { projectRoleId, notes } = req.body;
@@ -5137,7 +5691,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Remove user from project
-  app.delete('/api/rbac/projects/:projectId/members/:userAccountId', async (req, res) => {
+  app.delete('/api/rbac/projects/:projectId/members/:userAccountId', isAuthenticated, requirePermission(PERMISSIONS.PROJECT_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId, userAccountId } = req.params;
       await rbacService.removeFromProject(projectId, userAccountId);
@@ -5149,7 +5703,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get user account details
-  app.get('/api/rbac/users/:userAccountId', async (req, res) => {
+  app.get('/api/rbac/users/:userAccountId', isAuthenticated, requirePermission(PERMISSIONS.USER_MANAGE, scopes.userAccount()), async (req, res) => {
     try {
       const { userAccountId } = req.params;
       const details = await rbacService.getUserAccountDetails(userAccountId);
@@ -5168,12 +5722,12 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // === EMPLOYMENT ROLES ROUTES ===
 
   // Get all employment roles for a company
-  app.get('/api/employment-roles', async (req, res) => {
+  app.get('/api/employment-roles', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.companyQuery()), async (req, res) => {
     try {
-      const { companyId } = req.query;
+      const companyId = req.query.companyId ?? tenantCompanyId(req);
       
       let query = db.select().from(employmentRoles);
-      if (companyId) {
+      if (companyId !== null) {
         query = query.where(eq(employmentRoles.companyId, companyId as string)) as any;
       }
       
@@ -5186,7 +5740,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create new employment role
-  app.post('/api/employment-roles', async (req, res) => {
+  app.post('/api/employment-roles', isAuthenticated, requirePermission(PERMISSIONS.USER_MANAGE, scopes.companyBody()), async (req, res) => {
     try {
       const validatedData = insertEmploymentRoleSchema.parse(req.body);
       const [newRole] = await db.insert(employmentRoles).values(validatedData).returning();
@@ -5213,7 +5767,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update employment role
-  app.patch('/api/employment-roles/:id', async (req, res) => {
+  app.patch('/api/employment-roles/:id', isAuthenticated, requirePermission(PERMISSIONS.USER_MANAGE, scopes.employmentRole()), async (req, res) => {
     try {
       const { id } = req.params;
       const { title, doaAcronym, description, isActive } = req.body;
@@ -5251,7 +5805,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Delete (deactivate) employment role
-  app.delete('/api/employment-roles/:id', async (req, res) => {
+  app.delete('/api/employment-roles/:id', isAuthenticated, requirePermission(PERMISSIONS.USER_MANAGE, scopes.employmentRole()), async (req, res) => {
     try {
       const { id } = req.params;
       const [updated] = await db
@@ -5272,7 +5826,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get user's employment history
-  app.get('/api/users/:userAccountId/employment-history', async (req, res) => {
+  app.get('/api/users/:userAccountId/employment-history', isAuthenticated, requirePermission(PERMISSIONS.USER_MANAGE, scopes.userAccount()), async (req, res) => {
     try {
       const { userAccountId } = req.params;
       
@@ -5301,7 +5855,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get user's current employment role
-  app.get('/api/users/:userAccountId/current-employment-role', async (req, res) => {
+  app.get('/api/users/:userAccountId/current-employment-role', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.userAccount()), async (req, res) => {
     try {
       const { userAccountId } = req.params;
       
@@ -5334,12 +5888,12 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Assign/update user employment role (promotion)
-  app.post('/api/users/:userAccountId/employment-history', async (req, res) => {
+  app.post('/api/users/:userAccountId/employment-history', isAuthenticated, requirePermission(PERMISSIONS.USER_MANAGE, scopes.userAccount()), async (req, res) => {
     try {
       const { userAccountId } = req.params;
       const validatedData = insertUserEmploymentHistorySchema.parse({
+        ...req.body,
         userAccountId,
-        ...req.body
       });
       
       // End current employment role if exists
@@ -5367,7 +5921,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Project Roles Routes
-  app.get('/api/project-roles', async (req, res) => {
+  app.get('/api/project-roles', isAuthenticated, async (req, res) => {
     try {
       const roles = await db.select().from(projectRoles);
       res.json(roles);
@@ -5378,7 +5932,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Project Assignments Routes (using projectMemberships table)
-  app.post('/api/project-assignments', async (req, res) => {
+  app.post('/api/project-assignments', isAuthenticated, requirePermission(PERMISSIONS.PROJECT_MANAGE, scopes.projectBody()), async (req, res) => {
     try {
       const { userAccountId, projectId, projectRoleId, notes } = req.body;
       
@@ -5403,7 +5957,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Contract Review Migration Endpoints
-  app.post('/api/admin/migrate-contract-review', async (req, res) => {
+  app.post('/api/admin/migrate-contract-review', isAuthenticated, requireSuperAdmin, async (req, res) => {
     try {
       const { migrateContractReviewData } = await import('./migrations/migrateContractReview');
       const result = await migrateContractReviewData();
@@ -5414,7 +5968,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
     }
   });
 
-  app.post('/api/admin/verify-contract-review-migration', async (req, res) => {
+  app.post('/api/admin/verify-contract-review-migration', isAuthenticated, requireSuperAdmin, async (req, res) => {
     try {
       const { verifyMigration } = await import('./migrations/migrateContractReview');
       const result = await verifyMigration();
@@ -5432,7 +5986,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // Get all letters for a project
   // Note: This endpoint returns ONLY uploaded letters for the Letter Register
   // SharePoint letters are accessed separately for AI search recommendations
-  app.get('/api/projects/:projectId/correspondence/letters', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/correspondence/letters', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       
@@ -5455,7 +6009,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Upload a new letter
-  app.post('/api/projects/:projectId/correspondence/upload', isAuthenticated, upload.single('file'), async (req: any, res) => {
+  app.post('/api/projects/:projectId/correspondence/upload', isAuthenticated, requirePermission(PERMISSIONS.CORRESPONDENCE_MANAGE, scopes.project()), upload.single('file'), async (req: any, res) => {
     try {
       const { projectId } = req.params;
       const file = req.file;
@@ -5499,6 +6053,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
 
       // Track embedding tokens outside transaction for logging
       let embeddingTokens = 0;
+      const embeddingProvider = await getProjectEmbeddingProvider(projectId, 'legal');
 
       // Use transaction to safely get next letter number, upload, and insert
       // This prevents race conditions when multiple letters are uploaded simultaneously
@@ -5526,7 +6081,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
 
         // Extract text from PDF for embedding generation
         let extractedText = '';
-        let embeddingVector: string | null = null;
+        let storedEmbedding: StoredEmbedding | null = null;
         
         try {
           extractedText = await extractTextFromPDF(file.buffer);
@@ -5539,9 +6094,9 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
             subject
           );
           
-          // Generate embedding using Voyage AI (voyage-law-2 for legal documents)
-          const { embedding, usage } = await generateEmbedding(textForEmbedding, true);
-          embeddingVector = JSON.stringify(embedding);
+          // Generate embedding with the company's legal embedding model
+          const { embedding, model, usage } = await generateEmbedding(textForEmbedding, embeddingProvider);
+          storedEmbedding = toStoredEmbedding(embedding, LEGAL_EMBEDDING_DIMENSIONS, model);
           embeddingTokens = usage?.total_tokens || 0;
         } catch (embeddingError) {
           console.error('Error generating embedding:', embeddingError);
@@ -5558,7 +6113,9 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
             fileUrl: objectPath,
             fileKey: objectPath,
             extractedText,
-            embeddingVector,
+            embeddingVector: storedEmbedding?.vector ?? null,
+            embeddingModel: storedEmbedding?.model ?? null,
+            embeddingDimensions: storedEmbedding?.dimensions ?? null,
             sender,
             recipient,
             subject,
@@ -5575,15 +6132,14 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
         const person = (req as any).person;
         if (person) {
           try {
-            // voyage-law-2 pricing: $0.12 per 1M tokens
-            const estimatedCost = (embeddingTokens / 1_000_000) * 0.12;
+            const estimatedCost = (embeddingTokens / 1_000_000) * embeddingProvider.costPerMillionTokens;
             
             await db.insert(aiUsageLogs).values({
               projectId,
               personId: person.id,
               formName: 'AI Letter',
               eventType: 'AI Indexing',
-              modelUsed: 'voyage-law-2',
+              modelUsed: embeddingProvider.model,
               revisionId: null,
               rowId: null,
               letterId: letter.id,
@@ -5643,66 +6199,80 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Search similar letters using AI semantic search
-  app.post('/api/projects/:projectId/correspondence/search', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/correspondence/search', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
-      const { letterId } = req.body;
+      const { letterId, query } = req.body;
+      const searchText = typeof query === 'string' ? query.trim() : '';
       
-      if (!letterId) {
-        return res.status(400).json({ error: 'Letter ID is required' });
+      if (!letterId && !searchText) {
+        return res.status(400).json({ error: 'Letter ID or search query is required' });
       }
 
       // Get the query letter with its embedding
-      const [queryLetter] = await db
-        .select()
-        .from(correspondenceLetters)
-        .where(eq(correspondenceLetters.id, letterId))
-        .limit(1);
+      let queryLetter: typeof correspondenceLetters.$inferSelect | undefined;
+      if (letterId) {
+        [queryLetter] = await db
+          .select()
+          .from(correspondenceLetters)
+          .where(eq(correspondenceLetters.id, letterId))
+          .limit(1);
 
-      if (!queryLetter) {
-        return res.status(404).json({ error: 'Letter not found' });
+        if (!queryLetter) {
+          return res.status(404).json({ error: 'Letter not found' });
+        }
       }
 
-      // Get all other letters in the project with embeddings
-      const projectLetters = await db
-        .select()
-        .from(correspondenceLetters)
-        .where(eq(correspondenceLetters.projectId, projectId));
+      const { lte, ne, isNotNull, cosineDistance, getTableColumns } = await import('drizzle-orm');
+      const { embeddingVector: _embedding, searchVector: _searchVector, ...letterColumns } = getTableColumns(correspondenceLetters);
 
-      // Filter letters - exclude the query letter itself and letters dated after the selected letter
+      // Exclude the query letter itself and letters dated after the selected letter
       // This prevents suggesting "future" letters that didn't exist when the selected letter was written
-      const eligibleLetters = projectLetters.filter(letter => {
-        // Exclude the query letter itself
-        if (letter.id === letterId) return false;
-        
-        // If the query letter has a date, exclude letters dated after it
+      // (letter dates are yyyy-mm-dd strings, so they compare chronologically as text, and
+      // letters without a date are excluded because we can't determine chronology)
+      const eligibleConditions: SQL[] = [eq(correspondenceLetters.projectId, projectId)];
+      if (queryLetter) {
+        eligibleConditions.push(ne(correspondenceLetters.id, queryLetter.id));
         if (queryLetter.letterDate) {
-          // If the candidate letter has no date, exclude it (we can't determine chronology)
-          if (!letter.letterDate) return false;
-          
-          // Exclude letters dated after the query letter
-          const queryDate = new Date(queryLetter.letterDate);
-          const letterDate = new Date(letter.letterDate);
-          if (letterDate > queryDate) return false;
+          eligibleConditions.push(lte(correspondenceLetters.letterDate, queryLetter.letterDate));
         }
-        // If query letter has no date, include all letters (can't apply date filter)
-        
-        return true; // Include letters on or before the query letter's date
-      });
+      }
 
       let similarLetters: any[] = [];
 
-      // Perform semantic search using embeddings if query letter has an embedding
-      if (queryLetter.embeddingVector) {
+      if (searchText) {
+        // Keyword search fused with similarity to the selected letter (or to the query text)
+        const { searchLetters } = await import('./hybridSearch');
+        const embeddingProvider = await getProjectEmbeddingProvider(projectId, 'legal');
+        similarLetters = await searchLetters({
+          query: searchText,
+          // The selected letter's embedding is only comparable if it was made by the current model
+          queryEmbedding: queryLetter?.embeddingModel === embeddingProvider.model ? queryLetter.embeddingVector : null,
+          conditions: eligibleConditions,
+          limit: 20,
+          embeddingProvider,
+        });
+        return res.json(similarLetters);
+      }
+
+      // Perform semantic search using the HNSW index if the query letter has an embedding
+      // (compared only with letters embedded by the same model)
+      if (queryLetter?.embeddingVector && queryLetter.embeddingModel) {
         try {
-          const queryEmbedding = JSON.parse(queryLetter.embeddingVector) as number[];
-          
-          // Find similar letters from eligible letters (filtered by date)
-          similarLetters = findSimilarLetters(
-            queryEmbedding,
-            eligibleLetters,
-            10 // Top 10 most similar
+          const embeddingModel = queryLetter.embeddingModel;
+          const distance = cosineDistance(correspondenceLetters.embeddingVector, queryLetter.embeddingVector);
+          const nearest = await withVectorSearch((tx) =>
+            tx
+              .select({ ...letterColumns, distance })
+              .from(correspondenceLetters)
+              .where(and(...eligibleConditions, isNotNull(correspondenceLetters.embeddingVector), eq(correspondenceLetters.embeddingModel, embeddingModel)))
+              .orderBy(distance)
+              .limit(10) // Top 10 most similar
           );
+
+          similarLetters = nearest
+            .map(({ distance, ...letter }) => ({ ...letter, similarity: similarityFromDistance(distance as number) }))
+            .sort((a, b) => b.similarity - a.similarity);
         } catch (error) {
           console.error('Error in semantic similarity search:', error);
         }
@@ -5713,7 +6283,11 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
 
       // If still no results, return other eligible letters (respecting date filter)
       if (similarLetters.length === 0) {
-        similarLetters = eligibleLetters.slice(0, 10);
+        similarLetters = await db
+          .select(letterColumns)
+          .from(correspondenceLetters)
+          .where(and(...eligibleConditions))
+          .limit(10);
       }
       
       res.json(similarLetters);
@@ -5724,7 +6298,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get a single letter
-  app.get('/api/correspondence/letters/:letterId', isAuthenticated, async (req, res) => {
+  app.get('/api/correspondence/letters/:letterId', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.correspondenceLetter()), async (req, res) => {
     try {
       const { letterId } = req.params;
       
@@ -5745,7 +6319,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Delete a letter
-  app.delete('/api/correspondence/letters/:letterId', isAuthenticated, async (req, res) => {
+  app.delete('/api/correspondence/letters/:letterId', isAuthenticated, requirePermission(PERMISSIONS.CORRESPONDENCE_MANAGE, scopes.correspondenceLetter()), async (req, res) => {
     try {
       const { letterId } = req.params;
       console.log('[DELETE] Attempting to delete letter:', letterId);
@@ -5792,7 +6366,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Proxy endpoint to stream PDF files (handles both uploaded and SharePoint letters)
-  app.get('/api/correspondence/letters/:letterId/pdf', isAuthenticated, async (req, res) => {
+  app.get('/api/correspondence/letters/:letterId/pdf', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.correspondenceLetter()), async (req, res) => {
     try {
       const { letterId } = req.params;
       
@@ -5869,7 +6443,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Generate AI response
-  app.post('/api/projects/:projectId/correspondence/generate-response', isAuthenticated, async (req: any, res) => {
+  app.post('/api/projects/:projectId/correspondence/generate-response', isAuthenticated, requirePermission(PERMISSIONS.CORRESPONDENCE_MANAGE, scopes.project()), async (req: any, res) => {
     try {
       const { projectId } = req.params;
       const { originalLetterId, referenceLetterIds, customInstructions, sessionId } = req.body;
@@ -5913,7 +6487,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Save draft letter
-  app.post('/api/projects/:projectId/correspondence/save-draft', isAuthenticated, async (req: any, res) => {
+  app.post('/api/projects/:projectId/correspondence/save-draft', isAuthenticated, requirePermission(PERMISSIONS.CORRESPONDENCE_MANAGE, scopes.project()), async (req: any, res) => {
     try {
       const { projectId } = req.params;
       const { 
@@ -5980,7 +6554,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Export draft letter to Word
-  app.post('/api/projects/:projectId/correspondence/export-word', isAuthenticated, async (req: any, res) => {
+  app.post('/api/projects/:projectId/correspondence/export-word', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req: any, res) => {
     try {
       const { projectId } = req.params;
       const { draftContent } = req.body;
@@ -6028,7 +6602,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Test SharePoint folder access
-  app.post('/api/sharepoint/test-connection', isAuthenticated, async (req, res) => {
+  app.post('/api/sharepoint/test-connection', isAuthenticated, requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
     try {
       const { siteUrl, folderPath } = req.body;
       
@@ -6057,7 +6631,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get SharePoint settings for a project
-  app.get('/api/projects/:projectId/sharepoint-settings', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/sharepoint-settings', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       
@@ -6074,7 +6648,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update/Create SharePoint settings for a project
-  app.post('/api/projects/:projectId/sharepoint-settings', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/sharepoint-settings', isAuthenticated, requirePermission(PERMISSIONS.PROJECT_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { sharePointSiteUrl, correspondenceFolderPath, siteId, driveId } = req.body;
@@ -6121,7 +6695,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Check embedding status for all letters in a project
-  app.get('/api/projects/:projectId/correspondence/embedding-status', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/correspondence/embedding-status', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       
@@ -6157,26 +6731,31 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Regenerate embeddings for all letters in a project (for letters uploaded before embedding feature)
-  app.post('/api/projects/:projectId/correspondence/regenerate-embeddings', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/correspondence/regenerate-embeddings', isAuthenticated, requirePermission(PERMISSIONS.CORRESPONDENCE_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       
       console.log(`[Regenerate Embeddings] Starting for project ${projectId}`);
       
-      // Get all letters without embeddings OR without extracted text
+      // Get uploaded letters without embeddings OR without extracted text, and SharePoint
+      // letters whose embedding was dropped by the pgvector migration (their text is kept)
       const lettersToProcess = await db
         .select()
         .from(correspondenceLetters)
         .where(
           and(
             eq(correspondenceLetters.projectId, projectId),
-            eq(correspondenceLetters.source, 'upload'), // Only process uploaded letters
-            sql`(embedding_vector IS NULL OR extracted_text IS NULL OR LENGTH(extracted_text) < 50)` // Missing embedding or text
+            sql`(
+              (source = 'upload' AND (embedding_vector IS NULL OR extracted_text IS NULL OR LENGTH(extracted_text) < 50))
+              OR (source = 'sharepoint' AND embedding_vector IS NULL AND LENGTH(extracted_text) >= 50)
+            )`
           )
         );
       
       console.log(`[Regenerate Embeddings] Found ${lettersToProcess.length} letters needing processing`);
       
+      const embeddingProvider = await getProjectEmbeddingProvider(projectId, 'legal');
+      
       let processed = 0;
       let errors = 0;
       
@@ -6231,16 +6810,18 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
             letter.subject || undefined
           );
           
-          // Generate embedding using Voyage AI (voyage-law-2 for legal documents)
-          const { embedding } = await generateEmbedding(embeddingText, true);
-          const embeddingVector = JSON.stringify(embedding);
+          // Generate embedding with the company's legal embedding model
+          const { embedding, model } = await generateEmbedding(embeddingText, embeddingProvider);
+          const storedEmbedding = toStoredEmbedding(embedding, LEGAL_EMBEDDING_DIMENSIONS, model);
           
           // Update letter with both text and embedding
           await db
             .update(correspondenceLetters)
             .set({ 
               extractedText,
-              embeddingVector 
+              embeddingVector: storedEmbedding?.vector ?? null,
+              embeddingModel: storedEmbedding?.model ?? null,
+              embeddingDimensions: storedEmbedding?.dimensions ?? null,
             })
             .where(eq(correspondenceLetters.id, letter.id));
           
@@ -6268,7 +6849,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Sync SharePoint documents to database (index for AI search)
-  app.post('/api/projects/:projectId/sharepoint-sync', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/sharepoint-sync', isAuthenticated, requirePermission(PERMISSIONS.CORRESPONDENCE_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       
@@ -6314,22 +6895,19 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
         const person = (req as any).person;
         if (person) {
           try {
-            // text-embedding-3-small pricing: $0.02 per 1M tokens
-            const estimatedCost = (result.totalTokens / 1_000_000) * 0.02;
-            
             await db.insert(aiUsageLogs).values({
               projectId,
               personId: person.id,
               formName: 'AI Letter',
               eventType: 'AI Indexing',
-              modelUsed: 'text-embedding-3-small',
+              modelUsed: result.embeddingModel,
               revisionId: null,
               rowId: null,
               letterId: null,
               inputTokens: result.totalTokens,
               outputTokens: 0, // Embeddings don't have output tokens
               totalTokens: result.totalTokens,
-              estimatedCost: estimatedCost.toFixed(4),
+              estimatedCost: result.embeddingCost.toFixed(4),
               clientInvoiceNumber: null,
               notes: `SharePoint sync: indexed ${result.indexed} documents`,
             });
@@ -6354,10 +6932,10 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // Programs Routes (XER Files - Gantt Chart)
   
   // Upload XER file and create program
-  app.post('/api/projects/:projectId/programs/upload', isAuthenticated, upload.single('file'), async (req: any, res) => {
+  app.post('/api/projects/:projectId/programs/upload', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.project()), upload.single('file'), async (req: any, res) => {
     try {
       const { projectId } = req.params;
-      const { name, isContractBaseline, isBaselineApproved, comments } = req.body;
+      const { name, isContractBaseline, isBaselineApproved, comments, csvColumns, dataDate: csvDataDate } = req.body;
       
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
@@ -6388,13 +6966,28 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
         userAccount = newUserAccount;
       }
 
-      // Parse XER file to extract data date and schedule data
-      const xerData = await parseXERBuffer(file.buffer);
+      // Parse the program (XER, MS Project XML or CSV) to extract data date and schedule data
+      let columns;
+      try {
+        columns = csvColumns ? JSON.parse(csvColumns) : undefined;
+      } catch (parseError) {
+        return res.status(400).json({ error: 'Invalid CSV column mapping' });
+      }
+      const xerData = await parseProgramBuffer(file.buffer, file.originalname, {
+        columns,
+        dataDate: csvDataDate || null,
+      });
       const dataDate = xerData.project?.dataDate || null;
 
-      // Compute AI schedule insights
+      // Compute AI schedule insights, measuring the DCMA baseline checks against the contract baseline
+      const uploadIsContractBaseline = isContractBaseline === 'true' || isContractBaseline === true;
+      const [contractBaseline] = uploadIsContractBaseline ? [] : await db
+        .select()
+        .from(programs)
+        .where(and(eq(programs.projectId, projectId), eq(programs.isContractBaseline, true)))
+        .limit(1);
       const { computeScheduleInsights } = await import('./scheduleInsights');
-      const insights = computeScheduleInsights(xerData);
+      const insights = computeScheduleInsights(xerData, contractBaseline?.xerData);
 
       // If setting as contract baseline, clear existing contract baseline
       if (isContractBaseline === 'true' || isContractBaseline === true) {
@@ -6425,13 +7018,29 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
 
       res.json(program);
     } catch (error) {
+      if (error instanceof ProgramImportError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error('Error uploading program:', error);
       res.status(500).json({ error: 'Failed to upload program' });
     }
   });
 
+  // Read the headers of a program CSV and the activity columns recognised from them
+  app.post('/api/projects/:projectId/programs/csv-columns', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.project()), upload.single('file'), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+      res.json(readProgramCsvColumns(req.file.buffer));
+    } catch (error) {
+      console.error('Error reading program CSV columns:', error);
+      res.status(500).json({ error: 'Failed to read CSV columns' });
+    }
+  });
+
   // Get all programs for a project
-  app.get('/api/projects/:projectId/programs', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/programs', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       
@@ -6449,7 +7058,10 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
           const xerData = program.xerData as any;
           if (xerData.tasks && xerData.relationships) {
             // Re-calculate critical path on the cached data
-            const tasksWithFloat = calculateCriticalPath(xerData.tasks, xerData.relationships);
+            const tasksWithFloat = calculateCriticalPath(xerData.tasks, xerData.relationships, {
+              calendars: xerData.calendars,
+              dataDate: xerData.project?.dataDate,
+            });
             
             console.log(`[CPM] Recalculated float for program ${program.id}: ${tasksWithFloat.filter((t: any) => t.totalFloat !== null && t.totalFloat <= 0).length} critical out of ${tasksWithFloat.length} tasks`);
             
@@ -6468,15 +7080,148 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
         return program;
       });
 
-      res.json(programsWithRecalculatedFloat);
+      // Refresh insights so the DCMA checks use the recalculated float and the current contract baseline
+      const { computeScheduleInsights } = await import('./scheduleInsights');
+      const contractBaseline = programsWithRecalculatedFloat.find(program => program.isContractBaseline);
+      const programsWithInsights = programsWithRecalculatedFloat.map(program => {
+        if (!program.xerData) return program;
+        const baselineXerData = contractBaseline && contractBaseline.id !== program.id ? contractBaseline.xerData : undefined;
+        return { ...program, insights: computeScheduleInsights(program.xerData, baselineXerData) };
+      });
+
+      res.json(programsWithInsights);
     } catch (error) {
       console.error('Error fetching programs:', error);
       res.status(500).json({ error: 'Failed to fetch programs' });
     }
   });
 
+  // Compare a baseline program against an update (variance report)
+  app.get('/api/projects/:projectId/programs/compare', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const baselineId = req.query.baseline as string | undefined;
+      const updateId = req.query.update as string | undefined;
+
+      if (!baselineId || !updateId) {
+        return res.status(400).json({ error: 'baseline and update program IDs are required' });
+      }
+
+      const comparedPrograms = await db
+        .select()
+        .from(programs)
+        .where(and(
+          eq(programs.projectId, projectId),
+          inArray(programs.id, [baselineId, updateId])
+        ));
+
+      const baselineProgram = comparedPrograms.find(p => p.id === baselineId);
+      const updateProgram = comparedPrograms.find(p => p.id === updateId);
+      if (!baselineProgram || !updateProgram) {
+        return res.status(404).json({ error: 'Program not found' });
+      }
+      if (!baselineProgram.xerData || !updateProgram.xerData) {
+        return res.status(400).json({ error: 'Both programs must have parsed schedule data' });
+      }
+
+      const comparison = comparePrograms(baselineProgram.xerData as any, updateProgram.xerData as any);
+      const summary = (program: typeof baselineProgram) => ({
+        id: program.id,
+        name: program.name,
+        dataDate: program.dataDate,
+        isContractBaseline: program.isContractBaseline,
+      });
+
+      res.json({
+        baselineProgram: summary(baselineProgram),
+        updateProgram: summary(updateProgram),
+        ...comparison,
+      });
+    } catch (error) {
+      console.error('Error comparing programs:', error);
+      res.status(500).json({ error: 'Failed to compare programs' });
+    }
+  });
+
+  // Get XER resource to resource rate mappings
+  app.get('/api/projects/:projectId/programs/resource-mappings', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { programResourceMappings, resourceRates } = await import('@shared/schema');
+
+      const mappings = await db
+        .select({
+          id: programResourceMappings.id,
+          xerResourceCode: programResourceMappings.xerResourceCode,
+          resourceRateId: programResourceMappings.resourceRateId,
+          resourceRateCode: resourceRates.code,
+          costRate: resourceRates.costRate,
+          unit: resourceRates.unit,
+        })
+        .from(programResourceMappings)
+        .innerJoin(resourceRates, eq(programResourceMappings.resourceRateId, resourceRates.id))
+        .where(eq(programResourceMappings.projectId, projectId));
+
+      res.json(mappings);
+    } catch (error) {
+      console.error('Error fetching program resource mappings:', error);
+      res.status(500).json({ error: 'Failed to fetch resource mappings' });
+    }
+  });
+
+  // Set XER resource to resource rate mappings (a null rate removes the mapping)
+  app.put('/api/projects/:projectId/programs/resource-mappings', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { programResourceMappings, resourceRates } = await import('@shared/schema');
+      const { mappings } = req.body as { mappings?: Array<{ xerResourceCode: string; resourceRateId: string | null }> };
+
+      if (!Array.isArray(mappings)) {
+        return res.status(400).json({ error: 'mappings must be an array' });
+      }
+
+      const codes = Array.from(new Set(mappings.map(m => m.xerResourceCode).filter(Boolean)));
+      const toSave = mappings.filter(m => m.xerResourceCode && m.resourceRateId);
+      const rateIds = Array.from(new Set(toSave.map(m => m.resourceRateId!)));
+      if (rateIds.length > 0) {
+        const projectRates = await db
+          .select({ id: resourceRates.id })
+          .from(resourceRates)
+          .where(and(eq(resourceRates.projectId, projectId), inArray(resourceRates.id, rateIds)));
+        if (projectRates.length !== rateIds.length) {
+          return res.status(400).json({ error: 'Resource rates must belong to this project' });
+        }
+      }
+
+      await db.transaction(async (tx) => {
+        // Only the given resources are replaced - other programs may use other resource codes
+        if (codes.length > 0) {
+          await tx.delete(programResourceMappings).where(and(
+            eq(programResourceMappings.projectId, projectId),
+            inArray(programResourceMappings.xerResourceCode, codes)
+          ));
+        }
+        if (toSave.length > 0) {
+          await tx.insert(programResourceMappings).values(toSave.map(m => ({
+            projectId,
+            xerResourceCode: m.xerResourceCode,
+            resourceRateId: m.resourceRateId!,
+          })));
+        }
+      });
+
+      res.json({ success: true, count: toSave.length });
+    } catch (error: any) {
+      console.error('Error saving program resource mappings:', error);
+      if (error.code === '23505') {
+        return res.status(409).json({ error: 'Each XER resource can only be mapped once' });
+      }
+      res.status(500).json({ error: 'Failed to save resource mappings' });
+    }
+  });
+
   // Update program (baseline status, comments)
-  app.patch('/api/programs/:programId', isAuthenticated, async (req, res) => {
+  app.patch('/api/programs/:programId', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.program()), async (req, res) => {
     try {
       const { programId } = req.params;
       const { isContractBaseline, isBaselineApproved, comments } = req.body;
@@ -6519,7 +7264,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Delete program
-  app.delete('/api/programs/:programId', isAuthenticated, async (req, res) => {
+  app.delete('/api/programs/:programId', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.program()), async (req, res) => {
     try {
       const { programId } = req.params;
 
@@ -6553,7 +7298,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Download program XER file
-  app.get('/api/programs/:programId/download', isAuthenticated, async (req, res) => {
+  app.get('/api/programs/:programId/download', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.program()), async (req, res) => {
     try {
       const { programId } = req.params;
 
@@ -6583,7 +7328,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // === RISK REGISTER ENDPOINTS ===
 
   // Get all risk register revisions for a project
-  app.get('/api/projects/:projectId/risk-revisions', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/risk-revisions', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       
@@ -6606,7 +7351,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get active risk register revision for a project
-  app.get('/api/projects/:projectId/risk-revisions/active', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/risk-revisions/active', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       
@@ -6653,7 +7398,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create new risk register revision (copies from previous active revision)
-  app.post('/api/projects/:projectId/risk-revisions', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/risk-revisions', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const personId = (req as any).person.id;
@@ -6727,6 +7472,18 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
               riskId: newRisk.id,
             });
           }
+
+          // Carry correlation group memberships over to the copied risk
+          const oldMemberships = await tx
+            .select()
+            .from(riskCorrelationMemberships)
+            .where(eq(riskCorrelationMemberships.riskId, oldRisk.id));
+
+          if (oldMemberships.length > 0) {
+            await tx.insert(riskCorrelationMemberships).values(
+              oldMemberships.map(m => ({ riskId: newRisk.id, groupId: m.groupId }))
+            );
+          }
         }
 
         res.status(201).json(newRevision);
@@ -6738,7 +7495,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get all risks for a project's active revision
-  app.get('/api/projects/:projectId/risks', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/risks', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { revisionId } = req.query;
@@ -6779,7 +7536,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create a new risk in the active revision
-  app.post('/api/projects/:projectId/risks', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/risks', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const personId = (req as any).person.id;
@@ -6838,10 +7595,10 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
       const [newRisk] = await db
         .insert(risks)
         .values({
+          ...req.body,
           revisionId: activeRevision.id,
           riskNumber: newRiskNumber,
           createdById: personId,
-          ...req.body,
         })
         .returning();
       
@@ -6856,7 +7613,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get a single risk with full details
-  app.get('/api/risks/:riskId', isAuthenticated, async (req, res) => {
+  app.get('/api/risks/:riskId', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.risk()), async (req, res) => {
     try {
       const { riskId } = req.params;
       const [risk] = await db
@@ -6877,12 +7634,13 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update a risk
-  app.patch('/api/risks/:riskId', isAuthenticated, async (req, res) => {
+  app.patch('/api/risks/:riskId', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.risk()), async (req, res) => {
     try {
       const { riskId } = req.params;
+      const { revisionId: _revisionId, ...updates } = req.body;
       const [updatedRisk] = await db
         .update(risks)
-        .set({ ...req.body, updatedAt: new Date() })
+        .set({ ...updates, updatedAt: new Date() })
         .where(eq(risks.id, riskId))
         .returning();
       
@@ -6909,7 +7667,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Delete a risk
-  app.delete('/api/risks/:riskId', isAuthenticated, async (req, res) => {
+  app.delete('/api/risks/:riskId', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.risk()), async (req, res) => {
     try {
       const { riskId } = req.params;
       
@@ -6936,7 +7694,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // AI-powered distribution analysis for a single risk
-  app.post('/api/risks/:riskId/ai-distribution', isAuthenticated, async (req, res) => {
+  app.post('/api/risks/:riskId/ai-distribution', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.risk()), async (req, res) => {
     try {
       const { riskId } = req.params;
       const { modelName, operationId } = req.body; // Optional: specify AI model and operation ID
@@ -7067,7 +7825,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // AI-powered bulk distribution analysis for multiple risks
-  app.post('/api/projects/:projectId/risks/ai-distribution-bulk', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/risks/ai-distribution-bulk', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { revisionId, modelName } = req.body;
@@ -7223,10 +7981,14 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Run Monte Carlo simulation for risk quantification
-  app.post('/api/projects/:projectId/monte-carlo', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/monte-carlo', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
-      const { revisionId, monteCarloIterations, targetPercentile } = req.body;
+      const { revisionId, monteCarloIterations, targetPercentile, seed } = req.body;
+      
+      if (seed !== undefined && seed !== null && (!Number.isInteger(seed) || seed < 0 || seed > 0x7FFFFFFF)) {
+        return res.status(400).json({ error: 'Seed must be a non-negative 31-bit integer' });
+      }
       
       // Get target revision
       let targetRevisionId = revisionId;
@@ -7296,8 +8058,28 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
         });
       }
       
+      // Load correlation groups with their members in this revision
+      const correlationGroups = await db
+        .select()
+        .from(riskCorrelationGroups)
+        .where(eq(riskCorrelationGroups.projectId, projectId));
+      const memberships = correlationGroups.length > 0
+        ? await db
+            .select()
+            .from(riskCorrelationMemberships)
+            .where(inArray(riskCorrelationMemberships.groupId, correlationGroups.map(g => g.id)))
+        : [];
+      
+      // Seed precedence: explicit request > project quant settings > fresh random seed
+      const [projectQuantSettings] = await db
+        .select({ seed: quantSettings.seed })
+        .from(quantSettings)
+        .where(eq(quantSettings.projectId, projectId))
+        .limit(1);
+      
       // Run Monte Carlo simulation
-      const { runMonteCarloSimulation } = await import('./monteCarlo');
+      const { runMonteCarloSimulation, generateSeed } = await import('./monteCarlo');
+      const runSeed = seed ?? projectQuantSettings?.seed ?? generateSeed();
       const results = runMonteCarloSimulation(
         validRisks.map(r => ({
           id: r.id,
@@ -7308,17 +8090,29 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
           pessimisticP90: r.pessimisticP90!,
           probability: r.probability!,
           distributionModel: r.distributionModel as any,
+          scheduleOptimisticP10: r.scheduleOptimisticP10,
+          scheduleLikelyP50: r.scheduleLikelyP50,
+          schedulePessimisticP90: r.schedulePessimisticP90,
         })),
         monteCarloSettings.iterations,
-        monteCarloSettings.targetPercentile
+        monteCarloSettings.targetPercentile,
+        correlationGroups.map(g => ({
+          id: g.id,
+          name: g.name,
+          correlation: g.correlation / 100,
+          riskIds: memberships.filter(m => m.groupId === g.id).map(m => m.riskId),
+        })),
+        runSeed
       );
       
       // Save simulation snapshot to database for dashboard display
-      await db.insert(monteCarloSnapshots).values({
+      const [snapshot] = await db.insert(monteCarloSnapshots).values({
         revisionId: targetRevisionId,
         projectId,
         iterations: monteCarloSettings.iterations,
         targetPercentile: monteCarloSettings.targetPercentile,
+        seed: results.seed,
+        inputHash: results.inputHash,
         p10: Math.round(results.p10),
         p50: Math.round(results.p50),
         p90: Math.round(results.p90),
@@ -7329,10 +8123,40 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
         distribution: results.distribution as any,
         percentileTable: results.percentileTable as any,
         sensitivityAnalysis: results.sensitivityAnalysis as any,
+        scheduleP10: results.schedule ? Math.round(results.schedule.p10) : null,
+        scheduleP50: results.schedule ? Math.round(results.schedule.p50) : null,
+        scheduleP90: results.schedule ? Math.round(results.schedule.p90) : null,
+        scheduleMean: results.schedule ? Math.round(results.schedule.mean) : null,
+        scheduleTargetValue: results.schedule ? Math.round(results.schedule.targetValue) : null,
+        scheduleDistribution: results.schedule?.distribution as any ?? null,
+        schedulePercentileTable: results.schedule?.percentileTable as any ?? null,
+        scheduleSensitivityAnalysis: results.schedule?.sensitivityAnalysis as any ?? null,
+        jointSamples: results.schedule ? results.jointSamples as any : null,
+        jointTargetConfidence: results.jointTargetConfidence != null ? Math.round(results.jointTargetConfidence * 100) : null,
+        correlationImpact: results.correlationImpact as any,
+      }).returning({ id: monteCarloSnapshots.id });
+      
+      // Record the run summary (cost and schedule P-values) for project-level reporting
+      const person = (req as any).person;
+      await db.insert(monteCarloResults).values({
+        projectId,
+        iterations: monteCarloSettings.iterations,
+        costP10: Math.round(results.p10),
+        costP50: Math.round(results.p50),
+        costP90: Math.round(results.p90),
+        scheduleP10: results.schedule ? Math.round(results.schedule.p10) : null,
+        scheduleP50: results.schedule ? Math.round(results.schedule.p50) : null,
+        scheduleP90: results.schedule ? Math.round(results.schedule.p90) : null,
+        tornadoData: {
+          cost: results.sensitivityAnalysis.slice(0, 10),
+          schedule: results.schedule?.sensitivityAnalysis.slice(0, 10) ?? [],
+        },
+        runById: person.id,
       });
       
       res.json({
         ...results,
+        snapshotId: snapshot.id,
         settings: monteCarloSettings,
         risksAnalyzed: validRisks.length,
         totalRisks: projectRisks.length,
@@ -7346,7 +8170,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get latest Monte Carlo simulation snapshot for a project
-  app.get('/api/projects/:projectId/monte-carlo/latest', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/monte-carlo/latest', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       
@@ -7371,8 +8195,224 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
     }
   });
 
+  // List Monte Carlo snapshots for a project (summary fields only, newest first)
+  app.get('/api/projects/:projectId/monte-carlo/snapshots', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      
+      const snapshots = await db
+        .select({
+          id: monteCarloSnapshots.id,
+          revisionId: monteCarloSnapshots.revisionId,
+          revisionNumber: riskRegisterRevisions.revisionNumber,
+          revisionName: riskRegisterRevisions.revisionName,
+          iterations: monteCarloSnapshots.iterations,
+          targetPercentile: monteCarloSnapshots.targetPercentile,
+          seed: monteCarloSnapshots.seed,
+          inputHash: monteCarloSnapshots.inputHash,
+          p50: monteCarloSnapshots.p50,
+          p90: monteCarloSnapshots.p90,
+          targetValue: monteCarloSnapshots.targetValue,
+          createdAt: monteCarloSnapshots.createdAt,
+        })
+        .from(monteCarloSnapshots)
+        .innerJoin(riskRegisterRevisions, eq(monteCarloSnapshots.revisionId, riskRegisterRevisions.id))
+        .where(eq(monteCarloSnapshots.projectId, projectId))
+        .orderBy(desc(monteCarloSnapshots.createdAt))
+        .limit(50);
+      
+      res.json(snapshots);
+    } catch (error: any) {
+      console.error('Error fetching Monte Carlo snapshots:', error);
+      res.status(500).json({ 
+        error: error.message || 'Failed to fetch Monte Carlo snapshots' 
+      });
+    }
+  });
+
+  // Compare two Monte Carlo snapshots (?base=<snapshotId>&compare=<snapshotId>)
+  app.get('/api/projects/:projectId/monte-carlo/compare', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { base, compare } = req.query;
+      
+      if (typeof base !== 'string' || typeof compare !== 'string') {
+        return res.status(400).json({ error: 'base and compare snapshot IDs are required' });
+      }
+      
+      const snapshots = await db
+        .select()
+        .from(monteCarloSnapshots)
+        .where(and(
+          eq(monteCarloSnapshots.projectId, projectId),
+          inArray(monteCarloSnapshots.id, [base, compare])
+        ));
+      
+      const baseSnapshot = snapshots.find(s => s.id === base);
+      const compareSnapshot = snapshots.find(s => s.id === compare);
+      
+      if (!baseSnapshot || !compareSnapshot) {
+        return res.status(404).json({ error: 'Snapshot not found for this project' });
+      }
+      
+      const { compareSnapshots } = await import('./monteCarloComparison');
+      res.json(compareSnapshots(baseSnapshot, compareSnapshot));
+    } catch (error: any) {
+      console.error('Error comparing Monte Carlo snapshots:', error);
+      res.status(500).json({ 
+        error: error.message || 'Failed to compare Monte Carlo snapshots' 
+      });
+    }
+  });
+
+  // === RISK CORRELATION GROUPS ===
+
+  // Get correlation groups for a project, with member risk IDs
+  app.get('/api/projects/:projectId/risk-correlation-groups', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const groups = await db
+        .select()
+        .from(riskCorrelationGroups)
+        .where(eq(riskCorrelationGroups.projectId, projectId))
+        .orderBy(asc(riskCorrelationGroups.name));
+
+      const memberships = groups.length > 0
+        ? await db
+            .select()
+            .from(riskCorrelationMemberships)
+            .where(inArray(riskCorrelationMemberships.groupId, groups.map(g => g.id)))
+        : [];
+
+      res.json(groups.map(group => ({
+        ...group,
+        riskIds: memberships.filter(m => m.groupId === group.id).map(m => m.riskId),
+      })));
+    } catch (error) {
+      console.error('Error fetching risk correlation groups:', error);
+      res.status(500).json({ error: 'Failed to fetch risk correlation groups' });
+    }
+  });
+
+  // Create a correlation group
+  app.post('/api/projects/:projectId/risk-correlation-groups', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const validatedData = insertRiskCorrelationGroupSchema.parse({ ...req.body, projectId });
+
+      if (validatedData.correlation != null && (validatedData.correlation < 0 || validatedData.correlation > 100)) {
+        return res.status(400).json({ error: 'Correlation must be between 0 and 100' });
+      }
+
+      const [group] = await db
+        .insert(riskCorrelationGroups)
+        .values(validatedData)
+        .returning();
+
+      res.status(201).json({ ...group, riskIds: [] });
+    } catch (error) {
+      console.error('Error creating risk correlation group:', error);
+      res.status(500).json({ error: 'Failed to create risk correlation group' });
+    }
+  });
+
+  // Update a correlation group's name or coefficient
+  app.patch('/api/risk-correlation-groups/:groupId', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.riskCorrelationGroup()), async (req, res) => {
+    try {
+      const { groupId } = req.params;
+      const { name, correlation } = req.body;
+
+      if (correlation !== undefined && (typeof correlation !== 'number' || correlation < 0 || correlation > 100)) {
+        return res.status(400).json({ error: 'Correlation must be between 0 and 100' });
+      }
+
+      const [updated] = await db
+        .update(riskCorrelationGroups)
+        .set({
+          ...(name !== undefined && { name }),
+          ...(correlation !== undefined && { correlation: Math.round(correlation) }),
+        })
+        .where(eq(riskCorrelationGroups.id, groupId))
+        .returning();
+
+      if (!updated) {
+        return res.status(404).json({ error: 'Correlation group not found' });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error('Error updating risk correlation group:', error);
+      res.status(500).json({ error: 'Failed to update risk correlation group' });
+    }
+  });
+
+  // Replace the member risks of a correlation group
+  app.put('/api/risk-correlation-groups/:groupId/members', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.riskCorrelationGroup()), async (req, res) => {
+    try {
+      const { groupId } = req.params;
+      const { riskIds } = req.body;
+
+      if (!Array.isArray(riskIds)) {
+        return res.status(400).json({ error: 'riskIds must be an array' });
+      }
+
+      const [group] = await db
+        .select()
+        .from(riskCorrelationGroups)
+        .where(eq(riskCorrelationGroups.id, groupId))
+        .limit(1);
+
+      if (!group) {
+        return res.status(404).json({ error: 'Correlation group not found' });
+      }
+
+      // Members must be risks of the group's project
+      const uniqueRiskIds = Array.from(new Set<string>(riskIds));
+      if (uniqueRiskIds.length > 0) {
+        const projectRisks = await db
+          .select({ id: risks.id })
+          .from(risks)
+          .innerJoin(riskRegisterRevisions, eq(risks.revisionId, riskRegisterRevisions.id))
+          .where(and(
+            inArray(risks.id, uniqueRiskIds),
+            eq(riskRegisterRevisions.projectId, group.projectId)
+          ));
+
+        if (projectRisks.length !== uniqueRiskIds.length) {
+          return res.status(400).json({ error: 'All risks must belong to the group\'s project' });
+        }
+      }
+
+      await db.transaction(async (tx) => {
+        await tx.delete(riskCorrelationMemberships).where(eq(riskCorrelationMemberships.groupId, groupId));
+        if (uniqueRiskIds.length > 0) {
+          await tx.insert(riskCorrelationMemberships).values(
+            uniqueRiskIds.map(riskId => ({ riskId, groupId }))
+          );
+        }
+      });
+
+      res.json({ ...group, riskIds: uniqueRiskIds });
+    } catch (error) {
+      console.error('Error updating risk correlation group members:', error);
+      res.status(500).json({ error: 'Failed to update risk correlation group members' });
+    }
+  });
+
+  // Delete a correlation group (memberships cascade)
+  app.delete('/api/risk-correlation-groups/:groupId', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.riskCorrelationGroup()), async (req, res) => {
+    try {
+      const { groupId } = req.params;
+      await db.delete(riskCorrelationGroups).where(eq(riskCorrelationGroups.id, groupId));
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting risk correlation group:', error);
+      res.status(500).json({ error: 'Failed to delete risk correlation group' });
+    }
+  });
+
   // AI Risk Analysis - Generate risks from contract documents
-  app.post('/api/projects/:projectId/ai-risk-analysis', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/ai-risk-analysis', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { aiModel, operationId } = req.body;
@@ -7422,7 +8462,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // AI Risk Chat - Interactive risk development
-  app.post('/api/projects/:projectId/ai-risk-chat', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/ai-risk-chat', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { messages, aiModel } = req.body;
@@ -7489,7 +8529,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update Monte Carlo settings for a revision
-  app.patch('/api/risk-revisions/:revisionId/monte-carlo-settings', isAuthenticated, async (req, res) => {
+  app.patch('/api/risk-revisions/:revisionId/monte-carlo-settings', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.riskRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       const { monteCarloIterations, targetPercentile } = req.body;
@@ -7512,7 +8552,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get actions for a risk
-  app.get('/api/risks/:riskId/actions', isAuthenticated, async (req, res) => {
+  app.get('/api/risks/:riskId/actions', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.risk()), async (req, res) => {
     try {
       const { riskId } = req.params;
       const actions = await db
@@ -7529,7 +8569,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create a risk action
-  app.post('/api/risks/:riskId/actions', isAuthenticated, async (req, res) => {
+  app.post('/api/risks/:riskId/actions', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.risk()), async (req, res) => {
     try {
       const { riskId } = req.params;
       const personId = (req as any).person.id;
@@ -7537,9 +8577,9 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
       const [newAction] = await db
         .insert(riskActions)
         .values({
+          ...req.body,
           riskId,
           createdById: personId,
-          ...req.body,
         })
         .returning();
       
@@ -7551,12 +8591,13 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update a risk action
-  app.patch('/api/actions/:actionId', isAuthenticated, async (req, res) => {
+  app.patch('/api/actions/:actionId', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.riskAction()), async (req, res) => {
     try {
       const { actionId } = req.params;
+      const { riskId: _riskId, ...updates } = req.body;
       const [updatedAction] = await db
         .update(riskActions)
-        .set({ ...req.body, updatedAt: new Date() })
+        .set({ ...updates, updatedAt: new Date() })
         .where(eq(riskActions.id, actionId))
         .returning();
       
@@ -7666,7 +8707,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get quantitative settings for a project
-  app.get('/api/projects/:projectId/quant-settings', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/quant-settings', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const [settings] = await db
@@ -7681,6 +8722,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
           enabled: false,
           iterations: 5000,
           confidence: 90,
+          seed: null,
         });
       }
       
@@ -7692,20 +8734,21 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update quantitative settings
-  app.put('/api/projects/:projectId/quant-settings', isAuthenticated, async (req, res) => {
+  app.put('/api/projects/:projectId/quant-settings', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       
       const [settings] = await db
         .insert(quantSettings)
         .values({
-          projectId,
           ...req.body,
+          projectId,
         })
         .onConflictDoUpdate({
           target: quantSettings.projectId,
           set: {
             ...req.body,
+            projectId,
             updatedAt: new Date(),
           },
         })
@@ -7721,7 +8764,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // === RISK RATING REFERENCE TABLES ===
   
   // Get likelihood scales for a project
-  app.get('/api/projects/:projectId/likelihood-scales', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/likelihood-scales', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const scales = await db
@@ -7738,12 +8781,13 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update a likelihood scale
-  app.patch('/api/likelihood-scales/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/likelihood-scales/:id', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.likelihoodScale()), async (req, res) => {
     try {
       const { id } = req.params;
+      const { projectId: _projectId, ...updates } = req.body;
       const [updated] = await db
         .update(likelihoodScales)
-        .set(req.body)
+        .set(updates)
         .where(eq(likelihoodScales.id, id))
         .returning();
       
@@ -7759,7 +8803,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get consequence scales for a project
-  app.get('/api/projects/:projectId/consequence-scales', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/consequence-scales', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const scales = await db
@@ -7776,12 +8820,13 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update a consequence scale
-  app.patch('/api/consequence-scales/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/consequence-scales/:id', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.consequenceScale()), async (req, res) => {
     try {
       const { id } = req.params;
+      const { projectId: _projectId, ...updates } = req.body;
       const [updated] = await db
         .update(consequenceScales)
-        .set(req.body)
+        .set(updates)
         .where(eq(consequenceScales.id, id))
         .returning();
       
@@ -7797,7 +8842,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get heatmap matrix for a project
-  app.get('/api/projects/:projectId/heatmap-matrix', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/heatmap-matrix', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const matrix = await db
@@ -7814,12 +8859,13 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update a heatmap matrix cell
-  app.patch('/api/heatmap-matrix/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/heatmap-matrix/:id', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.heatmapCell()), async (req, res) => {
     try {
       const { id } = req.params;
+      const { projectId: _projectId, ...updates } = req.body;
       const [updated] = await db
         .update(heatmapMatrix)
-        .set(req.body)
+        .set(updates)
         .where(eq(heatmapMatrix.id, id))
         .returning();
       
@@ -7837,7 +8883,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // === DOA ESCALATION MATRIX ===
   
   // Get DOA escalation matrix for a project
-  app.get('/api/projects/:projectId/doa-matrix', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/doa-matrix', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const matrix = await db
@@ -7854,7 +8900,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create or update a DOA escalation rule
-  app.post('/api/projects/:projectId/doa-matrix', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/doa-matrix', isAuthenticated, requirePermission(PERMISSIONS.PROJECT_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { band, riskOrOpportunity, ...data } = req.body;
@@ -7884,12 +8930,13 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update a DOA escalation rule
-  app.patch('/api/doa-matrix/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/doa-matrix/:id', isAuthenticated, requirePermission(PERMISSIONS.PROJECT_MANAGE, scopes.doaRow()), async (req, res) => {
     try {
       const { id } = req.params;
+      const { projectId: _projectId, ...updates } = req.body;
       const [updated] = await db
         .update(doaEscalationMatrix)
-        .set(req.body)
+        .set(updates)
         .where(eq(doaEscalationMatrix.id, id))
         .returning();
       
@@ -7905,7 +8952,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Delete a DOA escalation rule
-  app.delete('/api/doa-matrix/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/doa-matrix/:id', isAuthenticated, requirePermission(PERMISSIONS.PROJECT_MANAGE, scopes.doaRow()), async (req, res) => {
     try {
       const { id } = req.params;
       await db.delete(doaEscalationMatrix).where(eq(doaEscalationMatrix.id, id));
@@ -7919,7 +8966,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // === CONSEQUENCE TYPES ===
   
   // Get consequence types for a project
-  app.get('/api/projects/:projectId/consequence-types', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/consequence-types', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const types = await db
@@ -7936,14 +8983,14 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Create a new consequence type
-  app.post('/api/projects/:projectId/consequence-types', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/consequence-types', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const [newType] = await db
         .insert(consequenceTypes)
         .values({
-          projectId,
           ...req.body,
+          projectId,
         })
         .returning();
       
@@ -7967,12 +9014,13 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update a consequence type
-  app.patch('/api/consequence-types/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/consequence-types/:id', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.consequenceType()), async (req, res) => {
     try {
       const { id } = req.params;
+      const { projectId: _projectId, ...updates } = req.body;
       const [updated] = await db
         .update(consequenceTypes)
-        .set(req.body)
+        .set(updates)
         .where(eq(consequenceTypes.id, id))
         .returning();
       
@@ -7988,7 +9036,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Delete a consequence type (and its ratings cascade)
-  app.delete('/api/projects/:projectId/consequence-types/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/projects/:projectId/consequence-types/:id', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.consequenceType()), async (req, res) => {
     try {
       const { projectId, id } = req.params;
       
@@ -8021,7 +9069,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // === CONSEQUENCE RATINGS ===
   
   // Get all consequence ratings for a project (includes type info)
-  app.get('/api/projects/:projectId/consequence-ratings', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/consequence-ratings', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const ratings = await db
@@ -8047,13 +9095,14 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Update a consequence rating
-  app.patch('/api/consequence-ratings/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/consequence-ratings/:id', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.consequenceRating()), async (req, res) => {
     try {
       const { id } = req.params;
+      const { consequenceTypeId: _consequenceTypeId, ...updates } = req.body;
       const [updated] = await db
         .update(consequenceRatings)
         .set({
-          ...req.body,
+          ...updates,
           updatedAt: new Date(),
         })
         .where(eq(consequenceRatings.id, id))
@@ -8071,7 +9120,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Upsert consequence rating (create or update by type and level)
-  app.put('/api/projects/:projectId/consequence-ratings', isAuthenticated, async (req, res) => {
+  app.put('/api/projects/:projectId/consequence-ratings', isAuthenticated, requirePermission(PERMISSIONS.RISK_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { consequenceTypeId, level, description } = req.body;
@@ -8134,7 +9183,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // === eDiscovery API ===
 
   // Upload PST file
-  app.post('/api/ediscovery/uploads', isAuthenticated, upload.single('file'), async (req, res) => {
+  app.post('/api/ediscovery/uploads', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_MANAGE, scopes.projectBodyOrOwnCompany()), upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
@@ -8179,7 +9228,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Start PST ingestion
-  app.post('/api/ediscovery/ingest/:id', isAuthenticated, async (req, res) => {
+  app.post('/api/ediscovery/ingest/:id', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_MANAGE, scopes.ediscoveryUpload()), async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as any;
@@ -8221,7 +9270,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get upload status
-  app.get('/api/ediscovery/uploads/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/ediscovery/uploads/:id', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_VIEW, scopes.ediscoveryUpload()), async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as any;
@@ -8248,7 +9297,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Search emails with hybrid search
-  app.get('/api/ediscovery/emails', isAuthenticated, async (req, res) => {
+  app.get('/api/ediscovery/emails', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_VIEW, scopes.projectQuery()), async (req, res) => {
     try {
       const user = req.user as any;
       const {
@@ -8260,6 +9309,8 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
         dateFrom,
         dateTo,
         hasAttachments,
+        collapseThreads,
+        includeDuplicates,
         limit = '50',
         offset = '0',
       } = req.query;
@@ -8294,29 +9345,78 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
         conditions.push(eq(ediscoveryEmails.hasAttachments, false));
       }
 
-      // Add text search if query provided
+      // Add text search if query provided (attachment names and extracted text included)
       if (q) {
+        const { ediscoveryAttachments } = await import('@shared/schema');
         conditions.push(
           sql`(
             ${ediscoveryEmails.subject} ILIKE ${`%${q}%`} OR
             ${ediscoveryEmails.bodyText} ILIKE ${`%${q}%`} OR
-            ${ediscoveryEmails.fromAddress} ILIKE ${`%${q}%`}
+            ${ediscoveryEmails.fromAddress} ILIKE ${`%${q}%`} OR
+            EXISTS (
+              SELECT 1 FROM ${ediscoveryAttachments}
+              WHERE ${ediscoveryAttachments.emailId} = ${ediscoveryEmails.id}
+              AND (${ediscoveryAttachments.filename} ILIKE ${`%${q}%`} OR ${ediscoveryAttachments.extractedText} ILIKE ${`%${q}%`})
+            )
           )`
         );
       }
 
+      // Copies of the same email from overlapping PSTs are hidden unless requested
+      if (includeDuplicates !== 'true') {
+        conditions.push(isNull(ediscoveryEmails.duplicateOfId));
+      }
+
+      const emailFields = {
+        id: ediscoveryEmails.id,
+        subject: ediscoveryEmails.subject,
+        fromAddress: ediscoveryEmails.fromAddress,
+        toAddresses: ediscoveryEmails.toAddresses,
+        sentAt: ediscoveryEmails.sentAt,
+        snippet: ediscoveryEmails.snippet,
+        hasAttachments: ediscoveryEmails.hasAttachments,
+        sourceFilename: ediscoveryEmails.sourceFilename,
+        threadId: ediscoveryEmails.threadId,
+        isInclusive: ediscoveryEmails.isInclusive,
+        duplicateOfId: ediscoveryEmails.duplicateOfId,
+        duplicateType: ediscoveryEmails.duplicateType,
+        // Messages in the thread, excluding duplicates
+        threadSize: sql<number>`(
+          SELECT count(*)::int FROM ${ediscoveryEmails} thread_email
+          WHERE thread_email.thread_id = ${ediscoveryEmails.threadId}
+          AND thread_email.duplicate_of_id IS NULL
+        )`.as('thread_size'),
+      };
+
+      if (collapseThreads === 'true') {
+        // One row per thread: its most inclusive matching message (the latest inclusive one)
+        const threadKey = sql`coalesce(${ediscoveryEmails.threadId}, ${ediscoveryEmails.id})`;
+        const ranked = db
+          .select({
+            ...emailFields,
+            threadRank: sql<number>`row_number() over (partition by ${threadKey} order by ${ediscoveryEmails.isInclusive} desc, ${ediscoveryEmails.sentAt} desc nulls last)`.as('thread_rank'),
+            threadMatchCount: sql<number>`(count(*) over (partition by ${threadKey}))::int`.as('thread_match_count'),
+          })
+          .from(ediscoveryEmails)
+          .innerJoin(ediscoveryUploads, eq(ediscoveryEmails.uploadId, ediscoveryUploads.id))
+          .where(and(...conditions))
+          .as('ranked');
+
+        const rows = await db
+          .select()
+          .from(ranked)
+          .where(eq(ranked.threadRank, 1))
+          .orderBy(asc(ranked.sentAt))
+          .limit(parseInt(String(limit)))
+          .offset(parseInt(String(offset)));
+
+        const items = rows.map(({ threadRank, ...row }) => row);
+        return res.json({ items, total: items.length });
+      }
+
       // Query with join to ediscoveryUploads to filter by projectId
       const results = await db
-        .select({
-          id: ediscoveryEmails.id,
-          subject: ediscoveryEmails.subject,
-          fromAddress: ediscoveryEmails.fromAddress,
-          toAddresses: ediscoveryEmails.toAddresses,
-          sentAt: ediscoveryEmails.sentAt,
-          snippet: ediscoveryEmails.snippet,
-          hasAttachments: ediscoveryEmails.hasAttachments,
-          sourceFilename: ediscoveryEmails.sourceFilename,
-        })
+        .select(emailFields)
         .from(ediscoveryEmails)
         .innerJoin(ediscoveryUploads, eq(ediscoveryEmails.uploadId, ediscoveryUploads.id))
         .where(and(...conditions))
@@ -8332,15 +9432,14 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get email details with attachments
-  app.get('/api/ediscovery/emails/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/ediscovery/emails/:id', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_VIEW, scopes.ediscoveryEmail('id')), async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as any;
 
       const { ediscoveryEmails, ediscoveryAttachments } = await import('@shared/schema');
 
-      // Get email - just check it exists, no company filtering needed
-      // (emails are accessed through projects which already have access control)
+      // Company/project access is enforced by requirePermission (scopes.ediscoveryEmail)
       const [email] = await db
         .select()
         .from(ediscoveryEmails)
@@ -8351,9 +9450,16 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
         return res.status(404).json({ error: 'Email not found' });
       }
 
-      // Get attachments
+      // Get attachments (extracted text is only used for search)
       const attachments = await db
-        .select()
+        .select({
+          id: ediscoveryAttachments.id,
+          filename: ediscoveryAttachments.filename,
+          contentType: ediscoveryAttachments.contentType,
+          sizeBytes: ediscoveryAttachments.sizeBytes,
+          sha256: ediscoveryAttachments.sha256,
+          hasText: sql<boolean>`${ediscoveryAttachments.extractedText} IS NOT NULL`,
+        })
         .from(ediscoveryAttachments)
         .where(eq(ediscoveryAttachments.emailId, id));
 
@@ -8364,15 +9470,114 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
     }
   });
 
+  // Get the emails in an email's thread, including copies from other PSTs
+  app.get('/api/ediscovery/emails/:id/thread', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_VIEW, scopes.ediscoveryEmail('id')), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as any;
+
+      const { ediscoveryEmails } = await import('@shared/schema');
+
+      const [email] = await db
+        .select({ id: ediscoveryEmails.id, threadId: ediscoveryEmails.threadId })
+        .from(ediscoveryEmails)
+        .where(eq(ediscoveryEmails.id, id))
+        .limit(1);
+
+      if (!email) {
+        return res.status(404).json({ error: 'Email not found' });
+      }
+
+      // Emails not yet threaded are a thread of their own
+      const items = await db
+        .select({
+          id: ediscoveryEmails.id,
+          subject: ediscoveryEmails.subject,
+          fromAddress: ediscoveryEmails.fromAddress,
+          sentAt: ediscoveryEmails.sentAt,
+          snippet: ediscoveryEmails.snippet,
+          hasAttachments: ediscoveryEmails.hasAttachments,
+          sourceFilename: ediscoveryEmails.sourceFilename,
+          isInclusive: ediscoveryEmails.isInclusive,
+          duplicateOfId: ediscoveryEmails.duplicateOfId,
+          duplicateType: ediscoveryEmails.duplicateType,
+          duplicateSimilarity: ediscoveryEmails.duplicateSimilarity,
+        })
+        .from(ediscoveryEmails)
+        .where(and(
+          eq(ediscoveryEmails.companyId, user.companyId),
+          email.threadId ? eq(ediscoveryEmails.threadId, email.threadId) : eq(ediscoveryEmails.id, email.id)
+        ))
+        .orderBy(asc(ediscoveryEmails.sentAt));
+
+      res.json({ threadId: email.threadId, items });
+    } catch (error) {
+      console.error('Error getting email thread:', error);
+      res.status(500).json({ error: 'Failed to get email thread' });
+    }
+  });
+
+  // Rebuild threads and duplicate detection for a project's emails
+  app.post('/api/ediscovery/rebuild-threads/:projectId', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_MANAGE, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+
+      const { rebuildThreadsAndDuplicates } = await import('./ediscoveryThreading');
+      const result = await rebuildThreadsAndDuplicates(projectId);
+
+      res.json(result);
+    } catch (error) {
+      console.error('Error rebuilding email threads:', error);
+      res.status(500).json({ error: 'Failed to rebuild email threads' });
+    }
+  });
+
+  // Download an email attachment
+  app.get('/api/ediscovery/emails/:emailId/attachments/:attachmentId/download', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_VIEW, scopes.ediscoveryEmail()), async (req, res) => {
+    try {
+      const { emailId, attachmentId } = req.params;
+
+      const { ediscoveryAttachments } = await import('@shared/schema');
+      const [attachment] = await db
+        .select()
+        .from(ediscoveryAttachments)
+        .where(and(
+          eq(ediscoveryAttachments.id, attachmentId),
+          eq(ediscoveryAttachments.emailId, emailId)
+        ))
+        .limit(1);
+
+      if (!attachment) {
+        return res.status(404).json({ error: 'Attachment not found' });
+      }
+
+      const objectStorage = new ObjectStorageService();
+      const buffer = await objectStorage.downloadFile(attachment.storageKey);
+
+      res.setHeader('Content-Type', attachment.contentType || 'application/octet-stream');
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`);
+      res.send(buffer);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        // Attachments ingested before files were stored have metadata only
+        return res.status(404).json({ error: 'Attachment file not stored' });
+      }
+      console.error('Error downloading attachment:', error);
+      res.status(500).json({ error: 'Failed to download attachment' });
+    }
+  });
+
   // Get all uploads for company
-  app.get('/api/ediscovery/uploads', isAuthenticated, async (req, res) => {
+  app.get('/api/ediscovery/uploads', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_VIEW), async (req, res) => {
     try {
       const { ediscoveryUploads } = await import('@shared/schema');
       
-      // Return all uploads - frontend will filter by project
+      // Return all uploads for the user's company - frontend will filter by project
+      const tenantId = tenantCompanyId(req);
       const uploads = await db
         .select()
         .from(ediscoveryUploads)
+        .where(tenantId !== null ? eq(ediscoveryUploads.companyId, tenantId) : undefined)
         .orderBy(desc(ediscoveryUploads.createdAt));
 
       res.json(uploads);
@@ -8383,7 +9588,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Scan SharePoint folder for PST files
-  app.post('/api/ediscovery/scan-pst-folder/:projectId', isAuthenticated, async (req, res) => {
+  app.post('/api/ediscovery/scan-pst-folder/:projectId', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const user = req.user as any;
@@ -8427,7 +9632,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get unique sender email addresses for a project
-  app.get('/api/ediscovery/senders/:projectId', isAuthenticated, async (req, res) => {
+  app.get('/api/ediscovery/senders/:projectId', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const user = req.user as any;
@@ -8457,33 +9662,22 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // AI-powered semantic search for emails
-  app.post('/api/ediscovery/semantic-search', isAuthenticated, async (req, res) => {
+  app.post('/api/ediscovery/semantic-search', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_VIEW, scopes.projectBody()), async (req, res) => {
     try {
-      const { query, projectId, sourceFilename, tags, limit = 10, dateFrom, dateTo, sender, hasAttachments } = req.body;
+      const { query, projectId, sourceFilename, tags, limit = 10, dateFrom, dateTo, sender, hasAttachments, includeDuplicates } = req.body;
       const user = req.user as any;
 
       if (!query || !query.trim()) {
         return res.status(400).json({ error: 'Search query is required' });
       }
 
-      // Generate embedding for search query using Voyage AI
-      const { VoyageAIClient } = await import('voyageai');
-      const voyage = new VoyageAIClient({ apiKey: process.env.VOYAGE_API_KEY });
-      
-      const embeddingResponse = await voyage.embed({
-        input: [query],
-        model: 'voyage-3-lite', // Use voyage-3-lite for email search
-        inputType: 'query' // "query" for search queries vs "document" for indexing
-      });
-      
-      const queryEmbedding = embeddingResponse.data?.[0]?.embedding || [];
-
-      // Search emails using vector similarity
+      // Hybrid search: full-text ranking and vector similarity fused by rank
       const { ediscoveryEmails, ediscoveryEmailTags, ediscoveryUploads } = await import('@shared/schema');
-      const { gte, lte, like } = await import('drizzle-orm');
+      const { gte, lte, like, exists } = await import('drizzle-orm');
+      const { searchEmails } = await import('./hybridSearch');
       
       // Build conditions (PST files belong to projects, not companies)
-      const conditions: any[] = [];
+      const conditions: SQL[] = [];
       
       if (sourceFilename) {
         conditions.push(eq(ediscoveryEmails.sourceFilename, sourceFilename));
@@ -8511,158 +9705,41 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
         conditions.push(eq(ediscoveryEmails.hasAttachments, hasAttachments));
       }
 
-      // Build query based on whether we need project filtering
-      let emails: any[];
-      
-      if (projectId) {
-        // With project filter - join with uploads
-        const joinConditions = [
-          eq(ediscoveryEmails.uploadId, ediscoveryUploads.id),
-          eq(ediscoveryUploads.projectId, projectId),
-        ];
-        
-        const results = await db
-          .select({
-            id: ediscoveryEmails.id,
-            subject: ediscoveryEmails.subject,
-            fromAddress: ediscoveryEmails.fromAddress,
-            toAddresses: ediscoveryEmails.toAddresses,
-            sentAt: ediscoveryEmails.sentAt,
-            snippet: ediscoveryEmails.snippet,
-            hasAttachments: ediscoveryEmails.hasAttachments,
-            sourceFilename: ediscoveryEmails.sourceFilename,
-            embedding: ediscoveryEmails.embedding,
-          })
-          .from(ediscoveryEmails)
-          .innerJoin(ediscoveryUploads, and(...joinConditions))
-          .where(and(...conditions))
-          .limit(parseInt(String(limit)) * 2); // Fetch more for similarity filtering
-        
-        emails = results;
-      } else {
-        // Without project filter - simpler query
-        emails = await db
-          .select({
-            id: ediscoveryEmails.id,
-            subject: ediscoveryEmails.subject,
-            fromAddress: ediscoveryEmails.fromAddress,
-            toAddresses: ediscoveryEmails.toAddresses,
-            sentAt: ediscoveryEmails.sentAt,
-            snippet: ediscoveryEmails.snippet,
-            hasAttachments: ediscoveryEmails.hasAttachments,
-            sourceFilename: ediscoveryEmails.sourceFilename,
-            embedding: ediscoveryEmails.embedding,
-          })
-          .from(ediscoveryEmails)
-          .where(and(...conditions))
-          .limit(parseInt(String(limit)) * 2); // Fetch more for similarity filtering
+      // Copies of the same email from overlapping PSTs are hidden unless requested
+      if (includeDuplicates !== true) {
+        conditions.push(isNull(ediscoveryEmails.duplicateOfId));
       }
 
-      // Helper function: Calculate keyword match score
-      const calculateKeywordScore = (email: any, searchQuery: string): number => {
-        const queryTerms = searchQuery.toLowerCase().trim().split(/\s+/);
-        const subject = (email.subject || '').toLowerCase();
-        const fromAddress = (email.fromAddress || '').toLowerCase();
-        const snippet = (email.snippet || '').toLowerCase();
-        
-        let matchCount = 0;
-        let totalTerms = queryTerms.length;
-        
-        // Count how many query terms appear in subject, from, or snippet
-        for (const term of queryTerms) {
-          const inSubject = subject.includes(term);
-          const inFrom = fromAddress.includes(term);
-          const inSnippet = snippet.includes(term);
-          
-          if (inSubject || inFrom || inSnippet) {
-            matchCount++;
-            
-            // Bonus: Exact match in subject gets extra weight
-            if (inSubject) {
-              matchCount += 0.5;
-            }
-          }
-        }
-        
-        // Normalize to 0-1 range (can exceed 1.0 if subject matches)
-        return Math.min(matchCount / totalTerms, 1.5) / 1.5;
-      };
-
-      // Calculate hybrid score (keyword + semantic) for each email
-      const results = emails
-        .map((email: any) => {
-          try {
-            // Calculate semantic similarity
-            const emailEmbedding = JSON.parse(email.embedding || '[]');
-            let semanticScore = 0;
-            
-            if (emailEmbedding.length > 0) {
-              let dotProduct = 0;
-              let normA = 0;
-              let normB = 0;
-              for (let i = 0; i < queryEmbedding.length; i++) {
-                dotProduct += queryEmbedding[i] * (emailEmbedding[i] || 0);
-                normA += queryEmbedding[i] * queryEmbedding[i];
-                normB += (emailEmbedding[i] || 0) * (emailEmbedding[i] || 0);
-              }
-              semanticScore = dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-            }
-            
-            // Calculate keyword match score
-            const keywordScore = calculateKeywordScore(email, query);
-            
-            // Hybrid scoring: 60% keyword + 40% semantic
-            // This ensures exact matches get high scores while still benefiting from semantic understanding
-            const hybridScore = (keywordScore * 0.6) + (semanticScore * 0.4);
-
-            return { 
-              ...email, 
-              similarity: hybridScore,
-              keywordScore, // Include for debugging
-              semanticScore, // Include for debugging
-              embedding: undefined 
-            };
-          } catch (error) {
-            console.error('Error calculating similarity:', error);
-            return { ...email, similarity: 0, embedding: undefined };
-          }
-        })
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, parseInt(String(limit)));
-
-      // If tags filter is provided, filter results
+      // Emails matching any of the tags
       if (tags && tags.length > 0) {
-        const emailIds = results.map(r => r.id);
-        
-        // Short-circuit if no results to filter
-        if (emailIds.length === 0) {
-          return res.json({ items: [], total: 0 });
-        }
-
-        // Use inArray helper for proper parameterization
-        const { inArray } = await import('drizzle-orm');
-        const emailTags = await db
-          .select()
-          .from(ediscoveryEmailTags)
-          .where(inArray(ediscoveryEmailTags.emailId, emailIds));
-
-        const tagMap = new Map();
-        emailTags.forEach(t => {
-          if (!tagMap.has(t.emailId)) {
-            tagMap.set(t.emailId, []);
-          }
-          tagMap.get(t.emailId).push(t.label);
-        });
-
-        const filteredResults = results.filter(r => {
-          const emailTags = tagMap.get(r.id) || [];
-          return tags.some((tag: string) => emailTags.includes(tag));
-        });
+        conditions.push(exists(
+          db
+            .select({ id: ediscoveryEmailTags.id })
+            .from(ediscoveryEmailTags)
+            .where(and(
+              eq(ediscoveryEmailTags.emailId, ediscoveryEmails.id),
+              inArray(ediscoveryEmailTags.label, tags)
+            ))
+        ));
+      }
 
-        res.json({ items: filteredResults, total: filteredResults.length });
+      // Project filter via the upload the email came from, otherwise the user's company
+      if (projectId) {
+        conditions.push(inArray(
+          ediscoveryEmails.uploadId,
+          db.select({ id: ediscoveryUploads.id }).from(ediscoveryUploads).where(eq(ediscoveryUploads.projectId, projectId))
+        ));
       } else {
-        res.json({ items: results, total: results.length });
+        conditions.push(eq(ediscoveryEmails.companyId, user.companyId));
       }
+
+      const embeddingProvider = projectId
+        ? await getProjectEmbeddingProvider(projectId, 'general')
+        : await getCompanyEmbeddingProvider(user.companyId, 'general');
+      const results = await searchEmails({ query, conditions, limit: parseInt(String(limit)), embeddingProvider });
+      const items = results.map(email => ({ ...email, similarity: email.score }));
+
+      res.json({ items, total: items.length });
     } catch (error) {
       console.error('Error in semantic search:', error);
       res.status(500).json({ error: 'Failed to perform semantic search' });
@@ -8670,14 +9747,14 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Export email to PDF and save to SharePoint
-  app.post('/api/ediscovery/emails/:emailId/export-pdf', isAuthenticated, async (req, res) => {
+  app.post('/api/ediscovery/emails/:emailId/export-pdf', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_VIEW, scopes.ediscoveryEmail()), async (req, res) => {
     try {
       const { emailId } = req.params;
       const { projectId } = req.body;
       const user = req.user as any;
 
       // Get email details
-      const { ediscoveryEmails } = await import('@shared/schema');
+      const { ediscoveryEmails, ediscoveryAttachments } = await import('@shared/schema');
       const [email] = await db
         .select()
         .from(ediscoveryEmails)
@@ -8691,6 +9768,11 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
         return res.status(404).json({ error: 'Email not found' });
       }
 
+      const attachments = await db
+        .select()
+        .from(ediscoveryAttachments)
+        .where(eq(ediscoveryAttachments.emailId, emailId));
+
       // Generate archival filename: YYYYMMDD_HHMMSS_Subject.pdf
       const sentDate = email.sentAt ? new Date(email.sentAt) : new Date();
       const dateStr = sentDate.toISOString().slice(0, 10).replace(/-/g, '');
@@ -8712,7 +9794,10 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
             React.createElement(Text, { style: { fontSize: 12, marginBottom: 5 } }, `From: ${email.fromAddress || 'Unknown'}`),
             React.createElement(Text, { style: { fontSize: 12, marginBottom: 5 } }, `To: ${email.toAddresses?.join(', ') || 'Unknown'}`),
             email.ccAddresses && email.ccAddresses.length > 0 && React.createElement(Text, { style: { fontSize: 12, marginBottom: 5 } }, `CC: ${email.ccAddresses.join(', ')}`),
-            React.createElement(Text, { style: { fontSize: 12, marginBottom: 10 } }, `Date: ${sentDate.toLocaleString()}`)
+            React.createElement(Text, { style: { fontSize: 12, marginBottom: 10 } }, `Date: ${sentDate.toLocaleString()}`),
+            attachments.length > 0 && React.createElement(Text, { style: { fontSize: 12, marginBottom: 5 } },
+              `Attachments: ${attachments.map(a => `${a.filename} (${(a.sizeBytes / 1024).toFixed(1)} KB)`).join(', ')}`
+            )
           ),
           React.createElement(View, { style: { borderTop: '1px solid #ccc', paddingTop: 20 } },
             React.createElement(Text, { style: { fontSize: 11 } }, email.bodyText || 'No content')
@@ -8753,10 +9838,37 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
         }
       }
 
-      // Send PDF as download
-      res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="${pdfFilename}"`);
-      res.send(pdfBuffer);
+      if (attachments.length === 0) {
+        // Send PDF as download
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${pdfFilename}"`);
+        return res.send(pdfBuffer);
+      }
+
+      // Bundle the PDF with the attachment files; attachments without a stored file are skipped
+      const { default: JSZip } = await import('jszip');
+      const zip = new JSZip();
+      zip.file(pdfFilename, pdfBuffer);
+      const objectStorage = new ObjectStorageService();
+      const usedNames = new Set<string>();
+      for (const attachment of attachments) {
+        try {
+          const content = await objectStorage.downloadFile(attachment.storageKey);
+          let name = attachment.filename;
+          for (let copy = 2; usedNames.has(name); copy++) {
+            name = attachment.filename.replace(/(\.[^.]*)?$/, ` (${copy})$1`);
+          }
+          usedNames.add(name);
+          zip.file(`attachments/${name}`, content);
+        } catch (attachmentError) {
+          console.error(`Attachment ${attachment.id} not available for export:`, attachmentError);
+        }
+      }
+      const zipBuffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${pdfFilename.replace(/\.pdf$/, '.zip')}"`);
+      res.send(zipBuffer);
     } catch (error) {
       console.error('Error exporting email to PDF:', error);
       res.status(500).json({ error: 'Failed to export email to PDF' });
@@ -8764,7 +9876,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Get tags for an email
-  app.get('/api/ediscovery/emails/:emailId/tags', isAuthenticated, async (req, res) => {
+  app.get('/api/ediscovery/emails/:emailId/tags', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_VIEW, scopes.ediscoveryEmail()), async (req, res) => {
     try {
       const { emailId } = req.params;
       const user = req.user as any;
@@ -8783,7 +9895,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Add tag to email
-  app.post('/api/ediscovery/emails/:emailId/tags', isAuthenticated, async (req, res) => {
+  app.post('/api/ediscovery/emails/:emailId/tags', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_MANAGE, scopes.ediscoveryEmail()), async (req, res) => {
     try {
       const { emailId } = req.params;
       const { label } = req.body;
@@ -8823,7 +9935,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   });
 
   // Remove tag from email
-  app.delete('/api/ediscovery/emails/:emailId/tags/:tagId', isAuthenticated, async (req, res) => {
+  app.delete('/api/ediscovery/emails/:emailId/tags/:tagId', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_MANAGE, scopes.ediscoveryEmail()), async (req, res) => {
     try {
       const { emailId, tagId } = req.params;
       const user = req.user as any;
@@ -8849,127 +9961,408 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
     }
   });
 
-  // Ingest PST file from SharePoint
-  app.post('/api/ediscovery/ingest-from-sharepoint/:projectId', isAuthenticated, async (req, res) => {
+  // === eDiscovery production sets ===
+
+  // List production sets for a project with review progress
+  app.get('/api/ediscovery/production-sets', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_VIEW, scopes.projectQuery()), async (req, res) => {
     try {
-      const { projectId } = req.params;
-      const { fileId, fileName, filePath, fileSize } = req.body;
-      const user = req.user as any;
+      const projectId = String(req.query.projectId);
 
-      // Get project and business unit
-      const [project] = await db
-        .select()
-        .from(projects)
-        .where(eq(projects.id, projectId))
-        .limit(1);
+      const { ediscoveryProductionSets, ediscoveryProductionSetEmails, ediscoveryProductions } = await import('@shared/schema');
+      const sets = await db
+        .select({
+          set: ediscoveryProductionSets,
+          emailCount: sql<number>`(SELECT count(*)::int FROM ${ediscoveryProductionSetEmails} WHERE ${ediscoveryProductionSetEmails.productionSetId} = ${ediscoveryProductionSets.id})`,
+          unreviewedCount: sql<number>`(SELECT count(*)::int FROM ${ediscoveryProductionSetEmails} WHERE ${ediscoveryProductionSetEmails.productionSetId} = ${ediscoveryProductionSets.id} AND ${ediscoveryProductionSetEmails.reviewStatus} = 'unreviewed')`,
+          productionCount: sql<number>`(SELECT count(*)::int FROM ${ediscoveryProductions} WHERE ${ediscoveryProductions.productionSetId} = ${ediscoveryProductionSets.id})`,
+        })
+        .from(ediscoveryProductionSets)
+        .where(eq(ediscoveryProductionSets.projectId, projectId))
+        .orderBy(desc(ediscoveryProductionSets.createdAt));
 
-      if (!project) {
-        return res.status(404).json({ error: 'Project not found' });
-      }
+      res.json(sets.map(({ set, ...counts }) => ({ ...set, ...counts })));
+    } catch (error) {
+      console.error('Error getting production sets:', error);
+      res.status(500).json({ error: 'Failed to get production sets' });
+    }
+  });
 
-      // Get business unit to get companyId
-      const { businessUnits } = await import('@shared/schema');
-      const [businessUnit] = await db
-        .select()
-        .from(businessUnits)
-        .where(eq(businessUnits.id, project.businessUnitId!))
-        .limit(1);
+  // Create a production set from a saved search/tag query and add the matching emails
+  app.post('/api/ediscovery/production-sets', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_MANAGE, scopes.projectBody()), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const { ediscoveryProductionSets, insertEdiscoveryProductionSetSchema } = await import('@shared/schema');
 
-      if (!businessUnit) {
-        return res.status(404).json({ error: 'Business unit not found' });
+      const parsed = insertEdiscoveryProductionSetSchema.safeParse({
+        ...req.body,
+        name: typeof req.body.name === 'string' ? req.body.name.trim() : req.body.name,
+        batesPrefix: typeof req.body.batesPrefix === 'string' ? req.body.batesPrefix.trim().toUpperCase() : req.body.batesPrefix,
+        criteria: req.body.criteria ?? {},
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid production set', details: parsed.error.errors });
       }
-
-      // Get SharePoint settings
-      const { projectSharePointSettings } = await import('@shared/schema');
-      const [spSettings] = await db
-        .select()
-        .from(projectSharePointSettings)
-        .where(eq(projectSharePointSettings.projectId, projectId))
-        .limit(1);
-
-      if (!spSettings?.sharePointSiteUrl) {
-        return res.status(400).json({ error: 'SharePoint site URL not configured' });
+      if (!parsed.data.name) {
+        return res.status(400).json({ error: 'Name is required' });
+      }
+      if (!/^[A-Z0-9_-]{1,20}$/.test(parsed.data.batesPrefix)) {
+        return res.status(400).json({ error: 'Bates prefix must be 1-20 letters, numbers, - or _' });
+      }
+      if (parsed.data.batesDigits !== undefined && (parsed.data.batesDigits < 4 || parsed.data.batesDigits > 10)) {
+        return res.status(400).json({ error: 'Bates digits must be between 4 and 10' });
       }
 
-      // Calculate SHA-256 hash (will be updated after download)
-      const placeholderHash = 'pending';
-
-      // Create upload record
-      const { ediscoveryUploads } = await import('@shared/schema');
-      const [upload] = await db.insert(ediscoveryUploads).values({
-        companyId: businessUnit.companyId,
-        projectId,
-        filename: fileName,
-        sizeBytes: fileSize,
-        sha256: placeholderHash,
-        uploadedById: user.id,
-        status: 'pending',
-        emailCount: 0,
-        attachmentCount: 0,
-        storageKey: filePath, // Store SharePoint path temporarily
-        sourcePath: filePath,
-        scanDetectedAt: new Date(),
+      const [set] = await db.insert(ediscoveryProductionSets).values({
+        ...parsed.data,
+        companyId: user.companyId,
+        createdById: user.personId,
       }).returning();
 
-      // Download PST file from SharePoint to temp location
-      const { SharePointService } = await import('./sharepoint');
-      const sharePointService = new SharePointService();
-      
-      console.log(`Downloading PST file ${fileName} from SharePoint...`);
-      const fileBuffer = await sharePointService.downloadFile(
-        spSettings.sharePointSiteUrl,
-        '', // folder path not needed when using file ID
-        fileId
-      );
-      
-      // Calculate actual SHA-256 hash
-      const crypto = await import('crypto');
-      const hash = crypto.createHash('sha256').update(fileBuffer).digest('hex');
-      
-      // Save to temp storage
-      const fs = await import('fs/promises');
-      const path = await import('path');
-      const tempPath = path.join('/tmp', 'ediscovery-uploads', `${upload.id}.pst`);
-      await fs.mkdir(path.dirname(tempPath), { recursive: true });
-      await fs.writeFile(tempPath, fileBuffer);
-      
-      // Update storage key and hash
-      await db
-        .update(ediscoveryUploads)
-        .set({ 
-          storageKey: tempPath,
-          sha256: hash
-        })
-        .where(eq(ediscoveryUploads.id, upload.id));
-
-      // Start ingestion in background
-      const { ingestPSTFile } = await import('./ediscoveryIngest');
-      ingestPSTFile(upload.id).catch(err => {
-        console.error(`Background PST ingestion failed for ${upload.id}:`, err);
-      });
+      const { refreshProductionSet } = await import('./ediscoveryProduction');
+      const added = await refreshProductionSet(set);
 
-      res.json({ 
-        message: 'PST ingestion started',
-        uploadId: upload.id 
-      });
+      res.json({ set, added });
     } catch (error) {
-      console.error('Error ingesting PST from SharePoint:', error);
-      res.status(500).json({ error: 'Failed to ingest PST file' });
+      console.error('Error creating production set:', error);
+      res.status(500).json({ error: 'Failed to create production set' });
     }
   });
 
-  // Retry stuck PST upload
-  app.post('/api/ediscovery/retry-upload/:uploadId', isAuthenticated, async (req, res) => {
+  // Delete a production set that has not been produced
+  app.delete('/api/ediscovery/production-sets/:setId', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_MANAGE, scopes.ediscoveryProductionSet()), async (req, res) => {
     try {
-      const { uploadId } = req.params;
+      const { setId } = req.params;
+      const { ediscoveryProductionSets, ediscoveryProductions } = await import('@shared/schema');
 
-      const { ediscoveryUploads } = await import('@shared/schema');
-
-      // Get upload record
-      const [upload] = await db
-        .select()
-        .from(ediscoveryUploads)
-        .where(eq(ediscoveryUploads.id, uploadId))
+      // Deleting a produced set would delete its Bates numbers, letting later productions reuse them
+      const [production] = await db
+        .select({ id: ediscoveryProductions.id })
+        .from(ediscoveryProductions)
+        .where(eq(ediscoveryProductions.productionSetId, setId))
+        .limit(1);
+      if (production) {
+        return res.status(409).json({ error: 'Production set has been produced and cannot be deleted' });
+      }
+
+      await db.delete(ediscoveryProductionSets).where(eq(ediscoveryProductionSets.id, setId));
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting production set:', error);
+      res.status(500).json({ error: 'Failed to delete production set' });
+    }
+  });
+
+  // Re-run a production set's query to add newly ingested or tagged emails
+  app.post('/api/ediscovery/production-sets/:setId/refresh', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_MANAGE, scopes.ediscoveryProductionSet()), async (req, res) => {
+    try {
+      const { setId } = req.params;
+      const { ediscoveryProductionSets } = await import('@shared/schema');
+
+      const [set] = await db
+        .select()
+        .from(ediscoveryProductionSets)
+        .where(eq(ediscoveryProductionSets.id, setId))
+        .limit(1);
+      if (!set) {
+        return res.status(404).json({ error: 'Production set not found' });
+      }
+
+      const { refreshProductionSet } = await import('./ediscoveryProduction');
+      const added = await refreshProductionSet(set);
+
+      res.json({ added });
+    } catch (error) {
+      console.error('Error refreshing production set:', error);
+      res.status(500).json({ error: 'Failed to refresh production set' });
+    }
+  });
+
+  // List the emails in a production set with their review status and Bates numbers
+  app.get('/api/ediscovery/production-sets/:setId/emails', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_VIEW, scopes.ediscoveryProductionSet()), async (req, res) => {
+    try {
+      const { setId } = req.params;
+      const { status } = req.query;
+      const { ediscoveryProductionSets, ediscoveryProductionSetEmails, ediscoveryEmails, ediscoveryBatesNumbers } = await import('@shared/schema');
+
+      const [set] = await db
+        .select()
+        .from(ediscoveryProductionSets)
+        .where(eq(ediscoveryProductionSets.id, setId))
+        .limit(1);
+      if (!set) {
+        return res.status(404).json({ error: 'Production set not found' });
+      }
+
+      const conditions: any[] = [eq(ediscoveryProductionSetEmails.productionSetId, setId)];
+      if (status) {
+        conditions.push(eq(ediscoveryProductionSetEmails.reviewStatus, String(status)));
+      }
+
+      const items = await db
+        .select({
+          emailId: ediscoveryEmails.id,
+          subject: ediscoveryEmails.subject,
+          fromAddress: ediscoveryEmails.fromAddress,
+          sentAt: ediscoveryEmails.sentAt,
+          hasAttachments: ediscoveryEmails.hasAttachments,
+          reviewStatus: ediscoveryProductionSetEmails.reviewStatus,
+          privilegeBasis: ediscoveryProductionSetEmails.privilegeBasis,
+          reviewNote: ediscoveryProductionSetEmails.reviewNote,
+          reviewedAt: ediscoveryProductionSetEmails.reviewedAt,
+          batesStart: ediscoveryBatesNumbers.batesStart,
+          batesEnd: ediscoveryBatesNumbers.batesEnd,
+        })
+        .from(ediscoveryProductionSetEmails)
+        .innerJoin(ediscoveryEmails, eq(ediscoveryProductionSetEmails.emailId, ediscoveryEmails.id))
+        .leftJoin(ediscoveryBatesNumbers, and(
+          eq(ediscoveryBatesNumbers.emailId, ediscoveryEmails.id),
+          eq(ediscoveryBatesNumbers.projectId, set.projectId),
+          eq(ediscoveryBatesNumbers.batesPrefix, set.batesPrefix)
+        ))
+        .where(and(...conditions))
+        .orderBy(asc(ediscoveryEmails.sentAt));
+
+      res.json(items);
+    } catch (error) {
+      console.error('Error getting production set emails:', error);
+      res.status(500).json({ error: 'Failed to get production set emails' });
+    }
+  });
+
+  // Record the review decision for an email in a production set
+  app.patch('/api/ediscovery/production-sets/:setId/emails/:emailId', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_MANAGE, scopes.ediscoveryProductionSet()), async (req, res) => {
+    try {
+      const { setId, emailId } = req.params;
+      const { reviewStatus, privilegeBasis, reviewNote } = req.body;
+      const user = req.user as any;
+
+      const { PRODUCTION_REVIEW_STATUSES } = await import('./ediscoveryProduction');
+      if (!PRODUCTION_REVIEW_STATUSES.includes(reviewStatus)) {
+        return res.status(400).json({ error: `Review status must be one of: ${PRODUCTION_REVIEW_STATUSES.join(', ')}` });
+      }
+      if (reviewStatus === 'privileged' && !privilegeBasis?.trim()) {
+        return res.status(400).json({ error: 'Privilege basis is required for privileged emails' });
+      }
+
+      const { ediscoveryProductionSetEmails } = await import('@shared/schema');
+      const [updated] = await db
+        .update(ediscoveryProductionSetEmails)
+        .set({
+          reviewStatus,
+          privilegeBasis: reviewStatus === 'privileged' ? privilegeBasis.trim() : null,
+          reviewNote: reviewNote?.trim() || null,
+          reviewedById: reviewStatus === 'unreviewed' ? null : user.personId,
+          reviewedAt: reviewStatus === 'unreviewed' ? null : new Date(),
+        })
+        .where(and(
+          eq(ediscoveryProductionSetEmails.productionSetId, setId),
+          eq(ediscoveryProductionSetEmails.emailId, emailId)
+        ))
+        .returning();
+
+      if (!updated) {
+        return res.status(404).json({ error: 'Email is not in this production set' });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error('Error reviewing production set email:', error);
+      res.status(500).json({ error: 'Failed to save review' });
+    }
+  });
+
+  // List the productions made from a set
+  app.get('/api/ediscovery/production-sets/:setId/productions', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_VIEW, scopes.ediscoveryProductionSet()), async (req, res) => {
+    try {
+      const { setId } = req.params;
+      const { ediscoveryProductions } = await import('@shared/schema');
+
+      const productions = await db
+        .select()
+        .from(ediscoveryProductions)
+        .where(eq(ediscoveryProductions.productionSetId, setId))
+        .orderBy(desc(ediscoveryProductions.createdAt));
+
+      res.json(productions);
+    } catch (error) {
+      console.error('Error getting productions:', error);
+      res.status(500).json({ error: 'Failed to get productions' });
+    }
+  });
+
+  // Produce the set's newly responsive emails with Bates numbers, privilege log and load files
+  app.post('/api/ediscovery/production-sets/:setId/productions', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_MANAGE, scopes.ediscoveryProductionSet()), async (req, res) => {
+    try {
+      const { setId } = req.params;
+      const user = req.user as any;
+
+      const { createProduction, ProductionError } = await import('./ediscoveryProduction');
+      try {
+        const production = await createProduction(setId, user.personId);
+        res.json(production);
+      } catch (productionError) {
+        if (productionError instanceof ProductionError) {
+          return res.status(400).json({ error: productionError.message });
+        }
+        throw productionError;
+      }
+    } catch (error) {
+      console.error('Error creating production:', error);
+      res.status(500).json({ error: 'Failed to create production' });
+    }
+  });
+
+  // Download a production ZIP
+  app.get('/api/ediscovery/productions/:productionId/download', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_VIEW, scopes.ediscoveryProduction()), async (req, res) => {
+    try {
+      const { productionId } = req.params;
+      const { ediscoveryProductions } = await import('@shared/schema');
+
+      const [production] = await db
+        .select()
+        .from(ediscoveryProductions)
+        .where(eq(ediscoveryProductions.id, productionId))
+        .limit(1);
+      if (!production) {
+        return res.status(404).json({ error: 'Production not found' });
+      }
+
+      const content = await new ObjectStorageService().downloadFile(production.storageKey);
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${production.volume}.zip"`);
+      res.send(content);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: 'Production file not found' });
+      }
+      console.error('Error downloading production:', error);
+      res.status(500).json({ error: 'Failed to download production' });
+    }
+  });
+
+  // Ingest PST file from SharePoint
+  app.post('/api/ediscovery/ingest-from-sharepoint/:projectId', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_MANAGE, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { fileId, fileName, filePath, fileSize } = req.body;
+      const user = req.user as any;
+
+      // Get project and business unit
+      const [project] = await db
+        .select()
+        .from(projects)
+        .where(eq(projects.id, projectId))
+        .limit(1);
+
+      if (!project) {
+        return res.status(404).json({ error: 'Project not found' });
+      }
+
+      // Get business unit to get companyId
+      const { businessUnits } = await import('@shared/schema');
+      const [businessUnit] = await db
+        .select()
+        .from(businessUnits)
+        .where(eq(businessUnits.id, project.businessUnitId!))
+        .limit(1);
+
+      if (!businessUnit) {
+        return res.status(404).json({ error: 'Business unit not found' });
+      }
+
+      // Get SharePoint settings
+      const { projectSharePointSettings } = await import('@shared/schema');
+      const [spSettings] = await db
+        .select()
+        .from(projectSharePointSettings)
+        .where(eq(projectSharePointSettings.projectId, projectId))
+        .limit(1);
+
+      if (!spSettings?.sharePointSiteUrl) {
+        return res.status(400).json({ error: 'SharePoint site URL not configured' });
+      }
+
+      // Calculate SHA-256 hash (will be updated after download)
+      const placeholderHash = 'pending';
+
+      // Create upload record
+      const { ediscoveryUploads } = await import('@shared/schema');
+      const [upload] = await db.insert(ediscoveryUploads).values({
+        companyId: businessUnit.companyId,
+        projectId,
+        filename: fileName,
+        sizeBytes: fileSize,
+        sha256: placeholderHash,
+        uploadedById: user.id,
+        status: 'pending',
+        emailCount: 0,
+        attachmentCount: 0,
+        storageKey: filePath, // Store SharePoint path temporarily
+        sourcePath: filePath,
+        scanDetectedAt: new Date(),
+      }).returning();
+
+      // Download PST file from SharePoint to temp location
+      const { SharePointService } = await import('./sharepoint');
+      const sharePointService = new SharePointService();
+      
+      console.log(`Downloading PST file ${fileName} from SharePoint...`);
+      const fileBuffer = await sharePointService.downloadFile(
+        spSettings.sharePointSiteUrl,
+        '', // folder path not needed when using file ID
+        fileId
+      );
+      
+      // Calculate actual SHA-256 hash
+      const crypto = await import('crypto');
+      const hash = crypto.createHash('sha256').update(fileBuffer).digest('hex');
+      
+      // Save to temp storage
+      const fs = await import('fs/promises');
+      const path = await import('path');
+      const tempPath = path.join('/tmp', 'ediscovery-uploads', `${upload.id}.pst`);
+      await fs.mkdir(path.dirname(tempPath), { recursive: true });
+      await fs.writeFile(tempPath, fileBuffer);
+      
+      // Update storage key and hash
+      await db
+        .update(ediscoveryUploads)
+        .set({ 
+          storageKey: tempPath,
+          sha256: hash
+        })
+        .where(eq(ediscoveryUploads.id, upload.id));
+
+      // Start ingestion in background
+      const { ingestPSTFile } = await import('./ediscoveryIngest');
+      ingestPSTFile(upload.id).catch(err => {
+        console.error(`Background PST ingestion failed for ${upload.id}:`, err);
+      });
+
+      res.json({ 
+        message: 'PST ingestion started',
+        uploadId: upload.id 
+      });
+    } catch (error) {
+      console.error('Error ingesting PST from SharePoint:', error);
+      res.status(500).json({ error: 'Failed to ingest PST file' });
+    }
+  });
+
+  // Retry stuck PST upload
+  app.post('/api/ediscovery/retry-upload/:uploadId', isAuthenticated, requirePermission(PERMISSIONS.EDISCOVERY_MANAGE, scopes.ediscoveryUpload('uploadId')), async (req, res) => {
+    try {
+      const { uploadId } = req.params;
+
+      const { ediscoveryUploads } = await import('@shared/schema');
+
+      // Get upload record
+      const [upload] = await db
+        .select()
+        .from(ediscoveryUploads)
+        .where(eq(ediscoveryUploads.id, uploadId))
         .limit(1);
 
       console.log(`[Retry Upload] ID: ${uploadId}, Found: ${!!upload}, Status: ${upload?.status}`);
@@ -9004,7 +10397,7 @@ Provide ONLY the updated cell value, without any preamble or explanation.`;
   // === CONTRACT NOTICES ROUTES ===
   
   // Get or generate contract notices for a project revision
-  app.get('/api/projects/:projectId/contract-notices', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/contract-notices', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { revisionId, force } = req.query;
@@ -9695,37 +11088,309 @@ CRITICAL REQUIREMENTS:
     }
   });
 
-  // === CONTRACT VIEWER ROUTES ===
-  
-  // Helper function to verify revision access
-  async function verifyRevisionAccess(revisionId: string, person: Person): Promise<boolean> {
-    // Super admins have access to all companies
-    if (person.isSuperAdmin) {
-      console.log('[verifyRevisionAccess] Super admin access granted');
-      return true;
-    }
-    
-    const userCompanyId = person.companyId;
-    if (!userCompanyId) {
-      console.log('[verifyRevisionAccess] No company ID for user');
-      return false;
-    }
-    
-    const [revision] = await db
-      .select()
-      .from(contractReviewDocuments)
-      .where(eq(contractReviewDocuments.id, revisionId))
+  // === NOTICE OBLIGATIONS REGISTER ===
+
+  // Attach the derived deadline state to obligations for the register
+  function withDeadlineState<T extends { status: string; dueDate: string | null; responseDueDate: string | null; issuedDate: string | null }>(obligations: T[]) {
+    const today = todayIsoDate();
+    return obligations.map(obligation => ({
+      ...obligation,
+      ...obligationDeadlineState(obligation, today),
+      issuedLate: !!(obligation.issuedDate && obligation.dueDate && obligation.issuedDate > obligation.dueDate),
+    }));
+  }
+
+  async function getNoticeObligationWithLetter(id: string) {
+    const [row] = await db
+      .select({
+        obligation: noticeObligations,
+        letterNumber: correspondenceLetters.letterNumber,
+        letterSubject: correspondenceLetters.subject,
+      })
+      .from(noticeObligations)
+      .leftJoin(correspondenceLetters, eq(noticeObligations.letterId, correspondenceLetters.id))
+      .where(eq(noticeObligations.id, id))
       .limit(1);
-    
-    if (!revision) {
-      console.log('[verifyRevisionAccess] Revision not found:', revisionId);
-      return false;
+    return row ? { ...row.obligation, letterNumber: row.letterNumber, letterSubject: row.letterSubject } : null;
+  }
+
+  // List a project's notice obligations, soonest deadline first
+  app.get('/api/projects/:projectId/notice-obligations', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+
+      const rows = await db
+        .select({
+          obligation: noticeObligations,
+          letterNumber: correspondenceLetters.letterNumber,
+          letterSubject: correspondenceLetters.subject,
+        })
+        .from(noticeObligations)
+        .leftJoin(correspondenceLetters, eq(noticeObligations.letterId, correspondenceLetters.id))
+        .where(eq(noticeObligations.projectId, projectId))
+        .orderBy(sql`coalesce(${noticeObligations.responseDueDate}, ${noticeObligations.dueDate}) asc nulls last`, asc(noticeObligations.createdAt));
+
+      res.json(withDeadlineState(rows.map(row => ({ ...row.obligation, letterNumber: row.letterNumber, letterSubject: row.letterSubject }))));
+    } catch (error) {
+      console.error('Error fetching notice obligations:', error);
+      res.status(500).json({ error: 'Failed to fetch notice obligations' });
     }
-    
-    const [project] = await db
-      .select()
-      .from(projects)
-      .where(eq(projects.id, revision.projectId))
+  });
+
+  // Start tracking an extracted notice because its trigger event has occurred
+  app.post('/api/projects/:projectId/notice-obligations', isAuthenticated, requirePermission(PERMISSIONS.CORRESPONDENCE_MANAGE, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { revisionId, noticeId, triggerEventDate, triggerDescription, notes } = req.body;
+      const user = req.user as any;
+
+      if (!revisionId || !noticeId) {
+        return res.status(400).json({ error: 'revisionId and noticeId are required' });
+      }
+      if (!isIsoDate(triggerEventDate)) {
+        return res.status(400).json({ error: 'triggerEventDate must be a date (yyyy-mm-dd)' });
+      }
+
+      const { contractNotices } = await import('@shared/schema');
+      const [cache] = await db
+        .select()
+        .from(contractNotices)
+        .where(and(eq(contractNotices.projectId, projectId), eq(contractNotices.revisionId, revisionId)))
+        .limit(1);
+      const notice = ((cache?.noticesJson as any)?.notices || []).find((n: any) => n.notice_id === noticeId);
+      if (!notice) {
+        return res.status(404).json({ error: 'Notice not found in the contract notices for this revision' });
+      }
+
+      const timing = noticeTiming(notice);
+      const holidays = await getProjectHolidaySet(projectId);
+      const dates = computeObligationDates({ ...timing, triggerEventDate, issuedDate: null }, holidays);
+
+      const [obligation] = await db.insert(noticeObligations).values({
+        projectId,
+        revisionId,
+        noticeKey: noticeId,
+        title: notice.title || noticeId,
+        clauseRef: notice.clause_ref || null,
+        senderParty: notice.sender_party || null,
+        recipientParty: notice.recipient_party || null,
+        requiredAction: notice.required_action || null,
+        triggerEventDate,
+        triggerDescription: triggerDescription?.trim() || notice.trigger_condition || null,
+        ...timing,
+        ...dates,
+        noResponseConsequence: notice.no_response_consequence || null,
+        notes: notes?.trim() || null,
+        createdBy: user?.personId ? await rbacService.getUserAccountIdForPerson(user.personId) : null,
+      }).returning();
+
+      res.json(withDeadlineState([{ ...obligation, letterNumber: null, letterSubject: null }])[0]);
+    } catch (error) {
+      console.error('Error creating notice obligation:', error);
+      res.status(500).json({ error: 'Failed to create notice obligation' });
+    }
+  });
+
+  // Update an obligation: change its trigger date or timing, or record it as issued (with its letter) / responded / closed
+  app.patch('/api/notice-obligations/:id', isAuthenticated, requirePermission(PERMISSIONS.CORRESPONDENCE_MANAGE, scopes.noticeObligation()), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const [existing] = await db.select().from(noticeObligations).where(eq(noticeObligations.id, id)).limit(1);
+      if (!existing) {
+        return res.status(404).json({ error: 'Notice obligation not found' });
+      }
+
+      const updates: Partial<typeof noticeObligations.$inferInsert> = {};
+      const body = req.body;
+
+      for (const key of ['triggerEventDate', 'issuedDate', 'respondedDate'] as const) {
+        if (body[key] === undefined) continue;
+        if (body[key] === null && key !== 'triggerEventDate') {
+          updates[key] = null;
+        } else if (isIsoDate(body[key])) {
+          updates[key] = body[key];
+        } else {
+          return res.status(400).json({ error: `${key} must be a date (yyyy-mm-dd)` });
+        }
+      }
+      for (const key of ['leadTimeDays', 'responseTimeframeDays', 'timeBarDays'] as const) {
+        if (body[key] === undefined) continue;
+        if (body[key] !== null && !(Number.isInteger(body[key]) && body[key] >= 0)) {
+          return res.status(400).json({ error: `${key} must be a whole number of days` });
+        }
+        updates[key] = body[key];
+      }
+      for (const key of ['leadTimeBusinessDays', 'responseBusinessDays', 'responseRequired'] as const) {
+        if (body[key] !== undefined) updates[key] = !!body[key];
+      }
+      for (const key of ['triggerDescription', 'notes'] as const) {
+        if (body[key] !== undefined) updates[key] = body[key]?.trim() || null;
+      }
+
+      if (body.status !== undefined) {
+        if (!(NOTICE_OBLIGATION_STATUSES as readonly string[]).includes(body.status)) {
+          return res.status(400).json({ error: `status must be one of: ${NOTICE_OBLIGATION_STATUSES.join(', ')}` });
+        }
+        updates.status = body.status;
+      }
+
+      if (body.letterId !== undefined) {
+        if (body.letterId) {
+          const [letter] = await db
+            .select({ id: correspondenceLetters.id })
+            .from(correspondenceLetters)
+            .where(and(eq(correspondenceLetters.id, body.letterId), eq(correspondenceLetters.projectId, existing.projectId)))
+            .limit(1);
+          if (!letter) {
+            return res.status(400).json({ error: 'Letter not found in this project' });
+          }
+        }
+        updates.letterId = body.letterId || null;
+      }
+
+      // Reopening clears the issue; issuing or recording a response without a date means today.
+      // Closing leaves the dates alone (an obligation can be closed without being issued).
+      const merged = { ...existing, ...updates };
+      if (merged.status === 'open') {
+        merged.issuedDate = null;
+        merged.respondedDate = null;
+      } else if (merged.status !== 'closed' && !merged.issuedDate) {
+        merged.issuedDate = todayIsoDate();
+      }
+      if (merged.status === 'responded' && !merged.respondedDate) {
+        merged.respondedDate = todayIsoDate();
+      }
+
+      const holidays = await getProjectHolidaySet(existing.projectId);
+      const dates = computeObligationDates(
+        { ...merged, leadTimeRelativeTo: merged.leadTimeRelativeTo as LeadTimeRelativeTo },
+        holidays
+      );
+
+      await db
+        .update(noticeObligations)
+        .set({
+          ...updates,
+          issuedDate: merged.issuedDate,
+          respondedDate: merged.respondedDate,
+          ...dates,
+          updatedAt: new Date(),
+        })
+        .where(eq(noticeObligations.id, id));
+
+      const obligation = await getNoticeObligationWithLetter(id);
+      res.json(withDeadlineState([obligation!])[0]);
+    } catch (error) {
+      console.error('Error updating notice obligation:', error);
+      res.status(500).json({ error: 'Failed to update notice obligation' });
+    }
+  });
+
+  app.delete('/api/notice-obligations/:id', isAuthenticated, requirePermission(PERMISSIONS.CORRESPONDENCE_MANAGE, scopes.noticeObligation()), async (req, res) => {
+    try {
+      await db.delete(noticeObligations).where(eq(noticeObligations.id, req.params.id));
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting notice obligation:', error);
+      res.status(500).json({ error: 'Failed to delete notice obligation' });
+    }
+  });
+
+  // Project holiday calendar (non-business days for notice deadlines)
+  app.get('/api/projects/:projectId/holidays', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
+    try {
+      const holidays = await db
+        .select()
+        .from(projectHolidays)
+        .where(eq(projectHolidays.projectId, req.params.projectId))
+        .orderBy(asc(projectHolidays.date));
+      res.json(holidays);
+    } catch (error) {
+      console.error('Error fetching project holidays:', error);
+      res.status(500).json({ error: 'Failed to fetch project holidays' });
+    }
+  });
+
+  app.post('/api/projects/:projectId/holidays', isAuthenticated, requirePermission(PERMISSIONS.PROJECT_MANAGE, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { date } = req.body;
+      const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+      if (!isIsoDate(date)) {
+        return res.status(400).json({ error: 'date must be a date (yyyy-mm-dd)' });
+      }
+      if (!name) {
+        return res.status(400).json({ error: 'Name is required' });
+      }
+
+      const [holiday] = await db
+        .insert(projectHolidays)
+        .values({ projectId, date, name })
+        .onConflictDoNothing()
+        .returning();
+      if (!holiday) {
+        return res.status(409).json({ error: 'This date is already a project holiday' });
+      }
+
+      const recalculated = await recalculateProjectNoticeObligations(projectId);
+      await refreshProjectRfis(projectId);
+      res.json({ holiday, recalculated });
+    } catch (error) {
+      console.error('Error creating project holiday:', error);
+      res.status(500).json({ error: 'Failed to create project holiday' });
+    }
+  });
+
+  app.delete('/api/projects/:projectId/holidays/:holidayId', isAuthenticated, requirePermission(PERMISSIONS.PROJECT_MANAGE, scopes.projectHoliday()), async (req, res) => {
+    try {
+      const { holidayId } = req.params;
+      const [deleted] = await db.delete(projectHolidays).where(eq(projectHolidays.id, holidayId)).returning();
+      if (!deleted) {
+        return res.status(404).json({ error: 'Holiday not found' });
+      }
+
+      // Recalculate the project the holiday belonged to
+      const recalculated = await recalculateProjectNoticeObligations(deleted.projectId);
+      await refreshProjectRfis(deleted.projectId);
+      res.json({ success: true, recalculated });
+    } catch (error) {
+      console.error('Error deleting project holiday:', error);
+      res.status(500).json({ error: 'Failed to delete project holiday' });
+    }
+  });
+
+  // === CONTRACT VIEWER ROUTES ===
+  
+  // Helper function to verify revision access
+  async function verifyRevisionAccess(revisionId: string, person: Person): Promise<boolean> {
+    // Super admins have access to all companies
+    if (person.isSuperAdmin) {
+      console.log('[verifyRevisionAccess] Super admin access granted');
+      return true;
+    }
+    
+    const userCompanyId = person.companyId;
+    if (!userCompanyId) {
+      console.log('[verifyRevisionAccess] No company ID for user');
+      return false;
+    }
+    
+    const [revision] = await db
+      .select()
+      .from(contractReviewDocuments)
+      .where(eq(contractReviewDocuments.id, revisionId))
+      .limit(1);
+    
+    if (!revision) {
+      console.log('[verifyRevisionAccess] Revision not found:', revisionId);
+      return false;
+    }
+    
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(eq(projects.id, revision.projectId))
       .limit(1);
     
     if (!project || !project.businessUnitId) {
@@ -9755,7 +11420,7 @@ CRITICAL REQUIREMENTS:
   }
 
   // Get contract metadata (clauses + definitions) for a revision
-  app.get('/api/contract-review/revisions/:revisionId/metadata', isAuthenticated, async (req, res) => {
+  app.get('/api/contract-review/revisions/:revisionId/metadata', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       
@@ -9801,7 +11466,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Force regenerate contract metadata (clauses + definitions) for a revision
-  app.post('/api/contract-review/revisions/:revisionId/metadata/regenerate', isAuthenticated, async (req, res) => {
+  app.post('/api/contract-review/revisions/:revisionId/metadata/regenerate', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       
@@ -9844,8 +11509,47 @@ CRITICAL REQUIREMENTS:
     }
   });
 
+  // Hybrid keyword + semantic search over the pages of a contract (contract viewer search)
+  app.get('/api/contract-review/revisions/:revisionId/search', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevision()), async (req, res) => {
+    try {
+      const { revisionId } = req.params;
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      
+      if (!query) {
+        return res.status(400).json({ error: 'Search query is required' });
+      }
+      
+      // Get user's company and verify access
+      const person = (req as any).person;
+      
+      const hasAccess = await verifyRevisionAccess(revisionId, person);
+      if (!hasAccess) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      
+      const [revision] = await db
+        .select({ projectId: contractReviewDocuments.projectId })
+        .from(contractReviewDocuments)
+        .where(eq(contractReviewDocuments.id, revisionId))
+        .limit(1);
+      
+      if (!revision) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      
+      const { searchContractPages } = await import('./hybridSearch');
+      const embeddingProvider = await getProjectEmbeddingProvider(revision.projectId, 'legal');
+      const results = await searchContractPages({ revisionId, query, limit: 20, embeddingProvider });
+      
+      res.json(results);
+    } catch (error) {
+      console.error('Error searching contract:', error);
+      res.status(500).json({ error: 'Failed to search contract' });
+    }
+  });
+
   // Download contract PDF for viewing
-  app.get('/api/contract-review/revisions/:revisionId/download', isAuthenticated, async (req, res) => {
+  app.get('/api/contract-review/revisions/:revisionId/download', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       
@@ -9888,7 +11592,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Get all sticky notes for a revision
-  app.get('/api/contract-review/revisions/:revisionId/notes', isAuthenticated, async (req, res) => {
+  app.get('/api/contract-review/revisions/:revisionId/notes', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       
@@ -9914,7 +11618,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Create a new sticky note
-  app.post('/api/contract-review/revisions/:revisionId/notes', isAuthenticated, async (req, res) => {
+  app.post('/api/contract-review/revisions/:revisionId/notes', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       const { pageIndex, x, y, content } = req.body;
@@ -9953,7 +11657,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Update a sticky note
-  app.patch('/api/contract-review/notes/:noteId', isAuthenticated, async (req, res) => {
+  app.patch('/api/contract-review/notes/:noteId', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractNote()), async (req, res) => {
     try {
       const { noteId } = req.params;
       const { content } = req.body;
@@ -9975,7 +11679,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Delete a sticky note
-  app.delete('/api/contract-review/notes/:noteId', isAuthenticated, async (req, res) => {
+  app.delete('/api/contract-review/notes/:noteId', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractNote()), async (req, res) => {
     try {
       const { noteId } = req.params;
 
@@ -9989,7 +11693,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Get all AI threads for a revision
-  app.get('/api/contract-review/revisions/:revisionId/ai-threads', isAuthenticated, async (req, res) => {
+  app.get('/api/contract-review/revisions/:revisionId/ai-threads', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
 
@@ -10015,7 +11719,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Create a new AI thread
-  app.post('/api/contract-review/revisions/:revisionId/ai-threads', isAuthenticated, async (req, res) => {
+  app.post('/api/contract-review/revisions/:revisionId/ai-threads', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.contractRevision()), async (req, res) => {
     try {
       const { revisionId } = req.params;
       const { anchor, title, firstMessage } = req.body;
@@ -10058,7 +11762,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Get all messages for an AI thread
-  app.get('/api/ai-threads/:threadId/messages', isAuthenticated, async (req, res) => {
+  app.get('/api/ai-threads/:threadId/messages', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.aiThread()), async (req, res) => {
     try {
       const { threadId } = req.params;
 
@@ -10076,7 +11780,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Add a message to an AI thread
-  app.post('/api/ai-threads/:threadId/messages', isAuthenticated, async (req, res) => {
+  app.post('/api/ai-threads/:threadId/messages', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.aiThread()), async (req, res) => {
     try {
       const { threadId } = req.params;
       const { content } = req.body;
@@ -10104,7 +11808,7 @@ CRITICAL REQUIREMENTS:
   // === BOQ (BILL OF QUANTITIES) ROUTES ===
 
   // Get all BOQ revisions for a project
-  app.get('/api/projects/:projectId/boq/revisions', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/boq/revisions', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { boqRevisions } = await import('@shared/schema');
@@ -10123,7 +11827,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Get active BOQ revision for a project
-  app.get('/api/projects/:projectId/boq/revisions/active', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/boq/revisions/active', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { boqRevisions } = await import('@shared/schema');
@@ -10144,8 +11848,51 @@ CRITICAL REQUIREMENTS:
     }
   });
 
+  // Compare two BOQ revisions (?base=<revisionId>&compare=<revisionId>)
+  app.get('/api/projects/:projectId/boq/revisions/compare', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { base, compare } = req.query;
+      const { boqRevisions, boqItems } = await import('@shared/schema');
+
+      if (typeof base !== 'string' || typeof compare !== 'string') {
+        return res.status(400).json({ error: 'base and compare revision IDs are required' });
+      }
+
+      const revisions = await db
+        .select()
+        .from(boqRevisions)
+        .where(and(
+          eq(boqRevisions.projectId, projectId),
+          inArray(boqRevisions.id, [base, compare])
+        ));
+
+      const baseRevision = revisions.find(r => r.id === base);
+      const compareRevision = revisions.find(r => r.id === compare);
+
+      if (!baseRevision || !compareRevision) {
+        return res.status(404).json({ error: 'Revision not found for this project' });
+      }
+
+      const [baseItems, compareItems] = await Promise.all([
+        db.select().from(boqItems).where(eq(boqItems.revisionId, base)).orderBy(boqItems.sortingIndex),
+        db.select().from(boqItems).where(eq(boqItems.revisionId, compare)).orderBy(boqItems.sortingIndex),
+      ]);
+
+      const { compareBoqRevisions } = await import('./boqRevisionComparison');
+      res.json({
+        baseRevision,
+        compareRevision,
+        ...compareBoqRevisions(baseItems, compareItems),
+      });
+    } catch (error) {
+      console.error('Error comparing BOQ revisions:', error);
+      res.status(500).json({ error: 'Failed to compare BOQ revisions' });
+    }
+  });
+
   // Create new BOQ revision
-  app.post('/api/projects/:projectId/boq/revisions', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/boq/revisions', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { revisionName, notes } = req.body;
@@ -10154,7 +11901,7 @@ CRITICAL REQUIREMENTS:
       const person = (req as any).person;
       const personId = person.id;
 
-      const { boqRevisions, boqItems } = await import('@shared/schema');
+      const { boqRevisions, boqItems, pFinalQty, boqItemWorksheets } = await import('@shared/schema');
 
       await db.transaction(async (tx) => {
         // Get current active revision
@@ -10199,13 +11946,42 @@ CRITICAL REQUIREMENTS:
             .where(eq(boqItems.revisionId, currentActive.id));
 
           if (previousItems.length > 0) {
+            const itemIdMap = new Map<string, string>();
             for (const oldItem of previousItems) {
               const { id, createdAt, updatedAt, ...itemData } = oldItem;
-              await tx.insert(boqItems).values({
+              const [newItem] = await tx.insert(boqItems).values({
                 ...itemData,
                 revisionId: newRevision.id,
+              }).returning({ id: boqItems.id });
+              itemIdMap.set(id, newItem.id);
+            }
+
+            // Carry final quantities across to the copied items
+            const previousQuantities = await tx
+              .select()
+              .from(pFinalQty)
+              .where(inArray(pFinalQty.boqItemId, Array.from(itemIdMap.keys())));
+
+            for (const oldQuantity of previousQuantities) {
+              const { id, createdAt, ...quantityData } = oldQuantity;
+              await tx.insert(pFinalQty).values({
+                ...quantityData,
+                boqItemId: itemIdMap.get(oldQuantity.boqItemId!)!,
               });
             }
+
+            // Keep worksheet rate build-ups on the copied items
+            const previousLinks = await tx
+              .select()
+              .from(boqItemWorksheets)
+              .where(inArray(boqItemWorksheets.boqItemId, Array.from(itemIdMap.keys())));
+
+            if (previousLinks.length > 0) {
+              await tx.insert(boqItemWorksheets).values(previousLinks.map(link => ({
+                boqItemId: itemIdMap.get(link.boqItemId)!,
+                worksheetId: link.worksheetId,
+              })));
+            }
           }
         }
 
@@ -10218,11 +11994,11 @@ CRITICAL REQUIREMENTS:
   });
 
   // Get BOQ items for a revision
-  app.get('/api/projects/:projectId/boq/items', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/boq/items', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { revisionId } = req.query;
-      const { boqItems, boqRevisions } = await import('@shared/schema');
+      const { boqItems, boqRevisions, boqItemWorksheets } = await import('@shared/schema');
 
       let targetRevisionId = revisionId as string;
 
@@ -10249,7 +12025,17 @@ CRITICAL REQUIREMENTS:
         .where(eq(boqItems.revisionId, targetRevisionId))
         .orderBy(boqItems.sortingIndex);
 
-      res.json(items);
+      const links = items.length > 0
+        ? await db
+            .select({ boqItemId: boqItemWorksheets.boqItemId, worksheetId: boqItemWorksheets.worksheetId })
+            .from(boqItemWorksheets)
+            .where(inArray(boqItemWorksheets.boqItemId, items.map(item => item.id)))
+        : [];
+
+      res.json(items.map(item => ({
+        ...item,
+        worksheetIds: links.filter(link => link.boqItemId === item.id).map(link => link.worksheetId),
+      })));
     } catch (error) {
       console.error('Error fetching BOQ items:', error);
       res.status(500).json({ error: 'Failed to fetch BOQ items' });
@@ -10257,7 +12043,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Create BOQ item
-  app.post('/api/projects/:projectId/boq/items', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/boq/items', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), async (req, res) => {
     try {
       const itemData = req.body;
       const { boqItems, insertBoqItemSchema } = await import('@shared/schema');
@@ -10299,203 +12085,1019 @@ CRITICAL REQUIREMENTS:
         newItem = inserted;
       }
 
-      res.status(201).json(newItem);
+      res.status(201).json(newItem);
+    } catch (error) {
+      console.error('Error creating BOQ item:', error);
+      res.status(500).json({ error: 'Failed to create BOQ item' });
+    }
+  });
+
+  // Update BOQ item
+  app.put('/api/projects/:projectId/boq/items/:itemId', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.boqItem()), async (req, res) => {
+    try {
+      const { projectId, itemId } = req.params;
+      const { worksheetIds: _worksheetIds, revisionId: _revisionId, ...itemData } = req.body;
+      const { boqItems, boqItemWorksheets } = await import('@shared/schema');
+      const { lockedItemChanges, lockedClaimItemIds } = await import('./progressClaims');
+
+      if (itemData.eventTagId && !(await isProjectEventTag(projectId, itemData.eventTagId))) {
+        return res.status(400).json({ error: 'Event tag does not belong to this project' });
+      }
+
+      const [existingItem] = await db
+        .select()
+        .from(boqItems)
+        .where(eq(boqItems.id, itemId))
+        .limit(1);
+
+      if (!existingItem) {
+        return res.status(404).json({ error: 'BOQ item not found' });
+      }
+
+      const lockedChanges = lockedItemChanges(existingItem, itemData);
+      if (lockedChanges.length > 0 && (await lockedClaimItemIds([itemId])).size > 0) {
+        return res.status(409).json({
+          error: `Item ${existingItem.itemNumber} is in a submitted progress claim; ${lockedChanges.join(', ')} cannot be changed. Create a new BOQ revision instead.`,
+        });
+      }
+
+      const links = await db
+        .select({ worksheetId: boqItemWorksheets.worksheetId })
+        .from(boqItemWorksheets)
+        .where(eq(boqItemWorksheets.boqItemId, itemId));
+
+      // The rate of an item built up from worksheets is derived, unless it is explicitly overridden
+      const rateOverride = itemData.rateOverride ?? existingItem.rateOverride;
+      if (links.length > 0 && !rateOverride) {
+        delete itemData.rate;
+        delete itemData.amount;
+      }
+
+      const [updatedItem] = await db
+        .update(boqItems)
+        .set({ ...itemData, updatedAt: new Date() })
+        .where(eq(boqItems.id, itemId))
+        .returning();
+
+      let refreshedItem = updatedItem;
+      if (links.length > 0 && !rateOverride) {
+        const [derived] = await deriveBoqItemRates([itemId]);
+        refreshedItem = derived ?? updatedItem;
+      }
+
+      res.json({ ...refreshedItem, worksheetIds: links.map(link => link.worksheetId) });
+    } catch (error) {
+      console.error('Error updating BOQ item:', error);
+      res.status(500).json({ error: 'Failed to update BOQ item' });
+    }
+  });
+
+  // Delete BOQ item
+  app.delete('/api/projects/:projectId/boq/items/:itemId', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.boqItem()), async (req, res) => {
+    try {
+      const { itemId } = req.params;
+      const { boqItems, boqClaimItems } = await import('@shared/schema');
+      const { lockedClaimItemIds } = await import('./progressClaims');
+
+      if ((await lockedClaimItemIds([itemId])).size > 0) {
+        return res.status(409).json({ error: 'This item is in a submitted progress claim and cannot be deleted' });
+      }
+
+      // Progress recorded against the item in a draft claim goes with it
+      await db.transaction(async (tx) => {
+        await tx.delete(boqClaimItems).where(eq(boqClaimItems.boqItemId, itemId));
+        await tx.delete(boqItems).where(eq(boqItems.id, itemId));
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting BOQ item:', error);
+      res.status(500).json({ error: 'Failed to delete BOQ item' });
+    }
+  });
+
+  // Reorder BOQ items
+  app.post('/api/projects/:projectId/boq/items/reorder', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), async (req, res) => {
+    try {
+      const { items } = req.body; // Array of {id, sortingIndex}
+      const { boqItems } = await import('@shared/schema');
+
+      if (!items || !Array.isArray(items)) {
+        return res.status(400).json({ error: 'Invalid request body' });
+      }
+
+      // Update each item's sortingIndex
+      await db.transaction(async (tx) => {
+        for (const item of items) {
+          await tx
+            .update(boqItems)
+            .set({ 
+              sortingIndex: item.sortingIndex,
+              updatedAt: new Date()
+            })
+            .where(eq(boqItems.id, item.id));
+        }
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error reordering BOQ items:', error);
+      res.status(500).json({ error: 'Failed to reorder BOQ items' });
+    }
+  });
+
+  // Get the worksheets a BOQ item's rate is built up from
+  app.get('/api/projects/:projectId/boq/items/:itemId/worksheets', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.boqItem()), async (req, res) => {
+    try {
+      const { itemId } = req.params;
+      const { boqItemWorksheets, worksheets, worksheetItems } = await import('@shared/schema');
+
+      const linkedWorksheets = await db
+        .select({
+          id: worksheets.id,
+          wkshtCode: worksheets.wkshtCode,
+          description: worksheets.description,
+          unit: worksheets.unit,
+          totalSum: sql<string>`COALESCE((SELECT SUM(${worksheetItems.total}) FROM ${worksheetItems} WHERE ${worksheetItems.worksheetId} = ${worksheets.id}), 0)`,
+        })
+        .from(boqItemWorksheets)
+        .innerJoin(worksheets, eq(boqItemWorksheets.worksheetId, worksheets.id))
+        .where(eq(boqItemWorksheets.boqItemId, itemId))
+        .orderBy(worksheets.sortingIndex);
+
+      res.json(linkedWorksheets);
+    } catch (error) {
+      console.error('Error fetching BOQ item worksheets:', error);
+      res.status(500).json({ error: 'Failed to fetch BOQ item worksheets' });
+    }
+  });
+
+  // Replace the worksheets a BOQ item's rate is built up from
+  app.put('/api/projects/:projectId/boq/items/:itemId/worksheets', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.boqItem()), async (req, res) => {
+    try {
+      const { projectId, itemId } = req.params;
+      const { worksheetIds } = req.body;
+      const { boqItems, boqItemWorksheets, worksheets } = await import('@shared/schema');
+      const { lockedClaimItemIds } = await import('./progressClaims');
+
+      if (!Array.isArray(worksheetIds) || worksheetIds.some(id => typeof id !== 'string')) {
+        return res.status(400).json({ error: 'worksheetIds must be an array of worksheet IDs' });
+      }
+
+      if ((await lockedClaimItemIds([itemId])).size > 0) {
+        return res.status(409).json({ error: 'This item is in a submitted progress claim; its rate cannot be rebuilt' });
+      }
+
+      const uniqueWorksheetIds = Array.from(new Set<string>(worksheetIds));
+      if (uniqueWorksheetIds.length > 0) {
+        const projectWorksheets = await db
+          .select({ id: worksheets.id })
+          .from(worksheets)
+          .where(and(
+            eq(worksheets.projectId, projectId),
+            inArray(worksheets.id, uniqueWorksheetIds)
+          ));
+
+        if (projectWorksheets.length !== uniqueWorksheetIds.length) {
+          return res.status(400).json({ error: 'Worksheet does not belong to this project' });
+        }
+      }
+
+      const [existingItem] = await db
+        .select({ rateOverride: boqItems.rateOverride })
+        .from(boqItems)
+        .where(eq(boqItems.id, itemId))
+        .limit(1);
+
+      const removedLinks = await db.transaction(async (tx) => {
+        const removed = await tx
+          .delete(boqItemWorksheets)
+          .where(eq(boqItemWorksheets.boqItemId, itemId))
+          .returning({ id: boqItemWorksheets.id });
+
+        if (uniqueWorksheetIds.length > 0) {
+          await tx.insert(boqItemWorksheets).values(uniqueWorksheetIds.map(worksheetId => ({
+            boqItemId: itemId,
+            worksheetId,
+          })));
+        } else {
+          // Without worksheets the rate is manual by definition
+          await tx
+            .update(boqItems)
+            .set({ rateOverride: false, updatedAt: new Date() })
+            .where(eq(boqItems.id, itemId));
+        }
+        return removed;
+      });
+
+      // An item that never had worksheets, or whose rate was overridden, keeps its manual rate;
+      // one whose rate was built up from the removed worksheets has it cleared
+      const hadDerivedRate = removedLinks.length > 0 && !existingItem?.rateOverride;
+      if (uniqueWorksheetIds.length > 0 || hadDerivedRate) {
+        await refreshBoqItemRates(projectId, [itemId]);
+      }
+
+      const [item] = await db
+        .select()
+        .from(boqItems)
+        .where(eq(boqItems.id, itemId))
+        .limit(1);
+
+      res.json({ ...item, worksheetIds: uniqueWorksheetIds });
+    } catch (error) {
+      console.error('Error updating BOQ item worksheets:', error);
+      res.status(500).json({ error: 'Failed to update BOQ item worksheets' });
+    }
+  });
+
+  // Get event tag statuses for a project
+  app.get('/api/projects/:projectId/boq/event-tag-statuses', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { pEventTagStatuses } = await import('@shared/schema');
+
+      const statuses = await db
+        .select()
+        .from(pEventTagStatuses)
+        .where(eq(pEventTagStatuses.projectId, projectId))
+        .orderBy(pEventTagStatuses.sortingIndex);
+
+      res.json(statuses);
+    } catch (error) {
+      console.error('Error fetching event tag statuses:', error);
+      res.status(500).json({ error: 'Failed to fetch event tag statuses' });
+    }
+  });
+
+  // Seed base event tag statuses
+  app.post('/api/projects/:projectId/boq/event-tag-statuses/seed', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { pEventTagStatuses, insertPEventTagStatusSchema } = await import('@shared/schema');
+
+      const baseStatuses = [
+        { name: 'Identified', sortingIndex: 0 },
+        { name: 'Drafting', sortingIndex: 1 },
+        { name: 'Submitted', sortingIndex: 2 },
+        { name: 'Queried', sortingIndex: 3 },
+        { name: 'Approved', sortingIndex: 4 },
+        { name: 'Rejected', sortingIndex: 5 },
+        { name: 'On Hold', sortingIndex: 6 },
+      ];
+
+      const createdStatuses = [];
+      for (const status of baseStatuses) {
+        const validatedData = insertPEventTagStatusSchema.parse({
+          projectId,
+          ...status,
+        });
+        
+        const [created] = await db
+          .insert(pEventTagStatuses)
+          .values(validatedData)
+          .onConflictDoNothing()
+          .returning();
+        
+        if (created) {
+          createdStatuses.push(created);
+        }
+      }
+
+      res.status(201).json(createdStatuses);
+    } catch (error) {
+      console.error('Error seeding event tag statuses:', error);
+      res.status(500).json({ error: 'Failed to seed event tag statuses' });
+    }
+  });
+
+  // Get pricing basis options for a project
+  app.get('/api/projects/:projectId/boq/pricing-basis', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { pPricingBasis } = await import('@shared/schema');
+
+      const pricingBasis = await db
+        .select()
+        .from(pPricingBasis)
+        .where(eq(pPricingBasis.projectId, projectId))
+        .orderBy(pPricingBasis.sortingIndex);
+
+      res.json(pricingBasis);
+    } catch (error) {
+      console.error('Error fetching pricing basis:', error);
+      res.status(500).json({ error: 'Failed to fetch pricing basis' });
+    }
+  });
+
+  // Seed base pricing basis options
+  app.post('/api/projects/:projectId/boq/pricing-basis/seed', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { pPricingBasis, insertPPricingBasisSchema } = await import('@shared/schema');
+
+      const basePricingBasis = [
+        { name: 'Lump Sum', sortingIndex: 0 },
+        { name: 'Rates', sortingIndex: 1 },
+        { name: 'Rates + Daywork', sortingIndex: 2 },
+        { name: 'Cost Plus', sortingIndex: 3 },
+      ];
+
+      const createdPricingBasis = [];
+      for (const pricing of basePricingBasis) {
+        const validatedData = insertPPricingBasisSchema.parse({
+          projectId,
+          ...pricing,
+        });
+        
+        const [created] = await db
+          .insert(pPricingBasis)
+          .values(validatedData)
+          .onConflictDoNothing()
+          .returning();
+        
+        if (created) {
+          createdPricingBasis.push(created);
+        }
+      }
+
+      res.status(201).json(createdPricingBasis);
+    } catch (error) {
+      console.error('Error seeding pricing basis:', error);
+      res.status(500).json({ error: 'Failed to seed pricing basis' });
+    }
+  });
+
+  // === EVENT TAG (VARIATION / CLAIM) REGISTER ===
+
+  // Helper: check an event tag belongs to the project (BOQ items and final quantities may only link to their own project's tags)
+  async function isProjectEventTag(projectId: string, eventTagId: string): Promise<boolean> {
+    const { pEventTags } = await import('@shared/schema');
+    const [tag] = await db
+      .select({ id: pEventTags.id })
+      .from(pEventTags)
+      .where(and(eq(pEventTags.id, eventTagId), eq(pEventTags.projectId, projectId)))
+      .limit(1);
+    return !!tag;
+  }
+
+  // Date fields arrive as ISO strings from the client
+  function parseEventTagDates(body: any) {
+    const parsed = { ...body };
+    for (const field of ['dateNotified', 'submitted', 'approved']) {
+      if (field in parsed) {
+        parsed[field] = parsed[field] ? new Date(parsed[field]) : null;
+      }
+    }
+    return parsed;
+  }
+
+  // Get event tag register for a project, with linked BOQ value (active revision) and register totals
+  app.get('/api/projects/:projectId/boq/event-tags', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { pEventTags, boqItems, boqRevisions } = await import('@shared/schema');
+
+      const tags = await db
+        .select()
+        .from(pEventTags)
+        .where(eq(pEventTags.projectId, projectId))
+        .orderBy(pEventTags.no);
+
+      const [activeRevision] = await db
+        .select({ id: boqRevisions.id })
+        .from(boqRevisions)
+        .where(and(
+          eq(boqRevisions.projectId, projectId),
+          eq(boqRevisions.isActive, true)
+        ))
+        .limit(1);
+
+      const linkedRows = activeRevision
+        ? await db
+            .select({
+              eventTagId: boqItems.eventTagId,
+              itemCount: sql<number>`count(*)::int`,
+              linkedValue: sql<string>`coalesce(sum(${boqItems.amount}), 0)`,
+            })
+            .from(boqItems)
+            .where(and(
+              eq(boqItems.revisionId, activeRevision.id),
+              sql`${boqItems.eventTagId} is not null`
+            ))
+            .groupBy(boqItems.eventTagId)
+        : [];
+      const linkedByTag = new Map(linkedRows.map(row => [row.eventTagId, row]));
+
+      const eventTags = tags.map(tag => ({
+        ...tag,
+        itemCount: linkedByTag.get(tag.id)?.itemCount ?? 0,
+        linkedValue: Number(linkedByTag.get(tag.id)?.linkedValue ?? 0),
+      }));
+
+      const totals = eventTags.reduce(
+        (sum, tag) => ({
+          count: sum.count + 1,
+          valueClaimed: sum.valueClaimed + Number(tag.valueClaimed ?? 0),
+          valueApproved: sum.valueApproved + Number(tag.valueApproved ?? 0),
+          linkedValue: sum.linkedValue + tag.linkedValue,
+          eotDaysClaimed: sum.eotDaysClaimed + (tag.eotDaysClaimed ?? 0),
+          eotDaysApproved: sum.eotDaysApproved + (tag.eotDaysApproved ?? 0),
+        }),
+        { count: 0, valueClaimed: 0, valueApproved: 0, linkedValue: 0, eotDaysClaimed: 0, eotDaysApproved: 0 }
+      );
+
+      res.json({ eventTags, totals });
+    } catch (error) {
+      console.error('Error fetching event tags:', error);
+      res.status(500).json({ error: 'Failed to fetch event tags' });
+    }
+  });
+
+  // Create event tag
+  app.post('/api/projects/:projectId/boq/event-tags', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { pEventTags, insertPEventTagSchema } = await import('@shared/schema');
+
+      const validated = insertPEventTagSchema.parse({
+        ...parseEventTagDates(req.body),
+        projectId,
+      });
+
+      const [eventTag] = await db
+        .insert(pEventTags)
+        .values(validated)
+        .returning();
+
+      res.status(201).json(eventTag);
+    } catch (error: any) {
+      console.error('Error creating event tag:', error);
+
+      // Handle unique constraint violation on event number
+      if (error.code === '23505') {
+        return res.status(409).json({
+          error: 'Event number already exists for this project',
+          field: 'no'
+        });
+      }
+
+      res.status(500).json({ error: 'Failed to create event tag' });
+    }
+  });
+
+  // Update event tag
+  app.patch('/api/projects/:projectId/boq/event-tags/:eventTagId', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.eventTag()), async (req, res) => {
+    try {
+      const { eventTagId } = req.params;
+      const { pEventTags, insertPEventTagSchema } = await import('@shared/schema');
+
+      const validated = insertPEventTagSchema
+        .omit({ projectId: true })
+        .partial()
+        .parse(parseEventTagDates(req.body));
+
+      const [eventTag] = await db
+        .update(pEventTags)
+        .set({
+          ...validated,
+          updatedAt: new Date(),
+        })
+        .where(eq(pEventTags.id, eventTagId))
+        .returning();
+
+      if (!eventTag) {
+        return res.status(404).json({ error: 'Event tag not found' });
+      }
+
+      res.json(eventTag);
+    } catch (error: any) {
+      console.error('Error updating event tag:', error);
+
+      if (error.code === '23505') {
+        return res.status(409).json({
+          error: 'Event number already exists for this project',
+          field: 'no'
+        });
+      }
+
+      res.status(500).json({ error: 'Failed to update event tag' });
+    }
+  });
+
+  // Delete event tag (linked BOQ items and final quantities are unlinked, not deleted)
+  app.delete('/api/projects/:projectId/boq/event-tags/:eventTagId', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.eventTag()), async (req, res) => {
+    try {
+      const { eventTagId } = req.params;
+      const { pEventTags } = await import('@shared/schema');
+
+      await db
+        .delete(pEventTags)
+        .where(eq(pEventTags.id, eventTagId));
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting event tag:', error);
+      res.status(500).json({ error: 'Failed to delete event tag' });
+    }
+  });
+
+  // Get final quantities recorded against a BOQ item
+  app.get('/api/projects/:projectId/boq/items/:itemId/final-quantities', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.boqItem()), async (req, res) => {
+    try {
+      const { itemId } = req.params;
+      const { pFinalQty } = await import('@shared/schema');
+
+      const quantities = await db
+        .select()
+        .from(pFinalQty)
+        .where(eq(pFinalQty.boqItemId, itemId))
+        .orderBy(pFinalQty.date, pFinalQty.createdAt);
+
+      res.json(quantities);
+    } catch (error) {
+      console.error('Error fetching final quantities:', error);
+      res.status(500).json({ error: 'Failed to fetch final quantities' });
+    }
+  });
+
+  // Record a final quantity against a BOQ item
+  app.post('/api/projects/:projectId/boq/items/:itemId/final-quantities', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.boqItem()), async (req, res) => {
+    try {
+      const { projectId, itemId } = req.params;
+      const { pFinalQty, insertPFinalQtySchema } = await import('@shared/schema');
+
+      const validated = insertPFinalQtySchema.parse({
+        ...req.body,
+        date: req.body.date ? new Date(req.body.date) : null,
+        boqItemId: itemId,
+      });
+
+      if (validated.eventTagId && !(await isProjectEventTag(projectId, validated.eventTagId))) {
+        return res.status(400).json({ error: 'Event tag does not belong to this project' });
+      }
+
+      const [quantity] = await db
+        .insert(pFinalQty)
+        .values(validated)
+        .returning();
+
+      res.status(201).json(quantity);
+    } catch (error) {
+      console.error('Error creating final quantity:', error);
+      res.status(500).json({ error: 'Failed to create final quantity' });
+    }
+  });
+
+  // Update a final quantity
+  app.patch('/api/projects/:projectId/boq/final-quantities/:finalQtyId', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.finalQty()), async (req, res) => {
+    try {
+      const { projectId, finalQtyId } = req.params;
+      const { pFinalQty, insertPFinalQtySchema } = await import('@shared/schema');
+
+      const body = { ...req.body };
+      if ('date' in body) {
+        body.date = body.date ? new Date(body.date) : null;
+      }
+      const validated = insertPFinalQtySchema
+        .omit({ boqItemId: true })
+        .partial()
+        .parse(body);
+
+      if (validated.eventTagId && !(await isProjectEventTag(projectId, validated.eventTagId))) {
+        return res.status(400).json({ error: 'Event tag does not belong to this project' });
+      }
+
+      const [quantity] = await db
+        .update(pFinalQty)
+        .set(validated)
+        .where(eq(pFinalQty.id, finalQtyId))
+        .returning();
+
+      if (!quantity) {
+        return res.status(404).json({ error: 'Final quantity not found' });
+      }
+
+      res.json(quantity);
+    } catch (error) {
+      console.error('Error updating final quantity:', error);
+      res.status(500).json({ error: 'Failed to update final quantity' });
+    }
+  });
+
+  // Delete a final quantity
+  app.delete('/api/projects/:projectId/boq/final-quantities/:finalQtyId', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.finalQty()), async (req, res) => {
+    try {
+      const { finalQtyId } = req.params;
+      const { pFinalQty } = await import('@shared/schema');
+
+      await db
+        .delete(pFinalQty)
+        .where(eq(pFinalQty.id, finalQtyId));
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting final quantity:', error);
+      res.status(500).json({ error: 'Failed to delete final quantity' });
+    }
+  });
+
+  // === PROGRESS CLAIMS (VALUATIONS) ===
+
+  // Claim period header fields arrive with ISO date strings from the client
+  function parseClaimPeriodDates(body: any) {
+    const parsed = { ...body };
+    for (const field of ['periodStart', 'periodEnd']) {
+      if (field in parsed) {
+        parsed[field] = parsed[field] ? new Date(parsed[field]) : null;
+      }
+    }
+    return parsed;
+  }
+
+  // Get claim periods for a project with their headline values
+  app.get('/api/projects/:projectId/boq/claims', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { boqClaimPeriods } = await import('@shared/schema');
+      const { loadClaimValuation } = await import('./progressClaims');
+
+      const periods = await db
+        .select({ id: boqClaimPeriods.id })
+        .from(boqClaimPeriods)
+        .where(eq(boqClaimPeriods.projectId, projectId))
+        .orderBy(boqClaimPeriods.periodNumber);
+
+      const summaries = [];
+      for (const { id } of periods) {
+        const valuation = await loadClaimValuation(id);
+        if (!valuation) continue;
+        summaries.push({
+          ...valuation.period,
+          contractSum: valuation.contractSum,
+          percentComplete: valuation.percentComplete,
+          claimed: valuation.claimed,
+          approved: valuation.approved,
+        });
+      }
+
+      res.json(summaries);
+    } catch (error) {
+      console.error('Error fetching claim periods:', error);
+      res.status(500).json({ error: 'Failed to fetch claim periods' });
+    }
+  });
+
+  // Start a new claim period against the active BOQ revision, carrying forward cumulative progress
+  app.post('/api/projects/:projectId/boq/claims', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const person = (req as any).person;
+      const { boqClaimPeriods, boqClaimItems, boqRevisions, boqItems, insertBoqClaimPeriodSchema } = await import('@shared/schema');
+      const { valueClaimLine, getClaimLinesWithItemNumbers, previousLineMatcher } = await import('./progressClaims');
+
+      const [activeRevision] = await db
+        .select()
+        .from(boqRevisions)
+        .where(and(
+          eq(boqRevisions.projectId, projectId),
+          eq(boqRevisions.isActive, true)
+        ))
+        .limit(1);
+
+      if (!activeRevision) {
+        return res.status(400).json({ error: 'The project has no active BOQ revision' });
+      }
+
+      const [latestPeriod] = await db
+        .select()
+        .from(boqClaimPeriods)
+        .where(eq(boqClaimPeriods.projectId, projectId))
+        .orderBy(desc(boqClaimPeriods.periodNumber))
+        .limit(1);
+
+      if (latestPeriod?.status === 'draft') {
+        return res.status(409).json({ error: `Claim ${latestPeriod.periodNumber} must be submitted before starting the next claim` });
+      }
+
+      const periodNumber = (latestPeriod?.periodNumber ?? 0) + 1;
+      const validated = insertBoqClaimPeriodSchema.parse({
+        retentionPercent: latestPeriod?.retentionPercent,
+        retentionCap: latestPeriod?.retentionCap,
+        name: `Claim ${periodNumber}`,
+        ...parseClaimPeriodDates(req.body),
+        projectId,
+        revisionId: activeRevision.id,
+        periodNumber,
+        createdById: person.id,
+      });
+
+      const items = await db
+        .select()
+        .from(boqItems)
+        .where(eq(boqItems.revisionId, activeRevision.id));
+      const previousLines = latestPeriod ? await getClaimLinesWithItemNumbers(latestPeriod.id) : [];
+      const previousLineFor = previousLineMatcher(previousLines);
+
+      const newPeriod = await db.transaction(async (tx) => {
+        const [period] = await tx
+          .insert(boqClaimPeriods)
+          .values(validated)
+          .returning();
+
+        // Progress to date carries forward; matched by item number when the BOQ has been revised
+        const carriedLines = [];
+        for (const item of items) {
+          if (item.level !== null) continue;
+          const previous = previousLineFor(item);
+          if (!previous) continue;
+
+          const progress = previous.qtyComplete != null
+            ? { qtyComplete: parseFloat(previous.qtyComplete) }
+            : { percentComplete: previous.percentComplete != null ? parseFloat(previous.percentComplete) : null };
+          carriedLines.push({
+            claimPeriodId: period.id,
+            boqItemId: item.id,
+            ...valueClaimLine(item, progress),
+          });
+        }
+
+        if (carriedLines.length > 0) {
+          await tx.insert(boqClaimItems).values(carriedLines);
+        }
+        return period;
+      });
+
+      res.status(201).json(newPeriod);
+    } catch (error: any) {
+      console.error('Error creating claim period:', error);
+      if (error.code === '23505') {
+        return res.status(409).json({ error: 'A claim with this number already exists' });
+      }
+      res.status(500).json({ error: 'Failed to create claim period' });
+    }
+  });
+
+  // Get the valuation of a claim period
+  app.get('/api/projects/:projectId/boq/claims/:periodId', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.claimPeriod()), async (req, res) => {
+    try {
+      const { periodId } = req.params;
+      const { loadClaimValuation } = await import('./progressClaims');
+
+      const valuation = await loadClaimValuation(periodId);
+      if (!valuation) {
+        return res.status(404).json({ error: 'Claim period not found' });
+      }
+
+      res.json(valuation);
     } catch (error) {
-      console.error('Error creating BOQ item:', error);
-      res.status(500).json({ error: 'Failed to create BOQ item' });
+      console.error('Error fetching claim valuation:', error);
+      res.status(500).json({ error: 'Failed to fetch claim valuation' });
     }
   });
 
-  // Update BOQ item
-  app.put('/api/projects/:projectId/boq/items/:itemId', isAuthenticated, async (req, res) => {
+  // Update claim period details (draft periods only)
+  app.patch('/api/projects/:projectId/boq/claims/:periodId', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.claimPeriod()), async (req, res) => {
     try {
-      const { itemId } = req.params;
-      const itemData = req.body;
-      const { boqItems } = await import('@shared/schema');
+      const { periodId } = req.params;
+      const { boqClaimPeriods, insertBoqClaimPeriodSchema } = await import('@shared/schema');
 
-      const [updatedItem] = await db
-        .update(boqItems)
-        .set({ ...itemData, updatedAt: new Date() })
-        .where(eq(boqItems.id, itemId))
-        .returning();
+      const [period] = await db
+        .select()
+        .from(boqClaimPeriods)
+        .where(eq(boqClaimPeriods.id, periodId))
+        .limit(1);
 
-      if (!updatedItem) {
-        return res.status(404).json({ error: 'BOQ item not found' });
+      if (period.status !== 'draft') {
+        return res.status(409).json({ error: `Claim ${period.periodNumber} is ${period.status} and locked` });
       }
 
-      res.json(updatedItem);
+      const validated = insertBoqClaimPeriodSchema
+        .pick({ name: true, periodStart: true, periodEnd: true, retentionPercent: true, retentionCap: true, notes: true })
+        .partial()
+        .parse(parseClaimPeriodDates(req.body));
+
+      const [updated] = await db
+        .update(boqClaimPeriods)
+        .set({ ...validated, updatedAt: new Date() })
+        .where(eq(boqClaimPeriods.id, periodId))
+        .returning();
+
+      res.json(updated);
     } catch (error) {
-      console.error('Error updating BOQ item:', error);
-      res.status(500).json({ error: 'Failed to update BOQ item' });
+      console.error('Error updating claim period:', error);
+      res.status(500).json({ error: 'Failed to update claim period' });
     }
   });
 
-  // Delete BOQ item
-  app.delete('/api/projects/:projectId/boq/items/:itemId', isAuthenticated, async (req, res) => {
+  // Delete a claim period (latest draft only)
+  app.delete('/api/projects/:projectId/boq/claims/:periodId', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.claimPeriod()), async (req, res) => {
     try {
-      const { itemId } = req.params;
-      const { boqItems } = await import('@shared/schema');
+      const { projectId, periodId } = req.params;
+      const { boqClaimPeriods } = await import('@shared/schema');
+
+      const [latestPeriod] = await db
+        .select()
+        .from(boqClaimPeriods)
+        .where(eq(boqClaimPeriods.projectId, projectId))
+        .orderBy(desc(boqClaimPeriods.periodNumber))
+        .limit(1);
+
+      if (latestPeriod?.id !== periodId || latestPeriod.status !== 'draft') {
+        return res.status(409).json({ error: 'Only the latest draft claim can be deleted' });
+      }
 
       await db
-        .delete(boqItems)
-        .where(eq(boqItems.id, itemId));
+        .delete(boqClaimPeriods)
+        .where(eq(boqClaimPeriods.id, periodId));
 
       res.status(204).send();
     } catch (error) {
-      console.error('Error deleting BOQ item:', error);
-      res.status(500).json({ error: 'Failed to delete BOQ item' });
+      console.error('Error deleting claim period:', error);
+      res.status(500).json({ error: 'Failed to delete claim period' });
     }
   });
 
-  // Reorder BOQ items
-  app.post('/api/projects/:projectId/boq/items/reorder', isAuthenticated, async (req, res) => {
+  // Record progress on a BOQ item: quantity or percent complete while draft (BOQ.MANAGE), assessed (approved)
+  // value once submitted (CLAIM.APPROVE)
+  app.put('/api/projects/:projectId/boq/claims/:periodId/items/:itemId', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.claimPeriod()), async (req, res) => {
     try {
-      const { items } = req.body; // Array of {id, sortingIndex}
-      const { boqItems } = await import('@shared/schema');
+      const { periodId, itemId } = req.params;
+      const { qtyComplete, percentComplete, approvedAmount, comments } = req.body;
+      const { boqClaimPeriods, boqClaimItems, boqItems } = await import('@shared/schema');
+      const { valueClaimLine, parseClaimValue } = await import('./progressClaims');
 
-      if (!items || !Array.isArray(items)) {
-        return res.status(400).json({ error: 'Invalid request body' });
+      const [period] = await db
+        .select()
+        .from(boqClaimPeriods)
+        .where(eq(boqClaimPeriods.id, periodId))
+        .limit(1);
+
+      const [item] = await db
+        .select()
+        .from(boqItems)
+        .where(and(
+          eq(boqItems.id, itemId),
+          eq(boqItems.revisionId, period.revisionId)
+        ))
+        .limit(1);
+
+      if (!item || item.level !== null) {
+        return res.status(404).json({ error: 'BOQ item not found in this claim' });
       }
 
-      // Update each item's sortingIndex
-      await db.transaction(async (tx) => {
-        for (const item of items) {
-          await tx
-            .update(boqItems)
-            .set({ 
-              sortingIndex: item.sortingIndex,
-              updatedAt: new Date()
-            })
-            .where(eq(boqItems.id, item.id));
-        }
-      });
+      const updatesProgress = qtyComplete !== undefined || percentComplete !== undefined;
+      if (period.status === 'approved'
+        || (period.status === 'submitted' && updatesProgress)
+        || (period.status === 'draft' && approvedAmount !== undefined)) {
+        return res.status(409).json({
+          error: period.status === 'draft'
+            ? 'Approved values can only be recorded once the claim is submitted'
+            : `Claim ${period.periodNumber} is ${period.status} and locked`,
+        });
+      }
 
-      res.json({ success: true });
-    } catch (error) {
-      console.error('Error reordering BOQ items:', error);
-      res.status(500).json({ error: 'Failed to reorder BOQ items' });
-    }
-  });
+      // Preparing a claim and assessing it are separate duties
+      const requiredPermission = period.status === 'draft' ? PERMISSIONS.BOQ_MANAGE : PERMISSIONS.CLAIM_APPROVE;
+      if (!(await hasAccess(req, requiredPermission, (req as any).accessScope))) {
+        return res.status(403).json({ error: 'Forbidden', reason: 'missing_permission' });
+      }
 
-  // Get event tag statuses for a project
-  app.get('/api/projects/:projectId/boq/event-tag-statuses', isAuthenticated, async (req, res) => {
-    try {
-      const { projectId } = req.params;
-      const { pEventTagStatuses } = await import('@shared/schema');
+      const progressValue = parseClaimValue(qtyComplete !== undefined ? qtyComplete : percentComplete);
+      const approvedValue = parseClaimValue(approvedAmount);
+      if ((updatesProgress && progressValue === undefined) || (approvedAmount !== undefined && approvedValue === undefined)) {
+        return res.status(400).json({ error: 'Claim values must be numbers' });
+      }
 
-      const statuses = await db
-        .select()
-        .from(pEventTagStatuses)
-        .where(eq(pEventTagStatuses.projectId, projectId))
-        .orderBy(pEventTagStatuses.sortingIndex);
+      const values: Record<string, any> = { updatedAt: new Date() };
+      if (updatesProgress) {
+        Object.assign(values, valueClaimLine(item, qtyComplete !== undefined
+          ? { qtyComplete: progressValue }
+          : { percentComplete: progressValue }));
+      }
+      if (approvedAmount !== undefined) {
+        values.approvedAmount = approvedValue != null ? approvedValue.toFixed(2) : null;
+      }
+      if (comments !== undefined) {
+        values.comments = comments || null;
+      }
 
-      res.json(statuses);
+      const [line] = await db
+        .insert(boqClaimItems)
+        .values({ claimPeriodId: periodId, boqItemId: itemId, ...values })
+        .onConflictDoUpdate({
+          target: [boqClaimItems.claimPeriodId, boqClaimItems.boqItemId],
+          set: values,
+        })
+        .returning();
+
+      res.json(line);
     } catch (error) {
-      console.error('Error fetching event tag statuses:', error);
-      res.status(500).json({ error: 'Failed to fetch event tag statuses' });
+      console.error('Error updating claim item:', error);
+      res.status(500).json({ error: 'Failed to update claim item' });
     }
   });
 
-  // Seed base event tag statuses
-  app.post('/api/projects/:projectId/boq/event-tag-statuses/seed', isAuthenticated, async (req, res) => {
+  // Submit a claim period - claimed values are locked from here on
+  app.post('/api/projects/:projectId/boq/claims/:periodId/submit', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.claimPeriod()), async (req, res) => {
     try {
-      const { projectId } = req.params;
-      const { pEventTagStatuses, insertPEventTagStatusSchema } = await import('@shared/schema');
+      const { periodId } = req.params;
+      const person = (req as any).person;
+      const { boqClaimPeriods } = await import('@shared/schema');
 
-      const baseStatuses = [
-        { name: 'Identified', sortingIndex: 0 },
-        { name: 'Drafting', sortingIndex: 1 },
-        { name: 'Submitted', sortingIndex: 2 },
-        { name: 'Queried', sortingIndex: 3 },
-        { name: 'Approved', sortingIndex: 4 },
-        { name: 'Rejected', sortingIndex: 5 },
-        { name: 'On Hold', sortingIndex: 6 },
-      ];
+      const [updated] = await db
+        .update(boqClaimPeriods)
+        .set({ status: 'submitted', submittedAt: new Date(), submittedById: person.id, updatedAt: new Date() })
+        .where(and(
+          eq(boqClaimPeriods.id, periodId),
+          eq(boqClaimPeriods.status, 'draft')
+        ))
+        .returning();
 
-      const createdStatuses = [];
-      for (const status of baseStatuses) {
-        const validatedData = insertPEventTagStatusSchema.parse({
-          projectId,
-          ...status,
-        });
-        
-        const [created] = await db
-          .insert(pEventTagStatuses)
-          .values(validatedData)
-          .onConflictDoNothing()
-          .returning();
-        
-        if (created) {
-          createdStatuses.push(created);
-        }
+      if (!updated) {
+        return res.status(409).json({ error: 'Only draft claims can be submitted' });
       }
 
-      res.status(201).json(createdStatuses);
+      res.json(updated);
     } catch (error) {
-      console.error('Error seeding event tag statuses:', error);
-      res.status(500).json({ error: 'Failed to seed event tag statuses' });
+      console.error('Error submitting claim period:', error);
+      res.status(500).json({ error: 'Failed to submit claim period' });
     }
   });
 
-  // Get pricing basis options for a project
-  app.get('/api/projects/:projectId/boq/pricing-basis', isAuthenticated, async (req, res) => {
+  // Approve a submitted claim period - the period is fully locked from here on
+  app.post('/api/projects/:projectId/boq/claims/:periodId/approve', isAuthenticated, requirePermission(PERMISSIONS.CLAIM_APPROVE, scopes.claimPeriod()), async (req, res) => {
     try {
-      const { projectId } = req.params;
-      const { pPricingBasis } = await import('@shared/schema');
+      const { periodId } = req.params;
+      const person = (req as any).person;
+      const { boqClaimPeriods } = await import('@shared/schema');
 
-      const pricingBasis = await db
-        .select()
-        .from(pPricingBasis)
-        .where(eq(pPricingBasis.projectId, projectId))
-        .orderBy(pPricingBasis.sortingIndex);
+      const [updated] = await db
+        .update(boqClaimPeriods)
+        .set({ status: 'approved', approvedAt: new Date(), approvedById: person.id, updatedAt: new Date() })
+        .where(and(
+          eq(boqClaimPeriods.id, periodId),
+          eq(boqClaimPeriods.status, 'submitted')
+        ))
+        .returning();
 
-      res.json(pricingBasis);
+      if (!updated) {
+        return res.status(409).json({ error: 'Only submitted claims can be approved' });
+      }
+
+      res.json(updated);
     } catch (error) {
-      console.error('Error fetching pricing basis:', error);
-      res.status(500).json({ error: 'Failed to fetch pricing basis' });
+      console.error('Error approving claim period:', error);
+      res.status(500).json({ error: 'Failed to approve claim period' });
     }
   });
 
-  // Seed base pricing basis options
-  app.post('/api/projects/:projectId/boq/pricing-basis/seed', isAuthenticated, async (req, res) => {
+  // Export a payment claim to Excel or PDF
+  app.get('/api/projects/:projectId/boq/claims/:periodId/export/:format', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.claimPeriod()), async (req, res) => {
     try {
-      const { projectId } = req.params;
-      const { pPricingBasis, insertPPricingBasisSchema } = await import('@shared/schema');
+      const { projectId, periodId, format } = req.params;
+      const { loadClaimValuation } = await import('./progressClaims');
+      const { generatePaymentClaimExcel, generatePaymentClaimPDF } = await import('./paymentClaimExport');
 
-      const basePricingBasis = [
-        { name: 'Lump Sum', sortingIndex: 0 },
-        { name: 'Rates', sortingIndex: 1 },
-        { name: 'Rates + Daywork', sortingIndex: 2 },
-        { name: 'Cost Plus', sortingIndex: 3 },
-      ];
+      if (format !== 'xlsx' && format !== 'pdf') {
+        return res.status(400).json({ error: 'Export format must be xlsx or pdf' });
+      }
 
-      const createdPricingBasis = [];
-      for (const pricing of basePricingBasis) {
-        const validatedData = insertPPricingBasisSchema.parse({
-          projectId,
-          ...pricing,
-        });
-        
-        const [created] = await db
-          .insert(pPricingBasis)
-          .values(validatedData)
-          .onConflictDoNothing()
-          .returning();
-        
-        if (created) {
-          createdPricingBasis.push(created);
-        }
+      const valuation = await loadClaimValuation(periodId);
+      if (!valuation) {
+        return res.status(404).json({ error: 'Claim period not found' });
       }
 
-      res.status(201).json(createdPricingBasis);
+      const [project] = await db
+        .select({ name: projects.name, projectCode: projects.projectCode })
+        .from(projects)
+        .where(eq(projects.id, projectId))
+        .limit(1);
+
+      const projectName = project ? `${project.projectCode} ${project.name}` : 'Project';
+      const fileName = `${project?.projectCode ?? 'project'}_Payment_Claim_${valuation.period.periodNumber}.${format}`
+        .replace(/[^a-zA-Z0-9._-]/g, '_');
+
+      const buffer = format === 'xlsx'
+        ? await generatePaymentClaimExcel(valuation, projectName)
+        : await generatePaymentClaimPDF(valuation, projectName);
+
+      res.set({
+        'Content-Type': format === 'xlsx'
+          ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+          : 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': buffer.length,
+      });
+
+      res.send(buffer);
     } catch (error) {
-      console.error('Error seeding pricing basis:', error);
-      res.status(500).json({ error: 'Failed to seed pricing basis' });
+      console.error('Error exporting payment claim:', error);
+      res.status(500).json({ error: 'Failed to export payment claim' });
     }
   });
 
   // BOQ Excel import - preview
-  app.post('/api/projects/:projectId/boq/import/preview', isAuthenticated, upload.single('file'), async (req, res) => {
+  app.post('/api/projects/:projectId/boq/import/preview', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), upload.single('file'), async (req, res) => {
     try {
       const { projectId } = req.params;
       const file = req.file;
@@ -10538,7 +13140,7 @@ CRITICAL REQUIREMENTS:
   }>();
 
   // BOQ Excel import - progress check
-  app.get('/api/projects/:projectId/boq/import/progress/:importId', isAuthenticated, (req, res) => {
+  app.get('/api/projects/:projectId/boq/import/progress/:importId', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), (req, res) => {
     const { importId } = req.params;
     const progress = boqImportProgress.get(importId);
     
@@ -10550,7 +13152,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // BOQ Excel import - commit
-  app.post('/api/projects/:projectId/boq/import/commit', isAuthenticated, upload.single('file'), async (req, res) => {
+  app.post('/api/projects/:projectId/boq/import/commit', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), upload.single('file'), async (req, res) => {
     const { projectId } = req.params;
     const file = req.file;
     const { revisionId, columnMapping, headerRowNumber, importId, deleteExisting } = req.body;
@@ -10567,11 +13169,19 @@ CRITICAL REQUIREMENTS:
       return res.status(400).json({ error: 'Import ID is required' });
     }
 
+    const replaceExisting = deleteExisting === 'true' || deleteExisting === true;
+    if (replaceExisting) {
+      const { revisionHasLockedClaims } = await import('./progressClaims');
+      if (await revisionHasLockedClaims(revisionId)) {
+        return res.status(409).json({ error: 'Items of this revision are in a submitted progress claim and cannot be replaced' });
+      }
+    }
+
     // Start processing async (don't await)
     (async () => {
       try {
         const { parseExcelDataFull } = await import('./utils/excelParser');
-        const { boqItems, insertBoqItemSchema } = await import('@shared/schema');
+        const { boqItems, boqClaimItems, insertBoqItemSchema } = await import('@shared/schema');
 
         // Parse column mapping JSON
         const mapping = typeof columnMapping === 'string' 
@@ -10582,8 +13192,15 @@ CRITICAL REQUIREMENTS:
         const headerRow = headerRowNumber ? parseInt(headerRowNumber.toString()) : 1;
 
         // Delete existing items if requested
-        if (deleteExisting === 'true' || deleteExisting === true) {
-          await db.delete(boqItems).where(eq(boqItems.revisionId, revisionId));
+        if (replaceExisting) {
+          await db.transaction(async (tx) => {
+            // Only draft claims can have lines here (checked above)
+            await tx.delete(boqClaimItems).where(inArray(
+              boqClaimItems.boqItemId,
+              tx.select({ id: boqItems.id }).from(boqItems).where(eq(boqItems.revisionId, revisionId))
+            ));
+            await tx.delete(boqItems).where(eq(boqItems.revisionId, revisionId));
+          });
           console.log(`[BOQ Import] Deleted existing items for revision ${revisionId}`);
         }
 
@@ -10729,7 +13346,7 @@ CRITICAL REQUIREMENTS:
   // === GLOBAL VARIABLES ROUTES ===
 
   // Get all global variables for a project
-  app.get('/api/projects/:projectId/global-variables', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/global-variables', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { globalVariables } = await import('@shared/schema');
@@ -10748,7 +13365,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Create a new global variable
-  app.post('/api/projects/:projectId/global-variables', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/global-variables', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { globalVariables, insertGlobalVariableSchema } = await import('@shared/schema');
@@ -10763,6 +13380,9 @@ CRITICAL REQUIREMENTS:
         .values(validated)
         .returning();
 
+      // Worksheet formulas may reference the variable by name
+      await recalculateProjectWorksheets(projectId);
+
       // Broadcast WebSocket update
       globalVariablesWS.broadcastToProject(projectId, {
         type: 'global_variable_created',
@@ -10786,15 +13406,16 @@ CRITICAL REQUIREMENTS:
   });
 
   // Update a global variable
-  app.patch('/api/projects/:projectId/global-variables/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/projects/:projectId/global-variables/:id', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.globalVariable()), async (req, res) => {
     try {
       const { projectId, id } = req.params;
       const { globalVariables } = await import('@shared/schema');
 
+      const { projectId: _projectId, ...updates } = req.body;
       const [variable] = await db
         .update(globalVariables)
         .set({
-          ...req.body,
+          ...updates,
           updatedAt: new Date(),
         })
         .where(eq(globalVariables.id, id))
@@ -10804,6 +13425,9 @@ CRITICAL REQUIREMENTS:
         return res.status(404).json({ error: 'Global variable not found' });
       }
 
+      // Worksheet formulas may reference the variable by name
+      await recalculateProjectWorksheets(projectId);
+
       // Broadcast WebSocket update
       globalVariablesWS.broadcastToProject(projectId, {
         type: 'global_variable_updated',
@@ -10827,7 +13451,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Delete a global variable
-  app.delete('/api/projects/:projectId/global-variables/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/projects/:projectId/global-variables/:id', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.globalVariable()), async (req, res) => {
     try {
       const { projectId, id } = req.params;
       const { globalVariables } = await import('@shared/schema');
@@ -10841,6 +13465,9 @@ CRITICAL REQUIREMENTS:
         return res.status(404).json({ error: 'Global variable not found' });
       }
 
+      // Worksheet formulas may reference the variable by name
+      await recalculateProjectWorksheets(projectId);
+
       // Broadcast WebSocket update
       globalVariablesWS.broadcastToProject(projectId, {
         type: 'global_variable_deleted',
@@ -10857,7 +13484,7 @@ CRITICAL REQUIREMENTS:
   // === RESOURCE RATES ===
 
   // Get all resource rates for a project
-  app.get('/api/projects/:projectId/resource-rates', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/resource-rates', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { resourceRates, resourceTypes } = await import('@shared/schema');
@@ -10889,7 +13516,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Create a new resource rate
-  app.post('/api/projects/:projectId/resource-rates', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/resource-rates', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { resourceRates, insertResourceRateSchema, projects, businessUnits, resourceTypes } = await import('@shared/schema');
@@ -10957,6 +13584,9 @@ CRITICAL REQUIREMENTS:
         .where(eq(resourceRates.id, rate.id))
         .limit(1);
 
+      // Worksheet formulas and totals depend on resource rate codes and tender rates
+      await recalculateProjectWorksheets(projectId);
+
       // Broadcast WebSocket update with full resource type info
       resourceRatesWS.broadcastToProject(projectId, {
         type: 'resource_rate_created',
@@ -10980,13 +13610,13 @@ CRITICAL REQUIREMENTS:
   });
 
   // Update a resource rate
-  app.patch('/api/projects/:projectId/resource-rates/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/projects/:projectId/resource-rates/:id', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.resourceRate()), async (req, res) => {
     try {
       const { projectId, id } = req.params;
       const { resourceRates, insertResourceRateSchema, projects, businessUnits, resourceTypes } = await import('@shared/schema');
 
       // Validate and parse request body with partial schema
-      const validated = insertResourceRateSchema.partial().parse(req.body);
+      const validated = insertResourceRateSchema.omit({ projectId: true }).partial().parse(req.body);
 
       // If resourceTypeId is being updated, validate it against company's resource types
       if ('resourceTypeId' in validated && validated.resourceTypeId) {
@@ -11059,6 +13689,9 @@ CRITICAL REQUIREMENTS:
         .where(eq(resourceRates.id, rate.id))
         .limit(1);
 
+      // Worksheet formulas and totals depend on resource rate codes and tender rates
+      await recalculateProjectWorksheets(projectId);
+
       // Broadcast WebSocket update with full resource type info
       resourceRatesWS.broadcastToProject(projectId, {
         type: 'resource_rate_updated',
@@ -11082,7 +13715,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Delete a resource rate
-  app.delete('/api/projects/:projectId/resource-rates/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/projects/:projectId/resource-rates/:id', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.resourceRate()), async (req, res) => {
     try {
       const { projectId, id } = req.params;
       const { resourceRates } = await import('@shared/schema');
@@ -11100,6 +13733,9 @@ CRITICAL REQUIREMENTS:
         return res.status(404).json({ error: 'Resource rate not found' });
       }
 
+      // Worksheet formulas and totals depend on resource rate codes and tender rates
+      await recalculateProjectWorksheets(projectId);
+
       // Broadcast WebSocket update
       resourceRatesWS.broadcastToProject(projectId, {
         type: 'resource_rate_deleted',
@@ -11114,7 +13750,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Bulk import resource rates from Excel
-  app.post('/api/projects/:projectId/resource-rates/bulk-import', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/resource-rates/bulk-import', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { rows } = req.body as { rows: Array<{
@@ -11312,6 +13948,15 @@ CRITICAL REQUIREMENTS:
         }
       }
 
+      // Recalculate once for the whole import rather than per row
+      if (imported > 0) {
+        await recalculateProjectWorksheets(projectId);
+        resourceRatesWS.broadcastToProject(projectId, {
+          type: 'worksheet_items_recalculated',
+          data: { projectId }
+        });
+      }
+
       res.json({
         total: rows.length,
         imported,
@@ -11375,7 +14020,7 @@ CRITICAL REQUIREMENTS:
   }
 
   // Get all worksheets for a project
-  app.get('/api/projects/:projectId/worksheets', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/worksheets', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const person = (req as any).person;
@@ -11429,7 +14074,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Create a new worksheet
-  app.post('/api/projects/:projectId/worksheets', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/worksheets', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const person = (req as any).person;
@@ -11475,7 +14120,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Update a worksheet
-  app.patch('/api/projects/:projectId/worksheets/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/projects/:projectId/worksheets/:id', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.worksheet('id')), async (req, res) => {
     try {
       const { projectId, id } = req.params;
       const person = (req as any).person;
@@ -11489,7 +14134,7 @@ CRITICAL REQUIREMENTS:
       const { worksheets, insertWorksheetSchema } = await import('@shared/schema');
 
       // Validate and parse request body with partial schema
-      const validated = insertWorksheetSchema.partial().parse(req.body);
+      const validated = insertWorksheetSchema.omit({ projectId: true }).partial().parse(req.body);
 
       // Update with ownership check - only allow updating worksheets that belong to this project
       const [worksheet] = await db
@@ -11531,7 +14176,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Reorder worksheets (batch update sortingIndex)
-  app.patch('/api/projects/:projectId/worksheets/reorder', isAuthenticated, async (req, res) => {
+  app.patch('/api/projects/:projectId/worksheets/reorder', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const person = (req as any).person;
@@ -11579,7 +14224,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Delete a worksheet
-  app.delete('/api/projects/:projectId/worksheets/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/projects/:projectId/worksheets/:id', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.worksheet('id')), async (req, res) => {
     try {
       const { projectId, id } = req.params;
       const person = (req as any).person;
@@ -11590,7 +14235,13 @@ CRITICAL REQUIREMENTS:
         return res.status(403).json({ error: 'Access denied' });
       }
       
-      const { worksheets } = await import('@shared/schema');
+      const { worksheets, boqItemWorksheets } = await import('@shared/schema');
+
+      // BOQ items built up from this worksheet lose the link on delete, so capture them first
+      const linkedItems = await db
+        .select({ boqItemId: boqItemWorksheets.boqItemId })
+        .from(boqItemWorksheets)
+        .where(eq(boqItemWorksheets.worksheetId, id));
 
       // Delete with ownership check - only allow deleting worksheets that belong to this project
       const [worksheet] = await db
@@ -11605,6 +14256,8 @@ CRITICAL REQUIREMENTS:
         return res.status(404).json({ error: 'Worksheet not found' });
       }
 
+      await refreshBoqItemRates(projectId, linkedItems.map(link => link.boqItemId));
+
       // Broadcast WebSocket update
       worksheetsWS.broadcastToProject(projectId, {
         type: 'worksheet_deleted',
@@ -11621,7 +14274,7 @@ CRITICAL REQUIREMENTS:
   // === WORKSHEET ITEMS ROUTES ===
 
   // Get all items for a worksheet
-  app.get('/api/projects/:projectId/worksheets/:worksheetId/items', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/worksheets/:worksheetId/items', isAuthenticated, requirePermission(PERMISSIONS.COST_VIEW, scopes.worksheet()), async (req, res) => {
     try {
       const { projectId, worksheetId } = req.params;
       const person = (req as any).person;
@@ -11634,10 +14287,12 @@ CRITICAL REQUIREMENTS:
       
       const { worksheetItems } = await import('@shared/schema');
       
+      // Ordered by line number (the #LQ number used in formulas)
       const items = await db
         .select()
         .from(worksheetItems)
-        .where(eq(worksheetItems.worksheetId, worksheetId));
+        .where(eq(worksheetItems.worksheetId, worksheetId))
+        .orderBy(asc(worksheetItems.lq));
 
       res.json(items);
     } catch (error) {
@@ -11647,7 +14302,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Create a new worksheet item
-  app.post('/api/projects/:projectId/worksheets/:worksheetId/items', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/worksheets/:worksheetId/items', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.worksheet()), async (req, res) => {
     try {
       const { projectId, worksheetId } = req.params;
       const person = (req as any).person;
@@ -11658,46 +14313,31 @@ CRITICAL REQUIREMENTS:
         return res.status(403).json({ error: 'Access denied' });
       }
       
-      const { worksheetItems, insertWorksheetItemSchema, resourceRates } = await import('@shared/schema');
-      const { parseFormula } = await import('./utils/formulaParser');
+      const { worksheets, worksheetItems, insertWorksheetItemSchema } = await import('@shared/schema');
       
       const validated = insertWorksheetItemSchema.parse({
         ...req.body,
         worksheetId,
       });
 
-      // Fetch all worksheet items for cross-reference lookup
-      const allItems = await db
-        .select({ lq: worksheetItems.lq, result: worksheetItems.result })
-        .from(worksheetItems)
-        .where(eq(worksheetItems.worksheetId, worksheetId));
-
-      // Compute result from formula (with cross-reference support)
-      const result = parseFormula(validated.formula, allItems, validated.lq);
-
-      // Get tender rate from resource if available
-      let tenderRate = 0;
-      if (validated.resourceRateId) {
-        const [resource] = await db
-          .select()
-          .from(resourceRates)
-          .where(eq(resourceRates.id, validated.resourceRateId));
-        if (resource) {
-          tenderRate = parseFloat(resource.tenderRate || '0');
-        }
-      }
-
-      // Compute total = tenderRate * result
-      const total = Math.round(tenderRate * result * 100) / 100;
+      // New lines take the worksheet's next line number. Numbers of deleted lines are never
+      // reused, so #LQ references cannot silently move to a different line.
+      const created = await db.transaction(async (tx) => {
+        const [{ lastLineNumber }] = await tx
+          .update(worksheets)
+          .set({ lastLineNumber: sql`${worksheets.lastLineNumber} + 1` })
+          .where(eq(worksheets.id, worksheetId))
+          .returning({ lastLineNumber: worksheets.lastLineNumber });
+        const [item] = await tx
+          .insert(worksheetItems)
+          .values({ ...validated, lq: lastLineNumber })
+          .returning();
+        return item;
+      });
 
-      const [item] = await db
-        .insert(worksheetItems)
-        .values({
-          ...validated,
-          result: result.toString(),
-          total: total.toString(),
-        })
-        .returning();
+      // Evaluate the new formula (and any items whose #LQ references now resolve)
+      const items = await recalculateWorksheet(projectId, worksheetId);
+      const item = items.find(i => i.id === created.id) ?? created;
 
       res.status(201).json(item);
     } catch (error: any) {
@@ -11707,7 +14347,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Update a worksheet item
-  app.patch('/api/projects/:projectId/worksheets/:worksheetId/items/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/projects/:projectId/worksheets/:worksheetId/items/:id', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.worksheetItem()), async (req, res) => {
     try {
       const { projectId, worksheetId, id } = req.params;
       const person = (req as any).person;
@@ -11718,67 +14358,16 @@ CRITICAL REQUIREMENTS:
         return res.status(403).json({ error: 'Access denied' });
       }
       
-      const { worksheetItems, insertWorksheetItemSchema, resourceRates } = await import('@shared/schema');
-      const { parseFormula } = await import('./utils/formulaParser');
+      const { worksheetItems, insertWorksheetItemSchema } = await import('@shared/schema');
 
       // Validate and parse request body with partial schema
-      const validated = insertWorksheetItemSchema.partial().parse(req.body);
-
-      // Get the current item to access existing values
-      const [currentItem] = await db
-        .select()
-        .from(worksheetItems)
-        .where(and(
-          eq(worksheetItems.id, id),
-          eq(worksheetItems.worksheetId, worksheetId)
-        ));
-
-      if (!currentItem) {
-        return res.status(404).json({ error: 'Worksheet item not found' });
-      }
-
-      // Fetch all worksheet items for cross-reference lookup
-      const allItems = await db
-        .select({ lq: worksheetItems.lq, result: worksheetItems.result })
-        .from(worksheetItems)
-        .where(eq(worksheetItems.worksheetId, worksheetId));
-
-      // Determine final formula (use updated or existing)
-      const finalFormula = validated.formula !== undefined ? validated.formula : currentItem.formula;
-      
-      // Determine final LQ (use updated or existing)
-      const finalLq = validated.lq !== undefined ? validated.lq : currentItem.lq;
-      
-      // Compute result from formula (with cross-reference support)
-      const result = parseFormula(finalFormula, allItems, finalLq);
-
-      // Determine final resourceRateId (use updated or existing)
-      const finalResourceRateId = validated.resourceRateId !== undefined 
-        ? validated.resourceRateId 
-        : currentItem.resourceRateId;
-
-      // Get tender rate from resource if available
-      let tenderRate = 0;
-      if (finalResourceRateId) {
-        const [resource] = await db
-          .select()
-          .from(resourceRates)
-          .where(eq(resourceRates.id, finalResourceRateId));
-        if (resource) {
-          tenderRate = parseFloat(resource.tenderRate || '0');
-        }
-      }
-
-      // Compute total = tenderRate * result
-      const total = Math.round(tenderRate * result * 100) / 100;
+      const validated = insertWorksheetItemSchema.omit({ worksheetId: true }).partial().parse(req.body);
 
       // Update with ownership check - only allow updating items that belong to this worksheet
-      const [item] = await db
+      const [updated] = await db
         .update(worksheetItems)
         .set({
           ...validated,
-          result: result.toString(),
-          total: total.toString(),
           updatedAt: new Date(),
         })
         .where(and(
@@ -11787,6 +14376,14 @@ CRITICAL REQUIREMENTS:
         ))
         .returning();
 
+      if (!updated) {
+        return res.status(404).json({ error: 'Worksheet item not found' });
+      }
+
+      // Recalculate the whole worksheet so items referencing this one via #LQ update too
+      const items = await recalculateWorksheet(projectId, worksheetId);
+      const item = items.find(i => i.id === id) ?? updated;
+
       res.json(item);
     } catch (error: any) {
       console.error('Error updating worksheet item:', error);
@@ -11795,7 +14392,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Delete a worksheet item
-  app.delete('/api/projects/:projectId/worksheets/:worksheetId/items/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/projects/:projectId/worksheets/:worksheetId/items/:id', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.worksheetItem()), async (req, res) => {
     try {
       const { projectId, worksheetId, id } = req.params;
       const person = (req as any).person;
@@ -11821,6 +14418,9 @@ CRITICAL REQUIREMENTS:
         return res.status(404).json({ error: 'Worksheet item not found' });
       }
 
+      // Line numbers do not shift, so #LQ references to the deleted line now report an error
+      await recalculateWorksheet(projectId, worksheetId);
+
       res.json(item);
     } catch (error) {
       console.error('Error deleting worksheet item:', error);
@@ -11829,7 +14429,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Worksheets Excel import - preview
-  app.post('/api/projects/:projectId/worksheets/import/preview', isAuthenticated, upload.single('file'), async (req, res) => {
+  app.post('/api/projects/:projectId/worksheets/import/preview', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), upload.single('file'), async (req, res) => {
     try {
       const { projectId } = req.params;
       const person = (req as any).person;
@@ -11877,7 +14477,7 @@ CRITICAL REQUIREMENTS:
   }>();
 
   // Worksheets Excel import - progress check
-  app.get('/api/projects/:projectId/worksheets/import/progress/:importId', isAuthenticated, (req, res) => {
+  app.get('/api/projects/:projectId/worksheets/import/progress/:importId', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), (req, res) => {
     const { importId } = req.params;
     const progress = worksheetsImportProgress.get(importId);
     
@@ -11889,7 +14489,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Worksheets Excel import - commit
-  app.post('/api/projects/:projectId/worksheets/import/commit', isAuthenticated, upload.single('file'), async (req, res) => {
+  app.post('/api/projects/:projectId/worksheets/import/commit', isAuthenticated, requirePermission(PERMISSIONS.BOQ_MANAGE, scopes.project()), upload.single('file'), async (req, res) => {
     const { projectId } = req.params;
     const person = (req as any).person;
     const file = req.file;
@@ -12052,7 +14652,7 @@ CRITICAL REQUIREMENTS:
   // === PROCUREMENT: SUBCONTRACT TEMPLATES ===
 
   // Upload subcontract template PDF
-  app.post('/api/companies/:companyId/subcontract-templates/upload', isAuthenticated, upload.single('file'), async (req, res) => {
+  app.post('/api/companies/:companyId/subcontract-templates/upload', isAuthenticated, requirePermission(PERMISSIONS.SETTINGS_MANAGE, scopes.company()), upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
@@ -12092,7 +14692,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Upload head contract PDF for a project
-  app.post('/api/projects/:projectId/head-contract/upload', isAuthenticated, upload.single('file'), async (req, res) => {
+  app.post('/api/projects/:projectId/head-contract/upload', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.project()), upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
@@ -12122,7 +14722,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Upload specifications PDF for a project
-  app.post('/api/projects/:projectId/specifications/upload', isAuthenticated, upload.single('file'), async (req, res) => {
+  app.post('/api/projects/:projectId/specifications/upload', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.project()), upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
@@ -12152,7 +14752,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Get all subcontract templates for a company
-  app.get('/api/companies/:companyId/subcontract-templates', isAuthenticated, async (req, res) => {
+  app.get('/api/companies/:companyId/subcontract-templates', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.company()), async (req, res) => {
     try {
       const { companyId } = req.params;
       const { subcontractTemplates } = await import('@shared/schema');
@@ -12171,7 +14771,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Create new subcontract template
-  app.post('/api/companies/:companyId/subcontract-templates', isAuthenticated, async (req, res) => {
+  app.post('/api/companies/:companyId/subcontract-templates', isAuthenticated, requirePermission(PERMISSIONS.SETTINGS_MANAGE, scopes.company()), async (req, res) => {
     try {
       const { companyId } = req.params;
       const { subcontractTemplates, insertSubcontractTemplateSchema } = await import('@shared/schema');
@@ -12195,7 +14795,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Get template details
-  app.get('/api/subcontract-templates/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/subcontract-templates/:id', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.subcontractTemplate()), async (req, res) => {
     try {
       const { id } = req.params;
       const { subcontractTemplates } = await import('@shared/schema');
@@ -12218,15 +14818,16 @@ CRITICAL REQUIREMENTS:
   });
 
   // Update template
-  app.patch('/api/subcontract-templates/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/subcontract-templates/:id', isAuthenticated, requirePermission(PERMISSIONS.SETTINGS_MANAGE, scopes.subcontractTemplate()), async (req, res) => {
     try {
       const { id } = req.params;
       const { subcontractTemplates } = await import('@shared/schema');
 
+      const { companyId: _companyId, ...updates } = req.body;
       const [updated] = await db
         .update(subcontractTemplates)
         .set({ 
-          ...req.body,
+          ...updates,
           updatedAt: new Date(),
         })
         .where(eq(subcontractTemplates.id, id))
@@ -12244,7 +14845,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Delete template
-  app.delete('/api/subcontract-templates/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/subcontract-templates/:id', isAuthenticated, requirePermission(PERMISSIONS.SETTINGS_MANAGE, scopes.subcontractTemplate()), async (req, res) => {
     try {
       const { id } = req.params;
       const { subcontractTemplates } = await import('@shared/schema');
@@ -12266,7 +14867,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Get all special condition drafts for a project
-  app.get('/api/projects/:projectId/special-conditions', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:projectId/special-conditions', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { specialConditionDrafts } = await import('@shared/schema');
@@ -12285,7 +14886,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Create new special condition draft
-  app.post('/api/projects/:projectId/special-conditions', isAuthenticated, async (req, res) => {
+  app.post('/api/projects/:projectId/special-conditions', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.project()), async (req, res) => {
     try {
       const { projectId } = req.params;
       const { specialConditionDrafts, insertSpecialConditionDraftSchema, projects, businessUnits } = await import('@shared/schema');
@@ -12322,7 +14923,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Get draft details with blocks
-  app.get('/api/special-conditions/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/special-conditions/:id', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.specialCondition()), async (req, res) => {
     try {
       const { id } = req.params;
       const { specialConditionDrafts, specialConditionBlocks } = await import('@shared/schema');
@@ -12351,15 +14952,16 @@ CRITICAL REQUIREMENTS:
   });
 
   // Update draft
-  app.patch('/api/special-conditions/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/special-conditions/:id', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.specialCondition()), async (req, res) => {
     try {
       const { id } = req.params;
       const { specialConditionDrafts } = await import('@shared/schema');
 
+      const { companyId: _companyId, projectId: _projectId, ...updates } = req.body;
       const [updated] = await db
         .update(specialConditionDrafts)
         .set({ 
-          ...req.body,
+          ...updates,
           updatedAt: new Date(),
         })
         .where(eq(specialConditionDrafts.id, id))
@@ -12377,7 +14979,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Delete draft
-  app.delete('/api/special-conditions/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/special-conditions/:id', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.specialCondition()), async (req, res) => {
     try {
       const { id } = req.params;
       const { specialConditionDrafts } = await import('@shared/schema');
@@ -12399,7 +15001,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Add block to draft
-  app.post('/api/special-conditions/:id/blocks', isAuthenticated, async (req, res) => {
+  app.post('/api/special-conditions/:id/blocks', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.specialCondition()), async (req, res) => {
     try {
       const { id } = req.params;
       const { specialConditionBlocks, insertSpecialConditionBlockSchema } = await import('@shared/schema');
@@ -12422,18 +15024,19 @@ CRITICAL REQUIREMENTS:
   });
 
   // Update block
-  app.patch('/api/special-conditions/:draftId/blocks/:blockId', isAuthenticated, async (req, res) => {
+  app.patch('/api/special-conditions/:draftId/blocks/:blockId', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.specialCondition('draftId')), async (req, res) => {
     try {
-      const { blockId } = req.params;
+      const { draftId, blockId } = req.params;
       const { specialConditionBlocks } = await import('@shared/schema');
 
+      const { draftId: _draftId, ...updates } = req.body;
       const [updated] = await db
         .update(specialConditionBlocks)
         .set({ 
-          ...req.body,
+          ...updates,
           updatedAt: new Date(),
         })
-        .where(eq(specialConditionBlocks.id, blockId))
+        .where(and(eq(specialConditionBlocks.id, blockId), eq(specialConditionBlocks.draftId, draftId)))
         .returning();
 
       if (!updated) {
@@ -12448,14 +15051,14 @@ CRITICAL REQUIREMENTS:
   });
 
   // Delete block
-  app.delete('/api/special-conditions/:draftId/blocks/:blockId', isAuthenticated, async (req, res) => {
+  app.delete('/api/special-conditions/:draftId/blocks/:blockId', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.specialCondition('draftId')), async (req, res) => {
     try {
-      const { blockId } = req.params;
+      const { draftId, blockId } = req.params;
       const { specialConditionBlocks } = await import('@shared/schema');
 
       const [deleted] = await db
         .delete(specialConditionBlocks)
-        .where(eq(specialConditionBlocks.id, blockId))
+        .where(and(eq(specialConditionBlocks.id, blockId), eq(specialConditionBlocks.draftId, draftId)))
         .returning();
 
       if (!deleted) {
@@ -12470,7 +15073,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Generate AI special conditions
-  app.post('/api/special-conditions/:id/generate', isAuthenticated, async (req, res) => {
+  app.post('/api/special-conditions/:id/generate', isAuthenticated, requirePermission(PERMISSIONS.DOC_UPLOAD, scopes.specialCondition()), async (req, res) => {
     try {
       const { id } = req.params;
       const { generateSpecialConditions } = await import('./aiSpecialConditions');
@@ -12510,7 +15113,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Export special conditions to DOCX
-  app.get('/api/special-conditions/:id/export/docx', isAuthenticated, async (req, res) => {
+  app.get('/api/special-conditions/:id/export/docx', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.specialCondition()), async (req, res) => {
     try {
       const { id } = req.params;
       const { generateSpecialConditionsWord } = await import('./specialConditionsExport');
@@ -12533,7 +15136,7 @@ CRITICAL REQUIREMENTS:
   });
 
   // Export special conditions to PDF (redirects to DOCX)
-  app.get('/api/special-conditions/:id/export/pdf', isAuthenticated, async (req, res) => {
+  app.get('/api/special-conditions/:id/export/pdf', isAuthenticated, requirePermission(PERMISSIONS.DOC_VIEW, scopes.specialCondition()), async (req, res) => {
     try {
       const { id } = req.params;
       const { generateSpecialConditionsPDF } = await import('./specialConditionsExport');
@@ -12576,5 +15179,8 @@ CRITICAL REQUIREMENTS:
   worksheetsWS.initialize(httpServer);
   console.log('[WorksheetsWS] Worksheets WebSocket server initialized');
 
+  // Recompute RFI overdue state and days outstanding hourly
+  startRfiSlaScheduler();
+
   return httpServer;
 }
@@ -1,16 +1,35 @@
+import { parseXERDate } from "./xerCalendar";
+
 interface XERTask {
   taskId: string;
   taskCode: string;
   taskName: string;
+  startDate?: string | null;
+  finishDate?: string | null;
   duration: number | null;
   totalFloat: number | null;
+  taskType?: string | null;
+  calendarId?: string | null;
+  status?: string | null;
   cstrType?: string;
   cstrDate?: string;
+  actualStart?: string | null;
+  actualFinish?: string | null;
+  remainingDuration?: number | null;
+  resourceCount?: number;
+}
+
+interface XERCalendar {
+  calendarId: string;
+  isDefault?: boolean;
+  hoursPerDay?: number | null;
 }
 
 interface XERRelationship {
   predTaskId: string;
   taskId: string;
+  predType?: string;
+  lag?: number | null;
 }
 
 interface InsightDetail {
@@ -20,6 +39,20 @@ interface InsightDetail {
   ref?: Record<string, unknown>;
 }
 
+export interface DcmaCheck {
+  id: number; // DCMA check number, 1-14
+  key: string;
+  name: string;
+  description: string;
+  threshold: string;
+  value: number | null; // Percent, count or index (see unit); null when not assessed
+  unit: "percent" | "count" | "index" | "test";
+  passed: boolean | null; // null when the check cannot be assessed (e.g. no baseline)
+  population: number; // Activities or relationships assessed
+  offenders: InsightDetail[];
+  note?: string;
+}
+
 export interface ScheduleInsights {
   score: number;
   summary: string;
@@ -30,11 +63,18 @@ export interface ScheduleInsights {
     missingLogic: InsightDetail[];
     criticalPathAnalysis: InsightDetail[];
   };
+  dcma?: DcmaCheck[];
 }
 
-export function computeScheduleInsights(xerData: any): ScheduleInsights {
+/**
+ * @param xerData - Parsed XER data, with recalculated float
+ * @param baselineXerData - Contract baseline program, for the baseline-dependent DCMA checks
+ *   (missed tasks, CPLI, BEI)
+ */
+export function computeScheduleInsights(xerData: any, baselineXerData?: any): ScheduleInsights {
   const tasks: XERTask[] = xerData?.tasks || [];
   const relationships: XERRelationship[] = xerData?.relationships || [];
+  const hoursPerDay = hoursPerDayLookup(xerData?.calendars || []);
 
   // Build predecessor/successor maps
   const successorsByPred = new Map<string, string[]>();
@@ -84,8 +124,9 @@ export function computeScheduleInsights(xerData: any): ScheduleInsights {
     }
 
     // Check for long durations (> 20 working days)
-    if (durationHours > 8 * 20) {
-      const days = Math.round(durationHours / 8);
+    const taskHoursPerDay = hoursPerDay(task);
+    if (durationHours > taskHoursPerDay * 20) {
+      const days = Math.round(durationHours / taskHoursPerDay);
       longDurations.push({
         type: "longDuration",
         severity: "warn",
@@ -138,7 +179,10 @@ export function computeScheduleInsights(xerData: any): ScheduleInsights {
   if (score < 0) score = 0;
 
   const criticalCount = criticalPathAnalysis.length;
-  const summary = `Quality Score: ${score}/100 | Open Ends: ${openEnds.length} | Long Durations: ${longDurations.length} | Hard Constraints: ${hardConstraints.length} | Unlinked: ${missingLogic.length} | Critical Path: ${criticalCount} activities`;
+  const dcma = computeDcmaChecks(xerData, baselineXerData);
+  const dcmaAssessed = dcma.filter(check => check.passed !== null);
+  const dcmaPassed = dcmaAssessed.filter(check => check.passed).length;
+  const summary = `Quality Score: ${score}/100 | Open Ends: ${openEnds.length} | Long Durations: ${longDurations.length} | Hard Constraints: ${hardConstraints.length} | Unlinked: ${missingLogic.length} | Critical Path: ${criticalCount} activities | DCMA: ${dcmaPassed}/${dcmaAssessed.length} checks passed`;
 
   return {
     score,
@@ -150,6 +194,418 @@ export function computeScheduleInsights(xerData: any): ScheduleInsights {
       missingLogic,
       criticalPathAnalysis,
     },
+    dcma,
+  };
+}
+
+// DCMA thresholds, in working days of the activity's calendar
+const HIGH_FLOAT_DAYS = 44;
+const HIGH_DURATION_DAYS = 44;
+// Programs stored before calendars were parsed, or calendars without day_hr_cnt
+const DEFAULT_HOURS_PER_DAY = 8;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Returns the working hours per day of an activity's calendar (falling back to the
+ * project default calendar), to express P6's hour-based durations and float in days
+ */
+function hoursPerDayLookup(calendars: XERCalendar[]): (task: XERTask) => number {
+  const valid = (hours: number | null | undefined): hours is number => typeof hours === "number" && hours > 0;
+  const hoursByCalendar = new Map(calendars.filter(cal => valid(cal.hoursPerDay)).map(cal => [cal.calendarId, cal.hoursPerDay!]));
+  const defaultCalendar = calendars.find(cal => cal.isDefault);
+  const defaultHours = valid(defaultCalendar?.hoursPerDay) ? defaultCalendar!.hoursPerDay! : DEFAULT_HOURS_PER_DAY;
+  return task => (task.calendarId && hoursByCalendar.get(task.calendarId)) || defaultHours;
+}
+
+// P6 constraints that fix dates regardless of logic
+const DCMA_HARD_CONSTRAINTS = ["CS_MSO", "CS_MEO", "CS_MSOB", "CS_MEOB", "CS_MANDSTART", "CS_MANDFIN"];
+// Level of effort and WBS summary activities are excluded from the DCMA population
+const DCMA_EXCLUDED_TYPES = ["TT_LOE", "TT_WBS"];
+const MILESTONE_TYPES = ["TT_Mile", "TT_FinMile"];
+
+const percent = (count: number, population: number) => (population > 0 ? Math.round((count / population) * 1000) / 10 : 0);
+
+const activityLabel = (task: XERTask) => `${task.taskCode} "${task.taskName}"`;
+
+const taskRef = (task: XERTask, extra: Record<string, unknown> = {}) => ({ taskId: task.taskId, taskCode: task.taskCode, ...extra });
+
+const isComplete = (task: XERTask) => task.status === "TK_Complete" || !!task.actualFinish;
+
+function ratioCheck(
+  base: Omit<DcmaCheck, "value" | "unit" | "passed" | "population" | "offenders">,
+  offenders: InsightDetail[],
+  population: number,
+  maxPercent: number
+): DcmaCheck {
+  const value = percent(offenders.length, population);
+  return { ...base, value, unit: "percent", passed: value <= maxPercent, population, offenders };
+}
+
+function countCheck(
+  base: Omit<DcmaCheck, "value" | "unit" | "passed" | "population" | "offenders">,
+  offenders: InsightDetail[],
+  population: number
+): DcmaCheck {
+  return { ...base, value: offenders.length, unit: "count", passed: offenders.length === 0, population, offenders };
+}
+
+const notAssessed = (
+  base: Omit<DcmaCheck, "value" | "unit" | "passed" | "population" | "offenders">,
+  unit: DcmaCheck["unit"],
+  note: string
+): DcmaCheck => ({ ...base, value: null, unit, passed: null, population: 0, offenders: [], note });
+
+/**
+ * DCMA 14-point schedule assessment. The population is incomplete activities
+ * (relationships to incomplete successors), excluding level of effort and WBS summaries.
+ */
+export function computeDcmaChecks(xerData: any, baselineXerData?: any): DcmaCheck[] {
+  const tasks: XERTask[] = xerData?.tasks || [];
+  const relationships: XERRelationship[] = xerData?.relationships || [];
+  const dataDate = parseXERDate(xerData?.project?.dataDate);
+  const hoursPerDay = hoursPerDayLookup(xerData?.calendars || []);
+  const inDays = (task: XERTask, hours: number) => Math.round(hours / hoursPerDay(task));
+
+  const taskMap = new Map(tasks.map(task => [task.taskId, task]));
+  const predecessorsByTask = new Map<string, XERRelationship[]>();
+  const successorsByTask = new Map<string, XERRelationship[]>();
+  for (const rel of relationships) {
+    if (!taskMap.has(rel.predTaskId) || !taskMap.has(rel.taskId)) continue;
+    if (!predecessorsByTask.has(rel.taskId)) predecessorsByTask.set(rel.taskId, []);
+    if (!successorsByTask.has(rel.predTaskId)) successorsByTask.set(rel.predTaskId, []);
+    predecessorsByTask.get(rel.taskId)!.push(rel);
+    successorsByTask.get(rel.predTaskId)!.push(rel);
+  }
+
+  const incomplete = tasks.filter(task => !isComplete(task) && !DCMA_EXCLUDED_TYPES.includes(task.taskType || ""));
+  const incompleteWork = incomplete.filter(task => !MILESTONE_TYPES.includes(task.taskType || ""));
+  const incompleteRelationships = relationships.filter(rel => {
+    const succ = taskMap.get(rel.taskId);
+    return !!succ && !!taskMap.get(rel.predTaskId) && !isComplete(succ);
+  });
+  const relationshipLabel = (rel: XERRelationship) => {
+    const lag = rel.lag || 0;
+    const type = (rel.predType || "PR_FS").replace("PR_", "");
+    return `${taskMap.get(rel.predTaskId)!.taskCode} → ${taskMap.get(rel.taskId)!.taskCode} (${type}${lag !== 0 ? ` ${lag > 0 ? "+" : ""}${lag}h` : ""})`;
+  };
+  const relationshipRef = (rel: XERRelationship) => ({
+    taskId: rel.taskId,
+    taskCode: taskMap.get(rel.taskId)!.taskCode,
+    predTaskCode: taskMap.get(rel.predTaskId)!.taskCode,
+    predType: rel.predType,
+    lag: rel.lag,
+  });
+
+  const checks: DcmaCheck[] = [];
+
+  // 1. Logic - the project start milestone may have no predecessor, the finish milestone no successor
+  const missingLogic: InsightDetail[] = [];
+  for (const task of incomplete) {
+    const noPreds = !predecessorsByTask.get(task.taskId)?.length && task.taskType !== "TT_Mile";
+    const noSuccs = !successorsByTask.get(task.taskId)?.length && task.taskType !== "TT_FinMile";
+    if (noPreds || noSuccs) {
+      const missing = noPreds && noSuccs ? "predecessors or successors" : noPreds ? "predecessors" : "successors";
+      missingLogic.push({ type: "dcmaLogic", severity: "error", message: `${activityLabel(task)} has no ${missing}`, ref: taskRef(task) });
+    }
+  }
+  checks.push(ratioCheck({
+    id: 1, key: "logic", name: "Logic", threshold: "≤ 5%",
+    description: "Incomplete activities missing a predecessor or successor",
+  }, missingLogic, incomplete.length, 5));
+
+  // 2. Leads (negative lag)
+  const leads = incompleteRelationships.filter(rel => (rel.lag || 0) < 0);
+  checks.push(countCheck({
+    id: 2, key: "leads", name: "Leads", threshold: "0",
+    description: "Relationships with a negative lag",
+  }, leads.map(rel => ({
+    type: "dcmaLead", severity: "error",
+    message: relationshipLabel(rel),
+    ref: relationshipRef(rel),
+  })), incompleteRelationships.length));
+
+  // 3. Lags (positive lag)
+  const lags = incompleteRelationships.filter(rel => (rel.lag || 0) > 0);
+  checks.push(ratioCheck({
+    id: 3, key: "lags", name: "Lags", threshold: "≤ 5%",
+    description: "Relationships with a positive lag",
+  }, lags.map(rel => ({
+    type: "dcmaLag", severity: "warn",
+    message: relationshipLabel(rel),
+    ref: relationshipRef(rel),
+  })), incompleteRelationships.length, 5));
+
+  // 4. Relationship types
+  const nonFinishToStart = incompleteRelationships.filter(rel => (rel.predType || "PR_FS") !== "PR_FS");
+  const fsPercent = 100 - percent(nonFinishToStart.length, incompleteRelationships.length);
+  checks.push({
+    id: 4, key: "relationshipTypes", name: "Relationship Types", threshold: "≥ 90% FS",
+    description: "Share of finish-to-start relationships",
+    value: incompleteRelationships.length > 0 ? Math.round(fsPercent * 10) / 10 : null,
+    unit: "percent",
+    passed: incompleteRelationships.length > 0 ? fsPercent >= 90 : null,
+    population: incompleteRelationships.length,
+    offenders: nonFinishToStart.map(rel => ({
+      type: "dcmaRelationshipType", severity: "info" as const,
+      message: relationshipLabel(rel),
+      ref: relationshipRef(rel),
+    })),
+  });
+
+  // 5. Hard constraints
+  const hardConstraints = incomplete.filter(task => DCMA_HARD_CONSTRAINTS.includes(task.cstrType || ""));
+  checks.push(ratioCheck({
+    id: 5, key: "hardConstraints", name: "Hard Constraints", threshold: "≤ 5%",
+    description: "Activities with constraints that override logic (must start/finish on, start/finish on or before, mandatory)",
+  }, hardConstraints.map(task => ({
+    type: "dcmaHardConstraint", severity: "error",
+    message: `${activityLabel(task)} has a ${task.cstrType} constraint${task.cstrDate ? ` (${task.cstrDate})` : ""}`,
+    ref: taskRef(task, { constraintType: task.cstrType, constraintDate: task.cstrDate }),
+  })), incomplete.length, 5));
+
+  // 6. High float
+  const withFloat = incomplete.filter(task => task.totalFloat !== null && task.totalFloat !== undefined);
+  const highFloat = withFloat.filter(task => task.totalFloat! > HIGH_FLOAT_DAYS * hoursPerDay(task));
+  checks.push(ratioCheck({
+    id: 6, key: "highFloat", name: "High Float", threshold: "≤ 5%",
+    description: "Activities with total float over 44 working days",
+  }, highFloat.map(task => ({
+    type: "dcmaHighFloat", severity: "warn",
+    message: `${activityLabel(task)} has ${inDays(task, task.totalFloat!)}d total float`,
+    ref: taskRef(task, { totalFloat: task.totalFloat }),
+  })), withFloat.length, 5));
+
+  // 7. Negative float
+  const negativeFloat = withFloat.filter(task => task.totalFloat! < 0);
+  checks.push(countCheck({
+    id: 7, key: "negativeFloat", name: "Negative Float", threshold: "0",
+    description: "Activities with total float below zero",
+  }, negativeFloat.map(task => ({
+    type: "dcmaNegativeFloat", severity: "error",
+    message: `${activityLabel(task)} has ${inDays(task, task.totalFloat!)}d total float`,
+    ref: taskRef(task, { totalFloat: task.totalFloat }),
+  })), withFloat.length));
+
+  // 8. High duration
+  const highDuration = incompleteWork.filter(task => (task.remainingDuration ?? task.duration ?? 0) > HIGH_DURATION_DAYS * hoursPerDay(task));
+  checks.push(ratioCheck({
+    id: 8, key: "highDuration", name: "High Duration", threshold: "≤ 5%",
+    description: "Activities with a remaining duration over 44 working days",
+  }, highDuration.map(task => ({
+    type: "dcmaHighDuration", severity: "warn",
+    message: `${activityLabel(task)} has ${inDays(task, task.remainingDuration ?? task.duration ?? 0)}d remaining`,
+    ref: taskRef(task, { hours: task.remainingDuration ?? task.duration }),
+  })), incompleteWork.length, 5));
+
+  // 9. Invalid dates - forecasts before the data date, actuals after it
+  const invalidDatesBase = {
+    id: 9, key: "invalidDates", name: "Invalid Dates", threshold: "0",
+    description: "Forecast dates before the data date or actual dates after it",
+  };
+  if (dataDate === null) {
+    checks.push(notAssessed(invalidDatesBase, "count", "The program has no data date"));
+  } else {
+    const invalidDates: InsightDetail[] = [];
+    for (const task of tasks) {
+      const actualStart = parseXERDate(task.actualStart);
+      const actualFinish = parseXERDate(task.actualFinish);
+      const problems: string[] = [];
+      if (actualStart !== null && actualStart > dataDate) problems.push("actual start after the data date");
+      if (actualFinish !== null && actualFinish > dataDate) problems.push("actual finish after the data date");
+      if (!isComplete(task)) {
+        const start = parseXERDate(task.startDate);
+        const finish = parseXERDate(task.finishDate);
+        if (actualStart === null && start !== null && start < dataDate) problems.push("forecast start before the data date");
+        if (finish !== null && finish < dataDate) problems.push("forecast finish before the data date");
+      }
+      if (problems.length > 0) {
+        invalidDates.push({ type: "dcmaInvalidDate", severity: "error", message: `${activityLabel(task)}: ${problems.join(", ")}`, ref: taskRef(task) });
+      }
+    }
+    checks.push(countCheck(invalidDatesBase, invalidDates, tasks.length));
+  }
+
+  // 10. Resources
+  const resourcesBase = {
+    id: 10, key: "resources", name: "Resources", threshold: "0",
+    description: "Activities with duration and no resources or cost assigned",
+  };
+  if (incompleteWork.some(task => task.resourceCount === undefined)) {
+    checks.push(notAssessed(resourcesBase, "count", "Resource assignments were not captured for this program - upload it again to assess"));
+  } else {
+    const unresourced = incompleteWork.filter(task => (task.remainingDuration ?? task.duration ?? 0) > 0 && task.resourceCount === 0);
+    checks.push(countCheck(resourcesBase, unresourced.map(task => ({
+      type: "dcmaResources", severity: "warn",
+      message: `${activityLabel(task)} has no resources assigned`,
+      ref: taskRef(task),
+    })), incompleteWork.length));
+  }
+
+  // 11. Missed tasks, 13. CPLI and 14. BEI are measured against the baseline
+  const baselineTasks: XERTask[] = baselineXerData?.tasks || [];
+  const tasksByCode = new Map(tasks.map(task => [task.taskCode, task]));
+  const dueByDataDate = dataDate === null ? [] : baselineTasks.filter(task => {
+    const baselineFinish = parseXERDate(task.finishDate);
+    return !DCMA_EXCLUDED_TYPES.includes(task.taskType || "") && baselineFinish !== null && baselineFinish <= dataDate;
+  });
+
+  const missedBase = {
+    id: 11, key: "missedTasks", name: "Missed Tasks", threshold: "≤ 5%",
+    description: "Activities due by the data date in the baseline that finished late or are not finished",
+  };
+  const beiBase = {
+    id: 14, key: "bei", name: "Baseline Execution Index", threshold: "≥ 0.95",
+    description: "Activities completed / activities due by the data date in the baseline",
+  };
+  if (baselineTasks.length === 0 || dataDate === null) {
+    const note = baselineTasks.length === 0 ? "No contract baseline program to measure against" : "The program has no data date";
+    checks.push(notAssessed(missedBase, "percent", note));
+  } else {
+    const missed: InsightDetail[] = [];
+    for (const baselineTask of dueByDataDate) {
+      const task = tasksByCode.get(baselineTask.taskCode);
+      const baselineFinish = parseXERDate(baselineTask.finishDate)!;
+      const actualFinish = task ? parseXERDate(task.actualFinish ?? (isComplete(task) ? task.finishDate : null)) : null;
+      if (!task || actualFinish === null || actualFinish > baselineFinish) {
+        missed.push({
+          type: "dcmaMissedTask", severity: "warn",
+          message: `${activityLabel(baselineTask)} was due ${baselineTask.finishDate} and ${!task ? "is not in this program" : actualFinish === null ? "is not finished" : `finished ${task.actualFinish ?? task.finishDate}`}`,
+          ref: taskRef(task ?? baselineTask, { baselineFinish: baselineTask.finishDate }),
+        });
+      }
+    }
+    checks.push(ratioCheck(missedBase, missed, dueByDataDate.length, 5));
+  }
+
+  // 12. Critical path test - the critical path must run unbroken from the data date to the project finish
+  checks.push(criticalPathTest(incomplete, predecessorsByTask, taskMap, dataDate));
+
+  // 13. CPLI = (critical path length + critical path float) / critical path length, in calendar days
+  const cpliBase = {
+    id: 13, key: "cpli", name: "Critical Path Length Index", threshold: "≥ 0.95",
+    description: "Efficiency required to finish by the baseline finish: (CPL + float) / CPL",
+  };
+  const latestFinish = (list: XERTask[]) => list.reduce<number | null>((latest, task) => {
+    const finish = parseXERDate(task.finishDate);
+    return finish !== null && (latest === null || finish > latest) ? finish : latest;
+  }, null);
+  const forecastFinish = latestFinish(tasks);
+  const targetFinish = baselineTasks.length > 0 ? latestFinish(baselineTasks) : parseXERDate(xerData?.project?.finishDate);
+  if (dataDate === null || forecastFinish === null || targetFinish === null || forecastFinish <= dataDate) {
+    const note = dataDate === null
+      ? "The program has no data date"
+      : forecastFinish === null
+        ? "The program has no activity finish dates"
+        : targetFinish === null
+          ? "No contract baseline or project must-finish date to measure against"
+          : "No remaining critical path after the data date";
+    checks.push(notAssessed(cpliBase, "index", note));
+  } else {
+    const criticalPathLength = (forecastFinish - dataDate) / MS_PER_DAY;
+    const criticalPathFloat = (targetFinish - forecastFinish) / MS_PER_DAY;
+    const cpli = Math.round(((criticalPathLength + criticalPathFloat) / criticalPathLength) * 100) / 100;
+    checks.push({
+      ...cpliBase,
+      value: cpli,
+      unit: "index",
+      passed: cpli >= 0.95,
+      population: 1,
+      offenders: [],
+      note: `Forecast finish ${new Date(forecastFinish).toISOString().slice(0, 10)}, target ${new Date(targetFinish).toISOString().slice(0, 10)}`,
+    });
+  }
+
+  // 14. BEI
+  if (baselineTasks.length === 0 || dataDate === null || dueByDataDate.length === 0) {
+    checks.push(notAssessed(beiBase, "index", baselineTasks.length === 0
+      ? "No contract baseline program to measure against"
+      : "No baseline activities due by the data date"));
+  } else {
+    const completed = tasks.filter(task => isComplete(task) && !DCMA_EXCLUDED_TYPES.includes(task.taskType || ""));
+    const bei = Math.round((completed.length / dueByDataDate.length) * 100) / 100;
+    const notFinished = dueByDataDate
+      .map(baselineTask => ({ baselineTask, task: tasksByCode.get(baselineTask.taskCode) }))
+      .filter(({ task }) => !task || !isComplete(task));
+    checks.push({
+      ...beiBase,
+      value: bei,
+      unit: "index",
+      passed: bei >= 0.95,
+      population: dueByDataDate.length,
+      offenders: notFinished.map(({ baselineTask, task }) => ({
+        type: "dcmaBei", severity: "warn" as const,
+        message: `${activityLabel(baselineTask)} was due ${baselineTask.finishDate} and is not complete`,
+        ref: taskRef(task ?? baselineTask, { baselineFinish: baselineTask.finishDate }),
+      })),
+      note: `${completed.length} completed of ${dueByDataDate.length} due`,
+    });
+  }
+
+  return checks.sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Trace the critical path back from the activity finishing last. The test passes when the
+ * chain of driving critical predecessors reaches an activity that can start at the data
+ * date (started, or with no incomplete predecessors); a chain that stops at an activity
+ * starting later shows the path is held by a constraint or broken logic.
+ */
+function criticalPathTest(
+  incomplete: XERTask[],
+  predecessorsByTask: Map<string, XERRelationship[]>,
+  taskMap: Map<string, XERTask>,
+  dataDate: number | null
+): DcmaCheck {
+  const base = {
+    id: 12, key: "criticalPathTest", name: "Critical Path Test", threshold: "Pass",
+    description: "The critical path runs continuously from the data date to the project finish",
+  };
+
+  const finishing = incomplete
+    .filter(task => parseXERDate(task.finishDate) !== null && task.totalFloat !== null && task.totalFloat !== undefined)
+    .sort((a, b) => parseXERDate(b.finishDate)! - parseXERDate(a.finishDate)!)[0];
+  if (!finishing) {
+    return notAssessed(base, "test", "No incomplete activities with float to trace");
+  }
+
+  // Activities at or below the float of the finishing activity are critical (covers negative float)
+  const criticalFloat = finishing.totalFloat!;
+  const chain: XERTask[] = [finishing];
+  const visited = new Set([finishing.taskId]);
+  let current = finishing;
+  for (;;) {
+    const incompletePreds = (predecessorsByTask.get(current.taskId) || [])
+      .map(rel => taskMap.get(rel.predTaskId)!)
+      .filter(pred => !isComplete(pred));
+    const next = incompletePreds.find(pred =>
+      !visited.has(pred.taskId) && pred.totalFloat !== null && pred.totalFloat !== undefined && pred.totalFloat <= criticalFloat
+    );
+    if (!next) break;
+    chain.push(next);
+    visited.add(next.taskId);
+    current = next;
+  }
+
+  const chainStart = current;
+  const start = parseXERDate(chainStart.actualStart ?? chainStart.startDate);
+  const started = !!chainStart.actualStart || chainStart.status === "TK_Active";
+  const hasIncompletePreds = (predecessorsByTask.get(chainStart.taskId) || []).some(rel => !isComplete(taskMap.get(rel.predTaskId)!));
+  // Allow the first activity to start on the next working day after the data date
+  const startsAtDataDate = dataDate === null || (start !== null && start <= dataDate + 3 * MS_PER_DAY);
+  const passed = started || (!hasIncompletePreds && startsAtDataDate);
+
+  return {
+    ...base,
+    value: chain.length,
+    unit: "test",
+    passed,
+    population: chain.length,
+    offenders: passed ? [] : [{
+      type: "dcmaCriticalPath", severity: "error",
+      message: `The critical path from ${activityLabel(finishing)} stops at ${activityLabel(chainStart)}, which starts ${chainStart.startDate ?? "without a date"} with no critical driving predecessor`,
+      ref: taskRef(chainStart),
+    }],
+    note: `${chain.length} activities traced back from ${finishing.taskCode}`,
   };
 }
 
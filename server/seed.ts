@@ -96,7 +96,8 @@ async function seed() {
 
     // Step 4: Create 10 RFIs for each project (120 total)
     const mockRFIs = [];
-    const rfiStatuses = ["open", "answered", "closed"] as const;
+    const rfiStatuses = ["issued", "responded", "closed"] as const;
+    const ballInCourtByStatus = { issued: "recipient", responded: "originator", closed: null } as const;
     const rfiPriorities = ["low", "medium", "high"] as const;
     const raisedByNames = ["John Smith", "Sarah Johnson", "Mike Chen", "Emma Wilson", "David Brown"];
     const assignedToNames = ["Lisa Anderson", "Robert Taylor", "Jessica Martinez", "Kevin White", "Michael Davis"];
@@ -110,6 +111,8 @@ async function seed() {
           title: `RFI ${rfiNum}: ${["Structural query", "Material specification", "Design clarification", "Safety compliance", "Schedule coordination", "Quality standard", "Installation detail", "System integration", "Access requirement", "Finishing detail"][i]}`,
           description: `This is a detailed description for RFI ${rfiNum} regarding ${project.name}. Further information and technical specifications are required.`,
           status: rfiStatuses[i % 3],
+          ballInCourt: ballInCourtByStatus[rfiStatuses[i % 3]],
+          issuedAt: new Date(2024, 9, 1 + i),
           priority: rfiPriorities[i % 3],
           raisedBy: raisedByNames[i % 5],
           assignedTo: assignedToNames[i % 5],
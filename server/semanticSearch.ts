@@ -1,50 +1,42 @@
-import { VoyageAIClient } from 'voyageai';
+import type { EmbeddingProvider, EmbeddingInputType } from './embeddingProviders';
 
-// Initialize Voyage AI client
-const getVoyageClient = () => {
-  const apiKey = process.env.VOYAGE_API_KEY;
-  if (!apiKey) {
-    throw new Error('VOYAGE_API_KEY environment variable is not set. Please add your Voyage AI API key.');
-  }
-  return new VoyageAIClient({ apiKey });
-};
-
-// Generate Voyage AI embedding for text
-// Uses voyage-3-lite for cost-effectiveness (6.5x cheaper than OpenAI, better accuracy)
-// For legal documents, can switch to voyage-law-2
-export async function generateEmbedding(text: string, useLegal = false): Promise<{
+// Generate an embedding for text with the given provider (see embeddingProviders.ts)
+// Search queries are embedded with inputType "query" so they match "document" embeddings better
+export async function generateEmbedding(text: string, provider: EmbeddingProvider, inputType: EmbeddingInputType = 'document'): Promise<{
   embedding: number[];
+  model: string;
   usage?: {
     prompt_tokens: number;
     total_tokens: number;
   };
 }> {
   try {
-    const voyage = getVoyageClient();
-    
-    // Use voyage-3-lite for general use (cheaper, better than OpenAI)
-    // Use voyage-law-2 for legal/contract documents
-    const model = useLegal ? "voyage-law-2" : "voyage-3-lite";
-    
-    const response = await voyage.embed({
-      input: [text.substring(0, 32000)], // Voyage supports 32K context vs OpenAI's 8K
-      model: model,
-      inputType: "document" // "document" for indexing, "query" for search queries
-    });
+    const { embeddings, totalTokens } = await provider.embed([text], inputType);
     
     return {
-      embedding: response.data?.[0]?.embedding || [],
+      embedding: embeddings[0] || [],
+      model: provider.model,
       usage: {
-        prompt_tokens: response.usage?.totalTokens || 0,
-        total_tokens: response.usage?.totalTokens || 0
+        prompt_tokens: totalTokens,
+        total_tokens: totalTokens
       }
     };
   } catch (error) {
-    console.error('Error generating Voyage AI embedding:', error);
+    console.error(`Error generating ${provider.model} embedding:`, error);
     throw error;
   }
 }
 
+// Generate document embeddings for many texts (e.g. contract pages), batched by the provider
+export async function generateEmbeddings(texts: string[], provider: EmbeddingProvider): Promise<{
+  embeddings: number[][];
+  model: string;
+  totalTokens: number;
+}> {
+  const { embeddings, totalTokens } = await provider.embed(texts.map(text => text.substring(0, 8000)), 'document');
+  return { embeddings, model: provider.model, totalTokens };
+}
+
 // Extract text from PDF buffer using dynamic import
 export async function extractTextFromPDF(pdfBuffer: Buffer): Promise<string> {
   try {
@@ -83,36 +75,6 @@ export function cosineSimilarity(vecA: number[], vecB: number[]): number {
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
-// Find similar letters based on embedding similarity
-export function findSimilarLetters(
-  queryEmbedding: number[],
-  letters: Array<{ id: string; embeddingVector: string | null; [key: string]: any }>,
-  topK: number = 5
-): Array<{ id: string; similarity: number; [key: string]: any }> {
-  const results: Array<{ id: string; similarity: number; [key: string]: any }> = [];
-  
-  for (const letter of letters) {
-    if (!letter.embeddingVector) continue;
-    
-    try {
-      const letterEmbedding = JSON.parse(letter.embeddingVector) as number[];
-      const similarity = cosineSimilarity(queryEmbedding, letterEmbedding);
-      
-      results.push({
-        ...letter,
-        similarity
-      });
-    } catch (error) {
-      console.error('Error parsing embedding for letter:', letter.id, error);
-    }
-  }
-  
-  // Sort by similarity (descending) and return top K
-  return results
-    .sort((a, b) => b.similarity - a.similarity)
-    .slice(0, topK);
-}
-
 // Prepare text for embedding (extract key information)
 export function prepareTextForEmbedding(
   extractedText: string,
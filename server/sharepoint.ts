@@ -1,5 +1,7 @@
 import { Client } from '@microsoft/microsoft-graph-client';
 import { extractTextFromPDF, generateEmbedding, cosineSimilarity } from './semanticSearch';
+import { toStoredEmbedding, LEGAL_EMBEDDING_DIMENSIONS } from './vectorSearch';
+import { getProjectEmbeddingProvider, type EmbeddingProvider } from './embeddingProviders';
 import { correspondenceLetters } from '@shared/schema';
 import { eq, and, sql } from 'drizzle-orm';
 
@@ -381,9 +383,10 @@ export async function syncSharePointDocuments(
   siteUrl: string,
   folderPath: string,
   db: any
-): Promise<{ indexed: number; skipped: number; deleted: number; errors: number; totalTokens: number }> {
+): Promise<{ indexed: number; skipped: number; deleted: number; errors: number; totalTokens: number; embeddingModel: string; embeddingCost: number }> {
   try {
     const client = await getUncachableSharePointClient();
+    const embeddingProvider = await getProjectEmbeddingProvider(projectId, 'legal');
     
     // Extract site path from URL
     const urlParts = new URL(siteUrl);
@@ -543,9 +546,9 @@ export async function syncSharePointDocuments(
               return;
             }
             
-            // Generate embedding
-            const { embedding, usage } = await generateEmbedding(extractedText);
-            const embeddingVector = JSON.stringify(embedding);
+            // Generate embedding (same model as uploaded letters)
+            const { embedding, model, usage } = await generateEmbedding(extractedText, embeddingProvider);
+            const storedEmbedding = toStoredEmbedding(embedding, LEGAL_EMBEDDING_DIMENSIONS, model);
             
             // Track token usage
             if (usage?.total_tokens) {
@@ -581,7 +584,9 @@ export async function syncSharePointDocuments(
                       fileName,
                       fileUrl,
                       extractedText,
-                      embeddingVector,
+                      embeddingVector: storedEmbedding?.vector ?? null,
+                      embeddingModel: storedEmbedding?.model ?? null,
+                      embeddingDimensions: storedEmbedding?.dimensions ?? null,
                       subject: fileName.replace('.pdf', ''),
                       source: 'sharepoint',
                       category: 'correspondence'
@@ -620,7 +625,15 @@ export async function syncSharePointDocuments(
     
     console.log(`[SharePoint Sync] Complete: ${indexed} indexed, ${skipped} skipped, ${deleted} deleted, ${errors} errors, ${totalTokens} tokens`);
     
-    return { indexed, skipped, deleted, errors, totalTokens };
+    return {
+      indexed,
+      skipped,
+      deleted,
+      errors,
+      totalTokens,
+      embeddingModel: embeddingProvider.model,
+      embeddingCost: (totalTokens / 1_000_000) * embeddingProvider.costPerMillionTokens,
+    };
   } catch (error) {
     console.error('[SharePoint Sync] Sync error:', error);
     throw error;
@@ -632,6 +645,7 @@ export async function semanticSearchSharePoint(
   siteUrl: string,
   folderPath: string,
   queryEmbedding: number[],
+  embeddingProvider: EmbeddingProvider, // Must be the provider queryEmbedding was made with
   topK: number = 5
 ): Promise<any[]> {
   try {
@@ -727,7 +741,7 @@ export async function semanticSearchSharePoint(
           }
           
           // Generate embedding for the document
-          const { embedding: docEmbedding } = await generateEmbedding(extractedText);
+          const { embedding: docEmbedding } = await generateEmbedding(extractedText, embeddingProvider);
           
           // Calculate cosine similarity with query embedding
           const similarity = cosineSimilarity(queryEmbedding, docEmbedding);
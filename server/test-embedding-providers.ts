@@ -0,0 +1,52 @@
+/**
+ * Test script for embedding provider selection and stored vector padding
+ *
+ * Checks each provider's models, that a missing API key falls back to the local model,
+ * and that zero-padding shorter vectors to the column size keeps cosine similarity.
+ *
+ * Run with: DATABASE_URL=... npx tsx server/test-embedding-providers.ts (no queries or API calls are made)
+ */
+
+import assert from "assert";
+import { createEmbeddingProvider, resolveEmbeddingProvider } from "./embeddingProviders";
+import { toStoredEmbedding } from "./vectorSearch";
+import { cosineSimilarity } from "./semanticSearch";
+
+process.env.VOYAGE_API_KEY = "test-voyage-key";
+process.env.OPENAI_API_KEY = "test-openai-key";
+
+// Each provider has a general and a legal model
+assert.strictEqual(createEmbeddingProvider("voyage", "general").model, "voyage-3-lite");
+assert.strictEqual(createEmbeddingProvider("voyage", "legal").model, "voyage-law-2");
+assert.strictEqual(createEmbeddingProvider("openai", "general").model, "text-embedding-3-small");
+assert.strictEqual(createEmbeddingProvider("openai", "legal").model, "text-embedding-3-large");
+assert.strictEqual(createEmbeddingProvider("local", "legal").model, "Xenova/all-MiniLM-L6-v2");
+
+// Unknown or missing settings use Voyage AI
+assert.strictEqual(resolveEmbeddingProvider(null, "general").name, "voyage");
+assert.strictEqual(resolveEmbeddingProvider("bogus", "general").name, "voyage");
+
+// Without an API key the factory throws, and resolving falls back to the local model
+delete process.env.OPENAI_API_KEY;
+assert.throws(() => createEmbeddingProvider("openai", "general"), /OPENAI_API_KEY/);
+assert.strictEqual(resolveEmbeddingProvider("openai", "general").name, "local");
+delete process.env.VOYAGE_API_KEY;
+assert.strictEqual(resolveEmbeddingProvider("voyage", "legal").name, "local");
+
+// Shorter vectors are zero-padded to the column, keeping their native dimensions
+const a = [0.1, -0.4, 0.3];
+const b = [0.2, 0.1, -0.5];
+const storedA = toStoredEmbedding(a, 8, "test-model")!;
+const storedB = toStoredEmbedding(b, 8, "test-model")!;
+assert.strictEqual(storedA.vector.length, 8);
+assert.strictEqual(storedA.dimensions, 3);
+assert.strictEqual(storedA.model, "test-model");
+assert.ok(Math.abs(cosineSimilarity(storedA.vector, storedB.vector) - cosineSimilarity(a, b)) < 1e-12);
+
+// Exact-size vectors are stored as is; longer or empty ones are not stored
+assert.deepStrictEqual(toStoredEmbedding(a, 3, "test-model")!.vector, a);
+assert.strictEqual(toStoredEmbedding([1, 2, 3, 4], 3, "test-model"), null);
+assert.strictEqual(toStoredEmbedding([], 3, "test-model"), null);
+
+console.log("Embedding provider tests passed");
+process.exit(0);
@@ -0,0 +1,67 @@
+/**
+ * Test script for worksheet formula evaluation
+ *
+ * Checks name and #LQ resolution, number literals (including exponents), circular references
+ * and references to deleted lines.
+ *
+ * Run with: npx tsx server/test-formula-parser.ts
+ */
+
+import assert from "assert";
+import { buildFormulaContext, evaluateWorksheetFormulas } from "./utils/formulaParser";
+
+const context = buildFormulaContext(
+  [
+    { variableName: "Length", value: "12.5" },
+    { variableName: "tiny", value: "0.0000001" },
+    { variableName: "unset", value: null },
+  ],
+  [{ code: "Concrete 32MPa", tenderRate: "250" }]
+);
+
+const evaluate = (...formulas: Array<string | null>) =>
+  evaluateWorksheetFormulas(formulas.map((formula, index) => ({ formula, line: index + 1 })), context);
+
+// Names, bracketed resource codes and functions
+assert.deepStrictEqual(evaluate("length * 2", "[Concrete 32MPa] * 1.05", "max(LENGTH, 20)", null), [
+  { result: 25, error: null },
+  { result: 262.5, error: null },
+  { result: 20, error: null },
+  { result: 0, error: null },
+]);
+
+// Exponent literals are numbers, not names
+assert.deepStrictEqual(evaluate("1e5", "2.5E-2 * 100", ".5e1"), [
+  { result: 100000, error: null },
+  { result: 2.5, error: null },
+  { result: 5, error: null },
+]);
+
+// Values that print in exponent notation still evaluate, and so do lines referencing them
+assert.deepStrictEqual(evaluate("tiny * 1e9", "#LQ1 + 1"), [
+  { result: 100, error: null },
+  { result: 101, error: null },
+]);
+
+// Unknown names and names straight after a number are errors
+assert.strictEqual(evaluate("2 days")[0].error, 'Unknown name "days"');
+assert.strictEqual(evaluate("2e")[0].error, 'Unknown name "e"');
+assert.strictEqual(evaluate("unset + 1")[0].error, 'Global variable "unset" has no value');
+assert.strictEqual(evaluate("2 $ 3")[0].error, "Formula contains invalid characters");
+
+// Cycles are reported on every line in them, and dependants are flagged
+const cyclic = evaluate("#LQ2 + 1", "#LQ1 * 2", "#LQ2 + 5");
+assert.strictEqual(cyclic[0].error, "Circular reference: #LQ1 -> #LQ2 -> #LQ1");
+assert.strictEqual(cyclic[1].error, "Circular reference: #LQ1 -> #LQ2 -> #LQ1");
+assert.strictEqual(cyclic[2].error, "#LQ2 has an error");
+
+// Line numbers are stable: after deleting line 2, #LQ3 still means line 3 and #LQ2 is an error
+const afterDelete = evaluateWorksheetFormulas(
+  [{ formula: "10", line: 1 }, { formula: "#LQ1 * 3", line: 3 }, { formula: "#LQ2", line: 4 }],
+  context
+);
+assert.deepStrictEqual(afterDelete[1], { result: 30, error: null });
+assert.strictEqual(afterDelete[2].error, "#LQ2 does not exist");
+
+console.log("Formula parser tests passed");
+process.exit(0);
@@ -0,0 +1,59 @@
+/**
+ * Test script for hybrid search query parsing and rank fusion
+ *
+ * Checks the search box syntax (phrases, OR, NOT, NEAR/n, prefixes) converts to
+ * valid to_tsquery text, and that reciprocal rank fusion favours results found
+ * by both the full-text and vector searches.
+ *
+ * Run with: DATABASE_URL=... npx tsx server/test-hybrid-search.ts (no queries are made)
+ */
+
+import assert from "assert";
+import { toTsQuery, reciprocalRankFusion, RRF_K } from "./hybridSearch";
+
+// Words are ANDed and lowercased
+assert.strictEqual(toTsQuery("Delay Notice"), "delay & notice");
+assert.strictEqual(toTsQuery("delay AND notice"), "delay & notice");
+
+// Quoted phrases and compound words become phrase operands
+assert.strictEqual(toTsQuery('"extension of time" claim'), "(extension <-> of <-> time) & claim");
+assert.strictEqual(toTsQuery("clause 15.2"), "clause & (15 <-> 2)");
+
+// OR splits into alternatives, NOT and leading minus negate
+assert.strictEqual(toTsQuery("delay OR disruption -weather"), "delay | disruption & !weather");
+assert.strictEqual(toTsQuery('variation NOT "site instruction"'), "variation & !(site <-> instruction)");
+assert.strictEqual(toTsQuery('variation -"site instruction"'), "variation & !(site <-> instruction)");
+
+// NEAR/n matches within n words in either order
+assert.strictEqual(toTsQuery("delay NEAR/2 notice"), "(delay <1> notice | notice <1> delay | delay <2> notice | notice <2> delay)");
+
+// Prefix search
+assert.strictEqual(toTsQuery("variat*"), "variat:*");
+
+// Nothing searchable
+assert.strictEqual(toTsQuery("OR - NEAR/3 !!"), null);
+assert.strictEqual(toTsQuery('""'), null);
+
+// Stray operators are ignored rather than producing invalid tsquery text
+assert.strictEqual(toTsQuery("OR delay OR"), "delay");
+assert.strictEqual(toTsQuery("(delay) & 'notice'"), "delay & notice");
+
+// Rank fusion: found by both searches beats first place in only one
+const fused = reciprocalRankFusion([
+  ["a", "b", "c"],
+  ["d", "b", "a"],
+]);
+assert.deepStrictEqual(fused.map(result => result.id), ["a", "b", "d", "c"]);
+assert.strictEqual(fused[0].keywordRank, 1);
+assert.strictEqual(fused[0].semanticRank, 3);
+assert.strictEqual(fused.find(result => result.id === "c")!.semanticRank, null);
+
+// Scores are scaled so first place in every list is 1
+const [top] = reciprocalRankFusion([["x"], ["x"]]);
+assert.strictEqual(top.score, 1);
+const [single] = reciprocalRankFusion([["x"], []]);
+assert.strictEqual(single.score, 0.5);
+assert.ok(Math.abs(reciprocalRankFusion([["x", "y"], []])[1].score - (RRF_K + 1) / (2 * (RRF_K + 2))) < 1e-12);
+
+console.log("Hybrid search tests passed");
+process.exit(0);
@@ -0,0 +1,77 @@
+/**
+ * Test script for notice obligation deadlines
+ *
+ * Checks business-day and calendar-day counting around weekends and project holidays,
+ * reading timing from extracted notices, and the upcoming/overdue state of obligations.
+ *
+ * Run with: DATABASE_URL=... npx tsx server/test-notice-obligations.ts (no queries are made)
+ */
+
+import assert from "assert";
+import { addNoticeDays, computeObligationDates, noticeTiming, obligationDeadlineState, isIsoDate } from "./noticeObligations";
+
+const none = new Set<string>();
+const holidays = new Set(["2025-01-27"]); // Monday
+
+// Business days skip weekends and holidays (2025-01-24 is a Friday)
+assert.strictEqual(addNoticeDays("2025-01-24", 1, true, none), "2025-01-27");
+assert.strictEqual(addNoticeDays("2025-01-24", 1, true, holidays), "2025-01-28");
+assert.strictEqual(addNoticeDays("2025-01-24", 5, true, holidays), "2025-02-03");
+
+// Counting back from a deadline
+assert.strictEqual(addNoticeDays("2025-01-28", -1, true, holidays), "2025-01-24");
+
+// Calendar days ending on a non-business day move forwards, or backwards when counting back
+assert.strictEqual(addNoticeDays("2025-01-20", 5, false, none), "2025-01-27");
+assert.strictEqual(addNoticeDays("2025-01-20", 5, false, holidays), "2025-01-28");
+assert.strictEqual(addNoticeDays("2025-01-30", -5, false, none), "2025-01-24");
+
+// Timing is read from the structured period, falling back to the calendar-day equivalent
+const timing = noticeTiming({
+  lead_time: { value: 10, unit: "business days", relative_to: "trigger_event", business_days: false },
+  response_required: true,
+  response_timeframe: { value: 2, unit: "weeks" },
+  response_timeframe_days: 14,
+  time_bar_days: 28,
+});
+assert.deepStrictEqual(timing, {
+  leadTimeDays: 10,
+  leadTimeBusinessDays: true,
+  leadTimeRelativeTo: "trigger_event",
+  timeBarDays: 28,
+  responseRequired: true,
+  responseTimeframeDays: 14,
+  responseBusinessDays: false,
+});
+assert.strictEqual(noticeTiming({ lead_time: { value: 0 }, lead_time_days: 0 }).leadTimeDays, null);
+assert.strictEqual(noticeTiming({ lead_time: { value: 30, relative_to: "someday" } }).leadTimeRelativeTo, "trigger_event");
+
+// Response is due from the issue date; renewal notices are due before the renewal date
+const dates = computeObligationDates({ ...timing, triggerEventDate: "2025-01-20", issuedDate: "2025-01-31" }, holidays);
+assert.deepStrictEqual(dates, { dueDate: "2025-02-04", timeBarDate: "2025-02-17", responseDueDate: "2025-02-14" });
+// Time bars stay on the calendar date even when it is a weekend or holiday
+assert.strictEqual(computeObligationDates({ ...timing, triggerEventDate: "2025-01-18", issuedDate: null }, holidays).timeBarDate, "2025-02-15");
+assert.strictEqual(computeObligationDates({ ...timing, triggerEventDate: "2024-12-30", issuedDate: null }, holidays).timeBarDate, "2025-01-27");
+const renewal = computeObligationDates(
+  { ...noticeTiming({ lead_time: { value: 30, unit: "days", relative_to: "renewal_date" } }), triggerEventDate: "2025-03-01", issuedDate: null },
+  none
+);
+assert.strictEqual(renewal.dueDate, "2025-01-30");
+assert.strictEqual(renewal.responseDueDate, null);
+
+// Deadline states
+assert.deepStrictEqual(obligationDeadlineState({ status: "open", dueDate: "2025-02-04", responseDueDate: null }, "2025-01-20"), { state: "upcoming", daysRemaining: 15 });
+assert.strictEqual(obligationDeadlineState({ status: "open", dueDate: "2025-02-04", responseDueDate: null }, "2025-02-04").state, "due_soon");
+assert.strictEqual(obligationDeadlineState({ status: "open", dueDate: "2025-02-04", responseDueDate: null }, "2025-02-05").state, "overdue");
+assert.strictEqual(obligationDeadlineState({ status: "open", dueDate: null, responseDueDate: null }, "2025-02-05").state, "no_deadline");
+assert.strictEqual(obligationDeadlineState({ status: "issued", dueDate: "2025-02-04", responseDueDate: "2025-02-14" }, "2025-02-10").state, "awaiting_response");
+assert.strictEqual(obligationDeadlineState({ status: "issued", dueDate: "2025-02-04", responseDueDate: "2025-02-14" }, "2025-02-15").state, "response_overdue");
+assert.strictEqual(obligationDeadlineState({ status: "issued", dueDate: "2025-02-04", responseDueDate: null }, "2025-02-15").state, "issued");
+
+// Dates must be real yyyy-mm-dd dates
+assert.ok(isIsoDate("2024-02-29"));
+assert.ok(!isIsoDate("2025-02-29"));
+assert.ok(!isIsoDate("2025-2-3"));
+
+console.log("Notice obligation tests passed");
+process.exit(0);
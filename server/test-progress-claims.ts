@@ -0,0 +1,80 @@
+/**
+ * Test script for progress claim valuation
+ *
+ * Checks this-period values against the previous period (including lines not yet assessed),
+ * matching lines across BOQ revisions by item number, parsing of client values and the
+ * BOQ item fields locked by a submitted claim.
+ *
+ * Run with: DATABASE_URL=... npx tsx server/test-progress-claims.ts (no queries are made)
+ */
+
+import assert from "assert";
+import type { BoqClaimItem, BoqClaimPeriod, BoqItem } from "@shared/schema";
+import { lockedItemChanges, parseClaimValue, previousLineMatcher, valueClaimPeriod, type PreviousClaimLine } from "./progressClaims";
+
+const period = (id: string, periodNumber: number, status: string) => ({
+  id, periodNumber, status, name: `Claim ${periodNumber}`, retentionPercent: "5", retentionCap: null,
+} as BoqClaimPeriod);
+const item = (id: string, itemNumber: string, amount: number) => ({
+  id, itemNumber, description: `Item ${itemNumber}`, unit: "m2", level: null,
+  quantity: "100", rate: (amount / 100).toFixed(2), amount: amount.toFixed(2), rateOverride: false,
+} as BoqItem);
+const line = (boqItemId: string, claimedAmount: number, approvedAmount: number | null) => ({
+  boqItemId, claimedAmount: claimedAmount.toFixed(2), approvedAmount: approvedAmount != null ? approvedAmount.toFixed(2) : null,
+} as BoqClaimItem);
+
+// Claim 2 is against a revised BOQ: items are matched to claim 1 by item number, ignoring case
+const previousLines: PreviousClaimLine[] = [
+  { ...line("old-a", 1000, 900), itemNumber: "1.1A" },
+  { ...line("old-b", 2000, 2000), itemNumber: "1.2" },
+];
+const items = [item("a", "1.1a", 10000), item("b", " 1.2 ", 20000)];
+
+const valuation = valueClaimPeriod(
+  period("p2", 2, "submitted"),
+  items,
+  [line("a", 3000, 2500), line("b", 4000, null)],
+  period("p1", 1, "approved"),
+  previousLines
+);
+
+const [lineA, lineB] = valuation.lines;
+assert.strictEqual(lineA.previousClaimed, 1000);
+assert.strictEqual(lineA.thisPeriodClaimed, 2000);
+assert.strictEqual(lineA.thisPeriodApproved, 1600);
+assert.strictEqual(lineB.previousApproved, 2000);
+
+// A line not yet assessed shows no approved value and counts at its previous approved value
+assert.strictEqual(lineB.cumulativeApproved, null);
+assert.strictEqual(lineB.thisPeriodApproved, null);
+assert.strictEqual(valuation.approved.cumulativeGross, 4500);
+assert.strictEqual(valuation.approved.previousGross, 2900);
+assert.strictEqual(valuation.approved.thisPeriodGross, 1600);
+
+assert.strictEqual(valuation.claimed.thisPeriodGross, 4000);
+assert.strictEqual(valuation.claimed.cumulativeRetention, 350);
+assert.strictEqual(valuation.claimed.thisPeriodNet, 3800);
+
+// Carry-forward uses the same matching as the valuation
+const previousLineFor = previousLineMatcher(previousLines);
+assert.strictEqual(previousLineFor({ id: "x", itemNumber: "1.1a" })?.boqItemId, "old-a");
+assert.strictEqual(previousLineFor({ id: "old-b", itemNumber: "9.9" })?.boqItemId, "old-b");
+assert.strictEqual(previousLineFor({ id: "x", itemNumber: "" }), undefined);
+
+// Client values: numbers or numeric strings, empty clears, anything else is rejected
+assert.strictEqual(parseClaimValue("12.5"), 12.5);
+assert.strictEqual(parseClaimValue(40), 40);
+assert.strictEqual(parseClaimValue(""), null);
+assert.strictEqual(parseClaimValue(null), null);
+assert.strictEqual(parseClaimValue("abc"), undefined);
+assert.strictEqual(parseClaimValue({}), undefined);
+assert.strictEqual(parseClaimValue("Infinity"), undefined);
+
+// Only fields the claim is valued against are locked, and only when they actually change
+const claimed = item("a", "1.1", 10000);
+assert.deepStrictEqual(lockedItemChanges(claimed, { rate: "100", quantity: 100, notes: "Revised" }), []);
+assert.deepStrictEqual(lockedItemChanges(claimed, { rate: "110", itemNumber: "1.1", eventTagId: "tag" }), ["rate"]);
+assert.deepStrictEqual(lockedItemChanges(claimed, { description: "Changed", amount: null }), ["description", "amount"]);
+
+console.log("Progress claim tests passed");
+process.exit(0);
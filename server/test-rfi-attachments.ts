@@ -0,0 +1,57 @@
+/**
+ * Test script for RFI attachment validation
+ *
+ * Checks file name sanitising, the size, type and executable-content checks applied before
+ * files are uploaded to object storage, and the headers attachments are served with.
+ *
+ * Run with: DATABASE_URL=... npx tsx server/test-rfi-attachments.ts (no queries or uploads are made)
+ */
+
+import assert from "assert";
+import { RFI_ATTACHMENT_MAX_BYTES, RfiAttachmentError, attachmentResponseHeaders, sanitizeAttachmentName, validateRfiAttachment } from "./rfiAttachments";
+
+function file(originalname: string, content: Buffer | string, size?: number) {
+  const buffer = typeof content === "string" ? Buffer.from(content) : content;
+  return { originalname, mimetype: "application/octet-stream", buffer, size: size ?? buffer.length };
+}
+
+// Names lose their paths, quotes and control characters
+assert.strictEqual(sanitizeAttachmentName("../../etc/passwd"), "passwd");
+assert.strictEqual(sanitizeAttachmentName("C:\\site\\photo 1.jpg"), "photo 1.jpg");
+assert.strictEqual(sanitizeAttachmentName('say "hi"\r\n.pdf'), "say hi.pdf");
+assert.strictEqual(sanitizeAttachmentName(""), "attachment");
+
+// Accepted: documents and photos
+validateRfiAttachment(file("drawing A-101.pdf", "%PDF-1.7"));
+validateRfiAttachment(file("site.jpg", Buffer.from([0xff, 0xd8, 0xff, 0xe0])));
+
+// Rejected: empty, oversized, executable extensions and executable content
+const rejects = (f: ReturnType<typeof file>, message: RegExp) =>
+  assert.throws(() => validateRfiAttachment(f), (error: any) => error instanceof RfiAttachmentError && message.test(error.message));
+
+rejects(file("empty.pdf", ""), /empty/);
+rejects(file("huge.pdf", "%PDF", RFI_ATTACHMENT_MAX_BYTES + 1), /larger than 25MB/);
+rejects(file("setup.EXE", "hello"), /\.exe files/);
+rejects(file("invoice.pdf", Buffer.from([0x4d, 0x5a, 0x90, 0x00])), /looks like a program/);
+rejects(file("photo.jpg", Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02])), /looks like a program/);
+
+// Only PDFs and raster images are previewed inline, typed by their extension
+assert.deepStrictEqual(attachmentResponseHeaders("A-101.PDF", false), {
+  "Content-Type": "application/pdf",
+  "Content-Disposition": 'inline; filename="A-101.PDF"',
+  "X-Content-Type-Options": "nosniff",
+});
+assert.strictEqual(attachmentResponseHeaders("site.jpg", false)["Content-Type"], "image/jpeg");
+assert.strictEqual(attachmentResponseHeaders("site.jpg", false)["Content-Security-Policy"], "sandbox");
+
+// Anything that could run script is downloaded as an opaque, sandboxed file
+for (const name of ["page.html", "logo.svg", "notes.txt", "report.docx", "no-extension"]) {
+  const headers = attachmentResponseHeaders(name, false);
+  assert.strictEqual(headers["Content-Type"], "application/octet-stream", name);
+  assert.ok(headers["Content-Disposition"].startsWith("attachment;"), name);
+  assert.strictEqual(headers["Content-Security-Policy"], "sandbox", name);
+}
+assert.ok(attachmentResponseHeaders("A-101.pdf", true)["Content-Disposition"].startsWith("attachment;"));
+
+console.log("RFI attachment tests passed");
+process.exit(0);
@@ -0,0 +1,72 @@
+/**
+ * Test script for AI-assisted RFI drafting
+ *
+ * Checks the keyword retrieval used to pick contract clauses, specification sections and similar
+ * RFIs, the splitting of specification text into sections, the parsing of the model's reply and the
+ * cost estimate for the model used.
+ *
+ * Run with: DATABASE_URL=... npx tsx server/test-rfi-drafting.ts (no queries or model calls are made)
+ */
+
+import assert from "assert";
+import { estimateCost } from "./aiProviders";
+import { draftTerms, parseDraftResponse, rankPassages, scorePassage, splitSpecificationSections } from "./rfiDrafting";
+
+// Terms drop stop words and short words but keep clause numbers
+assert.deepStrictEqual(
+  draftTerms("Please confirm the waterproofing membrane to the podium slab, per clause 34.1."),
+  ["waterproofing", "membrane", "podium", "slab", "clause", "34.1"]
+);
+assert.deepStrictEqual(draftTerms("is it ok?"), []);
+
+// Words match on their stem, clause numbers as written
+const terms = draftTerms("waterproofing membranes podium");
+assert.strictEqual(scorePassage(terms, "Waterproof membrane to the podium"), 1);
+assert.strictEqual(scorePassage(["34.1"], "Clause 34.1 Notices"), 1);
+assert.strictEqual(scorePassage(["34.1"], "Clause 3.41"), 0);
+assert.strictEqual(scorePassage([], "anything"), 0);
+
+// Ranking drops passages with no match and orders by score
+const ranked = rankPassages(terms, [
+  { id: "a", text: "Structural steel" },
+  { id: "b", text: "Podium slab" },
+  { id: "c", text: "Podium waterproof membrane" },
+], item => item.text, 5);
+assert.deepStrictEqual(ranked.map(item => item.id), ["c", "b"]);
+
+// Specifications split at numbered headings; the text before the first heading is not a section
+const spec = [
+  "CONTENTS",
+  "SECTION 07 10 00 Waterproofing",
+  "Apply a torch-on membrane to all podium slabs.",
+  "3.4 Concrete Finishes",
+  "Steel trowel finish to exposed slabs.",
+].join("\n");
+assert.deepStrictEqual(splitSpecificationSections(spec), [
+  { reference: "SECTION 07 10 00", heading: "Waterproofing", text: "Apply a torch-on membrane to all podium slabs." },
+  { reference: "3.4", heading: "Concrete Finishes", text: "Steel trowel finish to exposed slabs." },
+]);
+
+// Without headings the text is split into windows
+const windows = splitSpecificationSections("x".repeat(7000));
+assert.deepStrictEqual(windows.map(w => [w.reference, w.text.length]), [["Part 1", 3000], ["Part 2", 3000], ["Part 3", 1000]]);
+
+// Model replies: JSON (optionally fenced), or plain text as a fallback
+const reply = parseDraftResponse(
+  '```json\n{"title": "Podium waterproofing", "question": "Confirm the membrane type.", "references": [{"source": "specification", "reference": "Section 07 10 00", "reason": "Membrane"}, {"reference": " "}], "proposedResolution": ""}\n```',
+  "fallback"
+);
+assert.strictEqual(reply.title, "Podium waterproofing");
+assert.strictEqual(reply.question, "Confirm the membrane type.");
+assert.deepStrictEqual(reply.references, [{ source: "specification", reference: "Section 07 10 00", reason: "Membrane" }]);
+
+const plain = parseDraftResponse("Please confirm the membrane type.", "Podium membrane");
+assert.deepStrictEqual(plain, { title: "Podium membrane", question: "Please confirm the membrane type.", references: [], proposedResolution: "" });
+
+// Usage is priced for the model that drafted it
+assert.strictEqual(estimateCost("claude-sonnet-4", 1000000, 100000), 4.5);
+assert.strictEqual(estimateCost("gpt-4o", 1000000, 100000), 3.5);
+assert.strictEqual(estimateCost("gpt-4o-mini", 1000000, 100000), 0.21);
+
+console.log("RFI drafting tests passed");
+process.exit(0);
@@ -0,0 +1,81 @@
+/**
+ * Test script for the RFI lifecycle and response SLAs
+ *
+ * Checks the allowed status transitions, who holds the ball in each status, and the SLA due
+ * date, overdue state and days outstanding of RFIs around weekends and project holidays.
+ *
+ * Run with: DATABASE_URL=... npx tsx server/test-rfi-sla.ts (no queries are made)
+ */
+
+import assert from "assert";
+import { DEFAULT_RFI_SLA, RfiTransitionError, assertRfiTransition, ballInCourtFor, computeRfiTracking, isRfiTransitionAllowed } from "./rfiSla";
+
+// Transitions
+assert.ok(isRfiTransitionAllowed("draft", "issued"));
+assert.ok(isRfiTransitionAllowed("issued", "responded"));
+assert.ok(isRfiTransitionAllowed("responded", "issued"), "an insufficient response is re-issued");
+assert.ok(isRfiTransitionAllowed("closed", "issued"), "a closed RFI can be re-opened");
+assert.ok(!isRfiTransitionAllowed("draft", "responded"));
+assert.ok(!isRfiTransitionAllowed("draft", "closed"));
+assert.ok(!isRfiTransitionAllowed("issued", "issued"));
+assert.ok(!isRfiTransitionAllowed("open", "closed"), "old statuses are not recognised");
+
+// Issuing needs a recipient, checked before anything is written
+assert.throws(() => assertRfiTransition({ status: "draft", assignedTo: null }, "issued"), RfiTransitionError);
+assert.throws(() => assertRfiTransition({ status: "draft", assignedTo: "person" }, "closed"), RfiTransitionError);
+assertRfiTransition({ status: "draft", assignedTo: "person" }, "issued");
+
+// Ball in court
+assert.strictEqual(ballInCourtFor("draft"), "originator");
+assert.strictEqual(ballInCourtFor("issued"), "recipient");
+assert.strictEqual(ballInCourtFor("responded"), "originator");
+assert.strictEqual(ballInCourtFor("closed"), null);
+
+const none = new Set<string>();
+const holidays = new Set(["2025-01-27"]); // Monday
+const base = {
+  status: "issued",
+  priority: "medium",
+  dueDate: null as string | null,
+  issuedAt: new Date(2025, 0, 24, 10), // Friday
+  respondedAt: null as Date | null,
+  closedAt: null as Date | null,
+};
+
+// Drafts are not tracked
+assert.deepStrictEqual(
+  computeRfiTracking({ ...base, status: "draft", issuedAt: null }, DEFAULT_RFI_SLA, none, "2025-02-10"),
+  { slaDueDate: null, isOverdue: false, daysOutstanding: 0 }
+);
+
+// Medium priority: 5 business days, skipping the weekend and the holiday
+let tracking = computeRfiTracking(base, DEFAULT_RFI_SLA, holidays, "2025-02-03");
+assert.strictEqual(tracking.slaDueDate, "2025-02-03");
+assert.strictEqual(tracking.isOverdue, false);
+assert.strictEqual(tracking.daysOutstanding, 10);
+
+tracking = computeRfiTracking(base, DEFAULT_RFI_SLA, holidays, "2025-02-04");
+assert.strictEqual(tracking.isOverdue, true);
+
+// Project rules replace the defaults, calendar days roll to a business day
+const calendarRules = { ...DEFAULT_RFI_SLA, high: { responseDays: 1, businessDays: false } };
+tracking = computeRfiTracking({ ...base, priority: "high" }, calendarRules, none, "2025-01-25");
+assert.strictEqual(tracking.slaDueDate, "2025-01-27");
+
+// A required response date overrides the SLA for the overdue state
+tracking = computeRfiTracking({ ...base, dueDate: "2025-01-28" }, DEFAULT_RFI_SLA, none, "2025-01-29");
+assert.strictEqual(tracking.slaDueDate, "2025-01-31");
+assert.strictEqual(tracking.isOverdue, true);
+
+// The clock stops on response, and responded RFIs are never overdue
+tracking = computeRfiTracking(
+  { ...base, status: "responded", respondedAt: new Date(2025, 0, 29, 9) },
+  DEFAULT_RFI_SLA,
+  none,
+  "2025-03-01"
+);
+assert.strictEqual(tracking.daysOutstanding, 5);
+assert.strictEqual(tracking.isOverdue, false);
+
+console.log("RFI SLA tests passed");
+process.exit(0);
@@ -0,0 +1,124 @@
+/**
+ * Test script for calendar-aware CPM
+ *
+ * Parses a small XER fixture with a 5-day calendar (with a holiday) and a 7-day
+ * calendar, and checks the recalculated total float against P6's default scheduling
+ * options (lags on the predecessor's calendar, float in the activity's calendar hours).
+ * The fixture is written by hand in the XER layout, not exported from P6, so the
+ * total_float_hr_cnt values in it were worked out by hand under those options.
+ *
+ * Run with: npx tsx server/test-xer-cpm.ts
+ */
+
+import assert from "assert";
+import { parseXERBuffer } from "./xerParser";
+import { addWorkHours, parseCalendarData, parseXERDate, workHoursBetween } from "./xerCalendar";
+
+// P6 writes clndr_data with 0x7F in place of line breaks
+const FIVE_DAY_CALENDAR = [
+  "(0||CalendarData()(",
+  "  (0||DaysOfWeek()(",
+  "    (0||1()())",
+  "    (0||2()((0||0(s|08:00|f|12:00)())(0||1(s|13:00|f|17:00)())))",
+  "    (0||3()((0||0(s|08:00|f|12:00)())(0||1(s|13:00|f|17:00)())))",
+  "    (0||4()((0||0(s|08:00|f|12:00)())(0||1(s|13:00|f|17:00)())))",
+  "    (0||5()((0||0(s|08:00|f|12:00)())(0||1(s|13:00|f|17:00)())))",
+  "    (0||6()((0||0(s|08:00|f|12:00)())(0||1(s|13:00|f|17:00)())))",
+  "    (0||7()())))",
+  "  (0||VIEW(ShowTotal|Y)())",
+  "  (0||Exceptions()(",
+  "    (0||0(d|45665)())))))", // Wed 8 Jan 2025 holiday
+].join("\x7f");
+
+const SEVEN_DAY_CALENDAR = [
+  "(0||CalendarData()(",
+  "  (0||DaysOfWeek()(",
+  ...[1, 2, 3, 4, 5, 6, 7].map(day => `    (0||${day}()((0||0(s|08:00|f|16:00)())))`),
+  "  ))",
+  "  (0||Exceptions()())))",
+].join("\x7f");
+
+const row = (values: Array<string | number>) => ["%R", ...values].join("\t");
+
+const FIXTURE = [
+  "ERMHDR\t19.12\t2025-01-06",
+  "%T\tPROJECT",
+  "%F\tproj_id\tproj_short_name\tlast_recalc_date\tplan_start_date\tplan_end_date",
+  row(["P1", "CPM-TEST", "2025-01-06 08:00", "2025-01-01 08:00", ""]),
+  "%T\tCALENDAR",
+  "%F\tclndr_id\tdefault_flag\tclndr_name\tday_hr_cnt\tclndr_data",
+  row(["C5", "Y", "5 Day Workweek", 8, FIVE_DAY_CALENDAR]),
+  row(["C7", "N", "7 Day Workweek", 8, SEVEN_DAY_CALENDAR]),
+  "%T\tTASK",
+  "%F\ttask_id\tclndr_id\ttask_code\ttask_name\ttask_type\tstatus_code\ttarget_drtn_hr_cnt\tremain_drtn_hr_cnt\ttarget_start_date\ttarget_end_date\tact_start_date\tact_end_date\ttotal_float_hr_cnt",
+  row(["1", "C5", "A", "Site establishment", "TT_Task", "TK_NotStart", 16, 16, "2025-01-06 08:00", "2025-01-07 17:00", "", "", 0]),
+  row(["2", "C5", "B", "Excavation", "TT_Task", "TK_NotStart", 16, 16, "2025-01-09 08:00", "2025-01-10 17:00", "", "", 0]),
+  row(["3", "C7", "C", "Dewatering", "TT_Task", "TK_NotStart", 8, 8, "2025-01-10 08:00", "2025-01-10 16:00", "", "", 0]),
+  row(["4", "C5", "D", "Ready for footings", "TT_FinMile", "TK_NotStart", 0, 0, "", "2025-01-10 17:00", "", "", 0]),
+  row(["5", "C5", "E", "Site possession", "TT_Task", "TK_Complete", 8, 0, "2025-01-02 08:00", "2025-01-02 17:00", "2025-01-02 08:00", "2025-01-02 17:00", ""]),
+  row(["6", "C5", "F", "Survey set-out", "TT_Task", "TK_NotStart", 8, 8, "2025-01-07 08:00", "2025-01-07 17:00", "", "", 16]),
+  "%T\tTASKPRED",
+  "%F\ttask_pred_id\ttask_id\tpred_task_id\tpred_type\tlag_hr_cnt",
+  row(["R1", "2", "1", "PR_FS", 0]),
+  row(["R2", "3", "1", "PR_FS", 8]), // Lag on A's 5-day calendar, over the holiday
+  row(["R3", "4", "2", "PR_FS", 0]),
+  row(["R4", "4", "3", "PR_FS", 0]),
+  row(["R5", "1", "5", "PR_FS", 0]),
+  row(["R6", "6", "1", "PR_SS", 8]),
+  "%E",
+].join("\r\n");
+
+// Total float (hours); completed activities have none. C's 8h lag runs on A's calendar and
+// skips the holiday, so C starts on Friday and is critical - with the lag on C's own 7-day
+// calendar it would start on Thursday with 8h of float.
+const EXPECTED_FLOAT: Record<string, number | null> = {
+  A: 0,
+  B: 0,
+  C: 0,
+  D: 0,
+  E: null,
+  F: 16,
+};
+
+async function testCalendarArithmetic() {
+  console.log("1. Testing calendar parsing and working-time arithmetic...");
+  const calendar = { calendarId: "C5", calendarName: "5 Day", ...parseCalendarData(FIVE_DAY_CALENDAR) };
+
+  assert.deepStrictEqual(calendar.workWeek?.[0], [], "Sunday is non-work");
+  assert.deepStrictEqual(calendar.workWeek?.[1], [{ start: 480, finish: 720 }, { start: 780, finish: 1020 }]);
+  assert.deepStrictEqual(calendar.exceptions?.["2025-01-08"], [], "Holiday parsed from the Excel date serial");
+
+  const tuesdayFinish = parseXERDate("2025-01-07 17:00")!;
+  assert.strictEqual(addWorkHours(calendar, tuesdayFinish, 8), parseXERDate("2025-01-09 17:00"), "Work skips the holiday");
+  assert.strictEqual(addWorkHours(calendar, parseXERDate("2025-01-10 17:00")!, -24), parseXERDate("2025-01-07 08:00"));
+  assert.strictEqual(workHoursBetween(calendar, parseXERDate("2025-01-06 10:00")!, parseXERDate("2025-01-06 14:00")!), 3, "Lunch break excluded");
+  assert.strictEqual(workHoursBetween(calendar, parseXERDate("2025-01-10 17:00")!, parseXERDate("2025-01-13 17:00")!), 8, "Weekend excluded");
+  console.log("   ✅ Calendar arithmetic matches");
+}
+
+async function testTotalFloat() {
+  console.log("\n2. Testing total float against P6's scheduling options...");
+  const xerData = await parseXERBuffer(Buffer.from(FIXTURE, "utf-8"));
+
+  assert.strictEqual(xerData.calendars.length, 2);
+  assert.ok(xerData.calendars.every(cal => cal.workWeek), "Work weeks parsed for every calendar");
+
+  for (const task of xerData.tasks) {
+    const expected = EXPECTED_FLOAT[task.taskCode];
+    assert.strictEqual(task.totalFloat, expected, `${task.taskCode}: total float ${task.totalFloat}h, expected ${expected}h`);
+    console.log(`   ${task.taskCode.padEnd(3)} ${String(task.totalFloat ?? "-").padStart(4)}h`);
+  }
+  console.log("   ✅ Total float matches");
+}
+
+async function main() {
+  console.log("🧪 Testing calendar-aware CPM\n");
+  await testCalendarArithmetic();
+  await testTotalFloat();
+  console.log("\n=== All tests passed ===\n");
+}
+
+main().catch(error => {
+  console.error("❌ Test failed:", error);
+  process.exit(1);
+});
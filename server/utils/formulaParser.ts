@@ -1,126 +1,217 @@
 import { Parser } from 'expr-eval';
 
-interface WorksheetItemForLookup {
-  lq: string | null;
-  result: string | null;
+/**
+ * Named values a worksheet formula can reference. Keys are matched case-insensitively.
+ */
+export interface FormulaContext {
+  variables: Map<string, number | null>; // Global variable name -> value
+  resourceRates: Map<string, number | null>; // Resource rate code -> tender rate
+}
+
+export interface FormulaResult {
+  result: number;
+  error: string | null; // Validation error (unresolved name, circular reference, ...), result is 0 when set
+}
+
+interface CompiledFormula {
+  expression: string; // Names replaced by values, #LQn replaced by the placeholder variable lqn
+  lineRefs: number[];
+  errors: string[];
 }
 
+// Functions allowed in formulas (expr-eval built-ins)
+const ALLOWED_FUNCTIONS = new Set(['abs', 'ceil', 'floor', 'round', 'sqrt', 'min', 'max']);
+
+// Number literal (e.g. 1.5e-3, kept as written), #LQ reference, [bracketed name] for names containing
+// spaces or symbols, or a bare identifier. Numbers are matched first so "1e5" is not read as the name "e5".
+const NUMBER_PATTERN = /(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/gi;
+const TOKEN_PATTERN = new RegExp(`(${NUMBER_PATTERN.source})|#LQ(\\d+)|\\[([^\\]]+)\\]|([A-Za-z_][A-Za-z0-9_]*)`, 'gi');
+
 /**
- * Parses a formula string by:
- * 1. Replacing #LQ references with actual result values from other line items
- * 2. Stripping alpha characters
- * 3. Evaluating the result
- * 
- * Example inputs:
- * - "(2* days) * 2 days" -> extracts "2 * 2" -> returns 4
- * - "3.5 * width" -> extracts "3.5 *" -> returns 3.5
- * - "#LQ1 * 2" -> looks up result from LQ 1, then evaluates
- * - "100" -> returns 100
- * 
- * @param formula - The formula string with possible alpha characters and #LQ references
- * @param allItems - All worksheet items for cross-reference lookup (optional)
- * @param currentItemLq - The LQ number of the current item (for circular reference detection)
- * @returns The numeric result, or 0 if invalid
+ * Build a formula context from a project's global variables and resource rates
+ */
+export function buildFormulaContext(
+  variables: Array<{ variableName: string; value: string | null }>,
+  resourceRates: Array<{ code: string; tenderRate: string | null }>
+): FormulaContext {
+  return {
+    variables: new Map(variables.map(v => [v.variableName.toLowerCase(), v.value != null ? parseFloat(v.value) : null])),
+    resourceRates: new Map(resourceRates.map(r => [r.code.toLowerCase(), r.tenderRate != null ? parseFloat(r.tenderRate) : null])),
+  };
+}
+
+/**
+ * Resolve a name to a value: global variables take precedence over resource rate codes
  */
-export function parseFormula(
-  formula: string | null | undefined,
-  allItems?: WorksheetItemForLookup[],
-  currentItemLq?: string | null
-): number {
-  if (!formula || formula.trim() === '') {
-    return 0;
+function resolveName(name: string, context: FormulaContext): { value: number | null; error: string | null } {
+  const key = name.trim().toLowerCase();
+
+  if (context.variables.has(key)) {
+    const value = context.variables.get(key)!;
+    return value == null || isNaN(value)
+      ? { value: null, error: `Global variable "${name}" has no value` }
+      : { value, error: null };
   }
 
-  try {
-    let processedFormula = formula;
-
-    // Step 0: Replace #LQ references with actual result values
-    if (allItems && allItems.length > 0) {
-      // Match #LQ followed by digits (case-insensitive)
-      const lqPattern = /#LQ(\d+)/gi;
-      
-      processedFormula = processedFormula.replace(lqPattern, (match, lqNumber) => {
-        // Circular reference detection (only block self-references)
-        if (currentItemLq && lqNumber === currentItemLq) {
-          console.warn(`Circular reference detected: #LQ${lqNumber} references itself`);
-          return '0';
-        }
-
-        // Find the item with matching LQ number
-        const referencedItem = allItems.find(item => 
-          item.lq !== null && item.lq === lqNumber
-        );
-
-        if (!referencedItem) {
-          console.warn(`#LQ${lqNumber} not found in worksheet items`);
-          return '0';
-        }
-
-        // Return the result value (or 0 if null/undefined)
-        const resultValue = referencedItem.result ?? '0';
-        return resultValue;
-      });
-    }
+  if (context.resourceRates.has(key)) {
+    const value = context.resourceRates.get(key)!;
+    return value == null || isNaN(value)
+      ? { value: null, error: `Resource rate "${name}" has no tender rate` }
+      : { value, error: null };
+  }
 
-    // Step 1: Strip all alpha characters (letters and underscores)
-    // This removes variable names like "days", "width", etc.
-    let sanitized = processedFormula.replace(/[A-Za-z_]+/g, ' ');
+  return { value: null, error: `Unknown name "${name}"` };
+}
 
-    // Step 2: Remove any remaining illegal characters (keep only numbers, operators, parentheses, dots, spaces)
-    sanitized = sanitized.replace(/[^0-9+\-*/().\s]/g, '');
+/**
+ * Replace names with their values and #LQ references with placeholder variables
+ */
+function compileFormula(formula: string, context: FormulaContext): CompiledFormula {
+  const errors: string[] = [];
+  const lineRefs: number[] = [];
 
-    // Step 3: Collapse multiple spaces and trim
-    sanitized = sanitized.replace(/\s+/g, ' ').trim();
+  const expression = formula.replace(TOKEN_PATTERN, (match, number, lqNumber, bracketed, identifier, offset) => {
+    if (number !== undefined) {
+      return match;
+    }
 
-    // Step 4: Validate the sanitized formula (only allowed characters)
-    if (!/^[0-9+\-*/().\s]+$/.test(sanitized)) {
-      console.warn(`Invalid formula after sanitization: "${sanitized}"`);
-      return 0;
+    if (lqNumber !== undefined) {
+      const line = parseInt(lqNumber, 10);
+      if (!lineRefs.includes(line)) lineRefs.push(line);
+      return ` lq${line} `;
     }
 
-    // Edge case: Empty after sanitization
-    if (sanitized === '') {
-      return 0;
+    // Allowed function call, e.g. "max(a, b)"
+    const following = formula.slice(offset + match.length).trimStart();
+    if (identifier !== undefined && ALLOWED_FUNCTIONS.has(identifier.toLowerCase()) && following.startsWith('(')) {
+      return identifier.toLowerCase();
     }
 
-    // Edge case: Only operators or parentheses left
-    if (/^[+\-*/().\s]+$/.test(sanitized)) {
-      return 0;
+    const { value, error } = resolveName(bracketed ?? identifier, context);
+    if (error) {
+      errors.push(error);
+      return ' 0 ';
     }
+    return ` (${value}) `;
+  });
+
+  // Anything left besides numbers, operators and the tokens above is rejected
+  const remainder = expression
+    .replace(NUMBER_PATTERN, '0')
+    .replace(/lq\d+/g, '')
+    .replace(new RegExp(`\\b(${Array.from(ALLOWED_FUNCTIONS).join('|')})\\b`, 'g'), '');
+  if (!/^[0-9+\-*/^().,\s]*$/.test(remainder)) {
+    errors.push('Formula contains invalid characters');
+  }
+
+  return { expression, lineRefs, errors };
+}
+
+/**
+ * Evaluate a compiled expression with #LQ placeholder values
+ */
+function evaluateExpression(expression: string, lineValues: Record<string, number>): FormulaResult {
+  if (expression.trim() === '') {
+    return { result: 0, error: null };
+  }
 
-    // Step 5: Safely evaluate using expr-eval
+  try {
     const parser = new Parser();
-    const result = parser.evaluate(sanitized);
+    const result = parser.evaluate(expression, lineValues);
 
-    // Step 6: Validate result is a valid number
     if (typeof result !== 'number' || isNaN(result) || !isFinite(result)) {
-      console.warn(`Formula evaluation resulted in non-finite number: ${result}`);
-      return 0;
+      return { result: 0, error: 'Formula does not evaluate to a finite number' };
     }
 
     // Round to 2 decimal places to match database precision
-    return Math.round(result * 100) / 100;
+    return { result: Math.round(result * 100) / 100, error: null };
   } catch (error) {
-    console.error(`Error parsing formula "${formula}":`, error);
-    return 0;
+    return { result: 0, error: 'Invalid formula syntax' };
   }
 }
 
 /**
- * Validates if a formula string can be successfully parsed.
- * 
- * @param formula - The formula string to validate
- * @returns true if valid, false otherwise
+ * Evaluates every formula in a worksheet.
+ *
+ * #LQn refers to the item whose line number (the LQ column) is n. Line numbers are assigned when
+ * an item is created and never reused, so deleting a line makes references to it an error rather
+ * than pointing them at another line. Formulas may reference global variables and resource rate
+ * codes by name (bare identifiers, or [bracketed] when the name contains spaces or symbols).
+ *
+ * References are resolved as a dependency graph, so circular references of any length
+ * (#LQ1 -> #LQ3 -> #LQ1) are reported on every item in the cycle, and items depending on an
+ * item with an error are flagged rather than silently using 0.
+ *
+ * Example inputs:
+ * - "length * width" -> looks up both global variables
+ * - "#LQ1 * 2" -> result of line 1 times 2
+ * - "[Concrete 32MPa] * 1.05" -> resource rate code containing spaces
+ * - "2 days" -> error: Unknown name "days"
+ *
+ * @param items - Worksheet items with their line numbers
+ * @param context - Global variables and resource rates of the project
+ * @returns One result per item, in the same order
  */
-export function isValidFormula(formula: string | null | undefined): boolean {
-  if (!formula || formula.trim() === '') {
-    return true; // Empty formulas are valid (result = 0)
-  }
+export function evaluateWorksheetFormulas(
+  items: Array<{ formula: string | null; line: number }>,
+  context: FormulaContext
+): FormulaResult[] {
+  const indexByLine = new Map(items.map((item, index) => [item.line, index]));
+  const compiled = items.map(item =>
+    item.formula && item.formula.trim() !== ''
+      ? compileFormula(item.formula, context)
+      : { expression: '', lineRefs: [], errors: [] }
+  );
+  const results: Array<FormulaResult | undefined> = new Array(items.length);
+  const stack: number[] = [];
+
+  const evaluateLine = (index: number): FormulaResult => {
+    if (results[index]) {
+      return results[index]!;
+    }
 
-  try {
-    const result = parseFormula(formula);
-    return true;
-  } catch {
-    return false;
-  }
+    // Back edge - every line on the stack from here is part of the cycle
+    const cycleStart = stack.indexOf(index);
+    if (cycleStart !== -1) {
+      const cycle = stack.slice(cycleStart).concat(index);
+      const error = `Circular reference: ${cycle.map(i => `#LQ${items[i].line}`).join(' -> ')}`;
+      cycle.forEach(line => {
+        results[line] = { result: 0, error };
+      });
+      return results[index]!;
+    }
+
+    stack.push(index);
+    const { expression, lineRefs, errors } = compiled[index];
+    const lineValues: Record<string, number> = {};
+
+    for (const line of lineRefs) {
+      const dependencyIndex = indexByLine.get(line);
+      if (dependencyIndex === undefined) {
+        errors.push(`#LQ${line} does not exist`);
+        continue;
+      }
+
+      const dependency = evaluateLine(dependencyIndex);
+
+      // This line turned out to be part of a cycle found further down
+      if (results[index]) {
+        stack.pop();
+        return results[index]!;
+      }
+
+      if (dependency.error) {
+        errors.push(`#LQ${line} has an error`);
+      }
+      lineValues[`lq${line}`] = dependency.result;
+    }
+    stack.pop();
+
+    results[index] = errors.length > 0
+      ? { result: 0, error: errors.join('; ') }
+      : evaluateExpression(expression, lineValues);
+    return results[index]!;
+  };
+
+  return items.map((_, index) => evaluateLine(index));
 }
@@ -0,0 +1,64 @@
+/**
+ * pgvector search helpers
+ *
+ * Embeddings are stored in vector(n) columns with HNSW indexes (vector_cosine_ops),
+ * so top-k queries order by cosine distance (<=>) in SQL instead of loading every
+ * embedding into Node. HNSW is used rather than IVFFlat because it needs no
+ * training data and stays accurate as rows are added after the index is built.
+ */
+
+import { sql } from 'drizzle-orm';
+import { db } from './db';
+
+// Dimensions of the vector columns in shared/schema.ts
+export const EMAIL_EMBEDDING_DIMENSIONS = 512; // voyage-3-lite
+export const LEGAL_EMBEDDING_DIMENSIONS = 1024; // voyage-law-2 (letters and contract pages)
+
+export interface StoredEmbedding {
+  vector: number[]; // Padded to the column's dimensions
+  model: string;
+  dimensions: number; // Dimensions the model produced
+}
+
+// Candidates visited per HNSW scan; higher is more accurate and slower (pgvector default 40)
+const HNSW_EF_SEARCH = 100;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Embedding to store in a vector column, or null if the embedding is missing or longer
+ * than the column (the insert would fail otherwise). Shorter embeddings (e.g. from the
+ * local model) are zero-padded, which leaves cosine distances between them unchanged.
+ */
+export function toStoredEmbedding(embedding: number[] | null | undefined, columnDimensions: number, model: string): StoredEmbedding | null {
+  if (!embedding || embedding.length === 0) return null;
+  if (embedding.length > columnDimensions) {
+    console.warn(`Discarding ${model} embedding with ${embedding.length} dimensions (column has ${columnDimensions})`);
+    return null;
+  }
+  const vector = embedding.length < columnDimensions
+    ? embedding.concat(new Array(columnDimensions - embedding.length).fill(0))
+    : embedding;
+  return { vector, model, dimensions: embedding.length };
+}
+
+/**
+ * Cosine similarity (1 - cosine distance) from a distance returned by <=>
+ */
+export function similarityFromDistance(distance: number | string | null): number {
+  if (distance === null) return 0;
+  return 1 - Number(distance);
+}
+
+/**
+ * Run a top-k vector query with the HNSW settings applied to its transaction.
+ * Iterative scans keep reading the index when WHERE filters reject candidates,
+ * so filtered searches still return k rows.
+ */
+export async function withVectorSearch<T>(query: (tx: Transaction) => Promise<T>): Promise<T> {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql.raw(`SET LOCAL hnsw.ef_search = ${HNSW_EF_SEARCH}`));
+    await tx.execute(sql`SET LOCAL hnsw.iterative_scan = relaxed_order`);
+    return query(tx);
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Worksheet Recalculation
+ *
+ * Re-evaluates worksheet item formulas against the project's global variables and
+ * resource rates. Results depend on other items (#LQ references), on global variables
+ * and on resource rate codes, so whole worksheets are recalculated whenever any of
+ * those change. Only rows whose result, total or error actually changed are written.
+ * BOQ items linked to a recalculated worksheet have their rates re-derived afterwards.
+ */
+
+import { db } from './db';
+import { worksheets, worksheetItems, globalVariables, resourceRates, type WorksheetItem } from '@shared/schema';
+import { eq, asc } from 'drizzle-orm';
+import { buildFormulaContext, evaluateWorksheetFormulas, type FormulaContext } from './utils/formulaParser';
+import { refreshBoqRatesForWorksheets } from './boqRateBuildUp';
+
+interface ProjectFormulaData {
+  context: FormulaContext;
+  tenderRateById: Map<string, number>;
+}
+
+async function loadProjectFormulaData(projectId: string): Promise<ProjectFormulaData> {
+  const [variables, rates] = await Promise.all([
+    db
+      .select({ variableName: globalVariables.variableName, value: globalVariables.value })
+      .from(globalVariables)
+      .where(eq(globalVariables.projectId, projectId)),
+    db
+      .select({ id: resourceRates.id, code: resourceRates.code, tenderRate: resourceRates.tenderRate })
+      .from(resourceRates)
+      .where(eq(resourceRates.projectId, projectId)),
+  ]);
+
+  return {
+    context: buildFormulaContext(variables, rates),
+    tenderRateById: new Map(rates.map(r => [r.id, parseFloat(r.tenderRate || '0')])),
+  };
+}
+
+async function recalculateWithData(worksheetId: string, data: ProjectFormulaData): Promise<{ items: WorksheetItem[]; changed: number }> {
+  const items = await db
+    .select()
+    .from(worksheetItems)
+    .where(eq(worksheetItems.worksheetId, worksheetId))
+    .orderBy(asc(worksheetItems.lq));
+
+  const evaluations = evaluateWorksheetFormulas(items.map(item => ({ formula: item.formula, line: item.lq })), data.context);
+  const updatedItems: WorksheetItem[] = [];
+  let changed = 0;
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const { result, error } = evaluations[i];
+    const tenderRate = item.resourceRateId ? data.tenderRateById.get(item.resourceRateId) ?? 0 : 0;
+    const total = Math.round(tenderRate * result * 100) / 100;
+
+    const unchanged = parseFloat(item.result) === result
+      && parseFloat(item.total) === total
+      && item.formulaError === error;
+    if (unchanged) {
+      updatedItems.push(item);
+      continue;
+    }
+
+    const [updated] = await db
+      .update(worksheetItems)
+      .set({
+        result: result.toString(),
+        total: total.toString(),
+        formulaError: error,
+      })
+      .where(eq(worksheetItems.id, item.id))
+      .returning();
+    updatedItems.push(updated);
+    changed++;
+  }
+
+  return { items: updatedItems, changed };
+}
+
+/**
+ * Recalculate all items of one worksheet
+ * @returns The worksheet's items in line order, with updated results
+ */
+export async function recalculateWorksheet(projectId: string, worksheetId: string): Promise<WorksheetItem[]> {
+  const data = await loadProjectFormulaData(projectId);
+  const { items } = await recalculateWithData(worksheetId, data);
+  await refreshBoqRatesForWorksheets(projectId, [worksheetId]);
+  return items;
+}
+
+/**
+ * Recalculate every worksheet in a project (after a global variable or resource rate change)
+ * @returns Number of worksheet items whose result, total or error changed
+ */
+export async function recalculateProjectWorksheets(projectId: string): Promise<number> {
+  const data = await loadProjectFormulaData(projectId);
+  const projectWorksheets = await db
+    .select({ id: worksheets.id })
+    .from(worksheets)
+    .where(eq(worksheets.projectId, projectId));
+
+  let changed = 0;
+  const changedWorksheetIds: string[] = [];
+  for (const worksheet of projectWorksheets) {
+    const worksheetChanged = (await recalculateWithData(worksheet.id, data)).changed;
+    if (worksheetChanged > 0) changedWorksheetIds.push(worksheet.id);
+    changed += worksheetChanged;
+  }
+
+  await refreshBoqRatesForWorksheets(projectId, changedWorksheetIds);
+  return changed;
+}
@@ -0,0 +1,265 @@
+/**
+ * XER Calendars
+ *
+ * Parses the clndr_data field of the P6 CALENDAR table and does working-time
+ * arithmetic on the result. clndr_data is a nested bracket structure:
+ *
+ *   (0||CalendarData()(
+ *     (0||DaysOfWeek()(
+ *       (0||1()())                                  <- Sunday, no work
+ *       (0||2()((0||0(s|08:00|f|12:00)()) ...))     <- Monday work periods
+ *       ...))
+ *     (0||Exceptions()(
+ *       (0||0(d|45658)())                           <- holiday (Excel date serial)
+ *       (0||1(d|45659)((0||0(s|08:00|f|12:00)())))  <- changed working hours
+ *     ))))
+ *
+ * XER dates carry no time zone, so times are handled as wall-clock milliseconds
+ * (Date.UTC of the written date and time) and days of the week are read in UTC.
+ */
+
+import type { XERCalendar, XERWorkPeriod } from './xerParser';
+
+interface CalendarNode {
+  name: string;
+  attrs: string[];
+  children: CalendarNode[];
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+// Stop searching for working time after this many days (calendar with no work)
+const MAX_SEARCH_DAYS = 366 * 50;
+
+/**
+ * Parse an XER date ("2025-01-06 08:00") as wall-clock milliseconds
+ */
+export function parseXERDate(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2}))?/);
+  if (match) {
+    const [, year, month, day, hour, minute] = match;
+    return Date.UTC(+year, +month - 1, +day, hour ? +hour : 0, minute ? +minute : 0);
+  }
+  const parsed = new Date(value).getTime();
+  return isNaN(parsed) ? null : parsed;
+}
+
+const dayKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const parseTime = (value: string | undefined): number | null => {
+  const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+  return match ? +match[1] * 60 + +match[2] : null;
+};
+
+/**
+ * Parse the bracket structure into a node tree (whitespace and the 0x7F line
+ * separators P6 writes inside the field are ignored)
+ */
+function parseNodes(data: string): CalendarNode[] {
+  const text = data.replace(/[\s\x7f]/g, '');
+  let pos = 0;
+
+  const readUntil = (terminator: string) => {
+    const end = text.indexOf(terminator, pos);
+    if (end < 0) throw new Error(`Expected "${terminator}" at ${pos}`);
+    const value = text.slice(pos, end);
+    pos = end + terminator.length;
+    return value;
+  };
+
+  const parseChildren = (): CalendarNode[] => {
+    const children: CalendarNode[] = [];
+    while (text[pos] === '(') children.push(parseNode());
+    return children;
+  };
+
+  const parseNode = (): CalendarNode => {
+    pos++; // (
+    readUntil('||'); // Sibling index
+    const name = readUntil('(');
+    const attrs = readUntil(')');
+    if (text[pos] !== '(') throw new Error(`Expected children at ${pos}`);
+    pos++;
+    const children = parseChildren();
+    readUntil(')'); // End of children
+    readUntil(')'); // End of node
+    return { name, attrs: attrs ? attrs.split('|') : [], children };
+  };
+
+  return parseChildren();
+}
+
+const findNode = (nodes: CalendarNode[], name: string): CalendarNode | undefined => {
+  for (const node of nodes) {
+    if (node.name === name) return node;
+    const found = findNode(node.children, name);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+const attr = (node: CalendarNode, key: string) => {
+  const index = node.attrs.indexOf(key);
+  return index >= 0 ? node.attrs[index + 1] : undefined;
+};
+
+function parseWorkPeriods(node: CalendarNode): XERWorkPeriod[] {
+  const periods: XERWorkPeriod[] = [];
+  for (const child of node.children) {
+    const start = parseTime(attr(child, 's'));
+    let finish = parseTime(attr(child, 'f'));
+    if (start === null || finish === null) continue;
+    if (finish <= start) finish += 24 * 60; // "00:00" finish is midnight
+    periods.push({ start, finish });
+  }
+  return periods.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Parse clndr_data into a work week and exceptions
+ * @returns null when the field is empty or cannot be parsed
+ */
+export function parseCalendarData(clndrData: string | null | undefined): Pick<XERCalendar, 'workWeek' | 'exceptions'> | null {
+  if (!clndrData) return null;
+
+  try {
+    const nodes = parseNodes(clndrData);
+    const daysOfWeek = findNode(nodes, 'DaysOfWeek');
+    if (!daysOfWeek) return null;
+
+    // P6 numbers days 1 (Sunday) to 7 (Saturday)
+    const workWeek: XERWorkPeriod[][] = Array.from({ length: 7 }, () => []);
+    for (const day of daysOfWeek.children) {
+      const dayNumber = parseInt(day.name);
+      if (dayNumber >= 1 && dayNumber <= 7) {
+        workWeek[dayNumber - 1] = parseWorkPeriods(day);
+      }
+    }
+
+    const exceptions: Record<string, XERWorkPeriod[]> = {};
+    for (const exception of findNode(nodes, 'Exceptions')?.children ?? []) {
+      const serial = parseInt(attr(exception, 'd') ?? '');
+      if (isNaN(serial)) continue;
+      exceptions[dayKey(EXCEL_EPOCH + serial * MS_PER_DAY)] = parseWorkPeriods(exception);
+    }
+
+    return { workWeek, exceptions };
+  } catch (error) {
+    console.error('Error parsing XER calendar data:', error);
+    return null;
+  }
+}
+
+/**
+ * Calendars from the XER CALENDAR table
+ */
+export function extractCalendars(rows: any[]): XERCalendar[] {
+  return rows.map((cal: any) => ({
+    calendarId: cal.clndr_id || '',
+    calendarName: cal.clndr_name || '',
+    isDefault: cal.default_flag === 'Y',
+    hoursPerDay: cal.day_hr_cnt ? parseFloat(cal.day_hr_cnt) : null,
+    ...parseCalendarData(cal.clndr_data),
+  }));
+}
+
+/**
+ * Whether a calendar has parsed working time to schedule on
+ */
+export function hasWorkTime(calendar: XERCalendar | undefined): calendar is XERCalendar & { workWeek: XERWorkPeriod[][] } {
+  return !!calendar?.workWeek && (
+    calendar.workWeek.some(day => day.length > 0) ||
+    Object.values(calendar.exceptions ?? {}).some(day => day.length > 0)
+  );
+}
+
+/**
+ * Working periods of the day starting at dayStart, as absolute times
+ */
+function periodsOn(calendar: XERCalendar, dayStart: number): Array<[number, number]> {
+  const exception = calendar.exceptions?.[dayKey(dayStart)];
+  const periods = exception ?? calendar.workWeek?.[new Date(dayStart).getUTCDay()] ?? [];
+  return periods.map(p => [dayStart + p.start * MS_PER_MINUTE, dayStart + p.finish * MS_PER_MINUTE]);
+}
+
+const startOfDay = (time: number) => Math.floor(time / MS_PER_DAY) * MS_PER_DAY;
+
+/**
+ * Earliest working instant at or after a time (where work can start)
+ */
+export function nextWorkTime(calendar: XERCalendar, time: number): number {
+  let day = startOfDay(time);
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, day += MS_PER_DAY) {
+    for (const [start, finish] of periodsOn(calendar, day)) {
+      if (time < finish) return Math.max(time, start);
+    }
+  }
+  return time;
+}
+
+/**
+ * Latest working instant at or before a time (where work can finish)
+ */
+export function previousWorkTime(calendar: XERCalendar, time: number): number {
+  let day = startOfDay(time);
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, day -= MS_PER_DAY) {
+    const periods = periodsOn(calendar, day);
+    for (let p = periods.length - 1; p >= 0; p--) {
+      const [start, finish] = periods[p];
+      if (time > start) return Math.min(time, finish);
+    }
+  }
+  return time;
+}
+
+/**
+ * Move a time by an amount of working time (negative hours move backwards).
+ * Zero hours returns the time unchanged.
+ */
+export function addWorkHours(calendar: XERCalendar, time: number, hours: number): number {
+  let remaining = Math.round(Math.abs(hours) * 60) * MS_PER_MINUTE;
+  if (remaining === 0) return time;
+  const forward = hours > 0;
+
+  let current = time;
+  let day = startOfDay(time);
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, day += forward ? MS_PER_DAY : -MS_PER_DAY) {
+    const periods = periodsOn(calendar, day);
+    if (!forward) periods.reverse();
+    for (const [start, finish] of periods) {
+      if (forward) {
+        if (finish <= current) continue;
+        const from = Math.max(start, current);
+        if (finish - from >= remaining) return from + remaining;
+        remaining -= finish - from;
+        current = finish;
+      } else {
+        if (start >= current) continue;
+        const to = Math.min(finish, current);
+        if (to - start >= remaining) return to - remaining;
+        remaining -= to - start;
+        current = start;
+      }
+    }
+  }
+  // No working time found - fall back to elapsed time
+  return current + (forward ? remaining : -remaining);
+}
+
+/**
+ * Working hours from one time to another (negative when "to" is earlier)
+ */
+export function workHoursBetween(calendar: XERCalendar, from: number, to: number): number {
+  if (to < from) return -workHoursBetween(calendar, to, from);
+
+  let total = 0;
+  for (let day = startOfDay(from); day < to; day += MS_PER_DAY) {
+    for (const [start, finish] of periodsOn(calendar, day)) {
+      const overlap = Math.min(finish, to) - Math.max(start, from);
+      if (overlap > 0) total += overlap;
+    }
+  }
+  return total / (60 * MS_PER_MINUTE);
+}
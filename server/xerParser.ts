@@ -1,5 +1,14 @@
 import { createReadStream } from 'fs';
 import { createInterface } from 'readline';
+import {
+  addWorkHours,
+  extractCalendars,
+  hasWorkTime,
+  nextWorkTime,
+  parseXERDate,
+  previousWorkTime,
+  workHoursBetween,
+} from './xerCalendar';
 
 export interface XERTask {
   taskId: string;
@@ -16,6 +25,10 @@ export interface XERTask {
   status: string | null; // TK_Active, TK_Complete, etc.
   cstrType: string | null; // Constraint type
   cstrDate: string | null; // Constraint date
+  actualStart?: string | null;
+  actualFinish?: string | null;
+  remainingDuration?: number | null; // Hours
+  resourceCount?: number; // TASKRSRC assignments
 }
 
 export interface XERProject {
@@ -41,9 +54,57 @@ export interface XERRelationship {
   lag: number | null;
 }
 
+export interface XERWorkPeriod {
+  start: number; // Minutes from midnight
+  finish: number;
+}
+
 export interface XERCalendar {
   calendarId: string;
   calendarName: string;
+  isDefault?: boolean;
+  hoursPerDay?: number | null;
+  workWeek?: XERWorkPeriod[][]; // Index 0 = Sunday
+  exceptions?: Record<string, XERWorkPeriod[]>; // 'YYYY-MM-DD' -> working periods that day (empty = non-work day)
+}
+
+export interface CriticalPathOptions {
+  calendars?: XERCalendar[];
+  dataDate?: string | null;
+}
+
+export interface XERResource {
+  resourceId: string;
+  resourceCode: string; // rsrc_short_name - the resource ID shown in P6
+  resourceName: string;
+  resourceType: string | null; // RT_Labor, RT_Equip, RT_Mat
+  parentResourceId: string | null;
+}
+
+export interface XERResourceAssignment {
+  assignmentId: string;
+  taskId: string;
+  resourceId: string | null;
+  accountId: string | null; // Cost account
+  budgetedUnits: number;
+  actualUnits: number;
+  remainingUnits: number;
+  budgetedCost: number;
+  actualCost: number;
+  remainingCost: number;
+  plannedStart: string | null;
+  plannedFinish: string | null;
+  actualStart: string | null;
+  actualFinish: string | null;
+  remainingStart: string | null;
+  remainingFinish: string | null;
+}
+
+export interface XERAccount {
+  accountId: string;
+  accountCode: string;
+  accountName: string;
+  parentAccountId: string | null;
 }
 
 export interface XERData {
@@ -52,14 +113,242 @@ export interface XERData {
   wbs: XERWBS[];
   relationships: XERRelationship[];
   calendars: XERCalendar[];
+  // Programs stored before resource loading was parsed have none of these
+  resources?: XERResource[];
+  resourceAssignments?: XERResourceAssignment[];
+  accounts?: XERAccount[];
+}
+
+/**
+ * A program file that cannot be read (invalid XML, missing CSV columns, etc.)
+ */
+export class ProgramImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProgramImportError';
+    Object.setPrototypeOf(this, ProgramImportError.prototype);
+  }
 }
 
 /**
  * Calculate critical path using CPM algorithm
- * This performs a backward pass to calculate Late Finish and Late Start,
- * then calculates Total Float for each task
+ * With parsed calendars this runs a calendar-aware forward and backward pass
+ * (see calculateCalendarFloat); programs stored before calendars were parsed
+ * fall back to elapsed-time float from the exported dates.
+ */
+export function calculateCriticalPath(
+  tasks: XERTask[],
+  relationships: XERRelationship[],
+  options: CriticalPathOptions = {}
+): XERTask[] {
+  const calendars = (options.calendars || []).filter(hasWorkTime);
+  if (calendars.length === 0) {
+    return calculateElapsedFloat(tasks, relationships);
+  }
+  return calculateCalendarFloat(tasks, relationships, calendars, options.dataDate ?? null);
+}
+
+// Start milestones start at the next work time; finish milestones finish at the end of the previous one
+const START_MILESTONE = 'TT_Mile';
+const FINISH_MILESTONE = 'TT_FinMile';
+// Level of effort and WBS summary activities span other activities and do not drive them
+const NON_DRIVING_TYPES = new Set(['TT_LOE', 'TT_WBS']);
+
+/**
+ * Calendar-aware CPM, as P6 schedules with its default options:
+ * - Completed activities keep their actual dates and carry no float
+ * - In-progress activities keep their actual start; remaining work starts at the data date
+ * - Not-started activities start no earlier than the data date and their predecessors
+ * - Durations run on the activity's calendar, lags on the predecessor's calendar
+ * - Total float = late finish - early finish, in working hours of the activity's calendar
+ */
+function calculateCalendarFloat(
+  tasks: XERTask[],
+  relationships: XERRelationship[],
+  calendars: XERCalendar[],
+  dataDate: string | null
+): XERTask[] {
+  const calendarMap = new Map(calendars.map(cal => [cal.calendarId, cal]));
+  const defaultCalendar = calendars.find(cal => cal.isDefault) || calendars[0];
+  const calendarFor = (task: XERTask) => (task.calendarId && calendarMap.get(task.calendarId)) || defaultCalendar;
+
+  const taskMap = new Map<string, XERTask>();
+  tasks.forEach(task => taskMap.set(task.taskId, task));
+
+  const predecessorMap = new Map<string, XERRelationship[]>();
+  const successorMap = new Map<string, XERRelationship[]>();
+  relationships.forEach(rel => {
+    if (!taskMap.has(rel.predTaskId) || !taskMap.has(rel.taskId)) return;
+    if (!predecessorMap.has(rel.taskId)) predecessorMap.set(rel.taskId, []);
+    if (!successorMap.has(rel.predTaskId)) successorMap.set(rel.predTaskId, []);
+    predecessorMap.get(rel.taskId)!.push(rel);
+    successorMap.get(rel.predTaskId)!.push(rel);
+  });
+
+  // Topological order; activities in loops are appended in file order
+  const order: XERTask[] = [];
+  const inDegree = new Map(tasks.map(task => [task.taskId, predecessorMap.get(task.taskId)?.length ?? 0]));
+  const queue = tasks.filter(task => inDegree.get(task.taskId) === 0);
+  while (queue.length > 0) {
+    const task = queue.shift()!;
+    order.push(task);
+    for (const rel of successorMap.get(task.taskId) || []) {
+      const remaining = inDegree.get(rel.taskId)! - 1;
+      inDegree.set(rel.taskId, remaining);
+      if (remaining === 0) queue.push(taskMap.get(rel.taskId)!);
+    }
+  }
+  if (order.length < tasks.length) {
+    const ordered = new Set(order);
+    tasks.forEach(task => { if (!ordered.has(task)) order.push(task); });
+  }
+
+  const taskStarts = tasks.map(task => parseXERDate(task.startDate)).filter((t): t is number => t !== null);
+  const scheduleStart = parseXERDate(dataDate) ?? (taskStarts.length > 0 ? Math.min(...taskStarts) : null);
+  if (scheduleStart === null) {
+    return tasks;
+  }
+
+  const isComplete = (task: XERTask) => task.status === 'TK_Complete' || !!task.actualFinish;
+  const remainingHours = (task: XERTask) => {
+    if (task.taskType === START_MILESTONE || task.taskType === FINISH_MILESTONE) return 0;
+    return Math.max(task.remainingDuration ?? task.duration ?? 0, 0);
+  };
+  const constraintDate = (task: XERTask) => parseXERDate(task.cstrDate);
+
+  // Forward pass
+  const early = new Map<string, { start: number; finish: number }>();
+  for (const task of order) {
+    const calendar = calendarFor(task);
+    const hours = remainingHours(task);
+
+    if (isComplete(task)) {
+      const start = parseXERDate(task.actualStart ?? task.startDate);
+      const finish = parseXERDate(task.actualFinish ?? task.finishDate);
+      if (start !== null && finish !== null) early.set(task.taskId, { start, finish });
+      continue;
+    }
+
+    const actualStart = parseXERDate(task.actualStart ?? (task.status === 'TK_Active' ? task.startDate : null));
+    if (actualStart !== null) {
+      early.set(task.taskId, {
+        start: actualStart,
+        finish: addWorkHours(calendar, nextWorkTime(calendar, Math.max(scheduleStart, actualStart)), hours),
+      });
+      continue;
+    }
+
+    let start = scheduleStart;
+    let minFinish: number | null = null;
+    for (const rel of predecessorMap.get(task.taskId) || []) {
+      const pred = taskMap.get(rel.predTaskId)!;
+      const predDates = early.get(pred.taskId);
+      if (!predDates || NON_DRIVING_TYPES.has(pred.taskType || '')) continue;
+      const predCalendar = calendarFor(pred);
+      const lag = rel.lag || 0;
+      switch (rel.predType) {
+        case 'PR_SS':
+          start = Math.max(start, addWorkHours(predCalendar, predDates.start, lag));
+          break;
+        case 'PR_FF':
+          minFinish = Math.max(minFinish ?? -Infinity, addWorkHours(predCalendar, predDates.finish, lag));
+          break;
+        case 'PR_SF':
+          minFinish = Math.max(minFinish ?? -Infinity, addWorkHours(predCalendar, predDates.start, lag));
+          break;
+        case 'PR_FS':
+        default:
+          start = Math.max(start, addWorkHours(predCalendar, predDates.finish, lag));
+      }
+    }
+
+    const cstr = constraintDate(task);
+    if (cstr !== null) {
+      if (['CS_MSO', 'CS_MSOA', 'CS_MANDSTART'].includes(task.cstrType || '')) start = Math.max(start, cstr);
+      if (['CS_MEO', 'CS_MEOA', 'CS_MANDFIN'].includes(task.cstrType || '')) minFinish = Math.max(minFinish ?? -Infinity, cstr);
+    }
+
+    if (task.taskType !== FINISH_MILESTONE) start = nextWorkTime(calendar, start);
+    let finish = addWorkHours(calendar, start, hours);
+    if (minFinish !== null && minFinish > finish) {
+      finish = task.taskType === START_MILESTONE ? minFinish : previousWorkTime(calendar, minFinish);
+      start = addWorkHours(calendar, finish, -hours);
+    }
+    early.set(task.taskId, { start, finish });
+  }
+
+  const earlyFinishes = Array.from(early.values()).map(dates => dates.finish);
+  if (earlyFinishes.length === 0) {
+    return tasks;
+  }
+  const projectFinish = Math.max(...earlyFinishes);
+
+  // Backward pass
+  const late = new Map<string, { start: number; finish: number }>();
+  for (let i = order.length - 1; i >= 0; i--) {
+    const task = order[i];
+    if (!early.has(task.taskId) || isComplete(task)) continue;
+    const calendar = calendarFor(task);
+    const hours = remainingHours(task);
+
+    let finish = projectFinish;
+    let maxStart: number | null = null;
+    for (const rel of successorMap.get(task.taskId) || []) {
+      const succ = taskMap.get(rel.taskId)!;
+      const succDates = late.get(succ.taskId);
+      if (!succDates || NON_DRIVING_TYPES.has(succ.taskType || '')) continue;
+      // The lag is on this (the predecessor's) calendar
+      const lag = rel.lag || 0;
+      switch (rel.predType) {
+        case 'PR_SS':
+          maxStart = Math.min(maxStart ?? Infinity, addWorkHours(calendar, succDates.start, -lag));
+          break;
+        case 'PR_FF':
+          finish = Math.min(finish, addWorkHours(calendar, succDates.finish, -lag));
+          break;
+        case 'PR_SF':
+          maxStart = Math.min(maxStart ?? Infinity, addWorkHours(calendar, succDates.finish, -lag));
+          break;
+        case 'PR_FS':
+        default:
+          finish = Math.min(finish, addWorkHours(calendar, succDates.start, -lag));
+      }
+    }
+
+    const cstr = constraintDate(task);
+    if (cstr !== null) {
+      if (['CS_MEO', 'CS_MEOB', 'CS_MANDFIN'].includes(task.cstrType || '')) finish = Math.min(finish, cstr);
+      if (['CS_MSO', 'CS_MSOB', 'CS_MANDSTART'].includes(task.cstrType || '')) maxStart = Math.min(maxStart ?? Infinity, cstr);
+    }
+
+    if (task.taskType !== START_MILESTONE) finish = previousWorkTime(calendar, finish);
+    let start = addWorkHours(calendar, finish, -hours);
+    if (maxStart !== null && maxStart < start) {
+      start = task.taskType === FINISH_MILESTONE ? maxStart : nextWorkTime(calendar, maxStart);
+      finish = addWorkHours(calendar, start, hours);
+    }
+    late.set(task.taskId, { start, finish });
+  }
+
+  return tasks.map(task => {
+    const earlyDates = early.get(task.taskId);
+    const lateDates = late.get(task.taskId);
+    if (isComplete(task)) {
+      return { ...task, totalFloat: null };
+    }
+    if (!earlyDates || !lateDates || NON_DRIVING_TYPES.has(task.taskType || '')) {
+      return task;
+    }
+    const totalFloat = workHoursBetween(calendarFor(task), earlyDates.finish, lateDates.finish);
+    return { ...task, totalFloat: Math.round(totalFloat * 100) / 100 };
+  });
+}
+
+/**
+ * Elapsed-time CPM on the exported dates. This performs a backward pass to
+ * calculate Late Finish and Late Start, then calculates Total Float for each task
  */
-export function calculateCriticalPath(tasks: XERTask[], relationships: XERRelationship[]): XERTask[] {
+function calculateElapsedFloat(tasks: XERTask[], relationships: XERRelationship[]): XERTask[] {
   // Build task map for quick lookup
   const taskMap = new Map<string, XERTask>();
   tasks.forEach(task => taskMap.set(task.taskId, task));
@@ -212,6 +501,50 @@ export function calculateCriticalPath(tasks: XERTask[], relationships: XERRelati
   });
 }
 
+const toAmount = (...values: Array<string | undefined>) =>
+  values.reduce((sum, value) => sum + (value ? parseFloat(value) || 0 : 0), 0);
+
+/**
+ * Resources, resource assignments and cost accounts from the RSRC, TASKRSRC and ACCOUNT tables
+ */
+function extractResourceData(tables: Record<string, any[]>): Pick<XERData, 'resources' | 'resourceAssignments' | 'accounts'> {
+  const resources: XERResource[] = (tables['RSRC'] || []).map((rsrc: any) => ({
+    resourceId: rsrc.rsrc_id || '',
+    resourceCode: rsrc.rsrc_short_name || rsrc.rsrc_name || '',
+    resourceName: rsrc.rsrc_name || '',
+    resourceType: rsrc.rsrc_type || null,
+    parentResourceId: rsrc.parent_rsrc_id || null,
+  }));
+
+  const resourceAssignments: XERResourceAssignment[] = (tables['TASKRSRC'] || []).map((assignment: any) => ({
+    assignmentId: assignment.taskrsrc_id || '',
+    taskId: assignment.task_id || '',
+    resourceId: assignment.rsrc_id || null,
+    accountId: assignment.acct_id || null,
+    budgetedUnits: toAmount(assignment.target_qty),
+    actualUnits: toAmount(assignment.act_reg_qty, assignment.act_ot_qty),
+    remainingUnits: toAmount(assignment.remain_qty),
+    budgetedCost: toAmount(assignment.target_cost),
+    actualCost: toAmount(assignment.act_reg_cost, assignment.act_ot_cost),
+    remainingCost: toAmount(assignment.remain_cost),
+    plannedStart: assignment.target_start_date || null,
+    plannedFinish: assignment.target_end_date || null,
+    actualStart: assignment.act_start_date || null,
+    actualFinish: assignment.act_end_date || null,
+    remainingStart: assignment.restart_date || null,
+    remainingFinish: assignment.reend_date || null,
+  }));
+
+  const accounts: XERAccount[] = (tables['ACCOUNT'] || []).map((account: any) => ({
+    accountId: account.acct_id || '',
+    accountCode: account.acct_short_name || '',
+    accountName: account.acct_name || '',
+    parentAccountId: account.parent_acct_id || null,
+  }));
+
+  return { resources, resourceAssignments, accounts };
+}
+
 /**
  * Parse XER file (Primavera P6 tab-delimited format)
  * XER format:
@@ -263,6 +596,12 @@ export async function parseXERFile(filePath: string): Promise<XERData> {
     finishDate: projectData.plan_end_date || null,
   } : null;
 
+  // Count resource assignments per activity
+  const resourceCounts = new Map<string, number>();
+  (tables['TASKRSRC'] || []).forEach((assignment: any) => {
+    resourceCounts.set(assignment.task_id, (resourceCounts.get(assignment.task_id) || 0) + 1);
+  });
+
   // Extract tasks
   const tasks: XERTask[] = (tables['TASK'] || []).map((task: any) => ({
     taskId: task.task_id || '',
@@ -279,6 +618,10 @@ export async function parseXERFile(filePath: string): Promise<XERData> {
     status: task.status_code || null,
     cstrType: task.cstr_type || null,
     cstrDate: task.cstr_date || null,
+    actualStart: task.act_start_date || null,
+    actualFinish: task.act_end_date || null,
+    remainingDuration: task.remain_drtn_hr_cnt ? parseFloat(task.remain_drtn_hr_cnt) : null,
+    resourceCount: resourceCounts.get(task.task_id) || 0,
   }));
 
   // Extract WBS
@@ -299,13 +642,10 @@ export async function parseXERFile(filePath: string): Promise<XERData> {
   }));
 
   // Extract calendars
-  const calendars: XERCalendar[] = (tables['CALENDAR'] || []).map((cal: any) => ({
-    calendarId: cal.clndr_id || '',
-    calendarName: cal.clndr_name || '',
-  }));
+  const calendars: XERCalendar[] = extractCalendars(tables['CALENDAR'] || []);
 
   // Calculate critical path (recalculate total float)
-  const tasksWithFloat = calculateCriticalPath(tasks, relationships);
+  const tasksWithFloat = calculateCriticalPath(tasks, relationships, { calendars, dataDate: project?.dataDate });
 
   // Debug: Log float calculation statistics
   const floatStats = {
@@ -329,7 +669,8 @@ export async function parseXERFile(filePath: string): Promise<XERData> {
     tasks: tasksWithFloat,
     wbs,
     relationships,
-    calendars
+    calendars,
+    ...extractResourceData(tables),
   };
 }
 
@@ -377,6 +718,12 @@ export async function parseXERBuffer(buffer: Buffer): Promise<XERData> {
     finishDate: projectData.plan_end_date || null,
   } : null;
 
+  // Count resource assignments per activity
+  const resourceCounts = new Map<string, number>();
+  (tables['TASKRSRC'] || []).forEach((assignment: any) => {
+    resourceCounts.set(assignment.task_id, (resourceCounts.get(assignment.task_id) || 0) + 1);
+  });
+
   // Extract tasks
   const tasks: XERTask[] = (tables['TASK'] || []).map((task: any) => ({
     taskId: task.task_id || '',
@@ -393,6 +740,10 @@ export async function parseXERBuffer(buffer: Buffer): Promise<XERData> {
     status: task.status_code || null,
     cstrType: task.cstr_type || null,
     cstrDate: task.cstr_date || null,
+    actualStart: task.act_start_date || null,
+    actualFinish: task.act_end_date || null,
+    remainingDuration: task.remain_drtn_hr_cnt ? parseFloat(task.remain_drtn_hr_cnt) : null,
+    resourceCount: resourceCounts.get(task.task_id) || 0,
   }));
 
   // Extract WBS
@@ -413,13 +764,10 @@ export async function parseXERBuffer(buffer: Buffer): Promise<XERData> {
   }));
 
   // Extract calendars
-  const calendars: XERCalendar[] = (tables['CALENDAR'] || []).map((cal: any) => ({
-    calendarId: cal.clndr_id || '',
-    calendarName: cal.clndr_name || '',
-  }));
+  const calendars: XERCalendar[] = extractCalendars(tables['CALENDAR'] || []);
 
   // Calculate critical path (recalculate total float)
-  const tasksWithFloat = calculateCriticalPath(tasks, relationships);
+  const tasksWithFloat = calculateCriticalPath(tasks, relationships, { calendars, dataDate: project?.dataDate });
 
   // Debug: Log float calculation statistics
   const floatStats = {
@@ -443,6 +791,7 @@ export async function parseXERBuffer(buffer: Buffer): Promise<XERData> {
     tasks: tasksWithFloat,
     wbs,
     relationships,
-    calendars
+    calendars,
+    ...extractResourceData(tables),
   };
 }
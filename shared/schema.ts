@@ -1,8 +1,16 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, unique, check, index, numeric, bigint } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, unique, check, index, numeric, bigint, vector, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Postgres full-text search document (drizzle has no built-in tsvector column).
+// Search vectors are generated columns, so they are never written by the app.
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
 // === REPLIT AUTH SESSION STORAGE ===
 // Session storage table for Replit Auth (from javascript_log_in_with_replit blueprint)
 export const sessions = pgTable(
@@ -426,11 +434,12 @@ export const contractDocumentChunks = pgTable("contract_document_chunks", {
   revisionId: varchar("revision_id").notNull().references(() => contractReviewDocuments.id, { onDelete: 'cascade' }),
   chunkIndex: integer("chunk_index").notNull(), // Order of chunk in document
   chunkText: text("chunk_text").notNull(), // The actual text content
-  embedding: text("embedding").notNull(), // JSON string of embedding vector (1536 dimensions for text-embedding-3-small)
+  embedding: vector("embedding", { dimensions: 1536 }).notNull(), // pgvector (1536 dimensions for text-embedding-3-small)
   tokenCount: integer("token_count").notNull(), // Number of tokens in this chunk
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
   uniqueChunk: unique("contract_chunks_revision_index_unique").on(table.revisionId, table.chunkIndex),
+  embeddingIdx: index("contract_chunks_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
 }));
 
 export const insertContractDocumentChunkSchema = createInsertSchema(contractDocumentChunks).omit({
@@ -540,6 +549,72 @@ export const insertContractNoticeSchema = createInsertSchema(contractNotices).om
 export type InsertContractNotice = z.infer<typeof insertContractNoticeSchema>;
 export type ContractNotice = typeof contractNotices.$inferSelect;
 
+// Notice Obligations - live instances of extracted contract notices, created when a trigger event occurs.
+// Timing is snapshotted from the notice so the obligation survives re-extraction of the contract.
+export const noticeObligations = pgTable("notice_obligations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  revisionId: varchar("revision_id").notNull(), // References contract_review_documents.id
+  noticeKey: text("notice_key").notNull(), // notice_id from the extraction (e.g., VAR-01)
+  title: text("title").notNull(),
+  clauseRef: text("clause_ref"),
+  senderParty: text("sender_party"),
+  recipientParty: text("recipient_party"),
+  requiredAction: text("required_action"),
+  triggerEventDate: text("trigger_event_date").notNull(), // yyyy-mm-dd; the deadline/renewal date when leadTimeRelativeTo is not 'trigger_event'
+  triggerDescription: text("trigger_description"),
+  leadTimeDays: integer("lead_time_days"), // null = no time limit stated
+  leadTimeBusinessDays: boolean("lead_time_business_days").notNull().default(false),
+  leadTimeRelativeTo: text("lead_time_relative_to").notNull().default("trigger_event"), // 'trigger_event' | 'deadline' | 'renewal_date'
+  dueDate: text("due_date"), // yyyy-mm-dd, computed from the trigger date, lead time and project holidays
+  timeBarDays: integer("time_bar_days"),
+  timeBarDate: text("time_bar_date"), // yyyy-mm-dd, claim barred after this date
+  responseRequired: boolean("response_required").notNull().default(false),
+  responseTimeframeDays: integer("response_timeframe_days"),
+  responseBusinessDays: boolean("response_business_days").notNull().default(false),
+  responseDueDate: text("response_due_date"), // yyyy-mm-dd, computed from issuedDate once the notice is issued
+  noResponseConsequence: text("no_response_consequence"),
+  status: text("status").notNull().default("open"), // 'open' | 'issued' | 'responded' | 'closed'
+  issuedDate: text("issued_date"),
+  letterId: varchar("letter_id").references(() => correspondenceLetters.id, { onDelete: "set null" }), // Letter the notice was issued with
+  respondedDate: text("responded_date"),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => userAccounts.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  projectStatusIdx: index("notice_obligations_project_status_idx").on(table.projectId, table.status),
+  letterIdx: index("notice_obligations_letter_idx").on(table.letterId),
+}));
+
+export const insertNoticeObligationSchema = createInsertSchema(noticeObligations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertNoticeObligation = z.infer<typeof insertNoticeObligationSchema>;
+export type NoticeObligation = typeof noticeObligations.$inferSelect;
+
+// Project Holidays - non-business days skipped when counting business-day notice periods
+export const projectHolidays = pgTable("project_holidays", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  date: text("date").notNull(), // yyyy-mm-dd
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  projectDateUnique: unique("project_holidays_project_date_unique").on(table.projectId, table.date),
+}));
+
+export const insertProjectHolidaySchema = createInsertSchema(projectHolidays).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertProjectHoliday = z.infer<typeof insertProjectHolidaySchema>;
+export type ProjectHoliday = typeof projectHolidays.$inferSelect;
+
 // Business Units
 export const businessUnits = pgTable("business_units", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -638,6 +713,7 @@ export const companies = pgTable("companies", {
   aiRiskTolerance: text("ai_risk_tolerance"),
   aiContractReviewModel: text("ai_contract_review_model").default('claude-sonnet-4-20250514'),
   aiLetterModel: text("ai_letter_model").default('claude-sonnet-4-20250514'),
+  embeddingProvider: text("embedding_provider").notNull().default('voyage'), // voyage | openai | local (see server/embeddingProviders.ts)
   // Layout preferences
   gridRowSpacing: text("grid_row_spacing").default('narrow'), // narrow, medium, wide
   // Theme colors
@@ -653,6 +729,7 @@ export const companies = pgTable("companies", {
 
 export const insertCompanySchema = createInsertSchema(companies).omit({
   id: true,
+  embeddingProvider: true, // Changed through the embedding settings route, which re-embeds existing documents
   createdAt: true,
 });
 
@@ -701,24 +778,53 @@ export type InsertResourceType = z.infer<typeof insertResourceTypeSchema>;
 export type ResourceType = typeof resourceTypes.$inferSelect;
 
 // RFIs (Request for Information)
+// A file attached to an RFI or RFI comment (uploaded via server/rfiAttachments.ts).
+// Older comments may only have name and url.
+export type RFIAttachment = {
+  id?: string;
+  name: string;
+  url: string; // /api/rfis/:rfiId/attachments/:id
+  size?: number;
+  contentType?: string;
+  uploadedBy?: string | null; // userAccounts.id
+  uploadedAt?: string;
+};
+
 export const rfis = pgTable("rfis", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
   rfiNumber: text("rfi_number").notNull(),
   title: text("title").notNull(),
   description: text("description"),
-  status: text("status").notNull().default("open"), // 'open' | 'answered' | 'closed'
+  status: text("status").notNull().default("draft"), // 'draft' | 'issued' | 'responded' | 'closed' (changed via the transition route)
   priority: text("priority").notNull().default("medium"), // 'low' | 'medium' | 'high'
   raisedBy: text("raised_by").notNull(),
   assignedTo: text("assigned_to"),
-  dueDate: text("due_date"),
-  isOverdue: boolean("is_overdue").notNull().default(false),
+  dueDate: text("due_date"), // yyyy-mm-dd required response date; overrides slaDueDate when set
+  slaDueDate: text("sla_due_date"), // yyyy-mm-dd, issue date + the project's response SLA for the priority
+  isOverdue: boolean("is_overdue").notNull().default(false), // Computed by the RFI SLA job (server/rfiSla.ts)
+  daysOutstanding: integer("days_outstanding").notNull().default(0), // Calendar days from issue to response (or today)
+  ballInCourt: text("ball_in_court").default("originator"), // Who owes the next action: 'originator' (raisedBy) | 'recipient' (assignedTo) | null when closed
+  issuedAt: timestamp("issued_at"),
+  respondedAt: timestamp("responded_at"),
+  closedAt: timestamp("closed_at"),
+  attachments: jsonb("attachments").$type<RFIAttachment[]>(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => ({
+  projectStatusIdx: index("rfis_project_status_idx").on(table.projectId, table.status),
+}));
 
 export const insertRFISchema = createInsertSchema(rfis).omit({
   id: true,
+  slaDueDate: true,
+  isOverdue: true,
+  daysOutstanding: true,
+  ballInCourt: true,
+  issuedAt: true,
+  respondedAt: true,
+  closedAt: true,
+  attachments: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -726,19 +832,51 @@ export const insertRFISchema = createInsertSchema(rfis).omit({
 export type InsertRFI = z.infer<typeof insertRFISchema>;
 export type RFI = typeof rfis.$inferSelect;
 
+// RFI Status History - every status transition, with who made it and the ball-in-court after it
+export const rfiStatusHistory = pgTable("rfi_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  rfiId: varchar("rfi_id").notNull().references(() => rfis.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status"), // null when the RFI was created
+  toStatus: text("to_status").notNull(),
+  ballInCourt: text("ball_in_court"),
+  note: text("note"),
+  changedBy: varchar("changed_by").references(() => userAccounts.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  rfiIdx: index("rfi_status_history_rfi_idx").on(table.rfiId, table.createdAt),
+}));
+
+export type RFIStatusHistory = typeof rfiStatusHistory.$inferSelect;
+
+// RFI SLA Rules - response time per priority for a project (defaults in server/rfiSla.ts apply when unset)
+export const rfiSlaRules = pgTable("rfi_sla_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  priority: text("priority").notNull(), // 'low' | 'medium' | 'high'
+  responseDays: integer("response_days").notNull(),
+  businessDays: boolean("business_days").notNull().default(true), // Skip weekends and project holidays
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  projectPriorityUnique: unique("rfi_sla_rules_project_priority_unique").on(table.projectId, table.priority),
+}));
+
+export type RFISlaRule = typeof rfiSlaRules.$inferSelect;
+
 // RFI Comments
 export const rfiComments = pgTable("rfi_comments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   rfiId: varchar("rfi_id").notNull().references(() => rfis.id, { onDelete: "cascade" }),
   userAccountId: varchar("user_account_id").notNull().references(() => userAccounts.id),
   content: text("content").notNull(),
-  attachments: jsonb("attachments"),
+  attachments: jsonb("attachments").$type<RFIAttachment[]>(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export const insertRFICommentSchema = createInsertSchema(rfiComments).omit({
   id: true,
+  attachments: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -788,19 +926,26 @@ export const correspondenceLetters = pgTable("correspondence_letters", {
   fileUrl: text("file_url"), // Object storage or SharePoint URL
   fileKey: text("file_key"), // Object storage key for deletion
   extractedText: text("extracted_text"), // PDF text extraction
-  embeddingVector: text("embedding_vector"), // OpenAI embedding as JSON array string
+  embeddingVector: vector("embedding_vector", { dimensions: 1024 }), // pgvector, 1024 dimensions (shorter vectors zero-padded)
+  embeddingModel: text("embedding_model"), // Model that produced embeddingVector (e.g. voyage-law-2)
+  embeddingDimensions: integer("embedding_dimensions"), // Dimensions the model produced, before padding
   sender: text("sender"),
   recipient: text("recipient"),
   subject: text("subject"),
   letterDate: text("letter_date"),
   category: text("category"), // 'claim', 'variation', 'notice', 'general', etc.
   source: text("source").notNull().default("upload"), // 'upload' | 'sharepoint'
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', coalesce(subject, '')), 'A') || setweight(to_tsvector('english', coalesce(sender, '') || ' ' || coalesce(recipient, '')), 'B') || setweight(to_tsvector('english', left(coalesce(extracted_text, ''), 200000)), 'C')`
+  ),
   uploadedBy: varchar("uploaded_by").references(() => userAccounts.id),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
   // Unique letter number per project
-  uniqueLetterNumberPerProject: unique("correspondence_letters_project_number_unique").on(table.projectId, table.letterNumber)
+  uniqueLetterNumberPerProject: unique("correspondence_letters_project_number_unique").on(table.projectId, table.letterNumber),
+  embeddingIdx: index("correspondence_letters_embedding_idx").using("hnsw", table.embeddingVector.op("vector_cosine_ops")),
+  searchVectorIdx: index("correspondence_letters_search_vector_idx").using("gin", table.searchVector),
 }));
 
 export const insertCorrespondenceLetterSchema = createInsertSchema(correspondenceLetters).omit({
@@ -884,6 +1029,27 @@ export const insertProgramSchema = createInsertSchema(programs).omit({
 export type InsertProgram = z.infer<typeof insertProgramSchema>;
 export type Program = typeof programs.$inferSelect;
 
+// Program Resource Mappings - XER resources (by P6 resource ID) mapped to project resource rates
+export const programResourceMappings = pgTable("program_resource_mappings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  xerResourceCode: text("xer_resource_code").notNull(), // rsrc_short_name
+  resourceRateId: varchar("resource_rate_id").notNull().references(() => resourceRates.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueCodePerProject: unique("program_resource_mappings_project_code_unique").on(table.projectId, table.xerResourceCode),
+}));
+
+export const insertProgramResourceMappingSchema = createInsertSchema(programResourceMappings).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertProgramResourceMapping = z.infer<typeof insertProgramResourceMappingSchema>;
+export type ProgramResourceMapping = typeof programResourceMappings.$inferSelect;
+
 // === RISK REGISTER ===
 
 // Likelihood Scales - Project-level likelihood rating definitions
@@ -1063,6 +1229,11 @@ export const risks = pgTable("risks", {
   pessimisticP90: integer("pessimistic_p90"), // Dollars
   probability: integer("probability"), // Percentage 0-100
   
+  // Schedule impact (Three-point estimate, sampled jointly with cost in Monte Carlo)
+  scheduleOptimisticP10: integer("schedule_optimistic_p10"), // Days
+  scheduleLikelyP50: integer("schedule_likely_p50"), // Days
+  schedulePessimisticP90: integer("schedule_pessimistic_p90"), // Days
+  
   // Probability Distribution Model for Monte Carlo simulation
   distributionModel: text("distribution_model"), // "normal" | "triangular" | "pert" | "uniform" | "lognormal" | "weibull"
   isDistributionAiSelected: boolean("is_distribution_ai_selected").default(false), // Tracks if AI selected or user selected
@@ -1127,6 +1298,8 @@ export const monteCarloSnapshots = pgTable("monte_carlo_snapshots", {
   // Simulation parameters
   iterations: integer("iterations").notNull(),
   targetPercentile: integer("target_percentile").notNull(),
+  seed: integer("seed"), // PRNG seed - rerunning with the same seed and inputs reproduces the result
+  inputHash: varchar("input_hash"), // SHA-256 of the simulation inputs (risks, correlation groups, settings)
   
   // Summary results
   p10: integer("p10").notNull(),
@@ -1142,6 +1315,19 @@ export const monteCarloSnapshots = pgTable("monte_carlo_snapshots", {
   percentileTable: jsonb("percentile_table").notNull(), // Array of {percentile, value} for probability bands
   sensitivityAnalysis: jsonb("sensitivity_analysis").notNull(), // Array of {riskId, riskNumber, title, varianceContribution} for tornado chart
   
+  // Schedule results (null when no risk carries a schedule impact)
+  scheduleP10: integer("schedule_p10"), // Days
+  scheduleP50: integer("schedule_p50"), // Days
+  scheduleP90: integer("schedule_p90"), // Days
+  scheduleMean: integer("schedule_mean"), // Days
+  scheduleTargetValue: integer("schedule_target_value"), // Days
+  scheduleDistribution: jsonb("schedule_distribution"), // Sorted array of delay (days) per iteration
+  schedulePercentileTable: jsonb("schedule_percentile_table"), // Array of {percentile, value, varianceFromBase} in days
+  scheduleSensitivityAnalysis: jsonb("schedule_sensitivity_analysis"), // Tornado data for schedule drivers
+  jointSamples: jsonb("joint_samples"), // Sampled [{cost, days}] pairs for the cost/time scatter
+  jointTargetConfidence: integer("joint_target_confidence"), // Percentage 0-100 of iterations within both cost and schedule targets
+  correlationImpact: jsonb("correlation_impact"), // {uncorrelated, correlated} P80/P90 when correlation groups applied
+  
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -1397,8 +1583,11 @@ export const ediscoveryEmails = pgTable("ediscovery_emails", {
   uploadId: varchar("upload_id").notNull().references(() => ediscoveryUploads.id, { onDelete: "cascade" }),
   sourceFilename: text("source_filename"), // Original PST filename for tracking
   messageId: text("message_id"), // Email Message-ID header
-  threadId: text("thread_id"), // For threading (future)
+  inReplyTo: text("in_reply_to"), // In-Reply-To header
+  referenceIds: jsonb("reference_ids").$type<string[]>(), // Message IDs from the References header
+  threadId: text("thread_id"), // Id of the earliest email in the conversation (set by ediscoveryThreading)
   subject: text("subject"),
+  normalizedSubject: text("normalized_subject"), // Subject without RE:/FW: prefixes, lowercase
   fromAddress: text("from_address"), // Normalized (lowercase, trimmed)
   toAddresses: jsonb("to_addresses").$type<string[]>(), // Array of email addresses
   ccAddresses: jsonb("cc_addresses").$type<string[]>(),
@@ -1409,8 +1598,17 @@ export const ediscoveryEmails = pgTable("ediscovery_emails", {
   bodyHtml: text("body_html"), // HTML body (optional)
   snippet: text("snippet"), // First 200 chars for preview
   sha256: text("sha256").notNull(), // SHA-256 of email body
-  embedding: text("embedding"), // Vector embedding as JSON array (will be converted to pgvector)
-  searchVector: text("search_vector"), // tsvector for full-text search (generated column in SQL)
+  contentMinhash: jsonb("content_minhash").$type<number[]>(), // MinHash of body shingles for near-duplicate detection (null if too short)
+  isInclusive: boolean("is_inclusive").notNull().default(true), // False if a later email in the thread contains this one
+  duplicateOfId: varchar("duplicate_of_id"), // Original email this is a copy of (from an overlapping PST)
+  duplicateType: text("duplicate_type"), // exact|near
+  duplicateSimilarity: integer("duplicate_similarity"), // Estimated similarity to the original 0-100
+  embedding: vector("embedding", { dimensions: 512 }), // pgvector, 512 dimensions (shorter vectors zero-padded)
+  embeddingModel: text("embedding_model"), // Model that produced embedding (e.g. voyage-3-lite)
+  embeddingDimensions: integer("embedding_dimensions"), // Dimensions the model produced, before padding
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', coalesce(subject, '')), 'A') || setweight(to_tsvector('english', coalesce(from_address, '')), 'B') || setweight(to_tsvector('english', left(coalesce(body_text, ''), 200000)), 'C')`
+  ),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
   companyIdx: index("ediscovery_emails_company_idx").on(table.companyId),
@@ -1419,6 +1617,10 @@ export const ediscoveryEmails = pgTable("ediscovery_emails", {
   sentAtIdx: index("ediscovery_emails_sent_at_idx").on(table.sentAt),
   messageIdIdx: index("ediscovery_emails_message_id_idx").on(table.messageId),
   sourceFilenameIdx: index("ediscovery_emails_source_filename_idx").on(table.sourceFilename),
+  threadIdx: index("ediscovery_emails_thread_idx").on(table.threadId),
+  duplicateOfIdx: index("ediscovery_emails_duplicate_of_idx").on(table.duplicateOfId),
+  embeddingIdx: index("ediscovery_emails_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+  searchVectorIdx: index("ediscovery_emails_search_vector_idx").using("gin", table.searchVector),
 }));
 
 export const insertEdiscoveryEmailSchema = createInsertSchema(ediscoveryEmails).omit({
@@ -1439,10 +1641,15 @@ export const ediscoveryAttachments = pgTable("ediscovery_attachments", {
   sizeBytes: integer("size_bytes").notNull(),
   sha256: text("sha256").notNull(),
   storageKey: text("storage_key").notNull(), // Object storage key or local path
+  extractedText: text("extracted_text"), // Text of PDF/DOCX/XLSX/MSG attachments for search (null if not extracted)
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', filename), 'B') || setweight(to_tsvector('english', left(coalesce(extracted_text, ''), 200000)), 'D')`
+  ),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
   companyIdx: index("ediscovery_attachments_company_idx").on(table.companyId),
   emailIdx: index("ediscovery_attachments_email_idx").on(table.emailId),
+  searchVectorIdx: index("ediscovery_attachments_search_vector_idx").using("gin", table.searchVector),
 }));
 
 export const insertEdiscoveryAttachmentSchema = createInsertSchema(ediscoveryAttachments).omit({
@@ -1475,6 +1682,130 @@ export const insertEdiscoveryEmailTagSchema = createInsertSchema(ediscoveryEmail
 export type InsertEdiscoveryEmailTag = z.infer<typeof insertEdiscoveryEmailTagSchema>;
 export type EdiscoveryEmailTag = typeof ediscoveryEmailTags.$inferSelect;
 
+// eDiscovery Production Sets - Emails selected for review and production in a dispute
+export const ediscoveryProductionSets = pgTable("ediscovery_production_sets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  criteria: jsonb("criteria").$type<{
+    q?: string;
+    from?: string;
+    dateFrom?: string;
+    dateTo?: string;
+    hasAttachments?: boolean;
+    tags?: string[];
+  }>().notNull(), // Saved search/tag query that selects the set's emails
+  batesPrefix: text("bates_prefix").notNull(), // e.g. "ABC" gives ABC000001
+  batesDigits: integer("bates_digits").notNull().default(6),
+  endorsement: text("endorsement"), // Legend stamped on each page, e.g. "CONFIDENTIAL"
+  createdById: varchar("created_by_id").notNull().references(() => people.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  projectIdx: index("ediscovery_production_sets_project_idx").on(table.projectId),
+}));
+
+export const insertEdiscoveryProductionSetSchema = createInsertSchema(ediscoveryProductionSets, {
+  criteria: z.object({
+    q: z.string().optional(),
+    from: z.string().optional(),
+    dateFrom: z.string().optional(),
+    dateTo: z.string().optional(),
+    hasAttachments: z.boolean().optional(),
+    tags: z.array(z.string()).optional(),
+  }),
+}).omit({
+  id: true,
+  companyId: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertEdiscoveryProductionSet = z.infer<typeof insertEdiscoveryProductionSetSchema>;
+export type EdiscoveryProductionSet = typeof ediscoveryProductionSets.$inferSelect;
+
+// eDiscovery Production Set Emails - Emails in a set with their review decision
+export const ediscoveryProductionSetEmails = pgTable("ediscovery_production_set_emails", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productionSetId: varchar("production_set_id").notNull().references(() => ediscoveryProductionSets.id, { onDelete: "cascade" }),
+  emailId: varchar("email_id").notNull().references(() => ediscoveryEmails.id, { onDelete: "cascade" }),
+  reviewStatus: text("review_status").notNull().default("unreviewed"), // unreviewed|responsive|privileged|not_responsive
+  privilegeBasis: text("privilege_basis"), // e.g. "Legal advice privilege" (privilege log)
+  reviewNote: text("review_note"),
+  reviewedById: varchar("reviewed_by_id").references(() => people.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  setIdx: index("ediscovery_production_set_emails_set_idx").on(table.productionSetId),
+  emailIdx: index("ediscovery_production_set_emails_email_idx").on(table.emailId),
+  uniqSetEmail: unique().on(table.productionSetId, table.emailId),
+}));
+
+export type EdiscoveryProductionSetEmail = typeof ediscoveryProductionSetEmails.$inferSelect;
+
+// eDiscovery Productions - Each numbered production of a set (PDF, privilege log and load files)
+export const ediscoveryProductions = pgTable("ediscovery_productions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productionSetId: varchar("production_set_id").notNull().references(() => ediscoveryProductionSets.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  volume: text("volume").notNull(), // e.g. "ABC001"
+  batesPrefix: text("bates_prefix").notNull(),
+  batesStart: integer("bates_start"), // Null if nothing new was produced
+  batesEnd: integer("bates_end"),
+  emailCount: integer("email_count").notNull().default(0),
+  pageCount: integer("page_count").notNull().default(0),
+  privilegedCount: integer("privileged_count").notNull().default(0), // Withheld and logged
+  storageKey: text("storage_key").notNull(), // ZIP of the production in object storage
+  producedById: varchar("produced_by_id").notNull().references(() => people.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  setIdx: index("ediscovery_productions_set_idx").on(table.productionSetId),
+  projectIdx: index("ediscovery_productions_project_idx").on(table.projectId),
+}));
+
+export type EdiscoveryProduction = typeof ediscoveryProductions.$inferSelect;
+
+// eDiscovery Bates Numbers - Page range given to an email when first produced. Numbers are
+// per project and prefix, so later productions continue the sequence and never re-number.
+export const ediscoveryBatesNumbers = pgTable("ediscovery_bates_numbers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  batesPrefix: text("bates_prefix").notNull(),
+  emailId: varchar("email_id").notNull().references(() => ediscoveryEmails.id, { onDelete: "cascade" }),
+  productionId: varchar("production_id").notNull().references(() => ediscoveryProductions.id, { onDelete: "cascade" }),
+  batesStart: integer("bates_start").notNull(),
+  batesEnd: integer("bates_end").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  projectPrefixIdx: index("ediscovery_bates_numbers_project_prefix_idx").on(table.projectId, table.batesPrefix),
+  productionIdx: index("ediscovery_bates_numbers_production_idx").on(table.productionId),
+  uniqProjectPrefixEmail: unique().on(table.projectId, table.batesPrefix, table.emailId),
+  uniqProjectPrefixStart: unique().on(table.projectId, table.batesPrefix, table.batesStart),
+}));
+
+export type EdiscoveryBatesNumber = typeof ediscoveryBatesNumbers.$inferSelect;
+
+// Privilege log numbers (PRIV-0001...) of privileged emails withheld, per project and Bates prefix,
+// so each email is logged once and later volumes continue the numbering
+export const ediscoveryPrivilegeLogEntries = pgTable("ediscovery_privilege_log_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  batesPrefix: text("bates_prefix").notNull(),
+  emailId: varchar("email_id").notNull().references(() => ediscoveryEmails.id, { onDelete: "cascade" }),
+  productionId: varchar("production_id").notNull().references(() => ediscoveryProductions.id, { onDelete: "cascade" }),
+  logNumber: integer("log_number").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  projectPrefixIdx: index("ediscovery_privilege_log_entries_project_prefix_idx").on(table.projectId, table.batesPrefix),
+  uniqProjectPrefixEmail: unique().on(table.projectId, table.batesPrefix, table.emailId),
+  uniqProjectPrefixNumber: unique().on(table.projectId, table.batesPrefix, table.logNumber),
+}));
+
+export type EdiscoveryPrivilegeLogEntry = typeof ediscoveryPrivilegeLogEntries.$inferSelect;
+
 // === BOQ (BILL OF QUANTITIES) SYSTEM ===
 
 // BOQ Revisions - manages BOQ versions per project
@@ -1561,6 +1892,8 @@ export const pEventTags = pgTable("p_event_tags", {
   relatedRFI: text("related_rfi"),
   owner: text("owner"),
   pricingBasisId: varchar("pricing_basis_id").references(() => pPricingBasis.id),
+  valueClaimed: numeric("value_claimed", { precision: 15, scale: 2 }),
+  valueApproved: numeric("value_approved", { precision: 15, scale: 2 }),
   eotDaysClaimed: integer("eot_days_claimed"),
   eotDaysApproved: integer("eot_days_approved"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -1584,12 +1917,14 @@ export type PEventTag = typeof pEventTags.$inferSelect;
 // Final Quantities - tracks quantities with event tag associations
 export const pFinalQty = pgTable("p_final_qty", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  boqItemId: varchar("boq_item_id").references(() => boqItems.id, { onDelete: "cascade" }),
   eventTagId: varchar("event_tag_id").references(() => pEventTags.id, { onDelete: "set null" }),
   qty: numeric("qty", { precision: 15, scale: 4 }),
   comments: text("comments"),
   date: timestamp("date"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
+  boqItemIdx: index("p_final_qty_boq_item_idx").on(table.boqItemId),
   eventTagIdx: index("p_final_qty_event_tag_idx").on(table.eventTagId),
 }));
 
@@ -1613,11 +1948,14 @@ export const boqItems = pgTable("boq_items", {
   amount: numeric("amount", { precision: 15, scale: 2 }),
   notes: text("notes"),
   level: integer("level"), // Hierarchy level: only for headings (items without item number), typically level 2
+  eventTagId: varchar("event_tag_id").references(() => pEventTags.id, { onDelete: "set null" }), // Variation/claim this item belongs to
+  rateOverride: boolean("rate_override").notNull().default(false), // Rate entered manually although worksheets are linked
   sortingIndex: integer("sorting_index").notNull().default(0),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
   revisionSortingIdx: index("boq_items_revision_sorting_idx").on(table.revisionId, table.sortingIndex),
+  eventTagIdx: index("boq_items_event_tag_idx").on(table.eventTagId),
 }));
 
 export const insertBoqItemSchema = createInsertSchema(boqItems).omit({
@@ -1629,6 +1967,70 @@ export const insertBoqItemSchema = createInsertSchema(boqItems).omit({
 export type InsertBoqItem = z.infer<typeof insertBoqItemSchema>;
 export type BoqItem = typeof boqItems.$inferSelect;
 
+// BOQ Claim Periods - monthly progress claims (valuations) against a BOQ revision
+// Draft periods are editable; submitted periods only accept assessed (approved) values; approved periods are locked
+export const boqClaimPeriods = pgTable("boq_claim_periods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  revisionId: varchar("revision_id").notNull().references(() => boqRevisions.id),
+  periodNumber: integer("period_number").notNull(),
+  name: text("name").notNull(),
+  periodStart: timestamp("period_start"),
+  periodEnd: timestamp("period_end"),
+  status: text("status").notNull().default("draft"), // 'draft' | 'submitted' | 'approved'
+  retentionPercent: numeric("retention_percent", { precision: 5, scale: 2 }).notNull().default("0"),
+  retentionCap: numeric("retention_cap", { precision: 15, scale: 2 }), // Maximum retention held, null for no cap
+  notes: text("notes"),
+  submittedAt: timestamp("submitted_at"),
+  submittedById: varchar("submitted_by_id").references(() => people.id),
+  approvedAt: timestamp("approved_at"),
+  approvedById: varchar("approved_by_id").references(() => people.id),
+  createdById: varchar("created_by_id").notNull().references(() => people.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  projectIdx: index("boq_claim_periods_project_idx").on(table.projectId),
+  uniqProjectPeriod: unique("boq_claim_periods_project_period_unique").on(table.projectId, table.periodNumber),
+}));
+
+export const insertBoqClaimPeriodSchema = createInsertSchema(boqClaimPeriods).omit({
+  id: true,
+  status: true,
+  submittedAt: true,
+  submittedById: true,
+  approvedAt: true,
+  approvedById: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertBoqClaimPeriod = z.infer<typeof insertBoqClaimPeriodSchema>;
+export type BoqClaimPeriod = typeof boqClaimPeriods.$inferSelect;
+
+// BOQ Claim Items - cumulative progress of one BOQ item at the end of a claim period
+export const boqClaimItems = pgTable("boq_claim_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  claimPeriodId: varchar("claim_period_id").notNull().references(() => boqClaimPeriods.id, { onDelete: "cascade" }),
+  boqItemId: varchar("boq_item_id").notNull().references(() => boqItems.id, { onDelete: "no action" }), // Claimed items cannot be deleted; draft lines are removed explicitly
+  qtyComplete: numeric("qty_complete", { precision: 15, scale: 3 }), // Cumulative quantity complete to date
+  percentComplete: numeric("percent_complete", { precision: 7, scale: 4 }), // Cumulative percent complete to date (0-100)
+  claimedAmount: numeric("claimed_amount", { precision: 15, scale: 2 }).notNull().default("0"), // Cumulative value claimed to date
+  approvedAmount: numeric("approved_amount", { precision: 15, scale: 2 }), // Cumulative value assessed to date, null until assessed
+  comments: text("comments"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  boqItemIdx: index("boq_claim_items_boq_item_idx").on(table.boqItemId),
+  uniqPeriodItem: unique("boq_claim_items_period_item_unique").on(table.claimPeriodId, table.boqItemId),
+}));
+
+export const insertBoqClaimItemSchema = createInsertSchema(boqClaimItems).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type InsertBoqClaimItem = z.infer<typeof insertBoqClaimItemSchema>;
+export type BoqClaimItem = typeof boqClaimItems.$inferSelect;
+
 // Global Variables - project-wide variables for calculations
 export const globalVariables = pgTable("global_variables", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1688,6 +2090,7 @@ export const worksheets = pgTable("worksheets", {
   description: text("description"),
   unit: text("unit"),
   sortingIndex: integer("sorting_index").notNull().default(0),
+  lastLineNumber: integer("last_line_number").notNull().default(0), // Highest item line number (lq) ever assigned, so numbers are not reused
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
@@ -1697,6 +2100,7 @@ export const worksheets = pgTable("worksheets", {
 
 export const insertWorksheetSchema = createInsertSchema(worksheets).omit({
   id: true,
+  lastLineNumber: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -1704,27 +2108,50 @@ export const insertWorksheetSchema = createInsertSchema(worksheets).omit({
 export type InsertWorksheet = z.infer<typeof insertWorksheetSchema>;
 export type Worksheet = typeof worksheets.$inferSelect;
 
+// BOQ Item Worksheets - worksheets whose totals build up a BOQ item's rate (rate = sum of totals / quantity)
+export const boqItemWorksheets = pgTable("boq_item_worksheets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  boqItemId: varchar("boq_item_id").notNull().references(() => boqItems.id, { onDelete: "cascade" }),
+  worksheetId: varchar("worksheet_id").notNull().references(() => worksheets.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  worksheetIdx: index("boq_item_worksheets_worksheet_idx").on(table.worksheetId),
+  uniqueItemWorksheet: unique("boq_item_worksheets_item_worksheet_unique").on(table.boqItemId, table.worksheetId)
+}));
+
+export const insertBoqItemWorksheetSchema = createInsertSchema(boqItemWorksheets).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertBoqItemWorksheet = z.infer<typeof insertBoqItemWorksheetSchema>;
+export type BoqItemWorksheet = typeof boqItemWorksheets.$inferSelect;
+
 // Worksheet Items - line items that belong to worksheets
 export const worksheetItems = pgTable("worksheet_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   worksheetId: varchar("worksheet_id").notNull().references(() => worksheets.id, { onDelete: "cascade" }),
-  lq: numeric("lq", { precision: 15, scale: 2 }),
+  lq: integer("lq").notNull(), // Line number referenced as #LQn in formulas; assigned on insert and never reused
   description: text("description"),
   formula: text("formula"),
   resourceRateId: varchar("resource_rate_id").references(() => resourceRates.id, { onDelete: "set null" }),
-  result: numeric("result", { precision: 15, scale: 2 }).notNull().default(sql`0`), // Computed from formula (alpha chars stripped)
+  result: numeric("result", { precision: 15, scale: 2 }).notNull().default(sql`0`), // Computed from formula (global variables, resource rate codes and #LQ references resolved)
   total: numeric("total", { precision: 15, scale: 2 }).notNull().default(sql`0`), // Computed as tenderRate * result
+  formulaError: text("formula_error"), // Validation error from the last evaluation (unresolved name, circular reference), null when valid
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
   worksheetIdx: index("worksheet_items_worksheet_idx").on(table.worksheetId),
   resourceRateIdx: index("worksheet_items_resource_rate_idx").on(table.resourceRateId),
+  uniqueLine: unique("worksheet_items_worksheet_lq_unique").on(table.worksheetId, table.lq),
 }));
 
 export const insertWorksheetItemSchema = createInsertSchema(worksheetItems).omit({
   id: true,
+  lq: true, // Assigned server-side as the worksheet's next line number
   result: true, // Computed server-side from formula
   total: true, // Computed server-side as tenderRate * result
+  formulaError: true, // Computed server-side from formula
   createdAt: true,
   updatedAt: true,
 });
@@ -1843,15 +2270,21 @@ export const insertAiMessageSchema = createInsertSchema(aiMessages).omit({
 export type InsertAiMessage = z.infer<typeof insertAiMessageSchema>;
 export type AiMessage = typeof aiMessages.$inferSelect;
 
-// Contract Search Index - full-text search index per page (naive implementation)
+// Contract Search Index - page text with full-text and vector search (hybrid search in the contract viewer)
 export const contractSearchIndex = pgTable("contract_search_index", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   revisionId: varchar("revision_id").notNull().references(() => contractReviewDocuments.id, { onDelete: "cascade" }),
   pageIndex: integer("page_index").notNull(),
-  tokens: text("tokens").notNull(), // space-separated tokens for naive full-text search
+  content: text("content").notNull(), // Extracted text of the page
+  embedding: vector("embedding", { dimensions: 1024 }), // pgvector, 1024 dimensions (shorter vectors zero-padded), null if embedding failed
+  embeddingModel: text("embedding_model"), // Model that produced embedding (e.g. voyage-law-2)
+  embeddingDimensions: integer("embedding_dimensions"), // Dimensions the model produced, before padding
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`to_tsvector('english', content)`),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
   revisionIdx: index("contract_search_index_revision_idx").on(table.revisionId),
+  embeddingIdx: index("contract_search_index_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+  searchVectorIdx: index("contract_search_index_search_vector_idx").using("gin", table.searchVector),
 }));
 
 export const insertContractSearchIndexSchema = createInsertSchema(contractSearchIndex).omit({